@@ -18,15 +18,16 @@
 namespace App\Addons\billingresourcesnewservers;
 
 use App\Plugins\AppPlugin;
+use App\Addons\billingresourcesnewservers\Helpers\CreationEventHelper;
 
 class BillingResourcesNewServers implements AppPlugin
 {
     public static function processEvents(\App\Plugins\PluginEvents $event): void
     {
-        // Process plugin events here
         // Routes and Controllers are automatically registered from Routes/ and Controllers/ directories
 
-        // Add your event listeners here as needed
+        // Server creation events (server.creation.requested/succeeded/failed) are emitted on this bus
+        CreationEventHelper::register($event);
     }
 
     public static function pluginInstall(): void
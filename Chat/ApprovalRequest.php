@@ -0,0 +1,288 @@
+<?php
+
+/*
+ * This file is part of FeatherPanel.
+ *
+ * Copyright (C) 2025 MythicalSystems Studios
+ * Copyright (C) 2025 FeatherPanel Contributors
+ * Copyright (C) 2025 Cassian Gherman (aka NaysKutzu)
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * See the LICENSE file or <https://www.gnu.org/licenses/>.
+ */
+
+namespace App\Addons\billingresourcesnewservers\Chat;
+
+use App\Chat\Database;
+
+/**
+ * ApprovalRequest chat model for servers held until an admin approves or rejects them.
+ */
+class ApprovalRequest
+{
+    /**
+     * Request statuses. Pending requests wait for an admin; the rest are final.
+     *
+     * @var list<string>
+     */
+    public const STATUSES = ['pending', 'approved', 'rejected', 'failed', 'cancelled'];
+
+    /** @var list<string> */
+    public const ACTIVE_STATUSES = ['pending'];
+
+    private static string $table = 'featherpanel_billingresourcesnewservers_approval_requests';
+
+    /**
+     * Hold a server for approval.
+     *
+     * @param int $userId User ID
+     * @param array<string,mixed> $payload Validated create payload (policies already applied)
+     * @param list<array<string,mixed>> $reasons What requires the approval ({type, id, name})
+     *
+     * @return int|false Request ID or false on failure
+     */
+    public static function create(int $userId, array $payload, array $reasons): int | false
+    {
+        $pdo = Database::getPdoConnection();
+        $stmt = $pdo->prepare('INSERT INTO ' . self::$table . ' (user_id, payload, reasons) VALUES (:user_id, :payload, :reasons)');
+
+        if ($stmt->execute(['user_id' => $userId, 'payload' => json_encode($payload), 'reasons' => json_encode($reasons)])) {
+            return (int) $pdo->lastInsertId();
+        }
+
+        return false;
+    }
+
+    /**
+     * Get a request by ID.
+     *
+     * @param int $requestId Request ID
+     *
+     * @return array<string,mixed>|null Request (payload and reasons decoded) or null if not found
+     */
+    public static function getById(int $requestId): ?array
+    {
+        $pdo = Database::getPdoConnection();
+        $stmt = $pdo->prepare(self::selectSql() . ' WHERE a.id = :id LIMIT 1');
+        $stmt->execute(['id' => $requestId]);
+        $row = $stmt->fetch(\PDO::FETCH_ASSOC);
+
+        return $row ? self::decode($row) : null;
+    }
+
+    /**
+     * Get a request by ID, only if it belongs to the given user.
+     *
+     * @param int $requestId Request ID
+     * @param int $userId User ID
+     *
+     * @return array<string,mixed>|null Request or null if not found
+     */
+    public static function getByIdForUser(int $requestId, int $userId): ?array
+    {
+        $request = self::getById($requestId);
+        if ($request === null || (int) $request['user_id'] !== $userId) {
+            return null;
+        }
+
+        return $request;
+    }
+
+    /**
+     * Most recent requests of a user, newest first.
+     *
+     * @param int $userId User ID
+     * @param int $limit Maximum number of requests
+     *
+     * @return list<array<string,mixed>> Requests
+     */
+    public static function getByUserId(int $userId, int $limit = 10): array
+    {
+        $pdo = Database::getPdoConnection();
+        $stmt = $pdo->prepare(self::selectSql() . ' WHERE a.user_id = :user_id ORDER BY a.id DESC LIMIT ' . max(1, $limit));
+        $stmt->execute(['user_id' => $userId]);
+
+        return array_map([self::class, 'decode'], $stmt->fetchAll(\PDO::FETCH_ASSOC) ?: []);
+    }
+
+    /**
+     * Whether a user has a request waiting for review.
+     *
+     * @param int $userId User ID
+     *
+     * @return bool True when the user has a pending request
+     */
+    public static function hasPendingRequest(int $userId): bool
+    {
+        $pdo = Database::getPdoConnection();
+        $stmt = $pdo->prepare('SELECT COUNT(*) FROM ' . self::$table . " WHERE user_id = :user_id AND status = 'pending'");
+        $stmt->execute(['user_id' => $userId]);
+
+        return (int) $stmt->fetchColumn() > 0;
+    }
+
+    /**
+     * Requests for the admin queue, pending first, oldest first.
+     *
+     * @param list<string> $statuses Only requests with these statuses (empty = all)
+     * @param int $limit Maximum number of requests
+     * @param int $offset Offset for pagination
+     *
+     * @return list<array<string,mixed>> Requests with username and email
+     */
+    public static function getAll(array $statuses = [], int $limit = 25, int $offset = 0): array
+    {
+        $pdo = Database::getPdoConnection();
+        [$where, $params] = self::buildStatusWhere($statuses);
+
+        $stmt = $pdo->prepare(
+            self::selectSql() . $where
+            . " ORDER BY (a.status = 'pending') DESC, a.id ASC"
+            . ' LIMIT ' . max(1, $limit) . ' OFFSET ' . max(0, $offset)
+        );
+        $stmt->execute($params);
+
+        return array_map([self::class, 'decode'], $stmt->fetchAll(\PDO::FETCH_ASSOC) ?: []);
+    }
+
+    /**
+     * Count requests with the given statuses.
+     *
+     * @param list<string> $statuses Statuses to count (empty = all)
+     *
+     * @return int Number of requests
+     */
+    public static function count(array $statuses = []): int
+    {
+        $pdo = Database::getPdoConnection();
+        [$where, $params] = self::buildStatusWhere($statuses);
+
+        $stmt = $pdo->prepare('SELECT COUNT(*) FROM ' . self::$table . ' a' . $where);
+        $stmt->execute($params);
+
+        return (int) $stmt->fetchColumn();
+    }
+
+    /**
+     * Atomically record the review of a pending request.
+     * Used to claim a request so two admins never approve (and provision) it twice.
+     *
+     * @param int $requestId Request ID
+     * @param string $to approved or rejected
+     * @param int $reviewerId Admin user ID
+     * @param string|null $reason Rejection reason shown to the user
+     *
+     * @return bool True when the request was pending and this call reviewed it
+     */
+    public static function review(int $requestId, string $to, int $reviewerId, ?string $reason = null): bool
+    {
+        $pdo = Database::getPdoConnection();
+        $stmt = $pdo->prepare(
+            'UPDATE ' . self::$table . ' SET status = :to, reviewed_by = :reviewed_by, reviewed_at = CURRENT_TIMESTAMP, rejection_reason = :reason, updated_at = CURRENT_TIMESTAMP'
+            . " WHERE id = :id AND status = 'pending'"
+        );
+        $stmt->execute(['id' => $requestId, 'to' => $to, 'reviewed_by' => $reviewerId, 'reason' => $reason]);
+
+        return $stmt->rowCount() === 1;
+    }
+
+    /**
+     * Atomically move a request from one status to another.
+     *
+     * @param int $requestId Request ID
+     * @param string $from Expected current status
+     * @param string $to New status
+     *
+     * @return bool True when this call performed the transition
+     */
+    public static function transition(int $requestId, string $from, string $to): bool
+    {
+        $pdo = Database::getPdoConnection();
+        $stmt = $pdo->prepare('UPDATE ' . self::$table . ' SET status = :to, updated_at = CURRENT_TIMESTAMP WHERE id = :id AND status = :from');
+        $stmt->execute(['id' => $requestId, 'from' => $from, 'to' => $to]);
+
+        return $stmt->rowCount() === 1;
+    }
+
+    /**
+     * Update a request.
+     *
+     * @param int $requestId Request ID
+     * @param array<string,mixed> $data Update data (status, creation_request_id, error_message, error_code)
+     *
+     * @return bool Success status
+     */
+    public static function update(int $requestId, array $data): bool
+    {
+        $pdo = Database::getPdoConnection();
+        $fields = [];
+        $params = ['id' => $requestId];
+
+        foreach (['status', 'creation_request_id', 'error_message', 'error_code'] as $field) {
+            if (array_key_exists($field, $data)) {
+                $fields[] = $field . ' = :' . $field;
+                $params[$field] = $data[$field];
+            }
+        }
+
+        if (empty($fields)) {
+            return false;
+        }
+
+        $fields[] = 'updated_at = CURRENT_TIMESTAMP';
+        $stmt = $pdo->prepare('UPDATE ' . self::$table . ' SET ' . implode(', ', $fields) . ' WHERE id = :id');
+
+        return $stmt->execute($params);
+    }
+
+    /**
+     * Request columns plus the owner and the reviewing admin.
+     */
+    private static function selectSql(): string
+    {
+        return 'SELECT a.*, u.username, u.email, r.username AS reviewer_username FROM ' . self::$table . ' a'
+            . ' LEFT JOIN featherpanel_users u ON u.id = a.user_id'
+            . ' LEFT JOIN featherpanel_users r ON r.id = a.reviewed_by';
+    }
+
+    /**
+     * @param list<string> $statuses
+     *
+     * @return array{0: string, 1: array<string,string>} WHERE clause and its parameters
+     */
+    private static function buildStatusWhere(array $statuses): array
+    {
+        $statuses = array_values(array_intersect($statuses, self::STATUSES));
+        if (empty($statuses)) {
+            return ['', []];
+        }
+
+        $params = [];
+        foreach ($statuses as $index => $status) {
+            $params['status' . $index] = $status;
+        }
+
+        return [' WHERE a.status IN (:' . implode(', :', array_keys($params)) . ')', $params];
+    }
+
+    /**
+     * Decode the stored payload and reasons of a request row.
+     *
+     * @param array<string,mixed> $row Raw row
+     *
+     * @return array<string,mixed> Row with payload and reasons decoded
+     */
+    private static function decode(array $row): array
+    {
+        $payload = json_decode((string) ($row['payload'] ?? ''), true);
+        $reasons = json_decode((string) ($row['reasons'] ?? ''), true);
+        $row['payload'] = is_array($payload) ? $payload : [];
+        $row['reasons'] = is_array($reasons) ? $reasons : [];
+
+        return $row;
+    }
+}
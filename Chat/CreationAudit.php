@@ -0,0 +1,238 @@
+<?php
+
+/*
+ * This file is part of FeatherPanel.
+ *
+ * Copyright (C) 2025 MythicalSystems Studios
+ * Copyright (C) 2025 FeatherPanel Contributors
+ * Copyright (C) 2025 Cassian Gherman (aka NaysKutzu)
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * See the LICENSE file or <https://www.gnu.org/licenses/>.
+ */
+namespace App\Addons\billingresourcesnewservers\Chat;
+
+use App\Chat\Database;
+
+/**
+ * CreationAudit chat model for the audit trail of user server creation attempts.
+ */
+class CreationAudit
+{
+    /**
+     * Attempt outcomes. Pending attempts are still moving through the provisioning pipeline;
+     * held attempts were submitted for an admin's approval instead.
+     *
+     * @var list<string>
+     */
+    public const OUTCOMES = ['pending', 'succeeded', 'failed', 'rejected', 'held'];
+
+    /**
+     * Where an attempt came from: the create form (direct), an approved request or the waitlist.
+     *
+     * @var list<string>
+     */
+    public const SOURCES = ['direct', 'approval', 'waitlist'];
+
+    private static string $table = 'featherpanel_billingresourcesnewservers_creation_audit';
+
+    /**
+     * Record a creation attempt.
+     *
+     * @param int $userId User ID
+     * @param array<string,mixed> $payload Create payload (policies already applied)
+     * @param array<string,mixed> $data Optional fields (creation_request_id, approval_request_id, attempt, source, outcome, error_code, error_message, duration_ms, ip_address)
+     *
+     * @return int|false Audit entry ID or false on failure
+     */
+    public static function create(int $userId, array $payload, array $data = []): int | false
+    {
+        $pdo = Database::getPdoConnection();
+        $stmt = $pdo->prepare(
+            'INSERT INTO ' . self::$table
+            . ' (user_id, creation_request_id, approval_request_id, attempt, source, payload, node_id, realms_id, spell_id, outcome, error_code, error_message, duration_ms, ip_address)'
+            . ' VALUES (:user_id, :creation_request_id, :approval_request_id, :attempt, :source, :payload, :node_id, :realms_id, :spell_id, :outcome, :error_code, :error_message, :duration_ms, :ip_address)'
+        );
+
+        $params = [
+            'user_id' => $userId,
+            'creation_request_id' => $data['creation_request_id'] ?? null,
+            'approval_request_id' => $data['approval_request_id'] ?? null,
+            'attempt' => $data['attempt'] ?? 1,
+            'source' => $data['source'] ?? 'direct',
+            'payload' => json_encode($payload),
+            'node_id' => self::positiveIntOrNull($payload['node_id'] ?? null),
+            'realms_id' => self::positiveIntOrNull($payload['realms_id'] ?? null),
+            'spell_id' => self::positiveIntOrNull($payload['spell_id'] ?? null),
+            'outcome' => $data['outcome'] ?? 'pending',
+            'error_code' => $data['error_code'] ?? null,
+            'error_message' => $data['error_message'] ?? null,
+            'duration_ms' => $data['duration_ms'] ?? null,
+            'ip_address' => $data['ip_address'] ?? null,
+        ];
+
+        if ($stmt->execute($params)) {
+            return (int) $pdo->lastInsertId();
+        }
+
+        return false;
+    }
+
+    /**
+     * Record the status code Wings answered with on the pending attempt of a request.
+     *
+     * @param int $requestId Creation request ID
+     * @param int $statusCode HTTP status code returned by Wings
+     *
+     * @return bool Success status
+     */
+    public static function setWingsStatus(int $requestId, int $statusCode): bool
+    {
+        $pdo = Database::getPdoConnection();
+        $stmt = $pdo->prepare(
+            'UPDATE ' . self::$table . " SET wings_status = :wings_status, updated_at = CURRENT_TIMESTAMP WHERE creation_request_id = :request_id AND outcome = 'pending'"
+        );
+
+        return $stmt->execute(['request_id' => $requestId, 'wings_status' => $statusCode]);
+    }
+
+    /**
+     * Close the pending attempt of a request with its outcome. The duration is measured from when the attempt was recorded.
+     *
+     * @param int $requestId Creation request ID
+     * @param string $outcome succeeded or failed
+     * @param int|null $serverId Server the attempt created, if any
+     * @param string|null $errorCode Error code when the attempt failed
+     * @param string|null $errorMessage Error message when the attempt failed
+     *
+     * @return bool Success status
+     */
+    public static function finish(int $requestId, string $outcome, ?int $serverId = null, ?string $errorCode = null, ?string $errorMessage = null): bool
+    {
+        $pdo = Database::getPdoConnection();
+        $stmt = $pdo->prepare(
+            'UPDATE ' . self::$table . ' SET outcome = :outcome, server_id = COALESCE(:server_id, server_id), error_code = :error_code, error_message = :error_message,'
+            . ' duration_ms = TIMESTAMPDIFF(MICROSECOND, created_at, CURRENT_TIMESTAMP(3)) DIV 1000, updated_at = CURRENT_TIMESTAMP'
+            . " WHERE creation_request_id = :request_id AND outcome = 'pending'"
+        );
+
+        return $stmt->execute([
+            'request_id' => $requestId,
+            'outcome' => $outcome,
+            'server_id' => $serverId,
+            'error_code' => $errorCode,
+            'error_message' => $errorMessage,
+        ]);
+    }
+
+    /**
+     * Get a page of audit entries, newest first.
+     *
+     * @param array<string,mixed> $filters Filters (user_id, error_code, node_id, outcome, source; from/to as inclusive Y-m-d dates)
+     * @param int $limit Page size
+     * @param int $offset Offset
+     *
+     * @return array<int,array<string,mixed>> Audit entries with the username and email of the user
+     */
+    public static function getAll(array $filters = [], int $limit = 25, int $offset = 0): array
+    {
+        $pdo = Database::getPdoConnection();
+        [$where, $params] = self::buildWhere($filters);
+
+        $stmt = $pdo->prepare(
+            'SELECT a.*, u.username, u.email FROM ' . self::$table . ' a'
+            . ' LEFT JOIN featherpanel_users u ON u.id = a.user_id'
+            . $where . ' ORDER BY a.id DESC LIMIT ' . max(1, $limit) . ' OFFSET ' . max(0, $offset)
+        );
+        $stmt->execute($params);
+
+        return $stmt->fetchAll(\PDO::FETCH_ASSOC) ?: [];
+    }
+
+    /**
+     * Count audit entries matching the filters.
+     *
+     * @param array<string,mixed> $filters Filters (see getAll)
+     *
+     * @return int Number of matching entries
+     */
+    public static function count(array $filters = []): int
+    {
+        $pdo = Database::getPdoConnection();
+        [$where, $params] = self::buildWhere($filters);
+
+        $stmt = $pdo->prepare('SELECT COUNT(*) FROM ' . self::$table . ' a' . $where);
+        $stmt->execute($params);
+
+        return (int) $stmt->fetchColumn();
+    }
+
+    /**
+     * Distinct error codes that have been recorded, for the filter dropdown.
+     *
+     * @return list<string> Error codes
+     */
+    public static function getErrorCodes(): array
+    {
+        $pdo = Database::getPdoConnection();
+        $stmt = $pdo->query('SELECT DISTINCT error_code FROM ' . self::$table . ' WHERE error_code IS NOT NULL ORDER BY error_code ASC');
+
+        return $stmt ? ($stmt->fetchAll(\PDO::FETCH_COLUMN) ?: []) : [];
+    }
+
+    /**
+     * Build the WHERE clause for the list filters.
+     *
+     * @param array<string,mixed> $filters Filters
+     *
+     * @return array{0: string, 1: array<string,mixed>} SQL fragment and bound parameters
+     */
+    private static function buildWhere(array $filters): array
+    {
+        $conditions = [];
+        $params = [];
+
+        foreach (['user_id', 'node_id'] as $field) {
+            if (isset($filters[$field])) {
+                $conditions[] = 'a.' . $field . ' = :' . $field;
+                $params[$field] = (int) $filters[$field];
+            }
+        }
+
+        if (isset($filters['error_code'])) {
+            $conditions[] = 'a.error_code = :error_code';
+            $params['error_code'] = $filters['error_code'];
+        }
+
+        foreach (['outcome', 'source'] as $field) {
+            if (isset($filters[$field])) {
+                $conditions[] = 'a.' . $field . ' = :' . $field;
+                $params[$field] = $filters[$field];
+            }
+        }
+
+        if (isset($filters['from'])) {
+            $conditions[] = 'a.created_at >= :from';
+            $params['from'] = $filters['from'] . ' 00:00:00';
+        }
+
+        if (isset($filters['to'])) {
+            $conditions[] = 'a.created_at < (:to + INTERVAL 1 DAY)';
+            $params['to'] = $filters['to'];
+        }
+
+        return [empty($conditions) ? '' : ' WHERE ' . implode(' AND ', $conditions), $params];
+    }
+
+    /**
+     * Normalize a payload ID (missing or 0 means not chosen).
+     */
+    private static function positiveIntOrNull(mixed $value): ?int
+    {
+        return is_numeric($value) && (int) $value > 0 ? (int) $value : null;
+    }
+}
@@ -0,0 +1,351 @@
+<?php
+
+/*
+ * This file is part of FeatherPanel.
+ *
+ * Copyright (C) 2025 MythicalSystems Studios
+ * Copyright (C) 2025 FeatherPanel Contributors
+ * Copyright (C) 2025 Cassian Gherman (aka NaysKutzu)
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * See the LICENSE file or <https://www.gnu.org/licenses/>.
+ */
+
+namespace App\Addons\billingresourcesnewservers\Chat;
+
+use App\Chat\Database;
+
+/**
+ * CreationRequest chat model for tracking user server creation requests through the provisioning pipeline.
+ */
+class CreationRequest
+{
+    /**
+     * Pipeline states in the order a successful request passes through them.
+     *
+     * @var list<string>
+     */
+    public const STATES = ['queued', 'db_created', 'wings_pending', 'installing', 'done', 'failed'];
+
+    private static string $table = 'featherpanel_billingresourcesnewservers_creation_requests';
+
+    /**
+     * Create a new creation request in the queued state.
+     *
+     * @param int $userId User ID
+     * @param array<string,mixed> $payload Create payload (policies already applied)
+     *
+     * @return int|false Request ID or false on failure
+     */
+    public static function create(int $userId, array $payload): int | false
+    {
+        $pdo = Database::getPdoConnection();
+        $stmt = $pdo->prepare('INSERT INTO ' . self::$table . " (user_id, state, payload) VALUES (:user_id, 'queued', :payload)");
+
+        if ($stmt->execute(['user_id' => $userId, 'payload' => json_encode($payload)])) {
+            return (int) $pdo->lastInsertId();
+        }
+
+        return false;
+    }
+
+    /**
+     * Get a creation request by ID.
+     *
+     * @param int $requestId Request ID
+     *
+     * @return array<string,mixed>|null Request record (payload decoded) or null if not found
+     */
+    public static function getById(int $requestId): ?array
+    {
+        $pdo = Database::getPdoConnection();
+        $stmt = $pdo->prepare('SELECT * FROM ' . self::$table . ' WHERE id = :id LIMIT 1');
+        $stmt->execute(['id' => $requestId]);
+        $row = $stmt->fetch(\PDO::FETCH_ASSOC);
+
+        return $row ? self::decode($row) : null;
+    }
+
+    /**
+     * Get a creation request by ID, only if it belongs to the given user.
+     *
+     * @param int $requestId Request ID
+     * @param int $userId User ID
+     *
+     * @return array<string,mixed>|null Request record (payload decoded) or null if not found
+     */
+    public static function getByIdForUser(int $requestId, int $userId): ?array
+    {
+        $request = self::getById($requestId);
+        if ($request === null || (int) $request['user_id'] !== $userId) {
+            return null;
+        }
+
+        return $request;
+    }
+
+    /**
+     * Get the most recent unfinished creation request of a user.
+     *
+     * @param int $userId User ID
+     *
+     * @return array<string,mixed>|null Request record (payload decoded) or null if none is in progress
+     */
+    public static function getLatestActiveByUserId(int $userId): ?array
+    {
+        $pdo = Database::getPdoConnection();
+        $stmt = $pdo->prepare('SELECT * FROM ' . self::$table . " WHERE user_id = :user_id AND state NOT IN ('done', 'failed') ORDER BY id DESC LIMIT 1");
+        $stmt->execute(['user_id' => $userId]);
+        $row = $stmt->fetch(\PDO::FETCH_ASSOC);
+
+        return $row ? self::decode($row) : null;
+    }
+
+    /**
+     * Unfinished requests of any user that have not changed state for a while. Requests that hold a server record
+     * without a Wings server come first, then the oldest.
+     *
+     * @param int $seconds Minimum time since the last state change
+     * @param int $limit Maximum number of requests returned
+     *
+     * @return list<array<string,mixed>> Request records (payload decoded)
+     */
+    public static function getStale(int $seconds, int $limit): array
+    {
+        $pdo = Database::getPdoConnection();
+        $stmt = $pdo->query(
+            'SELECT * FROM ' . self::$table . " WHERE state NOT IN ('done', 'failed')"
+            . ' AND updated_at < (NOW() - INTERVAL ' . max(1, $seconds) . " SECOND) ORDER BY FIELD(state, 'db_created', 'wings_pending', 'queued', 'installing'), updated_at ASC LIMIT " . max(1, $limit)
+        );
+
+        return array_map([self::class, 'decode'], $stmt->fetchAll(\PDO::FETCH_ASSOC) ?: []);
+    }
+
+    /**
+     * Node of the most recent server created through this plugin by any user (round-robin placement continues after it).
+     *
+     * @return int|null Node ID or null when no server was created yet
+     */
+    public static function getLatestPlacedNodeId(): ?int
+    {
+        $pdo = Database::getPdoConnection();
+        $stmt = $pdo->query('SELECT payload FROM ' . self::$table . ' WHERE server_id IS NOT NULL ORDER BY id DESC LIMIT 1');
+        $payload = json_decode((string) $stmt->fetchColumn(), true);
+
+        return is_array($payload) && isset($payload['node_id']) ? (int) $payload['node_id'] : null;
+    }
+
+    /**
+     * Get the IDs of servers a user created through this plugin.
+     * Rolled back requests no longer reference a server, so only servers that were kept are returned.
+     *
+     * @param int $userId User ID
+     *
+     * @return list<int> Server IDs
+     */
+    public static function getServerIdsByUserId(int $userId): array
+    {
+        $pdo = Database::getPdoConnection();
+        $stmt = $pdo->prepare('SELECT DISTINCT server_id FROM ' . self::$table . ' WHERE user_id = :user_id AND server_id IS NOT NULL AND server_deleted_at IS NULL');
+        $stmt->execute(['user_id' => $userId]);
+
+        return array_map('intval', $stmt->fetchAll(\PDO::FETCH_COLUMN) ?: []);
+    }
+
+    /**
+     * Record that a user deleted a server they created through this plugin (starts their post-deletion cooldown).
+     * Servers deleted by someone else, e.g. an admin or the lifetime reclaim, are never stamped.
+     *
+     * @param int $serverId Server ID
+     * @param int $userId User who deleted the server
+     *
+     * @return bool Success status
+     */
+    public static function markServerDeletedByUser(int $serverId, int $userId): bool
+    {
+        $pdo = Database::getPdoConnection();
+        $stmt = $pdo->prepare(
+            'UPDATE ' . self::$table . ' SET server_deleted_at = CURRENT_TIMESTAMP WHERE server_id = :server_id AND user_id = :user_id AND server_deleted_at IS NULL'
+        );
+
+        return $stmt->execute(['server_id' => $serverId, 'user_id' => $userId]);
+    }
+
+    /**
+     * A user's creation requests made within a time window, oldest first.
+     *
+     * @param int $userId User ID
+     * @param int $windowSeconds Window length
+     * @param int $beforeRequestId Only include requests made before this one (the one being validated), 0 = all
+     *
+     * @return list<array{age: int, state: string, server_id: int|null}> age is the number of seconds since the request was made
+     */
+    public static function getRecentCreations(int $userId, int $windowSeconds, int $beforeRequestId = 0): array
+    {
+        $pdo = Database::getPdoConnection();
+        $stmt = $pdo->prepare(
+            'SELECT TIMESTAMPDIFF(SECOND, created_at, NOW()) AS age, state, server_id FROM ' . self::$table
+            . ' WHERE user_id = :user_id AND created_at >= (NOW() - INTERVAL ' . max(0, $windowSeconds) . ' SECOND)'
+            . ($beforeRequestId > 0 ? ' AND id < ' . $beforeRequestId : '')
+            . ' ORDER BY created_at ASC, id ASC'
+        );
+        $stmt->execute(['user_id' => $userId]);
+
+        return array_map(
+            fn (array $row) => [
+                'age' => (int) $row['age'],
+                'state' => (string) $row['state'],
+                'server_id' => $row['server_id'] !== null ? (int) $row['server_id'] : null,
+            ],
+            $stmt->fetchAll(\PDO::FETCH_ASSOC) ?: []
+        );
+    }
+
+    /**
+     * Seconds since the user last deleted a server they created through this plugin.
+     *
+     * @param int $userId User ID
+     *
+     * @return int|null Null when none was deleted
+     */
+    public static function getSecondsSinceLastServerDeletion(int $userId): ?int
+    {
+        $pdo = Database::getPdoConnection();
+        $stmt = $pdo->prepare('SELECT TIMESTAMPDIFF(SECOND, MAX(server_deleted_at), NOW()) FROM ' . self::$table . ' WHERE user_id = :user_id');
+        $stmt->execute(['user_id' => $userId]);
+        $seconds = $stmt->fetchColumn();
+
+        return $seconds === null || $seconds === false ? null : (int) $seconds;
+    }
+
+    /**
+     * Update a creation request.
+     *
+     * @param int $requestId Request ID
+     * @param array<string,mixed> $data Update data (state, failed_state, server_id, server_uuid, side_effects, rollback, error_message, error_code, attempts).
+     *                                  side_effects and rollback are encoded to JSON; null clears them.
+     *
+     * @return bool Success status
+     */
+    public static function update(int $requestId, array $data): bool
+    {
+        $pdo = Database::getPdoConnection();
+        $fields = [];
+        $params = ['id' => $requestId];
+
+        foreach (['state', 'failed_state', 'server_id', 'server_uuid', 'side_effects', 'rollback', 'error_message', 'error_code', 'attempts'] as $field) {
+            if (array_key_exists($field, $data)) {
+                $value = $data[$field];
+                if (in_array($field, ['side_effects', 'rollback'], true) && $value !== null) {
+                    $value = json_encode($value);
+                }
+                $fields[] = $field . ' = :' . $field;
+                $params[$field] = $value;
+            }
+        }
+
+        if (empty($fields)) {
+            return false;
+        }
+
+        $fields[] = 'updated_at = CURRENT_TIMESTAMP';
+        $stmt = $pdo->prepare('UPDATE ' . self::$table . ' SET ' . implode(', ', $fields) . ' WHERE id = :id');
+
+        return $stmt->execute($params);
+    }
+
+    /**
+     * Record a side effect of the provisioning pipeline so it can be undone on failure.
+     *
+     * @param int $requestId Request ID
+     * @param string $type Side effect type (server, allocation, wings)
+     * @param int|string $resourceId ID (or UUID) of the affected resource
+     *
+     * @return bool Success status
+     */
+    public static function addSideEffect(int $requestId, string $type, int | string $resourceId): bool
+    {
+        $request = self::getById($requestId);
+        if ($request === null) {
+            return false;
+        }
+
+        $sideEffects = $request['side_effects'];
+        $sideEffects[] = ['type' => $type, 'resource_id' => $resourceId];
+
+        return self::update($requestId, ['side_effects' => $sideEffects]);
+    }
+
+    /**
+     * Atomically move a request from one state to another.
+     * Used to claim a pipeline step so concurrent polls never run it twice.
+     *
+     * @param int $requestId Request ID
+     * @param string $from Expected current state
+     * @param string $to New state
+     *
+     * @return bool True when this call performed the transition
+     */
+    public static function transition(int $requestId, string $from, string $to): bool
+    {
+        $pdo = Database::getPdoConnection();
+        $stmt = $pdo->prepare('UPDATE ' . self::$table . ' SET state = :to, updated_at = CURRENT_TIMESTAMP WHERE id = :id AND state = :from');
+        $stmt->execute(['id' => $requestId, 'from' => $from, 'to' => $to]);
+
+        return $stmt->rowCount() === 1;
+    }
+
+    /**
+     * Fail a request that has been stuck in a state for longer than the given number of seconds.
+     *
+     * @param int $requestId Request ID
+     * @param string $state State the request is stuck in
+     * @param int $seconds Maximum time allowed in that state
+     * @param string $errorMessage Error message to record
+     * @param string $errorCode Error code to record
+     *
+     * @return bool True when the request was marked as failed
+     */
+    public static function failIfStale(int $requestId, string $state, int $seconds, string $errorMessage, string $errorCode): bool
+    {
+        $pdo = Database::getPdoConnection();
+        $stmt = $pdo->prepare(
+            'UPDATE ' . self::$table . " SET state = 'failed', failed_state = :failed_state, error_message = :error_message, error_code = :error_code, updated_at = CURRENT_TIMESTAMP"
+            . ' WHERE id = :id AND state = :state AND updated_at < (NOW() - INTERVAL ' . max(1, $seconds) . ' SECOND)'
+        );
+        $stmt->execute([
+            'id' => $requestId,
+            'state' => $state,
+            'failed_state' => $state,
+            'error_message' => $errorMessage,
+            'error_code' => $errorCode,
+        ]);
+
+        return $stmt->rowCount() === 1;
+    }
+
+    /**
+     * Decode the stored payload of a request row.
+     *
+     * @param array<string,mixed> $row Raw row
+     *
+     * @return array<string,mixed> Row with payload and side_effects decoded to arrays and rollback decoded (or null)
+     */
+    private static function decode(array $row): array
+    {
+        $payload = json_decode((string) ($row['payload'] ?? ''), true);
+        $row['payload'] = is_array($payload) ? $payload : [];
+
+        $sideEffects = json_decode((string) ($row['side_effects'] ?? ''), true);
+        $row['side_effects'] = is_array($sideEffects) ? $sideEffects : [];
+
+        $rollback = json_decode((string) ($row['rollback'] ?? ''), true);
+        $row['rollback'] = is_array($rollback) ? $rollback : null;
+
+        return $row;
+    }
+}
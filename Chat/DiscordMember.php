@@ -0,0 +1,132 @@
+<?php
+
+/*
+ * This file is part of FeatherPanel.
+ *
+ * Copyright (C) 2025 MythicalSystems Studios
+ * Copyright (C) 2025 FeatherPanel Contributors
+ * Copyright (C) 2025 Cassian Gherman (aka NaysKutzu)
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * See the LICENSE file or <https://www.gnu.org/licenses/>.
+ */
+
+namespace App\Addons\billingresourcesnewservers\Chat;
+
+use App\Chat\Database;
+
+/**
+ * DiscordMember chat model caching the guild roles of users with a linked Discord account.
+ */
+class DiscordMember
+{
+    private static string $table = 'featherpanel_billingresourcesnewservers_discord_members';
+
+    /**
+     * Get the cached guild membership of a user.
+     *
+     * @param int $userId User ID
+     *
+     * @return array<string,mixed>|null Member record (role_ids decoded, in_guild as bool) or null if never synced
+     */
+    public static function getByUserId(int $userId): ?array
+    {
+        $pdo = Database::getPdoConnection();
+        $stmt = $pdo->prepare('SELECT * FROM ' . self::$table . ' WHERE user_id = :user_id LIMIT 1');
+        $stmt->execute(['user_id' => $userId]);
+        $row = $stmt->fetch(\PDO::FETCH_ASSOC);
+
+        return $row ? self::decode($row) : null;
+    }
+
+    /**
+     * Store the result of a guild member lookup.
+     *
+     * @param int $userId User ID
+     * @param string $discordId Linked Discord user ID
+     * @param string $guildId Guild the lookup ran against
+     * @param list<string> $roleIds Role IDs held in the guild (empty when not a member)
+     * @param bool $inGuild Whether the user is a member of the guild
+     *
+     * @return bool Success status
+     */
+    public static function upsert(int $userId, string $discordId, string $guildId, array $roleIds, bool $inGuild): bool
+    {
+        $pdo = Database::getPdoConnection();
+        $stmt = $pdo->prepare(
+            'INSERT INTO ' . self::$table . ' (user_id, discord_id, guild_id, in_guild, role_ids, synced_at)
+             VALUES (:user_id, :discord_id, :guild_id, :in_guild, :role_ids, NOW())
+             ON DUPLICATE KEY UPDATE discord_id = VALUES(discord_id), guild_id = VALUES(guild_id), in_guild = VALUES(in_guild),
+             role_ids = VALUES(role_ids), synced_at = NOW()'
+        );
+
+        return $stmt->execute([
+            'user_id' => $userId,
+            'discord_id' => $discordId,
+            'guild_id' => $guildId,
+            'in_guild' => $inGuild ? 'true' : 'false',
+            'role_ids' => json_encode(array_values($roleIds)),
+        ]);
+    }
+
+    /**
+     * Forget the cached membership of a user (e.g. after unlinking Discord).
+     *
+     * @param int $userId User ID
+     *
+     * @return bool Success status
+     */
+    public static function delete(int $userId): bool
+    {
+        $pdo = Database::getPdoConnection();
+        $stmt = $pdo->prepare('DELETE FROM ' . self::$table . ' WHERE user_id = :user_id');
+
+        return $stmt->execute(['user_id' => $userId]);
+    }
+
+    /**
+     * SQL predicate matching users (featherpanel_users aliased as u) holding any of the given roles in a guild.
+     * Used by the discord_role membership condition.
+     *
+     * @param string $guildId Guild ID
+     * @param list<string> $roleIds Role IDs
+     * @param string $prefix Unique placeholder prefix
+     *
+     * @return array{predicate: string, params: array<string,string>}
+     */
+    public static function roleMatchSql(string $guildId, array $roleIds, string $prefix): array
+    {
+        $params = [$prefix . 'guild' => $guildId];
+        $roleParts = [];
+        foreach (array_values($roleIds) as $i => $roleId) {
+            $roleParts[] = 'JSON_CONTAINS(dm.role_ids, JSON_QUOTE(:' . $prefix . 'role' . $i . '))';
+            $params[$prefix . 'role' . $i] = $roleId;
+        }
+
+        return [
+            'predicate' => 'EXISTS (SELECT 1 FROM ' . self::$table . ' dm WHERE dm.user_id = u.id AND dm.guild_id = :' . $prefix . "guild AND dm.in_guild = 'true'"
+                . ' AND (' . implode(' OR ', $roleParts) . '))',
+            'params' => $params,
+        ];
+    }
+
+    /**
+     * Decode the stored role list of a member row.
+     *
+     * @param array<string,mixed> $row Raw database row
+     *
+     * @return array<string,mixed> Row with role_ids decoded
+     */
+    private static function decode(array $row): array
+    {
+        $roleIds = json_decode((string) ($row['role_ids'] ?? ''), true);
+        $row['role_ids'] = is_array($roleIds) ? array_values(array_map('strval', $roleIds)) : [];
+        $row['in_guild'] = ($row['in_guild'] ?? 'false') === 'true';
+
+        return $row;
+    }
+}
@@ -24,6 +24,27 @@ use App\Chat\Database;
  */
 class Group
 {
+    /**
+     * Server quota columns (NULL = no cap).
+     *
+     * @var list<string>
+     */
+    public const QUOTA_FIELDS = ['max_servers', 'max_memory_per_server', 'max_servers_per_location', 'max_servers_per_spell'];
+
+    /**
+     * Overrides of the global creation rate limit settings (NULL = use the global setting).
+     *
+     * @var list<string>
+     */
+    public const RATE_LIMIT_FIELDS = ['rate_limit_max_creations', 'rate_limit_window_minutes', 'creation_cooldown_seconds', 'deletion_cooldown_seconds'];
+
+    /**
+     * Overrides of the global server lifetime settings (NULL = use the global setting, 0 = never reclaim).
+     *
+     * @var list<string>
+     */
+    public const LIFETIME_FIELDS = ['lifetime_days', 'inactivity_days'];
+
     private static string $table = 'featherpanel_billingresourcesnewservers_groups';
 
     /**
@@ -39,6 +60,19 @@ class Group
         return $stmt->fetchAll(\PDO::FETCH_ASSOC) ?: [];
     }
 
+    /**
+     * Get the groups that have automatic membership rules.
+     *
+     * @return array<array<string,mixed>> Array of group records
+     */
+    public static function getWithMembershipRules(): array
+    {
+        $pdo = Database::getPdoConnection();
+        $stmt = $pdo->query('SELECT * FROM ' . self::$table . ' WHERE membership_rules IS NOT NULL ORDER BY priority DESC, name ASC');
+
+        return $stmt->fetchAll(\PDO::FETCH_ASSOC) ?: [];
+    }
+
     /**
      * Get a group by ID.
      *
@@ -62,22 +96,34 @@ class Group
      * @param string|null $description Group description
      * @param string|null $color Group color (hex)
      * @param int $priority Priority (higher = more important)
+     * @param array<string,int|null> $limits Server quotas, rate limit and lifetime overrides keyed by QUOTA_FIELDS / RATE_LIMIT_FIELDS / LIFETIME_FIELDS (missing = not set)
+     * @param string|null $membershipRules Automatic membership rules as JSON (null = manual membership only)
+     * @param bool $requiresApproval Whether the members' free servers need an admin's approval
      *
      * @return int|false Group ID or false on failure
      */
-    public static function create(string $name, ?string $description = null, ?string $color = null, int $priority = 0): int | false
+    public static function create(string $name, ?string $description = null, ?string $color = null, int $priority = 0, array $limits = [], ?string $membershipRules = null, bool $requiresApproval = false): int | false
     {
         $pdo = Database::getPdoConnection();
+        $limitFields = array_merge(self::QUOTA_FIELDS, self::RATE_LIMIT_FIELDS, self::LIFETIME_FIELDS);
         $stmt = $pdo->prepare(
-            'INSERT INTO ' . self::$table . ' (name, description, color, priority) VALUES (:name, :description, :color, :priority)'
+            'INSERT INTO ' . self::$table . ' (name, description, color, priority, membership_rules, requires_approval, ' . implode(', ', $limitFields) . ')
+             VALUES (:name, :description, :color, :priority, :membership_rules, :requires_approval, :' . implode(', :', $limitFields) . ')'
         );
 
-        if ($stmt->execute([
+        $params = [
             'name' => $name,
             'description' => $description,
             'color' => $color ?? '#3B82F6',
             'priority' => $priority,
-        ])) {
+            'membership_rules' => $membershipRules,
+            'requires_approval' => (int) $requiresApproval,
+        ];
+        foreach ($limitFields as $field) {
+            $params[$field] = $limits[$field] ?? null;
+        }
+
+        if ($stmt->execute($params)) {
             return (int) $pdo->lastInsertId();
         }
 
@@ -88,7 +134,7 @@ class Group
      * Update a group.
      *
      * @param int $groupId Group ID
-     * @param array<string,mixed> $data Update data (name, description, color, priority)
+     * @param array<string,mixed> $data Update data (name, description, color, priority, membership_rules JSON, requires_approval, quota, rate limit and lifetime fields; null unsets them)
      *
      * @return bool Success status
      */
@@ -114,6 +160,20 @@ class Group
             $fields[] = 'priority = :priority';
             $params['priority'] = (int) $data['priority'];
         }
+        if (array_key_exists('membership_rules', $data)) {
+            $fields[] = 'membership_rules = :membership_rules';
+            $params['membership_rules'] = $data['membership_rules'];
+        }
+        if (isset($data['requires_approval'])) {
+            $fields[] = 'requires_approval = :requires_approval';
+            $params['requires_approval'] = (int) (bool) $data['requires_approval'];
+        }
+        foreach (array_merge(self::QUOTA_FIELDS, self::RATE_LIMIT_FIELDS, self::LIFETIME_FIELDS) as $field) {
+            if (array_key_exists($field, $data)) {
+                $fields[] = $field . ' = :' . $field;
+                $params[$field] = $data[$field] === null ? null : (int) $data[$field];
+            }
+        }
 
         if (empty($fields)) {
             return false;
@@ -24,6 +24,11 @@ use App\Chat\Database;
  */
 class GroupPermission
 {
+    /**
+     * SQL expression that is 1 while a permission is inside its validity window.
+     */
+    public const ACTIVE_SQL = '((starts_at IS NULL OR starts_at <= NOW()) AND (expires_at IS NULL OR expires_at > NOW()))';
+
     private static string $table = 'featherpanel_billingresourcesnewservers_group_permissions';
 
     /**
@@ -36,7 +41,7 @@ class GroupPermission
     public static function getByGroupId(int $groupId): array
     {
         $pdo = Database::getPdoConnection();
-        $stmt = $pdo->prepare('SELECT * FROM ' . self::$table . ' WHERE group_id = :group_id ORDER BY resource_type, resource_id');
+        $stmt = $pdo->prepare('SELECT *, ' . self::ACTIVE_SQL . ' AS is_active FROM ' . self::$table . ' WHERE group_id = :group_id ORDER BY resource_type, resource_id');
         $stmt->execute(['group_id' => $groupId]);
 
         return $stmt->fetchAll(\PDO::FETCH_ASSOC) ?: [];
@@ -53,7 +58,7 @@ class GroupPermission
     public static function getByGroupIdAndType(int $groupId, string $resourceType): array
     {
         $pdo = Database::getPdoConnection();
-        $stmt = $pdo->prepare('SELECT * FROM ' . self::$table . ' WHERE group_id = :group_id AND resource_type = :resource_type ORDER BY resource_id');
+        $stmt = $pdo->prepare('SELECT *, ' . self::ACTIVE_SQL . ' AS is_active FROM ' . self::$table . ' WHERE group_id = :group_id AND resource_type = :resource_type ORDER BY resource_id');
         $stmt->execute([
             'group_id' => $groupId,
             'resource_type' => $resourceType,
@@ -74,7 +79,7 @@ class GroupPermission
     public static function getGroupPermission(int $groupId, string $resourceType, int $resourceId): ?array
     {
         $pdo = Database::getPdoConnection();
-        $stmt = $pdo->prepare('SELECT * FROM ' . self::$table . ' WHERE group_id = :group_id AND resource_type = :resource_type AND resource_id = :resource_id LIMIT 1');
+        $stmt = $pdo->prepare('SELECT *, ' . self::ACTIVE_SQL . ' AS is_active FROM ' . self::$table . ' WHERE group_id = :group_id AND resource_type = :resource_type AND resource_id = :resource_id LIMIT 1');
         $stmt->execute([
             'group_id' => $groupId,
             'resource_type' => $resourceType,
@@ -90,15 +95,18 @@ class GroupPermission
      * @param int $groupId Group ID
      * @param string $resourceType Resource type (location, node, realm, spell)
      *
-     * @return array<int> Array of allowed resource IDs
+     * @return array<int> Array of allowed resource IDs (active allow entries only)
      */
     public static function getAllowedResourceIds(int $groupId, string $resourceType): array
     {
-        $permissions = self::getByGroupIdAndType($groupId, $resourceType);
+        $permissions = array_filter(
+            self::getByGroupIdAndType($groupId, $resourceType),
+            fn (array $perm) => $perm['effect'] === 'allow' && (bool) $perm['is_active']
+        );
 
-        return array_map(function ($perm) {
+        return array_values(array_map(function ($perm) {
             return (int) $perm['resource_id'];
-        }, $permissions);
+        }, $permissions));
     }
 
     /**
@@ -108,23 +116,27 @@ class GroupPermission
      * @param string $resourceType Resource type (location, node, realm, spell)
      * @param int $resourceId Resource ID
      * @param string|null $customErrorMessage Custom error message (optional)
+     * @param array{effect?: string, starts_at?: string|null, expires_at?: string|null} $rule Effect (allow/deny, default allow) and validity window
      *
      * @return bool Success status
      */
-    public static function createOrUpdate(int $groupId, string $resourceType, int $resourceId, ?string $customErrorMessage = null): bool
+    public static function createOrUpdate(int $groupId, string $resourceType, int $resourceId, ?string $customErrorMessage = null, array $rule = []): bool
     {
         $pdo = Database::getPdoConnection();
         $stmt = $pdo->prepare(
-            'INSERT INTO ' . self::$table . ' (group_id, resource_type, resource_id, custom_error_message) 
-             VALUES (:group_id, :resource_type, :resource_id, :custom_error_message)
-             ON DUPLICATE KEY UPDATE custom_error_message = :custom_error_message, updated_at = CURRENT_TIMESTAMP'
+            'INSERT INTO ' . self::$table . ' (group_id, resource_type, resource_id, effect, custom_error_message, starts_at, expires_at)
+             VALUES (:group_id, :resource_type, :resource_id, :effect, :custom_error_message, :starts_at, :expires_at)
+             ON DUPLICATE KEY UPDATE effect = :effect, custom_error_message = :custom_error_message, starts_at = :starts_at, expires_at = :expires_at, updated_at = CURRENT_TIMESTAMP'
         );
 
         return $stmt->execute([
             'group_id' => $groupId,
             'resource_type' => $resourceType,
             'resource_id' => $resourceId,
+            'effect' => ($rule['effect'] ?? 'allow') === 'deny' ? 'deny' : 'allow',
             'custom_error_message' => $customErrorMessage,
+            'starts_at' => $rule['starts_at'] ?? null,
+            'expires_at' => $rule['expires_at'] ?? null,
         ]);
     }
 
@@ -154,16 +166,18 @@ class GroupPermission
      *
      * @param int $userId User ID
      *
-     * @return array<array<string,mixed>> Array of permission records grouped by resource type
+     * @return array<array<string,mixed>> Permission records with is_active, group_name and group_priority,
+     *                                     ordered by resource, then group priority (highest first), then group ID
      */
     public static function getByUserId(int $userId): array
     {
         $pdo = Database::getPdoConnection();
         $stmt = $pdo->prepare(
-            'SELECT gp.* FROM ' . self::$table . ' gp
+            'SELECT gp.*, ' . self::ACTIVE_SQL . ' AS is_active, g.name AS group_name, g.priority AS group_priority FROM ' . self::$table . ' gp
              INNER JOIN featherpanel_billingresourcesnewservers_user_groups ug ON gp.group_id = ug.group_id
+             INNER JOIN featherpanel_billingresourcesnewservers_groups g ON g.id = gp.group_id
              WHERE ug.user_id = :user_id
-             ORDER BY gp.resource_type, gp.resource_id'
+             ORDER BY gp.resource_type, gp.resource_id, g.priority DESC, gp.group_id ASC'
         );
         $stmt->execute(['user_id' => $userId]);
 
@@ -172,6 +186,7 @@ class GroupPermission
 
     /**
      * Get allowed resource IDs for a user (through their groups) and resource type.
+     * Only active allow entries count; denies are not subtracted here.
      *
      * @param int $userId User ID
      * @param string $resourceType Resource type (location, node, realm, spell)
@@ -185,6 +200,7 @@ class GroupPermission
             'SELECT DISTINCT gp.resource_id FROM ' . self::$table . ' gp
              INNER JOIN featherpanel_billingresourcesnewservers_user_groups ug ON gp.group_id = ug.group_id
              WHERE ug.user_id = :user_id AND gp.resource_type = :resource_type'
+            . " AND gp.effect = 'allow' AND " . self::ACTIVE_SQL
         );
         $stmt->execute([
             'user_id' => $userId,
@@ -0,0 +1,183 @@
+<?php
+
+/*
+ * This file is part of FeatherPanel.
+ *
+ * Copyright (C) 2025 MythicalSystems Studios
+ * Copyright (C) 2025 FeatherPanel Contributors
+ * Copyright (C) 2025 Cassian Gherman (aka NaysKutzu)
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * See the LICENSE file or <https://www.gnu.org/licenses/>.
+ */
+
+namespace App\Addons\billingresourcesnewservers\Chat;
+
+use App\Chat\Database;
+
+/**
+ * Preset chat model for managing server presets shown on the create form.
+ */
+class Preset
+{
+    private static string $table = 'featherpanel_billingresourcesnewservers_presets';
+
+    /**
+     * Columns that can be written through create/update.
+     *
+     * @var list<string>
+     */
+    private static array $fields = [
+        'name',
+        'description',
+        'memory',
+        'cpu',
+        'disk',
+        'swap',
+        'io',
+        'database_limit',
+        'allocation_limit',
+        'backup_limit',
+        'realm_id',
+        'spell_id',
+        'image',
+        'variables',
+        'enabled',
+        'sort_order',
+    ];
+
+    /**
+     * Get all presets.
+     *
+     * @return array<array<string,mixed>> Array of preset records
+     */
+    public static function getAll(): array
+    {
+        $pdo = Database::getPdoConnection();
+        $stmt = $pdo->query('SELECT * FROM ' . self::$table . ' ORDER BY sort_order ASC, name ASC');
+
+        return $stmt->fetchAll(\PDO::FETCH_ASSOC) ?: [];
+    }
+
+    /**
+     * Get all enabled presets.
+     *
+     * @return array<array<string,mixed>> Array of preset records
+     */
+    public static function getEnabled(): array
+    {
+        $pdo = Database::getPdoConnection();
+        $stmt = $pdo->query('SELECT * FROM ' . self::$table . " WHERE enabled = 'true' ORDER BY sort_order ASC, name ASC");
+
+        return $stmt->fetchAll(\PDO::FETCH_ASSOC) ?: [];
+    }
+
+    /**
+     * Get a preset by ID.
+     *
+     * @param int $presetId Preset ID
+     *
+     * @return array<string,mixed>|null Preset record or null if not found
+     */
+    public static function getById(int $presetId): ?array
+    {
+        $pdo = Database::getPdoConnection();
+        $stmt = $pdo->prepare('SELECT * FROM ' . self::$table . ' WHERE id = :id LIMIT 1');
+        $stmt->execute(['id' => $presetId]);
+
+        return $stmt->fetch(\PDO::FETCH_ASSOC) ?: null;
+    }
+
+    /**
+     * Create a new preset.
+     *
+     * @param array<string,mixed> $data Preset data (name required, see $fields)
+     *
+     * @return int|false Preset ID or false on failure
+     */
+    public static function create(array $data): int | false
+    {
+        $pdo = Database::getPdoConnection();
+        $columns = [];
+        $params = [];
+        foreach (self::$fields as $field) {
+            if (array_key_exists($field, $data)) {
+                $columns[] = $field;
+                $params[$field] = $data[$field];
+            }
+        }
+
+        if (!in_array('name', $columns, true)) {
+            return false;
+        }
+
+        $stmt = $pdo->prepare(
+            'INSERT INTO ' . self::$table . ' (' . implode(', ', $columns) . ') VALUES (:' . implode(', :', $columns) . ')'
+        );
+
+        try {
+            if ($stmt->execute($params)) {
+                return (int) $pdo->lastInsertId();
+            }
+        } catch (\PDOException $e) {
+            // Duplicate name
+            return false;
+        }
+
+        return false;
+    }
+
+    /**
+     * Update a preset.
+     *
+     * @param int $presetId Preset ID
+     * @param array<string,mixed> $data Update data (see $fields)
+     *
+     * @return bool Success status
+     */
+    public static function update(int $presetId, array $data): bool
+    {
+        $pdo = Database::getPdoConnection();
+        $fields = [];
+        $params = ['id' => $presetId];
+
+        foreach (self::$fields as $field) {
+            if (array_key_exists($field, $data)) {
+                $fields[] = $field . ' = :' . $field;
+                $params[$field] = $data[$field];
+            }
+        }
+
+        if (empty($fields)) {
+            return false;
+        }
+
+        $fields[] = 'updated_at = CURRENT_TIMESTAMP';
+        $stmt = $pdo->prepare('UPDATE ' . self::$table . ' SET ' . implode(', ', $fields) . ' WHERE id = :id');
+
+        try {
+            return $stmt->execute($params);
+        } catch (\PDOException $e) {
+            return false;
+        }
+    }
+
+    /**
+     * Delete a preset.
+     *
+     * @param int $presetId Preset ID
+     *
+     * @return bool Success status
+     */
+    public static function delete(int $presetId): bool
+    {
+        $pdo = Database::getPdoConnection();
+        $stmt = $pdo->prepare('DELETE FROM ' . self::$table . ' WHERE id = :id');
+
+        return $stmt->execute(['id' => $presetId]);
+    }
+}
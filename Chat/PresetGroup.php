@@ -0,0 +1,103 @@
+<?php
+
+/*
+ * This file is part of FeatherPanel.
+ *
+ * Copyright (C) 2025 MythicalSystems Studios
+ * Copyright (C) 2025 FeatherPanel Contributors
+ * Copyright (C) 2025 Cassian Gherman (aka NaysKutzu)
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * See the LICENSE file or <https://www.gnu.org/licenses/>.
+ */
+
+namespace App\Addons\billingresourcesnewservers\Chat;
+
+use App\Chat\Database;
+
+/**
+ * PresetGroup chat model for restricting presets to permission groups.
+ */
+class PresetGroup
+{
+    private static string $table = 'featherpanel_billingresourcesnewservers_preset_groups';
+
+    /**
+     * Get the groups a preset is restricted to.
+     *
+     * @param int $presetId Preset ID
+     *
+     * @return array<int> Array of group IDs (empty = available to everyone)
+     */
+    public static function getGroupIdsByPresetId(int $presetId): array
+    {
+        $pdo = Database::getPdoConnection();
+        $stmt = $pdo->prepare('SELECT group_id FROM ' . self::$table . ' WHERE preset_id = :preset_id');
+        $stmt->execute(['preset_id' => $presetId]);
+
+        return array_map('intval', $stmt->fetchAll(\PDO::FETCH_COLUMN));
+    }
+
+    /**
+     * Get group restrictions for all presets.
+     *
+     * @return array<int, array<int>> Preset ID => group IDs
+     */
+    public static function getAllGroupIdsByPreset(): array
+    {
+        $pdo = Database::getPdoConnection();
+        $stmt = $pdo->query('SELECT preset_id, group_id FROM ' . self::$table);
+
+        $map = [];
+        foreach ($stmt->fetchAll(\PDO::FETCH_ASSOC) ?: [] as $row) {
+            $map[(int) $row['preset_id']][] = (int) $row['group_id'];
+        }
+
+        return $map;
+    }
+
+    /**
+     * Set groups for a preset (replaces all existing groups).
+     *
+     * @param int $presetId Preset ID
+     * @param array<int> $groupIds Array of group IDs
+     *
+     * @return bool Success status
+     */
+    public static function setGroupsForPreset(int $presetId, array $groupIds): bool
+    {
+        $pdo = Database::getPdoConnection();
+
+        // Start transaction
+        $pdo->beginTransaction();
+
+        try {
+            // Remove all existing groups
+            $stmt = $pdo->prepare('DELETE FROM ' . self::$table . ' WHERE preset_id = :preset_id');
+            $stmt->execute(['preset_id' => $presetId]);
+
+            // Add new groups
+            if (!empty($groupIds)) {
+                $stmt = $pdo->prepare('INSERT INTO ' . self::$table . ' (preset_id, group_id) VALUES (:preset_id, :group_id)');
+                foreach (array_unique(array_map('intval', $groupIds)) as $groupId) {
+                    $stmt->execute([
+                        'preset_id' => $presetId,
+                        'group_id' => $groupId,
+                    ]);
+                }
+            }
+
+            $pdo->commit();
+
+            return true;
+        } catch (\Exception $e) {
+            $pdo->rollBack();
+
+            return false;
+        }
+    }
+}
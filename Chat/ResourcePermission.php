@@ -82,6 +82,21 @@ class ResourcePermission
         return $permission['default_error_message'] ?: null;
     }
 
+    /**
+     * Whether free servers on a resource need an admin's approval (defaults to false if not set).
+     *
+     * @param string $resourceType Resource type
+     * @param int $resourceId Resource ID
+     *
+     * @return bool True when the resource requires approval
+     */
+    public static function requiresApproval(string $resourceType, int $resourceId): bool
+    {
+        $permission = self::getByResource($resourceType, $resourceId);
+
+        return $permission !== null && (bool) ($permission['requires_approval'] ?? false);
+    }
+
     /**
      * Set permission mode for a resource.
      *
@@ -89,18 +104,20 @@ class ResourcePermission
      * @param int $resourceId Resource ID
      * @param string $mode 'open' or 'restricted'
      * @param string|null $defaultErrorMessage Default error message (optional)
+     * @param bool|null $requiresApproval Whether servers on the resource need approval (null = keep the current setting)
      *
      * @return bool Success status
      */
-    public static function setPermissionMode(string $resourceType, int $resourceId, string $mode, ?string $defaultErrorMessage = null): bool
+    public static function setPermissionMode(string $resourceType, int $resourceId, string $mode, ?string $defaultErrorMessage = null, ?bool $requiresApproval = null): bool
     {
         $pdo = Database::getPdoConnection();
         $mode = $mode === 'restricted' ? 'restricted' : 'open';
 
         $stmt = $pdo->prepare(
-            'INSERT INTO ' . self::$table . ' (resource_type, resource_id, permission_mode, default_error_message) 
-             VALUES (:resource_type, :resource_id, :permission_mode, :default_error_message)
-             ON DUPLICATE KEY UPDATE permission_mode = :permission_mode, default_error_message = :default_error_message, updated_at = CURRENT_TIMESTAMP'
+            'INSERT INTO ' . self::$table . ' (resource_type, resource_id, permission_mode, default_error_message, requires_approval) 
+             VALUES (:resource_type, :resource_id, :permission_mode, :default_error_message, COALESCE(:requires_approval, 0))
+             ON DUPLICATE KEY UPDATE permission_mode = :permission_mode, default_error_message = :default_error_message,
+                requires_approval = COALESCE(:requires_approval, requires_approval), updated_at = CURRENT_TIMESTAMP'
         );
 
         return $stmt->execute([
@@ -108,6 +125,7 @@ class ResourcePermission
             'resource_id' => $resourceId,
             'permission_mode' => $mode,
             'default_error_message' => $defaultErrorMessage,
+            'requires_approval' => $requiresApproval === null ? null : (int) $requiresApproval,
         ]);
     }
 
@@ -149,7 +167,7 @@ class ResourcePermission
     /**
      * Batch set permission modes for multiple resources.
      *
-     * @param array<array{resource_type: string, resource_id: int, permission_mode: string, default_error_message?: string|null}> $permissions Array of permission settings
+     * @param array<array{resource_type: string, resource_id: int, permission_mode: string, default_error_message?: string|null, requires_approval?: bool|null}> $permissions Array of permission settings
      *
      * @return bool Success status
      */
@@ -160,9 +178,10 @@ class ResourcePermission
 
         try {
             $stmt = $pdo->prepare(
-                'INSERT INTO ' . self::$table . ' (resource_type, resource_id, permission_mode, default_error_message) 
-                 VALUES (:resource_type, :resource_id, :permission_mode, :default_error_message)
-                 ON DUPLICATE KEY UPDATE permission_mode = :permission_mode, default_error_message = :default_error_message, updated_at = CURRENT_TIMESTAMP'
+                'INSERT INTO ' . self::$table . ' (resource_type, resource_id, permission_mode, default_error_message, requires_approval) 
+                 VALUES (:resource_type, :resource_id, :permission_mode, :default_error_message, COALESCE(:requires_approval, 0))
+                 ON DUPLICATE KEY UPDATE permission_mode = :permission_mode, default_error_message = :default_error_message,
+                    requires_approval = COALESCE(:requires_approval, requires_approval), updated_at = CURRENT_TIMESTAMP'
             );
 
             foreach ($permissions as $perm) {
@@ -172,6 +191,7 @@ class ResourcePermission
                     'resource_id' => (int) $perm['resource_id'],
                     'permission_mode' => $mode,
                     'default_error_message' => $perm['default_error_message'] ?? null,
+                    'requires_approval' => isset($perm['requires_approval']) ? (int) (bool) $perm['requires_approval'] : null,
                 ]);
             }
 
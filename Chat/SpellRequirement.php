@@ -0,0 +1,128 @@
+<?php
+
+/*
+ * This file is part of FeatherPanel.
+ *
+ * Copyright (C) 2025 MythicalSystems Studios
+ * Copyright (C) 2025 FeatherPanel Contributors
+ * Copyright (C) 2025 Cassian Gherman (aka NaysKutzu)
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * See the LICENSE file or <https://www.gnu.org/licenses/>.
+ */
+
+namespace App\Addons\billingresourcesnewservers\Chat;
+
+use App\Chat\Database;
+
+/**
+ * SpellRequirement chat model for per-spell and per-realm resource requirements.
+ */
+class SpellRequirement
+{
+    /**
+     * Requirement columns (NULL = not set, fall back to the realm or the global minimums).
+     *
+     * @var list<string>
+     */
+    public const FIELDS = [
+        'min_memory',
+        'min_cpu',
+        'min_disk',
+        'recommended_memory',
+        'recommended_cpu',
+        'recommended_disk',
+    ];
+
+    private static string $table = 'featherpanel_billingresourcesnewservers_spell_requirements';
+
+    /**
+     * Get all requirement records.
+     *
+     * @return array<array<string,mixed>> Array of requirement records
+     */
+    public static function getAll(): array
+    {
+        $pdo = Database::getPdoConnection();
+        $stmt = $pdo->query('SELECT * FROM ' . self::$table . ' ORDER BY resource_type ASC, resource_id ASC');
+
+        return $stmt->fetchAll(\PDO::FETCH_ASSOC) ?: [];
+    }
+
+    /**
+     * Get the requirements of a realm or spell.
+     *
+     * @param string $resourceType Resource type (realm, spell)
+     * @param int $resourceId Resource ID
+     *
+     * @return array<string,mixed>|null Requirement record or null if none is set
+     */
+    public static function getByResource(string $resourceType, int $resourceId): ?array
+    {
+        $pdo = Database::getPdoConnection();
+        $stmt = $pdo->prepare('SELECT * FROM ' . self::$table . ' WHERE resource_type = :resource_type AND resource_id = :resource_id LIMIT 1');
+        $stmt->execute([
+            'resource_type' => $resourceType,
+            'resource_id' => $resourceId,
+        ]);
+
+        return $stmt->fetch(\PDO::FETCH_ASSOC) ?: null;
+    }
+
+    /**
+     * Create or replace the requirements of a realm or spell.
+     *
+     * @param string $resourceType Resource type (realm, spell)
+     * @param int $resourceId Resource ID
+     * @param array<string,int|null> $values Values keyed by FIELDS (missing or null = not set)
+     * @param list<string>|null $dockerImages Allowed docker images (null = every image of the spell)
+     *
+     * @return bool Success status
+     */
+    public static function set(string $resourceType, int $resourceId, array $values, ?array $dockerImages): bool
+    {
+        $pdo = Database::getPdoConnection();
+        $columns = implode(', ', self::FIELDS);
+        $placeholders = ':' . implode(', :', self::FIELDS);
+        $updates = implode(', ', array_map(fn (string $field) => $field . ' = VALUES(' . $field . ')', self::FIELDS));
+        $stmt = $pdo->prepare(
+            'INSERT INTO ' . self::$table . ' (resource_type, resource_id, ' . $columns . ', docker_images)
+             VALUES (:resource_type, :resource_id, ' . $placeholders . ', :docker_images)
+             ON DUPLICATE KEY UPDATE ' . $updates . ', docker_images = VALUES(docker_images), updated_at = CURRENT_TIMESTAMP'
+        );
+
+        $params = [
+            'resource_type' => $resourceType,
+            'resource_id' => $resourceId,
+            'docker_images' => $dockerImages === null ? null : json_encode(array_values($dockerImages)),
+        ];
+        foreach (self::FIELDS as $field) {
+            $params[$field] = isset($values[$field]) ? (int) $values[$field] : null;
+        }
+
+        return $stmt->execute($params);
+    }
+
+    /**
+     * Remove the requirements of a realm or spell.
+     *
+     * @param string $resourceType Resource type (realm, spell)
+     * @param int $resourceId Resource ID
+     *
+     * @return bool Success status
+     */
+    public static function delete(string $resourceType, int $resourceId): bool
+    {
+        $pdo = Database::getPdoConnection();
+        $stmt = $pdo->prepare('DELETE FROM ' . self::$table . ' WHERE resource_type = :resource_type AND resource_id = :resource_id');
+
+        return $stmt->execute([
+            'resource_type' => $resourceType,
+            'resource_id' => $resourceId,
+        ]);
+    }
+}
@@ -0,0 +1,246 @@
+<?php
+
+/*
+ * This file is part of FeatherPanel.
+ *
+ * Copyright (C) 2025 MythicalSystems Studios
+ * Copyright (C) 2025 FeatherPanel Contributors
+ * Copyright (C) 2025 Cassian Gherman (aka NaysKutzu)
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * See the LICENSE file or <https://www.gnu.org/licenses/>.
+ */
+
+namespace App\Addons\billingresourcesnewservers\Chat;
+
+use App\Chat\Database;
+
+/**
+ * TrackedServer chat model for servers created through this plugin and their lifetime reclamation state.
+ */
+class TrackedServer
+{
+    /**
+     * Reclamation states, in the order a server moves through them.
+     *
+     * @var list<string>
+     */
+    public const STATES = ['active', 'warned', 'suspended', 'deleted'];
+
+    /** @var list<string> */
+    public const REASONS = ['lifetime', 'inactivity'];
+
+    private static string $table = 'featherpanel_billingresourcesnewservers_servers';
+
+    /**
+     * Start tracking a server. Tracking the same server twice is a no-op.
+     *
+     * @param int $serverId Server ID
+     * @param int $userId Owner user ID
+     * @param int|null $creationRequestId Creation request that created the server
+     *
+     * @return bool Success status
+     */
+    public static function track(int $serverId, int $userId, ?int $creationRequestId = null): bool
+    {
+        $pdo = Database::getPdoConnection();
+        $stmt = $pdo->prepare('INSERT IGNORE INTO ' . self::$table . ' (server_id, user_id, creation_request_id) VALUES (:server_id, :user_id, :creation_request_id)');
+
+        return $stmt->execute(['server_id' => $serverId, 'user_id' => $userId, 'creation_request_id' => $creationRequestId]);
+    }
+
+    /**
+     * Get a tracked server by ID.
+     *
+     * @param int $trackedId Tracked server ID
+     *
+     * @return array<string,mixed>|null Tracked server with the server name and UUID, or null if not found
+     */
+    public static function getById(int $trackedId): ?array
+    {
+        $pdo = Database::getPdoConnection();
+        $stmt = $pdo->prepare(self::selectSql() . ' WHERE t.id = :id LIMIT 1');
+        $stmt->execute(['id' => $trackedId]);
+
+        return $stmt->fetch(\PDO::FETCH_ASSOC) ?: null;
+    }
+
+    /**
+     * Get a tracked server by ID, only if the given user owns the server now.
+     * The creator loses access once the server is transferred to someone else.
+     *
+     * @param int $trackedId Tracked server ID
+     * @param int $userId User ID
+     *
+     * @return array<string,mixed>|null Tracked server or null if not found
+     */
+    public static function getByIdForUser(int $trackedId, int $userId): ?array
+    {
+        $tracked = self::getById($trackedId);
+        if ($tracked === null || (int) ($tracked['server_owner_id'] ?? 0) !== $userId) {
+            return null;
+        }
+
+        return $tracked;
+    }
+
+    /**
+     * Servers created through this plugin that a user owns now and that were not deleted yet, newest first.
+     *
+     * @param int $userId User ID
+     *
+     * @return list<array<string,mixed>> Tracked servers
+     */
+    public static function getByOwnerId(int $userId): array
+    {
+        $pdo = Database::getPdoConnection();
+        $stmt = $pdo->prepare(self::selectSql() . " WHERE s.owner_id = :user_id AND t.reclaim_state != 'deleted' ORDER BY t.id DESC");
+        $stmt->execute(['user_id' => $userId]);
+
+        return $stmt->fetchAll(\PDO::FETCH_ASSOC) ?: [];
+    }
+
+    /**
+     * Servers still in the panel and not reclaimed whose owner registered from the given IP.
+     *
+     * @param string $ip Registration IP (users.first_ip)
+     *
+     * @return int Number of servers
+     */
+    public static function countByRegistrationIp(string $ip): int
+    {
+        $pdo = Database::getPdoConnection();
+        $stmt = $pdo->prepare(
+            'SELECT COUNT(*) FROM ' . self::$table . ' t'
+            . ' INNER JOIN featherpanel_servers s ON s.id = t.server_id'
+            . ' INNER JOIN featherpanel_users u ON u.id = t.user_id'
+            . " WHERE u.first_ip = :ip AND t.reclaim_state != 'deleted'"
+        );
+        $stmt->execute(['ip' => $ip]);
+
+        return (int) $stmt->fetchColumn();
+    }
+
+    /**
+     * Servers not deleted yet, least recently checked first.
+     *
+     * @param int $limit Maximum number of servers
+     *
+     * @return list<array<string,mixed>> Tracked servers
+     */
+    public static function getForReclamation(int $limit): array
+    {
+        $pdo = Database::getPdoConnection();
+        $stmt = $pdo->query(
+            self::selectSql() . " WHERE t.reclaim_state != 'deleted' ORDER BY t.checked_at IS NOT NULL, t.checked_at ASC, t.id ASC LIMIT " . max(1, $limit)
+        );
+
+        return $stmt->fetchAll(\PDO::FETCH_ASSOC) ?: [];
+    }
+
+    /**
+     * Move a server to another reclamation state, only if it is still in the expected one.
+     * Entering a state stamps its timestamp; going back to active clears the warning and suspension.
+     *
+     * @param int $trackedId Tracked server ID
+     * @param string $from Expected current state
+     * @param string $to New state
+     * @param string|null $reason Why the server is reclaimed (kept when null, cleared when going back to active)
+     *
+     * @return bool True when this call performed the transition
+     */
+    public static function transition(int $trackedId, string $from, string $to, ?string $reason = null): bool
+    {
+        $fields = ['reclaim_state = :to'];
+        $params = ['id' => $trackedId, 'from' => $from, 'to' => $to];
+
+        if ($to === 'active') {
+            $fields[] = 'reclaim_reason = NULL';
+            $fields[] = 'warned_at = NULL';
+            $fields[] = 'suspended_at = NULL';
+        } else {
+            $fields[] = $to . '_at = CURRENT_TIMESTAMP';
+            if ($reason !== null) {
+                $fields[] = 'reclaim_reason = :reason';
+                $params['reason'] = $reason;
+            }
+        }
+
+        $pdo = Database::getPdoConnection();
+        $stmt = $pdo->prepare('UPDATE ' . self::$table . ' SET ' . implode(', ', $fields) . ', updated_at = CURRENT_TIMESTAMP WHERE id = :id AND reclaim_state = :from');
+        $stmt->execute($params);
+
+        return $stmt->rowCount() === 1;
+    }
+
+    /**
+     * Record that the server was seen running (its activity log only shows what was done through the panel).
+     *
+     * @param int $trackedId Tracked server ID
+     *
+     * @return bool Success status
+     */
+    public static function markActive(int $trackedId): bool
+    {
+        $pdo = Database::getPdoConnection();
+        $stmt = $pdo->prepare('UPDATE ' . self::$table . ' SET last_active_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP WHERE id = :id');
+
+        return $stmt->execute(['id' => $trackedId]);
+    }
+
+    /**
+     * Restart the lifetime and the inactivity period of a server.
+     *
+     * @param int $trackedId Tracked server ID
+     *
+     * @return bool Success status
+     */
+    public static function renew(int $trackedId): bool
+    {
+        $pdo = Database::getPdoConnection();
+        $stmt = $pdo->prepare('UPDATE ' . self::$table . ' SET renewed_at = CURRENT_TIMESTAMP, last_active_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP WHERE id = :id');
+
+        return $stmt->execute(['id' => $trackedId]);
+    }
+
+    /**
+     * Record that a reclamation pass looked at the server.
+     *
+     * @param int $trackedId Tracked server ID
+     *
+     * @return bool Success status
+     */
+    public static function markChecked(int $trackedId): bool
+    {
+        $pdo = Database::getPdoConnection();
+        $stmt = $pdo->prepare('UPDATE ' . self::$table . ' SET checked_at = CURRENT_TIMESTAMP WHERE id = :id');
+
+        return $stmt->execute(['id' => $trackedId]);
+    }
+
+    /**
+     * Tracked server columns, the server name, UUID, current owner and panel status (NULL once the server is gone) and the ages
+     * reclamation works with, computed by the database so they do not depend on the PHP timezone:
+     * lifetime_seconds since creation or the last renewal, idle_seconds since last_activity_at, warned_seconds / suspended_seconds in the current state.
+     *
+     * last_activity_at is the latest of the last entry in the panel's server activity log (power actions, console
+     * commands, file changes, ...), the last time the server was seen running and the last renewal.
+     */
+    private static function selectSql(): string
+    {
+        $lastActivity = 'GREATEST(COALESCE(t.last_active_at, t.created_at),'
+            . ' COALESCE((SELECT MAX(a.created_at) FROM featherpanel_server_activities a WHERE a.server_id = t.server_id), t.created_at))';
+
+        return 'SELECT t.*, s.name AS server_name, s.uuid AS server_uuid, s.owner_id AS server_owner_id, s.status AS server_status,'
+            . ' ' . $lastActivity . ' AS last_activity_at,'
+            . ' TIMESTAMPDIFF(SECOND, COALESCE(t.renewed_at, t.created_at), NOW()) AS lifetime_seconds,'
+            . ' TIMESTAMPDIFF(SECOND, ' . $lastActivity . ', NOW()) AS idle_seconds,'
+            . ' TIMESTAMPDIFF(SECOND, t.warned_at, NOW()) AS warned_seconds,'
+            . ' TIMESTAMPDIFF(SECOND, t.suspended_at, NOW()) AS suspended_seconds'
+            . ' FROM ' . self::$table . ' t LEFT JOIN featherpanel_servers s ON s.id = t.server_id';
+    }
+}
@@ -18,16 +18,19 @@
 namespace App\Addons\billingresourcesnewservers\Chat;
 
 use App\Chat\Database;
+use App\Addons\billingresourcesnewservers\Helpers\LookupHelper;
 
 /**
  * UserGroup chat model for managing user-group relationships.
+ * A membership is either manual (assigned by an admin) or derived from the group's membership rules.
+ * Manual memberships are never removed by rule syncing.
  */
 class UserGroup
 {
     private static string $table = 'featherpanel_billingresourcesnewservers_user_groups';
 
     /**
-     * Assign a user to a group.
+     * Assign a user to a group (a rule-derived membership becomes manual).
      *
      * @param int $userId User ID
      * @param int $groupId Group ID
@@ -38,7 +41,8 @@ class UserGroup
     {
         $pdo = Database::getPdoConnection();
         $stmt = $pdo->prepare(
-            'INSERT IGNORE INTO ' . self::$table . ' (user_id, group_id) VALUES (:user_id, :group_id)'
+            'INSERT INTO ' . self::$table . " (user_id, group_id, source) VALUES (:user_id, :group_id, 'manual')
+             ON DUPLICATE KEY UPDATE source = 'manual'"
         );
 
         return $stmt->execute([
@@ -82,6 +86,184 @@ class UserGroup
         return array_map('intval', $stmt->fetchAll(\PDO::FETCH_COLUMN));
     }
 
+    /**
+     * Get the groups a user is in through membership rules only.
+     *
+     * @param int $userId User ID
+     *
+     * @return array<int> Array of group IDs
+     */
+    public static function getRuleGroupIdsByUserId(int $userId): array
+    {
+        $pdo = Database::getPdoConnection();
+        $stmt = $pdo->prepare('SELECT group_id FROM ' . self::$table . " WHERE user_id = :user_id AND source = 'rule'");
+        $stmt->execute(['user_id' => $userId]);
+
+        return array_map('intval', $stmt->fetchAll(\PDO::FETCH_COLUMN));
+    }
+
+    /**
+     * Members of a group by username, with where each membership comes from.
+     *
+     * @param int $groupId Group ID
+     * @param string $search Matched against username and email ('' = all members)
+     * @param int $limit Page size
+     * @param int $offset Rows to skip
+     *
+     * @return list<array{id: int, uuid: string, username: string, email: string, source: string}>
+     */
+    public static function getMembers(int $groupId, string $search, int $limit, int $offset): array
+    {
+        $filter = self::memberFilter($groupId, $search);
+        $pdo = Database::getPdoConnection();
+        $stmt = $pdo->prepare(
+            'SELECT u.id, u.uuid, u.username, u.email, ug.source FROM ' . self::$table . ' ug'
+            . ' INNER JOIN featherpanel_users u ON u.id = ug.user_id WHERE ' . $filter['where']
+            . ' ORDER BY u.username ASC LIMIT ' . max(1, $limit) . ' OFFSET ' . max(0, $offset)
+        );
+        $stmt->execute($filter['params']);
+
+        return array_map(static fn (array $row): array => [
+            'id' => (int) $row['id'],
+            'uuid' => $row['uuid'],
+            'username' => $row['username'],
+            'email' => $row['email'],
+            'source' => $row['source'],
+        ], $stmt->fetchAll(\PDO::FETCH_ASSOC));
+    }
+
+    /**
+     * Count the members getMembers lists.
+     *
+     * @param int $groupId Group ID
+     * @param string $search Matched against username and email ('' = all members)
+     */
+    public static function countMembers(int $groupId, string $search): int
+    {
+        $filter = self::memberFilter($groupId, $search);
+        $pdo = Database::getPdoConnection();
+        $stmt = $pdo->prepare('SELECT COUNT(*) FROM ' . self::$table . ' ug INNER JOIN featherpanel_users u ON u.id = ug.user_id WHERE ' . $filter['where']);
+        $stmt->execute($filter['params']);
+
+        return (int) $stmt->fetchColumn();
+    }
+
+    /**
+     * Make a user's rule-derived memberships match the groups whose rules they currently meet.
+     * Manual memberships are kept as they are.
+     *
+     * @param int $userId User ID
+     * @param array<int> $matchedGroupIds Groups whose rules the user meets
+     *
+     * @return bool Success status
+     */
+    public static function syncRuleGroupsForUser(int $userId, array $matchedGroupIds): bool
+    {
+        $pdo = Database::getPdoConnection();
+        $matchedGroupIds = array_values(array_unique(array_map('intval', $matchedGroupIds)));
+
+        $sql = 'DELETE FROM ' . self::$table . " WHERE user_id = ? AND source = 'rule'";
+        if (!empty($matchedGroupIds)) {
+            $sql .= ' AND group_id NOT IN (' . implode(', ', array_fill(0, count($matchedGroupIds), '?')) . ')';
+        }
+        $stmt = $pdo->prepare($sql);
+        if (!$stmt->execute(array_merge([$userId], $matchedGroupIds))) {
+            return false;
+        }
+
+        $stmt = $pdo->prepare('INSERT IGNORE INTO ' . self::$table . " (user_id, group_id, source) VALUES (:user_id, :group_id, 'rule')");
+        foreach ($matchedGroupIds as $groupId) {
+            if (!$stmt->execute(['user_id' => $userId, 'group_id' => $groupId])) {
+                return false;
+            }
+        }
+
+        return true;
+    }
+
+    /**
+     * Recompute the rule-derived members of a group for all users at once.
+     *
+     * @param int $groupId Group ID
+     * @param string|null $predicate SQL condition on featherpanel_users aliased as u (null = the group has no rules)
+     * @param array<string,mixed> $params Named parameters of the predicate
+     *
+     * @return bool Success status
+     */
+    public static function refreshRuleMembers(int $groupId, ?string $predicate, array $params = []): bool
+    {
+        $pdo = Database::getPdoConnection();
+
+        if ($predicate === null) {
+            $stmt = $pdo->prepare('DELETE FROM ' . self::$table . " WHERE group_id = :group_id AND source = 'rule'");
+
+            return $stmt->execute(['group_id' => $groupId]);
+        }
+
+        $stmt = $pdo->prepare(
+            'DELETE ug FROM ' . self::$table . " ug
+             LEFT JOIN featherpanel_users u ON u.id = ug.user_id
+             WHERE ug.group_id = :group_id AND ug.source = 'rule' AND (u.id IS NULL OR NOT (" . $predicate . '))'
+        );
+        if (!$stmt->execute(array_merge(['group_id' => $groupId], $params))) {
+            return false;
+        }
+
+        $stmt = $pdo->prepare(
+            'INSERT IGNORE INTO ' . self::$table . " (user_id, group_id, source)
+             SELECT u.id, :group_id, 'rule' FROM featherpanel_users u WHERE " . $predicate
+        );
+
+        return $stmt->execute(array_merge(['group_id' => $groupId], $params));
+    }
+
+    /**
+     * Check whether a user meets a membership predicate.
+     *
+     * @param int $userId User ID
+     * @param string $predicate SQL condition on featherpanel_users aliased as u
+     * @param array<string,mixed> $params Named parameters of the predicate
+     *
+     * @return bool True when the user matches
+     */
+    public static function userMatches(int $userId, string $predicate, array $params = []): bool
+    {
+        $pdo = Database::getPdoConnection();
+        $stmt = $pdo->prepare('SELECT 1 FROM featherpanel_users u WHERE u.id = :rule_user_id AND (' . $predicate . ') LIMIT 1');
+        $stmt->execute(array_merge(['rule_user_id' => $userId], $params));
+
+        return $stmt->fetchColumn() !== false;
+    }
+
+    /**
+     * Get the users that meet a membership predicate.
+     *
+     * @param string $predicate SQL condition on featherpanel_users aliased as u
+     * @param array<string,mixed> $params Named parameters of the predicate
+     * @param int $limit Maximum number of users returned
+     *
+     * @return array{total: int, users: array<array{id: int, uuid: string, username: string, email: string}>}
+     */
+    public static function getMatchingUsers(string $predicate, array $params = [], int $limit = 25): array
+    {
+        $pdo = Database::getPdoConnection();
+
+        $stmt = $pdo->prepare('SELECT COUNT(*) FROM featherpanel_users u WHERE ' . $predicate);
+        $stmt->execute($params);
+        $total = (int) $stmt->fetchColumn();
+
+        $stmt = $pdo->prepare('SELECT u.id, u.uuid, u.username, u.email FROM featherpanel_users u WHERE ' . $predicate . ' ORDER BY u.username ASC LIMIT ' . max(1, $limit));
+        $stmt->execute($params);
+        $users = array_map(static fn (array $row): array => [
+            'id' => (int) $row['id'],
+            'uuid' => $row['uuid'],
+            'username' => $row['username'],
+            'email' => $row['email'],
+        ], $stmt->fetchAll(\PDO::FETCH_ASSOC));
+
+        return ['total' => $total, 'users' => $users];
+    }
+
     /**
      * Get all users in a group.
      *
@@ -119,7 +301,7 @@ class UserGroup
     }
 
     /**
-     * Set groups for a user (replaces all existing groups).
+     * Set the manual groups of a user (replaces all existing manual groups; rule-derived memberships are kept).
      *
      * @param int $userId User ID
      * @param array<int> $groupIds Array of group IDs
@@ -134,13 +316,16 @@ class UserGroup
         $pdo->beginTransaction();
 
         try {
-            // Remove all existing groups
-            $stmt = $pdo->prepare('DELETE FROM ' . self::$table . ' WHERE user_id = :user_id');
+            // Remove all existing manual groups
+            $stmt = $pdo->prepare('DELETE FROM ' . self::$table . " WHERE user_id = :user_id AND source = 'manual'");
             $stmt->execute(['user_id' => $userId]);
 
-            // Add new groups
+            // Add new groups (a selected rule-derived membership becomes manual)
             if (!empty($groupIds)) {
-                $stmt = $pdo->prepare('INSERT INTO ' . self::$table . ' (user_id, group_id) VALUES (:user_id, :group_id)');
+                $stmt = $pdo->prepare(
+                    'INSERT INTO ' . self::$table . " (user_id, group_id, source) VALUES (:user_id, :group_id, 'manual')
+                     ON DUPLICATE KEY UPDATE source = 'manual'"
+                );
                 foreach ($groupIds as $groupId) {
                     $stmt->execute([
                         'user_id' => $userId,
@@ -158,4 +343,19 @@ class UserGroup
             return false;
         }
     }
+
+    /**
+     * @return array{where: string, params: array<string,mixed>}
+     */
+    private static function memberFilter(int $groupId, string $search): array
+    {
+        if ($search === '') {
+            return ['where' => 'ug.group_id = :group_id', 'params' => ['group_id' => $groupId]];
+        }
+
+        return [
+            'where' => 'ug.group_id = :group_id AND (u.username LIKE :search OR u.email LIKE :search_email)',
+            'params' => ['group_id' => $groupId, 'search' => LookupHelper::likePattern($search), 'search_email' => LookupHelper::likePattern($search)],
+        ];
+    }
 }
@@ -18,12 +18,18 @@
 namespace App\Addons\billingresourcesnewservers\Chat;
 
 use App\Chat\Database;
+use App\Addons\billingresourcesnewservers\Helpers\LookupHelper;
 
 /**
  * UserPermission chat model for managing user-specific permissions.
  */
 class UserPermission
 {
+    /**
+     * SQL expression that is 1 while a permission is inside its validity window.
+     */
+    public const ACTIVE_SQL = '((starts_at IS NULL OR starts_at <= NOW()) AND (expires_at IS NULL OR expires_at > NOW()))';
+
     private static string $table = 'featherpanel_billingresourcesnewservers_user_permissions';
 
     /**
@@ -36,12 +42,57 @@ class UserPermission
     public static function getByUserId(int $userId): array
     {
         $pdo = Database::getPdoConnection();
-        $stmt = $pdo->prepare('SELECT * FROM ' . self::$table . ' WHERE user_id = :user_id ORDER BY resource_type, resource_id');
+        $stmt = $pdo->prepare('SELECT *, ' . self::ACTIVE_SQL . ' AS is_active FROM ' . self::$table . ' WHERE user_id = :user_id ORDER BY resource_type, resource_id');
         $stmt->execute(['user_id' => $userId]);
 
         return $stmt->fetchAll(\PDO::FETCH_ASSOC) ?: [];
     }
 
+    /**
+     * Users with at least one permission entry, by username, with how many entries they have of each kind.
+     *
+     * @param string $search Matched against username and email ('' = all)
+     * @param int $limit Page size
+     * @param int $offset Rows to skip
+     *
+     * @return list<array<string,mixed>> user_id, username, email, permission_count, deny_count and {type}_count per resource type
+     */
+    public static function getUsersWithPermissions(string $search, int $limit, int $offset): array
+    {
+        $filter = self::userSearchFilter($search);
+        $pdo = Database::getPdoConnection();
+        $stmt = $pdo->prepare(
+            'SELECT p.user_id, u.username, u.email, COUNT(*) AS permission_count,'
+            . " SUM(p.effect = 'deny') AS deny_count,"
+            . " SUM(p.resource_type = 'location') AS location_count, SUM(p.resource_type = 'node') AS node_count,"
+            . " SUM(p.resource_type = 'realm') AS realm_count, SUM(p.resource_type = 'spell') AS spell_count"
+            . ' FROM ' . self::$table . ' p INNER JOIN featherpanel_users u ON u.id = p.user_id'
+            . ' WHERE ' . $filter['where']
+            . ' GROUP BY p.user_id, u.username, u.email ORDER BY u.username ASC LIMIT ' . max(1, $limit) . ' OFFSET ' . max(0, $offset)
+        );
+        $stmt->execute($filter['params']);
+
+        return $stmt->fetchAll(\PDO::FETCH_ASSOC) ?: [];
+    }
+
+    /**
+     * Count the users getUsersWithPermissions lists.
+     *
+     * @param string $search Matched against username and email ('' = all)
+     */
+    public static function countUsersWithPermissions(string $search): int
+    {
+        $filter = self::userSearchFilter($search);
+        $pdo = Database::getPdoConnection();
+        $stmt = $pdo->prepare(
+            'SELECT COUNT(DISTINCT p.user_id) FROM ' . self::$table . ' p INNER JOIN featherpanel_users u ON u.id = p.user_id'
+            . ' WHERE ' . $filter['where']
+        );
+        $stmt->execute($filter['params']);
+
+        return (int) $stmt->fetchColumn();
+    }
+
     /**
      * Get permissions for a user filtered by resource type.
      *
@@ -53,7 +104,7 @@ class UserPermission
     public static function getByUserIdAndType(int $userId, string $resourceType): array
     {
         $pdo = Database::getPdoConnection();
-        $stmt = $pdo->prepare('SELECT * FROM ' . self::$table . ' WHERE user_id = :user_id AND resource_type = :resource_type ORDER BY resource_id');
+        $stmt = $pdo->prepare('SELECT *, ' . self::ACTIVE_SQL . ' AS is_active FROM ' . self::$table . ' WHERE user_id = :user_id AND resource_type = :resource_type ORDER BY resource_id');
         $stmt->execute([
             'user_id' => $userId,
             'resource_type' => $resourceType,
@@ -74,7 +125,7 @@ class UserPermission
     public static function getUserPermission(int $userId, string $resourceType, int $resourceId): ?array
     {
         $pdo = Database::getPdoConnection();
-        $stmt = $pdo->prepare('SELECT * FROM ' . self::$table . ' WHERE user_id = :user_id AND resource_type = :resource_type AND resource_id = :resource_id LIMIT 1');
+        $stmt = $pdo->prepare('SELECT *, ' . self::ACTIVE_SQL . ' AS is_active FROM ' . self::$table . ' WHERE user_id = :user_id AND resource_type = :resource_type AND resource_id = :resource_id LIMIT 1');
         $stmt->execute([
             'user_id' => $userId,
             'resource_type' => $resourceType,
@@ -90,15 +141,18 @@ class UserPermission
      * @param int $userId User ID
      * @param string $resourceType Resource type (location, node, realm, spell)
      *
-     * @return array<int> Array of allowed resource IDs
+     * @return array<int> Array of allowed resource IDs (active allow entries only)
      */
     public static function getAllowedResourceIds(int $userId, string $resourceType): array
     {
-        $permissions = self::getByUserIdAndType($userId, $resourceType);
+        $permissions = array_filter(
+            self::getByUserIdAndType($userId, $resourceType),
+            fn (array $perm) => $perm['effect'] === 'allow' && (bool) $perm['is_active']
+        );
 
-        return array_map(function ($perm) {
+        return array_values(array_map(function ($perm) {
             return (int) $perm['resource_id'];
-        }, $permissions);
+        }, $permissions));
     }
 
     /**
@@ -108,23 +162,27 @@ class UserPermission
      * @param string $resourceType Resource type (location, node, realm, spell)
      * @param int $resourceId Resource ID
      * @param string|null $customErrorMessage Custom error message (optional)
+     * @param array{effect?: string, starts_at?: string|null, expires_at?: string|null} $rule Effect (allow/deny, default allow) and validity window
      *
      * @return bool Success status
      */
-    public static function createOrUpdate(int $userId, string $resourceType, int $resourceId, ?string $customErrorMessage = null): bool
+    public static function createOrUpdate(int $userId, string $resourceType, int $resourceId, ?string $customErrorMessage = null, array $rule = []): bool
     {
         $pdo = Database::getPdoConnection();
         $stmt = $pdo->prepare(
-            'INSERT INTO ' . self::$table . ' (user_id, resource_type, resource_id, custom_error_message) 
-             VALUES (:user_id, :resource_type, :resource_id, :custom_error_message)
-             ON DUPLICATE KEY UPDATE custom_error_message = :custom_error_message, updated_at = CURRENT_TIMESTAMP'
+            'INSERT INTO ' . self::$table . ' (user_id, resource_type, resource_id, effect, custom_error_message, starts_at, expires_at)
+             VALUES (:user_id, :resource_type, :resource_id, :effect, :custom_error_message, :starts_at, :expires_at)
+             ON DUPLICATE KEY UPDATE effect = :effect, custom_error_message = :custom_error_message, starts_at = :starts_at, expires_at = :expires_at, updated_at = CURRENT_TIMESTAMP'
         );
 
         return $stmt->execute([
             'user_id' => $userId,
             'resource_type' => $resourceType,
             'resource_id' => $resourceId,
+            'effect' => ($rule['effect'] ?? 'allow') === 'deny' ? 'deny' : 'allow',
             'custom_error_message' => $customErrorMessage,
+            'starts_at' => $rule['starts_at'] ?? null,
+            'expires_at' => $rule['expires_at'] ?? null,
         ]);
     }
 
@@ -202,4 +260,19 @@ class UserPermission
 
         return $stmt->fetchAll(\PDO::FETCH_ASSOC) ?: [];
     }
+
+    /**
+     * @return array{where: string, params: array<string,string>}
+     */
+    private static function userSearchFilter(string $search): array
+    {
+        if ($search === '') {
+            return ['where' => '1 = 1', 'params' => []];
+        }
+
+        return [
+            'where' => '(u.username LIKE :search OR u.email LIKE :search_email)',
+            'params' => ['search' => LookupHelper::likePattern($search), 'search_email' => LookupHelper::likePattern($search)],
+        ];
+    }
 }
@@ -0,0 +1,85 @@
+<?php
+
+/*
+ * This file is part of FeatherPanel.
+ *
+ * Copyright (C) 2025 MythicalSystems Studios
+ * Copyright (C) 2025 FeatherPanel Contributors
+ * Copyright (C) 2025 Cassian Gherman (aka NaysKutzu)
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * See the LICENSE file or <https://www.gnu.org/licenses/>.
+ */
+
+namespace App\Addons\billingresourcesnewservers\Chat;
+
+use App\Chat\Database;
+
+/**
+ * UserQuota chat model for per-user server quota overrides.
+ */
+class UserQuota
+{
+    private static string $table = 'featherpanel_billingresourcesnewservers_user_quotas';
+
+    /**
+     * Get the quota override of a user.
+     *
+     * @param int $userId User ID
+     *
+     * @return array<string,mixed>|null Override record or null if the user has none
+     */
+    public static function getByUserId(int $userId): ?array
+    {
+        $pdo = Database::getPdoConnection();
+        $stmt = $pdo->prepare('SELECT * FROM ' . self::$table . ' WHERE user_id = :user_id LIMIT 1');
+        $stmt->execute(['user_id' => $userId]);
+
+        return $stmt->fetch(\PDO::FETCH_ASSOC) ?: null;
+    }
+
+    /**
+     * Create or replace the quota override of a user.
+     *
+     * @param int $userId User ID
+     * @param array<string,int|null> $quotas Quotas keyed by Group::QUOTA_FIELDS (missing or null = fall back to groups)
+     *
+     * @return bool Success status
+     */
+    public static function set(int $userId, array $quotas): bool
+    {
+        $pdo = Database::getPdoConnection();
+        $stmt = $pdo->prepare(
+            'INSERT INTO ' . self::$table . ' (user_id, max_servers, max_memory_per_server, max_servers_per_location, max_servers_per_spell)
+             VALUES (:user_id, :max_servers, :max_memory_per_server, :max_servers_per_location, :max_servers_per_spell)
+             ON DUPLICATE KEY UPDATE max_servers = VALUES(max_servers), max_memory_per_server = VALUES(max_memory_per_server),
+             max_servers_per_location = VALUES(max_servers_per_location), max_servers_per_spell = VALUES(max_servers_per_spell), updated_at = CURRENT_TIMESTAMP'
+        );
+
+        $params = ['user_id' => $userId];
+        foreach (Group::QUOTA_FIELDS as $field) {
+            $params[$field] = isset($quotas[$field]) ? (int) $quotas[$field] : null;
+        }
+
+        return $stmt->execute($params);
+    }
+
+    /**
+     * Remove the quota override of a user.
+     *
+     * @param int $userId User ID
+     *
+     * @return bool Success status
+     */
+    public static function delete(int $userId): bool
+    {
+        $pdo = Database::getPdoConnection();
+        $stmt = $pdo->prepare('DELETE FROM ' . self::$table . ' WHERE user_id = :user_id');
+
+        return $stmt->execute(['user_id' => $userId]);
+    }
+}
@@ -0,0 +1,349 @@
+<?php
+
+/*
+ * This file is part of FeatherPanel.
+ *
+ * Copyright (C) 2025 MythicalSystems Studios
+ * Copyright (C) 2025 FeatherPanel Contributors
+ * Copyright (C) 2025 Cassian Gherman (aka NaysKutzu)
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * See the LICENSE file or <https://www.gnu.org/licenses/>.
+ */
+
+namespace App\Addons\billingresourcesnewservers\Chat;
+
+use App\Chat\Database;
+
+/**
+ * WaitlistEntry chat model for users waiting for node capacity, queued in order per location.
+ */
+class WaitlistEntry
+{
+    /**
+     * Entry statuses. Waiting and offered entries are active; the rest are final.
+     *
+     * @var list<string>
+     */
+    public const STATUSES = ['waiting', 'offered', 'fulfilled', 'failed', 'cancelled', 'expired'];
+
+    /** @var list<string> */
+    public const ACTIVE_STATUSES = ['waiting', 'offered'];
+
+    private static string $table = 'featherpanel_billingresourcesnewservers_waitlist';
+
+    /**
+     * Add a user to the end of the waitlist of a location.
+     *
+     * @param int $userId User ID
+     * @param int $locationId Location ID (0 = nodes without a location)
+     * @param array<string,mixed> $payload Validated create payload (policies already applied)
+     *
+     * @return int|false Entry ID or false on failure
+     */
+    public static function create(int $userId, int $locationId, array $payload): int | false
+    {
+        $pdo = Database::getPdoConnection();
+        $stmt = $pdo->prepare('INSERT INTO ' . self::$table . ' (user_id, location_id, payload) VALUES (:user_id, :location_id, :payload)');
+
+        if ($stmt->execute(['user_id' => $userId, 'location_id' => $locationId, 'payload' => json_encode($payload)])) {
+            return (int) $pdo->lastInsertId();
+        }
+
+        return false;
+    }
+
+    /**
+     * Get an entry by ID.
+     *
+     * @param int $entryId Entry ID
+     *
+     * @return array<string,mixed>|null Entry (payload decoded, position set while waiting) or null if not found
+     */
+    public static function getById(int $entryId): ?array
+    {
+        $pdo = Database::getPdoConnection();
+        $stmt = $pdo->prepare(self::selectSql() . ' WHERE w.id = :id LIMIT 1');
+        $stmt->execute(['id' => $entryId]);
+        $row = $stmt->fetch(\PDO::FETCH_ASSOC);
+
+        return $row ? self::decode($row) : null;
+    }
+
+    /**
+     * Get an entry by ID, only if it belongs to the given user.
+     *
+     * @param int $entryId Entry ID
+     * @param int $userId User ID
+     *
+     * @return array<string,mixed>|null Entry or null if not found
+     */
+    public static function getByIdForUser(int $entryId, int $userId): ?array
+    {
+        $entry = self::getById($entryId);
+        if ($entry === null || (int) $entry['user_id'] !== $userId) {
+            return null;
+        }
+
+        return $entry;
+    }
+
+    /**
+     * Most recent entries of a user, newest first.
+     *
+     * @param int $userId User ID
+     * @param int $limit Maximum number of entries
+     *
+     * @return list<array<string,mixed>> Entries
+     */
+    public static function getByUserId(int $userId, int $limit = 10): array
+    {
+        $pdo = Database::getPdoConnection();
+        $stmt = $pdo->prepare(self::selectSql() . ' WHERE w.user_id = :user_id ORDER BY w.id DESC LIMIT ' . max(1, $limit));
+        $stmt->execute(['user_id' => $userId]);
+
+        return array_map([self::class, 'decode'], $stmt->fetchAll(\PDO::FETCH_ASSOC) ?: []);
+    }
+
+    /**
+     * Whether a user is waiting for (or has been offered) a slot.
+     *
+     * @param int $userId User ID
+     *
+     * @return bool True when the user has an active entry
+     */
+    public static function hasActiveEntry(int $userId): bool
+    {
+        $pdo = Database::getPdoConnection();
+        $stmt = $pdo->prepare('SELECT COUNT(*) FROM ' . self::$table . " WHERE user_id = :user_id AND status IN ('waiting', 'offered')");
+        $stmt->execute(['user_id' => $userId]);
+
+        return (int) $stmt->fetchColumn() > 0;
+    }
+
+    /**
+     * Entries for the admin queue, ordered by location and position.
+     *
+     * @param list<string> $statuses Only entries with these statuses (empty = all)
+     * @param int $limit Maximum number of entries
+     * @param int $offset Offset for pagination
+     *
+     * @return list<array<string,mixed>> Entries with username and email
+     */
+    public static function getAll(array $statuses = [], int $limit = 25, int $offset = 0): array
+    {
+        $pdo = Database::getPdoConnection();
+        [$where, $params] = self::buildStatusWhere($statuses);
+
+        $stmt = $pdo->prepare(
+            self::selectSql() . $where
+            . " ORDER BY FIELD(w.status, 'offered', 'waiting') DESC, w.location_id ASC, w.id ASC"
+            . ' LIMIT ' . max(1, $limit) . ' OFFSET ' . max(0, $offset)
+        );
+        $stmt->execute($params);
+
+        return array_map([self::class, 'decode'], $stmt->fetchAll(\PDO::FETCH_ASSOC) ?: []);
+    }
+
+    /**
+     * Count entries with the given statuses.
+     *
+     * @param list<string> $statuses Statuses to count (empty = all)
+     *
+     * @return int Number of entries
+     */
+    public static function count(array $statuses = []): int
+    {
+        $pdo = Database::getPdoConnection();
+        [$where, $params] = self::buildStatusWhere($statuses);
+
+        $stmt = $pdo->prepare('SELECT COUNT(*) FROM ' . self::$table . ' w' . $where);
+        $stmt->execute($params);
+
+        return (int) $stmt->fetchColumn();
+    }
+
+    /**
+     * Locations that have someone waiting.
+     *
+     * @return list<int> Location IDs (0 = nodes without a location)
+     */
+    public static function getWaitingLocationIds(): array
+    {
+        $pdo = Database::getPdoConnection();
+        $stmt = $pdo->query('SELECT DISTINCT location_id FROM ' . self::$table . " WHERE status = 'waiting' ORDER BY location_id ASC");
+
+        return array_map('intval', $stmt->fetchAll(\PDO::FETCH_COLUMN) ?: []);
+    }
+
+    /**
+     * The first waiting entries of a location, first in line first.
+     *
+     * @param int $locationId Location ID
+     * @param int $limit Maximum number of entries returned
+     *
+     * @return list<array<string,mixed>> Entries
+     */
+    public static function getWaiting(int $locationId, int $limit): array
+    {
+        $pdo = Database::getPdoConnection();
+        $stmt = $pdo->prepare(self::selectSql() . " WHERE w.status = 'waiting' AND w.location_id = :location_id ORDER BY w.id ASC LIMIT " . max(1, $limit));
+        $stmt->execute(['location_id' => $locationId]);
+
+        return array_map([self::class, 'decode'], $stmt->fetchAll(\PDO::FETCH_ASSOC) ?: []);
+    }
+
+    /**
+     * Whether a free slot of a location is currently held for a user to confirm.
+     *
+     * @param int $locationId Location ID
+     *
+     * @return bool True when an offer is open
+     */
+    public static function hasOpenOffer(int $locationId): bool
+    {
+        $pdo = Database::getPdoConnection();
+        $stmt = $pdo->prepare('SELECT COUNT(*) FROM ' . self::$table . " WHERE status = 'offered' AND location_id = :location_id");
+        $stmt->execute(['location_id' => $locationId]);
+
+        return (int) $stmt->fetchColumn() > 0;
+    }
+
+    /**
+     * Atomically move an entry from one status to another.
+     * Used to claim an entry so concurrent processing never handles it twice.
+     *
+     * @param int $entryId Entry ID
+     * @param string $from Expected current status
+     * @param string $to New status
+     *
+     * @return bool True when this call performed the transition
+     */
+    public static function transition(int $entryId, string $from, string $to): bool
+    {
+        $pdo = Database::getPdoConnection();
+        $stmt = $pdo->prepare('UPDATE ' . self::$table . ' SET status = :to, updated_at = CURRENT_TIMESTAMP WHERE id = :id AND status = :from');
+        $stmt->execute(['id' => $entryId, 'from' => $from, 'to' => $to]);
+
+        return $stmt->rowCount() === 1;
+    }
+
+    /**
+     * Hold a free slot for a waiting entry until the user confirms or the offer expires.
+     *
+     * @param int $entryId Entry ID
+     * @param array<string,mixed> $payload Payload placed on the node that has room
+     * @param int $minutes How long the offer stays open
+     *
+     * @return bool True when the entry was waiting and is now offered
+     */
+    public static function offer(int $entryId, array $payload, int $minutes): bool
+    {
+        $pdo = Database::getPdoConnection();
+        $stmt = $pdo->prepare(
+            'UPDATE ' . self::$table . " SET status = 'offered', payload = :payload, offer_expires_at = (NOW() + INTERVAL " . max(1, $minutes) . ' MINUTE), updated_at = CURRENT_TIMESTAMP'
+            . " WHERE id = :id AND status = 'waiting'"
+        );
+        $stmt->execute(['id' => $entryId, 'payload' => json_encode($payload)]);
+
+        return $stmt->rowCount() === 1;
+    }
+
+    /**
+     * Expire offers that were not confirmed in time.
+     *
+     * @return int Number of expired offers
+     */
+    public static function expireOffers(): int
+    {
+        $pdo = Database::getPdoConnection();
+        $stmt = $pdo->prepare(
+            'UPDATE ' . self::$table . " SET status = 'expired', error_message = :error_message, updated_at = CURRENT_TIMESTAMP"
+            . " WHERE status = 'offered' AND offer_expires_at < NOW()"
+        );
+        $stmt->execute(['error_message' => 'The offer was not confirmed in time']);
+
+        return $stmt->rowCount();
+    }
+
+    /**
+     * Update an entry.
+     *
+     * @param int $entryId Entry ID
+     * @param array<string,mixed> $data Update data (status, payload, creation_request_id, error_message, error_code, offer_expires_at).
+     *                                  payload is encoded to JSON.
+     *
+     * @return bool Success status
+     */
+    public static function update(int $entryId, array $data): bool
+    {
+        $pdo = Database::getPdoConnection();
+        $fields = [];
+        $params = ['id' => $entryId];
+
+        foreach (['status', 'payload', 'creation_request_id', 'approval_request_id', 'error_message', 'error_code', 'offer_expires_at'] as $field) {
+            if (array_key_exists($field, $data)) {
+                $fields[] = $field . ' = :' . $field;
+                $params[$field] = $field === 'payload' ? json_encode($data[$field]) : $data[$field];
+            }
+        }
+
+        if (empty($fields)) {
+            return false;
+        }
+
+        $fields[] = 'updated_at = CURRENT_TIMESTAMP';
+        $stmt = $pdo->prepare('UPDATE ' . self::$table . ' SET ' . implode(', ', $fields) . ' WHERE id = :id');
+
+        return $stmt->execute($params);
+    }
+
+    /**
+     * Entry columns plus the owner and the place in line (only meaningful while waiting).
+     */
+    private static function selectSql(): string
+    {
+        return 'SELECT w.*, u.username, u.email, (SELECT COUNT(*) FROM ' . self::$table . " p WHERE p.status = 'waiting' AND p.location_id = w.location_id AND p.id < w.id) + 1 AS position"
+            . ' FROM ' . self::$table . ' w LEFT JOIN featherpanel_users u ON u.id = w.user_id';
+    }
+
+    /**
+     * @param list<string> $statuses
+     *
+     * @return array{0: string, 1: array<string,string>} WHERE clause and its parameters
+     */
+    private static function buildStatusWhere(array $statuses): array
+    {
+        $statuses = array_values(array_intersect($statuses, self::STATUSES));
+        if (empty($statuses)) {
+            return ['', []];
+        }
+
+        $params = [];
+        foreach ($statuses as $index => $status) {
+            $params['status' . $index] = $status;
+        }
+
+        return [' WHERE w.status IN (:' . implode(', :', array_keys($params)) . ')', $params];
+    }
+
+    /**
+     * Decode the stored payload of an entry row.
+     *
+     * @param array<string,mixed> $row Raw row
+     *
+     * @return array<string,mixed> Row with payload decoded and position only set while waiting
+     */
+    private static function decode(array $row): array
+    {
+        $payload = json_decode((string) ($row['payload'] ?? ''), true);
+        $row['payload'] = is_array($payload) ? $payload : [];
+        $row['position'] = $row['status'] === 'waiting' ? (int) $row['position'] : null;
+
+        return $row;
+    }
+}
@@ -0,0 +1,207 @@
+<?php
+
+/*
+ * This file is part of FeatherPanel.
+ *
+ * Copyright (C) 2025 MythicalSystems Studios
+ * Copyright (C) 2025 FeatherPanel Contributors
+ * Copyright (C) 2025 Cassian Gherman (aka NaysKutzu)
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * See the LICENSE file or <https://www.gnu.org/licenses/>.
+ */
+
+namespace App\Addons\billingresourcesnewservers\Chat;
+
+use App\Chat\Database;
+
+/**
+ * Webhook chat model for outgoing HTTP endpoints notified of server creation events.
+ */
+class Webhook
+{
+    private static string $table = 'featherpanel_billingresourcesnewservers_webhooks';
+
+    /**
+     * Columns that can be written through create/update.
+     *
+     * @var list<string>
+     */
+    private static array $fields = [
+        'name',
+        'url',
+        'secret',
+        'events',
+        'max_attempts',
+        'enabled',
+    ];
+
+    /**
+     * Get all webhooks.
+     *
+     * @return list<array<string,mixed>> Webhooks (events decoded, null = every event)
+     */
+    public static function getAll(): array
+    {
+        $pdo = Database::getPdoConnection();
+        $stmt = $pdo->query('SELECT * FROM ' . self::$table . ' ORDER BY name ASC');
+
+        return array_map([self::class, 'decode'], $stmt->fetchAll(\PDO::FETCH_ASSOC) ?: []);
+    }
+
+    /**
+     * Enabled webhooks subscribed to an event.
+     *
+     * @param string $event Event name
+     *
+     * @return list<array<string,mixed>> Webhooks
+     */
+    public static function getEnabledForEvent(string $event): array
+    {
+        $pdo = Database::getPdoConnection();
+        $stmt = $pdo->query('SELECT * FROM ' . self::$table . " WHERE enabled = 'true' ORDER BY id ASC");
+        $webhooks = array_map([self::class, 'decode'], $stmt->fetchAll(\PDO::FETCH_ASSOC) ?: []);
+
+        return array_values(array_filter(
+            $webhooks,
+            fn (array $webhook) => $webhook['events'] === null || in_array($event, $webhook['events'], true)
+        ));
+    }
+
+    /**
+     * Get a webhook by ID.
+     *
+     * @param int $webhookId Webhook ID
+     *
+     * @return array<string,mixed>|null Webhook or null if not found
+     */
+    public static function getById(int $webhookId): ?array
+    {
+        $pdo = Database::getPdoConnection();
+        $stmt = $pdo->prepare('SELECT * FROM ' . self::$table . ' WHERE id = :id LIMIT 1');
+        $stmt->execute(['id' => $webhookId]);
+        $row = $stmt->fetch(\PDO::FETCH_ASSOC);
+
+        return $row ? self::decode($row) : null;
+    }
+
+    /**
+     * Create a webhook.
+     *
+     * @param array<string,mixed> $data Webhook data (name, url and secret required, see $fields). events is encoded to JSON.
+     *
+     * @return int|false Webhook ID or false on failure
+     */
+    public static function create(array $data): int | false
+    {
+        $pdo = Database::getPdoConnection();
+        $columns = [];
+        $params = [];
+        foreach (self::$fields as $field) {
+            if (array_key_exists($field, $data)) {
+                $columns[] = $field;
+                $params[$field] = $field === 'events' ? self::encodeEvents($data[$field]) : $data[$field];
+            }
+        }
+
+        foreach (['name', 'url', 'secret'] as $required) {
+            if (!in_array($required, $columns, true)) {
+                return false;
+            }
+        }
+
+        $stmt = $pdo->prepare(
+            'INSERT INTO ' . self::$table . ' (' . implode(', ', $columns) . ') VALUES (:' . implode(', :', $columns) . ')'
+        );
+
+        try {
+            if ($stmt->execute($params)) {
+                return (int) $pdo->lastInsertId();
+            }
+        } catch (\PDOException $e) {
+            // Duplicate name
+            return false;
+        }
+
+        return false;
+    }
+
+    /**
+     * Update a webhook.
+     *
+     * @param int $webhookId Webhook ID
+     * @param array<string,mixed> $data Update data (see $fields). events is encoded to JSON.
+     *
+     * @return bool Success status
+     */
+    public static function update(int $webhookId, array $data): bool
+    {
+        $pdo = Database::getPdoConnection();
+        $fields = [];
+        $params = ['id' => $webhookId];
+
+        foreach (self::$fields as $field) {
+            if (array_key_exists($field, $data)) {
+                $fields[] = $field . ' = :' . $field;
+                $params[$field] = $field === 'events' ? self::encodeEvents($data[$field]) : $data[$field];
+            }
+        }
+
+        if (empty($fields)) {
+            return false;
+        }
+
+        $fields[] = 'updated_at = CURRENT_TIMESTAMP';
+        $stmt = $pdo->prepare('UPDATE ' . self::$table . ' SET ' . implode(', ', $fields) . ' WHERE id = :id');
+
+        try {
+            return $stmt->execute($params);
+        } catch (\PDOException $e) {
+            return false;
+        }
+    }
+
+    /**
+     * Delete a webhook (its deliveries are removed with it).
+     *
+     * @param int $webhookId Webhook ID
+     *
+     * @return bool Success status
+     */
+    public static function delete(int $webhookId): bool
+    {
+        $pdo = Database::getPdoConnection();
+        $stmt = $pdo->prepare('DELETE FROM ' . self::$table . ' WHERE id = :id');
+
+        return $stmt->execute(['id' => $webhookId]);
+    }
+
+    /**
+     * Encode the event subscription for storage.
+     *
+     * @param list<string>|null $events Event names (null = every event)
+     */
+    private static function encodeEvents(?array $events): ?string
+    {
+        return $events === null ? null : json_encode(array_values($events));
+    }
+
+    /**
+     * Decode a webhook row.
+     *
+     * @param array<string,mixed> $row Raw row
+     *
+     * @return array<string,mixed> Row with events decoded (null = every event)
+     */
+    private static function decode(array $row): array
+    {
+        $events = $row['events'] !== null ? json_decode((string) $row['events'], true) : null;
+        $row['events'] = is_array($events) ? $events : null;
+
+        return $row;
+    }
+}
@@ -0,0 +1,235 @@
+<?php
+
+/*
+ * This file is part of FeatherPanel.
+ *
+ * Copyright (C) 2025 MythicalSystems Studios
+ * Copyright (C) 2025 FeatherPanel Contributors
+ * Copyright (C) 2025 Cassian Gherman (aka NaysKutzu)
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * See the LICENSE file or <https://www.gnu.org/licenses/>.
+ */
+
+namespace App\Addons\billingresourcesnewservers\Chat;
+
+use App\Chat\Database;
+
+/**
+ * WebhookDelivery chat model for the log of events sent to webhooks.
+ */
+class WebhookDelivery
+{
+    /**
+     * Delivery statuses. Pending deliveries are retried until delivered or out of attempts.
+     *
+     * @var list<string>
+     */
+    public const STATUSES = ['pending', 'delivered', 'failed'];
+
+    /** Sent to a configured webhook */
+    public const TARGET_WEBHOOK = 'webhook';
+
+    /** Creation announcement sent to the Discord webhook URL from the settings (no webhook_id) */
+    public const TARGET_DISCORD = 'discord';
+
+    private static string $table = 'featherpanel_billingresourcesnewservers_webhook_deliveries';
+
+    /**
+     * Queue an event for a webhook or for Discord, due right away.
+     *
+     * @param int|null $webhookId Webhook ID (null for Discord)
+     * @param string $event Event name
+     * @param array<string,mixed> $payload Event payload
+     * @param string $target TARGET_WEBHOOK or TARGET_DISCORD
+     *
+     * @return int|false Delivery ID or false on failure
+     */
+    public static function create(?int $webhookId, string $event, array $payload, string $target = self::TARGET_WEBHOOK): int | false
+    {
+        $pdo = Database::getPdoConnection();
+        $stmt = $pdo->prepare(
+            'INSERT INTO ' . self::$table . ' (webhook_id, target, event, payload, next_attempt_at) VALUES (:webhook_id, :target, :event, :payload, NOW())'
+        );
+
+        if ($stmt->execute(['webhook_id' => $webhookId, 'target' => $target, 'event' => $event, 'payload' => json_encode($payload)])) {
+            return (int) $pdo->lastInsertId();
+        }
+
+        return false;
+    }
+
+    /**
+     * Get a delivery by ID.
+     *
+     * @param int $deliveryId Delivery ID
+     *
+     * @return array<string,mixed>|null Delivery (payload decoded, with the webhook name) or null if not found
+     */
+    public static function getById(int $deliveryId): ?array
+    {
+        $pdo = Database::getPdoConnection();
+        $stmt = $pdo->prepare(self::selectSql() . ' WHERE d.id = :id LIMIT 1');
+        $stmt->execute(['id' => $deliveryId]);
+        $row = $stmt->fetch(\PDO::FETCH_ASSOC);
+
+        return $row ? self::decode($row) : null;
+    }
+
+    /**
+     * Deliveries for the admin log, newest first.
+     *
+     * @param int|null $webhookId Only deliveries of this webhook (null = all)
+     * @param string|null $status Only deliveries with this status (null = all)
+     * @param int $limit Maximum number of deliveries
+     * @param int $offset Offset for pagination
+     *
+     * @return list<array<string,mixed>> Deliveries with the webhook name
+     */
+    public static function getAll(?int $webhookId = null, ?string $status = null, int $limit = 25, int $offset = 0): array
+    {
+        $pdo = Database::getPdoConnection();
+        [$where, $params] = self::buildWhere($webhookId, $status);
+
+        $stmt = $pdo->prepare(self::selectSql() . $where . ' ORDER BY d.id DESC LIMIT ' . max(1, $limit) . ' OFFSET ' . max(0, $offset));
+        $stmt->execute($params);
+
+        return array_map([self::class, 'decode'], $stmt->fetchAll(\PDO::FETCH_ASSOC) ?: []);
+    }
+
+    /**
+     * Count deliveries for the admin log.
+     *
+     * @param int|null $webhookId Only deliveries of this webhook (null = all)
+     * @param string|null $status Only deliveries with this status (null = all)
+     *
+     * @return int Number of deliveries
+     */
+    public static function count(?int $webhookId = null, ?string $status = null): int
+    {
+        $pdo = Database::getPdoConnection();
+        [$where, $params] = self::buildWhere($webhookId, $status);
+
+        $stmt = $pdo->prepare('SELECT COUNT(*) FROM ' . self::$table . ' d' . $where);
+        $stmt->execute($params);
+
+        return (int) $stmt->fetchColumn();
+    }
+
+    /**
+     * Pending deliveries whose next attempt is due, oldest first.
+     *
+     * @param int $limit Maximum number of deliveries
+     *
+     * @return list<int> Delivery IDs
+     */
+    public static function getDueIds(int $limit): array
+    {
+        $pdo = Database::getPdoConnection();
+        $stmt = $pdo->query(
+            'SELECT id FROM ' . self::$table . " WHERE status = 'pending' AND next_attempt_at <= NOW() ORDER BY id ASC LIMIT " . max(1, $limit)
+        );
+
+        return array_map('intval', $stmt->fetchAll(\PDO::FETCH_COLUMN) ?: []);
+    }
+
+    /**
+     * Atomically claim a due delivery by pushing its next attempt into the future.
+     * Concurrent senders never post the same attempt twice; a sender that dies leaves the delivery due again after the lease.
+     *
+     * @param int $deliveryId Delivery ID
+     * @param int $leaseSeconds How long the claim holds
+     *
+     * @return bool True when this call claimed the delivery
+     */
+    public static function claim(int $deliveryId, int $leaseSeconds): bool
+    {
+        $pdo = Database::getPdoConnection();
+        $stmt = $pdo->prepare(
+            'UPDATE ' . self::$table . ' SET next_attempt_at = (NOW() + INTERVAL ' . max(1, $leaseSeconds) . ' SECOND), updated_at = CURRENT_TIMESTAMP'
+            . " WHERE id = :id AND status = 'pending' AND next_attempt_at <= NOW()"
+        );
+        $stmt->execute(['id' => $deliveryId]);
+
+        return $stmt->rowCount() === 1;
+    }
+
+    /**
+     * Record the outcome of an attempt and count it.
+     *
+     * @param int $deliveryId Delivery ID
+     * @param string $status New status (delivered, pending = retry later, failed = out of attempts)
+     * @param array{response_status?: int|null, response_body?: string|null, error_message?: string|null, duration_ms?: int|null} $result What the receiver answered
+     * @param int $retryInSeconds Delay before the next attempt (pending only)
+     *
+     * @return bool Success status
+     */
+    public static function recordAttempt(int $deliveryId, string $status, array $result, int $retryInSeconds = 0): bool
+    {
+        $pdo = Database::getPdoConnection();
+        $nextAttempt = $status === 'pending' ? '(NOW() + INTERVAL ' . max(1, $retryInSeconds) . ' SECOND)' : 'NULL';
+        $deliveredAt = $status === 'delivered' ? 'NOW()' : 'NULL';
+
+        $stmt = $pdo->prepare(
+            'UPDATE ' . self::$table . ' SET status = :status, attempts = attempts + 1, response_status = :response_status, response_body = :response_body,'
+            . ' error_message = :error_message, duration_ms = :duration_ms, next_attempt_at = ' . $nextAttempt . ', delivered_at = ' . $deliveredAt . ', updated_at = CURRENT_TIMESTAMP'
+            . ' WHERE id = :id'
+        );
+
+        return $stmt->execute([
+            'id' => $deliveryId,
+            'status' => $status,
+            'response_status' => $result['response_status'] ?? null,
+            'response_body' => $result['response_body'] ?? null,
+            'error_message' => $result['error_message'] ?? null,
+            'duration_ms' => $result['duration_ms'] ?? null,
+        ]);
+    }
+
+    /**
+     * Delivery columns plus the webhook name ("Discord" for announcements).
+     */
+    private static function selectSql(): string
+    {
+        return "SELECT d.*, IF(d.target = 'discord', 'Discord', w.name) AS webhook_name, w.url AS webhook_url FROM " . self::$table . ' d'
+            . ' LEFT JOIN featherpanel_billingresourcesnewservers_webhooks w ON w.id = d.webhook_id';
+    }
+
+    /**
+     * @return array{0: string, 1: array<string,int|string>} WHERE clause and its parameters
+     */
+    private static function buildWhere(?int $webhookId, ?string $status): array
+    {
+        $conditions = [];
+        $params = [];
+        if ($webhookId !== null) {
+            $conditions[] = 'd.webhook_id = :webhook_id';
+            $params['webhook_id'] = $webhookId;
+        }
+        if ($status !== null && in_array($status, self::STATUSES, true)) {
+            $conditions[] = 'd.status = :status';
+            $params['status'] = $status;
+        }
+
+        return [empty($conditions) ? '' : ' WHERE ' . implode(' AND ', $conditions), $params];
+    }
+
+    /**
+     * Decode the stored payload of a delivery row.
+     *
+     * @param array<string,mixed> $row Raw row
+     *
+     * @return array<string,mixed> Row with payload decoded
+     */
+    private static function decode(array $row): array
+    {
+        $payload = json_decode((string) ($row['payload'] ?? ''), true);
+        $row['payload'] = is_array($payload) ? $payload : [];
+
+        return $row;
+    }
+}
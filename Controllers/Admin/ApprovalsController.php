@@ -0,0 +1,243 @@
+<?php
+
+/*
+ * This file is part of FeatherPanel.
+ *
+ * Copyright (C) 2025 MythicalSystems Studios
+ * Copyright (C) 2025 FeatherPanel Contributors
+ * Copyright (C) 2025 Cassian Gherman (aka NaysKutzu)
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * See the LICENSE file or <https://www.gnu.org/licenses/>.
+ */
+
+namespace App\Addons\billingresourcesnewservers\Controllers\Admin;
+
+use App\App;
+use App\Chat\Activity;
+use App\Helpers\ApiResponse;
+use OpenApi\Attributes as OA;
+use App\CloudFlare\CloudFlareRealIP;
+use Symfony\Component\HttpFoundation\Request;
+use Symfony\Component\HttpFoundation\Response;
+use App\Addons\billingresourcesnewservers\Chat\ApprovalRequest;
+use App\Addons\billingresourcesnewservers\Helpers\ApprovalHelper;
+use App\Addons\billingresourcesnewservers\Helpers\ServerProvisioningHelper;
+
+#[OA\Tag(name: 'Admin - Billing Resources New Servers - Approvals', description: 'Queue of servers waiting for an admin\'s approval')]
+class ApprovalsController
+{
+    /** Largest page size the list endpoint accepts */
+    private const MAX_PER_PAGE = 100;
+
+    /** Longest rejection reason accepted */
+    private const MAX_REASON_LENGTH = 1000;
+
+    #[OA\Get(
+        path: '/api/admin/billingresourcesnewservers/approvals',
+        summary: 'Get the approval queue',
+        description: 'Returns requests oldest first. Without a status filter only pending requests are listed.',
+        tags: ['Admin - Billing Resources New Servers - Approvals'],
+        parameters: [
+            new OA\Parameter(name: 'page', in: 'query', required: false, schema: new OA\Schema(type: 'integer', default: 1)),
+            new OA\Parameter(name: 'per_page', in: 'query', required: false, schema: new OA\Schema(type: 'integer', default: 25, maximum: 100)),
+            new OA\Parameter(name: 'status', in: 'query', required: false, description: 'Request status, or "all"', schema: new OA\Schema(type: 'string', enum: ['pending', 'approved', 'rejected', 'failed', 'cancelled', 'all'])),
+        ],
+        responses: [
+            new OA\Response(response: 200, description: 'Approval requests retrieved successfully'),
+            new OA\Response(response: 400, description: 'Invalid filter'),
+            new OA\Response(response: 401, description: 'Unauthorized'),
+            new OA\Response(response: 403, description: 'Forbidden'),
+        ]
+    )]
+    public function getApprovals(Request $request): Response
+    {
+        $status = trim((string) $request->query->get('status', ''));
+        if ($status === '') {
+            $statuses = ApprovalRequest::ACTIVE_STATUSES;
+        } elseif ($status === 'all') {
+            $statuses = [];
+        } elseif (in_array($status, ApprovalRequest::STATUSES, true)) {
+            $statuses = [$status];
+        } else {
+            return ApiResponse::error('status must be one of: all, ' . implode(', ', ApprovalRequest::STATUSES), 'INVALID_FILTER', 400);
+        }
+
+        try {
+            $page = max(1, (int) $request->query->get('page', 1));
+            $perPage = min(self::MAX_PER_PAGE, max(1, (int) $request->query->get('per_page', 25)));
+            $total = ApprovalRequest::count($statuses);
+
+            $approvals = array_map(
+                [$this, 'formatRequest'],
+                ApprovalRequest::getAll($statuses, $perPage, ($page - 1) * $perPage)
+            );
+
+            return ApiResponse::success([
+                'approvals' => $approvals,
+                'pagination' => [
+                    'page' => $page,
+                    'per_page' => $perPage,
+                    'total' => $total,
+                    'total_pages' => (int) max(1, ceil($total / $perPage)),
+                ],
+            ], 'Approval requests retrieved successfully', 200);
+        } catch (\Exception $e) {
+            App::getInstance(true)->getLogger()->error('Failed to get approval requests: ' . $e->getMessage());
+
+            return ApiResponse::error('Failed to retrieve approval requests: ' . $e->getMessage(), 'GET_APPROVALS_FAILED', 500);
+        }
+    }
+
+    #[OA\Post(
+        path: '/api/admin/billingresourcesnewservers/approvals/{id}/approve',
+        summary: 'Approve a server',
+        description: 'Re-validate the held payload against the user\'s current pool, quotas and node capacity, then start provisioning it. A payload that no longer validates marks the request failed.',
+        tags: ['Admin - Billing Resources New Servers - Approvals'],
+        parameters: [
+            new OA\Parameter(name: 'id', in: 'path', required: true, schema: new OA\Schema(type: 'integer')),
+        ],
+        responses: [
+            new OA\Response(response: 200, description: 'Request approved and provisioning started'),
+            new OA\Response(response: 400, description: 'The payload no longer validates (the request is marked failed)'),
+            new OA\Response(response: 401, description: 'Unauthorized'),
+            new OA\Response(response: 403, description: 'Forbidden'),
+            new OA\Response(response: 404, description: 'Approval request not found'),
+            new OA\Response(response: 409, description: 'Request was already reviewed'),
+        ]
+    )]
+    public function approve(Request $request, int $id): Response
+    {
+        $admin = $request->get('user');
+
+        $approval = ApprovalRequest::getById($id);
+        if (!$approval) {
+            return ApiResponse::error('Approval request not found', 'APPROVAL_NOT_FOUND', 404);
+        }
+        if ($approval['status'] !== 'pending') {
+            return ApiResponse::error('This request was already reviewed', 'APPROVAL_NOT_PENDING', 409);
+        }
+
+        try {
+            $result = ApprovalHelper::approve($approval, (int) $admin['id']);
+            if (($result['error_code'] ?? null) === 'APPROVAL_NOT_PENDING') {
+                return ApiResponse::error($result['error'], 'APPROVAL_NOT_PENDING', 409);
+            }
+
+            Activity::createActivity([
+                'user_uuid' => $admin['uuid'] ?? null,
+                'name' => 'billingresourcesnewservers_approve_server',
+                'context' => 'Approved server request ' . $id . ' of ' . ($approval['username'] ?? ('user ' . $approval['user_id']))
+                    . ($result['request'] === null ? ' (failed: ' . ($result['error'] ?? 'unknown error') . ')' : ''),
+                'ip_address' => CloudFlareRealIP::getRealIP(),
+            ]);
+
+            if ($result['request'] === null) {
+                return ApiResponse::error(
+                    $result['error'] ?? 'Failed to create server',
+                    $result['error_code'] ?? 'CREATE_SERVER_FAILED',
+                    400,
+                    ['approval' => $this->formatRequest($result['approval'])]
+                );
+            }
+
+            return ApiResponse::success([
+                'approval' => $this->formatRequest($result['approval']),
+                'request' => ServerProvisioningHelper::formatRequest($result['request']),
+            ], 'Server approved', 200);
+        } catch (\Exception $e) {
+            App::getInstance(true)->getLogger()->error('Failed to approve server request ' . $id . ': ' . $e->getMessage());
+
+            return ApiResponse::error('Failed to approve server: ' . $e->getMessage(), 'APPROVE_FAILED', 500);
+        }
+    }
+
+    #[OA\Post(
+        path: '/api/admin/billingresourcesnewservers/approvals/{id}/reject',
+        summary: 'Reject a server',
+        description: 'Reject a pending request. The reason is shown to the user.',
+        tags: ['Admin - Billing Resources New Servers - Approvals'],
+        parameters: [
+            new OA\Parameter(name: 'id', in: 'path', required: true, schema: new OA\Schema(type: 'integer')),
+        ],
+        requestBody: new OA\RequestBody(
+            required: true,
+            content: new OA\JsonContent(
+                properties: [
+                    new OA\Property(property: 'reason', type: 'string', description: 'Why the server was rejected (shown to the user)'),
+                ]
+            )
+        ),
+        responses: [
+            new OA\Response(response: 200, description: 'Request rejected'),
+            new OA\Response(response: 400, description: 'Missing or too long reason'),
+            new OA\Response(response: 401, description: 'Unauthorized'),
+            new OA\Response(response: 403, description: 'Forbidden'),
+            new OA\Response(response: 404, description: 'Approval request not found'),
+            new OA\Response(response: 409, description: 'Request was already reviewed'),
+        ]
+    )]
+    public function reject(Request $request, int $id): Response
+    {
+        $admin = $request->get('user');
+        $data = json_decode($request->getContent(), true);
+
+        if (!is_array($data)) {
+            return ApiResponse::error('Invalid JSON', 'INVALID_JSON', 400);
+        }
+
+        $reason = is_string($data['reason'] ?? null) ? trim($data['reason']) : '';
+        if ($reason === '') {
+            return ApiResponse::error('A reason is required to reject a server', 'MISSING_REASON', 400);
+        }
+        if (mb_strlen($reason) > self::MAX_REASON_LENGTH) {
+            return ApiResponse::error('The reason must be at most ' . self::MAX_REASON_LENGTH . ' characters', 'INVALID_REASON', 400);
+        }
+
+        $approval = ApprovalRequest::getById($id);
+        if (!$approval) {
+            return ApiResponse::error('Approval request not found', 'APPROVAL_NOT_FOUND', 404);
+        }
+
+        if (!ApprovalHelper::reject($approval, (int) $admin['id'], $reason)) {
+            return ApiResponse::error('This request was already reviewed', 'APPROVAL_NOT_PENDING', 409);
+        }
+
+        Activity::createActivity([
+            'user_uuid' => $admin['uuid'] ?? null,
+            'name' => 'billingresourcesnewservers_reject_server',
+            'context' => 'Rejected server request ' . $id . ' of ' . ($approval['username'] ?? ('user ' . $approval['user_id'])) . ': ' . $reason,
+            'ip_address' => CloudFlareRealIP::getRealIP(),
+        ]);
+
+        return ApiResponse::success([
+            'approval' => $this->formatRequest(ApprovalRequest::getById($id) ?? $approval),
+        ], 'Server rejected', 200);
+    }
+
+    /**
+     * Shape a request for the admin queue: the user-facing fields plus who asked and who reviewed it.
+     *
+     * @param array<string,mixed> $approval Approval request with username and email
+     *
+     * @return array<string,mixed>
+     */
+    private function formatRequest(array $approval): array
+    {
+        return ApprovalHelper::formatRequest($approval) + [
+            'user' => [
+                'id' => (int) $approval['user_id'],
+                'username' => $approval['username'] ?? null,
+                'email' => $approval['email'] ?? null,
+            ],
+            'reviewer' => $approval['reviewed_by'] !== null ? [
+                'id' => (int) $approval['reviewed_by'],
+                'username' => $approval['reviewer_username'] ?? null,
+            ] : null,
+        ];
+    }
+}
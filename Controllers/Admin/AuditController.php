@@ -0,0 +1,278 @@
+<?php
+
+/*
+ * This file is part of FeatherPanel.
+ *
+ * Copyright (C) 2025 MythicalSystems Studios
+ * Copyright (C) 2025 FeatherPanel Contributors
+ * Copyright (C) 2025 Cassian Gherman (aka NaysKutzu)
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * See the LICENSE file or <https://www.gnu.org/licenses/>.
+ */
+namespace App\Addons\billingresourcesnewservers\Controllers\Admin;
+
+use App\Chat\Node;
+use App\Chat\Realm;
+use App\Chat\Spell;
+use App\Helpers\ApiResponse;
+use OpenApi\Attributes as OA;
+use Symfony\Component\HttpFoundation\Request;
+use Symfony\Component\HttpFoundation\Response;
+use App\Addons\billingresourcesnewservers\Chat\CreationAudit;
+
+#[OA\Tag(name: 'Admin - Billing Resources New Servers - Audit', description: 'Audit log of user server creation attempts')]
+class AuditController
+{
+    /** Largest page size the list endpoint accepts */
+    private const MAX_PER_PAGE = 100;
+
+    /** Most rows a single CSV export returns */
+    private const MAX_EXPORT_ROWS = 10000;
+
+    /**
+     * Resolved names of nodes, realms and spells, cached per request.
+     *
+     * @var array<string,array<int,string|null>>
+     */
+    private array $names = ['node' => [], 'realm' => [], 'spell' => []];
+
+    #[OA\Get(
+        path: '/api/admin/billingresourcesnewservers/audit',
+        summary: 'Get creation audit entries',
+        description: 'Paginated audit log of server creation attempts and approval submissions, newest first. Pending entries are still being provisioned; held entries were submitted for approval.',
+        tags: ['Admin - Billing Resources New Servers - Audit'],
+        parameters: [
+            new OA\Parameter(name: 'page', in: 'query', required: false, schema: new OA\Schema(type: 'integer', default: 1)),
+            new OA\Parameter(name: 'per_page', in: 'query', required: false, schema: new OA\Schema(type: 'integer', default: 25, maximum: 100)),
+            new OA\Parameter(name: 'user_id', in: 'query', required: false, schema: new OA\Schema(type: 'integer')),
+            new OA\Parameter(name: 'error_code', in: 'query', required: false, schema: new OA\Schema(type: 'string')),
+            new OA\Parameter(name: 'node_id', in: 'query', required: false, schema: new OA\Schema(type: 'integer')),
+            new OA\Parameter(name: 'outcome', in: 'query', required: false, schema: new OA\Schema(type: 'string', enum: ['pending', 'succeeded', 'failed', 'rejected', 'held'])),
+            new OA\Parameter(name: 'source', in: 'query', required: false, schema: new OA\Schema(type: 'string', enum: ['direct', 'approval', 'waitlist'])),
+            new OA\Parameter(name: 'from', in: 'query', required: false, description: 'First day to include (Y-m-d)', schema: new OA\Schema(type: 'string', format: 'date')),
+            new OA\Parameter(name: 'to', in: 'query', required: false, description: 'Last day to include (Y-m-d)', schema: new OA\Schema(type: 'string', format: 'date')),
+        ],
+        responses: [
+            new OA\Response(response: 200, description: 'Audit entries retrieved successfully'),
+            new OA\Response(response: 400, description: 'Invalid filter'),
+            new OA\Response(response: 401, description: 'Unauthorized'),
+            new OA\Response(response: 403, description: 'Forbidden'),
+        ]
+    )]
+    public function getAudit(Request $request): Response
+    {
+        $parsed = $this->parseFilters($request);
+        if ($parsed['error'] !== null) {
+            return ApiResponse::error($parsed['error'], 'INVALID_FILTER', 400);
+        }
+
+        $page = max(1, (int) $request->query->get('page', 1));
+        $perPage = min(self::MAX_PER_PAGE, max(1, (int) $request->query->get('per_page', 25)));
+        $total = CreationAudit::count($parsed['filters']);
+
+        $entries = array_map(
+            [$this, 'formatEntry'],
+            CreationAudit::getAll($parsed['filters'], $perPage, ($page - 1) * $perPage)
+        );
+
+        return ApiResponse::success([
+            'entries' => $entries,
+            'error_codes' => CreationAudit::getErrorCodes(),
+            'pagination' => [
+                'page' => $page,
+                'per_page' => $perPage,
+                'total' => $total,
+                'total_pages' => (int) max(1, ceil($total / $perPage)),
+            ],
+        ], 'Audit entries retrieved successfully', 200);
+    }
+
+    #[OA\Get(
+        path: '/api/admin/billingresourcesnewservers/audit/export',
+        summary: 'Export creation audit entries as CSV',
+        description: 'Same filters as the list endpoint. Returns at most 10000 rows, newest first.',
+        tags: ['Admin - Billing Resources New Servers - Audit'],
+        responses: [
+            new OA\Response(response: 200, description: 'CSV file', content: new OA\MediaType(mediaType: 'text/csv')),
+            new OA\Response(response: 400, description: 'Invalid filter'),
+            new OA\Response(response: 401, description: 'Unauthorized'),
+            new OA\Response(response: 403, description: 'Forbidden'),
+        ]
+    )]
+    public function exportAudit(Request $request): Response
+    {
+        $parsed = $this->parseFilters($request);
+        if ($parsed['error'] !== null) {
+            return ApiResponse::error($parsed['error'], 'INVALID_FILTER', 400);
+        }
+
+        $handle = fopen('php://temp', 'r+');
+        fputcsv($handle, [
+            'id', 'created_at', 'user_id', 'username', 'email', 'source', 'outcome', 'error_code', 'error_message',
+            'node_id', 'node', 'realm_id', 'realm', 'spell_id', 'spell', 'server_id', 'creation_request_id',
+            'approval_request_id', 'attempt', 'wings_status', 'duration_ms', 'ip_address', 'payload',
+        ]);
+
+        foreach (CreationAudit::getAll($parsed['filters'], self::MAX_EXPORT_ROWS) as $row) {
+            $entry = $this->formatEntry($row);
+            fputcsv($handle, [
+                $entry['id'],
+                $entry['created_at'],
+                $entry['user']['id'],
+                $entry['user']['username'],
+                $entry['user']['email'],
+                $entry['source'],
+                $entry['outcome'],
+                $entry['error_code'],
+                $entry['error_message'],
+                $entry['node']['id'],
+                $entry['node']['name'],
+                $entry['realm']['id'],
+                $entry['realm']['name'],
+                $entry['spell']['id'],
+                $entry['spell']['name'],
+                $entry['server_id'],
+                $entry['creation_request_id'],
+                $entry['approval_request_id'],
+                $entry['attempt'],
+                $entry['wings_status'],
+                $entry['duration_ms'],
+                $entry['ip_address'],
+                json_encode($entry['payload']),
+            ]);
+        }
+
+        rewind($handle);
+        $csv = (string) stream_get_contents($handle);
+        fclose($handle);
+
+        return new Response($csv, 200, [
+            'Content-Type' => 'text/csv; charset=utf-8',
+            'Content-Disposition' => 'attachment; filename="server-creation-audit-' . date('Y-m-d') . '.csv"',
+        ]);
+    }
+
+    /**
+     * Read and validate the list filters from the query string.
+     *
+     * @return array{filters: array<string,int|string>, error: string|null}
+     */
+    private function parseFilters(Request $request): array
+    {
+        $filters = [];
+
+        foreach (['user_id', 'node_id'] as $field) {
+            $value = trim((string) $request->query->get($field, ''));
+            if ($value === '') {
+                continue;
+            }
+            if (!ctype_digit($value) || (int) $value <= 0) {
+                return ['filters' => [], 'error' => $field . ' must be a positive integer'];
+            }
+            $filters[$field] = (int) $value;
+        }
+
+        $errorCode = trim((string) $request->query->get('error_code', ''));
+        if ($errorCode !== '') {
+            if (!preg_match('/^[A-Z0-9_]{1,64}$/', $errorCode)) {
+                return ['filters' => [], 'error' => 'error_code must be an uppercase error code'];
+            }
+            $filters['error_code'] = $errorCode;
+        }
+
+        foreach (['outcome' => CreationAudit::OUTCOMES, 'source' => CreationAudit::SOURCES] as $field => $allowed) {
+            $value = trim((string) $request->query->get($field, ''));
+            if ($value === '') {
+                continue;
+            }
+            if (!in_array($value, $allowed, true)) {
+                return ['filters' => [], 'error' => $field . ' must be one of: ' . implode(', ', $allowed)];
+            }
+            $filters[$field] = $value;
+        }
+
+        foreach (['from', 'to'] as $field) {
+            $value = trim((string) $request->query->get($field, ''));
+            if ($value === '') {
+                continue;
+            }
+            $date = \DateTimeImmutable::createFromFormat('!Y-m-d', $value);
+            if ($date === false || $date->format('Y-m-d') !== $value) {
+                return ['filters' => [], 'error' => $field . ' must be a date in Y-m-d format'];
+            }
+            $filters[$field] = $value;
+        }
+
+        if (isset($filters['from'], $filters['to']) && $filters['from'] > $filters['to']) {
+            return ['filters' => [], 'error' => 'from must not be after to'];
+        }
+
+        return ['filters' => $filters, 'error' => null];
+    }
+
+    /**
+     * Shape an audit row for API responses.
+     *
+     * @param array<string,mixed> $row Audit row joined with the user
+     *
+     * @return array<string,mixed> Formatted entry
+     */
+    private function formatEntry(array $row): array
+    {
+        $payload = json_decode((string) $row['payload'], true);
+        $nodeId = $row['node_id'] !== null ? (int) $row['node_id'] : null;
+        $realmId = $row['realms_id'] !== null ? (int) $row['realms_id'] : null;
+        $spellId = $row['spell_id'] !== null ? (int) $row['spell_id'] : null;
+
+        return [
+            'id' => (int) $row['id'],
+            'user' => [
+                'id' => (int) $row['user_id'],
+                'username' => $row['username'] ?? null,
+                'email' => $row['email'] ?? null,
+            ],
+            'creation_request_id' => $row['creation_request_id'] !== null ? (int) $row['creation_request_id'] : null,
+            'approval_request_id' => $row['approval_request_id'] !== null ? (int) $row['approval_request_id'] : null,
+            'attempt' => (int) $row['attempt'],
+            'source' => $row['source'],
+            'payload' => is_array($payload) ? $payload : [],
+            'node' => ['id' => $nodeId, 'name' => $this->resolveName('node', $nodeId)],
+            'realm' => ['id' => $realmId, 'name' => $this->resolveName('realm', $realmId)],
+            'spell' => ['id' => $spellId, 'name' => $this->resolveName('spell', $spellId)],
+            'server_id' => $row['server_id'] !== null ? (int) $row['server_id'] : null,
+            'outcome' => $row['outcome'],
+            'error_code' => $row['error_code'],
+            'error_message' => $row['error_message'],
+            'wings_status' => $row['wings_status'] !== null ? (int) $row['wings_status'] : null,
+            'duration_ms' => $row['duration_ms'] !== null ? (int) $row['duration_ms'] : null,
+            'ip_address' => $row['ip_address'],
+            'created_at' => $row['created_at'],
+        ];
+    }
+
+    /**
+     * Look up the name of a node, realm or spell (null when it no longer exists).
+     */
+    private function resolveName(string $type, ?int $id): ?string
+    {
+        if ($id === null) {
+            return null;
+        }
+
+        if (!array_key_exists($id, $this->names[$type])) {
+            $record = match ($type) {
+                'node' => Node::getNodeById($id),
+                'realm' => Realm::getById($id),
+                'spell' => Spell::getSpellById($id),
+            };
+            $this->names[$type][$id] = $record ? (string) $record['name'] : null;
+        }
+
+        return $this->names[$type][$id];
+    }
+}
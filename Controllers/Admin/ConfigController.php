@@ -0,0 +1,128 @@
+<?php
+
+/*
+ * This file is part of FeatherPanel.
+ *
+ * Copyright (C) 2025 MythicalSystems Studios
+ * Copyright (C) 2025 FeatherPanel Contributors
+ * Copyright (C) 2025 Cassian Gherman (aka NaysKutzu)
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * See the LICENSE file or <https://www.gnu.org/licenses/>.
+ */
+namespace App\Addons\billingresourcesnewservers\Controllers\Admin;
+
+use App\Chat\Activity;
+use App\Helpers\ApiResponse;
+use OpenApi\Attributes as OA;
+use App\CloudFlare\CloudFlareRealIP;
+use Symfony\Component\HttpFoundation\Request;
+use Symfony\Component\HttpFoundation\Response;
+use App\Addons\billingresourcesnewservers\Helpers\ConfigTransferHelper;
+
+#[OA\Tag(name: 'Admin - Billing Resources New Servers - Config', description: 'Export and import of the plugin configuration')]
+class ConfigController
+{
+    #[OA\Get(
+        path: '/api/admin/billingresourcesnewservers/config/export',
+        summary: 'Export the plugin configuration',
+        description: 'Versioned JSON document with settings, allow-lists, node caps, placement policies, resource permission modes, and groups with their permissions. Resources are referenced by ID, name and UUID.',
+        tags: ['Admin - Billing Resources New Servers - Config'],
+        responses: [
+            new OA\Response(response: 200, description: 'Configuration exported successfully'),
+            new OA\Response(response: 401, description: 'Unauthorized'),
+            new OA\Response(response: 403, description: 'Forbidden'),
+        ]
+    )]
+    public function exportConfig(Request $request): Response
+    {
+        return ApiResponse::success(ConfigTransferHelper::export(), 'Configuration exported successfully', 200);
+    }
+
+    #[OA\Post(
+        path: '/api/admin/billingresourcesnewservers/config/import',
+        summary: 'Import a plugin configuration',
+        description: 'Compare a configuration document with the current configuration (dry_run, the default) or apply it in one transaction. Sections missing from the document are left untouched; unresolved resource references are skipped.',
+        tags: ['Admin - Billing Resources New Servers - Config'],
+        requestBody: new OA\RequestBody(
+            required: true,
+            content: new OA\JsonContent(
+                properties: [
+                    new OA\Property(property: 'document', type: 'object', description: 'Document produced by the export endpoint'),
+                    new OA\Property(property: 'mappings', type: 'object', description: 'Explicit remapping per type (location, node, realm, spell, user): document ID => local ID'),
+                    new OA\Property(property: 'dry_run', type: 'boolean', description: 'Only return the diff (default true)'),
+                    new OA\Property(property: 'expected_state_hash', type: 'string', description: 'state_hash of the previewed diff; the import is refused when the configuration changed since'),
+                ]
+            )
+        ),
+        responses: [
+            new OA\Response(response: 200, description: 'Diff computed or configuration imported'),
+            new OA\Response(response: 400, description: 'Invalid document'),
+            new OA\Response(response: 401, description: 'Unauthorized'),
+            new OA\Response(response: 403, description: 'Forbidden'),
+            new OA\Response(response: 409, description: 'Configuration changed since the preview'),
+            new OA\Response(response: 500, description: 'Import failed; nothing was changed'),
+        ]
+    )]
+    public function importConfig(Request $request): Response
+    {
+        $admin = $request->get('user');
+        $data = json_decode($request->getContent(), true);
+
+        if ($data === null) {
+            return ApiResponse::error('Invalid JSON', 'INVALID_JSON', 400);
+        }
+        if (!is_array($data['document'] ?? null)) {
+            return ApiResponse::error('document must be an object', 'INVALID_CONFIG_DOCUMENT', 400);
+        }
+        if (isset($data['mappings']) && !is_array($data['mappings'])) {
+            return ApiResponse::error('mappings must be an object', 'INVALID_TYPE', 400);
+        }
+
+        $dryRun = !array_key_exists('dry_run', $data) || filter_var($data['dry_run'], FILTER_VALIDATE_BOOLEAN);
+        $plan = ConfigTransferHelper::plan($data['document'], $data['mappings'] ?? []);
+
+        if (!empty($plan['errors'])) {
+            return ApiResponse::error('The configuration document is invalid: ' . $plan['errors'][0], 'INVALID_CONFIG_DOCUMENT', 400, $plan['errors']);
+        }
+
+        $result = [
+            'dry_run' => $dryRun,
+            'changes' => $plan['changes'],
+            'summary' => $plan['summary'],
+            'unresolved' => $plan['unresolved'],
+            'state_hash' => $plan['state_hash'],
+        ];
+
+        if ($dryRun) {
+            return ApiResponse::success($result, 'Import preview computed', 200);
+        }
+
+        if (isset($data['expected_state_hash']) && $data['expected_state_hash'] !== $plan['state_hash']) {
+            return ApiResponse::error('The configuration changed since the preview. Preview the import again.', 'CONFIG_CHANGED', 409);
+        }
+
+        if (!empty($plan['changes'])) {
+            try {
+                ConfigTransferHelper::apply($plan['desired']);
+            } catch (\Throwable $e) {
+                return ApiResponse::error('Import failed, nothing was changed: ' . $e->getMessage(), 'CONFIG_IMPORT_FAILED', 500);
+            }
+
+            Activity::createActivity([
+                'user_uuid' => $admin['uuid'] ?? null,
+                'name' => 'billingresourcesnewservers_import_config',
+                'context' => 'Imported plugin configuration: ' . $plan['summary']['added'] . ' added, ' . $plan['summary']['changed'] . ' changed, ' . $plan['summary']['removed'] . ' removed',
+                'ip_address' => CloudFlareRealIP::getRealIP(),
+            ]);
+        }
+
+        $result['state_hash'] = ConfigTransferHelper::currentStateHash();
+
+        return ApiResponse::success($result, 'Configuration imported successfully', 200);
+    }
+}
@@ -30,11 +30,21 @@ use Symfony\Component\HttpFoundation\Request;
 use Symfony\Component\HttpFoundation\Response;
 use App\Addons\billingresourcesnewservers\Chat\Group;
 use App\Addons\billingresourcesnewservers\Chat\UserGroup;
+use App\Addons\billingresourcesnewservers\Helpers\QuotaHelper;
+use App\Addons\billingresourcesnewservers\Helpers\LookupHelper;
 use App\Addons\billingresourcesnewservers\Chat\GroupPermission;
+use App\Addons\billingresourcesnewservers\Helpers\DiscordHelper;
+use App\Addons\billingresourcesnewservers\Helpers\RateLimitHelper;
+use App\Addons\billingresourcesnewservers\Helpers\ServerLifetimeHelper;
+use App\Addons\billingresourcesnewservers\Helpers\PermissionRuleHelper;
+use App\Addons\billingresourcesnewservers\Helpers\MembershipRuleHelper;
 
 #[OA\Tag(name: 'Admin - Billing Resources New Servers - Groups', description: 'Manage groups/ranks for server creation permissions')]
 class GroupsController
 {
+    /** Largest page of group members the users endpoint returns */
+    private const MAX_MEMBERS_PER_PAGE = 100;
+
     #[OA\Get(
         path: '/api/admin/billingresourcesnewservers/groups',
         summary: 'Get all groups',
@@ -48,7 +58,12 @@ class GroupsController
     )]
     public function getAllGroups(Request $request): Response
     {
-        $groups = Group::getAll();
+        $groups = array_map(static function (array $group): array {
+            $group['membership_rules'] = MembershipRuleHelper::decode($group);
+            $group['requires_approval'] = (bool) ($group['requires_approval'] ?? false);
+
+            return $group;
+        }, Group::getAll());
 
         return ApiResponse::success($groups, 'Groups retrieved successfully', 200);
     }
@@ -66,6 +81,18 @@ class GroupsController
                     new OA\Property(property: 'description', type: 'string', nullable: true, description: 'Group description'),
                     new OA\Property(property: 'color', type: 'string', nullable: true, description: 'Group color (hex)', example: '#3B82F6'),
                     new OA\Property(property: 'priority', type: 'integer', nullable: true, description: 'Priority (higher = more important)', example: 0),
+                    new OA\Property(property: 'max_servers', type: 'integer', nullable: true, description: 'Max servers created through this plugin (null = no cap)'),
+                    new OA\Property(property: 'max_memory_per_server', type: 'integer', nullable: true, description: 'Max memory (MB) of a single server (null = no cap)'),
+                    new OA\Property(property: 'max_servers_per_location', type: 'integer', nullable: true, description: 'Max servers per location (null = no cap)'),
+                    new OA\Property(property: 'max_servers_per_spell', type: 'integer', nullable: true, description: 'Max servers per spell (null = no cap)'),
+                    new OA\Property(property: 'rate_limit_max_creations', type: 'integer', nullable: true, description: 'Override: creations per rolling window (null = global setting)'),
+                    new OA\Property(property: 'rate_limit_window_minutes', type: 'integer', nullable: true, description: 'Override: rolling window in minutes (null = global setting)'),
+                    new OA\Property(property: 'creation_cooldown_seconds', type: 'integer', nullable: true, description: 'Override: wait between creations (null = global setting)'),
+                    new OA\Property(property: 'deletion_cooldown_seconds', type: 'integer', nullable: true, description: 'Override: wait after a deletion (null = global setting)'),
+                    new OA\Property(property: 'lifetime_days', type: 'integer', nullable: true, description: 'Override: days a server lives before it must be renewed (null = global setting, 0 = never reclaim)'),
+                    new OA\Property(property: 'inactivity_days', type: 'integer', nullable: true, description: 'Override: days a server may go without activity (null = global setting, 0 = never reclaim)'),
+                    new OA\Property(property: 'requires_approval', type: 'boolean', nullable: true, description: 'Whether the members\' free servers need an admin\'s approval'),
+                    new OA\Property(property: 'membership_rules', type: 'object', nullable: true, description: 'Automatic membership: {match: all|any, conditions: [{type, ...}]} (null = manual only)'),
                 ]
             )
         ),
@@ -90,17 +117,44 @@ class GroupsController
             return ApiResponse::error('Group name is required', 'MISSING_NAME', 400);
         }
 
+        $quotaInput = QuotaHelper::parseQuotaInput($data);
+        if ($quotaInput['error'] !== null) {
+            return ApiResponse::error($quotaInput['error'], 'INVALID_QUOTA', 400);
+        }
+
+        $rateLimitInput = RateLimitHelper::parseRateLimitInput($data);
+        if ($rateLimitInput['error'] !== null) {
+            return ApiResponse::error($rateLimitInput['error'], 'INVALID_RATE_LIMIT', 400);
+        }
+
+        $lifetimeInput = ServerLifetimeHelper::parseLifetimeInput($data);
+        if ($lifetimeInput['error'] !== null) {
+            return ApiResponse::error($lifetimeInput['error'], 'INVALID_LIFETIME', 400);
+        }
+
+        $rulesInput = MembershipRuleHelper::parseRulesInput($data['membership_rules'] ?? null);
+        if ($rulesInput['error'] !== null) {
+            return ApiResponse::error($rulesInput['error'], 'INVALID_MEMBERSHIP_RULES', 400);
+        }
+
         $groupId = Group::create(
             trim($name),
             $data['description'] ?? null,
             $data['color'] ?? null,
-            (int) ($data['priority'] ?? 0)
+            (int) ($data['priority'] ?? 0),
+            array_merge($quotaInput['quotas'], $rateLimitInput['limits'], $lifetimeInput['limits']),
+            MembershipRuleHelper::encode($rulesInput['rules']),
+            (bool) ($data['requires_approval'] ?? false)
         );
 
         if ($groupId === false) {
             return ApiResponse::error('Failed to create group. Name may already exist.', 'CREATE_FAILED', 400);
         }
 
+        if ($rulesInput['rules'] !== null) {
+            MembershipRuleHelper::refreshGroup($groupId, $rulesInput['rules']);
+        }
+
         Activity::createActivity([
             'user_uuid' => $admin['uuid'] ?? null,
             'name' => 'billingresourcesnewservers_create_group',
@@ -129,6 +183,18 @@ class GroupsController
                     new OA\Property(property: 'description', type: 'string', nullable: true, description: 'Group description'),
                     new OA\Property(property: 'color', type: 'string', nullable: true, description: 'Group color (hex)'),
                     new OA\Property(property: 'priority', type: 'integer', nullable: true, description: 'Priority'),
+                    new OA\Property(property: 'max_servers', type: 'integer', nullable: true, description: 'Max servers created through this plugin (null = no cap)'),
+                    new OA\Property(property: 'max_memory_per_server', type: 'integer', nullable: true, description: 'Max memory (MB) of a single server (null = no cap)'),
+                    new OA\Property(property: 'max_servers_per_location', type: 'integer', nullable: true, description: 'Max servers per location (null = no cap)'),
+                    new OA\Property(property: 'max_servers_per_spell', type: 'integer', nullable: true, description: 'Max servers per spell (null = no cap)'),
+                    new OA\Property(property: 'rate_limit_max_creations', type: 'integer', nullable: true, description: 'Override: creations per rolling window (null = global setting)'),
+                    new OA\Property(property: 'rate_limit_window_minutes', type: 'integer', nullable: true, description: 'Override: rolling window in minutes (null = global setting)'),
+                    new OA\Property(property: 'creation_cooldown_seconds', type: 'integer', nullable: true, description: 'Override: wait between creations (null = global setting)'),
+                    new OA\Property(property: 'deletion_cooldown_seconds', type: 'integer', nullable: true, description: 'Override: wait after a deletion (null = global setting)'),
+                    new OA\Property(property: 'lifetime_days', type: 'integer', nullable: true, description: 'Override: days a server lives before it must be renewed (null = global setting, 0 = never reclaim)'),
+                    new OA\Property(property: 'inactivity_days', type: 'integer', nullable: true, description: 'Override: days a server may go without activity (null = global setting, 0 = never reclaim)'),
+                    new OA\Property(property: 'requires_approval', type: 'boolean', nullable: true, description: 'Whether the members\' free servers need an admin\'s approval'),
+                    new OA\Property(property: 'membership_rules', type: 'object', nullable: true, description: 'Automatic membership: {match: all|any, conditions: [{type, ...}]} (null = manual only)'),
                 ]
             )
         ),
@@ -167,6 +233,34 @@ class GroupsController
         if (isset($data['priority'])) {
             $updateData['priority'] = (int) $data['priority'];
         }
+        if (isset($data['requires_approval'])) {
+            $updateData['requires_approval'] = (bool) $data['requires_approval'];
+        }
+
+        $quotaInput = QuotaHelper::parseQuotaInput($data);
+        if ($quotaInput['error'] !== null) {
+            return ApiResponse::error($quotaInput['error'], 'INVALID_QUOTA', 400);
+        }
+
+        $rateLimitInput = RateLimitHelper::parseRateLimitInput($data);
+        if ($rateLimitInput['error'] !== null) {
+            return ApiResponse::error($rateLimitInput['error'], 'INVALID_RATE_LIMIT', 400);
+        }
+
+        $lifetimeInput = ServerLifetimeHelper::parseLifetimeInput($data);
+        if ($lifetimeInput['error'] !== null) {
+            return ApiResponse::error($lifetimeInput['error'], 'INVALID_LIFETIME', 400);
+        }
+        $updateData = array_merge($updateData, $quotaInput['quotas'], $rateLimitInput['limits'], $lifetimeInput['limits']);
+
+        $rulesInput = null;
+        if (array_key_exists('membership_rules', $data)) {
+            $rulesInput = MembershipRuleHelper::parseRulesInput($data['membership_rules']);
+            if ($rulesInput['error'] !== null) {
+                return ApiResponse::error($rulesInput['error'], 'INVALID_MEMBERSHIP_RULES', 400);
+            }
+            $updateData['membership_rules'] = MembershipRuleHelper::encode($rulesInput['rules']);
+        }
 
         if (empty($updateData)) {
             return ApiResponse::error('No fields to update', 'NO_FIELDS', 400);
@@ -177,6 +271,10 @@ class GroupsController
             return ApiResponse::error('Failed to update group', 'UPDATE_FAILED', 400);
         }
 
+        if ($rulesInput !== null) {
+            MembershipRuleHelper::refreshGroup($groupId, $rulesInput['rules']);
+        }
+
         Activity::createActivity([
             'user_uuid' => $admin['uuid'] ?? null,
             'name' => 'billingresourcesnewservers_update_group',
@@ -263,7 +361,7 @@ class GroupsController
         foreach ($permissions as $permission) {
             $type = $permission['resource_type'];
             if (isset($organizedPermissions[$type . 's'])) {
-                $organizedPermissions[$type . 's'][] = $permission;
+                $organizedPermissions[$type . 's'][] = array_merge($permission, PermissionRuleHelper::formatRule($permission));
             }
         }
 
@@ -273,9 +371,21 @@ class GroupsController
             'description' => $group['description'] ?? null,
             'color' => $group['color'] ?? null,
             'priority' => (int) ($group['priority'] ?? 0),
+            'max_servers' => isset($group['max_servers']) ? (int) $group['max_servers'] : null,
+            'max_memory_per_server' => isset($group['max_memory_per_server']) ? (int) $group['max_memory_per_server'] : null,
+            'max_servers_per_location' => isset($group['max_servers_per_location']) ? (int) $group['max_servers_per_location'] : null,
+            'max_servers_per_spell' => isset($group['max_servers_per_spell']) ? (int) $group['max_servers_per_spell'] : null,
+            'rate_limit_max_creations' => isset($group['rate_limit_max_creations']) ? (int) $group['rate_limit_max_creations'] : null,
+            'rate_limit_window_minutes' => isset($group['rate_limit_window_minutes']) ? (int) $group['rate_limit_window_minutes'] : null,
+            'creation_cooldown_seconds' => isset($group['creation_cooldown_seconds']) ? (int) $group['creation_cooldown_seconds'] : null,
+            'deletion_cooldown_seconds' => isset($group['deletion_cooldown_seconds']) ? (int) $group['deletion_cooldown_seconds'] : null,
+            'lifetime_days' => isset($group['lifetime_days']) ? (int) $group['lifetime_days'] : null,
+            'inactivity_days' => isset($group['inactivity_days']) ? (int) $group['inactivity_days'] : null,
+            'requires_approval' => (bool) ($group['requires_approval'] ?? false),
+            'membership_rules' => MembershipRuleHelper::decode($group),
             'created_at' => $group['created_at'] ?? null,
             'updated_at' => $group['updated_at'] ?? null,
-            'permissions' => $organizedPermissions,
+            'permissions' => LookupHelper::withResourceNames($organizedPermissions),
         ], 'Group retrieved successfully', 200);
     }
 
@@ -324,6 +434,9 @@ class GroupsController
                     new OA\Property(property: 'resource_type', type: 'string', enum: ['location', 'node', 'realm', 'spell'], description: 'Type of resource'),
                     new OA\Property(property: 'resource_id', type: 'integer', description: 'ID of the resource'),
                     new OA\Property(property: 'custom_error_message', type: 'string', nullable: true, description: 'Custom error message'),
+                    new OA\Property(property: 'effect', type: 'string', enum: ['allow', 'deny'], description: 'Allow grants access, deny overrides grants (default allow)'),
+                    new OA\Property(property: 'starts_at', type: 'string', nullable: true, description: 'Start of the validity window (Y-m-d H:i, server time)'),
+                    new OA\Property(property: 'expires_at', type: 'string', nullable: true, description: 'End of the validity window (Y-m-d H:i, server time)'),
                 ]
             )
         ),
@@ -378,7 +491,12 @@ class GroupsController
             return ApiResponse::error('Resource not found', 'RESOURCE_NOT_FOUND', 400);
         }
 
-        $success = GroupPermission::createOrUpdate($groupId, $resourceType, (int) $resourceId, $customErrorMessage);
+        $parsedRule = PermissionRuleHelper::parseRuleInput($data, GroupPermission::getGroupPermission($groupId, $resourceType, (int) $resourceId));
+        if ($parsedRule['error'] !== null) {
+            return ApiResponse::error($parsedRule['error'], 'INVALID_PERMISSION_RULE', 400);
+        }
+
+        $success = GroupPermission::createOrUpdate($groupId, $resourceType, (int) $resourceId, $customErrorMessage, $parsedRule['rule']);
 
         if (!$success) {
             return ApiResponse::error('Failed to add permission', 'ADD_FAILED', 400);
@@ -387,7 +505,7 @@ class GroupsController
         Activity::createActivity([
             'user_uuid' => $admin['uuid'] ?? null,
             'name' => 'billingresourcesnewservers_add_group_permission',
-            'context' => 'Added ' . $resourceType . ' permission to group ' . $group['name'],
+            'context' => 'Added ' . $resourceType . ' ' . $parsedRule['rule']['effect'] . ' permission to group ' . $group['name'],
             'ip_address' => CloudFlareRealIP::getRealIP(),
         ]);
 
@@ -397,7 +515,7 @@ class GroupsController
     #[OA\Patch(
         path: '/api/admin/billingresourcesnewservers/groups/{groupId}/permissions/{resourceType}/{resourceId}',
         summary: 'Update group permission',
-        description: 'Update a permission for a group (e.g., custom error message)',
+        description: 'Update a permission for a group (custom error message, effect, validity window)',
         tags: ['Admin - Billing Resources New Servers - Groups'],
         parameters: [
             new OA\Parameter(name: 'groupId', description: 'ID of the group', in: 'path', required: true, schema: new OA\Schema(type: 'integer')),
@@ -409,6 +527,9 @@ class GroupsController
             content: new OA\JsonContent(
                 properties: [
                     new OA\Property(property: 'custom_error_message', type: 'string', nullable: true, description: 'Custom error message'),
+                    new OA\Property(property: 'effect', type: 'string', enum: ['allow', 'deny'], description: 'Allow grants access, deny overrides grants (default allow)'),
+                    new OA\Property(property: 'starts_at', type: 'string', nullable: true, description: 'Start of the validity window (Y-m-d H:i, server time)'),
+                    new OA\Property(property: 'expires_at', type: 'string', nullable: true, description: 'End of the validity window (Y-m-d H:i, server time)'),
                 ]
             )
         ),
@@ -423,7 +544,7 @@ class GroupsController
     #[OA\Put(
         path: '/api/admin/billingresourcesnewservers/groups/{groupId}/permissions/{resourceType}/{resourceId}',
         summary: 'Update group permission',
-        description: 'Update a permission for a group (e.g., custom error message)',
+        description: 'Update a permission for a group (custom error message, effect, validity window)',
         tags: ['Admin - Billing Resources New Servers - Groups'],
         parameters: [
             new OA\Parameter(name: 'groupId', description: 'ID of the group', in: 'path', required: true, schema: new OA\Schema(type: 'integer')),
@@ -435,6 +556,9 @@ class GroupsController
             content: new OA\JsonContent(
                 properties: [
                     new OA\Property(property: 'custom_error_message', type: 'string', nullable: true, description: 'Custom error message'),
+                    new OA\Property(property: 'effect', type: 'string', enum: ['allow', 'deny'], description: 'Allow grants access, deny overrides grants (default allow)'),
+                    new OA\Property(property: 'starts_at', type: 'string', nullable: true, description: 'Start of the validity window (Y-m-d H:i, server time)'),
+                    new OA\Property(property: 'expires_at', type: 'string', nullable: true, description: 'End of the validity window (Y-m-d H:i, server time)'),
                 ]
             )
         ),
@@ -472,7 +596,12 @@ class GroupsController
 
         $customErrorMessage = $data['custom_error_message'] ?? null;
 
-        $success = GroupPermission::createOrUpdate($groupId, $resourceType, $resourceId, $customErrorMessage);
+        $parsedRule = PermissionRuleHelper::parseRuleInput($data, $permission);
+        if ($parsedRule['error'] !== null) {
+            return ApiResponse::error($parsedRule['error'], 'INVALID_PERMISSION_RULE', 400);
+        }
+
+        $success = GroupPermission::createOrUpdate($groupId, $resourceType, $resourceId, $customErrorMessage, $parsedRule['rule']);
 
         if (!$success) {
             return ApiResponse::error('Failed to update permission', 'UPDATE_FAILED', 400);
@@ -537,10 +666,13 @@ class GroupsController
     #[OA\Get(
         path: '/api/admin/billingresourcesnewservers/groups/{groupId}/users',
         summary: 'Get users in group',
-        description: 'Get all users assigned to a group',
+        description: 'Get the users assigned to a group, by username, one page at a time',
         tags: ['Admin - Billing Resources New Servers - Groups'],
         parameters: [
             new OA\Parameter(name: 'groupId', description: 'ID of the group', in: 'path', required: true, schema: new OA\Schema(type: 'integer')),
+            new OA\Parameter(name: 'search', description: 'Matched against username and email', in: 'query', required: false, schema: new OA\Schema(type: 'string')),
+            new OA\Parameter(name: 'page', in: 'query', required: false, schema: new OA\Schema(type: 'integer', default: 1)),
+            new OA\Parameter(name: 'per_page', in: 'query', required: false, schema: new OA\Schema(type: 'integer', default: 25, maximum: 100)),
         ],
         responses: [
             new OA\Response(response: 200, description: 'Users retrieved successfully'),
@@ -556,26 +688,88 @@ class GroupsController
             return ApiResponse::error('Group not found', 'GROUP_NOT_FOUND', 404);
         }
 
-        $userIds = UserGroup::getUserIdsByGroupId($groupId);
-        $users = [];
-        foreach ($userIds as $userId) {
-            $user = User::getUserById($userId);
-            if ($user) {
-                $users[] = [
-                    'id' => $user['id'],
-                    'uuid' => $user['uuid'],
-                    'username' => $user['username'],
-                    'email' => $user['email'],
-                ];
-            }
-        }
+        $search = trim((string) $request->query->get('search', ''));
+        $page = max(1, (int) $request->query->get('page', 1));
+        $perPage = min(self::MAX_MEMBERS_PER_PAGE, max(1, (int) $request->query->get('per_page', 25)));
+        $total = UserGroup::countMembers($groupId, $search);
 
         return ApiResponse::success([
             'group' => $group,
-            'users' => $users,
+            'users' => UserGroup::getMembers($groupId, $search, $perPage, ($page - 1) * $perPage),
+            'pagination' => [
+                'page' => $page,
+                'per_page' => $perPage,
+                'total' => $total,
+                'total_pages' => (int) max(1, ceil($total / $perPage)),
+            ],
         ], 'Users retrieved successfully', 200);
     }
 
+    #[OA\Post(
+        path: '/api/admin/billingresourcesnewservers/groups/membership-rules/preview',
+        summary: 'Preview membership rules',
+        description: 'List the users that currently match a set of membership rules, without saving them',
+        tags: ['Admin - Billing Resources New Servers - Groups'],
+        requestBody: new OA\RequestBody(
+            required: true,
+            content: new OA\JsonContent(
+                properties: [
+                    new OA\Property(property: 'membership_rules', type: 'object', description: '{match: all|any, conditions: [{type, ...}]}'),
+                ]
+            )
+        ),
+        responses: [
+            new OA\Response(response: 200, description: 'Preview generated successfully'),
+            new OA\Response(response: 400, description: 'Invalid rules'),
+            new OA\Response(response: 401, description: 'Unauthorized'),
+            new OA\Response(response: 403, description: 'Forbidden'),
+        ]
+    )]
+    public function previewMembershipRules(Request $request): Response
+    {
+        $data = json_decode($request->getContent(), true);
+
+        if ($data === null) {
+            return ApiResponse::error('Invalid JSON', 'INVALID_JSON', 400);
+        }
+
+        $rulesInput = MembershipRuleHelper::parseRulesInput($data['membership_rules'] ?? null);
+        if ($rulesInput['error'] !== null) {
+            return ApiResponse::error($rulesInput['error'], 'INVALID_MEMBERSHIP_RULES', 400);
+        }
+        if ($rulesInput['rules'] === null) {
+            return ApiResponse::error('Add at least one condition to preview', 'INVALID_MEMBERSHIP_RULES', 400);
+        }
+
+        return ApiResponse::success(MembershipRuleHelper::preview($rulesInput['rules']), 'Preview generated successfully', 200);
+    }
+
+    #[OA\Get(
+        path: '/api/admin/billingresourcesnewservers/groups/discord-roles',
+        summary: 'List Discord roles',
+        description: 'Roles of the configured Discord server, for discord_role membership conditions',
+        tags: ['Admin - Billing Resources New Servers - Groups'],
+        responses: [
+            new OA\Response(response: 200, description: 'Roles retrieved successfully'),
+            new OA\Response(response: 401, description: 'Unauthorized'),
+            new OA\Response(response: 403, description: 'Forbidden'),
+            new OA\Response(response: 502, description: 'Discord could not be reached or rejected the bot'),
+        ]
+    )]
+    public function getDiscordRoles(Request $request): Response
+    {
+        if (!DiscordHelper::isRoleSyncConfigured()) {
+            return ApiResponse::success(['configured' => false, 'roles' => []], 'Discord role sync is not configured', 200);
+        }
+
+        $result = DiscordHelper::getGuildRoles();
+        if ($result['error'] !== null) {
+            return ApiResponse::error($result['error'], 'DISCORD_REQUEST_FAILED', 502);
+        }
+
+        return ApiResponse::success(['configured' => true, 'roles' => $result['roles']], 'Roles retrieved successfully', 200);
+    }
+
     #[OA\Post(
         path: '/api/admin/billingresourcesnewservers/groups/{groupId}/users/{userId}',
         summary: 'Assign user to group',
@@ -689,17 +883,19 @@ class GroupsController
             return ApiResponse::error('User not found', 'USER_NOT_FOUND', 404);
         }
 
+        MembershipRuleHelper::syncUser($userId);
         $groupIds = UserGroup::getGroupIdsByUserId($userId);
 
         return ApiResponse::success([
             'group_ids' => $groupIds,
+            'rule_group_ids' => UserGroup::getRuleGroupIdsByUserId($userId),
         ], 'User groups retrieved successfully', 200);
     }
 
     #[OA\Post(
         path: '/api/admin/billingresourcesnewservers/users/{userId}/groups',
         summary: 'Set groups for user',
-        description: 'Set all groups for a user (replaces existing groups)',
+        description: 'Set the manual groups of a user (replaces existing manual groups; rule-based memberships are kept)',
         tags: ['Admin - Billing Resources New Servers - Groups'],
         parameters: [
             new OA\Parameter(name: 'userId', description: 'ID of the user', in: 'path', required: true, schema: new OA\Schema(type: 'integer')),
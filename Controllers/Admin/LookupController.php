@@ -0,0 +1,123 @@
+<?php
+
+/*
+ * This file is part of FeatherPanel.
+ *
+ * Copyright (C) 2025 MythicalSystems Studios
+ * Copyright (C) 2025 FeatherPanel Contributors
+ * Copyright (C) 2025 Cassian Gherman (aka NaysKutzu)
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * See the LICENSE file or <https://www.gnu.org/licenses/>.
+ */
+
+namespace App\Addons\billingresourcesnewservers\Controllers\Admin;
+
+use App\App;
+use App\Helpers\ApiResponse;
+use OpenApi\Attributes as OA;
+use Symfony\Component\HttpFoundation\Request;
+use Symfony\Component\HttpFoundation\Response;
+use App\Addons\billingresourcesnewservers\Helpers\LookupHelper;
+
+#[OA\Tag(name: 'Admin - Billing Resources New Servers - Lookup', description: 'Searchable user and resource pickers for the permissions admin')]
+class LookupController
+{
+    /** Largest page size the lookup endpoints accept */
+    private const MAX_PER_PAGE = 50;
+
+    #[OA\Get(
+        path: '/api/admin/billingresourcesnewservers/lookup/users',
+        summary: 'Search users',
+        description: 'Users whose username or email contains the search term, ordered by username',
+        tags: ['Admin - Billing Resources New Servers - Lookup'],
+        parameters: [
+            new OA\Parameter(name: 'search', in: 'query', required: false, schema: new OA\Schema(type: 'string')),
+            new OA\Parameter(name: 'page', in: 'query', required: false, schema: new OA\Schema(type: 'integer', default: 1)),
+            new OA\Parameter(name: 'per_page', in: 'query', required: false, schema: new OA\Schema(type: 'integer', default: 10, maximum: 50)),
+        ],
+        responses: [
+            new OA\Response(response: 200, description: 'Users retrieved successfully'),
+            new OA\Response(response: 401, description: 'Unauthorized'),
+            new OA\Response(response: 403, description: 'Forbidden'),
+        ]
+    )]
+    public function searchUsers(Request $request): Response
+    {
+        $search = trim((string) $request->query->get('search', ''));
+        $page = max(1, (int) $request->query->get('page', 1));
+        $perPage = min(self::MAX_PER_PAGE, max(1, (int) $request->query->get('per_page', 10)));
+
+        try {
+            $result = LookupHelper::searchUsers($search, $perPage, ($page - 1) * $perPage);
+
+            return ApiResponse::success([
+                'users' => $result['users'],
+                'pagination' => $this->pagination($page, $perPage, $result['total']),
+            ], 'Users retrieved successfully', 200);
+        } catch (\Exception $e) {
+            App::getInstance(true)->getLogger()->error('Failed to search users: ' . $e->getMessage());
+
+            return ApiResponse::error('Failed to search users: ' . $e->getMessage(), 'LOOKUP_FAILED', 500);
+        }
+    }
+
+    #[OA\Get(
+        path: '/api/admin/billingresourcesnewservers/lookup/{resourceType}',
+        summary: 'Search resources',
+        description: 'Locations, nodes, realms or spells whose name (or description / FQDN) contains the search term, ordered by name. A numeric term also matches the ID.',
+        tags: ['Admin - Billing Resources New Servers - Lookup'],
+        parameters: [
+            new OA\Parameter(name: 'resourceType', in: 'path', required: true, schema: new OA\Schema(type: 'string', enum: ['location', 'node', 'realm', 'spell'])),
+            new OA\Parameter(name: 'search', in: 'query', required: false, schema: new OA\Schema(type: 'string')),
+            new OA\Parameter(name: 'page', in: 'query', required: false, schema: new OA\Schema(type: 'integer', default: 1)),
+            new OA\Parameter(name: 'per_page', in: 'query', required: false, schema: new OA\Schema(type: 'integer', default: 10, maximum: 50)),
+        ],
+        responses: [
+            new OA\Response(response: 200, description: 'Resources retrieved successfully'),
+            new OA\Response(response: 400, description: 'Invalid resource type'),
+            new OA\Response(response: 401, description: 'Unauthorized'),
+            new OA\Response(response: 403, description: 'Forbidden'),
+        ]
+    )]
+    public function searchResources(Request $request, string $resourceType): Response
+    {
+        if (!isset(LookupHelper::RESOURCE_TABLES[$resourceType])) {
+            return ApiResponse::error('Invalid resource type', 'INVALID_RESOURCE_TYPE', 400);
+        }
+
+        $search = trim((string) $request->query->get('search', ''));
+        $page = max(1, (int) $request->query->get('page', 1));
+        $perPage = min(self::MAX_PER_PAGE, max(1, (int) $request->query->get('per_page', 10)));
+
+        try {
+            $result = LookupHelper::searchResources($resourceType, $search, $perPage, ($page - 1) * $perPage);
+
+            return ApiResponse::success([
+                'resources' => $result['resources'],
+                'pagination' => $this->pagination($page, $perPage, $result['total']),
+            ], 'Resources retrieved successfully', 200);
+        } catch (\Exception $e) {
+            App::getInstance(true)->getLogger()->error('Failed to search ' . $resourceType . 's: ' . $e->getMessage());
+
+            return ApiResponse::error('Failed to search ' . $resourceType . 's: ' . $e->getMessage(), 'LOOKUP_FAILED', 500);
+        }
+    }
+
+    /**
+     * @return array{page: int, per_page: int, total: int, total_pages: int}
+     */
+    private function pagination(int $page, int $perPage, int $total): array
+    {
+        return [
+            'page' => $page,
+            'per_page' => $perPage,
+            'total' => $total,
+            'total_pages' => (int) max(1, ceil($total / $perPage)),
+        ];
+    }
+}
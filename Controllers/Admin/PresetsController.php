@@ -0,0 +1,354 @@
+<?php
+
+/*
+ * This file is part of FeatherPanel.
+ *
+ * Copyright (C) 2025 MythicalSystems Studios
+ * Copyright (C) 2025 FeatherPanel Contributors
+ * Copyright (C) 2025 Cassian Gherman (aka NaysKutzu)
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * See the LICENSE file or <https://www.gnu.org/licenses/>.
+ */
+
+namespace App\Addons\billingresourcesnewservers\Controllers\Admin;
+
+use App\Chat\Activity;
+use App\Helpers\ApiResponse;
+use OpenApi\Attributes as OA;
+use App\CloudFlare\CloudFlareRealIP;
+use Symfony\Component\HttpFoundation\Request;
+use Symfony\Component\HttpFoundation\Response;
+use App\Addons\billingresourcesnewservers\Chat\Group;
+use App\Addons\billingresourcesnewservers\Chat\Preset;
+use App\Addons\billingresourcesnewservers\Chat\PresetGroup;
+use App\Addons\billingresourcesnewservers\Helpers\ServerCreationHelper;
+
+#[OA\Tag(name: 'Admin - Billing Resources New Servers - Presets', description: 'Manage server presets users can pick on the create form')]
+class PresetsController
+{
+    /**
+     * Integer columns accepted in preset payloads.
+     *
+     * @var list<string>
+     */
+    private const RESOURCE_FIELDS = ['memory', 'cpu', 'disk', 'swap', 'io', 'database_limit', 'allocation_limit', 'backup_limit', 'sort_order'];
+
+    #[OA\Get(
+        path: '/api/admin/billingresourcesnewservers/presets',
+        summary: 'Get all presets',
+        description: 'Get all server presets with their group restrictions',
+        tags: ['Admin - Billing Resources New Servers - Presets'],
+        responses: [
+            new OA\Response(response: 200, description: 'Presets retrieved successfully'),
+            new OA\Response(response: 401, description: 'Unauthorized'),
+            new OA\Response(response: 403, description: 'Forbidden'),
+        ]
+    )]
+    public function getAllPresets(Request $request): Response
+    {
+        $groupsByPreset = PresetGroup::getAllGroupIdsByPreset();
+        $presets = array_map(
+            fn (array $preset) => $this->formatPreset($preset, $groupsByPreset[(int) $preset['id']] ?? []),
+            Preset::getAll()
+        );
+
+        return ApiResponse::success($presets, 'Presets retrieved successfully', 200);
+    }
+
+    #[OA\Post(
+        path: '/api/admin/billingresourcesnewservers/presets',
+        summary: 'Create a new preset',
+        description: 'Create a named server preset',
+        tags: ['Admin - Billing Resources New Servers - Presets'],
+        requestBody: new OA\RequestBody(
+            required: true,
+            content: new OA\JsonContent(
+                properties: [
+                    new OA\Property(property: 'name', type: 'string', description: 'Preset name', example: 'Small Minecraft'),
+                    new OA\Property(property: 'description', type: 'string', nullable: true, description: 'Preset description'),
+                    new OA\Property(property: 'memory', type: 'integer', description: 'Memory in MB'),
+                    new OA\Property(property: 'cpu', type: 'integer', description: 'CPU limit in %'),
+                    new OA\Property(property: 'disk', type: 'integer', description: 'Disk in MB'),
+                    new OA\Property(property: 'swap', type: 'integer', description: 'Swap in MB'),
+                    new OA\Property(property: 'io', type: 'integer', description: 'IO weight'),
+                    new OA\Property(property: 'database_limit', type: 'integer'),
+                    new OA\Property(property: 'allocation_limit', type: 'integer'),
+                    new OA\Property(property: 'backup_limit', type: 'integer'),
+                    new OA\Property(property: 'realm_id', type: 'integer', nullable: true, description: 'Optional realm'),
+                    new OA\Property(property: 'spell_id', type: 'integer', nullable: true, description: 'Optional spell'),
+                    new OA\Property(property: 'image', type: 'string', nullable: true, description: 'Optional docker image'),
+                    new OA\Property(property: 'variables', type: 'object', nullable: true, description: 'Variable overrides (env_variable => value)'),
+                    new OA\Property(property: 'enabled', type: 'boolean'),
+                    new OA\Property(property: 'sort_order', type: 'integer'),
+                    new OA\Property(property: 'group_ids', type: 'array', items: new OA\Items(type: 'integer'), description: 'Restrict to these groups (empty = everyone)'),
+                ]
+            )
+        ),
+        responses: [
+            new OA\Response(response: 201, description: 'Preset created successfully'),
+            new OA\Response(response: 400, description: 'Invalid input'),
+            new OA\Response(response: 401, description: 'Unauthorized'),
+            new OA\Response(response: 403, description: 'Forbidden'),
+        ]
+    )]
+    public function createPreset(Request $request): Response
+    {
+        $admin = $request->get('user');
+        $data = json_decode($request->getContent(), true);
+
+        if ($data === null) {
+            return ApiResponse::error('Invalid JSON', 'INVALID_JSON', 400);
+        }
+
+        $name = $data['name'] ?? null;
+        if (!is_string($name) || trim($name) === '') {
+            return ApiResponse::error('Preset name is required', 'MISSING_NAME', 400);
+        }
+
+        $parsed = $this->parsePresetData($data);
+        if (isset($parsed['error'])) {
+            return ApiResponse::error($parsed['error'], $parsed['error_code'], 400);
+        }
+
+        $presetId = Preset::create($parsed['data']);
+        if ($presetId === false) {
+            return ApiResponse::error('Failed to create preset. Name may already exist.', 'CREATE_FAILED', 400);
+        }
+
+        if ($parsed['group_ids'] !== null) {
+            PresetGroup::setGroupsForPreset($presetId, $parsed['group_ids']);
+        }
+
+        Activity::createActivity([
+            'user_uuid' => $admin['uuid'] ?? null,
+            'name' => 'billingresourcesnewservers_create_preset',
+            'context' => 'Created preset: ' . trim($name),
+            'ip_address' => CloudFlareRealIP::getRealIP(),
+        ]);
+
+        $preset = Preset::getById($presetId);
+
+        return ApiResponse::success($this->formatPreset($preset ?? [], PresetGroup::getGroupIdsByPresetId($presetId)), 'Preset created successfully', 201);
+    }
+
+    #[OA\Patch(
+        path: '/api/admin/billingresourcesnewservers/presets/{presetId}',
+        summary: 'Update a preset',
+        description: 'Update a server preset. Only provided fields are changed.',
+        tags: ['Admin - Billing Resources New Servers - Presets'],
+        parameters: [
+            new OA\Parameter(name: 'presetId', description: 'ID of the preset', in: 'path', required: true, schema: new OA\Schema(type: 'integer')),
+        ],
+        requestBody: new OA\RequestBody(
+            required: true,
+            content: new OA\JsonContent(
+                properties: [
+                    new OA\Property(property: 'name', type: 'string', nullable: true, description: 'Preset name'),
+                    new OA\Property(property: 'description', type: 'string', nullable: true, description: 'Preset description'),
+                    new OA\Property(property: 'memory', type: 'integer', nullable: true),
+                    new OA\Property(property: 'cpu', type: 'integer', nullable: true),
+                    new OA\Property(property: 'disk', type: 'integer', nullable: true),
+                    new OA\Property(property: 'realm_id', type: 'integer', nullable: true),
+                    new OA\Property(property: 'spell_id', type: 'integer', nullable: true),
+                    new OA\Property(property: 'image', type: 'string', nullable: true),
+                    new OA\Property(property: 'variables', type: 'object', nullable: true),
+                    new OA\Property(property: 'enabled', type: 'boolean', nullable: true),
+                    new OA\Property(property: 'group_ids', type: 'array', items: new OA\Items(type: 'integer'), nullable: true),
+                ]
+            )
+        ),
+        responses: [
+            new OA\Response(response: 200, description: 'Preset updated successfully'),
+            new OA\Response(response: 400, description: 'Invalid input'),
+            new OA\Response(response: 401, description: 'Unauthorized'),
+            new OA\Response(response: 403, description: 'Forbidden'),
+            new OA\Response(response: 404, description: 'Preset not found'),
+        ]
+    )]
+    public function updatePreset(Request $request, int $presetId): Response
+    {
+        $admin = $request->get('user');
+        $data = json_decode($request->getContent(), true);
+
+        if ($data === null) {
+            return ApiResponse::error('Invalid JSON', 'INVALID_JSON', 400);
+        }
+
+        $preset = Preset::getById($presetId);
+        if (!$preset) {
+            return ApiResponse::error('Preset not found', 'PRESET_NOT_FOUND', 404);
+        }
+
+        if (array_key_exists('name', $data) && (!is_string($data['name']) || trim($data['name']) === '')) {
+            return ApiResponse::error('Preset name cannot be empty', 'MISSING_NAME', 400);
+        }
+
+        $parsed = $this->parsePresetData($data);
+        if (isset($parsed['error'])) {
+            return ApiResponse::error($parsed['error'], $parsed['error_code'], 400);
+        }
+
+        if (empty($parsed['data']) && $parsed['group_ids'] === null) {
+            return ApiResponse::error('No fields to update', 'NO_FIELDS', 400);
+        }
+
+        if (!empty($parsed['data']) && !Preset::update($presetId, $parsed['data'])) {
+            return ApiResponse::error('Failed to update preset. Name may already exist.', 'UPDATE_FAILED', 400);
+        }
+
+        if ($parsed['group_ids'] !== null && !PresetGroup::setGroupsForPreset($presetId, $parsed['group_ids'])) {
+            return ApiResponse::error('Failed to update preset groups', 'UPDATE_FAILED', 400);
+        }
+
+        Activity::createActivity([
+            'user_uuid' => $admin['uuid'] ?? null,
+            'name' => 'billingresourcesnewservers_update_preset',
+            'context' => 'Updated preset ID ' . $presetId,
+            'ip_address' => CloudFlareRealIP::getRealIP(),
+        ]);
+
+        $updatedPreset = Preset::getById($presetId);
+
+        return ApiResponse::success($this->formatPreset($updatedPreset ?? [], PresetGroup::getGroupIdsByPresetId($presetId)), 'Preset updated successfully', 200);
+    }
+
+    #[OA\Delete(
+        path: '/api/admin/billingresourcesnewservers/presets/{presetId}',
+        summary: 'Delete a preset',
+        description: 'Delete a server preset',
+        tags: ['Admin - Billing Resources New Servers - Presets'],
+        parameters: [
+            new OA\Parameter(name: 'presetId', description: 'ID of the preset', in: 'path', required: true, schema: new OA\Schema(type: 'integer')),
+        ],
+        responses: [
+            new OA\Response(response: 200, description: 'Preset deleted successfully'),
+            new OA\Response(response: 401, description: 'Unauthorized'),
+            new OA\Response(response: 403, description: 'Forbidden'),
+            new OA\Response(response: 404, description: 'Preset not found'),
+        ]
+    )]
+    public function deletePreset(Request $request, int $presetId): Response
+    {
+        $admin = $request->get('user');
+
+        $preset = Preset::getById($presetId);
+        if (!$preset) {
+            return ApiResponse::error('Preset not found', 'PRESET_NOT_FOUND', 404);
+        }
+
+        if (!Preset::delete($presetId)) {
+            return ApiResponse::error('Failed to delete preset', 'DELETE_FAILED', 400);
+        }
+
+        Activity::createActivity([
+            'user_uuid' => $admin['uuid'] ?? null,
+            'name' => 'billingresourcesnewservers_delete_preset',
+            'context' => 'Deleted preset: ' . $preset['name'],
+            'ip_address' => CloudFlareRealIP::getRealIP(),
+        ]);
+
+        return ApiResponse::success(null, 'Preset deleted successfully', 200);
+    }
+
+    /**
+     * Validate and normalize a preset payload.
+     *
+     * @param array<string,mixed> $data Request body
+     *
+     * @return array{data: array<string,mixed>, group_ids: array<int>|null, error?: string, error_code?: string}
+     */
+    private function parsePresetData(array $data): array
+    {
+        $result = [];
+
+        if (isset($data['name'])) {
+            $result['name'] = trim((string) $data['name']);
+        }
+        if (array_key_exists('description', $data)) {
+            $result['description'] = $data['description'] !== null && trim((string) $data['description']) !== ''
+                ? (string) $data['description']
+                : null;
+        }
+
+        foreach (self::RESOURCE_FIELDS as $field) {
+            if (!array_key_exists($field, $data)) {
+                continue;
+            }
+            if (!is_numeric($data[$field]) || (int) $data[$field] < 0) {
+                return ['data' => [], 'group_ids' => null, 'error' => $field . ' must be a non-negative integer', 'error_code' => 'INVALID_TYPE'];
+            }
+            $result[$field] = (int) $data[$field];
+        }
+
+        foreach (['realm_id', 'spell_id'] as $field) {
+            if (!array_key_exists($field, $data)) {
+                continue;
+            }
+            if ($data[$field] === null || $data[$field] === '' || (int) $data[$field] === 0) {
+                $result[$field] = null;
+                continue;
+            }
+            if (!is_numeric($data[$field])) {
+                return ['data' => [], 'group_ids' => null, 'error' => $field . ' must be an integer or null', 'error_code' => 'INVALID_TYPE'];
+            }
+            $result[$field] = (int) $data[$field];
+        }
+
+        if (array_key_exists('image', $data)) {
+            $result['image'] = is_string($data['image']) && trim($data['image']) !== '' ? trim($data['image']) : null;
+        }
+
+        if (array_key_exists('variables', $data)) {
+            if ($data['variables'] !== null && !is_array($data['variables'])) {
+                return ['data' => [], 'group_ids' => null, 'error' => 'variables must be an object of env_variable => value', 'error_code' => 'INVALID_TYPE'];
+            }
+            $variables = ServerCreationHelper::decodePresetVariables($data['variables']);
+            $result['variables'] = empty($variables) ? null : json_encode($variables);
+        }
+
+        if (array_key_exists('enabled', $data)) {
+            if (!is_bool($data['enabled'])) {
+                return ['data' => [], 'group_ids' => null, 'error' => 'enabled must be a boolean', 'error_code' => 'INVALID_TYPE'];
+            }
+            $result['enabled'] = $data['enabled'] ? 'true' : 'false';
+        }
+
+        $groupIds = null;
+        if (array_key_exists('group_ids', $data)) {
+            if (!is_array($data['group_ids'])) {
+                return ['data' => [], 'group_ids' => null, 'error' => 'group_ids must be an array', 'error_code' => 'INVALID_TYPE'];
+            }
+            $groupIds = [];
+            foreach ($data['group_ids'] as $groupId) {
+                if (!is_numeric($groupId) || !Group::getById((int) $groupId)) {
+                    return ['data' => [], 'group_ids' => null, 'error' => 'Group not found: ' . $groupId, 'error_code' => 'GROUP_NOT_FOUND'];
+                }
+                $groupIds[] = (int) $groupId;
+            }
+        }
+
+        return ['data' => $result, 'group_ids' => $groupIds];
+    }
+
+    /**
+     * Shape a preset row for API responses.
+     *
+     * @param array<string,mixed> $preset Preset record
+     * @param array<int> $groupIds Group restrictions
+     *
+     * @return array<string,mixed> Preset with decoded variables, boolean enabled and group_ids
+     */
+    private function formatPreset(array $preset, array $groupIds): array
+    {
+        $preset['variables'] = ServerCreationHelper::decodePresetVariables($preset['variables'] ?? null);
+        $preset['enabled'] = ($preset['enabled'] ?? 'true') === 'true';
+        $preset['group_ids'] = $groupIds;
+
+        return $preset;
+    }
+}
@@ -66,6 +66,7 @@ class ResourcePermissionsController
                     new OA\Property(property: 'resource_id', type: 'integer', description: 'ID of the resource'),
                     new OA\Property(property: 'permission_mode', type: 'string', enum: ['open', 'restricted'], description: 'Permission mode'),
                     new OA\Property(property: 'default_error_message', type: 'string', nullable: true, description: 'Default error message'),
+                    new OA\Property(property: 'requires_approval', type: 'boolean', nullable: true, description: 'Whether free servers on the resource need an admin\'s approval (omitted = keep the current setting)'),
                 ]
             )
         ),
@@ -89,6 +90,7 @@ class ResourcePermissionsController
         $resourceId = $data['resource_id'] ?? null;
         $permissionMode = $data['permission_mode'] ?? null;
         $defaultErrorMessage = $data['default_error_message'] ?? null;
+        $requiresApproval = isset($data['requires_approval']) ? (bool) $data['requires_approval'] : null;
 
         if (!in_array($resourceType, ['location', 'node', 'realm', 'spell'], true)) {
             return ApiResponse::error('Invalid resource_type', 'INVALID_RESOURCE_TYPE', 400);
@@ -102,7 +104,7 @@ class ResourcePermissionsController
             return ApiResponse::error('permission_mode must be "open" or "restricted"', 'INVALID_PERMISSION_MODE', 400);
         }
 
-        $success = ResourcePermission::setPermissionMode($resourceType, (int) $resourceId, $permissionMode, $defaultErrorMessage);
+        $success = ResourcePermission::setPermissionMode($resourceType, (int) $resourceId, $permissionMode, $defaultErrorMessage, $requiresApproval);
 
         if (!$success) {
             return ApiResponse::error('Failed to set permission', 'SET_FAILED', 400);
@@ -111,7 +113,7 @@ class ResourcePermissionsController
         Activity::createActivity([
             'user_uuid' => $admin['uuid'] ?? null,
             'name' => 'billingresourcesnewservers_set_resource_permission',
-            'context' => 'Set ' . $resourceType . ' ' . $resourceId . ' to ' . $permissionMode,
+            'context' => 'Set ' . $resourceType . ' ' . $resourceId . ' to ' . $permissionMode . ($requiresApproval === null ? '' : ($requiresApproval ? ' (requires approval)' : ' (no approval)')),
             'ip_address' => CloudFlareRealIP::getRealIP(),
         ]);
 
@@ -137,6 +139,7 @@ class ResourcePermissionsController
                                 new OA\Property(property: 'resource_id', type: 'integer'),
                                 new OA\Property(property: 'permission_mode', type: 'string', enum: ['open', 'restricted']),
                                 new OA\Property(property: 'default_error_message', type: 'string', nullable: true),
+                                new OA\Property(property: 'requires_approval', type: 'boolean', nullable: true),
                             ]
                         )
                     ),
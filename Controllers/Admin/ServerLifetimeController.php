@@ -0,0 +1,51 @@
+<?php
+
+/*
+ * This file is part of FeatherPanel.
+ *
+ * Copyright (C) 2025 MythicalSystems Studios
+ * Copyright (C) 2025 FeatherPanel Contributors
+ * Copyright (C) 2025 Cassian Gherman (aka NaysKutzu)
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * See the LICENSE file or <https://www.gnu.org/licenses/>.
+ */
+
+namespace App\Addons\billingresourcesnewservers\Controllers\Admin;
+
+use App\App;
+use App\Helpers\ApiResponse;
+use OpenApi\Attributes as OA;
+use Symfony\Component\HttpFoundation\Request;
+use Symfony\Component\HttpFoundation\Response;
+use App\Addons\billingresourcesnewservers\Helpers\ServerLifetimeHelper;
+
+#[OA\Tag(name: 'Admin - Billing Resources New Servers - Server Lifetime', description: 'Reclamation of expired and inactive servers')]
+class ServerLifetimeController
+{
+    #[OA\Post(
+        path: '/api/admin/billingresourcesnewservers/servers/reclaim',
+        summary: 'Run server reclamation now',
+        description: 'Warn, suspend or delete a full batch of the least recently checked servers whose lifetime ran out or that had no activity for too long. Owners are mailed when their server is warned and when it is suspended.',
+        tags: ['Admin - Billing Resources New Servers - Server Lifetime'],
+        responses: [
+            new OA\Response(response: 200, description: 'Reclamation processed'),
+            new OA\Response(response: 401, description: 'Unauthorized'),
+            new OA\Response(response: 403, description: 'Forbidden'),
+        ]
+    )]
+    public function processReclamation(Request $request): Response
+    {
+        try {
+            return ApiResponse::success(['processed' => ServerLifetimeHelper::process()], 'Reclamation processed', 200);
+        } catch (\Exception $e) {
+            App::getInstance(true)->getLogger()->error('Failed to process reclamation: ' . $e->getMessage());
+
+            return ApiResponse::error('Failed to process reclamation: ' . $e->getMessage(), 'PROCESS_RECLAMATION_FAILED', 500);
+        }
+    }
+}
@@ -23,7 +23,12 @@ use OpenApi\Attributes as OA;
 use App\CloudFlare\CloudFlareRealIP;
 use Symfony\Component\HttpFoundation\Request;
 use Symfony\Component\HttpFoundation\Response;
+use App\Addons\billingresourcesnewservers\Helpers\DiscordHelper;
 use App\Addons\billingresourcesnewservers\Helpers\SettingsHelper;
+use App\Addons\billingresourcesnewservers\Helpers\WaitlistHelper;
+use App\Addons\billingresourcesnewservers\Helpers\AbuseCheckHelper;
+use App\Addons\billingresourcesnewservers\Helpers\ServerNameHelper;
+use App\Addons\billingresourcesnewservers\Helpers\ServerLifetimeHelper;
 
 #[OA\Tag(name: 'Admin - Billing Resources New Servers', description: 'Settings management for user server creation')]
 class SettingsController
@@ -57,6 +62,9 @@ class SettingsController
                 properties: [
                     new OA\Property(property: 'user_creation_enabled', type: 'boolean', description: 'Enable/disable user server creation'),
                     new OA\Property(property: 'require_discord_link', type: 'boolean', description: 'Require linked Discord account for free-tier (freemium) server creation'),
+                    new OA\Property(property: 'discord_webhook_url', type: 'string', nullable: true, description: 'Discord webhook that is told about every created server (write-only: empty keeps the stored one, null turns announcements off)'),
+                    new OA\Property(property: 'discord_guild_id', type: 'string', description: 'Discord guild whose roles can be used in group membership rules'),
+                    new OA\Property(property: 'discord_bot_token', type: 'string', description: 'Bot token used to read guild roles (write-only, empty clears it)'),
                     new OA\Property(
                         property: 'allowed_locations',
                         type: 'array',
@@ -89,6 +97,42 @@ class SettingsController
                         type: 'object',
                         description: 'Per-field mode: user (editable), fixed (forced value, shown read-only), hidden (forced value, not shown). Keys: memory, cpu, disk, swap, io, database_limit, allocation_limit, backup_limit'
                     ),
+                    new OA\Property(
+                        property: 'node_placement_profiles',
+                        type: 'object',
+                        description: 'Node ID => {weight (0-100, 0 = never auto-picked), tags (list of tags a placement policy can require)}'
+                    ),
+                    new OA\Property(
+                        property: 'node_resource_bounds',
+                        type: 'object',
+                        description: 'Node ID => {memory, cpu, disk, swap} => {min, max} (null = no bound); combined with the location bounds and global minimums'
+                    ),
+                    new OA\Property(
+                        property: 'location_resource_bounds',
+                        type: 'object',
+                        description: 'Location ID => {memory, cpu, disk, swap} => {min, max} (null = no bound); applies to every node of the location'
+                    ),
+                    new OA\Property(
+                        property: 'placement_score_weights',
+                        type: 'object',
+                        description: 'Weights of the node load score: server_pressure, memory_usage, disk_usage (added) and free_allocations (subtracted); non-negative numbers'
+                    ),
+                    new OA\Property(property: 'allocation_mode', type: 'string', enum: ['random', 'user', 'port_range'], description: 'How the primary allocation is chosen: random, picked by the user, or preferring a port range', example: 'random'),
+                    new OA\Property(property: 'allocation_port_range_start', type: 'integer', description: 'First preferred port for the port_range mode', example: 25565),
+                    new OA\Property(property: 'allocation_port_range_end', type: 'integer', description: 'Last preferred port for the port_range mode', example: 25600),
+                    new OA\Property(property: 'rate_limit_max_creations', type: 'integer', description: 'Creations allowed per user within the rolling window (0 = no limit)', example: 3),
+                    new OA\Property(property: 'rate_limit_window_minutes', type: 'integer', description: 'Length of the rolling window in minutes', example: 60),
+                    new OA\Property(property: 'creation_cooldown_seconds', type: 'integer', description: 'Minimum wait between two creations (0 = none)', example: 300),
+                    new OA\Property(property: 'deletion_cooldown_seconds', type: 'integer', description: 'Wait after the user deletes a server created here from My Servers before creating another (0 = none)', example: 0),
+                    new OA\Property(property: 'lifetime_days', type: 'integer', description: 'Days a server created here lives before it must be renewed (0 = forever)', example: 30),
+                    new OA\Property(property: 'inactivity_days', type: 'integer', description: 'Days a server may go without activity (nothing in its activity log, not seen running) before it is reclaimed (0 = never)', example: 14),
+                    new OA\Property(property: 'reclaim_warning_days', type: 'integer', description: 'Notice given before an expired server is suspended', example: 3),
+                    new OA\Property(property: 'reclaim_deletion_days', type: 'integer', description: 'Days a suspended server is kept before it is deleted', example: 7),
+                    new OA\Property(property: 'naming_policy', type: 'object', description: 'Server naming policy: min_length, max_length, charset (any|alphanumeric|slug), extra_characters, banned_words, unique_per_user, template, description_max_length'),
+                    new OA\Property(property: 'abuse_checks', type: 'object', description: 'Anti-abuse checks: min_account_age_days, require_verified_email, max_servers_per_ip, blocked_users (usernames or emails), blocked_ip_ranges (IPs or CIDR ranges)'),
+                    new OA\Property(property: 'waitlist_enabled', type: 'boolean', description: 'Let users join a waitlist when every eligible node is full'),
+                    new OA\Property(property: 'waitlist_mode', type: 'string', enum: ['auto', 'confirm'], description: 'Create the server as soon as capacity frees up, or hold the slot until the user confirms', example: 'confirm'),
+                    new OA\Property(property: 'waitlist_offer_minutes', type: 'integer', description: 'How long a held slot waits for confirmation before it moves on', example: 60),
                     new OA\Property(property: 'user_restriction_mode', type: 'string', enum: ['all', 'specific'], description: 'User restriction mode: "all" for all users, "specific" for specific users only', example: 'all'),
                     new OA\Property(
                         property: 'allowed_users',
@@ -143,6 +187,32 @@ class SettingsController
             SettingsHelper::setDiscordLinkRequired($required);
         }
 
+        // Discord notifications and guild role sync
+        // Anyone holding the webhook URL can post to the channel, so it is write-only like the bot token: "" keeps it, null clears it
+        if (array_key_exists('discord_webhook_url', $data)) {
+            $url = trim((string) $data['discord_webhook_url']);
+            if ($data['discord_webhook_url'] === null) {
+                SettingsHelper::setDiscordWebhookUrl('');
+            } elseif ($url !== '') {
+                if (!DiscordHelper::isWebhookUrl($url)) {
+                    return ApiResponse::error('discord_webhook_url must be a https://discord.com/api/webhooks/... URL', 'INVALID_DISCORD_WEBHOOK_URL', 400);
+                }
+                SettingsHelper::setDiscordWebhookUrl($url);
+            }
+        }
+
+        if (isset($data['discord_guild_id'])) {
+            $guildId = trim((string) $data['discord_guild_id']);
+            if ($guildId !== '' && !DiscordHelper::isSnowflake($guildId)) {
+                return ApiResponse::error('discord_guild_id must be a Discord server ID', 'INVALID_DISCORD_GUILD_ID', 400);
+            }
+            SettingsHelper::setDiscordGuildId($guildId);
+        }
+
+        if (isset($data['discord_bot_token'])) {
+            SettingsHelper::setDiscordBotToken((string) $data['discord_bot_token']);
+        }
+
         // Update allowed locations
         if (isset($data['allowed_locations'])) {
             if (!is_array($data['allowed_locations'])) {
@@ -218,6 +288,135 @@ class SettingsController
             SettingsHelper::setNodeServerCaps($data['node_server_caps']);
         }
 
+        // Node weights and tags used by the auto placement strategies
+        if (isset($data['node_placement_profiles'])) {
+            if (!is_array($data['node_placement_profiles'])) {
+                return ApiResponse::error('node_placement_profiles must be an object', 'INVALID_TYPE', 400);
+            }
+            SettingsHelper::setNodePlacementProfiles($data['node_placement_profiles']);
+        }
+
+        // Per-node and per-location resource bounds
+        foreach (['node_resource_bounds', 'location_resource_bounds'] as $key) {
+            if (!isset($data[$key])) {
+                continue;
+            }
+            if (!is_array($data[$key])) {
+                return ApiResponse::error($key . ' must be an object', 'INVALID_TYPE', 400);
+            }
+            foreach (SettingsHelper::normalizeResourceBounds($data[$key]) as $id => $bounds) {
+                foreach ($bounds as $resource => $bound) {
+                    if ($bound['min'] !== null && $bound['max'] !== null && $bound['min'] > $bound['max']) {
+                        return ApiResponse::error($key . '.' . $id . '.' . $resource . ': min must not be greater than max', 'INVALID_RESOURCE_BOUNDS', 400);
+                    }
+                }
+            }
+        }
+        if (isset($data['node_resource_bounds'])) {
+            SettingsHelper::setNodeResourceBounds($data['node_resource_bounds']);
+        }
+        if (isset($data['location_resource_bounds'])) {
+            SettingsHelper::setLocationResourceBounds($data['location_resource_bounds']);
+        }
+
+        if (isset($data['placement_score_weights'])) {
+            if (!is_array($data['placement_score_weights'])) {
+                return ApiResponse::error('placement_score_weights must be an object', 'INVALID_TYPE', 400);
+            }
+            foreach ($data['placement_score_weights'] as $key => $weight) {
+                if (!array_key_exists($key, SettingsHelper::DEFAULT_PLACEMENT_SCORE_WEIGHTS) || !is_numeric($weight) || (float) $weight < 0) {
+                    return ApiResponse::error('placement_score_weights.' . $key . ' must be a known weight of 0 or greater', 'INVALID_PLACEMENT_SCORE_WEIGHTS', 400);
+                }
+            }
+            SettingsHelper::setPlacementScoreWeights($data['placement_score_weights']);
+        }
+
+        // Allocation selection mode
+        if (isset($data['allocation_mode'])) {
+            if (!in_array($data['allocation_mode'], SettingsHelper::ALLOCATION_MODES, true)) {
+                return ApiResponse::error('allocation_mode must be "random", "user" or "port_range"', 'INVALID_ALLOCATION_MODE', 400);
+            }
+            SettingsHelper::setAllocationMode($data['allocation_mode']);
+        }
+
+        if (isset($data['allocation_port_range_start']) || isset($data['allocation_port_range_end'])) {
+            $currentRange = SettingsHelper::getAllocationPortRange();
+            $start = $data['allocation_port_range_start'] ?? $currentRange['start'];
+            $end = $data['allocation_port_range_end'] ?? $currentRange['end'];
+            if (!is_numeric($start) || !is_numeric($end) || (int) $start < 0 || (int) $end < 0 || (int) $start > 65535 || (int) $end > 65535) {
+                return ApiResponse::error('allocation port range must be between 0 and 65535', 'INVALID_ALLOCATION_PORT_RANGE', 400);
+            }
+            SettingsHelper::setAllocationPortRange((int) $start, (int) $end);
+        }
+
+        // Creation rate limits and cooldowns
+        $rateLimits = [];
+        foreach (['rate_limit_max_creations', 'rate_limit_window_minutes', 'creation_cooldown_seconds', 'deletion_cooldown_seconds'] as $key) {
+            if (!isset($data[$key])) {
+                continue;
+            }
+            $minimum = $key === 'rate_limit_window_minutes' ? 1 : 0;
+            if (!is_numeric($data[$key]) || (int) $data[$key] < $minimum) {
+                return ApiResponse::error($key . ' must be ' . $minimum . ' or greater', 'INVALID_RATE_LIMIT', 400);
+            }
+            $rateLimits[$key] = (int) $data[$key];
+        }
+        if (!empty($rateLimits)) {
+            SettingsHelper::setCreationRateLimits($rateLimits);
+        }
+
+        // Server lifetime and inactivity reclamation
+        $lifetimeSettings = [];
+        foreach (ServerLifetimeHelper::SETTING_KEYS as $key) {
+            if (!isset($data[$key])) {
+                continue;
+            }
+            if (!is_numeric($data[$key]) || (int) $data[$key] < 0) {
+                return ApiResponse::error($key . ' must be 0 or greater', 'INVALID_SERVER_LIFETIME', 400);
+            }
+            $lifetimeSettings[$key] = (int) $data[$key];
+        }
+        if (!empty($lifetimeSettings)) {
+            SettingsHelper::setServerLifetimeSettings($lifetimeSettings);
+        }
+
+        // Server naming policy
+        if (array_key_exists('naming_policy', $data)) {
+            $namingPolicy = ServerNameHelper::parsePolicyInput($data['naming_policy']);
+            if ($namingPolicy['error'] !== null) {
+                return ApiResponse::error($namingPolicy['error'], 'INVALID_NAMING_POLICY', 400);
+            }
+            SettingsHelper::setNamingPolicy($namingPolicy['policy']);
+        }
+
+        // Anti-abuse checks
+        if (array_key_exists('abuse_checks', $data)) {
+            $abuseChecks = AbuseCheckHelper::parsePolicyInput($data['abuse_checks']);
+            if ($abuseChecks['error'] !== null) {
+                return ApiResponse::error($abuseChecks['error'], 'INVALID_ABUSE_CHECKS', 400);
+            }
+            SettingsHelper::setAbuseCheckPolicy($abuseChecks['policy']);
+        }
+
+        // Waitlist for users when every eligible node is full
+        if (isset($data['waitlist_enabled'])) {
+            SettingsHelper::setWaitlistEnabled(filter_var($data['waitlist_enabled'], FILTER_VALIDATE_BOOLEAN));
+        }
+
+        if (isset($data['waitlist_mode'])) {
+            if (!in_array($data['waitlist_mode'], SettingsHelper::WAITLIST_MODES, true)) {
+                return ApiResponse::error('waitlist_mode must be "auto" or "confirm"', 'INVALID_WAITLIST_MODE', 400);
+            }
+            SettingsHelper::setWaitlistMode($data['waitlist_mode']);
+        }
+
+        if (isset($data['waitlist_offer_minutes'])) {
+            if (!is_numeric($data['waitlist_offer_minutes']) || (int) $data['waitlist_offer_minutes'] < 1) {
+                return ApiResponse::error('waitlist_offer_minutes must be 1 or greater', 'INVALID_WAITLIST_OFFER_MINUTES', 400);
+            }
+            SettingsHelper::setWaitlistOfferMinutes((int) $data['waitlist_offer_minutes']);
+        }
+
         // Update user restriction mode
         if (isset($data['user_restriction_mode'])) {
             if (!in_array($data['user_restriction_mode'], ['all', 'specific'], true)) {
@@ -252,6 +451,11 @@ class SettingsController
             }
         }
 
+        // Raised caps free up slots for the waitlist
+        if (isset($data['max_servers_per_node']) || isset($data['node_server_caps'])) {
+            WaitlistHelper::process();
+        }
+
         // Log activity
         Activity::createActivity([
             'user_uuid' => $admin['uuid'] ?? null,
@@ -0,0 +1,221 @@
+<?php
+
+/*
+ * This file is part of FeatherPanel.
+ *
+ * Copyright (C) 2025 MythicalSystems Studios
+ * Copyright (C) 2025 FeatherPanel Contributors
+ * Copyright (C) 2025 Cassian Gherman (aka NaysKutzu)
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * See the LICENSE file or <https://www.gnu.org/licenses/>.
+ */
+
+namespace App\Addons\billingresourcesnewservers\Controllers\Admin;
+
+use App\Chat\Realm;
+use App\Chat\Spell;
+use App\Chat\Activity;
+use App\Helpers\ApiResponse;
+use OpenApi\Attributes as OA;
+use App\CloudFlare\CloudFlareRealIP;
+use Symfony\Component\HttpFoundation\Request;
+use Symfony\Component\HttpFoundation\Response;
+use App\Addons\billingresourcesnewservers\Chat\SpellRequirement;
+
+#[OA\Tag(name: 'Admin - Billing Resources New Servers - Spell Requirements', description: 'Manage per-spell and per-realm resource requirements and image allow-lists')]
+class SpellRequirementsController
+{
+    #[OA\Get(
+        path: '/api/admin/billingresourcesnewservers/spell-requirements',
+        summary: 'Get spell requirements',
+        description: 'Get the minimum/recommended resources and image allow-lists of every realm and spell that has any',
+        tags: ['Admin - Billing Resources New Servers - Spell Requirements'],
+        responses: [
+            new OA\Response(response: 200, description: 'Requirements retrieved successfully'),
+            new OA\Response(response: 401, description: 'Unauthorized'),
+            new OA\Response(response: 403, description: 'Forbidden'),
+        ]
+    )]
+    public function getRequirements(Request $request): Response
+    {
+        $requirements = array_map(fn (array $row) => $this->formatRequirement($row), SpellRequirement::getAll());
+
+        return ApiResponse::success(['requirements' => $requirements], 'Requirements retrieved successfully', 200);
+    }
+
+    #[OA\Post(
+        path: '/api/admin/billingresourcesnewservers/spell-requirements',
+        summary: 'Set spell requirements',
+        description: 'Set the minimum/recommended resources of a realm or spell and the image allow-list of a spell. Clearing every value removes the entry.',
+        tags: ['Admin - Billing Resources New Servers - Spell Requirements'],
+        requestBody: new OA\RequestBody(
+            required: true,
+            content: new OA\JsonContent(
+                properties: [
+                    new OA\Property(property: 'resource_type', type: 'string', enum: ['realm', 'spell'], description: 'Realm requirements apply to every spell of the realm that does not set its own'),
+                    new OA\Property(property: 'resource_id', type: 'integer', description: 'ID of the realm or spell'),
+                    new OA\Property(property: 'min_memory', type: 'integer', nullable: true, description: 'Minimum memory in MB'),
+                    new OA\Property(property: 'min_cpu', type: 'integer', nullable: true, description: 'Minimum CPU limit in %'),
+                    new OA\Property(property: 'min_disk', type: 'integer', nullable: true, description: 'Minimum disk in MB'),
+                    new OA\Property(property: 'recommended_memory', type: 'integer', nullable: true, description: 'Recommended memory in MB (prefilled on the create form)'),
+                    new OA\Property(property: 'recommended_cpu', type: 'integer', nullable: true, description: 'Recommended CPU limit in %'),
+                    new OA\Property(property: 'recommended_disk', type: 'integer', nullable: true, description: 'Recommended disk in MB'),
+                    new OA\Property(property: 'docker_images', type: 'array', items: new OA\Items(type: 'string'), nullable: true, description: 'Allowed docker images (spells only, null or empty = every image of the spell)'),
+                ]
+            )
+        ),
+        responses: [
+            new OA\Response(response: 200, description: 'Requirements saved successfully'),
+            new OA\Response(response: 400, description: 'Invalid input'),
+            new OA\Response(response: 401, description: 'Unauthorized'),
+            new OA\Response(response: 403, description: 'Forbidden'),
+            new OA\Response(response: 404, description: 'Realm or spell not found'),
+        ]
+    )]
+    public function setRequirements(Request $request): Response
+    {
+        $admin = $request->get('user');
+        $data = json_decode($request->getContent(), true);
+
+        if ($data === null) {
+            return ApiResponse::error('Invalid JSON', 'INVALID_JSON', 400);
+        }
+
+        $resourceType = $data['resource_type'] ?? null;
+        $resourceId = $data['resource_id'] ?? null;
+
+        if (!in_array($resourceType, ['realm', 'spell'], true)) {
+            return ApiResponse::error('resource_type must be "realm" or "spell"', 'INVALID_RESOURCE_TYPE', 400);
+        }
+
+        if (!is_numeric($resourceId) || (int) $resourceId <= 0) {
+            return ApiResponse::error('Invalid resource_id', 'INVALID_RESOURCE_ID', 400);
+        }
+        $resourceId = (int) $resourceId;
+
+        $exists = $resourceType === 'spell' ? Spell::getSpellById($resourceId) : Realm::getById($resourceId);
+        if (!$exists) {
+            return ApiResponse::error(ucfirst($resourceType) . ' not found', strtoupper($resourceType) . '_NOT_FOUND', 404);
+        }
+
+        $values = [];
+        foreach (SpellRequirement::FIELDS as $field) {
+            $value = $data[$field] ?? null;
+            if ($value === null || $value === '') {
+                $values[$field] = null;
+                continue;
+            }
+            if (!is_numeric($value) || (int) $value < 0) {
+                return ApiResponse::error($field . ' must be a non-negative integer or null', 'INVALID_REQUIREMENT', 400);
+            }
+            $values[$field] = (int) $value;
+        }
+
+        foreach (['memory', 'cpu', 'disk'] as $resource) {
+            $minimum = $values['min_' . $resource];
+            $recommended = $values['recommended_' . $resource];
+            if ($minimum !== null && $recommended !== null && $recommended < $minimum) {
+                return ApiResponse::error('recommended_' . $resource . ' cannot be lower than min_' . $resource, 'INVALID_REQUIREMENT', 400);
+            }
+        }
+
+        $dockerImages = $data['docker_images'] ?? null;
+        if ($dockerImages !== null) {
+            if ($resourceType !== 'spell') {
+                return ApiResponse::error('docker_images can only be set for spells', 'INVALID_DOCKER_IMAGES', 400);
+            }
+            if (!is_array($dockerImages)) {
+                return ApiResponse::error('docker_images must be an array of image names', 'INVALID_DOCKER_IMAGES', 400);
+            }
+            foreach ($dockerImages as $image) {
+                if (!is_string($image) || trim($image) === '') {
+                    return ApiResponse::error('docker_images must be an array of image names', 'INVALID_DOCKER_IMAGES', 400);
+                }
+            }
+            $dockerImages = array_values(array_unique(array_map('trim', $dockerImages)));
+            if (empty($dockerImages)) {
+                $dockerImages = null;
+            }
+        }
+
+        // Nothing left to enforce: drop the entry so the realm or global minimums apply again
+        if ($dockerImages === null && empty(array_filter($values, fn ($value) => $value !== null))) {
+            SpellRequirement::delete($resourceType, $resourceId);
+            $requirement = null;
+        } else {
+            if (!SpellRequirement::set($resourceType, $resourceId, $values, $dockerImages)) {
+                return ApiResponse::error('Failed to save requirements', 'SET_FAILED', 400);
+            }
+            $requirement = $this->formatRequirement(SpellRequirement::getByResource($resourceType, $resourceId) ?? []);
+        }
+
+        Activity::createActivity([
+            'user_uuid' => $admin['uuid'] ?? null,
+            'name' => 'billingresourcesnewservers_set_spell_requirements',
+            'context' => ($requirement === null ? 'Cleared' : 'Set') . ' requirements of ' . $resourceType . ' ' . $resourceId,
+            'ip_address' => CloudFlareRealIP::getRealIP(),
+        ]);
+
+        return ApiResponse::success(['requirement' => $requirement], 'Requirements saved successfully', 200);
+    }
+
+    #[OA\Delete(
+        path: '/api/admin/billingresourcesnewservers/spell-requirements/{resourceType}/{resourceId}',
+        summary: 'Delete spell requirements',
+        description: 'Remove the requirements of a realm or spell (falls back to the realm, then to the global minimums)',
+        tags: ['Admin - Billing Resources New Servers - Spell Requirements'],
+        parameters: [
+            new OA\Parameter(name: 'resourceType', description: 'Type of resource', in: 'path', required: true, schema: new OA\Schema(type: 'string', enum: ['realm', 'spell'])),
+            new OA\Parameter(name: 'resourceId', description: 'ID of the resource', in: 'path', required: true, schema: new OA\Schema(type: 'integer')),
+        ],
+        responses: [
+            new OA\Response(response: 200, description: 'Requirements deleted successfully'),
+            new OA\Response(response: 401, description: 'Unauthorized'),
+            new OA\Response(response: 403, description: 'Forbidden'),
+        ]
+    )]
+    public function deleteRequirements(Request $request, string $resourceType, int $resourceId): Response
+    {
+        $admin = $request->get('user');
+
+        if (!SpellRequirement::delete($resourceType, $resourceId)) {
+            return ApiResponse::error('Failed to delete requirements', 'DELETE_FAILED', 400);
+        }
+
+        Activity::createActivity([
+            'user_uuid' => $admin['uuid'] ?? null,
+            'name' => 'billingresourcesnewservers_delete_spell_requirements',
+            'context' => 'Deleted requirements of ' . $resourceType . ' ' . $resourceId,
+            'ip_address' => CloudFlareRealIP::getRealIP(),
+        ]);
+
+        return ApiResponse::success(null, 'Requirements deleted successfully', 200);
+    }
+
+    /**
+     * Cast a requirement record for the API.
+     *
+     * @param array<string,mixed> $row Requirement record
+     *
+     * @return array<string,mixed>
+     */
+    private function formatRequirement(array $row): array
+    {
+        $formatted = [
+            'resource_type' => $row['resource_type'] ?? null,
+            'resource_id' => (int) ($row['resource_id'] ?? 0),
+        ];
+        foreach (SpellRequirement::FIELDS as $field) {
+            $formatted[$field] = isset($row[$field]) ? (int) $row[$field] : null;
+        }
+        $images = isset($row['docker_images']) ? json_decode((string) $row['docker_images'], true) : null;
+        $formatted['docker_images'] = is_array($images) ? array_values($images) : null;
+
+        return $formatted;
+    }
+}
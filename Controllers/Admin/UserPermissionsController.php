@@ -17,6 +17,7 @@
 
 namespace App\Addons\billingresourcesnewservers\Controllers\Admin;
 
+use App\App;
 use App\Chat\Node;
 use App\Chat\User;
 use App\Chat\Realm;
@@ -28,11 +29,77 @@ use OpenApi\Attributes as OA;
 use App\CloudFlare\CloudFlareRealIP;
 use Symfony\Component\HttpFoundation\Request;
 use Symfony\Component\HttpFoundation\Response;
+use App\Addons\billingresourcesnewservers\Chat\Group;
+use App\Addons\billingresourcesnewservers\Chat\UserQuota;
+use App\Addons\billingresourcesnewservers\Helpers\QuotaHelper;
+use App\Addons\billingresourcesnewservers\Helpers\LookupHelper;
 use App\Addons\billingresourcesnewservers\Chat\UserPermission;
+use App\Addons\billingresourcesnewservers\Helpers\SettingsHelper;
+use App\Addons\billingresourcesnewservers\Helpers\ServerCreationHelper;
+use App\Addons\billingresourcesnewservers\Helpers\PermissionRuleHelper;
+use App\Addons\billingresourcesnewservers\Helpers\MembershipRuleHelper;
+use App\Addons\billingresourcesnewservers\Controllers\User\ServerCreationController;
 
 #[OA\Tag(name: 'Admin - Billing Resources New Servers', description: 'User permissions management for server creation')]
 class UserPermissionsController
 {
+    /** Largest page the users-with-permissions listing returns */
+    private const MAX_PER_PAGE = 100;
+
+    #[OA\Get(
+        path: '/api/admin/billingresourcesnewservers/user-permissions',
+        summary: 'List users with custom permissions',
+        description: 'Users with at least one permission entry, by username, with how many entries they have per resource type',
+        tags: ['Admin - Billing Resources New Servers'],
+        parameters: [
+            new OA\Parameter(name: 'search', description: 'Matched against username and email', in: 'query', required: false, schema: new OA\Schema(type: 'string')),
+            new OA\Parameter(name: 'page', in: 'query', required: false, schema: new OA\Schema(type: 'integer', default: 1)),
+            new OA\Parameter(name: 'per_page', in: 'query', required: false, schema: new OA\Schema(type: 'integer', default: 25, maximum: 100)),
+        ],
+        responses: [
+            new OA\Response(response: 200, description: 'Users retrieved successfully'),
+            new OA\Response(response: 401, description: 'Unauthorized'),
+            new OA\Response(response: 403, description: 'Forbidden'),
+        ]
+    )]
+    public function getUsersWithPermissions(Request $request): Response
+    {
+        $search = trim((string) $request->query->get('search', ''));
+        $page = max(1, (int) $request->query->get('page', 1));
+        $perPage = min(self::MAX_PER_PAGE, max(1, (int) $request->query->get('per_page', 25)));
+
+        try {
+            $total = UserPermission::countUsersWithPermissions($search);
+            $users = array_map(static fn (array $row): array => [
+                'id' => (int) $row['user_id'],
+                'username' => $row['username'],
+                'email' => $row['email'],
+                'permission_count' => (int) $row['permission_count'],
+                'deny_count' => (int) $row['deny_count'],
+                'counts' => [
+                    'location' => (int) $row['location_count'],
+                    'node' => (int) $row['node_count'],
+                    'realm' => (int) $row['realm_count'],
+                    'spell' => (int) $row['spell_count'],
+                ],
+            ], UserPermission::getUsersWithPermissions($search, $perPage, ($page - 1) * $perPage));
+
+            return ApiResponse::success([
+                'users' => $users,
+                'pagination' => [
+                    'page' => $page,
+                    'per_page' => $perPage,
+                    'total' => $total,
+                    'total_pages' => (int) max(1, ceil($total / $perPage)),
+                ],
+            ], 'Users retrieved successfully', 200);
+        } catch (\Exception $e) {
+            App::getInstance(true)->getLogger()->error('Failed to list users with permissions: ' . $e->getMessage());
+
+            return ApiResponse::error('Failed to list users with permissions: ' . $e->getMessage(), 'GET_USERS_FAILED', 500);
+        }
+    }
+
     #[OA\Get(
         path: '/api/admin/billingresourcesnewservers/user-permissions/{userId}',
         summary: 'Get user permissions',
@@ -76,11 +143,11 @@ class UserPermissionsController
         foreach ($permissions as $perm) {
             $type = $perm['resource_type'];
             if (isset($grouped[$type . 's'])) {
-                $grouped[$type . 's'][] = [
+                $grouped[$type . 's'][] = array_merge([
                     'id' => (int) $perm['id'],
                     'resource_id' => (int) $perm['resource_id'],
                     'custom_error_message' => $perm['custom_error_message'],
-                ];
+                ], PermissionRuleHelper::formatRule($perm));
             }
         }
 
@@ -90,14 +157,14 @@ class UserPermissionsController
                 'username' => $user['username'],
                 'email' => $user['email'],
             ],
-            'permissions' => $grouped,
+            'permissions' => LookupHelper::withResourceNames($grouped),
         ], 'User permissions retrieved successfully', 200);
     }
 
     #[OA\Post(
         path: '/api/admin/billingresourcesnewservers/user-permissions/{userId}',
         summary: 'Add user permission',
-        description: 'Add a permission for a user to access a specific resource',
+        description: 'Add (or replace) a user permission for a resource. Deny entries override grants; entries only count inside their validity window.',
         tags: ['Admin - Billing Resources New Servers'],
         parameters: [
             new OA\Parameter(name: 'userId', in: 'path', required: true, schema: new OA\Schema(type: 'integer')),
@@ -109,6 +176,9 @@ class UserPermissionsController
                     new OA\Property(property: 'resource_type', type: 'string', enum: ['location', 'node', 'realm', 'spell'], description: 'Resource type'),
                     new OA\Property(property: 'resource_id', type: 'integer', description: 'Resource ID'),
                     new OA\Property(property: 'custom_error_message', type: 'string', nullable: true, description: 'Custom error message (optional)'),
+                    new OA\Property(property: 'effect', type: 'string', enum: ['allow', 'deny'], description: 'Allow grants access, deny overrides grants (default allow)'),
+                    new OA\Property(property: 'starts_at', type: 'string', nullable: true, description: 'Start of the validity window (Y-m-d H:i, server time)'),
+                    new OA\Property(property: 'expires_at', type: 'string', nullable: true, description: 'End of the validity window (Y-m-d H:i, server time)'),
                 ]
             )
         ),
@@ -176,8 +246,13 @@ class UserPermissionsController
             return ApiResponse::error('Resource not found', 'RESOURCE_NOT_FOUND', 404);
         }
 
+        $parsedRule = PermissionRuleHelper::parseRuleInput($data, UserPermission::getUserPermission($userId, $resourceType, $resourceId));
+        if ($parsedRule['error'] !== null) {
+            return ApiResponse::error($parsedRule['error'], 'INVALID_PERMISSION_RULE', 400);
+        }
+
         // Create or update permission
-        $success = UserPermission::createOrUpdate($userId, $resourceType, $resourceId, $customErrorMessage);
+        $success = UserPermission::createOrUpdate($userId, $resourceType, $resourceId, $customErrorMessage, $parsedRule['rule']);
         if (!$success) {
             return ApiResponse::error('Failed to add permission', 'ADD_PERMISSION_FAILED', 500);
         }
@@ -186,7 +261,7 @@ class UserPermissionsController
         Activity::createActivity([
             'user_uuid' => $admin['uuid'] ?? null,
             'name' => 'billingresourcesnewservers_add_user_permission',
-            'context' => "Added {$resourceType} permission (ID: {$resourceId}) for user {$user['username']}",
+            'context' => "Added {$resourceType} {$parsedRule['rule']['effect']} permission (ID: {$resourceId}) for user {$user['username']}",
             'ip_address' => CloudFlareRealIP::getRealIP(),
         ]);
 
@@ -261,4 +336,249 @@ class UserPermissionsController
             'message' => 'Permission deleted successfully',
         ], 'Permission deleted successfully', 200);
     }
+
+    #[OA\Get(
+        path: '/api/admin/billingresourcesnewservers/users/{userId}/quotas',
+        summary: 'Get user quotas',
+        description: 'Get the quota override of a user and the effective quotas (override, then highest-priority group) with current usage',
+        tags: ['Admin - Billing Resources New Servers'],
+        parameters: [
+            new OA\Parameter(name: 'userId', in: 'path', required: true, schema: new OA\Schema(type: 'integer')),
+        ],
+        responses: [
+            new OA\Response(response: 200, description: 'Quotas retrieved successfully'),
+            new OA\Response(response: 401, description: 'Unauthorized'),
+            new OA\Response(response: 403, description: 'Forbidden'),
+            new OA\Response(response: 404, description: 'User not found'),
+        ]
+    )]
+    public function getUserQuotas(Request $request, int $userId): Response
+    {
+        $user = User::getUserById($userId);
+        if (!$user) {
+            return ApiResponse::error('User not found', 'USER_NOT_FOUND', 404);
+        }
+
+        return ApiResponse::success([
+            'override' => $this->formatQuotaOverride(UserQuota::getByUserId($userId)),
+            'effective' => QuotaHelper::getQuotaSummary($userId),
+        ], 'User quotas retrieved successfully', 200);
+    }
+
+    #[OA\Put(
+        path: '/api/admin/billingresourcesnewservers/users/{userId}/quotas',
+        summary: 'Set user quota override',
+        description: 'Replace the quota override of a user. Null fields fall back to the user\'s groups.',
+        tags: ['Admin - Billing Resources New Servers'],
+        parameters: [
+            new OA\Parameter(name: 'userId', in: 'path', required: true, schema: new OA\Schema(type: 'integer')),
+        ],
+        requestBody: new OA\RequestBody(
+            required: true,
+            content: new OA\JsonContent(
+                properties: [
+                    new OA\Property(property: 'max_servers', type: 'integer', nullable: true, description: 'Max servers created through this plugin'),
+                    new OA\Property(property: 'max_memory_per_server', type: 'integer', nullable: true, description: 'Max memory (MB) of a single server'),
+                    new OA\Property(property: 'max_servers_per_location', type: 'integer', nullable: true, description: 'Max servers per location'),
+                    new OA\Property(property: 'max_servers_per_spell', type: 'integer', nullable: true, description: 'Max servers per spell'),
+                ]
+            )
+        ),
+        responses: [
+            new OA\Response(response: 200, description: 'Quota override saved successfully'),
+            new OA\Response(response: 400, description: 'Invalid input'),
+            new OA\Response(response: 401, description: 'Unauthorized'),
+            new OA\Response(response: 403, description: 'Forbidden'),
+            new OA\Response(response: 404, description: 'User not found'),
+        ]
+    )]
+    public function setUserQuotas(Request $request, int $userId): Response
+    {
+        $admin = $request->get('user');
+
+        $user = User::getUserById($userId);
+        if (!$user) {
+            return ApiResponse::error('User not found', 'USER_NOT_FOUND', 404);
+        }
+
+        $data = json_decode($request->getContent(), true);
+        if ($data === null) {
+            return ApiResponse::error('Invalid JSON', 'INVALID_JSON', 400);
+        }
+
+        $quotaInput = QuotaHelper::parseQuotaInput($data);
+        if ($quotaInput['error'] !== null) {
+            return ApiResponse::error($quotaInput['error'], 'INVALID_QUOTA', 400);
+        }
+
+        if (!UserQuota::set($userId, $quotaInput['quotas'])) {
+            return ApiResponse::error('Failed to save quota override', 'SET_QUOTA_FAILED', 500);
+        }
+
+        Activity::createActivity([
+            'user_uuid' => $admin['uuid'] ?? null,
+            'name' => 'billingresourcesnewservers_set_user_quota',
+            'context' => 'Set quota override for user ' . $user['username'],
+            'ip_address' => CloudFlareRealIP::getRealIP(),
+        ]);
+
+        return ApiResponse::success([
+            'override' => $this->formatQuotaOverride(UserQuota::getByUserId($userId)),
+            'effective' => QuotaHelper::getQuotaSummary($userId),
+        ], 'Quota override saved successfully', 200);
+    }
+
+    #[OA\Delete(
+        path: '/api/admin/billingresourcesnewservers/users/{userId}/quotas',
+        summary: 'Remove user quota override',
+        description: 'Remove the quota override of a user so only group quotas apply',
+        tags: ['Admin - Billing Resources New Servers'],
+        parameters: [
+            new OA\Parameter(name: 'userId', in: 'path', required: true, schema: new OA\Schema(type: 'integer')),
+        ],
+        responses: [
+            new OA\Response(response: 200, description: 'Quota override removed successfully'),
+            new OA\Response(response: 401, description: 'Unauthorized'),
+            new OA\Response(response: 403, description: 'Forbidden'),
+            new OA\Response(response: 404, description: 'User not found'),
+        ]
+    )]
+    public function deleteUserQuotas(Request $request, int $userId): Response
+    {
+        $admin = $request->get('user');
+
+        $user = User::getUserById($userId);
+        if (!$user) {
+            return ApiResponse::error('User not found', 'USER_NOT_FOUND', 404);
+        }
+
+        if (!UserQuota::delete($userId)) {
+            return ApiResponse::error('Failed to remove quota override', 'DELETE_QUOTA_FAILED', 500);
+        }
+
+        Activity::createActivity([
+            'user_uuid' => $admin['uuid'] ?? null,
+            'name' => 'billingresourcesnewservers_delete_user_quota',
+            'context' => 'Removed quota override for user ' . $user['username'],
+            'ip_address' => CloudFlareRealIP::getRealIP(),
+        ]);
+
+        return ApiResponse::success([
+            'override' => null,
+            'effective' => QuotaHelper::getQuotaSummary($userId),
+        ], 'Quota override removed successfully', 200);
+    }
+
+    #[OA\Get(
+        path: '/api/admin/billingresourcesnewservers/users/{userId}/simulate',
+        summary: 'View the create form as a user',
+        description: 'Get the exact options response the user would receive, plus for every location, node, realm and spell the rule that allowed or denied it and which custom error message applies',
+        tags: ['Admin - Billing Resources New Servers'],
+        parameters: [
+            new OA\Parameter(name: 'userId', in: 'path', required: true, schema: new OA\Schema(type: 'integer')),
+        ],
+        responses: [
+            new OA\Response(response: 200, description: 'Simulation completed successfully'),
+            new OA\Response(response: 401, description: 'Unauthorized'),
+            new OA\Response(response: 403, description: 'Forbidden'),
+            new OA\Response(response: 404, description: 'User not found'),
+        ]
+    )]
+    public function simulateUser(Request $request, int $userId): Response
+    {
+        $user = User::getUserById($userId);
+        if (!$user) {
+            return ApiResponse::error('User not found', 'USER_NOT_FOUND', 404);
+        }
+
+        try {
+            // Rule-based memberships are refreshed first, as the options endpoint does
+            MembershipRuleHelper::syncUser($userId);
+
+            // The same access check the options endpoint runs; a denied user gets that error instead of options
+            $accessError = ServerCreationHelper::checkCreationAccess($userId);
+            $options = $accessError === null ? (new ServerCreationController())->buildOptions($userId) : null;
+
+            $explanations = [
+                'locations' => $this->explainResources($userId, 'location', Location::getAll(null, 1000, 0)),
+                'nodes' => $this->explainResources($userId, 'node', Node::getAllNodes()),
+                'realms' => $this->explainResources($userId, 'realm', Realm::getAll(null, 1000, 0)),
+                'spells' => $this->explainResources($userId, 'spell', Spell::getAllSpells()),
+            ];
+
+            $groups = array_map(fn (array $group) => [
+                'id' => (int) $group['id'],
+                'name' => $group['name'],
+                'priority' => (int) $group['priority'],
+            ], Group::getByUserId($userId));
+
+            return ApiResponse::success([
+                'user' => [
+                    'id' => (int) $user['id'],
+                    'username' => $user['username'],
+                    'email' => $user['email'],
+                ],
+                'groups' => $groups,
+                'access' => [
+                    'allowed' => $accessError === null,
+                    'error' => $accessError['error'] ?? null,
+                    'error_code' => $accessError['error_code'] ?? null,
+                ],
+                'options' => $options,
+                'explanations' => $explanations,
+            ], 'Simulation completed successfully', 200);
+        } catch (\Exception $e) {
+            return ApiResponse::error('Failed to simulate user: ' . $e->getMessage(), 'SIMULATE_USER_FAILED', 500);
+        }
+    }
+
+    /**
+     * Explain the permission decision for every resource of a type.
+     *
+     * @param array<array<string,mixed>> $resources Resource records
+     *
+     * @return list<array<string,mixed>> One explanation per resource
+     */
+    private function explainResources(int $userId, string $resourceType, array $resources): array
+    {
+        $result = [];
+        foreach ($resources as $resource) {
+            if (!isset($resource['id'])) {
+                continue;
+            }
+
+            $entry = [
+                'id' => (int) $resource['id'],
+                'name' => $resource['name'] ?? null,
+            ];
+            if ($resourceType === 'node') {
+                $entry['location_id'] = isset($resource['location_id']) ? (int) $resource['location_id'] : null;
+            } elseif ($resourceType === 'spell') {
+                $entry['realm_id'] = isset($resource['realm_id']) ? (int) $resource['realm_id'] : null;
+            }
+
+            $result[] = array_merge($entry, SettingsHelper::explainUserResourcePermission($userId, $resourceType, (int) $resource['id']));
+        }
+
+        return $result;
+    }
+
+    /**
+     * @param array<string,mixed>|null $override Override record
+     *
+     * @return array<string,int|null>|null
+     */
+    private function formatQuotaOverride(?array $override): ?array
+    {
+        if ($override === null) {
+            return null;
+        }
+
+        $formatted = [];
+        foreach (Group::QUOTA_FIELDS as $field) {
+            $formatted[$field] = $override[$field] !== null ? (int) $override[$field] : null;
+        }
+
+        return $formatted;
+    }
 }
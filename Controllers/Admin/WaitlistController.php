@@ -0,0 +1,175 @@
+<?php
+
+/*
+ * This file is part of FeatherPanel.
+ *
+ * Copyright (C) 2025 MythicalSystems Studios
+ * Copyright (C) 2025 FeatherPanel Contributors
+ * Copyright (C) 2025 Cassian Gherman (aka NaysKutzu)
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * See the LICENSE file or <https://www.gnu.org/licenses/>.
+ */
+
+namespace App\Addons\billingresourcesnewservers\Controllers\Admin;
+
+use App\App;
+use App\Chat\Activity;
+use App\Helpers\ApiResponse;
+use OpenApi\Attributes as OA;
+use App\CloudFlare\CloudFlareRealIP;
+use Symfony\Component\HttpFoundation\Request;
+use Symfony\Component\HttpFoundation\Response;
+use App\Addons\billingresourcesnewservers\Chat\WaitlistEntry;
+use App\Addons\billingresourcesnewservers\Helpers\WaitlistHelper;
+
+#[OA\Tag(name: 'Admin - Billing Resources New Servers - Waitlist', description: 'Queue of users waiting for node capacity')]
+class WaitlistController
+{
+    /** Largest page size the list endpoint accepts */
+    private const MAX_PER_PAGE = 100;
+
+    #[OA\Get(
+        path: '/api/admin/billingresourcesnewservers/waitlist',
+        summary: 'Get the waitlist queue',
+        description: 'Hands any freed capacity to the waitlist first, then returns entries oldest first. Without a status filter only waiting and offered entries are listed.',
+        tags: ['Admin - Billing Resources New Servers - Waitlist'],
+        parameters: [
+            new OA\Parameter(name: 'page', in: 'query', required: false, schema: new OA\Schema(type: 'integer', default: 1)),
+            new OA\Parameter(name: 'per_page', in: 'query', required: false, schema: new OA\Schema(type: 'integer', default: 25, maximum: 100)),
+            new OA\Parameter(name: 'status', in: 'query', required: false, description: 'Entry status, or "all"', schema: new OA\Schema(type: 'string', enum: ['waiting', 'offered', 'fulfilled', 'failed', 'cancelled', 'expired', 'all'])),
+        ],
+        responses: [
+            new OA\Response(response: 200, description: 'Waitlist retrieved successfully'),
+            new OA\Response(response: 400, description: 'Invalid filter'),
+            new OA\Response(response: 401, description: 'Unauthorized'),
+            new OA\Response(response: 403, description: 'Forbidden'),
+        ]
+    )]
+    public function getWaitlist(Request $request): Response
+    {
+        $status = trim((string) $request->query->get('status', ''));
+        if ($status === '') {
+            $statuses = WaitlistEntry::ACTIVE_STATUSES;
+        } elseif ($status === 'all') {
+            $statuses = [];
+        } elseif (in_array($status, WaitlistEntry::STATUSES, true)) {
+            $statuses = [$status];
+        } else {
+            return ApiResponse::error('status must be one of: all, ' . implode(', ', WaitlistEntry::STATUSES), 'INVALID_FILTER', 400);
+        }
+
+        try {
+            $processed = WaitlistHelper::process();
+
+            $page = max(1, (int) $request->query->get('page', 1));
+            $perPage = min(self::MAX_PER_PAGE, max(1, (int) $request->query->get('per_page', 25)));
+            $total = WaitlistEntry::count($statuses);
+
+            $entries = array_map(
+                [$this, 'formatEntry'],
+                WaitlistEntry::getAll($statuses, $perPage, ($page - 1) * $perPage)
+            );
+
+            return ApiResponse::success([
+                'entries' => $entries,
+                'processed' => $processed,
+                'pagination' => [
+                    'page' => $page,
+                    'per_page' => $perPage,
+                    'total' => $total,
+                    'total_pages' => (int) max(1, ceil($total / $perPage)),
+                ],
+            ], 'Waitlist retrieved successfully', 200);
+        } catch (\Exception $e) {
+            App::getInstance(true)->getLogger()->error('Failed to get waitlist: ' . $e->getMessage());
+
+            return ApiResponse::error('Failed to retrieve waitlist: ' . $e->getMessage(), 'GET_WAITLIST_FAILED', 500);
+        }
+    }
+
+    #[OA\Post(
+        path: '/api/admin/billingresourcesnewservers/waitlist/process',
+        summary: 'Process the waitlist now',
+        description: 'Expire stale offers, then create servers (auto mode) or make offers (confirm mode) for the heads of the queue that fit on a node.',
+        tags: ['Admin - Billing Resources New Servers - Waitlist'],
+        responses: [
+            new OA\Response(response: 200, description: 'Waitlist processed'),
+            new OA\Response(response: 401, description: 'Unauthorized'),
+            new OA\Response(response: 403, description: 'Forbidden'),
+        ]
+    )]
+    public function processWaitlist(Request $request): Response
+    {
+        try {
+            return ApiResponse::success(['processed' => WaitlistHelper::process()], 'Waitlist processed', 200);
+        } catch (\Exception $e) {
+            App::getInstance(true)->getLogger()->error('Failed to process waitlist: ' . $e->getMessage());
+
+            return ApiResponse::error('Failed to process waitlist: ' . $e->getMessage(), 'PROCESS_WAITLIST_FAILED', 500);
+        }
+    }
+
+    #[OA\Post(
+        path: '/api/admin/billingresourcesnewservers/waitlist/{id}/remove',
+        summary: 'Remove a waitlist entry',
+        description: 'Cancel a waiting or offered entry. The user sees that an administrator removed it.',
+        tags: ['Admin - Billing Resources New Servers - Waitlist'],
+        parameters: [
+            new OA\Parameter(name: 'id', in: 'path', required: true, schema: new OA\Schema(type: 'integer')),
+        ],
+        responses: [
+            new OA\Response(response: 200, description: 'Entry removed'),
+            new OA\Response(response: 401, description: 'Unauthorized'),
+            new OA\Response(response: 403, description: 'Forbidden'),
+            new OA\Response(response: 404, description: 'Waitlist entry not found'),
+            new OA\Response(response: 409, description: 'Entry is no longer active'),
+        ]
+    )]
+    public function removeEntry(Request $request, int $id): Response
+    {
+        $admin = $request->get('user');
+
+        $entry = WaitlistEntry::getById($id);
+        if (!$entry) {
+            return ApiResponse::error('Waitlist entry not found', 'WAITLIST_ENTRY_NOT_FOUND', 404);
+        }
+
+        if (!WaitlistHelper::cancel($entry, 'Removed by an administrator')) {
+            return ApiResponse::error('This waitlist entry is no longer active', 'WAITLIST_ENTRY_INACTIVE', 409);
+        }
+
+        Activity::createActivity([
+            'user_uuid' => $admin['uuid'] ?? null,
+            'name' => 'billingresourcesnewservers_remove_waitlist_entry',
+            'context' => 'Removed waitlist entry ' . $id . ' of ' . ($entry['username'] ?? ('user ' . $entry['user_id'])),
+            'ip_address' => CloudFlareRealIP::getRealIP(),
+        ]);
+
+        return ApiResponse::success([
+            'entry' => $this->formatEntry(WaitlistEntry::getById($id) ?? $entry),
+        ], 'Waitlist entry removed', 200);
+    }
+
+    /**
+     * Shape an entry for the admin queue: the user-facing fields plus who is waiting.
+     *
+     * @param array<string,mixed> $entry Waitlist entry with username and email
+     *
+     * @return array<string,mixed>
+     */
+    private function formatEntry(array $entry): array
+    {
+        return WaitlistHelper::formatEntry($entry) + [
+            'user' => [
+                'id' => (int) $entry['user_id'],
+                'username' => $entry['username'] ?? null,
+                'email' => $entry['email'] ?? null,
+            ],
+        ];
+    }
+}
@@ -0,0 +1,490 @@
+<?php
+
+/*
+ * This file is part of FeatherPanel.
+ *
+ * Copyright (C) 2025 MythicalSystems Studios
+ * Copyright (C) 2025 FeatherPanel Contributors
+ * Copyright (C) 2025 Cassian Gherman (aka NaysKutzu)
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * See the LICENSE file or <https://www.gnu.org/licenses/>.
+ */
+
+namespace App\Addons\billingresourcesnewservers\Controllers\Admin;
+
+use App\App;
+use App\Chat\Activity;
+use App\Helpers\ApiResponse;
+use OpenApi\Attributes as OA;
+use App\CloudFlare\CloudFlareRealIP;
+use Symfony\Component\HttpFoundation\Request;
+use Symfony\Component\HttpFoundation\Response;
+use App\Addons\billingresourcesnewservers\Chat\Webhook;
+use App\Addons\billingresourcesnewservers\Chat\WebhookDelivery;
+use App\Addons\billingresourcesnewservers\Helpers\WebhookHelper;
+use App\Addons\billingresourcesnewservers\Helpers\CreationEventHelper;
+
+#[OA\Tag(name: 'Admin - Billing Resources New Servers - Webhooks', description: 'Outgoing webhooks for server creation events and their delivery log')]
+class WebhooksController
+{
+    /** Largest page size the delivery log accepts */
+    private const MAX_PER_PAGE = 100;
+
+    /** Upper bound for the attempts of one delivery */
+    private const MAX_ATTEMPTS_LIMIT = 10;
+
+    #[OA\Get(
+        path: '/api/admin/billingresourcesnewservers/webhooks',
+        summary: 'Get all webhooks',
+        description: 'Get all webhooks and the events they can subscribe to. Signing secrets are not returned, only has_secret and secret_last4.',
+        tags: ['Admin - Billing Resources New Servers - Webhooks'],
+        responses: [
+            new OA\Response(response: 200, description: 'Webhooks retrieved successfully'),
+            new OA\Response(response: 401, description: 'Unauthorized'),
+            new OA\Response(response: 403, description: 'Forbidden'),
+        ]
+    )]
+    public function getWebhooks(Request $request): Response
+    {
+        return ApiResponse::success([
+            'webhooks' => array_map([$this, 'formatWebhook'], Webhook::getAll()),
+            'events' => CreationEventHelper::EVENTS,
+        ], 'Webhooks retrieved successfully', 200);
+    }
+
+    #[OA\Post(
+        path: '/api/admin/billingresourcesnewservers/webhooks',
+        summary: 'Create a webhook',
+        description: 'Create an outgoing webhook. A signing secret is generated when none is given; this response is the only one that returns it.',
+        tags: ['Admin - Billing Resources New Servers - Webhooks'],
+        requestBody: new OA\RequestBody(
+            required: true,
+            content: new OA\JsonContent(
+                properties: [
+                    new OA\Property(property: 'name', type: 'string', description: 'Webhook name'),
+                    new OA\Property(property: 'url', type: 'string', description: 'http(s) URL the events are POSTed to'),
+                    new OA\Property(property: 'secret', type: 'string', nullable: true, description: 'HMAC-SHA256 signing secret (generated when empty)'),
+                    new OA\Property(property: 'events', type: 'array', items: new OA\Items(type: 'string'), nullable: true, description: 'Subscribed events (null = every event)'),
+                    new OA\Property(property: 'max_attempts', type: 'integer', description: 'Attempts per delivery before giving up (1-10)'),
+                    new OA\Property(property: 'enabled', type: 'boolean'),
+                ]
+            )
+        ),
+        responses: [
+            new OA\Response(response: 201, description: 'Webhook created successfully'),
+            new OA\Response(response: 400, description: 'Invalid input'),
+            new OA\Response(response: 401, description: 'Unauthorized'),
+            new OA\Response(response: 403, description: 'Forbidden'),
+        ]
+    )]
+    public function createWebhook(Request $request): Response
+    {
+        $admin = $request->get('user');
+        $data = json_decode($request->getContent(), true);
+
+        if ($data === null) {
+            return ApiResponse::error('Invalid JSON', 'INVALID_JSON', 400);
+        }
+
+        foreach (['name', 'url'] as $required) {
+            if (!is_string($data[$required] ?? null) || trim($data[$required]) === '') {
+                return ApiResponse::error('Webhook ' . $required . ' is required', 'MISSING_' . strtoupper($required), 400);
+            }
+        }
+
+        $parsed = $this->parseWebhookData($data);
+        if (isset($parsed['error'])) {
+            return ApiResponse::error($parsed['error'], $parsed['error_code'], 400);
+        }
+        $parsed['data']['secret'] ??= WebhookHelper::generateSecret();
+
+        $webhookId = Webhook::create($parsed['data']);
+        if ($webhookId === false) {
+            return ApiResponse::error('Failed to create webhook. Name may already exist.', 'CREATE_FAILED', 400);
+        }
+
+        Activity::createActivity([
+            'user_uuid' => $admin['uuid'] ?? null,
+            'name' => 'billingresourcesnewservers_create_webhook',
+            'context' => 'Created webhook: ' . $parsed['data']['name'],
+            'ip_address' => CloudFlareRealIP::getRealIP(),
+        ]);
+
+        return ApiResponse::success($this->formatWebhook(Webhook::getById($webhookId) ?? [], true), 'Webhook created successfully', 201);
+    }
+
+    #[OA\Patch(
+        path: '/api/admin/billingresourcesnewservers/webhooks/{webhookId}',
+        summary: 'Update a webhook',
+        description: 'Update a webhook. Only provided fields are changed; send regenerate_secret to rotate the signing secret, which is then returned once in this response.',
+        tags: ['Admin - Billing Resources New Servers - Webhooks'],
+        parameters: [
+            new OA\Parameter(name: 'webhookId', description: 'ID of the webhook', in: 'path', required: true, schema: new OA\Schema(type: 'integer')),
+        ],
+        requestBody: new OA\RequestBody(
+            required: true,
+            content: new OA\JsonContent(
+                properties: [
+                    new OA\Property(property: 'name', type: 'string', nullable: true),
+                    new OA\Property(property: 'url', type: 'string', nullable: true),
+                    new OA\Property(property: 'secret', type: 'string', nullable: true),
+                    new OA\Property(property: 'regenerate_secret', type: 'boolean', nullable: true),
+                    new OA\Property(property: 'events', type: 'array', items: new OA\Items(type: 'string'), nullable: true),
+                    new OA\Property(property: 'max_attempts', type: 'integer', nullable: true),
+                    new OA\Property(property: 'enabled', type: 'boolean', nullable: true),
+                ]
+            )
+        ),
+        responses: [
+            new OA\Response(response: 200, description: 'Webhook updated successfully'),
+            new OA\Response(response: 400, description: 'Invalid input'),
+            new OA\Response(response: 401, description: 'Unauthorized'),
+            new OA\Response(response: 403, description: 'Forbidden'),
+            new OA\Response(response: 404, description: 'Webhook not found'),
+        ]
+    )]
+    public function updateWebhook(Request $request, int $webhookId): Response
+    {
+        $admin = $request->get('user');
+        $data = json_decode($request->getContent(), true);
+
+        if ($data === null) {
+            return ApiResponse::error('Invalid JSON', 'INVALID_JSON', 400);
+        }
+
+        if (!Webhook::getById($webhookId)) {
+            return ApiResponse::error('Webhook not found', 'WEBHOOK_NOT_FOUND', 404);
+        }
+
+        foreach (['name', 'url'] as $field) {
+            if (array_key_exists($field, $data) && (!is_string($data[$field]) || trim($data[$field]) === '')) {
+                return ApiResponse::error('Webhook ' . $field . ' cannot be empty', 'MISSING_' . strtoupper($field), 400);
+            }
+        }
+
+        $parsed = $this->parseWebhookData($data);
+        if (isset($parsed['error'])) {
+            return ApiResponse::error($parsed['error'], $parsed['error_code'], 400);
+        }
+        if (($data['regenerate_secret'] ?? false) === true) {
+            $parsed['data']['secret'] = WebhookHelper::generateSecret();
+        }
+
+        if (empty($parsed['data'])) {
+            return ApiResponse::error('No fields to update', 'NO_FIELDS', 400);
+        }
+
+        if (!Webhook::update($webhookId, $parsed['data'])) {
+            return ApiResponse::error('Failed to update webhook. Name may already exist.', 'UPDATE_FAILED', 400);
+        }
+
+        Activity::createActivity([
+            'user_uuid' => $admin['uuid'] ?? null,
+            'name' => 'billingresourcesnewservers_update_webhook',
+            'context' => 'Updated webhook ID ' . $webhookId . (isset($parsed['data']['secret']) ? ' (new secret)' : ''),
+            'ip_address' => CloudFlareRealIP::getRealIP(),
+        ]);
+
+        return ApiResponse::success($this->formatWebhook(Webhook::getById($webhookId) ?? [], ($data['regenerate_secret'] ?? false) === true), 'Webhook updated successfully', 200);
+    }
+
+    #[OA\Delete(
+        path: '/api/admin/billingresourcesnewservers/webhooks/{webhookId}',
+        summary: 'Delete a webhook',
+        description: 'Delete a webhook together with its delivery log',
+        tags: ['Admin - Billing Resources New Servers - Webhooks'],
+        parameters: [
+            new OA\Parameter(name: 'webhookId', description: 'ID of the webhook', in: 'path', required: true, schema: new OA\Schema(type: 'integer')),
+        ],
+        responses: [
+            new OA\Response(response: 200, description: 'Webhook deleted successfully'),
+            new OA\Response(response: 401, description: 'Unauthorized'),
+            new OA\Response(response: 403, description: 'Forbidden'),
+            new OA\Response(response: 404, description: 'Webhook not found'),
+        ]
+    )]
+    public function deleteWebhook(Request $request, int $webhookId): Response
+    {
+        $admin = $request->get('user');
+
+        $webhook = Webhook::getById($webhookId);
+        if (!$webhook) {
+            return ApiResponse::error('Webhook not found', 'WEBHOOK_NOT_FOUND', 404);
+        }
+
+        if (!Webhook::delete($webhookId)) {
+            return ApiResponse::error('Failed to delete webhook', 'DELETE_FAILED', 400);
+        }
+
+        Activity::createActivity([
+            'user_uuid' => $admin['uuid'] ?? null,
+            'name' => 'billingresourcesnewservers_delete_webhook',
+            'context' => 'Deleted webhook: ' . $webhook['name'],
+            'ip_address' => CloudFlareRealIP::getRealIP(),
+        ]);
+
+        return ApiResponse::success(null, 'Webhook deleted successfully', 200);
+    }
+
+    #[OA\Post(
+        path: '/api/admin/billingresourcesnewservers/webhooks/{webhookId}/test',
+        summary: 'Send a test event',
+        description: 'Send a signed ping event to the webhook right away (also when it is disabled) and return the delivery',
+        tags: ['Admin - Billing Resources New Servers - Webhooks'],
+        parameters: [
+            new OA\Parameter(name: 'webhookId', description: 'ID of the webhook', in: 'path', required: true, schema: new OA\Schema(type: 'integer')),
+        ],
+        responses: [
+            new OA\Response(response: 200, description: 'Test event sent (check the delivery status)'),
+            new OA\Response(response: 401, description: 'Unauthorized'),
+            new OA\Response(response: 403, description: 'Forbidden'),
+            new OA\Response(response: 404, description: 'Webhook not found'),
+        ]
+    )]
+    public function testWebhook(Request $request, int $webhookId): Response
+    {
+        $webhook = Webhook::getById($webhookId);
+        if (!$webhook) {
+            return ApiResponse::error('Webhook not found', 'WEBHOOK_NOT_FOUND', 404);
+        }
+
+        $delivery = WebhookHelper::ping($webhook);
+        if ($delivery === null) {
+            return ApiResponse::error('Failed to queue the test event', 'TEST_FAILED', 500);
+        }
+
+        return ApiResponse::success(['delivery' => $this->formatDelivery($delivery)], 'Test event sent', 200);
+    }
+
+    #[OA\Get(
+        path: '/api/admin/billingresourcesnewservers/webhook-deliveries',
+        summary: 'Get the delivery log',
+        description: 'Sends due deliveries first, then returns deliveries (webhooks and Discord announcements) newest first',
+        tags: ['Admin - Billing Resources New Servers - Webhooks'],
+        parameters: [
+            new OA\Parameter(name: 'page', in: 'query', required: false, schema: new OA\Schema(type: 'integer', default: 1)),
+            new OA\Parameter(name: 'per_page', in: 'query', required: false, schema: new OA\Schema(type: 'integer', default: 25, maximum: 100)),
+            new OA\Parameter(name: 'webhook_id', in: 'query', required: false, schema: new OA\Schema(type: 'integer')),
+            new OA\Parameter(name: 'status', in: 'query', required: false, schema: new OA\Schema(type: 'string', enum: ['pending', 'delivered', 'failed'])),
+        ],
+        responses: [
+            new OA\Response(response: 200, description: 'Deliveries retrieved successfully'),
+            new OA\Response(response: 400, description: 'Invalid filter'),
+            new OA\Response(response: 401, description: 'Unauthorized'),
+            new OA\Response(response: 403, description: 'Forbidden'),
+        ]
+    )]
+    public function getDeliveries(Request $request): Response
+    {
+        $status = trim((string) $request->query->get('status', ''));
+        if ($status !== '' && !in_array($status, WebhookDelivery::STATUSES, true)) {
+            return ApiResponse::error('status must be one of: ' . implode(', ', WebhookDelivery::STATUSES), 'INVALID_FILTER', 400);
+        }
+        $webhookId = $request->query->get('webhook_id');
+        if ($webhookId !== null && $webhookId !== '' && !is_numeric($webhookId)) {
+            return ApiResponse::error('webhook_id must be an integer', 'INVALID_FILTER', 400);
+        }
+        $webhookId = $webhookId !== null && $webhookId !== '' ? (int) $webhookId : null;
+        $status = $status !== '' ? $status : null;
+
+        try {
+            $processed = WebhookHelper::processDue();
+
+            $page = max(1, (int) $request->query->get('page', 1));
+            $perPage = min(self::MAX_PER_PAGE, max(1, (int) $request->query->get('per_page', 25)));
+            $total = WebhookDelivery::count($webhookId, $status);
+
+            $deliveries = array_map(
+                [$this, 'formatDelivery'],
+                WebhookDelivery::getAll($webhookId, $status, $perPage, ($page - 1) * $perPage)
+            );
+
+            return ApiResponse::success([
+                'deliveries' => $deliveries,
+                'processed' => $processed,
+                'pagination' => [
+                    'page' => $page,
+                    'per_page' => $perPage,
+                    'total' => $total,
+                    'total_pages' => (int) max(1, ceil($total / $perPage)),
+                ],
+            ], 'Deliveries retrieved successfully', 200);
+        } catch (\Exception $e) {
+            App::getInstance(true)->getLogger()->error('Failed to get webhook deliveries: ' . $e->getMessage());
+
+            return ApiResponse::error('Failed to retrieve webhook deliveries: ' . $e->getMessage(), 'GET_DELIVERIES_FAILED', 500);
+        }
+    }
+
+    #[OA\Post(
+        path: '/api/admin/billingresourcesnewservers/webhook-deliveries/process',
+        summary: 'Send due retries now',
+        description: 'Make the next attempt of every pending delivery whose retry is due',
+        tags: ['Admin - Billing Resources New Servers - Webhooks'],
+        responses: [
+            new OA\Response(response: 200, description: 'Deliveries processed'),
+            new OA\Response(response: 401, description: 'Unauthorized'),
+            new OA\Response(response: 403, description: 'Forbidden'),
+        ]
+    )]
+    public function processDeliveries(Request $request): Response
+    {
+        try {
+            return ApiResponse::success(['processed' => WebhookHelper::processDue()], 'Deliveries processed', 200);
+        } catch (\Exception $e) {
+            App::getInstance(true)->getLogger()->error('Failed to process webhook deliveries: ' . $e->getMessage());
+
+            return ApiResponse::error('Failed to process webhook deliveries: ' . $e->getMessage(), 'PROCESS_DELIVERIES_FAILED', 500);
+        }
+    }
+
+    #[OA\Post(
+        path: '/api/admin/billingresourcesnewservers/webhook-deliveries/{id}/redeliver',
+        summary: 'Redeliver an event',
+        description: 'Queue the event of a delivery again for the same webhook and send it right away. The original entry stays in the log.',
+        tags: ['Admin - Billing Resources New Servers - Webhooks'],
+        parameters: [
+            new OA\Parameter(name: 'id', in: 'path', required: true, schema: new OA\Schema(type: 'integer')),
+        ],
+        responses: [
+            new OA\Response(response: 200, description: 'Event redelivered (check the delivery status)'),
+            new OA\Response(response: 401, description: 'Unauthorized'),
+            new OA\Response(response: 403, description: 'Forbidden'),
+            new OA\Response(response: 404, description: 'Delivery not found'),
+        ]
+    )]
+    public function redeliver(Request $request, int $id): Response
+    {
+        $admin = $request->get('user');
+
+        $delivery = WebhookDelivery::getById($id);
+        if (!$delivery) {
+            return ApiResponse::error('Delivery not found', 'DELIVERY_NOT_FOUND', 404);
+        }
+
+        $redelivery = WebhookHelper::redeliver($delivery);
+        if ($redelivery === null) {
+            return ApiResponse::error('Failed to queue the event again', 'REDELIVER_FAILED', 500);
+        }
+
+        Activity::createActivity([
+            'user_uuid' => $admin['uuid'] ?? null,
+            'name' => 'billingresourcesnewservers_redeliver_webhook',
+            'context' => 'Redelivered webhook delivery ' . $id . ' as ' . $redelivery['id'],
+            'ip_address' => CloudFlareRealIP::getRealIP(),
+        ]);
+
+        return ApiResponse::success(['delivery' => $this->formatDelivery($redelivery)], 'Event redelivered', 200);
+    }
+
+    /**
+     * Validate and normalize a webhook payload.
+     *
+     * @param array<string,mixed> $data Request body
+     *
+     * @return array{data: array<string,mixed>, error?: string, error_code?: string}
+     */
+    private function parseWebhookData(array $data): array
+    {
+        $result = [];
+
+        if (isset($data['name'])) {
+            $result['name'] = trim((string) $data['name']);
+        }
+
+        if (isset($data['url'])) {
+            $url = trim((string) $data['url']);
+            $scheme = strtolower((string) parse_url($url, PHP_URL_SCHEME));
+            if (filter_var($url, FILTER_VALIDATE_URL) === false || !in_array($scheme, ['http', 'https'], true)) {
+                return ['data' => [], 'error' => 'url must be a valid http(s) URL', 'error_code' => 'INVALID_URL'];
+            }
+            $result['url'] = $url;
+        }
+
+        if (array_key_exists('secret', $data) && $data['secret'] !== null && trim((string) $data['secret']) !== '') {
+            if (strlen(trim((string) $data['secret'])) < 16) {
+                return ['data' => [], 'error' => 'secret must be at least 16 characters', 'error_code' => 'INVALID_SECRET'];
+            }
+            $result['secret'] = trim((string) $data['secret']);
+        }
+
+        if (array_key_exists('events', $data)) {
+            if ($data['events'] !== null && !is_array($data['events'])) {
+                return ['data' => [], 'error' => 'events must be an array of event names or null', 'error_code' => 'INVALID_EVENTS'];
+            }
+            if ($data['events'] !== null) {
+                $unknown = array_diff($data['events'], CreationEventHelper::EVENTS);
+                if (!empty($unknown) || empty($data['events'])) {
+                    return ['data' => [], 'error' => 'events must be a non-empty list of: ' . implode(', ', CreationEventHelper::EVENTS), 'error_code' => 'INVALID_EVENTS'];
+                }
+            }
+            $result['events'] = $data['events'] !== null ? array_values(array_unique($data['events'])) : null;
+        }
+
+        if (array_key_exists('max_attempts', $data)) {
+            $maxAttempts = $data['max_attempts'];
+            if (!is_numeric($maxAttempts) || (int) $maxAttempts < 1 || (int) $maxAttempts > self::MAX_ATTEMPTS_LIMIT) {
+                return ['data' => [], 'error' => 'max_attempts must be between 1 and ' . self::MAX_ATTEMPTS_LIMIT, 'error_code' => 'INVALID_MAX_ATTEMPTS'];
+            }
+            $result['max_attempts'] = (int) $maxAttempts;
+        }
+
+        if (array_key_exists('enabled', $data)) {
+            if (!is_bool($data['enabled'])) {
+                return ['data' => [], 'error' => 'enabled must be a boolean', 'error_code' => 'INVALID_TYPE'];
+            }
+            $result['enabled'] = $data['enabled'] ? 'true' : 'false';
+        }
+
+        return ['data' => $result];
+    }
+
+    /**
+     * Shape a webhook row for API responses. The signing secret is only returned right after it was set,
+     * otherwise anyone who may view the admin pages could sign deliveries.
+     *
+     * @param array<string,mixed> $webhook Webhook record
+     * @param bool $withSecret Include the full signing secret (create and rotate responses)
+     *
+     * @return array<string,mixed> Webhook with integer fields, boolean enabled and a hint of the secret
+     */
+    private function formatWebhook(array $webhook, bool $withSecret = false): array
+    {
+        $secret = (string) ($webhook['secret'] ?? '');
+        unset($webhook['secret']);
+        $webhook['id'] = (int) ($webhook['id'] ?? 0);
+        $webhook['max_attempts'] = (int) ($webhook['max_attempts'] ?? 0);
+        $webhook['enabled'] = ($webhook['enabled'] ?? 'true') === 'true';
+        $webhook['has_secret'] = $secret !== '';
+        $webhook['secret_last4'] = $secret !== '' ? substr($secret, -4) : null;
+        if ($withSecret) {
+            $webhook['secret'] = $secret;
+        }
+
+        return $webhook;
+    }
+
+    /**
+     * Shape a delivery row for API responses.
+     *
+     * @param array<string,mixed> $delivery Delivery record
+     *
+     * @return array<string,mixed>
+     */
+    private function formatDelivery(array $delivery): array
+    {
+        foreach (['id', 'attempts'] as $field) {
+            $delivery[$field] = (int) $delivery[$field];
+        }
+        foreach (['webhook_id', 'response_status', 'duration_ms'] as $field) {
+            $delivery[$field] = $delivery[$field] !== null ? (int) $delivery[$field] : null;
+        }
+
+        return $delivery;
+    }
+}
@@ -0,0 +1,312 @@
+<?php
+
+/*
+ * This file is part of FeatherPanel.
+ *
+ * Copyright (C) 2025 MythicalSystems Studios
+ * Copyright (C) 2025 FeatherPanel Contributors
+ * Copyright (C) 2025 Cassian Gherman (aka NaysKutzu)
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * See the LICENSE file or <https://www.gnu.org/licenses/>.
+ */
+
+namespace App\Addons\billingresourcesnewservers\Controllers\User;
+
+use App\App;
+use App\Chat\Server;
+use App\Chat\Activity;
+use App\Helpers\ApiResponse;
+use OpenApi\Attributes as OA;
+use App\CloudFlare\CloudFlareRealIP;
+use Symfony\Component\HttpFoundation\Request;
+use Symfony\Component\HttpFoundation\Response;
+use App\Addons\billingresourcesnewservers\Chat\TrackedServer;
+use App\Addons\billingresourcesnewservers\Chat\CreationRequest;
+use App\Addons\billingresourcesnewservers\Helpers\ServerLifetimeHelper;
+use App\Addons\billingresourcesnewservers\Helpers\ServerCreationHelper;
+use App\Addons\billingresourcesnewservers\Helpers\ServerManagementHelper;
+
+#[OA\Tag(name: 'User - Billing Resources New Servers - My Servers', description: 'Servers created through this plugin that the current user owns')]
+class MyServersController
+{
+    #[OA\Get(
+        path: '/api/user/billingresourcesnewservers/my-servers',
+        summary: 'Get the servers of the current user',
+        description: 'Servers created through this plugin that the user owns now and that were not deleted yet, with their lifetime state, current resources and how far each may be resized, and the lifetime policy that applies to them. Servers created any other way are not listed.',
+        tags: ['User - Billing Resources New Servers - My Servers'],
+        responses: [
+            new OA\Response(response: 200, description: 'Servers retrieved successfully'),
+            new OA\Response(response: 401, description: 'Unauthorized'),
+        ]
+    )]
+    public function getMyServers(Request $request): Response
+    {
+        $user = $request->get('user');
+        $userId = (int) $user['id'];
+
+        try {
+            ServerLifetimeHelper::processIfDue();
+
+            $resolved = ServerLifetimeHelper::resolvePolicy($userId);
+            $servers = array_map(
+                fn (array $tracked) => $this->withResources(ServerLifetimeHelper::formatServer($tracked, $resolved['policy']), $userId),
+                TrackedServer::getByOwnerId($userId)
+            );
+            $access = ServerCreationHelper::checkCreationAccess($userId);
+
+            return ApiResponse::success([
+                'servers' => $servers,
+                'policy' => $resolved['policy'],
+                'policy_sources' => $resolved['sources'],
+                'resize' => [
+                    'allowed' => $access === null,
+                    'error' => $access['error'] ?? null,
+                ],
+            ], 'Servers retrieved successfully', 200);
+        } catch (\Exception $e) {
+            App::getInstance(true)->getLogger()->error('Failed to get servers of user ' . $userId . ': ' . $e->getMessage());
+
+            return ApiResponse::error('Failed to retrieve servers: ' . $e->getMessage(), 'GET_MY_SERVERS_FAILED', 500);
+        }
+    }
+
+    #[OA\Post(
+        path: '/api/user/billingresourcesnewservers/my-servers/{id}/renew',
+        summary: 'Renew a server',
+        description: 'Restart the lifetime and inactivity period of a server. A warned server is no longer warned and a suspended one is unsuspended.',
+        tags: ['User - Billing Resources New Servers - My Servers'],
+        parameters: [
+            new OA\Parameter(name: 'id', in: 'path', required: true, schema: new OA\Schema(type: 'integer')),
+        ],
+        responses: [
+            new OA\Response(response: 200, description: 'Server renewed'),
+            new OA\Response(response: 401, description: 'Unauthorized'),
+            new OA\Response(response: 404, description: 'Server not found'),
+            new OA\Response(response: 409, description: 'The server was deleted'),
+            new OA\Response(response: 500, description: 'The server could not be unsuspended'),
+        ]
+    )]
+    public function renewServer(Request $request, int $id): Response
+    {
+        $user = $request->get('user');
+        $userId = (int) $user['id'];
+
+        $tracked = TrackedServer::getByIdForUser($id, $userId);
+        if (!$tracked) {
+            return ApiResponse::error('Server not found', 'SERVER_NOT_FOUND', 404);
+        }
+
+        $result = ServerLifetimeHelper::renew($tracked);
+        if ($result['server'] === null) {
+            $status = match ($result['error_code']) {
+                'SERVER_NOT_FOUND' => 404,
+                'SERVER_DELETED' => 409,
+                default => 500,
+            };
+
+            return ApiResponse::error($result['error'], $result['error_code'], $status);
+        }
+
+        Activity::createActivity([
+            'user_uuid' => $user['uuid'] ?? null,
+            'name' => 'billingresourcesnewservers_renew_server',
+            'context' => 'Renewed server: ' . ($result['server']['name'] ?? $tracked['server_id']),
+            'ip_address' => CloudFlareRealIP::getRealIP(),
+        ]);
+
+        return ApiResponse::success(['server' => $this->withResources($result['server'], $userId)], 'Server renewed', 200);
+    }
+
+    #[OA\Post(
+        path: '/api/user/billingresourcesnewservers/my-servers/{id}/resize',
+        summary: 'Resize a server',
+        description: 'Grow or shrink the resources of a server within the resource pool of the user. Runs the same checks as creating a server (field policies, node and spell minimums, quotas, node capacity) and pushes the new build to Wings. Fields that are fixed or hidden by the field policies keep their current value.',
+        tags: ['User - Billing Resources New Servers - My Servers'],
+        parameters: [
+            new OA\Parameter(name: 'id', in: 'path', required: true, schema: new OA\Schema(type: 'integer')),
+        ],
+        requestBody: new OA\RequestBody(
+            required: true,
+            content: new OA\JsonContent(
+                type: 'object',
+                properties: [
+                    new OA\Property(property: 'memory', type: 'integer'),
+                    new OA\Property(property: 'cpu', type: 'integer'),
+                    new OA\Property(property: 'disk', type: 'integer'),
+                    new OA\Property(property: 'swap', type: 'integer'),
+                    new OA\Property(property: 'io', type: 'integer'),
+                    new OA\Property(property: 'database_limit', type: 'integer'),
+                    new OA\Property(property: 'allocation_limit', type: 'integer'),
+                    new OA\Property(property: 'backup_limit', type: 'integer'),
+                ]
+            )
+        ),
+        responses: [
+            new OA\Response(response: 200, description: 'Server resized'),
+            new OA\Response(response: 400, description: 'Invalid resources (errors.checks lists every failing check)'),
+            new OA\Response(response: 401, description: 'Unauthorized'),
+            new OA\Response(response: 404, description: 'Server not found'),
+            new OA\Response(response: 409, description: 'The server is suspended or was deleted'),
+            new OA\Response(response: 500, description: 'Failed to update the server'),
+        ]
+    )]
+    public function resizeServer(Request $request, int $id): Response
+    {
+        $user = $request->get('user');
+        $userId = (int) $user['id'];
+        $data = json_decode($request->getContent(), true);
+
+        if (!is_array($data)) {
+            return ApiResponse::error('Invalid JSON', 'INVALID_JSON', 400);
+        }
+
+        $loaded = $this->loadServer($id, $userId);
+        if (isset($loaded['response'])) {
+            return $loaded['response'];
+        }
+        $tracked = $loaded['tracked'];
+        $server = $loaded['server'];
+
+        if ($tracked['reclaim_state'] === 'suspended') {
+            return ApiResponse::error('Renew this server before resizing it', 'SERVER_SUSPENDED', 409);
+        }
+
+        try {
+            $result = ServerManagementHelper::resize($userId, $server, $data);
+        } catch (\Exception $e) {
+            App::getInstance(true)->getLogger()->error('Failed to resize server ' . $server['id'] . ': ' . $e->getMessage());
+
+            return ApiResponse::error('Failed to resize server: ' . $e->getMessage(), 'RESIZE_FAILED', 500);
+        }
+
+        if ($result['server'] === null) {
+            $status = $result['error_code'] === 'RESIZE_FAILED' ? 500 : 400;
+
+            return ApiResponse::error($result['error'], $result['error_code'], $status, ['checks' => $result['errors']]);
+        }
+
+        $old = ServerManagementHelper::getResources($server);
+        $new = ServerManagementHelper::getResources($result['server']);
+        $changes = [];
+        foreach ($new as $field => $value) {
+            if ($value !== $old[$field]) {
+                $changes[] = "{$field} {$old[$field]} → {$value}";
+            }
+        }
+
+        Activity::createActivity([
+            'user_uuid' => $user['uuid'] ?? null,
+            'name' => 'billingresourcesnewservers_resize_server',
+            'context' => 'Resized server: ' . $server['name'] . ($changes === [] ? '' : ' (' . implode(', ', $changes) . ')'),
+            'ip_address' => CloudFlareRealIP::getRealIP(),
+        ]);
+
+        $refreshed = TrackedServer::getById((int) $tracked['id']) ?? $tracked;
+        $formatted = ServerLifetimeHelper::formatServer($refreshed, ServerLifetimeHelper::resolvePolicy($userId)['policy']);
+
+        return ApiResponse::success([
+            'server' => $this->withResources($formatted, $userId),
+            'synced' => $result['synced'] ?? false,
+        ], ($result['synced'] ?? false) ? 'Server resized' : 'Server resized; the node applies it on its next sync', 200);
+    }
+
+    #[OA\Delete(
+        path: '/api/user/billingresourcesnewservers/my-servers/{id}',
+        summary: 'Delete a server',
+        description: 'Delete a server through the panel\'s own server deletion, releasing its resources back to the pool. The post-deletion creation cooldown starts right away.',
+        tags: ['User - Billing Resources New Servers - My Servers'],
+        parameters: [
+            new OA\Parameter(name: 'id', in: 'path', required: true, schema: new OA\Schema(type: 'integer')),
+        ],
+        responses: [
+            new OA\Response(response: 200, description: 'Server deleted'),
+            new OA\Response(response: 401, description: 'Unauthorized'),
+            new OA\Response(response: 404, description: 'Server not found'),
+            new OA\Response(response: 409, description: 'The server was already deleted'),
+            new OA\Response(response: 500, description: 'The panel could not delete the server'),
+        ]
+    )]
+    public function deleteServer(Request $request, int $id): Response
+    {
+        $user = $request->get('user');
+        $userId = (int) $user['id'];
+
+        $loaded = $this->loadServer($id, $userId);
+        if (isset($loaded['response'])) {
+            return $loaded['response'];
+        }
+        $tracked = $loaded['tracked'];
+        $server = $loaded['server'];
+
+        if (!ServerManagementHelper::deleteServer($server, $user)) {
+            return ApiResponse::error('Failed to delete the server, try again later', 'DELETE_FAILED', 500);
+        }
+
+        TrackedServer::transition((int) $tracked['id'], $tracked['reclaim_state'], 'deleted');
+        CreationRequest::markServerDeletedByUser((int) $server['id'], $userId);
+
+        Activity::createActivity([
+            'user_uuid' => $user['uuid'] ?? null,
+            'name' => 'billingresourcesnewservers_delete_server',
+            'context' => 'Deleted server: ' . $server['name'],
+            'ip_address' => CloudFlareRealIP::getRealIP(),
+        ]);
+
+        return ApiResponse::success([], 'Server deleted', 200);
+    }
+
+    /**
+     * Tracked server the user owns together with its server record.
+     *
+     * @param int $id Tracking ID
+     * @param int $userId User ID
+     *
+     * @return array{tracked?: array<string,mixed>, server?: array<string,mixed>, response?: Response} Response is set when the server cannot be used
+     */
+    private function loadServer(int $id, int $userId): array
+    {
+        $tracked = TrackedServer::getByIdForUser($id, $userId);
+        if (!$tracked) {
+            return ['response' => ApiResponse::error('Server not found', 'SERVER_NOT_FOUND', 404)];
+        }
+        if ($tracked['reclaim_state'] === 'deleted') {
+            return ['response' => ApiResponse::error('This server was already deleted', 'SERVER_DELETED', 409)];
+        }
+
+        $server = Server::getServerById((int) $tracked['server_id']);
+        if (!$server) {
+            TrackedServer::transition((int) $tracked['id'], $tracked['reclaim_state'], 'deleted');
+
+            return ['response' => ApiResponse::error('This server no longer exists', 'SERVER_NOT_FOUND', 404)];
+        }
+        // The server may have been transferred since the tracked row was read
+        if ((int) $server['owner_id'] !== $userId) {
+            return ['response' => ApiResponse::error('Server not found', 'SERVER_NOT_FOUND', 404)];
+        }
+
+        return ['tracked' => $tracked, 'server' => $server];
+    }
+
+    /**
+     * Add the current resources of a server and how far it may be resized.
+     *
+     * @param array<string,mixed> $formatted Server as formatted by ServerLifetimeHelper::formatServer
+     * @param int $userId Owner of the server
+     *
+     * @return array<string,mixed>
+     */
+    private function withResources(array $formatted, int $userId): array
+    {
+        $server = $formatted['state'] !== 'deleted' ? Server::getServerById((int) $formatted['server_id']) : null;
+
+        return $formatted + [
+            'resources' => $server ? ServerManagementHelper::getResources($server) : null,
+            'resize_limits' => $server ? (object) ServerManagementHelper::getResizeLimits($userId, $server) : null,
+        ];
+    }
+}
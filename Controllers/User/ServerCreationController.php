@@ -19,22 +19,35 @@ namespace App\Addons\billingresourcesnewservers\Controllers\User;
 
 use App\App;
 use App\Chat\Node;
+use App\Chat\User;
 use App\Chat\Realm;
 use App\Chat\Spell;
-use App\Chat\Server;
 use App\Chat\Location;
 use App\Chat\Allocation;
-use App\Helpers\UUIDUtils;
-use App\Chat\SpellVariable;
-use App\Chat\ServerVariable;
 use App\Helpers\ApiResponse;
-use App\Services\Wings\Wings;
 use OpenApi\Attributes as OA;
+use App\CloudFlare\CloudFlareRealIP;
 use Symfony\Component\HttpFoundation\Request;
 use Symfony\Component\HttpFoundation\Response;
 use App\Addons\billingresources\Helpers\ResourcesHelper;
+use App\Addons\billingresourcesnewservers\Chat\Preset;
+use App\Addons\billingresourcesnewservers\Chat\WaitlistEntry;
+use App\Addons\billingresourcesnewservers\Chat\TrackedServer;
+use App\Addons\billingresourcesnewservers\Helpers\QuotaHelper;
+use App\Addons\billingresourcesnewservers\Chat\ApprovalRequest;
+use App\Addons\billingresourcesnewservers\Chat\CreationRequest;
+use App\Addons\billingresourcesnewservers\Helpers\DiscordHelper;
+use App\Addons\billingresourcesnewservers\Helpers\ApprovalHelper;
 use App\Addons\billingresourcesnewservers\Helpers\SettingsHelper;
+use App\Addons\billingresourcesnewservers\Helpers\WaitlistHelper;
+use App\Addons\billingresourcesnewservers\Helpers\WebhookHelper;
+use App\Addons\billingresourcesnewservers\Helpers\RateLimitHelper;
+use App\Addons\billingresourcesnewservers\Helpers\ServerNameHelper;
+use App\Addons\billingresourcesnewservers\Helpers\ServerLifetimeHelper;
 use App\Addons\billingresourcesnewservers\Helpers\ServerCreationHelper;
+use App\Addons\billingresourcesnewservers\Helpers\MembershipRuleHelper;
+use App\Addons\billingresourcesnewservers\Helpers\SpellRequirementHelper;
+use App\Addons\billingresourcesnewservers\Helpers\ServerProvisioningHelper;
 
 #[OA\Tag(name: 'User - Billing Resources New Servers', description: 'User server creation endpoints')]
 class ServerCreationController
@@ -55,80 +68,22 @@ class ServerCreationController
         $user = $request->get('user');
         $userId = (int) $user['id'];
 
-        // Check if user creation is enabled and user is allowed
-        if (!SettingsHelper::isUserAllowed($userId)) {
-            $mode = SettingsHelper::getUserRestrictionMode();
-            if ($mode === 'specific') {
-                return ApiResponse::error('You do not have permission to create servers', 'USER_NOT_ALLOWED', 403);
-            }
-
-            return ApiResponse::error('User server creation is currently disabled', 'USER_CREATION_DISABLED', 403);
-        }
+        // Refresh rule-based group memberships before anything group-dependent is resolved
+        MembershipRuleHelper::syncUser($userId);
 
-        $discordRequirement = ServerCreationHelper::checkDiscordLinkRequirement($userId);
-        if ($discordRequirement !== null) {
-            return ApiResponse::error($discordRequirement['error'], $discordRequirement['error_code'], 403);
+        // Check if user creation is enabled, the user is allowed, Discord is linked when required and no anti-abuse check fails
+        $accessError = ServerCreationHelper::checkCreationAccess($userId);
+        if ($accessError !== null) {
+            return ApiResponse::error($accessError['error'], $accessError['error_code'], 403, isset($accessError['details']) ? ['abuse_check' => $accessError['details']] : []);
         }
 
         try {
-            // Get user ID for filtering
-            $user = $request->get('user');
-            $userId = (int) $user['id'];
-
-            // Get all locations
-            $allLocations = Location::getAll(null, 1000, 0);
-            $locations = ServerCreationHelper::filterLocations($allLocations, $userId);
-            // Sanitize locations (remove sensitive data if any)
-            $locations = array_map([$this, 'sanitizeLocation'], $locations);
-
-            // Get all nodes
-            $allNodes = Node::getAllNodes();
-            $nodes = ServerCreationHelper::filterNodes($allNodes, $userId);
-            // Sanitize nodes (remove sensitive data)
-            $nodes = array_map([$this, 'sanitizeNode'], $nodes);
-
-            // Get all realms
-            $allRealms = Realm::getAll(null, 1000, 0);
-            $realms = ServerCreationHelper::filterRealms($allRealms, $userId);
-            // Sanitize realms (remove sensitive data if any)
-            $realms = array_map([$this, 'sanitizeRealm'], $realms);
-
-            // Get all spells
-            $allSpells = Spell::getAllSpells();
-            $spells = ServerCreationHelper::filterSpells($allSpells, $userId);
-            // Sanitize spells (remove sensitive data)
-            $spells = array_map([$this, 'sanitizeSpell'], $spells);
-
-            // Get user's available resources (userId already set above)
-            $availableResources = ResourcesHelper::calculateAvailableResources($userId);
-
-            // Get minimum resource requirements
-            $minimumResources = [
-                'memory' => SettingsHelper::getMinimumMemory(),
-                'cpu' => SettingsHelper::getMinimumCpu(),
-                'disk' => SettingsHelper::getMinimumDisk(),
-            ];
-
-            $placementResolvedDefaults = ServerCreationHelper::resolvePlacementDefaultsForForm(
-                $userId,
-                SettingsHelper::getPlacementFieldPolicies(),
-                SettingsHelper::getMinimumMemory(),
-                SettingsHelper::getMinimumDisk()
-            );
+            // Reclaimed servers free capacity, which goes to the waitlist before anyone else sees it
+            ServerLifetimeHelper::processIfDue();
+            WaitlistHelper::processIfDue();
+            WebhookHelper::deliverNext();
 
-            return ApiResponse::success([
-                'locations' => array_values($locations),
-                'nodes' => array_values($nodes),
-                'realms' => array_values($realms),
-                'spells' => array_values($spells),
-                'available_resources' => $availableResources,
-                'minimum_resources' => $minimumResources,
-                'resource_field_policies' => SettingsHelper::getResourceFieldPolicies(),
-                'placement_field_policies' => SettingsHelper::getPlacementFieldPolicies(),
-                'placement_resolved_defaults' => $placementResolvedDefaults,
-                'max_servers_per_node' => SettingsHelper::getMaxServersPerNode(),
-                'require_discord_link' => SettingsHelper::isDiscordLinkRequired(),
-            ], 'Options retrieved successfully', 200);
+            return ApiResponse::success($this->buildOptions($userId), 'Options retrieved successfully', 200);
         } catch (\Exception $e) {
             App::getInstance(true)->getLogger()->error('Failed to get server creation options: ' . $e->getMessage());
 
@@ -139,7 +94,7 @@ class ServerCreationController
     #[OA\Get(
         path: '/api/user/billingresourcesnewservers/spells/{id}',
         summary: 'Get spell details',
-        description: 'Get spell details including docker images and startup command for user server creation',
+        description: 'Get spell details including docker images (narrowed to the allow-list), startup command, user-viewable startup variables and minimum/recommended resources for user server creation',
         tags: ['User - Billing Resources New Servers'],
         parameters: [
             new OA\Parameter(name: 'id', in: 'path', required: true, schema: new OA\Schema(type: 'integer')),
@@ -156,19 +111,10 @@ class ServerCreationController
         $user = $request->get('user');
         $userId = (int) $user['id'];
 
-        // Check if user creation is enabled and user is allowed
-        if (!SettingsHelper::isUserAllowed($userId)) {
-            $mode = SettingsHelper::getUserRestrictionMode();
-            if ($mode === 'specific') {
-                return ApiResponse::error('You do not have permission to create servers', 'USER_NOT_ALLOWED', 403);
-            }
-
-            return ApiResponse::error('User server creation is currently disabled', 'USER_CREATION_DISABLED', 403);
-        }
-
-        $discordRequirement = ServerCreationHelper::checkDiscordLinkRequirement($userId);
-        if ($discordRequirement !== null) {
-            return ApiResponse::error($discordRequirement['error'], $discordRequirement['error_code'], 403);
+        // Check if user creation is enabled, the user is allowed, Discord is linked when required and no anti-abuse check fails
+        $accessError = ServerCreationHelper::checkCreationAccess($userId);
+        if ($accessError !== null) {
+            return ApiResponse::error($accessError['error'], $accessError['error_code'], 403, isset($accessError['details']) ? ['abuse_check' => $accessError['details']] : []);
         }
 
         try {
@@ -182,6 +128,10 @@ class ServerCreationController
                 return ApiResponse::error('This spell is not available for user server creation', 'SPELL_NOT_ALLOWED', 403);
             }
 
+            // Narrow the images to the spell's allow-list and attach its resource requirements
+            $requirements = SpellRequirementHelper::resolve($id, (int) ($spell['realm_id'] ?? 0));
+            $spell = SpellRequirementHelper::filterSpellImages($spell, $requirements['docker_images']);
+
             // Return only necessary fields (no sensitive data)
             return ApiResponse::success([
                 'spell' => [
@@ -192,6 +142,12 @@ class ServerCreationController
                     'docker_images' => $spell['docker_images'] ?? null,
                     'docker_image' => $spell['docker_image'] ?? null,
                 ],
+                'variables' => ServerCreationHelper::getUserSpellVariables($id),
+                'requirements' => [
+                    'minimum' => $requirements['minimum'],
+                    'recommended' => $requirements['recommended'],
+                    'sources' => $requirements['sources'],
+                ],
             ], 'Spell details retrieved successfully', 200);
         } catch (\Exception $e) {
             App::getInstance(true)->getLogger()->error('Failed to get spell details: ' . $e->getMessage());
@@ -203,16 +159,17 @@ class ServerCreationController
     #[OA\Get(
         path: '/api/user/billingresourcesnewservers/allocations',
         summary: 'Get available allocations for a node',
-        description: 'Get available allocations for a specific node',
+        description: 'Get free allocations for a specific node (only available when the allocation mode lets users pick)',
         tags: ['User - Billing Resources New Servers'],
         parameters: [
             new OA\Parameter(name: 'node_id', in: 'query', required: true, schema: new OA\Schema(type: 'integer')),
+            new OA\Parameter(name: 'search', in: 'query', required: false, description: 'Filter by IP, alias or port', schema: new OA\Schema(type: 'string')),
         ],
         responses: [
             new OA\Response(response: 200, description: 'Allocations retrieved successfully'),
             new OA\Response(response: 400, description: 'Invalid node_id'),
             new OA\Response(response: 401, description: 'Unauthorized'),
-            new OA\Response(response: 403, description: 'Forbidden'),
+            new OA\Response(response: 403, description: 'Creation not allowed (includes abuse_check details when an anti-abuse check fails) or allocation selection disabled'),
         ]
     )]
     public function getAllocations(Request $request): Response
@@ -220,14 +177,14 @@ class ServerCreationController
         $user = $request->get('user');
         $userId = (int) $user['id'];
 
-        // Check if user creation is enabled and user is allowed
-        if (!SettingsHelper::isUserAllowed($userId)) {
-            $mode = SettingsHelper::getUserRestrictionMode();
-            if ($mode === 'specific') {
-                return ApiResponse::error('You do not have permission to create servers', 'USER_NOT_ALLOWED', 403);
-            }
+        // Check if user creation is enabled, the user is allowed, Discord is linked when required and no anti-abuse check fails
+        $accessError = ServerCreationHelper::checkCreationAccess($userId);
+        if ($accessError !== null) {
+            return ApiResponse::error($accessError['error'], $accessError['error_code'], 403, isset($accessError['details']) ? ['abuse_check' => $accessError['details']] : []);
+        }
 
-            return ApiResponse::error('User server creation is currently disabled', 'USER_CREATION_DISABLED', 403);
+        if (SettingsHelper::getAllocationMode() !== 'user') {
+            return ApiResponse::error('Allocation selection is not enabled', 'ALLOCATION_SELECTION_DISABLED', 403);
         }
 
         $nodeId = $request->query->get('node_id');
@@ -247,9 +204,16 @@ class ServerCreationController
             return ApiResponse::error('This node is not available for user server creation', 'NODE_NOT_ALLOWED', 403);
         }
 
+        $nodePermission = SettingsHelper::checkUserResourcePermission($userId, 'node', $nodeId);
+        if (!$nodePermission['allowed']) {
+            return ApiResponse::error($nodePermission['custom_error'] ?? 'This node is not available for you', 'NODE_NOT_ALLOWED', 403);
+        }
+
+        $search = trim((string) $request->query->get('search', ''));
+
         try {
             // Get unused allocations for this node
-            $allocations = Allocation::getAll(null, $nodeId, null, 1000, 0, true);
+            $allocations = Allocation::getAll($search !== '' ? $search : null, $nodeId, null, 1000, 0, true);
             // Sanitize allocations (only return necessary fields)
             $allocations = array_map([$this, 'sanitizeAllocation'], $allocations);
 
@@ -266,7 +230,7 @@ class ServerCreationController
     #[OA\Post(
         path: '/api/user/billingresourcesnewservers/servers',
         summary: 'Create a new server',
-        description: 'Create a new server using user resources',
+        description: 'Start creating a new server using user resources. Validation errors are returned immediately; provisioning continues as the returned creation request is polled (requests nobody polls are moved on more slowly by a once-a-minute sweep). Servers on resources or for groups that require approval are validated and held for an admin instead.',
         tags: ['User - Billing Resources New Servers'],
         requestBody: new OA\RequestBody(
             required: true,
@@ -276,7 +240,7 @@ class ServerCreationController
                     new OA\Property(property: 'node_id', type: 'integer', description: 'Node ID'),
                     new OA\Property(property: 'realms_id', type: 'integer', description: 'Realm ID'),
                     new OA\Property(property: 'spell_id', type: 'integer', description: 'Spell ID'),
-                    new OA\Property(property: 'allocation_id', type: 'integer', nullable: true, description: 'Allocation ID (optional - will be auto-selected if not provided)'),
+                    new OA\Property(property: 'allocation_id', type: 'integer', nullable: true, description: 'Allocation ID (only honored when the allocation mode is "user"; auto-selected otherwise)'),
                     new OA\Property(property: 'memory', type: 'integer', description: 'Memory in MB'),
                     new OA\Property(property: 'cpu', type: 'integer', description: 'CPU limit in percentage'),
                     new OA\Property(property: 'disk', type: 'integer', description: 'Disk space in MB'),
@@ -288,19 +252,22 @@ class ServerCreationController
                     new OA\Property(property: 'database_limit', type: 'integer', description: 'Database limit (optional, default: 0)'),
                     new OA\Property(property: 'allocation_limit', type: 'integer', description: 'Allocation limit (optional, default: 0)'),
                     new OA\Property(property: 'backup_limit', type: 'integer', description: 'Backup limit (optional, default: 0)'),
-                    new OA\Property(property: 'variables', type: 'object', description: 'Spell variables (optional)'),
+                    new OA\Property(property: 'variables', type: 'object', description: 'Spell variable values keyed by env_variable (optional, only user-editable variables are honored)'),
                 ]
             )
         ),
         responses: [
-            new OA\Response(response: 201, description: 'Server created successfully'),
-            new OA\Response(response: 400, description: 'Invalid input or insufficient resources'),
+            new OA\Response(response: 202, description: 'Server creation started (poll the returned request for progress), or held for an admin\'s approval (data.approval is set instead of data.request)'),
+            new OA\Response(response: 400, description: 'Invalid input or insufficient resources (errors.request and errors.rollback are set when a server record had to be rolled back; errors.waitlist_available when the user may join the waitlist instead)'),
+            new OA\Response(response: 500, description: 'Server record could not be created (errors.rollback reports what was undone)'),
+            new OA\Response(response: 429, description: 'Rate limited (errors.retry_after and the Retry-After header give the wait in seconds)'),
             new OA\Response(response: 401, description: 'Unauthorized'),
             new OA\Response(response: 403, description: 'Forbidden'),
         ]
     )]
     public function createServer(Request $request): Response
     {
+        $startedAt = microtime(true);
         $user = $request->get('user');
         $userId = (int) $user['id'];
         $data = json_decode($request->getContent(), true);
@@ -309,190 +276,699 @@ class ServerCreationController
             return ApiResponse::error('Invalid JSON', 'INVALID_JSON', 400);
         }
 
+        MembershipRuleHelper::syncUser($userId);
+
         $data = SettingsHelper::applyResourceFieldPoliciesToPayload($data);
         $data = SettingsHelper::applyPlacementFieldPoliciesToPayload($userId, $data);
 
-        // Validate server creation
-        $validation = ServerCreationHelper::validateServerCreation($userId, $data);
-        if (!$validation['valid']) {
-            return ApiResponse::error($validation['error'], $validation['error_code'] ?? 'VALIDATION_FAILED', 400);
-        }
-
         try {
-            $nodeId = (int) $data['node_id'];
-
-            // Auto-select a random free allocation (like ServerAllocationController::autoAllocate)
-            $availableAllocations = Allocation::getAll(
-                search: null,
-                nodeId: $nodeId,
-                serverId: null,
-                limit: 100,
-                offset: 0,
-                notUsed: true
-            );
-
-            if (empty($availableAllocations)) {
-                return ApiResponse::error('No free allocations available on this node', 'NO_FREE_ALLOCATIONS', 400);
+            $approvalReasons = ApprovalHelper::getReasons($userId, $data);
+            if (!empty($approvalReasons)) {
+                return $this->submitForApproval($user, $data, $approvalReasons);
             }
 
-            // Randomly select one allocation
-            shuffle($availableAllocations);
-            $selectedAllocation = $availableAllocations[0];
-            $allocationId = (int) $selectedAllocation['id'];
-
-            // Prepare server data
-            $serverData = [
-                'uuid' => UUIDUtils::generateV4(),
-                'uuidShort' => substr(str_replace('-', '', UUIDUtils::generateV4()), 0, 8),
-                'node_id' => $nodeId,
-                'name' => $data['name'],
-                'owner_id' => $userId,
-                'memory' => (int) $data['memory'],
-                'swap' => isset($data['swap']) ? (int) $data['swap'] : 0,
-                'disk' => (int) $data['disk'],
-                'io' => isset($data['io']) ? (int) $data['io'] : 500,
-                'cpu' => (int) $data['cpu'],
-                'allocation_id' => $allocationId,
-                'realms_id' => (int) $data['realms_id'],
-                'spell_id' => (int) $data['spell_id'],
-                'startup' => $data['startup'] ?? '',
-                'image' => $data['image'] ?? '',
-                'description' => $data['description'] ?? null,
-                'status' => 'installing',
-                'skip_scripts' => 0,
-                'oom_disabled' => 0,
-                'allocation_limit' => isset($data['allocation_limit']) ? ((int) $data['allocation_limit'] > 0 ? (int) $data['allocation_limit'] : null) : null,
-                'database_limit' => isset($data['database_limit']) ? (int) $data['database_limit'] : 0,
-                'backup_limit' => isset($data['backup_limit']) ? (int) $data['backup_limit'] : 0,
-            ];
+            $started = ServerProvisioningHelper::start($userId, $data, $startedAt, CloudFlareRealIP::getRealIP());
+            if ($started['request'] === null) {
+                $errorCode = $started['error_code'] ?? 'VALIDATION_FAILED';
+                if ($errorCode === 'RATE_LIMITED') {
+                    $response = ApiResponse::error($started['error'], 'RATE_LIMITED', 429, ['retry_after' => $started['retry_after'] ?? 0]);
+                    $response->headers->set('Retry-After', (string) ($started['retry_after'] ?? 0));
+
+                    return $response;
+                }
+                if ($errorCode === 'CREATE_SERVER_FAILED') {
+                    return ApiResponse::error($started['error'], $errorCode, 500);
+                }
 
-            // Create server
-            $serverId = Server::createServer($serverData);
-            if (!$serverId) {
-                App::getInstance(true)->getLogger()->error('Failed to create server for user ID: ' . $userId);
+                // Offer the waitlist when the server only failed for lack of node capacity
+                $waitlistAvailable = SettingsHelper::isWaitlistEnabled()
+                    && WaitlistHelper::checkEligibility($userId, $data, ServerCreationHelper::collectServerCreationErrors($userId, $data)) === null;
 
-                return ApiResponse::error('Failed to create server', 'CREATE_SERVER_FAILED', 500);
+                return ApiResponse::error($started['error'], $errorCode, 400, ['waitlist_available' => $waitlistAvailable]);
             }
 
-            // Claim the allocation
-            $allocationClaimed = Allocation::assignToServer($allocationId, $serverId);
-            if (!$allocationClaimed) {
-                App::getInstance(true)->getLogger()->error('Failed to claim allocation for server ID: ' . $serverId);
+            $creationRequest = $started['request'];
+            if ($creationRequest['state'] === 'failed') {
+                $errorCode = $creationRequest['error_code'] ?? 'CREATE_SERVER_FAILED';
+
+                return ApiResponse::error(
+                    $creationRequest['error_message'] ?? 'Failed to create server',
+                    $errorCode,
+                    in_array($errorCode, ['CREATE_SERVER_FAILED', 'ALLOCATION_CLAIM_FAILED', 'VARIABLES_CREATE_FAILED'], true) ? 500 : 400,
+                    [
+                        'request' => ServerProvisioningHelper::formatRequest($creationRequest),
+                        'rollback' => $creationRequest['rollback'],
+                    ]
+                );
             }
 
-            // Handle spell variables - always fetch and use defaults (like admin API)
-            $spellVariables = SpellVariable::getVariablesBySpellId($serverData['spell_id']);
-            $requiredVariables = [];
-            $variablesToCreate = [];
+            App::getInstance(true)->getLogger()->info('User ' . $user['username'] . ' (ID: ' . $userId . ') requested server: ' . ($data['name'] ?? '') . ' (request ID: ' . $creationRequest['id'] . ')');
 
-            // Build list of required variables
-            foreach ($spellVariables as $spellVariable) {
-                if (strpos($spellVariable['rules'], 'required') !== false) {
-                    $requiredVariables[] = $spellVariable['env_variable'];
-                }
-            }
+            return ApiResponse::success([
+                'request' => ServerProvisioningHelper::formatRequest($creationRequest),
+            ], 'Server creation started', 202);
+        } catch (\Exception $e) {
+            App::getInstance(true)->getLogger()->error('Failed to create server: ' . $e->getMessage());
 
-            // Process variables: use provided values or defaults
-            foreach ($spellVariables as $spellVariable) {
-                $envVariable = $spellVariable['env_variable'];
-                $providedValue = $data['variables'][$envVariable] ?? null;
-
-                // Use provided value if present and non-empty, otherwise use default
-                $effectiveValue = ($providedValue !== null && $providedValue !== '' && trim($providedValue) !== '')
-                    ? $providedValue
-                    : ($spellVariable['default_value'] ?? '');
-
-                // Validate required variables have non-empty values
-                if (strpos($spellVariable['rules'], 'required') !== false) {
-                    if ($effectiveValue === null || $effectiveValue === '' || trim($effectiveValue) === '') {
-                        // Delete server if required variable has no value
-                        Server::hardDeleteServer($serverId);
-
-                        return ApiResponse::error(
-                            'Required spell variable "' . $spellVariable['name'] . '" (' . $envVariable . ') has no default value and was not provided',
-                            'MISSING_REQUIRED_VARIABLE',
-                            400
-                        );
-                    }
-                }
+            return ApiResponse::error('Failed to create server: ' . $e->getMessage(), 'CREATE_SERVER_FAILED', 500);
+        }
+    }
 
-                // Add variable to create list (only if we have a value or it's optional)
-                if ($effectiveValue !== null && $effectiveValue !== '') {
-                    $variablesToCreate[] = [
-                        'variable_id' => (int) $spellVariable['id'],
-                        'variable_value' => (string) $effectiveValue,
-                    ];
-                }
+    #[OA\Get(
+        path: '/api/user/billingresourcesnewservers/servers/requests/{id}',
+        summary: 'Get server creation request status',
+        description: 'Get the pipeline state of a creation request (queued, db_created, wings_pending, installing, done, failed). Each poll moves the request forward by at most one step and sends at most one queued webhook delivery. A request nobody polls (e.g. the tab was closed) is only moved on by the lazy sweep that runs at most once a minute inside other users\' requests, one step per sweep, so its server record and allocation stay claimed until then.',
+        tags: ['User - Billing Resources New Servers'],
+        parameters: [
+            new OA\Parameter(name: 'id', in: 'path', required: true, schema: new OA\Schema(type: 'integer')),
+        ],
+        responses: [
+            new OA\Response(response: 200, description: 'Creation request retrieved successfully'),
+            new OA\Response(response: 401, description: 'Unauthorized'),
+            new OA\Response(response: 404, description: 'Creation request not found'),
+        ]
+    )]
+    public function getCreationRequest(Request $request, int $id): Response
+    {
+        $user = $request->get('user');
+        $userId = (int) $user['id'];
+
+        $creationRequest = CreationRequest::getByIdForUser($id, $userId);
+        if (!$creationRequest) {
+            return ApiResponse::error('Creation request not found', 'REQUEST_NOT_FOUND', 404);
+        }
+
+        try {
+            $creationRequest = ServerProvisioningHelper::advance($creationRequest);
+            // Events are only queued when they happen; each poll sends at most one of them
+            WebhookHelper::deliverNext();
+
+            return ApiResponse::success([
+                'request' => ServerProvisioningHelper::formatRequest($creationRequest),
+            ], 'Creation request retrieved successfully', 200);
+        } catch (\Exception $e) {
+            App::getInstance(true)->getLogger()->error('Failed to advance creation request ' . $id . ': ' . $e->getMessage());
+
+            return ApiResponse::error('Failed to retrieve creation request: ' . $e->getMessage(), 'GET_REQUEST_FAILED', 500);
+        }
+    }
+
+    #[OA\Post(
+        path: '/api/user/billingresourcesnewservers/servers/requests/{id}/retry',
+        summary: 'Retry a failed server creation request',
+        description: 'Resume a failed creation request from the step that failed. If the server record already exists it is reused, so retrying never creates a duplicate server.',
+        tags: ['User - Billing Resources New Servers'],
+        parameters: [
+            new OA\Parameter(name: 'id', in: 'path', required: true, schema: new OA\Schema(type: 'integer')),
+        ],
+        responses: [
+            new OA\Response(response: 200, description: 'Retry started'),
+            new OA\Response(response: 401, description: 'Unauthorized'),
+            new OA\Response(response: 404, description: 'Creation request not found'),
+            new OA\Response(response: 409, description: 'Request is not in a retryable state'),
+        ]
+    )]
+    public function retryCreationRequest(Request $request, int $id): Response
+    {
+        $user = $request->get('user');
+        $userId = (int) $user['id'];
+
+        $creationRequest = CreationRequest::getByIdForUser($id, $userId);
+        if (!$creationRequest) {
+            return ApiResponse::error('Creation request not found', 'REQUEST_NOT_FOUND', 404);
+        }
+
+        try {
+            $result = ServerProvisioningHelper::retry($creationRequest);
+            if (isset($result['error'])) {
+                return ApiResponse::error($result['error'], $result['error_code'], 409);
             }
 
-            // Create server variables using defaults (like admin API)
-            if (!empty($variablesToCreate)) {
-                $variablesCreated = ServerVariable::createOrUpdateServerVariables($serverId, $variablesToCreate);
-                if (!$variablesCreated) {
-                    App::getInstance(true)->getLogger()->error('Failed to create server variables for server ID: ' . $serverId);
-                    // Don't fail server creation, just log the error
-                }
+            return ApiResponse::success([
+                'request' => ServerProvisioningHelper::formatRequest($result['request']),
+            ], 'Retry started', 200);
+        } catch (\Exception $e) {
+            App::getInstance(true)->getLogger()->error('Failed to retry creation request ' . $id . ': ' . $e->getMessage());
+
+            return ApiResponse::error('Failed to retry creation request: ' . $e->getMessage(), 'RETRY_REQUEST_FAILED', 500);
+        }
+    }
+
+    #[OA\Delete(
+        path: '/api/user/billingresourcesnewservers/servers/requests/{id}',
+        summary: 'Cancel a failed server creation request',
+        description: 'Give up on a failed creation request and undo everything it changed (Wings server, allocation claim, server record) in reverse order.',
+        tags: ['User - Billing Resources New Servers'],
+        parameters: [
+            new OA\Parameter(name: 'id', in: 'path', required: true, schema: new OA\Schema(type: 'integer')),
+        ],
+        responses: [
+            new OA\Response(response: 200, description: 'Request cancelled and rolled back'),
+            new OA\Response(response: 401, description: 'Unauthorized'),
+            new OA\Response(response: 404, description: 'Creation request not found'),
+            new OA\Response(response: 409, description: 'Request is not failed'),
+            new OA\Response(response: 500, description: 'Rollback incomplete (errors.rollback lists the steps that could not be undone)'),
+        ]
+    )]
+    public function cancelCreationRequest(Request $request, int $id): Response
+    {
+        $user = $request->get('user');
+        $userId = (int) $user['id'];
+
+        $creationRequest = CreationRequest::getByIdForUser($id, $userId);
+        if (!$creationRequest) {
+            return ApiResponse::error('Creation request not found', 'REQUEST_NOT_FOUND', 404);
+        }
+
+        try {
+            $result = ServerProvisioningHelper::cancel($creationRequest);
+            if (isset($result['error'])) {
+                return ApiResponse::error($result['error'], $result['error_code'], 409);
             }
 
-            // Create server in Wings (like admin API)
-            $nodeInfo = Node::getNodeById($serverData['node_id']);
-            if (!$nodeInfo) {
-                Server::hardDeleteServer($serverId);
+            $payload = [
+                'request' => ServerProvisioningHelper::formatRequest($result['request']),
+                'rollback' => $result['rollback'],
+            ];
 
-                return ApiResponse::error('Node not found', 'NODE_NOT_FOUND', 404);
+            if (!$result['rollback']['complete']) {
+                return ApiResponse::error('Some changes could not be undone. Please contact support.', 'ROLLBACK_INCOMPLETE', 500, $payload);
             }
 
-            $scheme = $nodeInfo['scheme'];
-            $host = $nodeInfo['fqdn'];
-            $port = $nodeInfo['daemonListen'];
-            $token = $nodeInfo['daemon_token'];
-            $timeout = 30;
-
-            try {
-                $wings = new Wings($host, $port, $scheme, $token, $timeout);
-
-                $wingsData = [
-                    'uuid' => $serverData['uuid'],
-                    'start_on_completion' => true,
-                ];
-
-                $response = $wings->getServer()->createServer($wingsData);
-                if (!$response->isSuccessful()) {
-                    $error = $response->getError();
-                    Server::hardDeleteServer($serverId);
-
-                    if ($response->getStatusCode() === 400) {
-                        return ApiResponse::error('Invalid server configuration: ' . $error, 'INVALID_SERVER_CONFIG', 400);
-                    } elseif ($response->getStatusCode() === 401) {
-                        return ApiResponse::error('Unauthorized access to Wings daemon', 'WINGS_UNAUTHORIZED', 401);
-                    } elseif ($response->getStatusCode() === 403) {
-                        return ApiResponse::error('Forbidden access to Wings daemon', 'WINGS_FORBIDDEN', 403);
-                    } elseif ($response->getStatusCode() === 422) {
-                        return ApiResponse::error('Invalid server data: ' . $error, 'INVALID_SERVER_DATA', 422);
-                    }
-
-                    return ApiResponse::error('Failed to create server in Wings: ' . $error, 'WINGS_ERROR', $response->getStatusCode());
-                }
-            } catch (\Exception $e) {
-                App::getInstance(true)->getLogger()->error('Failed to create server in Wings: ' . $e->getMessage());
-                Server::hardDeleteServer($serverId);
+            return ApiResponse::success($payload, 'Creation request cancelled', 200);
+        } catch (\Exception $e) {
+            App::getInstance(true)->getLogger()->error('Failed to cancel creation request ' . $id . ': ' . $e->getMessage());
+
+            return ApiResponse::error('Failed to cancel creation request: ' . $e->getMessage(), 'CANCEL_REQUEST_FAILED', 500);
+        }
+    }
+
+    #[OA\Post(
+        path: '/api/user/billingresourcesnewservers/servers/validate',
+        summary: 'Validate a server creation request (dry run)',
+        description: 'Apply the resource and placement policies and run every creation check without creating anything. Returns all failing checks plus the resolved placement and resources, and what would hold the server for approval.',
+        tags: ['User - Billing Resources New Servers'],
+        requestBody: new OA\RequestBody(
+            required: true,
+            description: 'Same payload as POST /api/user/billingresourcesnewservers/servers (partial payloads are allowed)',
+            content: new OA\JsonContent(type: 'object')
+        ),
+        responses: [
+            new OA\Response(response: 200, description: 'Validation completed (see data.valid and data.errors)'),
+            new OA\Response(response: 400, description: 'Invalid JSON'),
+            new OA\Response(response: 401, description: 'Unauthorized'),
+        ]
+    )]
+    public function validateServer(Request $request): Response
+    {
+        $user = $request->get('user');
+        $userId = (int) $user['id'];
+        $data = json_decode($request->getContent(), true);
+
+        if (!is_array($data)) {
+            return ApiResponse::error('Invalid JSON', 'INVALID_JSON', 400);
+        }
+
+        try {
+            MembershipRuleHelper::syncUser($userId);
+
+            $data = SettingsHelper::applyResourceFieldPoliciesToPayload($data);
+            $data = SettingsHelper::applyPlacementFieldPoliciesToPayload($userId, $data);
+
+            $errors = ServerCreationHelper::collectServerCreationErrors($userId, $data);
+
+            $nodeId = isset($data['node_id']) ? (int) $data['node_id'] : 0;
+            $node = $nodeId > 0 ? Node::getNodeById($nodeId) : null;
+            $requestedAllocationId = ServerCreationHelper::getRequestedAllocationId($data);
 
-                return ApiResponse::error('Failed to create server in Wings: ' . $e->getMessage(), 'FAILED_TO_CREATE_SERVER_IN_WINGS', 500);
+            return ApiResponse::success([
+                'valid' => empty($errors),
+                'errors' => $errors,
+                'waitlist_available' => SettingsHelper::isWaitlistEnabled() && WaitlistHelper::checkEligibility($userId, $data, $errors) === null,
+                'approval_reasons' => ApprovalHelper::getReasons($userId, $data),
+                'placement' => [
+                    'location_id' => $node ? (int) ($node['location_id'] ?? 0) : (isset($data['location_id']) ? (int) $data['location_id'] : null),
+                    'node_id' => $nodeId > 0 ? $nodeId : null,
+                    'realms_id' => isset($data['realms_id']) ? (int) $data['realms_id'] : null,
+                    'spell_id' => isset($data['spell_id']) ? (int) $data['spell_id'] : null,
+                    'allocation_id' => $requestedAllocationId > 0 ? $requestedAllocationId : null,
+                    'allocation_mode' => SettingsHelper::getAllocationMode(),
+                ],
+                'resources' => [
+                    'memory' => (int) ($data['memory'] ?? 0),
+                    'cpu' => (int) ($data['cpu'] ?? 0),
+                    'disk' => (int) ($data['disk'] ?? 0),
+                    'swap' => (int) ($data['swap'] ?? 0),
+                    'io' => isset($data['io']) ? (int) $data['io'] : 500,
+                    'database_limit' => (int) ($data['database_limit'] ?? 0),
+                    'allocation_limit' => (int) ($data['allocation_limit'] ?? 0),
+                    'backup_limit' => (int) ($data['backup_limit'] ?? 0),
+                ],
+            ], empty($errors) ? 'Server creation request is valid' : 'Server creation request has errors', 200);
+        } catch (\Exception $e) {
+            App::getInstance(true)->getLogger()->error('Failed to validate server creation: ' . $e->getMessage());
+
+            return ApiResponse::error('Failed to validate server creation: ' . $e->getMessage(), 'VALIDATE_SERVER_FAILED', 500);
+        }
+    }
+
+    #[OA\Get(
+        path: '/api/user/billingresourcesnewservers/servers/generate-name',
+        summary: 'Generate a server name',
+        description: 'Suggest a name that follows the naming template (or "{spell}-{n}" without one) and is not used by the user yet',
+        tags: ['User - Billing Resources New Servers'],
+        parameters: [
+            new OA\Parameter(name: 'spell_id', in: 'query', required: false, schema: new OA\Schema(type: 'integer')),
+            new OA\Parameter(name: 'realms_id', in: 'query', required: false, schema: new OA\Schema(type: 'integer')),
+        ],
+        responses: [
+            new OA\Response(response: 200, description: 'Name generated successfully'),
+            new OA\Response(response: 401, description: 'Unauthorized'),
+            new OA\Response(response: 403, description: 'Forbidden'),
+            new OA\Response(response: 422, description: 'No name could be generated (e.g. the template needs a spell)'),
+        ]
+    )]
+    public function generateServerName(Request $request): Response
+    {
+        $user = $request->get('user');
+        $userId = (int) $user['id'];
+
+        $accessError = ServerCreationHelper::checkCreationAccess($userId);
+        if ($accessError !== null) {
+            return ApiResponse::error($accessError['error'], $accessError['error_code'], 403, isset($accessError['details']) ? ['abuse_check' => $accessError['details']] : []);
+        }
+
+        $result = ServerNameHelper::generate(
+            $userId,
+            (int) $request->query->get('spell_id', 0),
+            (int) $request->query->get('realms_id', 0)
+        );
+        if ($result['name'] === null) {
+            return ApiResponse::error($result['error'] ?? 'Could not generate a name', 'NAME_GENERATION_FAILED', 422);
+        }
+
+        return ApiResponse::success(['name' => $result['name']], 'Name generated successfully', 200);
+    }
+
+    #[OA\Get(
+        path: '/api/user/billingresourcesnewservers/waitlist',
+        summary: 'Get the waitlist entries of the current user',
+        description: 'Hands any freed capacity to the waitlist first, then returns the user\'s recent entries with their place in line.',
+        tags: ['User - Billing Resources New Servers'],
+        responses: [
+            new OA\Response(response: 200, description: 'Waitlist retrieved successfully'),
+            new OA\Response(response: 401, description: 'Unauthorized'),
+        ]
+    )]
+    public function getWaitlist(Request $request): Response
+    {
+        $user = $request->get('user');
+        $userId = (int) $user['id'];
+
+        try {
+            WaitlistHelper::processIfDue();
+
+            return ApiResponse::success($this->buildWaitlist($userId), 'Waitlist retrieved successfully', 200);
+        } catch (\Exception $e) {
+            App::getInstance(true)->getLogger()->error('Failed to get waitlist: ' . $e->getMessage());
+
+            return ApiResponse::error('Failed to retrieve waitlist: ' . $e->getMessage(), 'GET_WAITLIST_FAILED', 500);
+        }
+    }
+
+    #[OA\Post(
+        path: '/api/user/billingresourcesnewservers/waitlist',
+        summary: 'Join the waitlist',
+        description: 'Save a create payload that fits on no node. Only allowed when every failing check is about node capacity and no other node of the location has room.',
+        tags: ['User - Billing Resources New Servers'],
+        requestBody: new OA\RequestBody(
+            required: true,
+            description: 'Same payload as POST /api/user/billingresourcesnewservers/servers',
+            content: new OA\JsonContent(type: 'object')
+        ),
+        responses: [
+            new OA\Response(response: 201, description: 'Joined the waitlist'),
+            new OA\Response(response: 400, description: 'Invalid JSON or the payload fails a check other than node capacity'),
+            new OA\Response(response: 401, description: 'Unauthorized'),
+            new OA\Response(response: 403, description: 'Waitlist disabled or creation not allowed'),
+            new OA\Response(response: 409, description: 'Already on the waitlist, or a node has room (create the server directly)'),
+        ]
+    )]
+    public function joinWaitlist(Request $request): Response
+    {
+        $user = $request->get('user');
+        $userId = (int) $user['id'];
+        $data = json_decode($request->getContent(), true);
+
+        if (!is_array($data)) {
+            return ApiResponse::error('Invalid JSON', 'INVALID_JSON', 400);
+        }
+
+        try {
+            MembershipRuleHelper::syncUser($userId);
+
+            $data = SettingsHelper::applyResourceFieldPoliciesToPayload($data);
+            $data = SettingsHelper::applyPlacementFieldPoliciesToPayload($userId, $data);
+
+            $result = WaitlistHelper::join($userId, $data, ServerCreationHelper::collectServerCreationErrors($userId, $data));
+            if ($result['entry'] === null) {
+                $status = match ($result['error_code']) {
+                    'WAITLIST_DISABLED', 'USER_CREATION_DISABLED', 'USER_NOT_ALLOWED', 'DISCORD_LINK_REQUIRED',
+                    'USER_BLOCKED', 'IP_BLOCKED', 'ACCOUNT_TOO_NEW', 'EMAIL_NOT_VERIFIED', 'IP_SERVER_LIMIT_REACHED' => 403,
+                    'WAITLIST_NOT_NEEDED', 'WAITLIST_ALREADY_JOINED' => 409,
+                    'WAITLIST_JOIN_FAILED' => 500,
+                    default => 400,
+                };
+
+                return ApiResponse::error($result['error'], $result['error_code'], $status);
             }
 
-            // Get created server
-            $server = Server::getServerById($serverId);
+            App::getInstance(true)->getLogger()->info('User ' . $user['username'] . ' (ID: ' . $userId . ') joined the server waitlist (entry ID: ' . $result['entry']['id'] . ')');
+
+            return ApiResponse::success([
+                'entry' => WaitlistHelper::formatEntry($result['entry']),
+            ], 'Joined the waitlist', 201);
+        } catch (\Exception $e) {
+            App::getInstance(true)->getLogger()->error('Failed to join waitlist: ' . $e->getMessage());
+
+            return ApiResponse::error('Failed to join the waitlist: ' . $e->getMessage(), 'WAITLIST_JOIN_FAILED', 500);
+        }
+    }
+
+    #[OA\Post(
+        path: '/api/user/billingresourcesnewservers/waitlist/{id}/confirm',
+        summary: 'Confirm a waitlist offer',
+        description: 'Create the server of an entry a free slot is being held for (confirm mode). If someone else took the slot, the entry keeps its place in line.',
+        tags: ['User - Billing Resources New Servers'],
+        parameters: [
+            new OA\Parameter(name: 'id', in: 'path', required: true, schema: new OA\Schema(type: 'integer')),
+        ],
+        responses: [
+            new OA\Response(response: 202, description: 'Server creation started (poll the returned request for progress), or held for an admin\'s approval (data.approval is set instead of data.request)'),
+            new OA\Response(response: 400, description: 'The server no longer passes validation; the entry is closed'),
+            new OA\Response(response: 401, description: 'Unauthorized'),
+            new OA\Response(response: 404, description: 'Waitlist entry not found'),
+            new OA\Response(response: 409, description: 'No open offer, the slot was taken or the user has to wait first (errors.entry is the entry, back in line)'),
+        ]
+    )]
+    public function confirmWaitlistEntry(Request $request, int $id): Response
+    {
+        $user = $request->get('user');
+        $userId = (int) $user['id'];
+
+        $entry = WaitlistEntry::getByIdForUser($id, $userId);
+        if (!$entry) {
+            return ApiResponse::error('Waitlist entry not found', 'WAITLIST_ENTRY_NOT_FOUND', 404);
+        }
 
-            App::getInstance(true)->getLogger()->info('User ' . $user['username'] . ' (ID: ' . $userId . ') created server: ' . $serverData['name'] . ' (ID: ' . $serverId . ')');
+        try {
+            $result = WaitlistHelper::confirm($entry);
+            $formatted = WaitlistHelper::formatEntry($result['entry']);
+            if ($result['approval'] !== null) {
+                return ApiResponse::success([
+                    'entry' => $formatted,
+                    'approval' => ApprovalHelper::formatRequest($result['approval']),
+                ], 'Server submitted for approval', 202);
+            }
+            if ($result['request'] === null) {
+                if ($result['requeued'] && in_array($result['error_code'], WaitlistHelper::RETRY_LATER_ERROR_CODES, true)) {
+                    return ApiResponse::error($result['error'] . ' You keep your place in line.', $result['error_code'], 409, ['entry' => $formatted]);
+                }
+                if ($result['requeued']) {
+                    return ApiResponse::error('Someone else took the free slot. You keep your place in line.', 'WAITLIST_SLOT_TAKEN', 409, ['entry' => $formatted]);
+                }
+                $status = in_array($result['error_code'], ['WAITLIST_NOT_OFFERED', 'WAITLIST_ENTRY_HANDLED'], true) ? 409 : 400;
+
+                return ApiResponse::error($result['error'], $result['error_code'], $status, ['entry' => $formatted]);
+            }
 
             return ApiResponse::success([
-                'server' => $server,
-            ], 'Server created successfully', 201);
+                'entry' => $formatted,
+                'request' => ServerProvisioningHelper::formatRequest($result['request']),
+            ], 'Server creation started', 202);
         } catch (\Exception $e) {
-            App::getInstance(true)->getLogger()->error('Failed to create server: ' . $e->getMessage());
+            App::getInstance(true)->getLogger()->error('Failed to confirm waitlist entry ' . $id . ': ' . $e->getMessage());
 
-            return ApiResponse::error('Failed to create server: ' . $e->getMessage(), 'CREATE_SERVER_FAILED', 500);
+            return ApiResponse::error('Failed to confirm waitlist entry: ' . $e->getMessage(), 'WAITLIST_CONFIRM_FAILED', 500);
+        }
+    }
+
+    #[OA\Delete(
+        path: '/api/user/billingresourcesnewservers/waitlist/{id}',
+        summary: 'Leave the waitlist',
+        description: 'Give up a waiting or offered entry. An offered slot moves on to the next user in line.',
+        tags: ['User - Billing Resources New Servers'],
+        parameters: [
+            new OA\Parameter(name: 'id', in: 'path', required: true, schema: new OA\Schema(type: 'integer')),
+        ],
+        responses: [
+            new OA\Response(response: 200, description: 'Left the waitlist'),
+            new OA\Response(response: 401, description: 'Unauthorized'),
+            new OA\Response(response: 404, description: 'Waitlist entry not found'),
+            new OA\Response(response: 409, description: 'Entry is no longer active'),
+        ]
+    )]
+    public function leaveWaitlist(Request $request, int $id): Response
+    {
+        $user = $request->get('user');
+        $userId = (int) $user['id'];
+
+        $entry = WaitlistEntry::getByIdForUser($id, $userId);
+        if (!$entry) {
+            return ApiResponse::error('Waitlist entry not found', 'WAITLIST_ENTRY_NOT_FOUND', 404);
+        }
+
+        if (!WaitlistHelper::cancel($entry)) {
+            return ApiResponse::error('This waitlist entry is no longer active', 'WAITLIST_ENTRY_INACTIVE', 409);
+        }
+
+        return ApiResponse::success([
+            'entry' => WaitlistHelper::formatEntry(WaitlistEntry::getById($id) ?? $entry),
+        ], 'Left the waitlist', 200);
+    }
+
+    #[OA\Get(
+        path: '/api/user/billingresourcesnewservers/approvals',
+        summary: 'Get the approval requests of the current user',
+        description: 'The user\'s recent servers held for approval, with the rejection reason of rejected ones.',
+        tags: ['User - Billing Resources New Servers'],
+        responses: [
+            new OA\Response(response: 200, description: 'Approval requests retrieved successfully'),
+            new OA\Response(response: 401, description: 'Unauthorized'),
+        ]
+    )]
+    public function getApprovals(Request $request): Response
+    {
+        $user = $request->get('user');
+        $userId = (int) $user['id'];
+
+        return ApiResponse::success([
+            'approvals' => array_map([ApprovalHelper::class, 'formatRequest'], ApprovalRequest::getByUserId($userId)),
+        ], 'Approval requests retrieved successfully', 200);
+    }
+
+    #[OA\Delete(
+        path: '/api/user/billingresourcesnewservers/approvals/{id}',
+        summary: 'Withdraw an approval request',
+        description: 'Withdraw a server that is still waiting for approval.',
+        tags: ['User - Billing Resources New Servers'],
+        parameters: [
+            new OA\Parameter(name: 'id', in: 'path', required: true, schema: new OA\Schema(type: 'integer')),
+        ],
+        responses: [
+            new OA\Response(response: 200, description: 'Approval request withdrawn'),
+            new OA\Response(response: 401, description: 'Unauthorized'),
+            new OA\Response(response: 404, description: 'Approval request not found'),
+            new OA\Response(response: 409, description: 'Request was already reviewed'),
+        ]
+    )]
+    public function cancelApproval(Request $request, int $id): Response
+    {
+        $user = $request->get('user');
+        $userId = (int) $user['id'];
+
+        $approval = ApprovalRequest::getByIdForUser($id, $userId);
+        if (!$approval) {
+            return ApiResponse::error('Approval request not found', 'APPROVAL_NOT_FOUND', 404);
+        }
+
+        if (!ApprovalHelper::cancel($approval)) {
+            return ApiResponse::error('This request was already reviewed', 'APPROVAL_NOT_PENDING', 409);
+        }
+
+        return ApiResponse::success([
+            'approval' => ApprovalHelper::formatRequest(ApprovalRequest::getById($id) ?? $approval),
+        ], 'Approval request withdrawn', 200);
+    }
+
+    /**
+     * Build the create form options a user receives (also used by the admin permission simulator).
+     *
+     * @param int $userId User ID
+     *
+     * @return array<string,mixed> Options payload of the options endpoint
+     */
+    public function buildOptions(int $userId): array
+    {
+        // Get all locations
+        $allLocations = Location::getAll(null, 1000, 0);
+        $locations = ServerCreationHelper::filterLocations($allLocations, $userId);
+        // Sanitize locations (remove sensitive data if any)
+        $locations = array_map([$this, 'sanitizeLocation'], $locations);
+
+        // Get all nodes
+        $allNodes = Node::getAllNodes();
+        $nodes = ServerCreationHelper::filterNodes($allNodes, $userId);
+        // Resource bounds the form clamps to once a node is selected
+        $nodes = array_map(
+            fn (array $node) => $node + ['resource_bounds' => SettingsHelper::resolveResourceBounds((int) $node['id'], (int) ($node['location_id'] ?? 0))],
+            $nodes
+        );
+        // Sanitize nodes (remove sensitive data)
+        $nodes = array_map([$this, 'sanitizeNode'], $nodes);
+
+        // Get all realms
+        $allRealms = Realm::getAll(null, 1000, 0);
+        $realms = ServerCreationHelper::filterRealms($allRealms, $userId);
+        // Sanitize realms (remove sensitive data if any)
+        $realms = array_map([$this, 'sanitizeRealm'], $realms);
+
+        // Get all spells
+        $allSpells = Spell::getAllSpells();
+        $spells = ServerCreationHelper::filterSpells($allSpells, $userId);
+        // Sanitize spells (remove sensitive data)
+        $spells = array_map([$this, 'sanitizeSpell'], $spells);
+
+        // Get presets available to this user
+        $presets = ServerCreationHelper::filterPresets(Preset::getEnabled(), $userId);
+        $presets = array_map([$this, 'sanitizePreset'], $presets);
+
+        // Get user's available resources
+        $availableResources = ResourcesHelper::calculateAvailableResources($userId);
+
+        // Get minimum resource requirements
+        $minimumResources = [
+            'memory' => SettingsHelper::getMinimumMemory(),
+            'cpu' => SettingsHelper::getMinimumCpu(),
+            'disk' => SettingsHelper::getMinimumDisk(),
+        ];
+
+        $placementExplanations = [];
+        $placementResolvedDefaults = ServerCreationHelper::resolvePlacementDefaultsForForm(
+            $userId,
+            SettingsHelper::getPlacementFieldPolicies(),
+            SettingsHelper::getMinimumMemory(),
+            SettingsHelper::getMinimumDisk(),
+            $placementExplanations
+        );
+
+        // Let the form resume tracking a creation that is still in progress
+        $activeCreationRequest = CreationRequest::getLatestActiveByUserId($userId);
+
+        return [
+            'locations' => array_values($locations),
+            'nodes' => array_values($nodes),
+            'realms' => array_values($realms),
+            'spells' => array_values($spells),
+            'available_resources' => $availableResources,
+            'minimum_resources' => $minimumResources,
+            'resource_field_policies' => SettingsHelper::getResourceFieldPolicies(),
+            'placement_field_policies' => SettingsHelper::getPlacementFieldPolicies(),
+            'placement_resolved_defaults' => $placementResolvedDefaults,
+            'placement_explanations' => $placementExplanations,
+            'max_servers_per_node' => SettingsHelper::getMaxServersPerNode(),
+            'naming_policy' => ServerNameHelper::getPublicPolicy(),
+            'require_discord_link' => SettingsHelper::isDiscordLinkRequired(),
+            'discord' => $this->buildDiscordStatus($userId),
+            'allocation_mode' => SettingsHelper::getAllocationMode(),
+            'presets' => array_values($presets),
+            'quotas' => QuotaHelper::getQuotaSummary($userId),
+            'rate_limit' => RateLimitHelper::getStatus($userId),
+            'active_creation_request' => $activeCreationRequest ? ServerProvisioningHelper::formatRequest($activeCreationRequest) : null,
+            'waitlist' => $this->buildWaitlist($userId),
+            'lifetime' => $this->buildLifetimeStatus($userId),
+            'approvals' => array_map([ApprovalHelper::class, 'formatRequest'], ApprovalRequest::getByUserId($userId)),
+        ];
+    }
+
+    /**
+     * Validate a create payload and hold it for an admin's approval instead of provisioning it.
+     *
+     * @param array<string,mixed> $user Requesting user
+     * @param array<string,mixed> $data Create payload (policies already applied)
+     * @param list<array{type: string, id: int, name: string|null}> $reasons What requires the approval
+     */
+    private function submitForApproval(array $user, array $data, array $reasons): Response
+    {
+        $submitted = ApprovalHelper::submit((int) $user['id'], $data, $reasons, CloudFlareRealIP::getRealIP());
+        if ($submitted['approval'] === null) {
+            $errorCode = $submitted['error_code'] ?? 'VALIDATION_FAILED';
+            if ($errorCode === 'RATE_LIMITED') {
+                $response = ApiResponse::error($submitted['error'], 'RATE_LIMITED', 429, ['retry_after' => $submitted['retry_after'] ?? 0]);
+                $response->headers->set('Retry-After', (string) ($submitted['retry_after'] ?? 0));
+
+                return $response;
+            }
+
+            return ApiResponse::error($submitted['error'], $errorCode, $errorCode === 'APPROVAL_SUBMIT_FAILED' ? 500 : 400, ['waitlist_available' => false]);
         }
+
+        App::getInstance(true)->getLogger()->info('User ' . $user['username'] . ' (ID: ' . $user['id'] . ') submitted server for approval: ' . ($data['name'] ?? '') . ' (approval ID: ' . $submitted['approval']['id'] . ')');
+
+        return ApiResponse::success([
+            'approval' => ApprovalHelper::formatRequest($submitted['approval']),
+        ], 'Server submitted for approval', 202);
+    }
+
+    /**
+     * Whether the user linked Discord and whether linking (or a guild role) can unlock more.
+     *
+     * @param int $userId User ID
+     *
+     * @return array{linked: bool, role_perks: bool}
+     */
+    private function buildDiscordStatus(int $userId): array
+    {
+        $user = User::getUserById($userId);
+
+        return [
+            'linked' => ($user['discord_oauth2_linked'] ?? 'false') === 'true',
+            'role_perks' => DiscordHelper::isRoleSyncConfigured() && MembershipRuleHelper::isConditionInUse('discord_role'),
+        ];
+    }
+
+    /**
+     * Lifetime policy of the user and how many of their servers need renewing.
+     *
+     * @param int $userId User ID
+     *
+     * @return array{policy: array<string,int>, renewal_needed: int}
+     */
+    private function buildLifetimeStatus(int $userId): array
+    {
+        $servers = TrackedServer::getByOwnerId($userId);
+
+        return [
+            'policy' => ServerLifetimeHelper::resolvePolicy($userId)['policy'],
+            'renewal_needed' => count(array_filter($servers, fn (array $tracked) => $tracked['reclaim_state'] !== 'active')),
+        ];
+    }
+
+    /**
+     * Waitlist settings and the user's recent entries.
+     *
+     * @param int $userId User ID
+     *
+     * @return array{enabled: bool, mode: string, offer_minutes: int, entries: list<array<string,mixed>>}
+     */
+    private function buildWaitlist(int $userId): array
+    {
+        return [
+            'enabled' => SettingsHelper::isWaitlistEnabled(),
+            'mode' => SettingsHelper::getWaitlistMode(),
+            'offer_minutes' => SettingsHelper::getWaitlistOfferMinutes(),
+            'entries' => array_map([WaitlistHelper::class, 'formatEntry'], WaitlistEntry::getByUserId($userId)),
+        ];
     }
 
     /**
@@ -550,6 +1026,9 @@ class ServerCreationController
         if (array_key_exists('at_capacity', $node)) {
             $safe['at_capacity'] = $node['at_capacity'];
         }
+        if (array_key_exists('resource_bounds', $node)) {
+            $safe['resource_bounds'] = $node['resource_bounds'];
+        }
 
         return $safe;
     }
@@ -637,6 +1116,34 @@ class ServerCreationController
         ];
     }
 
+    /**
+     * Sanitize preset data by keeping only the fields the create form needs.
+     *
+     * @param array<string,mixed> $preset Preset data
+     *
+     * @return array<string,mixed> Sanitized preset data
+     */
+    private function sanitizePreset(array $preset): array
+    {
+        return [
+            'id' => (int) $preset['id'],
+            'name' => $preset['name'] ?? null,
+            'description' => $preset['description'] ?? null,
+            'memory' => (int) ($preset['memory'] ?? 0),
+            'cpu' => (int) ($preset['cpu'] ?? 0),
+            'disk' => (int) ($preset['disk'] ?? 0),
+            'swap' => (int) ($preset['swap'] ?? 0),
+            'io' => (int) ($preset['io'] ?? 0),
+            'database_limit' => (int) ($preset['database_limit'] ?? 0),
+            'allocation_limit' => (int) ($preset['allocation_limit'] ?? 0),
+            'backup_limit' => (int) ($preset['backup_limit'] ?? 0),
+            'realm_id' => isset($preset['realm_id']) ? (int) $preset['realm_id'] : null,
+            'spell_id' => isset($preset['spell_id']) ? (int) $preset['spell_id'] : null,
+            'image' => $preset['image'] ?? null,
+            'variables' => $preset['variables'] ?? [],
+        ];
+    }
+
     /**
      * Sanitize allocation data by keeping only necessary fields.
      *
@@ -0,0 +1,114 @@
+import { ref } from "vue";
+import axios from "axios";
+import type {
+  ApprovalRequest,
+  ApprovalStatus,
+  CreationRequest,
+} from "./useNewServerAPI";
+
+function extractApiError(err: unknown, fallback: string): string {
+  if (axios.isAxiosError(err)) {
+    const data = err.response?.data as
+      | { error_message?: string; message?: string }
+      | undefined;
+    return data?.error_message || data?.message || err.message || fallback;
+  }
+  return err instanceof Error ? err.message : fallback;
+}
+
+export interface AdminApprovalRequest extends ApprovalRequest {
+  user: { id: number; username: string | null; email: string | null };
+  reviewer: { id: number; username: string | null } | null;
+}
+
+export interface ApprovalPage {
+  approvals: AdminApprovalRequest[];
+  pagination: {
+    page: number;
+    per_page: number;
+    total: number;
+    total_pages: number;
+  };
+}
+
+/** "active" = pending */
+export type ApprovalStatusFilter = ApprovalStatus | "active" | "all";
+
+export function useApprovalsAPI() {
+  const loading = ref(false);
+  const error = ref<string | null>(null);
+
+  const getApprovals = async (
+    status: ApprovalStatusFilter = "active",
+    page = 1,
+    perPage = 25
+  ): Promise<ApprovalPage> => {
+    loading.value = true;
+    error.value = null;
+    try {
+      const response = await axios.get(
+        "/api/admin/billingresourcesnewservers/approvals",
+        {
+          params: {
+            status: status === "active" ? undefined : status,
+            page,
+            per_page: perPage,
+          },
+        }
+      );
+      return response.data?.data;
+    } catch (err) {
+      const msg = extractApiError(err, "Failed to fetch approval requests");
+      error.value = msg;
+      throw new Error(msg);
+    } finally {
+      loading.value = false;
+    }
+  };
+
+  /**
+   * Approve a request. The payload is validated again first; when it no longer
+   * passes, the request is marked failed and the error says why.
+   */
+  const approveRequest = async (
+    approvalId: number
+  ): Promise<{ approval: AdminApprovalRequest; request: CreationRequest }> => {
+    error.value = null;
+    try {
+      const response = await axios.post(
+        `/api/admin/billingresourcesnewservers/approvals/${approvalId}/approve`
+      );
+      return response.data?.data;
+    } catch (err) {
+      const msg = extractApiError(err, "Failed to approve server");
+      error.value = msg;
+      throw new Error(msg);
+    }
+  };
+
+  const rejectRequest = async (
+    approvalId: number,
+    reason: string
+  ): Promise<AdminApprovalRequest> => {
+    error.value = null;
+    try {
+      const response = await axios.post(
+        `/api/admin/billingresourcesnewservers/approvals/${approvalId}/reject`,
+        { reason }
+      );
+      return response.data?.data?.approval;
+    } catch (err) {
+      const msg = extractApiError(err, "Failed to reject server");
+      error.value = msg;
+      throw new Error(msg);
+    }
+  };
+
+  return {
+    loading,
+    error,
+    getApprovals,
+    approveRequest,
+    rejectRequest,
+  };
+}
@@ -0,0 +1,143 @@
+import { ref } from "vue";
+import axios from "axios";
+
+function extractApiError(err: unknown, fallback: string): string {
+  if (axios.isAxiosError(err)) {
+    const data = err.response?.data as
+      | { error_message?: string; message?: string }
+      | undefined;
+    return data?.error_message || data?.message || err.message || fallback;
+  }
+  return err instanceof Error ? err.message : fallback;
+}
+
+/** held = submitted for an admin's approval instead of being created */
+export type AuditOutcome = "pending" | "succeeded" | "failed" | "rejected" | "held";
+
+/** Where an attempt came from: the create form, an approved request or the waitlist */
+export type AuditSource = "direct" | "approval" | "waitlist";
+
+export interface AuditNamedRef {
+  id: number | null;
+  /** Null when the resource no longer exists */
+  name: string | null;
+}
+
+export interface AuditEntry {
+  id: number;
+  user: { id: number; username: string | null; email: string | null };
+  creation_request_id: number | null;
+  /** Approval request the attempt submitted (held) or was started from (approval) */
+  approval_request_id: number | null;
+  /** 1 for the first run, incremented on each retry */
+  attempt: number;
+  source: AuditSource;
+  /** Create payload after field policies were applied */
+  payload: Record<string, unknown>;
+  node: AuditNamedRef;
+  realm: AuditNamedRef;
+  spell: AuditNamedRef;
+  server_id: number | null;
+  outcome: AuditOutcome;
+  error_code: string | null;
+  error_message: string | null;
+  /** HTTP status Wings answered with, null when Wings was not reached */
+  wings_status: number | null;
+  duration_ms: number | null;
+  ip_address: string | null;
+  created_at: string;
+}
+
+export interface AuditFilters {
+  user_id?: number | null;
+  error_code?: string | null;
+  node_id?: number | null;
+  outcome?: AuditOutcome | null;
+  source?: AuditSource | null;
+  /** Inclusive Y-m-d dates */
+  from?: string | null;
+  to?: string | null;
+}
+
+export interface AuditPagination {
+  page: number;
+  per_page: number;
+  total: number;
+  total_pages: number;
+}
+
+export interface AuditPage {
+  entries: AuditEntry[];
+  /** Every error code recorded so far, for the filter dropdown */
+  error_codes: string[];
+  pagination: AuditPagination;
+}
+
+function toQueryParams(filters: AuditFilters): Record<string, string | number> {
+  const params: Record<string, string | number> = {};
+  for (const [key, value] of Object.entries(filters)) {
+    if (value !== null && value !== undefined && value !== "") {
+      params[key] = value;
+    }
+  }
+  return params;
+}
+
+export function useAuditAPI() {
+  const loading = ref(false);
+  const error = ref<string | null>(null);
+
+  const getAudit = async (
+    filters: AuditFilters,
+    page = 1,
+    perPage = 25
+  ): Promise<AuditPage> => {
+    loading.value = true;
+    error.value = null;
+    try {
+      const response = await axios.get(
+        "/api/admin/billingresourcesnewservers/audit",
+        { params: { ...toQueryParams(filters), page, per_page: perPage } }
+      );
+      return response.data?.data;
+    } catch (err) {
+      const msg = extractApiError(err, "Failed to fetch audit log");
+      error.value = msg;
+      throw new Error(msg);
+    } finally {
+      loading.value = false;
+    }
+  };
+
+  /** Download the filtered audit log as a CSV file */
+  const exportAuditCsv = async (filters: AuditFilters): Promise<void> => {
+    error.value = null;
+    try {
+      const response = await axios.get(
+        "/api/admin/billingresourcesnewservers/audit/export",
+        { params: toQueryParams(filters), responseType: "blob" }
+      );
+      const disposition = String(response.headers["content-disposition"] ?? "");
+      const match = disposition.match(/filename="([^"]+)"/);
+      const url = URL.createObjectURL(response.data as Blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = match?.[1] ?? "server-creation-audit.csv";
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      const msg = extractApiError(err, "Failed to export audit log");
+      error.value = msg;
+      throw new Error(msg);
+    }
+  };
+
+  return {
+    loading,
+    error,
+    getAudit,
+    exportAuditCsv,
+  };
+}
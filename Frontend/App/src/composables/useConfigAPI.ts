@@ -0,0 +1,123 @@
+import { ref } from "vue";
+import axios from "axios";
+
+function extractApiError(err: unknown, fallback: string): string {
+  if (axios.isAxiosError(err)) {
+    const data = err.response?.data as
+      | { error_message?: string; message?: string }
+      | undefined;
+    return data?.error_message || data?.message || err.message || fallback;
+  }
+  return err instanceof Error ? err.message : fallback;
+}
+
+export type ConfigReferenceType = "location" | "node" | "realm" | "spell" | "user";
+
+/** A resource as written in a config document; name and uuid let another panel remap it */
+export interface ConfigReference {
+  id: number;
+  name: string | null;
+  uuid?: string | null;
+}
+
+/** Document produced by the export endpoint (sections are kept opaque here) */
+export interface ConfigDocument {
+  format: string;
+  version: number;
+  exported_at?: string;
+  [section: string]: unknown;
+}
+
+/** Explicit remapping per type: document ID => local ID */
+export type ConfigMappings = Partial<
+  Record<ConfigReferenceType, Record<string, number>>
+>;
+
+export type ConfigChangeAction = "added" | "changed" | "removed";
+
+export interface ConfigChange {
+  section: string;
+  key: string;
+  label: string;
+  action: ConfigChangeAction;
+  before: unknown;
+  after: unknown;
+}
+
+export interface ConfigUnresolvedReference {
+  type: ConfigReferenceType;
+  id: number | null;
+  name: string | null;
+  /** Where in the document the reference appears */
+  context: string;
+}
+
+export interface ConfigImportResult {
+  dry_run: boolean;
+  changes: ConfigChange[];
+  summary: Record<ConfigChangeAction, number>;
+  /** References skipped because no local resource matched */
+  unresolved: ConfigUnresolvedReference[];
+  /** Pass back as expected_state_hash to apply exactly what was previewed */
+  state_hash: string;
+}
+
+export function useConfigAPI() {
+  const loading = ref(false);
+  const error = ref<string | null>(null);
+
+  const exportConfig = async (): Promise<ConfigDocument> => {
+    loading.value = true;
+    error.value = null;
+    try {
+      const response = await axios.get(
+        "/api/admin/billingresourcesnewservers/config/export"
+      );
+      return response.data?.data;
+    } catch (err) {
+      const msg = extractApiError(err, "Failed to export configuration");
+      error.value = msg;
+      throw new Error(msg);
+    } finally {
+      loading.value = false;
+    }
+  };
+
+  /** Dry-run by default; pass dryRun = false with the previewed state hash to apply */
+  const importConfig = async (
+    document: ConfigDocument,
+    options: {
+      mappings?: ConfigMappings;
+      dryRun?: boolean;
+      expectedStateHash?: string;
+    } = {}
+  ): Promise<ConfigImportResult> => {
+    loading.value = true;
+    error.value = null;
+    try {
+      const response = await axios.post(
+        "/api/admin/billingresourcesnewservers/config/import",
+        {
+          document,
+          mappings: options.mappings ?? {},
+          dry_run: options.dryRun ?? true,
+          expected_state_hash: options.expectedStateHash,
+        }
+      );
+      return response.data?.data;
+    } catch (err) {
+      const msg = extractApiError(err, "Failed to import configuration");
+      error.value = msg;
+      throw new Error(msg);
+    } finally {
+      loading.value = false;
+    }
+  };
+
+  return {
+    loading,
+    error,
+    exportConfig,
+    importConfig,
+  };
+}
@@ -1,5 +1,9 @@
 import { ref } from "vue";
 import axios from "axios";
+import type {
+  PermissionRuleFields,
+  PermissionRuleInput,
+} from "./useUserPermissionsAPI";
 
 function extractApiError(err: unknown, fallback: string): string {
   if (axios.isAxiosError(err)) {
@@ -11,21 +15,80 @@ function extractApiError(err: unknown, fallback: string): string {
   return err instanceof Error ? err.message : fallback;
 }
 
+export type MembershipCondition =
+  | { type: "discord_linked" }
+  /** Role IDs are Discord snowflakes, kept as strings */
+  | { type: "discord_role"; role_ids: string[] }
+  | { type: "account_age"; min_days: number }
+  | { type: "billing_purchase" }
+  | { type: "panel_role"; role_ids: number[] }
+  | { type: "email_domain"; domains: string[] };
+
+export type MembershipConditionType = MembershipCondition["type"];
+
+/** Automatic membership: users matching all (or any) conditions join the group */
+export interface MembershipRules {
+  match: "all" | "any";
+  conditions: MembershipCondition[];
+}
+
+export interface MembershipRulesPreview {
+  total: number;
+  users: Array<{ id: number; uuid: string; username: string; email: string }>;
+  warnings: string[];
+}
+
+export interface DiscordRole {
+  id: string;
+  name: string;
+  /** RGB integer, 0 = no colour */
+  color: number;
+  position: number;
+}
+
+export interface DiscordRoleList {
+  /** False until a Discord server ID and bot token are set */
+  configured: boolean;
+  roles: DiscordRole[];
+}
+
+/** Group overrides of the global server lifetime settings */
+export type LifetimeField = "lifetime_days" | "inactivity_days";
+
 export interface Group {
   id: number;
   name: string;
   description: string | null;
   color: string | null;
   priority: number;
+  /** Server quotas (null = no cap) */
+  max_servers: number | null;
+  max_memory_per_server: number | null;
+  max_servers_per_location: number | null;
+  max_servers_per_spell: number | null;
+  /** Rate limit overrides (null = global setting) */
+  rate_limit_max_creations: number | null;
+  rate_limit_window_minutes: number | null;
+  creation_cooldown_seconds: number | null;
+  deletion_cooldown_seconds: number | null;
+  /** Lifetime overrides (null = global setting, 0 = never reclaimed) */
+  lifetime_days: number | null;
+  inactivity_days: number | null;
+  /** Members' free servers wait for an admin's approval */
+  requires_approval: boolean;
+  /** Automatic membership rules (null = manual membership only) */
+  membership_rules: MembershipRules | null;
   created_at: string;
   updated_at: string;
 }
 
-export interface GroupPermission {
+export interface GroupPermission extends PermissionRuleFields {
   id: number;
   group_id: number;
   resource_type: "location" | "node" | "realm" | "spell";
   resource_id: number;
+  /** null once the resource was deleted */
+  resource_name?: string | null;
   custom_error_message: string | null;
   created_at: string;
   updated_at: string;
@@ -44,6 +107,8 @@ export interface GroupUser {
   id: number;
   user_id: number;
   group_id: number;
+  /** manual = assigned by an admin, rule = matched the group's membership rules */
+  source: "manual" | "rule";
   created_at: string;
   user?: {
     id: number;
@@ -52,11 +117,33 @@ export interface GroupUser {
   };
 }
 
+export interface GroupUsersPage {
+  users: GroupUser[];
+  pagination: {
+    page: number;
+    per_page: number;
+    total: number;
+    total_pages: number;
+  };
+}
+
 export interface CreateGroupData {
   name: string;
   description?: string;
   color?: string;
   priority?: number;
+  max_servers?: number | null;
+  max_memory_per_server?: number | null;
+  max_servers_per_location?: number | null;
+  max_servers_per_spell?: number | null;
+  rate_limit_max_creations?: number | null;
+  rate_limit_window_minutes?: number | null;
+  creation_cooldown_seconds?: number | null;
+  deletion_cooldown_seconds?: number | null;
+  lifetime_days?: number | null;
+  inactivity_days?: number | null;
+  requires_approval?: boolean;
+  membership_rules?: MembershipRules | null;
 }
 
 export interface UpdateGroupData {
@@ -64,18 +151,37 @@ export interface UpdateGroupData {
   description?: string;
   color?: string;
   priority?: number;
+  max_servers?: number | null;
+  max_memory_per_server?: number | null;
+  max_servers_per_location?: number | null;
+  max_servers_per_spell?: number | null;
+  rate_limit_max_creations?: number | null;
+  rate_limit_window_minutes?: number | null;
+  creation_cooldown_seconds?: number | null;
+  deletion_cooldown_seconds?: number | null;
+  lifetime_days?: number | null;
+  inactivity_days?: number | null;
+  requires_approval?: boolean;
+  membership_rules?: MembershipRules | null;
 }
 
-export interface AddGroupPermissionData {
+export interface AddGroupPermissionData extends PermissionRuleInput {
   resource_type: "location" | "node" | "realm" | "spell";
   resource_id: number;
   custom_error_message?: string;
 }
 
-export interface UpdateGroupPermissionData {
+export interface UpdateGroupPermissionData extends PermissionRuleInput {
   custom_error_message?: string;
 }
 
+export interface UserGroupMemberships {
+  /** Every group the user is in */
+  group_ids: number[];
+  /** The subset joined through membership rules */
+  rule_group_ids: number[];
+}
+
 export function useGroupsAPI() {
   const loading = ref(false);
   const error = ref<string | null>(null);
@@ -243,52 +349,48 @@ export function useGroupsAPI() {
     }
   };
 
-  const getGroupUsers = async (groupId: number): Promise<GroupUser[]> => {
-    loading.value = true;
+  /** Members by username; runs as the admin types, so it leaves loading (the group list spinner) alone */
+  const getGroupUsers = async (
+    groupId: number,
+    search = "",
+    page = 1,
+    perPage = 25
+  ): Promise<GroupUsersPage> => {
     error.value = null;
     try {
       const response = await axios.get(
-        `/api/admin/billingresourcesnewservers/groups/${groupId}/users`
+        `/api/admin/billingresourcesnewservers/groups/${groupId}/users`,
+        { params: { search: search || undefined, page, per_page: perPage } }
       );
-      // The API returns { success: true, data: { group: {...}, users: [...] } }
-      // where users array contains { id, uuid, username, email }
-      const apiResponse = response.data;
-      let users: Array<{
-        id: number;
-        uuid?: string;
-        username?: string;
-        email?: string;
-      }> = [];
-
-      if (apiResponse?.success && apiResponse?.data?.users) {
-        users = Array.isArray(apiResponse.data.users)
-          ? apiResponse.data.users
-          : [];
-      } else if (
-        apiResponse?.data?.users &&
-        Array.isArray(apiResponse.data.users)
-      ) {
-        users = apiResponse.data.users;
-      }
+      const data: {
+        users: Array<{
+          id: number;
+          username: string;
+          email: string;
+          source: "manual" | "rule";
+        }>;
+        pagination: GroupUsersPage["pagination"];
+      } = response.data?.data;
 
-      // Transform the API response to match GroupUser interface
-      return users.map((user) => ({
-        id: 0, // This is the UserGroup pivot table id, not available from this endpoint
-        user_id: user.id, // The user's id
-        group_id: groupId,
-        created_at: "",
-        user: {
-          id: user.id,
-          username: user.username || "",
-          email: user.email || "",
-        },
-      }));
+      return {
+        users: data.users.map((user) => ({
+          id: 0, // This is the UserGroup pivot table id, not available from this endpoint
+          user_id: user.id,
+          group_id: groupId,
+          source: user.source,
+          created_at: "",
+          user: {
+            id: user.id,
+            username: user.username,
+            email: user.email,
+          },
+        })),
+        pagination: data.pagination,
+      };
     } catch (err) {
       const msg = extractApiError(err, "Failed to fetch group users");
       error.value = msg;
       throw new Error(msg);
-    } finally {
-      loading.value = false;
     }
   };
 
@@ -330,7 +432,9 @@ export function useGroupsAPI() {
     }
   };
 
-  const getUserGroups = async (userId: number): Promise<number[]> => {
+  const getUserGroups = async (
+    userId: number
+  ): Promise<UserGroupMemberships> => {
     loading.value = true;
     error.value = null;
     try {
@@ -338,7 +442,12 @@ export function useGroupsAPI() {
         `/api/admin/billingresourcesnewservers/users/${userId}/groups`
       );
       const data = response.data?.data;
-      return Array.isArray(data?.group_ids) ? data.group_ids : [];
+      return {
+        group_ids: Array.isArray(data?.group_ids) ? data.group_ids : [],
+        rule_group_ids: Array.isArray(data?.rule_group_ids)
+          ? data.rule_group_ids
+          : [],
+      };
     } catch (err) {
       const msg = extractApiError(err, "Failed to fetch user groups");
       error.value = msg;
@@ -368,6 +477,40 @@ export function useGroupsAPI() {
     }
   };
 
+  const previewMembershipRules = async (
+    rules: MembershipRules
+  ): Promise<MembershipRulesPreview> => {
+    loading.value = true;
+    error.value = null;
+    try {
+      const response = await axios.post(
+        "/api/admin/billingresourcesnewservers/groups/membership-rules/preview",
+        { membership_rules: rules }
+      );
+      return response.data?.data;
+    } catch (err) {
+      const msg = extractApiError(err, "Failed to preview membership rules");
+      error.value = msg;
+      throw new Error(msg);
+    } finally {
+      loading.value = false;
+    }
+  };
+
+  const getDiscordRoles = async (): Promise<DiscordRoleList> => {
+    error.value = null;
+    try {
+      const response = await axios.get(
+        "/api/admin/billingresourcesnewservers/groups/discord-roles"
+      );
+      return response.data?.data ?? { configured: false, roles: [] };
+    } catch (err) {
+      const msg = extractApiError(err, "Failed to fetch Discord roles");
+      error.value = msg;
+      throw new Error(msg);
+    }
+  };
+
   return {
     loading,
     error,
@@ -384,5 +527,7 @@ export function useGroupsAPI() {
     assignUserToGroup,
     removeUserFromGroup,
     setUserGroups,
+    previewMembershipRules,
+    getDiscordRoles,
   };
 }
@@ -0,0 +1,163 @@
+import { ref } from "vue";
+import axios from "axios";
+
+function extractApiError(err: unknown, fallback: string): string {
+  if (axios.isAxiosError(err)) {
+    const data = err.response?.data as
+      | { error_message?: string; message?: string }
+      | undefined;
+    return data?.error_message || data?.message || err.message || fallback;
+  }
+  return err instanceof Error ? err.message : fallback;
+}
+
+/** active → warned → suspended → deleted; renewing goes back to active */
+export type ReclaimState = "active" | "warned" | "suspended" | "deleted";
+
+export type ReclaimReason = "lifetime" | "inactivity";
+
+export type ResourceField =
+  | "memory"
+  | "cpu"
+  | "disk"
+  | "swap"
+  | "io"
+  | "database_limit"
+  | "allocation_limit"
+  | "backup_limit";
+
+export type ServerResources = Record<ResourceField, number>;
+
+/** Range a field may be resized to (max null = no maximum) */
+export interface ResizeLimit {
+  min: number;
+  max: number | null;
+}
+
+export interface ResizeError {
+  field: string | null;
+  error: string;
+  error_code: string;
+}
+
+export interface MyServer {
+  /** Tracking ID (used to renew) */
+  id: number;
+  server_id: number;
+  server_uuid: string | null;
+  name: string | null;
+  /** Panel status (installing, running, …) */
+  status: string | null;
+  state: ReclaimState;
+  /** Rule that reclaims the server first (null = none applies) */
+  reason: ReclaimReason | null;
+  /** Seconds until suspension while active or warned (null = never) */
+  suspends_in: number | null;
+  /** Seconds until deletion while suspended */
+  deletes_in: number | null;
+  renewable: boolean;
+  last_active_at: string | null;
+  renewed_at: string | null;
+  created_at: string | null;
+  /** Current resources (null once deleted) */
+  resources: ServerResources | null;
+  /** Fields the user may edit; fixed and hidden fields are left out */
+  resize_limits: Partial<Record<ResourceField, ResizeLimit>> | null;
+}
+
+/** Lifetime policy of the user (0 = off) */
+export interface LifetimePolicy {
+  lifetime_days: number;
+  inactivity_days: number;
+  reclaim_warning_days: number;
+  reclaim_deletion_days: number;
+}
+
+export interface MyServersData {
+  servers: MyServer[];
+  policy: LifetimePolicy;
+  policy_sources: Record<
+    "lifetime_days" | "inactivity_days",
+    { type: "global" | "group"; group_id?: number; group_name?: string }
+  >;
+  /** Whether the user may resize (same access rules as creating) */
+  resize: { allowed: boolean; error: string | null };
+}
+
+export function useMyServersAPI() {
+  const loading = ref(false);
+  const error = ref<string | null>(null);
+  /** Every failing check of the last rejected resize */
+  const resizeErrors = ref<ResizeError[]>([]);
+
+  const getMyServers = async (): Promise<MyServersData> => {
+    loading.value = true;
+    error.value = null;
+    try {
+      const response = await axios.get(
+        "/api/user/billingresourcesnewservers/my-servers"
+      );
+      return response.data?.data;
+    } catch (err) {
+      const msg = extractApiError(err, "Failed to load your servers");
+      error.value = msg;
+      throw new Error(msg);
+    } finally {
+      loading.value = false;
+    }
+  };
+
+  /** Restart the lifetime of a server; a warned or suspended server comes back */
+  const renewServer = async (id: number): Promise<MyServer> => {
+    try {
+      const response = await axios.post(
+        `/api/user/billingresourcesnewservers/my-servers/${id}/renew`
+      );
+      return response.data?.data?.server;
+    } catch (err) {
+      throw new Error(extractApiError(err, "Failed to renew the server"));
+    }
+  };
+
+  /** Grow or shrink a server within the pool; Wings gets the new build */
+  const resizeServer = async (
+    id: number,
+    resources: Partial<ServerResources>
+  ): Promise<{ server: MyServer; synced: boolean }> => {
+    resizeErrors.value = [];
+    try {
+      const response = await axios.post(
+        `/api/user/billingresourcesnewservers/my-servers/${id}/resize`,
+        resources
+      );
+      return response.data?.data;
+    } catch (err) {
+      if (axios.isAxiosError(err)) {
+        const data = err.response?.data as
+          | { errors?: { checks?: ResizeError[] } }
+          | undefined;
+        resizeErrors.value = data?.errors?.checks ?? [];
+      }
+      throw new Error(extractApiError(err, "Failed to resize the server"));
+    }
+  };
+
+  /** Delete a server; its resources go back to the pool */
+  const deleteServer = async (id: number): Promise<void> => {
+    try {
+      await axios.delete(`/api/user/billingresourcesnewservers/my-servers/${id}`);
+    } catch (err) {
+      throw new Error(extractApiError(err, "Failed to delete the server"));
+    }
+  };
+
+  return {
+    loading,
+    error,
+    resizeErrors,
+    getMyServers,
+    renewServer,
+    resizeServer,
+    deleteServer,
+  };
+}
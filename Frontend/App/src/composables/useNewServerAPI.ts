@@ -9,6 +9,42 @@ export interface ApiResponse<T> {
   error?: boolean;
   error_message?: string;
   error_code?: string;
+  /** Structured error details (e.g. a rolled back creation request) */
+  errors?: ApiErrorDetails;
+}
+
+export interface ApiErrorDetails {
+  request?: CreationRequest;
+  rollback?: CreationRollback | null;
+  /** Seconds until creating is allowed again (RATE_LIMITED) */
+  retry_after?: number;
+  /** True when every eligible node is full and the user may join the waitlist instead */
+  waitlist_available?: boolean;
+  /** Waitlist entry the error is about (confirming an offer) */
+  entry?: WaitlistEntry;
+  /** Anti-abuse check that refused the create form */
+  abuse_check?: AbuseCheckFailure;
+}
+
+export type AbuseCheck =
+  | "blocked_user"
+  | "blocked_ip"
+  | "account_age"
+  | "verified_email"
+  | "servers_per_ip";
+
+/** What the create form needs to tell the user how to get past a failed anti-abuse check */
+export interface AbuseCheckFailure {
+  check: AbuseCheck;
+  /** account_age */
+  min_account_age_days?: number;
+  /** account_age: seconds until the account is old enough */
+  retry_after?: number;
+  /** verified_email */
+  email?: string | null;
+  /** servers_per_ip */
+  limit?: number;
+  count?: number;
 }
 
 export interface Location {
@@ -31,6 +67,16 @@ export interface Node {
   server_count?: number;
   max_servers_per_node?: number;
   at_capacity?: boolean;
+  /** Effective min/max per resource (global minimums, location and node bounds combined) */
+  resource_bounds?: Record<"memory" | "cpu" | "disk" | "swap", NodeResourceBound>;
+}
+
+export interface NodeResourceBound {
+  min: number;
+  /** null = only the user's pool limits it */
+  max: number | null;
+  min_source: "global" | "location" | "node";
+  max_source: "location" | "node" | null;
 }
 
 export interface Realm {
@@ -52,6 +98,46 @@ export interface Spell {
   error_message?: string | null;
 }
 
+export interface SpellVariable {
+  id: number;
+  name: string;
+  description?: string | null;
+  env_variable: string;
+  default_value: string;
+  /** Laravel-style rule string, e.g. "required|integer|between:1,100" */
+  rules: string;
+  field_type?: string | null;
+  user_editable: boolean;
+}
+
+export interface SpellDetails {
+  id: number;
+  name: string;
+  description?: string;
+  startup?: string;
+  docker_images?: string;
+  docker_image?: string;
+  /** User-viewable startup variables (locked ones have user_editable = false) */
+  variables: SpellVariable[];
+  requirements?: SpellRequirements;
+}
+
+export type RequirementResource = "memory" | "cpu" | "disk";
+
+/** Where a requirement comes from: the spell itself or its realm (null = not set) */
+export type RequirementSource = "spell" | "realm" | null;
+
+export interface SpellRequirements {
+  /** Enforced on create (null = only the global minimums apply) */
+  minimum: Record<RequirementResource, number | null>;
+  /** Prefilled on the form; going below only warns */
+  recommended: Record<RequirementResource, number | null>;
+  sources: Record<
+    RequirementResource,
+    { minimum: RequirementSource; recommended: RequirementSource }
+  >;
+}
+
 export interface Allocation {
   id: number;
   ip: string;
@@ -86,7 +172,12 @@ export interface ResourceFieldPolicyRow {
 
 export type ResourceFieldPolicies = Record<string, ResourceFieldPolicyRow>;
 
-export type PlacementAutoStrategy = "first" | "least_capacity";
+export type PlacementAutoStrategy =
+  | "first"
+  | "least_capacity"
+  | "round_robin"
+  | "fill_first"
+  | "random_weighted";
 
 export type PlacementPolicyValue = number | PlacementAutoStrategy;
 
@@ -94,10 +185,103 @@ export interface PlacementFieldPolicyRow {
   mode: ResourceFieldMode;
   value?: PlacementPolicyValue;
   default?: PlacementPolicyValue;
+  tag?: string;
+}
+
+/** Why a node strategy picked the node it did */
+export interface PlacementExplanation {
+  strategy: PlacementAutoStrategy;
+  strategy_label: string;
+  node_id: number;
+  node_name: string | null;
+  tag: string | null;
+  eligible_nodes: number;
+  reason: string;
+  factors: {
+    server_count: number;
+    /** 0 = unlimited */
+    max_servers: number;
+    memory_percent: number;
+    disk_percent: number;
+    free_allocations: number;
+    weight: number;
+  };
 }
 
 export type PlacementFieldPolicies = Record<string, PlacementFieldPolicyRow>;
 
+/** Admin-defined preset that prefills the create form */
+export interface PresetOption {
+  id: number;
+  name: string;
+  description: string | null;
+  memory: number;
+  cpu: number;
+  disk: number;
+  swap: number;
+  io: number;
+  database_limit: number;
+  allocation_limit: number;
+  backup_limit: number;
+  realm_id: number | null;
+  spell_id: number | null;
+  image: string | null;
+  /** Variable overrides keyed by env variable */
+  variables: Record<string, string>;
+}
+
+export type QuotaField =
+  | "max_servers"
+  | "max_memory_per_server"
+  | "max_servers_per_location"
+  | "max_servers_per_spell";
+
+/** Quota caps; null = no cap */
+export type QuotaLimits = Record<QuotaField, number | null>;
+
+/** Where an effective cap came from: the user's override or one of their groups */
+export interface QuotaSource {
+  type: "user" | "group";
+  group_id?: number;
+  group_name?: string;
+}
+
+/** Effective quotas of a user and what they already use */
+export interface QuotaSummary {
+  limits: QuotaLimits;
+  sources: Record<QuotaField, QuotaSource | null>;
+  usage: {
+    /** Servers created through this plugin that still exist */
+    servers: number;
+    /** Keyed by location ID */
+    by_location: Record<string, number>;
+    /** Keyed by spell ID */
+    by_spell: Record<string, number>;
+  };
+}
+
+export type RateLimitField =
+  | "rate_limit_max_creations"
+  | "rate_limit_window_minutes"
+  | "creation_cooldown_seconds"
+  | "deletion_cooldown_seconds";
+
+/** Creation rate limits that apply to a user and whether one is currently hit */
+export interface RateLimitStatus {
+  /** 0 = no limit / no cooldown */
+  limits: Record<RateLimitField, number>;
+  sources: Record<
+    RateLimitField,
+    { type: "global" | "group"; group_id?: number; group_name?: string }
+  >;
+  /** Seconds until creating is allowed again; 0 = allowed now */
+  retry_after: number;
+  reason: "window" | "cooldown" | "deletion_cooldown" | null;
+}
+
+/** How the primary allocation of a new server is chosen */
+export type AllocationMode = "random" | "user" | "port_range";
+
 export interface ServerCreationOptions {
   locations: Location[];
   nodes: Node[];
@@ -110,12 +294,140 @@ export interface ServerCreationOptions {
   placement_resolved_defaults?: Partial<
     Record<"location" | "node" | "realm" | "spell", number>
   >;
+  placement_explanations?: Partial<
+    Record<"location" | "node" | "realm" | "spell", PlacementExplanation>
+  >;
   /** 0 = unlimited */
   max_servers_per_node?: number;
   /** Whether freemium create requires a linked Discord account */
   require_discord_link?: boolean;
+  /** role_perks: some group is joined through a Discord role, so linking may unlock more */
+  discord?: { linked: boolean; role_perks: boolean };
+  /** "user" lets the form pick the primary allocation */
+  allocation_mode?: AllocationMode;
+  /** Presets this user may pick from */
+  presets?: PresetOption[];
+  /** Per-user/per-group caps with current usage */
+  quotas?: QuotaSummary;
+  /** Creation rate limits and cooldowns */
+  rate_limit?: RateLimitStatus;
+  /** Unfinished creation request to resume tracking */
+  active_creation_request?: CreationRequest | null;
+  /** Waitlist settings and the user's recent entries */
+  waitlist?: WaitlistInfo;
+  naming_policy?: NamingPolicy;
+  /** Lifetime policy and how many servers are warned or suspended */
+  lifetime?: { policy: LifetimePolicy; renewal_needed: number };
+  /** The user's recent servers held for approval */
+  approvals?: ApprovalRequest[];
+}
+
+/** Days before free servers are reclaimed (0 = off) */
+export interface LifetimePolicy {
+  lifetime_days: number;
+  inactivity_days: number;
+  reclaim_warning_days: number;
+  reclaim_deletion_days: number;
+}
+
+/** Name rules shown on the form; banned words stay server-side */
+export interface NamingPolicy {
+  min_length: number;
+  max_length: number;
+  charset: "any" | "alphanumeric" | "slug";
+  /** Characters allowed on top of the charset */
+  extra_characters: string;
+  unique_per_user: boolean;
+  /** e.g. "{username}-{name}"; "" = free-form */
+  template: string;
+  /** 0 = no limit */
+  description_max_length: number;
+}
+
+/** "auto" creates the server as soon as a slot frees up; "confirm" holds the slot until the user confirms */
+export type WaitlistMode = "auto" | "confirm";
+
+export type WaitlistStatus =
+  | "waiting"
+  | "offered"
+  | "fulfilled"
+  | "failed"
+  | "cancelled"
+  | "expired";
+
+export interface WaitlistEntry {
+  id: number;
+  status: WaitlistStatus;
+  /** Place in line within the location (only while waiting) */
+  position: number | null;
+  /** id 0 = any node */
+  location: { id: number; name: string | null };
+  node_id: number | null;
+  server_name: string | null;
+  memory: number;
+  cpu: number;
+  disk: number;
+  /** Creation request of the server, once the entry is fulfilled */
+  creation_request_id: number | null;
+  /** Approval request, when the server needed approval by the time its turn came */
+  approval_request_id: number | null;
+  error: string | null;
+  error_code: string | null;
+  /** When a held slot moves on to the next user (offered only) */
+  offer_expires_at: string | null;
+  created_at: string | null;
+  updated_at: string | null;
+}
+
+export interface WaitlistInfo {
+  enabled: boolean;
+  mode: WaitlistMode;
+  offer_minutes: number;
+  entries: WaitlistEntry[];
 }
 
+export type ApprovalStatus =
+  | "pending"
+  | "approved"
+  | "rejected"
+  | "failed"
+  | "cancelled";
+
+/** A resource or group flagged "requires approval" that the server falls under */
+export interface ApprovalReason {
+  type: "location" | "node" | "realm" | "spell" | "group";
+  id: number;
+  name: string | null;
+}
+
+export interface ApprovalRequest {
+  id: number;
+  status: ApprovalStatus;
+  reasons: ApprovalReason[];
+  server_name: string | null;
+  node_id: number | null;
+  realms_id: number | null;
+  spell_id: number | null;
+  memory: number;
+  cpu: number;
+  disk: number;
+  /** Admin's reason (rejected only) */
+  rejection_reason: string | null;
+  reviewed_at: string | null;
+  /** Creation request of the server, once approved */
+  creation_request_id: number | null;
+  /** Why an approved server could not be created (failed only) */
+  error: string | null;
+  error_code: string | null;
+  created_at: string | null;
+  updated_at: string | null;
+}
+
+/** A create either starts provisioning or holds the server for an admin's approval */
+export type CreateServerResult =
+  | { request: CreationRequest; approval?: undefined }
+  | { approval: ApprovalRequest; request?: undefined };
+
 export interface CreateServerData {
   name: string;
   location_id?: number;
@@ -137,10 +449,118 @@ export interface CreateServerData {
   variables?: Record<string, string>;
 }
 
+export interface ServerValidationIssue {
+  /** Payload key the check belongs to (e.g. "memory", "variables.SERVER_JARFILE"); null = general */
+  field: string | null;
+  error: string;
+  error_code: string;
+  /** Seconds until creating is allowed again (RATE_LIMITED only) */
+  retry_after?: number;
+}
+
+export interface ServerValidationResult {
+  valid: boolean;
+  errors: ServerValidationIssue[];
+  /** True when the only problem is full nodes and the user may join the waitlist */
+  waitlist_available?: boolean;
+  /** Flagged resources and groups that hold the server for approval (empty = created right away) */
+  approval_reasons?: ApprovalReason[];
+  placement: {
+    location_id: number | null;
+    node_id: number | null;
+    realms_id: number | null;
+    spell_id: number | null;
+    allocation_id: number | null;
+    allocation_mode: AllocationMode;
+  };
+  resources: {
+    memory: number;
+    cpu: number;
+    disk: number;
+    swap: number;
+    io: number;
+    database_limit: number;
+    allocation_limit: number;
+    backup_limit: number;
+  };
+}
+
+/** Provisioning pipeline states, in the order a successful request passes through them */
+export type CreationRequestState =
+  | "queued"
+  | "db_created"
+  | "wings_pending"
+  | "installing"
+  | "done"
+  | "failed";
+
+export interface CreationRequest {
+  id: number;
+  state: CreationRequestState;
+  /** Step the request failed at (only set when state is "failed") */
+  failed_state: Exclude<CreationRequestState, "done" | "failed"> | null;
+  server_name: string | null;
+  server_id: number | null;
+  server_uuid: string | null;
+  error: string | null;
+  error_code: string | null;
+  retryable: boolean;
+  /** Report of the last rollback, if the request's changes had to be undone */
+  rollback: CreationRollback | null;
+  attempts: number;
+  created_at: string | null;
+  updated_at: string | null;
+}
+
+export interface CreationRollbackStep {
+  type: "server" | "allocation" | "wings";
+  resource_id: number | string;
+  status: "undone" | "failed";
+  error: string | null;
+}
+
+export interface CreationRollback {
+  /** False when some changes could not be undone */
+  complete: boolean;
+  /** Undo steps in the order they ran (reverse of creation) */
+  steps: CreationRollbackStep[];
+}
+
+const ROLLBACK_STEP_LABELS: Record<CreationRollbackStep["type"], string> = {
+  server: "server record",
+  allocation: "allocation",
+  wings: "server on the node",
+};
+
+/** Human readable description of a rollback step */
+export function describeRollbackStep(step: CreationRollbackStep): string {
+  const label = ROLLBACK_STEP_LABELS[step.type] ?? step.type;
+  if (step.status === "undone") {
+    return step.type === "allocation"
+      ? `Released ${label} #${step.resource_id}`
+      : `Removed ${label}`;
+  }
+  return `Could not undo ${label}${step.error ? `: ${step.error}` : ""}`;
+}
+
+const CREATION_POLL_INTERVAL_MS = 2000;
+const CREATION_POLL_MAX_FAILURES = 3;
+
 export function useNewServerAPI() {
   const loading = ref(false);
   const error = ref<string | null>(null);
   const errorCode = ref<string | null>(null);
+  const validating = ref(false);
+  /** Creation request attached to the last error (set when a server record had to be rolled back) */
+  const failedRequest = ref<CreationRequest | null>(null);
+  /** Rollback report attached to the last error */
+  const rollback = ref<CreationRollback | null>(null);
+  /** Seconds to wait, when the last error was RATE_LIMITED */
+  const retryAfter = ref<number | null>(null);
+  /** Whether the last create error can be answered by joining the waitlist */
+  const waitlistAvailable = ref(false);
+  /** Anti-abuse check behind the last error, if any */
+  const abuseCheck = ref<AbuseCheckFailure | null>(null);
 
   const handleError = (err: unknown): string => {
     if (axios.isAxiosError(err)) {
@@ -148,16 +568,35 @@ export function useNewServerAPI() {
         error_message?: string;
         message?: string;
         error_code?: string;
+        errors?: ApiErrorDetails;
       }>;
-      errorCode.value = axiosError.response?.data?.error_code ?? null;
-      return (
-        axiosError.response?.data?.error_message ||
-        axiosError.response?.data?.message ||
+      const data = axiosError.response?.data;
+      errorCode.value = data?.error_code ?? null;
+      failedRequest.value = data?.errors?.request ?? null;
+      rollback.value = data?.errors?.rollback ?? null;
+      retryAfter.value = data?.errors?.retry_after ?? null;
+      waitlistAvailable.value = data?.errors?.waitlist_available ?? false;
+      abuseCheck.value = data?.errors?.abuse_check ?? null;
+
+      const message =
+        data?.error_message ||
+        data?.message ||
         axiosError.message ||
-        "An error occurred"
+        "An error occurred";
+      const notUndone = (rollback.value?.steps ?? []).filter(
+        (step) => step.status === "failed"
       );
+      if (notUndone.length > 0) {
+        return `${message} (${notUndone.map(describeRollbackStep).join("; ")})`;
+      }
+      return message;
     }
     errorCode.value = null;
+    failedRequest.value = null;
+    rollback.value = null;
+    retryAfter.value = null;
+    waitlistAvailable.value = false;
+    abuseCheck.value = null;
     return err instanceof Error ? err.message : "An unknown error occurred";
   };
 
@@ -187,30 +626,22 @@ export function useNewServerAPI() {
     }
   };
 
-  const getSpellDetails = async (spellId: number): Promise<{
-    id: number;
-    name: string;
-    description?: string;
-    startup?: string;
-    docker_images?: string;
-    docker_image?: string;
-  }> => {
+  const getSpellDetails = async (spellId: number): Promise<SpellDetails> => {
     loading.value = true;
     error.value = null;
     try {
       const response = await axios.get<ApiResponse<{
-        spell: {
-          id: number;
-          name: string;
-          description?: string;
-          startup?: string;
-          docker_images?: string;
-          docker_image?: string;
-        };
+        spell: Omit<SpellDetails, "variables" | "requirements">;
+        variables?: SpellVariable[];
+        requirements?: SpellRequirements;
       }>>(`/api/user/billingresourcesnewservers/spells/${spellId}`);
 
       if (response.data && response.data.success && response.data.data) {
-        return response.data.data.spell;
+        return {
+          ...response.data.data.spell,
+          variables: response.data.data.variables ?? [],
+          requirements: response.data.data.requirements,
+        };
       }
 
       throw new Error(
@@ -225,12 +656,16 @@ export function useNewServerAPI() {
     }
   };
 
-  const getAllocations = async (nodeId: number): Promise<Allocation[]> => {
+  const getAllocations = async (
+    nodeId: number,
+    search?: string
+  ): Promise<Allocation[]> => {
     loading.value = true;
     error.value = null;
     try {
       const response = await axios.get<ApiResponse<{ allocations: Allocation[] }>>(
-        `/api/user/billingresourcesnewservers/allocations?node_id=${nodeId}`
+        `/api/user/billingresourcesnewservers/allocations`,
+        { params: { node_id: nodeId, search: search || undefined } }
       );
 
       if (response.data && response.data.success && response.data.data) {
@@ -249,17 +684,19 @@ export function useNewServerAPI() {
     }
   };
 
-  const createServer = async (data: CreateServerData): Promise<any> => {
+  const createServer = async (
+    data: CreateServerData
+  ): Promise<CreateServerResult> => {
     loading.value = true;
     error.value = null;
     errorCode.value = null;
     try {
-      const response = await axios.post<ApiResponse<any>>(
+      const response = await axios.post<ApiResponse<CreateServerResult>>(
         `/api/user/billingresourcesnewservers/servers`,
         data
       );
 
-      if (response.data && response.data.success) {
+      if (response.data && response.data.success && response.data.data) {
         return response.data.data;
       }
 
@@ -268,21 +705,329 @@ export function useNewServerAPI() {
       );
     } catch (err) {
       const errorMsg = handleError(err);
-      error.value = errorMsg;
+      // A rolled back request is shown in the progress view, a rate limit as a countdown and full nodes as the waitlist offer, instead of replacing the page
+      if (!failedRequest.value && retryAfter.value === null && !waitlistAvailable.value) {
+        error.value = errorMsg;
+      }
       throw new Error(errorMsg);
     } finally {
       loading.value = false;
     }
   };
 
+  /**
+   * Fetch a creation request. Each call also moves the request forward on the backend,
+   * so it never touches the page-level loading/error state.
+   */
+  const getCreationRequest = async (
+    requestId: number
+  ): Promise<CreationRequest> => {
+    try {
+      const response = await axios.get<ApiResponse<{ request: CreationRequest }>>(
+        `/api/user/billingresourcesnewservers/servers/requests/${requestId}`
+      );
+
+      if (response.data && response.data.success && response.data.data) {
+        return response.data.data.request;
+      }
+
+      throw new Error(
+        response.data?.error_message || response.data?.message || "Invalid response format"
+      );
+    } catch (err) {
+      throw new Error(handleError(err));
+    }
+  };
+
+  const retryCreationRequest = async (
+    requestId: number
+  ): Promise<CreationRequest> => {
+    try {
+      const response = await axios.post<ApiResponse<{ request: CreationRequest }>>(
+        `/api/user/billingresourcesnewservers/servers/requests/${requestId}/retry`
+      );
+
+      if (response.data && response.data.success && response.data.data) {
+        return response.data.data.request;
+      }
+
+      throw new Error(
+        response.data?.error_message || response.data?.message || "Invalid response format"
+      );
+    } catch (err) {
+      throw new Error(handleError(err));
+    }
+  };
+
+  /** Give up on a failed creation request and roll back everything it changed. */
+  const cancelCreationRequest = async (
+    requestId: number
+  ): Promise<{ request: CreationRequest; rollback: CreationRollback }> => {
+    try {
+      const response = await axios.delete<
+        ApiResponse<{ request: CreationRequest; rollback: CreationRollback }>
+      >(`/api/user/billingresourcesnewservers/servers/requests/${requestId}`);
+
+      if (response.data && response.data.success && response.data.data) {
+        return response.data.data;
+      }
+
+      throw new Error(
+        response.data?.error_message || response.data?.message || "Invalid response format"
+      );
+    } catch (err) {
+      throw new Error(handleError(err));
+    }
+  };
+
+  /**
+   * Poll a creation request until it is done or failed. Polls run one after another,
+   * so a slow Wings call never overlaps with the next poll.
+   * Resolves with the final request, or with the last known one when aborted.
+   */
+  const pollCreationRequest = async (
+    request: CreationRequest,
+    onUpdate: (request: CreationRequest) => void,
+    signal?: AbortSignal
+  ): Promise<CreationRequest> => {
+    let current = request;
+    let failures = 0;
+
+    while (current.state !== "done" && current.state !== "failed") {
+      if (signal?.aborted) return current;
+      try {
+        current = await getCreationRequest(current.id);
+        failures = 0;
+        onUpdate(current);
+      } catch (err) {
+        failures++;
+        if (failures >= CREATION_POLL_MAX_FAILURES) throw err;
+      }
+      if (current.state === "done" || current.state === "failed") break;
+      await new Promise((resolve) =>
+        setTimeout(resolve, CREATION_POLL_INTERVAL_MS)
+      );
+    }
+
+    return current;
+  };
+
+  /**
+   * Dry-run the create request. Runs in the background while the user edits the form,
+   * so it uses its own `validating` flag and never sets the page-level error.
+   */
+  const validateServer = async (
+    data: Partial<CreateServerData>
+  ): Promise<ServerValidationResult> => {
+    validating.value = true;
+    try {
+      const response = await axios.post<ApiResponse<ServerValidationResult>>(
+        `/api/user/billingresourcesnewservers/servers/validate`,
+        data
+      );
+
+      if (response.data && response.data.success && response.data.data) {
+        return response.data.data;
+      }
+
+      throw new Error(
+        response.data?.error_message || response.data?.message || "Invalid response format"
+      );
+    } catch (err) {
+      if (axios.isAxiosError(err)) {
+        throw new Error(
+          err.response?.data?.error_message ||
+            err.response?.data?.message ||
+            err.message ||
+            "An error occurred"
+        );
+      }
+      throw err instanceof Error ? err : new Error("An unknown error occurred");
+    } finally {
+      validating.value = false;
+    }
+  };
+
+  /**
+   * Ask for a name that follows the naming template. Leaves the page-level error alone
+   * so the caller can show the message next to the name field.
+   */
+  const generateServerName = async (
+    spellId: number,
+    realmId: number
+  ): Promise<string> => {
+    try {
+      const response = await axios.get<ApiResponse<{ name: string }>>(
+        `/api/user/billingresourcesnewservers/servers/generate-name`,
+        { params: { spell_id: spellId || undefined, realms_id: realmId || undefined } }
+      );
+
+      if (response.data && response.data.success && response.data.data) {
+        return response.data.data.name;
+      }
+
+      throw new Error(
+        response.data?.error_message || response.data?.message || "Invalid response format"
+      );
+    } catch (err) {
+      if (axios.isAxiosError(err)) {
+        throw new Error(
+          err.response?.data?.error_message ||
+            err.response?.data?.message ||
+            err.message ||
+            "An error occurred"
+        );
+      }
+      throw err instanceof Error ? err : new Error("An unknown error occurred");
+    }
+  };
+
+  /** Fetch the user's waitlist entries. Also hands freed capacity to the waitlist, so it is safe to poll. */
+  const getWaitlist = async (): Promise<WaitlistInfo> => {
+    try {
+      const response = await axios.get<ApiResponse<WaitlistInfo>>(
+        `/api/user/billingresourcesnewservers/waitlist`
+      );
+
+      if (response.data && response.data.success && response.data.data) {
+        return response.data.data;
+      }
+
+      throw new Error(
+        response.data?.error_message || response.data?.message || "Invalid response format"
+      );
+    } catch (err) {
+      throw new Error(handleError(err));
+    }
+  };
+
+  const joinWaitlist = async (data: CreateServerData): Promise<WaitlistEntry> => {
+    loading.value = true;
+    try {
+      const response = await axios.post<ApiResponse<{ entry: WaitlistEntry }>>(
+        `/api/user/billingresourcesnewservers/waitlist`,
+        data
+      );
+
+      if (response.data && response.data.success && response.data.data) {
+        return response.data.data.entry;
+      }
+
+      throw new Error(
+        response.data?.error_message || response.data?.message || "Invalid response format"
+      );
+    } catch (err) {
+      throw new Error(handleError(err));
+    } finally {
+      loading.value = false;
+    }
+  };
+
+  /**
+   * Create the server of an offered entry. When someone else took the slot the request
+   * fails with WAITLIST_SLOT_TAKEN and the entry is back in line.
+   */
+  const confirmWaitlistEntry = async (
+    entryId: number
+  ): Promise<{ entry: WaitlistEntry } & CreateServerResult> => {
+    try {
+      const response = await axios.post<
+        ApiResponse<{ entry: WaitlistEntry } & CreateServerResult>
+      >(`/api/user/billingresourcesnewservers/waitlist/${entryId}/confirm`);
+
+      if (response.data && response.data.success && response.data.data) {
+        return response.data.data;
+      }
+
+      throw new Error(
+        response.data?.error_message || response.data?.message || "Invalid response format"
+      );
+    } catch (err) {
+      throw new Error(handleError(err));
+    }
+  };
+
+  const leaveWaitlist = async (entryId: number): Promise<WaitlistEntry> => {
+    try {
+      const response = await axios.delete<ApiResponse<{ entry: WaitlistEntry }>>(
+        `/api/user/billingresourcesnewservers/waitlist/${entryId}`
+      );
+
+      if (response.data && response.data.success && response.data.data) {
+        return response.data.data.entry;
+      }
+
+      throw new Error(
+        response.data?.error_message || response.data?.message || "Invalid response format"
+      );
+    } catch (err) {
+      throw new Error(handleError(err));
+    }
+  };
+
+  const getApprovals = async (): Promise<ApprovalRequest[]> => {
+    try {
+      const response = await axios.get<ApiResponse<{ approvals: ApprovalRequest[] }>>(
+        `/api/user/billingresourcesnewservers/approvals`
+      );
+
+      if (response.data && response.data.success && response.data.data) {
+        return response.data.data.approvals;
+      }
+
+      throw new Error(
+        response.data?.error_message || response.data?.message || "Invalid response format"
+      );
+    } catch (err) {
+      throw new Error(handleError(err));
+    }
+  };
+
+  /** Withdraw a server that is still waiting for approval. */
+  const cancelApproval = async (approvalId: number): Promise<ApprovalRequest> => {
+    try {
+      const response = await axios.delete<ApiResponse<{ approval: ApprovalRequest }>>(
+        `/api/user/billingresourcesnewservers/approvals/${approvalId}`
+      );
+
+      if (response.data && response.data.success && response.data.data) {
+        return response.data.data.approval;
+      }
+
+      throw new Error(
+        response.data?.error_message || response.data?.message || "Invalid response format"
+      );
+    } catch (err) {
+      throw new Error(handleError(err));
+    }
+  };
+
   return {
     loading,
     error,
     errorCode,
+    failedRequest,
+    rollback,
+    retryAfter,
+    waitlistAvailable,
+    abuseCheck,
+    validating,
     getOptions,
     getSpellDetails,
     getAllocations,
     createServer,
+    getCreationRequest,
+    retryCreationRequest,
+    cancelCreationRequest,
+    pollCreationRequest,
+    validateServer,
+    generateServerName,
+    getWaitlist,
+    joinWaitlist,
+    confirmWaitlistEntry,
+    leaveWaitlist,
+    getApprovals,
+    cancelApproval,
   };
 }
 
@@ -0,0 +1,143 @@
+import { ref } from "vue";
+import axios from "axios";
+
+function extractApiError(err: unknown, fallback: string): string {
+  if (axios.isAxiosError(err)) {
+    const data = err.response?.data as
+      | { error_message?: string; message?: string }
+      | undefined;
+    return data?.error_message || data?.message || err.message || fallback;
+  }
+  return err instanceof Error ? err.message : fallback;
+}
+
+export interface ServerPreset {
+  id: number;
+  name: string;
+  description: string | null;
+  memory: number;
+  cpu: number;
+  disk: number;
+  swap: number;
+  io: number;
+  database_limit: number;
+  allocation_limit: number;
+  backup_limit: number;
+  realm_id: number | null;
+  spell_id: number | null;
+  image: string | null;
+  /** Variable overrides keyed by env variable */
+  variables: Record<string, string>;
+  enabled: boolean;
+  sort_order: number;
+  /** Groups the preset is restricted to (empty = everyone) */
+  group_ids: number[];
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PresetPayload {
+  name?: string;
+  description?: string | null;
+  memory?: number;
+  cpu?: number;
+  disk?: number;
+  swap?: number;
+  io?: number;
+  database_limit?: number;
+  allocation_limit?: number;
+  backup_limit?: number;
+  realm_id?: number | null;
+  spell_id?: number | null;
+  image?: string | null;
+  variables?: Record<string, string> | null;
+  enabled?: boolean;
+  sort_order?: number;
+  group_ids?: number[];
+}
+
+export function usePresetsAPI() {
+  const loading = ref(false);
+  const error = ref<string | null>(null);
+
+  const getPresets = async (): Promise<ServerPreset[]> => {
+    loading.value = true;
+    error.value = null;
+    try {
+      const response = await axios.get(
+        "/api/admin/billingresourcesnewservers/presets"
+      );
+      return Array.isArray(response.data?.data) ? response.data.data : [];
+    } catch (err) {
+      const msg = extractApiError(err, "Failed to fetch presets");
+      error.value = msg;
+      throw new Error(msg);
+    } finally {
+      loading.value = false;
+    }
+  };
+
+  const createPreset = async (data: PresetPayload): Promise<ServerPreset> => {
+    loading.value = true;
+    error.value = null;
+    try {
+      const response = await axios.post(
+        "/api/admin/billingresourcesnewservers/presets",
+        data
+      );
+      return response.data?.data;
+    } catch (err) {
+      const msg = extractApiError(err, "Failed to create preset");
+      error.value = msg;
+      throw new Error(msg);
+    } finally {
+      loading.value = false;
+    }
+  };
+
+  const updatePreset = async (
+    presetId: number,
+    data: PresetPayload
+  ): Promise<ServerPreset> => {
+    loading.value = true;
+    error.value = null;
+    try {
+      const response = await axios.patch(
+        `/api/admin/billingresourcesnewservers/presets/${presetId}`,
+        data
+      );
+      return response.data?.data;
+    } catch (err) {
+      const msg = extractApiError(err, "Failed to update preset");
+      error.value = msg;
+      throw new Error(msg);
+    } finally {
+      loading.value = false;
+    }
+  };
+
+  const deletePreset = async (presetId: number): Promise<void> => {
+    loading.value = true;
+    error.value = null;
+    try {
+      await axios.delete(
+        `/api/admin/billingresourcesnewservers/presets/${presetId}`
+      );
+    } catch (err) {
+      const msg = extractApiError(err, "Failed to delete preset");
+      error.value = msg;
+      throw new Error(msg);
+    } finally {
+      loading.value = false;
+    }
+  };
+
+  return {
+    loading,
+    error,
+    getPresets,
+    createPreset,
+    updatePreset,
+    deletePreset,
+  };
+}
@@ -23,7 +23,12 @@ export interface ResourceFieldPolicyRow {
 
 export type ResourceFieldPolicies = Record<string, ResourceFieldPolicyRow>;
 
-export type PlacementAutoStrategy = "first" | "least_capacity";
+export type PlacementAutoStrategy =
+  | "first"
+  | "least_capacity"
+  | "round_robin"
+  | "fill_first"
+  | "random_weighted";
 
 export type PlacementPolicyValue = number | PlacementAutoStrategy;
 
@@ -33,14 +38,76 @@ export interface PlacementFieldPolicyRow {
   value?: PlacementPolicyValue;
   /** Pre-select when mode is user (optional) */
   default?: PlacementPolicyValue;
+  /** Node strategies only: limit candidates to nodes with this tag */
+  tag?: string;
 }
 
+/** Per-node placement weight (0 = never auto-picked) and tags */
+export interface NodePlacementProfile {
+  weight: number;
+  tags: string[];
+}
+
+/** Resources that can be bounded per node and per location */
+export type BoundedResource = "memory" | "cpu" | "disk" | "swap";
+
+/** Minimum and maximum of a resource (null = no bound) */
+export interface ResourceBound {
+  min: number | null;
+  max: number | null;
+}
+
+export type ResourceBounds = Partial<Record<BoundedResource, ResourceBound>>;
+
+export type PlacementScoreFactor =
+  | "server_pressure"
+  | "memory_usage"
+  | "disk_usage"
+  | "free_allocations";
+
 export type PlacementFieldPolicies = Record<string, PlacementFieldPolicyRow>;
 
+/** How the primary allocation of a new server is chosen */
+export type AllocationMode = "random" | "user" | "port_range";
+
+/** Rules for server names and descriptions */
+export interface NamingPolicy {
+  min_length: number;
+  max_length: number;
+  charset: "any" | "alphanumeric" | "slug";
+  /** Characters allowed on top of the charset */
+  extra_characters: string;
+  /** Matched case-insensitively anywhere in the name */
+  banned_words: string[];
+  unique_per_user: boolean;
+  /** Placeholders: {username} {spell} {realm} {n} {name}; "" = free-form */
+  template: string;
+  /** 0 = no limit */
+  description_max_length: number;
+}
+
+/** Pre-creation anti-abuse checks; 0 and empty lists turn a check off */
+export interface AbuseCheckPolicy {
+  min_account_age_days: number;
+  require_verified_email: boolean;
+  /** Servers created here, counted over every account registered from the same IP */
+  max_servers_per_ip: number;
+  /** Usernames or email addresses, compared ignoring case */
+  blocked_users: string[];
+  /** Single IPv4/IPv6 addresses or CIDR ranges, matched against the registration and last login IP */
+  blocked_ip_ranges: string[];
+}
+
 export interface PluginSettings {
   user_creation_enabled: boolean;
   /** Require linked Discord for freemium free-tier server creation */
   require_discord_link?: boolean;
+  /** The Discord webhook URL itself is never returned (anyone holding it can post to the channel) */
+  discord_webhook_url_set?: boolean;
+  /** Guild whose roles feed discord_role membership conditions */
+  discord_guild_id?: string;
+  /** The bot token itself is never returned */
+  discord_bot_token_set?: boolean;
   user_restriction_mode?: "all" | "specific";
   allowed_users?: number[];
   allowed_locations: number[];
@@ -54,7 +121,42 @@ export interface PluginSettings {
   max_servers_per_node?: number;
   /** Per-node overrides (node ID => max servers) */
   node_server_caps?: Record<number, number>;
+  /** Nodes without a profile have weight 1 and no tags */
+  node_placement_profiles?: Record<number, NodePlacementProfile>;
+  /** Resource bounds per node (node ID => bounds) */
+  node_resource_bounds?: Record<number, ResourceBounds>;
+  /** Resource bounds for every node of a location (location ID => bounds) */
+  location_resource_bounds?: Record<number, ResourceBounds>;
+  /** Multipliers of the node load score (lower score = less loaded) */
+  placement_score_weights?: Record<PlacementScoreFactor, number>;
   node_at_capacity_error?: string;
+  allocation_mode?: AllocationMode;
+  /** Preferred port range for the port_range allocation mode */
+  allocation_port_range_start?: number;
+  allocation_port_range_end?: number;
+  /** Creations allowed per rolling window (0 = no limit) */
+  rate_limit_max_creations?: number;
+  rate_limit_window_minutes?: number;
+  /** Minimum wait between two creations (0 = none) */
+  creation_cooldown_seconds?: number;
+  /** Wait after deleting a server created here (0 = none) */
+  deletion_cooldown_seconds?: number;
+  /** Days a server created here lives before it must be renewed (0 = forever) */
+  lifetime_days?: number;
+  /** Days a server may go without activity: nothing in its activity log, not seen running (0 = never reclaimed) */
+  inactivity_days?: number;
+  /** Notice given before an expired server is suspended */
+  reclaim_warning_days?: number;
+  /** Days a suspended server is kept before deletion */
+  reclaim_deletion_days?: number;
+  naming_policy?: NamingPolicy;
+  abuse_checks?: AbuseCheckPolicy;
+  /** Let users queue when every eligible node is full */
+  waitlist_enabled?: boolean;
+  /** "auto" creates the server when a slot frees up; "confirm" holds it for the user */
+  waitlist_mode?: "auto" | "confirm";
+  /** How long a held slot waits for confirmation */
+  waitlist_offer_minutes?: number;
   permission_mode_location?: "open" | "restricted";
   permission_mode_node?: "open" | "restricted";
   permission_mode_realm?: "open" | "restricted";
@@ -70,6 +172,11 @@ export interface PluginSettings {
 export interface UpdateSettingsData {
   user_creation_enabled?: boolean;
   require_discord_link?: boolean;
+  /** Write-only; "" keeps the stored URL, null turns announcements off */
+  discord_webhook_url?: string | null;
+  discord_guild_id?: string;
+  /** Write-only; "" clears the stored token */
+  discord_bot_token?: string;
   user_restriction_mode?: "all" | "specific";
   allowed_users?: number[];
   allowed_locations?: number[];
@@ -83,7 +190,42 @@ export interface UpdateSettingsData {
   max_servers_per_node?: number;
   /** Per-node overrides (node ID => max servers) */
   node_server_caps?: Record<number, number>;
+  /** Nodes without a profile have weight 1 and no tags */
+  node_placement_profiles?: Record<number, NodePlacementProfile>;
+  /** Resource bounds per node (node ID => bounds) */
+  node_resource_bounds?: Record<number, ResourceBounds>;
+  /** Resource bounds for every node of a location (location ID => bounds) */
+  location_resource_bounds?: Record<number, ResourceBounds>;
+  /** Multipliers of the node load score (lower score = less loaded) */
+  placement_score_weights?: Record<PlacementScoreFactor, number>;
   node_at_capacity_error?: string;
+  allocation_mode?: AllocationMode;
+  /** Preferred port range for the port_range allocation mode */
+  allocation_port_range_start?: number;
+  allocation_port_range_end?: number;
+  /** Creations allowed per rolling window (0 = no limit) */
+  rate_limit_max_creations?: number;
+  rate_limit_window_minutes?: number;
+  /** Minimum wait between two creations (0 = none) */
+  creation_cooldown_seconds?: number;
+  /** Wait after deleting a server created here (0 = none) */
+  deletion_cooldown_seconds?: number;
+  /** Days a server created here lives before it must be renewed (0 = forever) */
+  lifetime_days?: number;
+  /** Days a server may go without activity: nothing in its activity log, not seen running (0 = never reclaimed) */
+  inactivity_days?: number;
+  /** Notice given before an expired server is suspended */
+  reclaim_warning_days?: number;
+  /** Days a suspended server is kept before deletion */
+  reclaim_deletion_days?: number;
+  naming_policy?: NamingPolicy;
+  abuse_checks?: AbuseCheckPolicy;
+  /** Let users queue when every eligible node is full */
+  waitlist_enabled?: boolean;
+  /** "auto" creates the server when a slot frees up; "confirm" holds it for the user */
+  waitlist_mode?: "auto" | "confirm";
+  /** How long a held slot waits for confirmation */
+  waitlist_offer_minutes?: number;
   permission_mode_location?: "open" | "restricted";
   permission_mode_node?: "open" | "restricted";
   permission_mode_realm?: "open" | "restricted";
@@ -96,6 +238,17 @@ export interface UpdateSettingsData {
   placement_field_policies?: PlacementFieldPolicies;
 }
 
+/** What one reclamation pass did */
+export interface ReclamationStats {
+  checked: number;
+  warned: number;
+  restored: number;
+  suspended: number;
+  deleted: number;
+  /** Already deleted outside the plugin */
+  gone: number;
+}
+
 export function useSettingsAPI() {
   const loading = ref(false);
   const error = ref<string | null>(null);
@@ -162,11 +315,34 @@ export function useSettingsAPI() {
     }
   };
 
+  /** Warn, suspend or delete expired and inactive servers now instead of on the next lazy pass */
+  const processReclamation = async (): Promise<ReclamationStats> => {
+    error.value = null;
+    try {
+      const response = await axios.post<ApiResponse<{ processed: ReclamationStats }>>(
+        `/api/admin/billingresourcesnewservers/servers/reclaim`
+      );
+
+      if (response.data && response.data.success && response.data.data) {
+        return response.data.data.processed;
+      }
+
+      throw new Error(
+        response.data?.error_message || response.data?.message || "Invalid response format"
+      );
+    } catch (err) {
+      const errorMsg = handleError(err);
+      error.value = errorMsg;
+      throw new Error(errorMsg);
+    }
+  };
+
   return {
     loading,
     error,
     getSettings,
     updateSettings,
+    processReclamation,
   };
 }
 
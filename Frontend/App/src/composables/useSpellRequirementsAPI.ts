@@ -0,0 +1,97 @@
+import { ref } from "vue";
+import axios from "axios";
+
+function extractApiError(err: unknown, fallback: string): string {
+  if (axios.isAxiosError(err)) {
+    const data = err.response?.data as
+      | { error_message?: string; message?: string }
+      | undefined;
+    return data?.error_message || data?.message || err.message || fallback;
+  }
+  return err instanceof Error ? err.message : fallback;
+}
+
+/** Realm requirements apply to every spell of the realm that does not set its own */
+export type SpellRequirementScope = "realm" | "spell";
+
+export const SPELL_REQUIREMENT_FIELDS = [
+  "min_memory",
+  "min_cpu",
+  "min_disk",
+  "recommended_memory",
+  "recommended_cpu",
+  "recommended_disk",
+] as const;
+
+export type SpellRequirementField = (typeof SPELL_REQUIREMENT_FIELDS)[number];
+
+export type SpellRequirement = {
+  resource_type: SpellRequirementScope;
+  resource_id: number;
+  /** Allowed docker images (spells only, null = every image of the spell) */
+  docker_images: string[] | null;
+} & Record<SpellRequirementField, number | null>;
+
+export function useSpellRequirementsAPI() {
+  const loading = ref(false);
+  const error = ref<string | null>(null);
+
+  const getRequirements = async (): Promise<SpellRequirement[]> => {
+    loading.value = true;
+    error.value = null;
+    try {
+      const response = await axios.get(
+        "/api/admin/billingresourcesnewservers/spell-requirements"
+      );
+      return response.data?.data?.requirements ?? [];
+    } catch (err) {
+      const msg = extractApiError(err, "Failed to fetch spell requirements");
+      error.value = msg;
+      throw new Error(msg);
+    } finally {
+      loading.value = false;
+    }
+  };
+
+  /** Returns null when every value was cleared and the entry removed */
+  const setRequirements = async (
+    requirement: SpellRequirement
+  ): Promise<SpellRequirement | null> => {
+    error.value = null;
+    try {
+      const response = await axios.post(
+        "/api/admin/billingresourcesnewservers/spell-requirements",
+        requirement
+      );
+      return response.data?.data?.requirement ?? null;
+    } catch (err) {
+      const msg = extractApiError(err, "Failed to save spell requirements");
+      error.value = msg;
+      throw new Error(msg);
+    }
+  };
+
+  const deleteRequirements = async (
+    resourceType: SpellRequirementScope,
+    resourceId: number
+  ): Promise<void> => {
+    error.value = null;
+    try {
+      await axios.delete(
+        `/api/admin/billingresourcesnewservers/spell-requirements/${resourceType}/${resourceId}`
+      );
+    } catch (err) {
+      const msg = extractApiError(err, "Failed to delete spell requirements");
+      error.value = msg;
+      throw new Error(msg);
+    }
+  };
+
+  return {
+    loading,
+    error,
+    getRequirements,
+    setRequirements,
+    deleteRequirements,
+  };
+}
@@ -1,6 +1,11 @@
 import { ref } from "vue";
 import axios from "axios";
 import type { AxiosError } from "axios";
+import type {
+  QuotaLimits,
+  QuotaSummary,
+  ServerCreationOptions,
+} from "./useNewServerAPI";
 
 export interface ApiResponse<T> {
   success: boolean;
@@ -11,13 +16,45 @@ export interface ApiResponse<T> {
   error_code?: string;
 }
 
-export interface UserPermission {
+/**
+ * Allow grants access, deny overrides grants. Precedence: user deny, user allow,
+ * group deny, group allow (highest priority group first), then the resource mode.
+ */
+export type PermissionEffect = "allow" | "deny";
+
+/** Effect and validity window of a user or group permission entry */
+export interface PermissionRuleFields {
+  effect: PermissionEffect;
+  /** Y-m-d H:i:s in server time; null = no start */
+  starts_at: string | null;
+  /** Y-m-d H:i:s in server time; null = never expires */
+  expires_at: string | null;
+  /** Whether the entry is inside its validity window right now */
+  is_active: boolean;
+}
+
+/** Rule fields accepted when saving an entry (omitted fields keep their current value) */
+export interface PermissionRuleInput {
+  effect?: PermissionEffect;
+  starts_at?: string | null;
+  expires_at?: string | null;
+}
+
+export interface UserPermission extends PermissionRuleFields {
   id: number;
   resource_type: "location" | "node" | "realm" | "spell";
   resource_id: number;
   custom_error_message?: string;
 }
 
+export interface UserPermissionEntry extends PermissionRuleFields {
+  id: number;
+  resource_id: number;
+  /** null once the resource was deleted */
+  resource_name?: string | null;
+  custom_error_message?: string;
+}
+
 export interface UserPermissionsData {
   user: {
     id: number;
@@ -25,35 +62,115 @@ export interface UserPermissionsData {
     email: string;
   };
   permissions: {
-    locations: Array<{
-      id: number;
-      resource_id: number;
-      custom_error_message?: string;
-    }>;
-    nodes: Array<{
-      id: number;
-      resource_id: number;
-      custom_error_message?: string;
-    }>;
-    realms: Array<{
-      id: number;
-      resource_id: number;
-      custom_error_message?: string;
-    }>;
-    spells: Array<{
-      id: number;
-      resource_id: number;
-      custom_error_message?: string;
-    }>;
+    locations: UserPermissionEntry[];
+    nodes: UserPermissionEntry[];
+    realms: UserPermissionEntry[];
+    spells: UserPermissionEntry[];
   };
 }
 
-export interface AddPermissionData {
+export interface AddPermissionData extends PermissionRuleInput {
   resource_type: "location" | "node" | "realm" | "spell";
   resource_id: number;
   custom_error_message?: string;
 }
 
+export type LookupResourceType = "location" | "node" | "realm" | "spell";
+
+export interface LookupPagination {
+  page: number;
+  per_page: number;
+  total: number;
+  total_pages: number;
+}
+
+export interface LookupUser {
+  id: number;
+  uuid: string;
+  username: string;
+  email: string;
+}
+
+export interface LookupResource {
+  id: number;
+  name: string;
+  /** Description, or the FQDN for nodes */
+  description: string | null;
+}
+
+export interface UserWithPermissions {
+  id: number;
+  username: string;
+  email: string;
+  permission_count: number;
+  deny_count: number;
+  counts: Record<LookupResourceType, number>;
+}
+
+export interface UserQuotasData {
+  /** The user's own caps; null = no override, null fields fall back to groups */
+  override: QuotaLimits | null;
+  /** Caps actually enforced, with usage */
+  effective: QuotaSummary;
+}
+
+/** Rule that decided whether a user may use a resource */
+export type PermissionRule =
+  | "global_list"
+  | "resource_mode"
+  | "user_deny"
+  | "user_grant"
+  | "group_deny"
+  | "group_grant";
+
+/** Where the custom error message that applies to a resource comes from */
+export type PermissionErrorSource =
+  | "user_permission"
+  | "group_permission"
+  | "resource"
+  | "type_default";
+
+export interface PermissionExplanation {
+  id: number;
+  name: string | null;
+  /** Nodes only */
+  location_id?: number | null;
+  /** Spells only */
+  realm_id?: number | null;
+  allowed: boolean;
+  mode: "open" | "restricted";
+  rule: PermissionRule;
+  /** Group whose entry decided (group_grant / group_deny only) */
+  group: { id: number; name: string | null } | null;
+  /** Other groups of the user with an active entry for the resource */
+  other_groups: Array<{
+    id: number;
+    name: string | null;
+    effect: PermissionEffect;
+  }>;
+  custom_error: string | null;
+  error_source: PermissionErrorSource | null;
+  /** Entries ignored because they are outside their validity window */
+  inactive_entries: number;
+  reason: string;
+}
+
+export interface UserSimulationData {
+  user: { id: number; username: string; email: string };
+  /** The user's groups, highest priority first */
+  groups: Array<{ id: number; name: string; priority: number }>;
+  /** Whether the user can open the create form at all */
+  access: { allowed: boolean; error: string | null; error_code: string | null };
+  /** Exactly what the options endpoint returns for the user; null when access is denied */
+  options: ServerCreationOptions | null;
+  explanations: {
+    locations: PermissionExplanation[];
+    nodes: PermissionExplanation[];
+    realms: PermissionExplanation[];
+    spells: PermissionExplanation[];
+  };
+}
+
 export function useUserPermissionsAPI() {
   const loading = ref(false);
   const error = ref<string | null>(null);
@@ -74,6 +191,57 @@ export function useUserPermissionsAPI() {
     return err instanceof Error ? err.message : "An unknown error occurred";
   };
 
+  // Lookups run as the admin types, so they leave loading and error to the caller
+
+  const searchUsers = async (
+    search: string,
+    page = 1,
+    perPage = 10
+  ): Promise<{ users: LookupUser[]; pagination: LookupPagination }> => {
+    try {
+      const response = await axios.get(
+        "/api/admin/billingresourcesnewservers/lookup/users",
+        { params: { search: search || undefined, page, per_page: perPage } }
+      );
+      return response.data?.data;
+    } catch (err) {
+      throw new Error(handleError(err));
+    }
+  };
+
+  const searchResources = async (
+    resourceType: LookupResourceType,
+    search: string,
+    page = 1,
+    perPage = 10
+  ): Promise<{ resources: LookupResource[]; pagination: LookupPagination }> => {
+    try {
+      const response = await axios.get(
+        `/api/admin/billingresourcesnewservers/lookup/${resourceType}`,
+        { params: { search: search || undefined, page, per_page: perPage } }
+      );
+      return response.data?.data;
+    } catch (err) {
+      throw new Error(handleError(err));
+    }
+  };
+
+  const getUsersWithPermissions = async (
+    search: string,
+    page = 1,
+    perPage = 25
+  ): Promise<{ users: UserWithPermissions[]; pagination: LookupPagination }> => {
+    try {
+      const response = await axios.get(
+        "/api/admin/billingresourcesnewservers/user-permissions",
+        { params: { search: search || undefined, page, per_page: perPage } }
+      );
+      return response.data?.data;
+    } catch (err) {
+      throw new Error(handleError(err));
+    }
+  };
+
   const getUserPermissions = async (
     userId: number
   ): Promise<UserPermissionsData> => {
@@ -157,12 +325,127 @@ export function useUserPermissionsAPI() {
     }
   };
 
+  const getUserQuotas = async (userId: number): Promise<UserQuotasData> => {
+    loading.value = true;
+    error.value = null;
+    try {
+      const response = await axios.get<ApiResponse<UserQuotasData>>(
+        `/api/admin/billingresourcesnewservers/users/${userId}/quotas`
+      );
+
+      if (response.data && response.data.success && response.data.data) {
+        return response.data.data;
+      }
+
+      throw new Error(
+        response.data?.error_message ||
+          response.data?.message ||
+          "Invalid response format"
+      );
+    } catch (err) {
+      const errorMsg = handleError(err);
+      error.value = errorMsg;
+      throw new Error(errorMsg);
+    } finally {
+      loading.value = false;
+    }
+  };
+
+  const setUserQuotas = async (
+    userId: number,
+    data: QuotaLimits
+  ): Promise<UserQuotasData> => {
+    loading.value = true;
+    error.value = null;
+    try {
+      const response = await axios.put<ApiResponse<UserQuotasData>>(
+        `/api/admin/billingresourcesnewservers/users/${userId}/quotas`,
+        data
+      );
+
+      if (response.data && response.data.success && response.data.data) {
+        return response.data.data;
+      }
+
+      throw new Error(
+        response.data?.error_message ||
+          response.data?.message ||
+          "Failed to save quotas"
+      );
+    } catch (err) {
+      const errorMsg = handleError(err);
+      error.value = errorMsg;
+      throw new Error(errorMsg);
+    } finally {
+      loading.value = false;
+    }
+  };
+
+  const deleteUserQuotas = async (userId: number): Promise<UserQuotasData> => {
+    loading.value = true;
+    error.value = null;
+    try {
+      const response = await axios.delete<ApiResponse<UserQuotasData>>(
+        `/api/admin/billingresourcesnewservers/users/${userId}/quotas`
+      );
+
+      if (response.data && response.data.success && response.data.data) {
+        return response.data.data;
+      }
+
+      throw new Error(
+        response.data?.error_message ||
+          response.data?.message ||
+          "Failed to remove quotas"
+      );
+    } catch (err) {
+      const errorMsg = handleError(err);
+      error.value = errorMsg;
+      throw new Error(errorMsg);
+    } finally {
+      loading.value = false;
+    }
+  };
+
+  const simulateUser = async (userId: number): Promise<UserSimulationData> => {
+    loading.value = true;
+    error.value = null;
+    try {
+      const response = await axios.get<ApiResponse<UserSimulationData>>(
+        `/api/admin/billingresourcesnewservers/users/${userId}/simulate`
+      );
+
+      if (response.data && response.data.success && response.data.data) {
+        return response.data.data;
+      }
+
+      throw new Error(
+        response.data?.error_message ||
+          response.data?.message ||
+          "Invalid response format"
+      );
+    } catch (err) {
+      const errorMsg = handleError(err);
+      error.value = errorMsg;
+      throw new Error(errorMsg);
+    } finally {
+      loading.value = false;
+    }
+  };
+
   return {
     loading,
     error,
+    searchUsers,
+    searchResources,
+    getUsersWithPermissions,
     getUserPermissions,
     addPermission,
     deletePermission,
+    getUserQuotas,
+    setUserQuotas,
+    deleteUserQuotas,
+    simulateUser,
   };
 }
 
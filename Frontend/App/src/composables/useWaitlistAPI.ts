@@ -0,0 +1,114 @@
+import { ref } from "vue";
+import axios from "axios";
+import type { WaitlistEntry, WaitlistStatus } from "./useNewServerAPI";
+
+function extractApiError(err: unknown, fallback: string): string {
+  if (axios.isAxiosError(err)) {
+    const data = err.response?.data as
+      | { error_message?: string; message?: string }
+      | undefined;
+    return data?.error_message || data?.message || err.message || fallback;
+  }
+  return err instanceof Error ? err.message : fallback;
+}
+
+export interface AdminWaitlistEntry extends WaitlistEntry {
+  user: { id: number; username: string | null; email: string | null };
+}
+
+/** Result of handing freed capacity to the waitlist */
+export interface WaitlistProcessStats {
+  /** Offers that ran out before the user confirmed */
+  expired: number;
+  /** Slots now held for a user (confirm mode) */
+  offered: number;
+  /** Servers created straight away (auto mode) */
+  created: number;
+  /** Entries handed to the approval queue because their server now needs approval */
+  held: number;
+  /** Entries that no longer pass validation */
+  failed: number;
+}
+
+export interface WaitlistPage {
+  entries: AdminWaitlistEntry[];
+  processed: WaitlistProcessStats;
+  pagination: {
+    page: number;
+    per_page: number;
+    total: number;
+    total_pages: number;
+  };
+}
+
+/** "active" = waiting or offered */
+export type WaitlistStatusFilter = WaitlistStatus | "active" | "all";
+
+export function useWaitlistAPI() {
+  const loading = ref(false);
+  const error = ref<string | null>(null);
+
+  const getWaitlist = async (
+    status: WaitlistStatusFilter = "active",
+    page = 1,
+    perPage = 25
+  ): Promise<WaitlistPage> => {
+    loading.value = true;
+    error.value = null;
+    try {
+      const response = await axios.get(
+        "/api/admin/billingresourcesnewservers/waitlist",
+        {
+          params: {
+            status: status === "active" ? undefined : status,
+            page,
+            per_page: perPage,
+          },
+        }
+      );
+      return response.data?.data;
+    } catch (err) {
+      const msg = extractApiError(err, "Failed to fetch waitlist");
+      error.value = msg;
+      throw new Error(msg);
+    } finally {
+      loading.value = false;
+    }
+  };
+
+  const processWaitlist = async (): Promise<WaitlistProcessStats> => {
+    error.value = null;
+    try {
+      const response = await axios.post(
+        "/api/admin/billingresourcesnewservers/waitlist/process"
+      );
+      return response.data?.data?.processed;
+    } catch (err) {
+      const msg = extractApiError(err, "Failed to process waitlist");
+      error.value = msg;
+      throw new Error(msg);
+    }
+  };
+
+  const removeEntry = async (entryId: number): Promise<AdminWaitlistEntry> => {
+    error.value = null;
+    try {
+      const response = await axios.post(
+        `/api/admin/billingresourcesnewservers/waitlist/${entryId}/remove`
+      );
+      return response.data?.data?.entry;
+    } catch (err) {
+      const msg = extractApiError(err, "Failed to remove waitlist entry");
+      error.value = msg;
+      throw new Error(msg);
+    }
+  };
+
+  return {
+    loading,
+    error,
+    getWaitlist,
+    processWaitlist,
+    removeEntry,
+  };
+}
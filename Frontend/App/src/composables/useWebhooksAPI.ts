@@ -0,0 +1,246 @@
+import { ref } from "vue";
+import axios from "axios";
+
+function extractApiError(err: unknown, fallback: string): string {
+  if (axios.isAxiosError(err)) {
+    const data = err.response?.data as
+      | { error_message?: string; message?: string }
+      | undefined;
+    return data?.error_message || data?.message || err.message || fallback;
+  }
+  return err instanceof Error ? err.message : fallback;
+}
+
+export type WebhookEvent =
+  | "server.creation.requested"
+  | "server.creation.succeeded"
+  | "server.creation.failed";
+
+export interface Webhook {
+  id: number;
+  name: string;
+  url: string;
+  /** HMAC-SHA256 key for X-Webhook-Signature; only returned when it was just created or rotated */
+  secret?: string;
+  has_secret: boolean;
+  /** Last 4 characters of the secret, to tell secrets apart */
+  secret_last4: string | null;
+  /** null = every event */
+  events: WebhookEvent[] | null;
+  max_attempts: number;
+  enabled: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface WebhookInput {
+  name?: string;
+  url?: string;
+  /** Empty on create = generate one */
+  secret?: string | null;
+  regenerate_secret?: boolean;
+  events?: WebhookEvent[] | null;
+  max_attempts?: number;
+  enabled?: boolean;
+}
+
+/** pending = waiting for its next attempt; failed = out of attempts */
+export type WebhookDeliveryStatus = "pending" | "delivered" | "failed";
+
+export interface WebhookDelivery {
+  id: number;
+  /** null for Discord announcements */
+  webhook_id: number | null;
+  /** webhook = a configured webhook; discord = creation announcement for the Discord webhook URL */
+  target: "webhook" | "discord";
+  webhook_name: string | null;
+  webhook_url: string | null;
+  /** One of the webhook events, or "ping" for test events */
+  event: string;
+  payload: Record<string, unknown>;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  response_status: number | null;
+  response_body: string | null;
+  error_message: string | null;
+  duration_ms: number | null;
+  next_attempt_at: string | null;
+  delivered_at: string | null;
+  created_at: string;
+}
+
+/** Outcome of sending due retries */
+export interface WebhookProcessStats {
+  delivered: number;
+  retrying: number;
+  failed: number;
+}
+
+export interface WebhookDeliveryPage {
+  deliveries: WebhookDelivery[];
+  processed: WebhookProcessStats;
+  pagination: {
+    page: number;
+    per_page: number;
+    total: number;
+    total_pages: number;
+  };
+}
+
+export function useWebhooksAPI() {
+  const loading = ref(false);
+  const error = ref<string | null>(null);
+
+  const getWebhooks = async (): Promise<{
+    webhooks: Webhook[];
+    events: WebhookEvent[];
+  }> => {
+    loading.value = true;
+    error.value = null;
+    try {
+      const response = await axios.get(
+        "/api/admin/billingresourcesnewservers/webhooks"
+      );
+      return {
+        webhooks: response.data?.data?.webhooks ?? [],
+        events: response.data?.data?.events ?? [],
+      };
+    } catch (err) {
+      const msg = extractApiError(err, "Failed to fetch webhooks");
+      error.value = msg;
+      throw new Error(msg);
+    } finally {
+      loading.value = false;
+    }
+  };
+
+  const createWebhook = async (input: WebhookInput): Promise<Webhook> => {
+    error.value = null;
+    try {
+      const response = await axios.post(
+        "/api/admin/billingresourcesnewservers/webhooks",
+        input
+      );
+      return response.data?.data;
+    } catch (err) {
+      const msg = extractApiError(err, "Failed to create webhook");
+      error.value = msg;
+      throw new Error(msg);
+    }
+  };
+
+  const updateWebhook = async (
+    webhookId: number,
+    input: WebhookInput
+  ): Promise<Webhook> => {
+    error.value = null;
+    try {
+      const response = await axios.patch(
+        `/api/admin/billingresourcesnewservers/webhooks/${webhookId}`,
+        input
+      );
+      return response.data?.data;
+    } catch (err) {
+      const msg = extractApiError(err, "Failed to update webhook");
+      error.value = msg;
+      throw new Error(msg);
+    }
+  };
+
+  const deleteWebhook = async (webhookId: number): Promise<void> => {
+    error.value = null;
+    try {
+      await axios.delete(
+        `/api/admin/billingresourcesnewservers/webhooks/${webhookId}`
+      );
+    } catch (err) {
+      const msg = extractApiError(err, "Failed to delete webhook");
+      error.value = msg;
+      throw new Error(msg);
+    }
+  };
+
+  const testWebhook = async (webhookId: number): Promise<WebhookDelivery> => {
+    error.value = null;
+    try {
+      const response = await axios.post(
+        `/api/admin/billingresourcesnewservers/webhooks/${webhookId}/test`
+      );
+      return response.data?.data?.delivery;
+    } catch (err) {
+      const msg = extractApiError(err, "Failed to send test event");
+      error.value = msg;
+      throw new Error(msg);
+    }
+  };
+
+  const getDeliveries = async (
+    filters: { webhookId?: number | null; status?: WebhookDeliveryStatus | null } = {},
+    page = 1,
+    perPage = 25
+  ): Promise<WebhookDeliveryPage> => {
+    loading.value = true;
+    error.value = null;
+    try {
+      const response = await axios.get(
+        "/api/admin/billingresourcesnewservers/webhook-deliveries",
+        {
+          params: {
+            webhook_id: filters.webhookId ?? undefined,
+            status: filters.status ?? undefined,
+            page,
+            per_page: perPage,
+          },
+        }
+      );
+      return response.data?.data;
+    } catch (err) {
+      const msg = extractApiError(err, "Failed to fetch webhook deliveries");
+      error.value = msg;
+      throw new Error(msg);
+    } finally {
+      loading.value = false;
+    }
+  };
+
+  const processDeliveries = async (): Promise<WebhookProcessStats> => {
+    error.value = null;
+    try {
+      const response = await axios.post(
+        "/api/admin/billingresourcesnewservers/webhook-deliveries/process"
+      );
+      return response.data?.data?.processed;
+    } catch (err) {
+      const msg = extractApiError(err, "Failed to process webhook deliveries");
+      error.value = msg;
+      throw new Error(msg);
+    }
+  };
+
+  const redeliver = async (deliveryId: number): Promise<WebhookDelivery> => {
+    error.value = null;
+    try {
+      const response = await axios.post(
+        `/api/admin/billingresourcesnewservers/webhook-deliveries/${deliveryId}/redeliver`
+      );
+      return response.data?.data?.delivery;
+    } catch (err) {
+      const msg = extractApiError(err, "Failed to redeliver event");
+      error.value = msg;
+      throw new Error(msg);
+    }
+  };
+
+  return {
+    loading,
+    error,
+    getWebhooks,
+    createWebhook,
+    updateWebhook,
+    deleteWebhook,
+    testWebhook,
+    getDeliveries,
+    processDeliveries,
+    redeliver,
+  };
+}
@@ -0,0 +1,160 @@
+/**
+ * Client-side mirror of the Laravel-style rule strings used by spell variables
+ * (e.g. "required|integer|between:1,100"). The backend re-validates everything.
+ */
+
+export type ParsedRule = [name: string, param: string];
+
+export type SpellVariableInputKind = "text" | "number" | "boolean" | "select";
+
+export function parseVariableRules(rules: string | null | undefined): ParsedRule[] {
+  const parsed: ParsedRule[] = [];
+  const segments = (rules ?? "").split("|");
+  for (let i = 0; i < segments.length; i++) {
+    let segment = (segments[i] ?? "").trim();
+    if (segment === "") continue;
+    // Regex patterns may contain "|" themselves
+    if (segment.startsWith("regex:")) {
+      segment = segments.slice(i).join("|");
+      i = segments.length;
+    }
+    const idx = segment.indexOf(":");
+    const name = (idx === -1 ? segment : segment.slice(0, idx)).trim().toLowerCase();
+    const param = idx === -1 ? "" : segment.slice(idx + 1);
+    parsed.push([name, param]);
+  }
+  return parsed;
+}
+
+export function ruleParam(rules: ParsedRule[], name: string): string | null {
+  const rule = rules.find(([n]) => n === name);
+  return rule ? rule[1] : null;
+}
+
+export function isRequiredRule(rules: string | null | undefined): boolean {
+  return parseVariableRules(rules).some(([n]) => n === "required");
+}
+
+/** Pick the best input control for a variable from its rules. */
+export function inputKindForRules(rules: string | null | undefined): SpellVariableInputKind {
+  const parsed = parseVariableRules(rules);
+  if (ruleParam(parsed, "in") !== null) {
+    const values = (ruleParam(parsed, "in") ?? "").split(",").map((v) => v.trim());
+    const lowered = values.map((v) => v.toLowerCase()).sort().join(",");
+    if (lowered === "false,true" || lowered === "0,1") return "boolean";
+    return "select";
+  }
+  if (parsed.some(([n]) => n === "boolean")) return "boolean";
+  if (parsed.some(([n]) => n === "integer" || n === "numeric")) return "number";
+  return "text";
+}
+
+/** Values a boolean variable toggles between, in [on, off] order. */
+export function booleanValuesForRules(rules: string | null | undefined): [string, string] {
+  const values = (ruleParam(parseVariableRules(rules), "in") ?? "")
+    .split(",")
+    .map((v) => v.trim());
+  if (values.includes("1") && values.includes("0")) return ["1", "0"];
+  return ["true", "false"];
+}
+
+export function selectValuesForRules(rules: string | null | undefined): string[] {
+  const param = ruleParam(parseVariableRules(rules), "in");
+  if (param === null) return [];
+  return param.split(",").map((v) => v.trim());
+}
+
+function toRegExp(pattern: string): RegExp | null {
+  const match = /^(.)(.*)\1([a-z]*)$/s.exec(pattern);
+  if (!match) return null;
+  const flags = (match[3] ?? "").replace(/[^imsu]/g, "");
+  try {
+    return new RegExp(match[2] ?? "", flags);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Validate a value against a rule string.
+ * Returns an error suffix (e.g. "must be an integer") or null when valid.
+ */
+export function validateVariableValue(
+  value: string,
+  rules: string | null | undefined
+): string | null {
+  const parsed = parseVariableRules(rules);
+  const names = parsed.map(([n]) => n);
+  const trimmed = value.trim();
+
+  if (trimmed === "") {
+    return names.includes("required") ? "is required" : null;
+  }
+
+  const numeric = names.includes("integer") || names.includes("numeric");
+  const size = numeric ? Number(trimmed) : [...trimmed].length;
+
+  for (const [name, param] of parsed) {
+    switch (name) {
+      case "integer":
+        if (!/^-?\d+$/.test(trimmed)) return "must be an integer";
+        break;
+      case "numeric":
+        if (Number.isNaN(Number(trimmed))) return "must be a number";
+        break;
+      case "boolean":
+        if (!["true", "false", "1", "0"].includes(trimmed.toLowerCase())) {
+          return "must be true or false";
+        }
+        break;
+      case "alpha_num":
+        if (!/^[\p{L}\p{M}\p{N}]+$/u.test(trimmed)) {
+          return "may only contain letters and numbers";
+        }
+        break;
+      case "alpha_dash":
+        if (!/^[\p{L}\p{M}\p{N}_-]+$/u.test(trimmed)) {
+          return "may only contain letters, numbers, dashes and underscores";
+        }
+        break;
+      case "in": {
+        const allowed = param.split(",").map((v) => v.trim());
+        if (!allowed.includes(trimmed)) {
+          return `must be one of: ${allowed.join(", ")}`;
+        }
+        break;
+      }
+      case "min":
+        if (size < Number(param)) {
+          return numeric
+            ? `must be at least ${param}`
+            : `must be at least ${param} characters`;
+        }
+        break;
+      case "max":
+        if (size > Number(param)) {
+          return numeric
+            ? `may not be greater than ${param}`
+            : `may not be longer than ${param} characters`;
+        }
+        break;
+      case "between": {
+        const [lo, hi] = param.split(",").map((v) => Number(v.trim()));
+        if (lo !== undefined && hi !== undefined && (size < lo || size > hi)) {
+          return numeric
+            ? `must be between ${lo} and ${hi}`
+            : `must be between ${lo} and ${hi} characters`;
+        }
+        break;
+      }
+      case "regex": {
+        // Patterns JS cannot compile are left to the backend
+        const re = toRegExp(param);
+        if (re && !re.test(trimmed)) return "has an invalid format";
+        break;
+      }
+    }
+  }
+
+  return null;
+}
@@ -19,6 +19,7 @@ export default defineConfig({
         admin: "./admin.html",
         client: "./client.html",
         "user-permissions": "./user-permissions.html",
+        "my-servers": "./my-servers.html",
       },
     },
   },
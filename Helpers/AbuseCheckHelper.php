@@ -0,0 +1,322 @@
+<?php
+
+/*
+ * This file is part of FeatherPanel.
+ *
+ * Copyright (C) 2025 MythicalSystems Studios
+ * Copyright (C) 2025 FeatherPanel Contributors
+ * Copyright (C) 2025 Cassian Gherman (aka NaysKutzu)
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * See the LICENSE file or <https://www.gnu.org/licenses/>.
+ */
+
+namespace App\Addons\billingresourcesnewservers\Helpers;
+
+use App\Chat\User;
+use App\Chat\Database;
+use App\Addons\billingresourcesnewservers\Chat\TrackedServer;
+
+/**
+ * Helper for the anti-abuse checks that run before anything else on the create form.
+ *
+ * Each check is a private method listed in CHECKS, runs only when its policy key is set and fails with its own
+ * error code, so the create form can tell the user how to get past it:
+ *   blocked_user     USER_BLOCKED             the username or email is on the block list
+ *   blocked_ip       IP_BLOCKED               the registration or last login IP is in a blocked range
+ *   account_age      ACCOUNT_TOO_NEW          the account is younger than min_account_age_days
+ *   verified_email   EMAIL_NOT_VERIFIED       the email address was not verified
+ *   servers_per_ip   IP_SERVER_LIMIT_REACHED  accounts registered from the same IP own max_servers_per_ip servers created here
+ */
+class AbuseCheckHelper
+{
+    /**
+     * Checks in the order they run, with the method implementing each.
+     *
+     * @var array<string,string>
+     */
+    public const CHECKS = [
+        'blocked_user' => 'checkBlockedUser',
+        'blocked_ip' => 'checkBlockedIp',
+        'account_age' => 'checkAccountAge',
+        'verified_email' => 'checkVerifiedEmail',
+        'servers_per_ip' => 'checkServersPerIp',
+    ];
+
+    /** @var list<string> */
+    public const ERROR_CODES = ['USER_BLOCKED', 'IP_BLOCKED', 'ACCOUNT_TOO_NEW', 'EMAIL_NOT_VERIFIED', 'IP_SERVER_LIMIT_REACHED'];
+
+    /** Policy in effect until an admin saves one (0 and empty lists turn a check off) */
+    public const DEFAULT_POLICY = [
+        'min_account_age_days' => 0,
+        'require_verified_email' => false,
+        'max_servers_per_ip' => 0,
+        'blocked_users' => [],
+        'blocked_ip_ranges' => [],
+    ];
+
+    /**
+     * Validate and normalize an anti-abuse policy from a request payload.
+     * blocked_users holds usernames or email addresses (compared case-insensitively),
+     * blocked_ip_ranges single IPv4/IPv6 addresses or CIDR ranges.
+     *
+     * @param mixed $input Value of abuse_checks in the payload
+     *
+     * @return array{policy: array<string,mixed>|null, error: string|null}
+     */
+    public static function parsePolicyInput(mixed $input): array
+    {
+        if (!is_array($input)) {
+            return ['policy' => null, 'error' => 'abuse_checks must be an object'];
+        }
+        $policy = array_merge(self::DEFAULT_POLICY, array_intersect_key($input, self::DEFAULT_POLICY));
+
+        foreach (['min_account_age_days', 'max_servers_per_ip'] as $key) {
+            if (!is_numeric($policy[$key]) || (int) $policy[$key] < 0) {
+                return ['policy' => null, 'error' => 'abuse_checks.' . $key . ' must be 0 or greater'];
+            }
+            $policy[$key] = (int) $policy[$key];
+        }
+
+        if (!is_bool($policy['require_verified_email'])) {
+            return ['policy' => null, 'error' => 'abuse_checks.require_verified_email must be true or false'];
+        }
+
+        foreach (['blocked_users', 'blocked_ip_ranges'] as $key) {
+            if (!is_array($policy[$key])) {
+                return ['policy' => null, 'error' => 'abuse_checks.' . $key . ' must be a list'];
+            }
+            $entries = [];
+            foreach ($policy[$key] as $entry) {
+                if (!is_string($entry)) {
+                    return ['policy' => null, 'error' => 'abuse_checks.' . $key . ' must contain strings'];
+                }
+                $entry = mb_strtolower(trim($entry));
+                if ($entry === '') {
+                    continue;
+                }
+                if ($key === 'blocked_ip_ranges' && self::parseRange($entry) === null) {
+                    return ['policy' => null, 'error' => 'abuse_checks.blocked_ip_ranges: "' . $entry . '" is not an IP address or CIDR range'];
+                }
+                $entries[] = $entry;
+            }
+            $policy[$key] = array_values(array_unique($entries));
+        }
+
+        return ['policy' => $policy, 'error' => null];
+    }
+
+    /**
+     * Run the enabled checks for a user and return the first failure.
+     *
+     * @param int $userId User ID
+     *
+     * @return array{error: string, error_code: string, details: array<string,mixed>}|null Null when every check passes;
+     *                                                                                       details tell the create form how to remediate
+     */
+    public static function check(int $userId): ?array
+    {
+        $user = User::getUserById($userId);
+        if (!$user) {
+            return null;
+        }
+        $policy = SettingsHelper::getAbuseCheckPolicy();
+
+        foreach (self::CHECKS as $check => $method) {
+            $failure = self::$method($user, $policy);
+            if ($failure !== null) {
+                $failure['details'] = ['check' => $check] + ($failure['details'] ?? []);
+
+                return $failure;
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * @param array<string,mixed> $user
+     * @param array<string,mixed> $policy
+     *
+     * @return array{error: string, error_code: string, details?: array<string,mixed>}|null
+     */
+    private static function checkBlockedUser(array $user, array $policy): ?array
+    {
+        if (empty($policy['blocked_users'])) {
+            return null;
+        }
+        $identities = array_map('mb_strtolower', array_filter([(string) ($user['username'] ?? ''), (string) ($user['email'] ?? '')]));
+        if (empty(array_intersect($identities, $policy['blocked_users']))) {
+            return null;
+        }
+
+        return [
+            'error' => 'Your account is not allowed to create free servers',
+            'error_code' => 'USER_BLOCKED',
+        ];
+    }
+
+    /**
+     * @param array<string,mixed> $user
+     * @param array<string,mixed> $policy
+     *
+     * @return array{error: string, error_code: string, details?: array<string,mixed>}|null
+     */
+    private static function checkBlockedIp(array $user, array $policy): ?array
+    {
+        if (empty($policy['blocked_ip_ranges'])) {
+            return null;
+        }
+        foreach (array_filter([(string) ($user['first_ip'] ?? ''), (string) ($user['last_ip'] ?? '')]) as $ip) {
+            foreach ($policy['blocked_ip_ranges'] as $range) {
+                if (self::ipInRange($ip, $range)) {
+                    return [
+                        'error' => 'Free servers cannot be created from your network',
+                        'error_code' => 'IP_BLOCKED',
+                    ];
+                }
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * @param array<string,mixed> $user
+     * @param array<string,mixed> $policy
+     *
+     * @return array{error: string, error_code: string, details?: array<string,mixed>}|null
+     */
+    private static function checkAccountAge(array $user, array $policy): ?array
+    {
+        $minDays = (int) $policy['min_account_age_days'];
+        if ($minDays <= 0) {
+            return null;
+        }
+
+        // Computed by the database so it does not depend on the PHP timezone
+        $pdo = Database::getPdoConnection();
+        $stmt = $pdo->prepare('SELECT TIMESTAMPDIFF(SECOND, first_seen, NOW()) FROM featherpanel_users WHERE id = :id');
+        $stmt->execute(['id' => (int) $user['id']]);
+        $ageSeconds = $stmt->fetchColumn();
+        if ($ageSeconds === false || $ageSeconds === null) {
+            return null;
+        }
+
+        $retryAfter = $minDays * 86400 - (int) $ageSeconds;
+        if ($retryAfter <= 0) {
+            return null;
+        }
+
+        return [
+            'error' => 'Your account must be at least ' . $minDays . ' day' . ($minDays === 1 ? '' : 's') . ' old to create a free server',
+            'error_code' => 'ACCOUNT_TOO_NEW',
+            'details' => ['min_account_age_days' => $minDays, 'retry_after' => $retryAfter],
+        ];
+    }
+
+    /**
+     * The panel keeps a verification token in mail_verify until the link in the email is opened.
+     *
+     * @param array<string,mixed> $user
+     * @param array<string,mixed> $policy
+     *
+     * @return array{error: string, error_code: string, details?: array<string,mixed>}|null
+     */
+    private static function checkVerifiedEmail(array $user, array $policy): ?array
+    {
+        if (!$policy['require_verified_email'] || empty($user['mail_verify'])) {
+            return null;
+        }
+
+        return [
+            'error' => 'You must verify your email address before creating a free server',
+            'error_code' => 'EMAIL_NOT_VERIFIED',
+            'details' => ['email' => $user['email'] ?? null],
+        ];
+    }
+
+    /**
+     * @param array<string,mixed> $user
+     * @param array<string,mixed> $policy
+     *
+     * @return array{error: string, error_code: string, details?: array<string,mixed>}|null
+     */
+    private static function checkServersPerIp(array $user, array $policy): ?array
+    {
+        $limit = (int) $policy['max_servers_per_ip'];
+        $ip = (string) ($user['first_ip'] ?? '');
+        if ($limit <= 0 || $ip === '') {
+            return null;
+        }
+
+        $count = TrackedServer::countByRegistrationIp($ip);
+        if ($count < $limit) {
+            return null;
+        }
+
+        return [
+            'error' => 'Accounts registered from your network already have ' . $count . ' of ' . $limit . ' free servers',
+            'error_code' => 'IP_SERVER_LIMIT_REACHED',
+            'details' => ['limit' => $limit, 'count' => $count],
+        ];
+    }
+
+    /**
+     * Whether an IP address falls inside a single address or CIDR range.
+     */
+    public static function ipInRange(string $ip, string $range): bool
+    {
+        $parsed = self::parseRange($range);
+        if ($parsed === null || filter_var($ip, FILTER_VALIDATE_IP) === false) {
+            return false;
+        }
+        $address = inet_pton($ip);
+        if ($address === false || strlen($address) !== strlen($parsed['network'])) {
+            return false;
+        }
+
+        $bytes = intdiv($parsed['prefix'], 8);
+        if (strncmp($address, $parsed['network'], $bytes) !== 0) {
+            return false;
+        }
+        $bits = $parsed['prefix'] % 8;
+        if ($bits === 0) {
+            return true;
+        }
+        $mask = (0xFF << (8 - $bits)) & 0xFF;
+
+        return (ord($address[$bytes]) & $mask) === (ord($parsed['network'][$bytes]) & $mask);
+    }
+
+    /**
+     * Parse "address" or "address/prefix" into the packed address and prefix length.
+     *
+     * @return array{network: string, prefix: int}|null Null when the range is invalid
+     */
+    private static function parseRange(string $range): ?array
+    {
+        [$address, $prefix] = array_pad(explode('/', $range, 2), 2, null);
+        if (filter_var($address, FILTER_VALIDATE_IP) === false) {
+            return null;
+        }
+        $network = inet_pton($address);
+        if ($network === false) {
+            return null;
+        }
+
+        $maxPrefix = strlen($network) * 8;
+        if ($prefix === null) {
+            return ['network' => $network, 'prefix' => $maxPrefix];
+        }
+        if (!ctype_digit($prefix) || (int) $prefix > $maxPrefix) {
+            return null;
+        }
+
+        return ['network' => $network, 'prefix' => (int) $prefix];
+    }
+}
@@ -0,0 +1,242 @@
+<?php
+
+/*
+ * This file is part of FeatherPanel.
+ *
+ * Copyright (C) 2025 MythicalSystems Studios
+ * Copyright (C) 2025 FeatherPanel Contributors
+ * Copyright (C) 2025 Cassian Gherman (aka NaysKutzu)
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * See the LICENSE file or <https://www.gnu.org/licenses/>.
+ */
+
+namespace App\Addons\billingresourcesnewservers\Helpers;
+
+use App\Chat\Node;
+use App\Chat\Realm;
+use App\Chat\Spell;
+use App\Chat\Location;
+use App\Addons\billingresourcesnewservers\Chat\Group;
+use App\Addons\billingresourcesnewservers\Chat\UserGroup;
+use App\Addons\billingresourcesnewservers\Chat\CreationAudit;
+use App\Addons\billingresourcesnewservers\Chat\ApprovalRequest;
+use App\Addons\billingresourcesnewservers\Chat\ResourcePermission;
+
+/**
+ * Helper for servers that need an admin's approval before they are provisioned.
+ *
+ * A server needs approval when its location, node, realm or spell is flagged "requires approval",
+ * or when the user is in a group that is. The validated payload is held as a pending request;
+ * approving it re-validates the payload (the user's pool or the node may have changed meanwhile)
+ * and starts provisioning, rejecting it shows the admin's reason to the user.
+ */
+class ApprovalHelper
+{
+    /**
+     * What makes a create payload need approval.
+     *
+     * @param int $userId User ID
+     * @param array<string,mixed> $data Create payload (policies already applied)
+     *
+     * @return list<array{type: string, id: int, name: string|null}> Flagged resources and groups (empty = no approval needed)
+     */
+    public static function getReasons(int $userId, array $data): array
+    {
+        $reasons = [];
+
+        $nodeId = (int) ($data['node_id'] ?? 0);
+        $node = $nodeId > 0 ? Node::getNodeById($nodeId) : null;
+        $locationId = $node ? (int) ($node['location_id'] ?? 0) : (int) ($data['location_id'] ?? 0);
+
+        if ($locationId > 0 && ResourcePermission::requiresApproval('location', $locationId)) {
+            $reasons[] = ['type' => 'location', 'id' => $locationId, 'name' => Location::getById($locationId)['name'] ?? null];
+        }
+        if ($node && ResourcePermission::requiresApproval('node', $nodeId)) {
+            $reasons[] = ['type' => 'node', 'id' => $nodeId, 'name' => $node['name'] ?? null];
+        }
+
+        $realmId = (int) ($data['realms_id'] ?? 0);
+        if ($realmId > 0 && ResourcePermission::requiresApproval('realm', $realmId)) {
+            $reasons[] = ['type' => 'realm', 'id' => $realmId, 'name' => Realm::getById($realmId)['name'] ?? null];
+        }
+        $spellId = (int) ($data['spell_id'] ?? 0);
+        if ($spellId > 0 && ResourcePermission::requiresApproval('spell', $spellId)) {
+            $reasons[] = ['type' => 'spell', 'id' => $spellId, 'name' => Spell::getSpellById($spellId)['name'] ?? null];
+        }
+
+        foreach (UserGroup::getGroupIdsByUserId($userId) as $groupId) {
+            $group = Group::getById((int) $groupId);
+            if ($group !== null && (bool) ($group['requires_approval'] ?? false)) {
+                $reasons[] = ['type' => 'group', 'id' => (int) $group['id'], 'name' => $group['name']];
+            }
+        }
+
+        return $reasons;
+    }
+
+    /**
+     * Validate a create payload and hold it for approval.
+     * Rejected and held submissions are both audited.
+     *
+     * @param int $userId User ID
+     * @param array<string,mixed> $data Create payload (policies already applied)
+     * @param list<array{type: string, id: int, name: string|null}> $reasons From getReasons
+     * @param string|null $ipAddress Client IP for the audit log (null when not submitted by the user)
+     * @param string $source Where the submission came from (direct or waitlist), recorded in the audit log
+     *
+     * @return array{approval: array<string,mixed>|null, error?: string, error_code?: string, retry_after?: int}
+     */
+    public static function submit(int $userId, array $data, array $reasons, ?string $ipAddress = null, string $source = 'direct'): array
+    {
+        $startedAt = microtime(true);
+        $audit = ['source' => $source, 'ip_address' => $ipAddress];
+
+        $validation = ServerCreationHelper::validateServerCreation($userId, $data);
+        if (!$validation['valid']) {
+            $rejected = ['approval' => null, 'error' => $validation['error'], 'error_code' => $validation['error_code'] ?? 'VALIDATION_FAILED'];
+            if (isset($validation['retry_after'])) {
+                $rejected['retry_after'] = $validation['retry_after'];
+            }
+            self::audit($userId, $data, $audit, $startedAt, $rejected);
+
+            return $rejected;
+        }
+
+        if (ApprovalRequest::hasPendingRequest($userId)) {
+            $rejected = ['approval' => null, 'error' => 'You already have a server waiting for approval', 'error_code' => 'APPROVAL_ALREADY_PENDING'];
+            self::audit($userId, $data, $audit, $startedAt, $rejected);
+
+            return $rejected;
+        }
+
+        $approvalId = ApprovalRequest::create($userId, $data, $reasons);
+        if ($approvalId === false) {
+            return ['approval' => null, 'error' => 'Failed to submit the server for approval', 'error_code' => 'APPROVAL_SUBMIT_FAILED'];
+        }
+        self::audit($userId, $data, $audit + ['approval_request_id' => $approvalId], $startedAt);
+
+        return ['approval' => ApprovalRequest::getById($approvalId)];
+    }
+
+    /**
+     * Approve a pending request and start provisioning its server.
+     * A payload that no longer validates marks the request failed with the reason.
+     *
+     * @param array<string,mixed> $approval Approval request
+     * @param int $adminId Reviewing admin's user ID
+     *
+     * @return array{approval: array<string,mixed>, request: array<string,mixed>|null, error?: string, error_code?: string}
+     */
+    public static function approve(array $approval, int $adminId): array
+    {
+        $approvalId = (int) $approval['id'];
+        if (!ApprovalRequest::review($approvalId, 'approved', $adminId)) {
+            return [
+                'approval' => ApprovalRequest::getById($approvalId) ?? $approval,
+                'request' => null,
+                'error' => 'This request was already reviewed',
+                'error_code' => 'APPROVAL_NOT_PENDING',
+            ];
+        }
+
+        $result = ServerProvisioningHelper::start((int) $approval['user_id'], $approval['payload'], microtime(true), null, [
+            'source' => 'approval',
+            'approval_request_id' => $approvalId,
+        ]);
+        if ($result['request'] !== null) {
+            // A failed database step stays on the creation request, where the user can retry or cancel it
+            ApprovalRequest::update($approvalId, ['creation_request_id' => (int) $result['request']['id']]);
+        } else {
+            ApprovalRequest::update($approvalId, [
+                'status' => 'failed',
+                'error_message' => $result['error'] ?? 'Failed to create server',
+                'error_code' => $result['error_code'] ?? 'CREATE_SERVER_FAILED',
+            ]);
+        }
+
+        return array_merge($result, ['approval' => ApprovalRequest::getById($approvalId) ?? $approval]);
+    }
+
+    /**
+     * Reject a pending request.
+     *
+     * @param array<string,mixed> $approval Approval request
+     * @param int $adminId Reviewing admin's user ID
+     * @param string $reason Shown to the user
+     *
+     * @return bool False when the request was no longer pending
+     */
+    public static function reject(array $approval, int $adminId, string $reason): bool
+    {
+        return ApprovalRequest::review((int) $approval['id'], 'rejected', $adminId, $reason);
+    }
+
+    /**
+     * Withdraw a pending request (by its user).
+     *
+     * @param array<string,mixed> $approval Approval request
+     *
+     * @return bool False when the request was no longer pending
+     */
+    public static function cancel(array $approval): bool
+    {
+        return $approval['status'] === 'pending' && ApprovalRequest::transition((int) $approval['id'], 'pending', 'cancelled');
+    }
+
+    /**
+     * Shape a request for API responses.
+     *
+     * @param array<string,mixed> $approval Approval request
+     *
+     * @return array<string,mixed> Public request data
+     */
+    public static function formatRequest(array $approval): array
+    {
+        $payload = $approval['payload'];
+        $nodeId = (int) ($payload['node_id'] ?? 0);
+
+        return [
+            'id' => (int) $approval['id'],
+            'status' => $approval['status'],
+            'reasons' => $approval['reasons'],
+            'server_name' => $payload['name'] ?? null,
+            'node_id' => $nodeId > 0 ? $nodeId : null,
+            'realms_id' => isset($payload['realms_id']) ? (int) $payload['realms_id'] : null,
+            'spell_id' => isset($payload['spell_id']) ? (int) $payload['spell_id'] : null,
+            'memory' => (int) ($payload['memory'] ?? 0),
+            'cpu' => (int) ($payload['cpu'] ?? 0),
+            'disk' => (int) ($payload['disk'] ?? 0),
+            'rejection_reason' => $approval['rejection_reason'] ?? null,
+            'reviewed_at' => $approval['reviewed_at'] ?? null,
+            'creation_request_id' => $approval['creation_request_id'] !== null ? (int) $approval['creation_request_id'] : null,
+            'error' => $approval['error_message'] ?? null,
+            'error_code' => $approval['error_code'] ?? null,
+            'created_at' => $approval['created_at'] ?? null,
+            'updated_at' => $approval['updated_at'] ?? null,
+        ];
+    }
+
+    /**
+     * Record a submission in the creation audit log: held when no rejection is given.
+     *
+     * @param int $userId User ID
+     * @param array<string,mixed> $data Create payload
+     * @param array<string,mixed> $context source, ip_address and approval_request_id
+     * @param float $startedAt microtime(true) when the submission began
+     * @param array{error: string, error_code: string}|null $rejected Why the submission was rejected
+     */
+    private static function audit(int $userId, array $data, array $context, float $startedAt, ?array $rejected = null): void
+    {
+        CreationAudit::create($userId, $data, $context + [
+            'outcome' => $rejected !== null ? 'rejected' : 'held',
+            'error_code' => $rejected['error_code'] ?? null,
+            'error_message' => $rejected['error'] ?? null,
+            'duration_ms' => (int) round((microtime(true) - $startedAt) * 1000),
+        ]);
+    }
+}
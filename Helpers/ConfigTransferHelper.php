@@ -0,0 +1,1109 @@
+<?php
+
+/*
+ * This file is part of FeatherPanel.
+ *
+ * Copyright (C) 2025 MythicalSystems Studios
+ * Copyright (C) 2025 FeatherPanel Contributors
+ * Copyright (C) 2025 Cassian Gherman (aka NaysKutzu)
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * See the LICENSE file or <https://www.gnu.org/licenses/>.
+ */
+namespace App\Addons\billingresourcesnewservers\Helpers;
+
+use App\Chat\Node;
+use App\Chat\User;
+use App\Chat\Realm;
+use App\Chat\Spell;
+use App\Chat\Database;
+use App\Chat\Location;
+use App\Addons\billingresourcesnewservers\Chat\Group;
+use App\Addons\billingresourcesnewservers\Chat\GroupPermission;
+use App\Addons\billingresourcesnewservers\Chat\ResourcePermission;
+
+/**
+ * Export and import of the plugin configuration as a versioned JSON document.
+ *
+ * The document holds the settings, the global allow-lists, node caps, placement policies,
+ * per-resource permission modes, and groups with their permissions and membership rules.
+ * Manual user memberships, per-user permissions and overrides, and presets are not part of it.
+ *
+ * Resources are written as references ({id, name, uuid}). On import they are resolved by an
+ * explicit mapping (type => [document ID => local ID]) first, then by UUID, then by name, then by
+ * the same ID when the reference carries nothing else. References that cannot be resolved are
+ * reported and skipped. Top-level sections and settings missing from a document are left untouched.
+ */
+class ConfigTransferHelper
+{
+    public const FORMAT = 'billingresourcesnewservers-config';
+
+    public const VERSION = 1;
+
+    /** @var list<string> */
+    public const RESOURCE_TYPES = ['location', 'node', 'realm', 'spell'];
+
+    /** @var list<string> */
+    private const BOOLEAN_SETTINGS = ['user_creation_enabled', 'require_discord_link', 'waitlist_enabled'];
+
+    /**
+     * Integer settings and their allowed range.
+     *
+     * @var array<string, array{0: int, 1: int|null}>
+     */
+    private const INTEGER_SETTINGS = [
+        'minimum_memory' => [128, null],
+        'minimum_cpu' => [0, null],
+        'minimum_disk' => [128, null],
+        'max_servers_per_node' => [0, null],
+        'allocation_port_range_start' => [0, 65535],
+        'allocation_port_range_end' => [0, 65535],
+        'rate_limit_max_creations' => [0, null],
+        'rate_limit_window_minutes' => [1, null],
+        'creation_cooldown_seconds' => [0, null],
+        'deletion_cooldown_seconds' => [0, null],
+        'waitlist_offer_minutes' => [1, null],
+        'lifetime_days' => [0, null],
+        'inactivity_days' => [0, null],
+        'reclaim_warning_days' => [0, null],
+        'reclaim_deletion_days' => [0, null],
+    ];
+
+    /** @var list<string> */
+    private const STRING_SETTINGS = [
+        'node_at_capacity_error',
+        'default_error_location',
+        'default_error_node',
+        'default_error_realm',
+        'default_error_spell',
+    ];
+
+    /**
+     * Local locations, nodes, realms and spells, loaded once per request.
+     *
+     * @var array<string, array{by_id: array<int, array{id: int, name: string|null, uuid?: string|null}>, by_uuid: array<string, int>, by_name: array<string, int|null>}>
+     */
+    private static array $catalog = [];
+
+    /**
+     * Build the export document from the current configuration.
+     *
+     * @return array<string,mixed>
+     */
+    public static function export(): array
+    {
+        $state = self::currentState();
+
+        $allowed = [];
+        foreach (self::RESOURCE_TYPES as $type) {
+            $allowed[$type] = array_map(fn (int $id) => self::reference($type, $id), $state['allowed'][$type]);
+        }
+
+        $nodeCaps = [];
+        foreach ($state['node_server_caps'] as $nodeId => $max) {
+            $nodeCaps[] = ['node' => self::reference('node', $nodeId), 'max' => $max];
+        }
+
+        $nodeProfiles = [];
+        foreach ($state['node_placement_profiles'] as $nodeId => $profile) {
+            $nodeProfiles[] = ['node' => self::reference('node', $nodeId), 'weight' => $profile['weight'], 'tags' => $profile['tags']];
+        }
+
+        $resourceBounds = [];
+        foreach (['node', 'location'] as $type) {
+            $resourceBounds[$type] = [];
+            foreach ($state[$type . '_resource_bounds'] as $id => $bounds) {
+                $resourceBounds[$type][] = array_merge([$type => self::reference($type, $id)], $bounds);
+            }
+        }
+
+        $placement = [];
+        foreach ($state['placement_field_policies'] as $key => $row) {
+            foreach (['value', 'default'] as $field) {
+                if (isset($row[$field]) && is_int($row[$field])) {
+                    $row[$field] = self::reference($key, $row[$field]);
+                }
+            }
+            $placement[$key] = $row;
+        }
+
+        $resourcePermissions = [];
+        foreach ($state['resource_permissions'] as $entry) {
+            $resourcePermissions[] = [
+                'resource_type' => $entry['resource_type'],
+                'resource' => self::reference($entry['resource_type'], $entry['resource_id']),
+                'permission_mode' => $entry['permission_mode'],
+                'default_error_message' => $entry['default_error_message'],
+                'requires_approval' => $entry['requires_approval'],
+            ];
+        }
+
+        $groups = [];
+        foreach ($state['groups'] as $name => $group) {
+            $permissions = [];
+            foreach ($group['permissions'] as $perm) {
+                $permissions[] = [
+                    'resource_type' => $perm['resource_type'],
+                    'resource' => self::reference($perm['resource_type'], $perm['resource_id']),
+                    'effect' => $perm['effect'],
+                    'custom_error_message' => $perm['custom_error_message'],
+                    'starts_at' => $perm['starts_at'],
+                    'expires_at' => $perm['expires_at'],
+                ];
+            }
+            $groups[] = array_merge(['name' => $name], $group['fields'], ['permissions' => $permissions]);
+        }
+
+        return [
+            'format' => self::FORMAT,
+            'version' => self::VERSION,
+            'exported_at' => date(DATE_ATOM),
+            'settings' => $state['settings'],
+            'allowed_resources' => $allowed,
+            'allowed_users' => array_map(fn (int $id) => self::userReference($id), $state['allowed']['user']),
+            'node_server_caps' => $nodeCaps,
+            'node_placement_profiles' => $nodeProfiles,
+            'node_resource_bounds' => $resourceBounds['node'],
+            'location_resource_bounds' => $resourceBounds['location'],
+            'placement_field_policies' => $placement,
+            'resource_permissions' => $resourcePermissions,
+            'groups' => $groups,
+        ];
+    }
+
+    /**
+     * Compare a document against the current configuration without writing anything.
+     *
+     * @param array<string,mixed> $document Import document
+     * @param array<string,mixed> $mappings Explicit remapping: type => [document ID => local ID]
+     *
+     * @return array{errors: list<string>, desired: array<string,mixed>|null, changes: list<array<string,mixed>>, summary: array{added: int, changed: int, removed: int}, unresolved: list<array<string,mixed>>, state_hash: string}
+     */
+    public static function plan(array $document, array $mappings = []): array
+    {
+        $current = self::currentState();
+        $result = [
+            'errors' => [],
+            'desired' => null,
+            'changes' => [],
+            'summary' => ['added' => 0, 'changed' => 0, 'removed' => 0],
+            'unresolved' => [],
+            'state_hash' => self::stateHash($current),
+        ];
+
+        $errors = self::validateDocument($document);
+        if (!empty($errors)) {
+            $result['errors'] = $errors;
+
+            return $result;
+        }
+
+        $unresolved = [];
+        $desired = self::desiredState($document, $current, $mappings, $unresolved);
+        $changes = self::diff(self::flatten($current), self::flatten($desired));
+
+        foreach ($changes as $change) {
+            ++$result['summary'][$change['action']];
+        }
+        $result['desired'] = $desired;
+        $result['changes'] = $changes;
+        $result['unresolved'] = $unresolved;
+
+        return $result;
+    }
+
+    /**
+     * Write a planned configuration in one database transaction (all or nothing).
+     *
+     * @param array<string,mixed> $desired The desired state returned by plan()
+     *
+     * @throws \Throwable When any write fails; nothing is kept in that case
+     */
+    public static function apply(array $desired): void
+    {
+        $current = self::currentState();
+        $pdo = Database::getPdoConnection();
+        $pdo->beginTransaction();
+
+        try {
+            self::applySettings($current['settings'], $desired['settings']);
+
+            if ($desired['allowed'] != $current['allowed']) {
+                SettingsHelper::setAllowedLocations($desired['allowed']['location']);
+                SettingsHelper::setAllowedNodes($desired['allowed']['node']);
+                SettingsHelper::setAllowedRealms($desired['allowed']['realm']);
+                SettingsHelper::setAllowedSpells($desired['allowed']['spell']);
+                SettingsHelper::setAllowedUsers($desired['allowed']['user']);
+            }
+            if ($desired['node_server_caps'] != $current['node_server_caps']) {
+                SettingsHelper::setNodeServerCaps($desired['node_server_caps']);
+            }
+            if ($desired['node_placement_profiles'] != $current['node_placement_profiles']) {
+                SettingsHelper::setNodePlacementProfiles($desired['node_placement_profiles']);
+            }
+            if ($desired['node_resource_bounds'] != $current['node_resource_bounds']) {
+                SettingsHelper::setNodeResourceBounds($desired['node_resource_bounds']);
+            }
+            if ($desired['location_resource_bounds'] != $current['location_resource_bounds']) {
+                SettingsHelper::setLocationResourceBounds($desired['location_resource_bounds']);
+            }
+            if ($desired['placement_field_policies'] != $current['placement_field_policies']) {
+                SettingsHelper::setPlacementFieldPolicies($desired['placement_field_policies']);
+            }
+
+            foreach (array_diff_key($current['resource_permissions'], $desired['resource_permissions']) as $entry) {
+                ResourcePermission::delete($entry['resource_type'], $entry['resource_id']);
+            }
+            foreach ($desired['resource_permissions'] as $key => $entry) {
+                if (($current['resource_permissions'][$key] ?? null) == $entry) {
+                    continue;
+                }
+                if (!ResourcePermission::setPermissionMode($entry['resource_type'], $entry['resource_id'], $entry['permission_mode'], $entry['default_error_message'], $entry['requires_approval'])) {
+                    throw new \RuntimeException('Failed to set the permission mode of ' . $entry['resource_type'] . ' ' . $entry['resource_id']);
+                }
+            }
+
+            self::applyGroups($current['groups'], $desired['groups']);
+
+            $pdo->commit();
+        } catch (\Throwable $e) {
+            $pdo->rollBack();
+
+            throw $e;
+        }
+    }
+
+    /**
+     * Hash of the current configuration, used to detect changes between preview and apply.
+     */
+    public static function currentStateHash(): string
+    {
+        return self::stateHash(self::currentState());
+    }
+
+    /**
+     * The current configuration in local IDs.
+     *
+     * @return array<string,mixed>
+     */
+    private static function currentState(): array
+    {
+        $settings = array_intersect_key(
+            SettingsHelper::getAllSettings(),
+            array_flip(array_merge(
+                self::BOOLEAN_SETTINGS,
+                array_keys(self::INTEGER_SETTINGS),
+                self::STRING_SETTINGS,
+                self::modeSettings(),
+                ['user_restriction_mode', 'allocation_mode', 'waitlist_mode', 'resource_field_policies', 'placement_score_weights', 'naming_policy', 'abuse_checks']
+            ))
+        );
+        ksort($settings);
+
+        $resourcePermissions = [];
+        foreach (self::RESOURCE_TYPES as $type) {
+            foreach (ResourcePermission::getByResourceType($type) as $row) {
+                $resourcePermissions[$type . ':' . (int) $row['resource_id']] = [
+                    'resource_type' => $type,
+                    'resource_id' => (int) $row['resource_id'],
+                    'permission_mode' => $row['permission_mode'] === 'restricted' ? 'restricted' : 'open',
+                    'default_error_message' => $row['default_error_message'] ?: null,
+                    'requires_approval' => (bool) ($row['requires_approval'] ?? false),
+                ];
+            }
+        }
+
+        $groups = [];
+        foreach (Group::getAll() as $group) {
+            $permissions = [];
+            foreach (GroupPermission::getByGroupId((int) $group['id']) as $perm) {
+                $permissions[$perm['resource_type'] . ':' . (int) $perm['resource_id']] = [
+                    'resource_type' => $perm['resource_type'],
+                    'resource_id' => (int) $perm['resource_id'],
+                    'effect' => $perm['effect'] ?? 'allow',
+                    'custom_error_message' => $perm['custom_error_message'] ?: null,
+                    'starts_at' => $perm['starts_at'] ?? null,
+                    'expires_at' => $perm['expires_at'] ?? null,
+                ];
+            }
+            ksort($permissions);
+
+            $fields = [
+                'description' => (string) ($group['description'] ?? ''),
+                'color' => $group['color'] ?? '#3B82F6',
+                'priority' => (int) $group['priority'],
+            ];
+            foreach (array_merge(Group::QUOTA_FIELDS, Group::RATE_LIMIT_FIELDS, Group::LIFETIME_FIELDS) as $field) {
+                $fields[$field] = $group[$field] === null ? null : (int) $group[$field];
+            }
+            $fields['requires_approval'] = (bool) ($group['requires_approval'] ?? false);
+            $fields['membership_rules'] = MembershipRuleHelper::decode($group);
+
+            $groups[$group['name']] = ['id' => (int) $group['id'], 'fields' => $fields, 'permissions' => $permissions];
+        }
+        ksort($groups);
+        ksort($resourcePermissions);
+
+        $nodeCaps = SettingsHelper::getNodeServerCaps();
+        ksort($nodeCaps);
+        $nodeProfiles = SettingsHelper::getNodePlacementProfiles();
+        ksort($nodeProfiles);
+
+        return [
+            'settings' => $settings,
+            'allowed' => [
+                'location' => self::sortedIds(SettingsHelper::getAllowedLocations()),
+                'node' => self::sortedIds(SettingsHelper::getAllowedNodes()),
+                'realm' => self::sortedIds(SettingsHelper::getAllowedRealms()),
+                'spell' => self::sortedIds(SettingsHelper::getAllowedSpells()),
+                'user' => self::sortedIds(SettingsHelper::getAllowedUsers()),
+            ],
+            'node_server_caps' => $nodeCaps,
+            'node_placement_profiles' => $nodeProfiles,
+            'node_resource_bounds' => SettingsHelper::getNodeResourceBounds(),
+            'location_resource_bounds' => SettingsHelper::getLocationResourceBounds(),
+            'placement_field_policies' => SettingsHelper::getPlacementFieldPolicies(),
+            'resource_permissions' => $resourcePermissions,
+            'groups' => $groups,
+        ];
+    }
+
+    /**
+     * Check the shape and values of an import document.
+     *
+     * @param array<string,mixed> $document
+     *
+     * @return list<string> Error messages (empty when valid)
+     */
+    private static function validateDocument(array $document): array
+    {
+        if (($document['format'] ?? null) !== self::FORMAT) {
+            return ['format must be "' . self::FORMAT . '"'];
+        }
+        if (!is_int($document['version'] ?? null) || $document['version'] < 1 || $document['version'] > self::VERSION) {
+            return ['version must be between 1 and ' . self::VERSION];
+        }
+
+        $errors = [];
+        foreach (['settings', 'allowed_resources', 'placement_field_policies'] as $section) {
+            if (array_key_exists($section, $document) && !is_array($document[$section])) {
+                $errors[] = $section . ' must be an object';
+            }
+        }
+        foreach (['allowed_users', 'node_server_caps', 'node_placement_profiles', 'node_resource_bounds', 'location_resource_bounds', 'resource_permissions', 'groups'] as $section) {
+            if (array_key_exists($section, $document) && (!is_array($document[$section]) || !array_is_list($document[$section]))) {
+                $errors[] = $section . ' must be an array';
+            }
+        }
+        if (!empty($errors)) {
+            return $errors;
+        }
+
+        foreach ($document['settings'] ?? [] as $key => $value) {
+            $error = self::validateSetting((string) $key, $value);
+            if ($error !== null) {
+                $errors[] = 'settings.' . $key . ': ' . $error;
+            }
+        }
+
+        foreach ($document['placement_field_policies'] ?? [] as $key => $row) {
+            if (!in_array($key, SettingsHelper::PLACEMENT_FIELD_KEYS, true) || !is_array($row) || !in_array($row['mode'] ?? null, ['user', 'fixed', 'hidden'], true)) {
+                $errors[] = 'placement_field_policies.' . $key . ' must have a mode of user, fixed or hidden';
+            }
+        }
+
+        foreach ($document['node_placement_profiles'] ?? [] as $index => $entry) {
+            $weight = is_array($entry) ? ($entry['weight'] ?? SettingsHelper::DEFAULT_NODE_WEIGHT) : null;
+            if (!is_int($weight) || $weight < 0 || $weight > SettingsHelper::MAX_NODE_WEIGHT || !is_array($entry['tags'] ?? [])) {
+                $errors[] = 'node_placement_profiles[' . $index . '] needs a weight between 0 and ' . SettingsHelper::MAX_NODE_WEIGHT . ' and a tags array';
+            }
+        }
+
+        foreach (['node', 'location'] as $type) {
+            foreach ($document[$type . '_resource_bounds'] ?? [] as $index => $entry) {
+                if (!is_array($entry)) {
+                    $errors[] = $type . '_resource_bounds[' . $index . '] must be an object';
+                    continue;
+                }
+                foreach (array_intersect_key($entry, SettingsHelper::BOUNDED_RESOURCES) as $resource => $bound) {
+                    if (!self::isValidResourceBound($bound)) {
+                        $errors[] = $type . '_resource_bounds[' . $index . '].' . $resource . ' needs a min and max of null or a non-negative integer, min not above max';
+                    }
+                }
+            }
+        }
+
+        foreach ($document['resource_permissions'] ?? [] as $index => $entry) {
+            if (!is_array($entry) || !in_array($entry['resource_type'] ?? null, self::RESOURCE_TYPES, true)
+                || !in_array($entry['permission_mode'] ?? null, ['open', 'restricted'], true)) {
+                $errors[] = 'resource_permissions[' . $index . '] needs a resource_type and a permission_mode of open or restricted';
+            }
+            if (is_array($entry) && isset($entry['requires_approval']) && !is_bool($entry['requires_approval'])) {
+                $errors[] = 'resource_permissions[' . $index . ']: requires_approval must be a boolean';
+            }
+        }
+
+        $names = [];
+        foreach ($document['groups'] ?? [] as $index => $group) {
+            $label = 'groups[' . $index . ']';
+            if (!is_array($group) || !is_string($group['name'] ?? null) || trim($group['name']) === '') {
+                $errors[] = $label . ' needs a name';
+                continue;
+            }
+            $name = trim($group['name']);
+            if (isset($names[$name])) {
+                $errors[] = $label . ': duplicate group name "' . $name . '"';
+            }
+            $names[$name] = true;
+
+            if (isset($group['priority']) && !is_numeric($group['priority'])) {
+                $errors[] = $label . ': priority must be an integer';
+            }
+            if (isset($group['color']) && (!is_string($group['color']) || !preg_match('/^#[0-9A-Fa-f]{6}$/', $group['color']))) {
+                $errors[] = $label . ': color must be a hex color like #3B82F6';
+            }
+            if (isset($group['requires_approval']) && !is_bool($group['requires_approval'])) {
+                $errors[] = $label . ': requires_approval must be a boolean';
+            }
+            foreach ([
+                QuotaHelper::parseQuotaInput($group)['error'],
+                RateLimitHelper::parseRateLimitInput($group)['error'],
+                ServerLifetimeHelper::parseLifetimeInput($group)['error'],
+                MembershipRuleHelper::parseRulesInput($group['membership_rules'] ?? null)['error'],
+            ] as $error) {
+                if ($error !== null) {
+                    $errors[] = $label . ': ' . $error;
+                }
+            }
+            if (array_key_exists('permissions', $group) && (!is_array($group['permissions']) || !array_is_list($group['permissions']))) {
+                $errors[] = $label . ': permissions must be an array';
+                continue;
+            }
+            foreach ($group['permissions'] ?? [] as $permIndex => $perm) {
+                if (!is_array($perm) || !in_array($perm['resource_type'] ?? null, self::RESOURCE_TYPES, true)) {
+                    $errors[] = $label . '.permissions[' . $permIndex . '] needs a resource_type';
+                    continue;
+                }
+                $ruleError = PermissionRuleHelper::parseRuleInput($perm)['error'];
+                if ($ruleError !== null) {
+                    $errors[] = $label . '.permissions[' . $permIndex . ']: ' . $ruleError;
+                }
+            }
+        }
+
+        return $errors;
+    }
+
+    private static function isValidResourceBound(mixed $bound): bool
+    {
+        if (!is_array($bound)) {
+            return false;
+        }
+        $min = $bound['min'] ?? null;
+        $max = $bound['max'] ?? null;
+        foreach ([$min, $max] as $value) {
+            if ($value !== null && (!is_int($value) || $value < 0)) {
+                return false;
+            }
+        }
+
+        return $min === null || $max === null || $min <= $max;
+    }
+
+    private static function validateSetting(string $key, mixed $value): ?string
+    {
+        if (in_array($key, self::BOOLEAN_SETTINGS, true)) {
+            return is_bool($value) ? null : 'must be true or false';
+        }
+        if (isset(self::INTEGER_SETTINGS[$key])) {
+            [$min, $max] = self::INTEGER_SETTINGS[$key];
+            if (!is_int($value) || $value < $min || ($max !== null && $value > $max)) {
+                return 'must be an integer of at least ' . $min . ($max !== null ? ' and at most ' . $max : '');
+            }
+
+            return null;
+        }
+        if (in_array($key, self::STRING_SETTINGS, true)) {
+            return is_string($value) ? null : 'must be a string';
+        }
+        if (in_array($key, self::modeSettings(), true)) {
+            return in_array($value, ['open', 'restricted'], true) ? null : 'must be open or restricted';
+        }
+
+        return match ($key) {
+            'user_restriction_mode' => in_array($value, ['all', 'specific'], true) ? null : 'must be all or specific',
+            'allocation_mode' => in_array($value, SettingsHelper::ALLOCATION_MODES, true) ? null : 'must be one of ' . implode(', ', SettingsHelper::ALLOCATION_MODES),
+            'waitlist_mode' => in_array($value, SettingsHelper::WAITLIST_MODES, true) ? null : 'must be one of ' . implode(', ', SettingsHelper::WAITLIST_MODES),
+            'resource_field_policies' => is_array($value) ? null : 'must be an object',
+            'placement_score_weights' => is_array($value) && empty(array_diff_key($value, SettingsHelper::DEFAULT_PLACEMENT_SCORE_WEIGHTS))
+                && empty(array_filter($value, fn ($weight) => !is_numeric($weight) || $weight < 0))
+                ? null : 'must map ' . implode(', ', array_keys(SettingsHelper::DEFAULT_PLACEMENT_SCORE_WEIGHTS)) . ' to non-negative numbers',
+            'naming_policy' => ServerNameHelper::parsePolicyInput($value)['error'],
+            'abuse_checks' => AbuseCheckHelper::parsePolicyInput($value)['error'],
+            default => 'unknown setting',
+        };
+    }
+
+    /**
+     * The configuration a validated document asks for, in local IDs.
+     * Sections missing from the document keep their current value.
+     *
+     * @param array<string,mixed> $document
+     * @param array<string,mixed> $current
+     * @param array<string,mixed> $mappings
+     * @param list<array<string,mixed>> $unresolved Collects references that could not be resolved
+     *
+     * @return array<string,mixed>
+     */
+    private static function desiredState(array $document, array $current, array $mappings, array &$unresolved): array
+    {
+        $desired = $current;
+        $resolve = function (string $type, mixed $ref, string $context) use ($mappings, &$unresolved): ?int {
+            $id = $type === 'user' ? self::resolveUser($ref, $mappings) : self::resolveResource($type, $ref, $mappings);
+            if ($id === null) {
+                $unresolved[] = [
+                    'type' => $type,
+                    'id' => is_array($ref) && isset($ref['id']) ? (int) $ref['id'] : null,
+                    'name' => is_array($ref) ? ($ref['name'] ?? null) : null,
+                    'context' => $context,
+                ];
+            }
+
+            return $id;
+        };
+
+        foreach ($document['settings'] ?? [] as $key => $value) {
+            if ($key === 'placement_score_weights') {
+                // Missing weights keep their current value, as when saving from the Settings page
+                $value = array_map('floatval', array_merge($current['settings'][$key], $value));
+            }
+            if ($key === 'naming_policy') {
+                $value = ServerNameHelper::parsePolicyInput($value)['policy'];
+            }
+            if ($key === 'abuse_checks') {
+                $value = AbuseCheckHelper::parsePolicyInput($value)['policy'];
+            }
+            $desired['settings'][$key] = $value;
+        }
+
+        foreach (self::RESOURCE_TYPES as $type) {
+            if (!isset($document['allowed_resources'][$type])) {
+                continue;
+            }
+            $ids = [];
+            foreach ((array) $document['allowed_resources'][$type] as $ref) {
+                $ids[] = $resolve($type, $ref, 'allowed_resources.' . $type);
+            }
+            $desired['allowed'][$type] = self::sortedIds(array_filter($ids));
+        }
+        if (array_key_exists('allowed_users', $document)) {
+            $ids = [];
+            foreach ($document['allowed_users'] as $ref) {
+                $ids[] = $resolve('user', $ref, 'allowed_users');
+            }
+            $desired['allowed']['user'] = self::sortedIds(array_filter($ids));
+        }
+
+        if (array_key_exists('node_server_caps', $document)) {
+            $caps = [];
+            foreach ($document['node_server_caps'] as $entry) {
+                $nodeId = $resolve('node', $entry['node'] ?? null, 'node_server_caps');
+                $max = max(0, (int) ($entry['max'] ?? 0));
+                if ($nodeId !== null && $max > 0) {
+                    $caps[$nodeId] = $max;
+                }
+            }
+            ksort($caps);
+            $desired['node_server_caps'] = $caps;
+        }
+
+        if (array_key_exists('node_placement_profiles', $document)) {
+            $profiles = [];
+            foreach ($document['node_placement_profiles'] as $entry) {
+                $nodeId = $resolve('node', $entry['node'] ?? null, 'node_placement_profiles');
+                if ($nodeId !== null) {
+                    $profiles[$nodeId] = ['weight' => $entry['weight'] ?? SettingsHelper::DEFAULT_NODE_WEIGHT, 'tags' => $entry['tags'] ?? []];
+                }
+            }
+            $profiles = SettingsHelper::normalizeNodePlacementProfiles($profiles);
+            $desired['node_placement_profiles'] = $profiles;
+        }
+
+        foreach (['node', 'location'] as $type) {
+            $section = $type . '_resource_bounds';
+            if (!array_key_exists($section, $document)) {
+                continue;
+            }
+            $bounds = [];
+            foreach ($document[$section] as $entry) {
+                $id = $resolve($type, $entry[$type] ?? null, $section);
+                if ($id !== null) {
+                    $bounds[$id] = $entry;
+                }
+            }
+            $desired[$section] = SettingsHelper::normalizeResourceBounds($bounds);
+        }
+
+        foreach ($document['placement_field_policies'] ?? [] as $key => $row) {
+            $policy = ['mode' => $row['mode']];
+            foreach (['value', 'default'] as $field) {
+                if (!isset($row[$field])) {
+                    continue;
+                }
+                $policy[$field] = is_array($row[$field])
+                    ? $resolve($key, $row[$field], 'placement_field_policies.' . $key)
+                    : $row[$field];
+                if ($policy[$field] === null) {
+                    unset($policy[$field]);
+                }
+            }
+            if (is_string($row['tag'] ?? null) && $row['tag'] !== '') {
+                $policy['tag'] = $row['tag'];
+            }
+            $desired['placement_field_policies'][$key] = $policy;
+        }
+
+        if (array_key_exists('resource_permissions', $document)) {
+            $permissions = [];
+            foreach ($document['resource_permissions'] as $entry) {
+                $type = $entry['resource_type'];
+                $resourceId = $resolve($type, $entry['resource'] ?? null, 'resource_permissions');
+                if ($resourceId === null) {
+                    continue;
+                }
+                $permissions[$type . ':' . $resourceId] = [
+                    'resource_type' => $type,
+                    'resource_id' => $resourceId,
+                    'permission_mode' => $entry['permission_mode'],
+                    'default_error_message' => is_string($entry['default_error_message'] ?? null) && $entry['default_error_message'] !== '' ? $entry['default_error_message'] : null,
+                    'requires_approval' => (bool) ($entry['requires_approval'] ?? false),
+                ];
+            }
+            ksort($permissions);
+            $desired['resource_permissions'] = $permissions;
+        }
+
+        if (array_key_exists('groups', $document)) {
+            $groups = [];
+            foreach ($document['groups'] as $group) {
+                $name = trim($group['name']);
+                $fields = [
+                    'description' => (string) ($group['description'] ?? ''),
+                    'color' => $group['color'] ?? '#3B82F6',
+                    'priority' => (int) ($group['priority'] ?? 0),
+                ];
+                $limits = array_merge(
+                    QuotaHelper::parseQuotaInput($group)['quotas'],
+                    RateLimitHelper::parseRateLimitInput($group)['limits'],
+                    ServerLifetimeHelper::parseLifetimeInput($group)['limits']
+                );
+                foreach (array_merge(Group::QUOTA_FIELDS, Group::RATE_LIMIT_FIELDS, Group::LIFETIME_FIELDS) as $field) {
+                    $fields[$field] = $limits[$field] ?? null;
+                }
+                $fields['requires_approval'] = (bool) ($group['requires_approval'] ?? false);
+                $fields['membership_rules'] = MembershipRuleHelper::parseRulesInput($group['membership_rules'] ?? null)['rules'];
+
+                $permissions = [];
+                foreach ($group['permissions'] ?? [] as $perm) {
+                    $type = $perm['resource_type'];
+                    $resourceId = $resolve($type, $perm['resource'] ?? null, 'groups.' . $name . '.permissions');
+                    if ($resourceId === null) {
+                        continue;
+                    }
+                    $rule = PermissionRuleHelper::parseRuleInput($perm)['rule'];
+                    $permissions[$type . ':' . $resourceId] = [
+                        'resource_type' => $type,
+                        'resource_id' => $resourceId,
+                        'effect' => $rule['effect'],
+                        'custom_error_message' => is_string($perm['custom_error_message'] ?? null) && $perm['custom_error_message'] !== '' ? $perm['custom_error_message'] : null,
+                        'starts_at' => $rule['starts_at'],
+                        'expires_at' => $rule['expires_at'],
+                    ];
+                }
+                ksort($permissions);
+
+                $groups[$name] = ['id' => $current['groups'][$name]['id'] ?? null, 'fields' => $fields, 'permissions' => $permissions];
+            }
+            ksort($groups);
+            $desired['groups'] = $groups;
+        }
+
+        return $desired;
+    }
+
+    /**
+     * Flatten a state into comparable entries keyed by section and item.
+     *
+     * @param array<string,mixed> $state
+     *
+     * @return array<string, array{section: string, key: string, label: string, value: mixed}>
+     */
+    private static function flatten(array $state): array
+    {
+        $out = [];
+        $add = function (string $section, string $key, string $label, mixed $value) use (&$out): void {
+            $out[$section . '|' . $key] = ['section' => $section, 'key' => $key, 'label' => $label, 'value' => $value];
+        };
+
+        foreach ($state['settings'] as $key => $value) {
+            $add('settings', $key, $key, $value);
+        }
+        foreach ($state['allowed'] as $type => $ids) {
+            foreach ($ids as $id) {
+                $add('allowed_' . $type . 's', (string) $id, $type === 'user' ? self::userLabel($id) : self::label($type, $id), true);
+            }
+        }
+        foreach ($state['node_server_caps'] as $nodeId => $max) {
+            $add('node_server_caps', (string) $nodeId, self::label('node', $nodeId), $max);
+        }
+        foreach ($state['node_placement_profiles'] as $nodeId => $profile) {
+            $add('node_placement_profiles', (string) $nodeId, self::label('node', $nodeId), $profile);
+        }
+        foreach (['node', 'location'] as $type) {
+            foreach ($state[$type . '_resource_bounds'] as $id => $bounds) {
+                $add($type . '_resource_bounds', (string) $id, self::label($type, $id), $bounds);
+            }
+        }
+        foreach ($state['placement_field_policies'] as $key => $row) {
+            $add('placement_field_policies', $key, $key, $row);
+        }
+        foreach ($state['resource_permissions'] as $key => $entry) {
+            $add('resource_permissions', $key, $entry['resource_type'] . ' ' . self::label($entry['resource_type'], $entry['resource_id']), [
+                'permission_mode' => $entry['permission_mode'],
+                'default_error_message' => $entry['default_error_message'],
+                'requires_approval' => $entry['requires_approval'],
+            ]);
+        }
+        foreach ($state['groups'] as $name => $group) {
+            $add('groups', $name, $name, $group['fields']);
+            foreach ($group['permissions'] as $key => $perm) {
+                $add('group_permissions', $name . ':' . $key, $name . ' → ' . $perm['resource_type'] . ' ' . self::label($perm['resource_type'], $perm['resource_id']), [
+                    'effect' => $perm['effect'],
+                    'custom_error_message' => $perm['custom_error_message'],
+                    'starts_at' => $perm['starts_at'],
+                    'expires_at' => $perm['expires_at'],
+                ]);
+            }
+        }
+
+        return $out;
+    }
+
+    /**
+     * @param array<string, array{section: string, key: string, label: string, value: mixed}> $before
+     * @param array<string, array{section: string, key: string, label: string, value: mixed}> $after
+     *
+     * @return list<array{section: string, key: string, label: string, action: string, before: mixed, after: mixed}>
+     */
+    private static function diff(array $before, array $after): array
+    {
+        $changes = [];
+        foreach ($after as $id => $entry) {
+            if (!array_key_exists($id, $before)) {
+                $action = 'added';
+            } elseif ($before[$id]['value'] != $entry['value']) {
+                $action = 'changed';
+            } else {
+                continue;
+            }
+            $changes[] = [
+                'section' => $entry['section'],
+                'key' => $entry['key'],
+                'label' => $entry['label'],
+                'action' => $action,
+                'before' => $before[$id]['value'] ?? null,
+                'after' => $entry['value'],
+            ];
+        }
+        foreach (array_diff_key($before, $after) as $entry) {
+            $changes[] = [
+                'section' => $entry['section'],
+                'key' => $entry['key'],
+                'label' => $entry['label'],
+                'action' => 'removed',
+                'before' => $entry['value'],
+                'after' => null,
+            ];
+        }
+
+        return $changes;
+    }
+
+    /**
+     * @param array<string,mixed> $current
+     * @param array<string,mixed> $desired
+     */
+    private static function applySettings(array $current, array $desired): void
+    {
+        $changed = array_keys(array_filter($desired, fn ($value, $key) => !array_key_exists($key, $current) || $current[$key] != $value, ARRAY_FILTER_USE_BOTH));
+        if (empty($changed)) {
+            return;
+        }
+
+        $rateLimits = [];
+        $lifetimeSettings = [];
+        foreach ($changed as $key) {
+            $value = $desired[$key];
+            match (true) {
+                $key === 'user_creation_enabled' => SettingsHelper::setUserCreationEnabled($value),
+                $key === 'require_discord_link' => SettingsHelper::setDiscordLinkRequired($value),
+                $key === 'user_restriction_mode' => SettingsHelper::setUserRestrictionMode($value),
+                $key === 'minimum_memory' => SettingsHelper::setMinimumMemory($value),
+                $key === 'minimum_cpu' => SettingsHelper::setMinimumCpu($value),
+                $key === 'minimum_disk' => SettingsHelper::setMinimumDisk($value),
+                $key === 'max_servers_per_node' => SettingsHelper::setMaxServersPerNode($value),
+                $key === 'node_at_capacity_error' => SettingsHelper::setNodeAtCapacityErrorMessage($value),
+                $key === 'allocation_mode' => SettingsHelper::setAllocationMode($value),
+                $key === 'waitlist_enabled' => SettingsHelper::setWaitlistEnabled($value),
+                $key === 'waitlist_mode' => SettingsHelper::setWaitlistMode($value),
+                $key === 'waitlist_offer_minutes' => SettingsHelper::setWaitlistOfferMinutes($value),
+                $key === 'resource_field_policies' => SettingsHelper::setResourceFieldPolicies($value),
+                $key === 'placement_score_weights' => SettingsHelper::setPlacementScoreWeights($value),
+                $key === 'naming_policy' => SettingsHelper::setNamingPolicy($value),
+                $key === 'abuse_checks' => SettingsHelper::setAbuseCheckPolicy($value),
+                str_starts_with($key, 'permission_mode_') => SettingsHelper::setResourcePermissionMode(substr($key, strlen('permission_mode_')), $value),
+                str_starts_with($key, 'default_error_') => SettingsHelper::setResourceDefaultErrorMessage(substr($key, strlen('default_error_')), $value),
+                in_array($key, Group::RATE_LIMIT_FIELDS, true) => $rateLimits[$key] = $value,
+                in_array($key, ServerLifetimeHelper::SETTING_KEYS, true) => $lifetimeSettings[$key] = $value,
+                default => null,
+            };
+        }
+
+        if (in_array('allocation_port_range_start', $changed, true) || in_array('allocation_port_range_end', $changed, true)) {
+            SettingsHelper::setAllocationPortRange($desired['allocation_port_range_start'], $desired['allocation_port_range_end']);
+        }
+        if (!empty($rateLimits)) {
+            SettingsHelper::setCreationRateLimits($rateLimits);
+        }
+        if (!empty($lifetimeSettings)) {
+            SettingsHelper::setServerLifetimeSettings($lifetimeSettings);
+        }
+    }
+
+    /**
+     * @param array<string,mixed> $current Current groups keyed by name
+     * @param array<string,mixed> $desired Desired groups keyed by name
+     */
+    private static function applyGroups(array $current, array $desired): void
+    {
+        foreach (array_diff_key($current, $desired) as $name => $group) {
+            if (!Group::delete($group['id'])) {
+                throw new \RuntimeException('Failed to delete group "' . $name . '"');
+            }
+        }
+
+        foreach ($desired as $name => $group) {
+            $fields = $group['fields'];
+            $existing = $current[$name] ?? null;
+
+            if ($existing === null) {
+                $limits = array_intersect_key($fields, array_flip(array_merge(Group::QUOTA_FIELDS, Group::RATE_LIMIT_FIELDS, Group::LIFETIME_FIELDS)));
+                $groupId = Group::create(
+                    $name,
+                    $fields['description'] !== '' ? $fields['description'] : null,
+                    $fields['color'],
+                    $fields['priority'],
+                    $limits,
+                    MembershipRuleHelper::encode($fields['membership_rules']),
+                    $fields['requires_approval']
+                );
+                if ($groupId === false) {
+                    throw new \RuntimeException('Failed to create group "' . $name . '"');
+                }
+                $currentPermissions = [];
+            } else {
+                $groupId = $existing['id'];
+                $update = array_merge($fields, ['membership_rules' => MembershipRuleHelper::encode($fields['membership_rules'])]);
+                if ($existing['fields'] != $fields && !Group::update($groupId, $update)) {
+                    throw new \RuntimeException('Failed to update group "' . $name . '"');
+                }
+                $currentPermissions = $existing['permissions'];
+            }
+
+            if (($existing['fields']['membership_rules'] ?? null) != $fields['membership_rules']
+                && !MembershipRuleHelper::refreshGroup($groupId, $fields['membership_rules'])) {
+                throw new \RuntimeException('Failed to refresh the members of group "' . $name . '"');
+            }
+
+            foreach (array_diff_key($currentPermissions, $group['permissions']) as $perm) {
+                GroupPermission::delete($groupId, $perm['resource_type'], $perm['resource_id']);
+            }
+            foreach ($group['permissions'] as $key => $perm) {
+                if (($currentPermissions[$key] ?? null) == $perm) {
+                    continue;
+                }
+                $saved = GroupPermission::createOrUpdate($groupId, $perm['resource_type'], $perm['resource_id'], $perm['custom_error_message'], [
+                    'effect' => $perm['effect'],
+                    'starts_at' => $perm['starts_at'],
+                    'expires_at' => $perm['expires_at'],
+                ]);
+                if (!$saved) {
+                    throw new \RuntimeException('Failed to save a permission of group "' . $name . '"');
+                }
+            }
+        }
+    }
+
+    /**
+     * @param array<string,mixed> $mappings
+     */
+    private static function resolveResource(string $type, mixed $ref, array $mappings): ?int
+    {
+        if (!is_array($ref) || !isset($ref['id']) || !is_numeric($ref['id'])) {
+            return null;
+        }
+        $catalog = self::catalog($type);
+        $id = (int) $ref['id'];
+
+        if (isset($mappings[$type][(string) $id]) && is_numeric($mappings[$type][(string) $id])) {
+            $mapped = (int) $mappings[$type][(string) $id];
+
+            return isset($catalog['by_id'][$mapped]) ? $mapped : null;
+        }
+        if (is_string($ref['uuid'] ?? null) && isset($catalog['by_uuid'][$ref['uuid']])) {
+            return $catalog['by_uuid'][$ref['uuid']];
+        }
+        if (is_string($ref['name'] ?? null) && isset($catalog['by_name'][$ref['name']])) {
+            return $catalog['by_name'][$ref['name']];
+        }
+        if (!isset($ref['uuid']) && !isset($ref['name']) && isset($catalog['by_id'][$id])) {
+            return $id;
+        }
+
+        return null;
+    }
+
+    /**
+     * @param array<string,mixed> $mappings
+     */
+    private static function resolveUser(mixed $ref, array $mappings): ?int
+    {
+        if (!is_array($ref) || !isset($ref['id']) || !is_numeric($ref['id'])) {
+            return null;
+        }
+        $id = (int) $ref['id'];
+
+        if (isset($mappings['user'][(string) $id]) && is_numeric($mappings['user'][(string) $id])) {
+            $user = User::getUserById((int) $mappings['user'][(string) $id]);
+
+            return $user !== null ? (int) $user['id'] : null;
+        }
+        if (is_string($ref['uuid'] ?? null)) {
+            $user = User::getUserByUuid($ref['uuid']);
+            if ($user !== null) {
+                return (int) $user['id'];
+            }
+        }
+        if (is_string($ref['name'] ?? null)) {
+            $user = User::getUserByUsername($ref['name']);
+            if ($user !== null) {
+                return (int) $user['id'];
+            }
+        }
+        if (!isset($ref['uuid']) && !isset($ref['name'])) {
+            $user = User::getUserById($id);
+
+            return $user !== null ? (int) $user['id'] : null;
+        }
+
+        return null;
+    }
+
+    /**
+     * @return array{by_id: array<int, array{id: int, name: string|null, uuid?: string|null}>, by_uuid: array<string, int>, by_name: array<string, int|null>}
+     */
+    private static function catalog(string $type): array
+    {
+        if (isset(self::$catalog[$type])) {
+            return self::$catalog[$type];
+        }
+
+        $rows = match ($type) {
+            'location' => Location::getAll(null, 1000, 0),
+            'node' => Node::getAllNodes(),
+            'realm' => Realm::getAll(null, 1000, 0),
+            'spell' => Spell::getAllSpells(),
+            default => [],
+        };
+
+        $catalog = ['by_id' => [], 'by_uuid' => [], 'by_name' => []];
+        foreach ($rows as $row) {
+            $id = (int) $row['id'];
+            $ref = ['id' => $id, 'name' => $row['name'] ?? null];
+            if (in_array($type, ['node', 'spell'], true)) {
+                $ref['uuid'] = $row['uuid'] ?? null;
+                if ($ref['uuid'] !== null) {
+                    $catalog['by_uuid'][$ref['uuid']] = $id;
+                }
+            }
+            $catalog['by_id'][$id] = $ref;
+            if ($ref['name'] !== null) {
+                // Names shared by several resources cannot identify one
+                $catalog['by_name'][$ref['name']] = array_key_exists($ref['name'], $catalog['by_name']) ? null : $id;
+            }
+        }
+
+        return self::$catalog[$type] = $catalog;
+    }
+
+    /**
+     * @return array{id: int, name: string|null, uuid?: string|null}
+     */
+    private static function reference(string $type, int $id): array
+    {
+        return self::catalog($type)['by_id'][$id] ?? ['id' => $id, 'name' => null];
+    }
+
+    /**
+     * @return array{id: int, name: string|null, uuid: string|null}
+     */
+    private static function userReference(int $id): array
+    {
+        $user = User::getUserById($id);
+
+        return ['id' => $id, 'name' => $user['username'] ?? null, 'uuid' => $user['uuid'] ?? null];
+    }
+
+    private static function label(string $type, int $id): string
+    {
+        return self::reference($type, $id)['name'] ?? '#' . $id;
+    }
+
+    private static function userLabel(int $id): string
+    {
+        return User::getUserById($id)['username'] ?? '#' . $id;
+    }
+
+    /**
+     * @return list<string>
+     */
+    private static function modeSettings(): array
+    {
+        return array_map(fn (string $type) => 'permission_mode_' . $type, self::RESOURCE_TYPES);
+    }
+
+    /**
+     * @param array<int|string, mixed> $ids
+     *
+     * @return list<int>
+     */
+    private static function sortedIds(array $ids): array
+    {
+        $ids = array_values(array_unique(array_map('intval', $ids)));
+        sort($ids);
+
+        return $ids;
+    }
+
+    /**
+     * @param array<string,mixed> $state
+     */
+    private static function stateHash(array $state): string
+    {
+        return hash('sha256', (string) json_encode($state));
+    }
+}
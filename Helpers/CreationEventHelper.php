@@ -0,0 +1,131 @@
+<?php
+
+/*
+ * This file is part of FeatherPanel.
+ *
+ * Copyright (C) 2025 MythicalSystems Studios
+ * Copyright (C) 2025 FeatherPanel Contributors
+ * Copyright (C) 2025 Cassian Gherman (aka NaysKutzu)
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * See the LICENSE file or <https://www.gnu.org/licenses/>.
+ */
+
+namespace App\Addons\billingresourcesnewservers\Helpers;
+
+use App\App;
+use App\Chat\User;
+use App\Plugins\PluginEvents;
+
+/**
+ * Helper that announces server creation milestones to other plugins and to webhooks.
+ * Successful creations are also queued for the Discord webhook (see DiscordHelper).
+ *
+ * Events are emitted on the panel event bus handed to the plugin in processEvents;
+ * listeners receive the payload array as their only argument:
+ *
+ *     $event->on(CreationEventHelper::EVENT_SUCCEEDED, function (array $payload) { ... });
+ *
+ * requested fires once a validated request is queued, succeeded when the server finished
+ * installing and failed every time an attempt fails (retryable tells whether the user can
+ * still retry). Payloads share one shape; error_code and error_message are only set on failed.
+ */
+class CreationEventHelper
+{
+    public const EVENT_REQUESTED = 'server.creation.requested';
+
+    public const EVENT_SUCCEEDED = 'server.creation.succeeded';
+
+    public const EVENT_FAILED = 'server.creation.failed';
+
+    /** @var list<string> */
+    public const EVENTS = [self::EVENT_REQUESTED, self::EVENT_SUCCEEDED, self::EVENT_FAILED];
+
+    /** Create payload fields copied into event payloads (variables are left out, they may hold secrets) */
+    private const PAYLOAD_FIELDS = ['name', 'node_id', 'realms_id', 'spell_id', 'memory', 'cpu', 'disk', 'swap', 'io', 'database_limit', 'allocation_limit', 'backup_limit', 'image'];
+
+    /** The panel event bus, null until processEvents ran (e.g. CLI) */
+    private static ?PluginEvents $events = null;
+
+    /**
+     * Remember the panel event bus events are emitted on.
+     */
+    public static function register(PluginEvents $events): void
+    {
+        self::$events = $events;
+    }
+
+    /**
+     * Announce a creation request.
+     *
+     * @param string $event One of EVENTS
+     * @param array<string,mixed> $request Creation request (payload decoded)
+     */
+    public static function emit(string $event, array $request): void
+    {
+        $payload = self::buildPayload($event, $request);
+
+        try {
+            self::$events?->emit($event, [$payload]);
+        } catch (\Throwable $e) {
+            App::getInstance(true)->getLogger()->error('A listener of ' . $event . ' failed: ' . $e->getMessage());
+        }
+
+        // A broken receiver or webhook table must never break server creation
+        try {
+            WebhookHelper::dispatch($event, $payload);
+        } catch (\Throwable $e) {
+            App::getInstance(true)->getLogger()->error('Failed to dispatch webhooks for ' . $event . ': ' . $e->getMessage());
+        }
+
+        if ($event === self::EVENT_SUCCEEDED) {
+            try {
+                DiscordHelper::queueServerCreated($event, $payload);
+            } catch (\Throwable $e) {
+                App::getInstance(true)->getLogger()->error('Failed to queue the Discord announcement: ' . $e->getMessage());
+            }
+        }
+    }
+
+    /**
+     * The payload of an event.
+     *
+     * @param string $event One of EVENTS
+     * @param array<string,mixed> $request Creation request (payload decoded)
+     *
+     * @return array<string,mixed>
+     */
+    private static function buildPayload(string $event, array $request): array
+    {
+        $userId = (int) $request['user_id'];
+        $user = User::getUserById($userId);
+        $data = is_array($request['payload'] ?? null) ? $request['payload'] : [];
+
+        $server = ['id' => $request['server_id'] !== null ? (int) $request['server_id'] : null, 'uuid' => $request['server_uuid'] ?? null];
+        foreach (self::PAYLOAD_FIELDS as $field) {
+            $server[$field] = $data[$field] ?? null;
+        }
+
+        $failed = $event === self::EVENT_FAILED;
+
+        return [
+            'request_id' => (int) $request['id'],
+            'attempt' => (int) ($request['attempts'] ?? 1),
+            'state' => $request['state'],
+            'user' => [
+                'id' => $userId,
+                'uuid' => $user['uuid'] ?? null,
+                'username' => $user['username'] ?? null,
+            ],
+            'server' => $server,
+            'error_code' => $failed ? ($request['error_code'] ?? null) : null,
+            'error_message' => $failed ? ($request['error_message'] ?? null) : null,
+            'retryable' => $failed ? ServerProvisioningHelper::isRetryable($request) : null,
+            'occurred_at' => date(DATE_ATOM),
+        ];
+    }
+}
@@ -0,0 +1,270 @@
+<?php
+
+/*
+ * This file is part of FeatherPanel.
+ *
+ * Copyright (C) 2025 MythicalSystems Studios
+ * Copyright (C) 2025 FeatherPanel Contributors
+ * Copyright (C) 2025 Cassian Gherman (aka NaysKutzu)
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * See the LICENSE file or <https://www.gnu.org/licenses/>.
+ */
+
+namespace App\Addons\billingresourcesnewservers\Helpers;
+
+use App\App;
+use App\Chat\Node;
+use App\Chat\User;
+use App\Chat\Spell;
+use GuzzleHttp\Client;
+use App\Addons\billingresourcesnewservers\Chat\DiscordMember;
+use App\Addons\billingresourcesnewservers\Chat\WebhookDelivery;
+
+/**
+ * Helper for the Discord integration beyond the link requirement.
+ *
+ * Created servers are announced on the configured Discord webhook; announcements are queued
+ * with the webhook deliveries and sent (and retried) by WebhookHelper. With a guild and a bot
+ * token configured, the roles a linked user holds in that guild are cached in discord_members
+ * and can be used by the discord_role group membership condition (so e.g. "Booster" holders
+ * land in a group that unlocks a premium location). The bot only needs to be in the guild;
+ * reading members requires the Server Members intent to be enabled for it.
+ */
+class DiscordHelper
+{
+    private const API_BASE = 'https://discord.com/api/v10';
+
+    /** Seconds to wait for Discord */
+    private const TIMEOUT = 5;
+
+    /** Seconds cached guild roles are trusted before they are looked up again */
+    private const ROLE_CACHE_SECONDS = 600;
+
+    /** Discord error code for a user that is not in the guild */
+    private const UNKNOWN_MEMBER = 10007;
+
+    /** Attempts made at an announcement before it is given up */
+    public const MAX_ATTEMPTS = 3;
+
+    /** Embed colour of the creation announcement (green) */
+    private const EMBED_COLOR = 0x22C55E;
+
+    /** Characters of Discord's answer kept in the delivery log */
+    private const RESPONSE_BODY_LIMIT = 2000;
+
+    /**
+     * Whether a URL is a Discord webhook URL.
+     */
+    public static function isWebhookUrl(string $url): bool
+    {
+        return preg_match('#^https://(?:(?:ptb|canary)\.)?discord(?:app)?\.com/api/(?:v\d+/)?webhooks/\d+/[\w-]+$#', $url) === 1;
+    }
+
+    /**
+     * Whether a value looks like a Discord ID.
+     */
+    public static function isSnowflake(string $id): bool
+    {
+        return preg_match('/^\d{15,21}$/', $id) === 1;
+    }
+
+    /**
+     * Whether a guild and bot token are configured, so member roles can be looked up.
+     */
+    public static function isRoleSyncConfigured(): bool
+    {
+        return SettingsHelper::getDiscordGuildId() !== '' && SettingsHelper::getDiscordBotToken() !== '';
+    }
+
+    /**
+     * The roles of the configured guild, highest first (@everyone and managed bot roles left out).
+     *
+     * @return array{roles: list<array{id: string, name: string, color: int, position: int}>, error: string|null}
+     */
+    public static function getGuildRoles(): array
+    {
+        if (!self::isRoleSyncConfigured()) {
+            return ['roles' => [], 'error' => 'Set a Discord server ID and bot token first'];
+        }
+
+        $guildId = SettingsHelper::getDiscordGuildId();
+        $response = self::botRequest('/guilds/' . $guildId . '/roles');
+        if ($response['error'] !== null) {
+            return ['roles' => [], 'error' => $response['error']];
+        }
+
+        $roles = [];
+        foreach ($response['data'] as $role) {
+            if (!is_array($role) || (string) ($role['id'] ?? '') === $guildId || !empty($role['managed'])) {
+                continue;
+            }
+            $roles[] = [
+                'id' => (string) $role['id'],
+                'name' => (string) ($role['name'] ?? ''),
+                'color' => (int) ($role['color'] ?? 0),
+                'position' => (int) ($role['position'] ?? 0),
+            ];
+        }
+        usort($roles, fn (array $a, array $b) => $b['position'] <=> $a['position']);
+
+        return ['roles' => $roles, 'error' => null];
+    }
+
+    /**
+     * Refresh the cached guild roles of a user when they are stale.
+     * Unlinked users lose their cache; lookup failures keep the previous roles.
+     *
+     * @param int $userId User ID
+     * @param bool $force Look the roles up even if the cache is fresh
+     */
+    public static function syncMemberRoles(int $userId, bool $force = false): void
+    {
+        $user = User::getUserById($userId);
+        $discordId = (string) ($user['discord_oauth2_id'] ?? '');
+        if (!$user || ($user['discord_oauth2_linked'] ?? 'false') !== 'true' || $discordId === '') {
+            DiscordMember::delete($userId);
+
+            return;
+        }
+        if (!self::isRoleSyncConfigured()) {
+            return;
+        }
+
+        $guildId = SettingsHelper::getDiscordGuildId();
+        $cached = DiscordMember::getByUserId($userId);
+        if (
+            !$force && $cached !== null
+            && $cached['discord_id'] === $discordId && $cached['guild_id'] === $guildId
+            && strtotime((string) $cached['synced_at']) > time() - self::ROLE_CACHE_SECONDS
+        ) {
+            return;
+        }
+
+        $response = self::botRequest('/guilds/' . $guildId . '/members/' . $discordId);
+        if ($response['status'] === 404 && ($response['data']['code'] ?? null) === self::UNKNOWN_MEMBER) {
+            DiscordMember::upsert($userId, $discordId, $guildId, [], false);
+
+            return;
+        }
+        if ($response['error'] !== null) {
+            App::getInstance(true)->getLogger()->warning('Failed to look up Discord roles of user ' . $userId . ': ' . $response['error']);
+
+            return;
+        }
+
+        $roleIds = array_values(array_map('strval', is_array($response['data']['roles'] ?? null) ? $response['data']['roles'] : []));
+        DiscordMember::upsert($userId, $discordId, $guildId, $roleIds, true);
+    }
+
+    /**
+     * Queue the announcement of a created server, if a Discord webhook is configured.
+     *
+     * @param string $event Event name (server.creation.succeeded)
+     * @param array<string,mixed> $payload Event payload
+     */
+    public static function queueServerCreated(string $event, array $payload): void
+    {
+        if (SettingsHelper::getDiscordWebhookUrl() === '') {
+            return;
+        }
+
+        WebhookDelivery::create(null, $event, $payload, WebhookDelivery::TARGET_DISCORD);
+    }
+
+    /**
+     * POST a queued announcement to the Discord webhook.
+     *
+     * @param array<string,mixed> $delivery Delivery record (target = discord)
+     *
+     * @return array{response_status: int|null, response_body: string|null, error_message: string|null, duration_ms: int}
+     */
+    public static function sendServerCreated(array $delivery): array
+    {
+        $url = SettingsHelper::getDiscordWebhookUrl();
+        if ($url === '') {
+            return ['response_status' => null, 'response_body' => null, 'error_message' => 'No Discord webhook URL is configured', 'duration_ms' => 0];
+        }
+
+        $payload = $delivery['payload'];
+        $server = $payload['server'] ?? [];
+        $node = !empty($server['node_id']) ? Node::getNodeById((int) $server['node_id']) : null;
+        $spell = !empty($server['spell_id']) ? Spell::getSpellById((int) $server['spell_id']) : null;
+
+        $fields = [
+            ['name' => 'Owner', 'value' => (string) ($payload['user']['username'] ?? '#' . ($payload['user']['id'] ?? '?')), 'inline' => true],
+            ['name' => 'Software', 'value' => (string) ($spell['name'] ?? '—'), 'inline' => true],
+            ['name' => 'Node', 'value' => (string) ($node['name'] ?? '—'), 'inline' => true],
+            [
+                'name' => 'Resources',
+                'value' => (int) ($server['memory'] ?? 0) . ' MB RAM · ' . (int) ($server['cpu'] ?? 0) . '% CPU · ' . (int) ($server['disk'] ?? 0) . ' MB disk',
+                'inline' => false,
+            ],
+        ];
+
+        $startedAt = microtime(true);
+        try {
+            $client = new Client(['timeout' => self::TIMEOUT, 'connect_timeout' => self::TIMEOUT, 'http_errors' => false]);
+            $response = $client->post($url, [
+                'json' => [
+                    'allowed_mentions' => ['parse' => []],
+                    'embeds' => [[
+                        'title' => 'New server: ' . (string) ($server['name'] ?? 'Unnamed'),
+                        'color' => self::EMBED_COLOR,
+                        'fields' => $fields,
+                        'timestamp' => $payload['occurred_at'] ?? date(DATE_ATOM),
+                    ]],
+                ],
+            ]);
+            $status = $response->getStatusCode();
+
+            return [
+                'response_status' => $status,
+                'response_body' => mb_substr((string) $response->getBody(), 0, self::RESPONSE_BODY_LIMIT),
+                'error_message' => $status >= 200 && $status < 300 ? null : 'Discord answered with HTTP ' . $status,
+                'duration_ms' => (int) round((microtime(true) - $startedAt) * 1000),
+            ];
+        } catch (\Throwable $e) {
+            return [
+                'response_status' => null,
+                'response_body' => null,
+                'error_message' => $e->getMessage(),
+                'duration_ms' => (int) round((microtime(true) - $startedAt) * 1000),
+            ];
+        }
+    }
+
+    /**
+     * GET a Discord API path with the bot token.
+     *
+     * @return array{status: int|null, data: array<mixed>, error: string|null}
+     */
+    private static function botRequest(string $path): array
+    {
+        try {
+            $client = new Client(['timeout' => self::TIMEOUT, 'connect_timeout' => self::TIMEOUT, 'http_errors' => false]);
+            $response = $client->get(self::API_BASE . $path, [
+                'headers' => [
+                    'Authorization' => 'Bot ' . SettingsHelper::getDiscordBotToken(),
+                    'User-Agent' => 'FeatherPanel-BillingResourcesNewServers (https://featherpanel.com, 1)',
+                ],
+            ]);
+        } catch (\Throwable $e) {
+            return ['status' => null, 'data' => [], 'error' => $e->getMessage()];
+        }
+
+        $status = $response->getStatusCode();
+        $data = json_decode((string) $response->getBody(), true);
+        if ($status !== 200) {
+            $message = is_array($data) && isset($data['message']) ? (string) $data['message'] : 'HTTP ' . $status;
+
+            return ['status' => $status, 'data' => is_array($data) ? $data : [], 'error' => 'Discord answered: ' . $message];
+        }
+
+        return ['status' => $status, 'data' => is_array($data) ? $data : [], 'error' => null];
+    }
+}
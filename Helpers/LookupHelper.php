@@ -0,0 +1,181 @@
+<?php
+
+/*
+ * This file is part of FeatherPanel.
+ *
+ * Copyright (C) 2025 MythicalSystems Studios
+ * Copyright (C) 2025 FeatherPanel Contributors
+ * Copyright (C) 2025 Cassian Gherman (aka NaysKutzu)
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * See the LICENSE file or <https://www.gnu.org/licenses/>.
+ */
+
+namespace App\Addons\billingresourcesnewservers\Helpers;
+
+use App\Chat\Database;
+
+/**
+ * Helper for the searchable user and resource pickers of the permissions admin.
+ * Searches run in the database, so the pickers work the same with ten users or a hundred thousand.
+ */
+class LookupHelper
+{
+    /**
+     * Panel table of each resource type and the column shown under its name.
+     *
+     * @var array<string,array{table: string, detail: string}>
+     */
+    public const RESOURCE_TABLES = [
+        'location' => ['table' => 'featherpanel_locations', 'detail' => 'description'],
+        'node' => ['table' => 'featherpanel_nodes', 'detail' => 'fqdn'],
+        'realm' => ['table' => 'featherpanel_realms', 'detail' => 'description'],
+        'spell' => ['table' => 'featherpanel_spells', 'detail' => 'description'],
+    ];
+
+    /**
+     * Users whose username or email contains the search term, by username.
+     *
+     * @param string $search Search term ('' = everyone)
+     * @param int $limit Page size
+     * @param int $offset Rows to skip
+     *
+     * @return array{total: int, users: list<array{id: int, uuid: string, username: string, email: string}>}
+     */
+    public static function searchUsers(string $search, int $limit, int $offset): array
+    {
+        $where = '1 = 1';
+        $params = [];
+        if ($search !== '') {
+            $where = '(u.username LIKE :search OR u.email LIKE :search_email)';
+            $params = ['search' => self::likePattern($search), 'search_email' => self::likePattern($search)];
+        }
+
+        $pdo = Database::getPdoConnection();
+        $stmt = $pdo->prepare('SELECT COUNT(*) FROM featherpanel_users u WHERE ' . $where);
+        $stmt->execute($params);
+        $total = (int) $stmt->fetchColumn();
+
+        $stmt = $pdo->prepare(
+            'SELECT u.id, u.uuid, u.username, u.email FROM featherpanel_users u WHERE ' . $where
+            . ' ORDER BY u.username ASC LIMIT ' . max(1, $limit) . ' OFFSET ' . max(0, $offset)
+        );
+        $stmt->execute($params);
+        $users = array_map(static fn (array $row): array => [
+            'id' => (int) $row['id'],
+            'uuid' => $row['uuid'],
+            'username' => $row['username'],
+            'email' => $row['email'],
+        ], $stmt->fetchAll(\PDO::FETCH_ASSOC));
+
+        return ['total' => $total, 'users' => $users];
+    }
+
+    /**
+     * Resources of a type whose name contains the search term, by name.
+     * A numeric search term also matches the resource ID.
+     *
+     * @param string $resourceType location, node, realm or spell
+     * @param string $search Search term ('' = all)
+     * @param int $limit Page size
+     * @param int $offset Rows to skip
+     *
+     * @return array{total: int, resources: list<array{id: int, name: string, description: string|null}>}
+     */
+    public static function searchResources(string $resourceType, string $search, int $limit, int $offset): array
+    {
+        $table = self::RESOURCE_TABLES[$resourceType];
+        $where = '1 = 1';
+        $params = [];
+        if ($search !== '') {
+            $where = '(r.name LIKE :search OR r.' . $table['detail'] . ' LIKE :search_detail' . (ctype_digit($search) ? ' OR r.id = :id' : '') . ')';
+            $params = ['search' => self::likePattern($search), 'search_detail' => self::likePattern($search)];
+            if (ctype_digit($search)) {
+                $params['id'] = (int) $search;
+            }
+        }
+
+        $pdo = Database::getPdoConnection();
+        $stmt = $pdo->prepare('SELECT COUNT(*) FROM ' . $table['table'] . ' r WHERE ' . $where);
+        $stmt->execute($params);
+        $total = (int) $stmt->fetchColumn();
+
+        $stmt = $pdo->prepare(
+            'SELECT r.id, r.name, r.' . $table['detail'] . ' AS detail FROM ' . $table['table'] . ' r WHERE ' . $where
+            . ' ORDER BY r.name ASC, r.id ASC LIMIT ' . max(1, $limit) . ' OFFSET ' . max(0, $offset)
+        );
+        $stmt->execute($params);
+        $resources = array_map(static fn (array $row): array => [
+            'id' => (int) $row['id'],
+            'name' => $row['name'],
+            'description' => $row['detail'] !== null && $row['detail'] !== '' ? $row['detail'] : null,
+        ], $stmt->fetchAll(\PDO::FETCH_ASSOC));
+
+        return ['total' => $total, 'resources' => $resources];
+    }
+
+    /**
+     * Names of the given resources, so permission lists can be labelled without loading every resource.
+     *
+     * @param string $resourceType location, node, realm or spell
+     * @param array<int> $ids Resource IDs
+     *
+     * @return array<int,string> Resource ID => name (deleted resources are missing)
+     */
+    public static function getResourceNames(string $resourceType, array $ids): array
+    {
+        $ids = array_values(array_unique(array_map('intval', $ids)));
+        if (empty($ids)) {
+            return [];
+        }
+
+        $placeholders = [];
+        $params = [];
+        foreach ($ids as $i => $id) {
+            $placeholders[] = ':id' . $i;
+            $params['id' . $i] = $id;
+        }
+
+        $pdo = Database::getPdoConnection();
+        $stmt = $pdo->prepare('SELECT id, name FROM ' . self::RESOURCE_TABLES[$resourceType]['table'] . ' WHERE id IN (' . implode(', ', $placeholders) . ')');
+        $stmt->execute($params);
+
+        $names = [];
+        foreach ($stmt->fetchAll(\PDO::FETCH_ASSOC) as $row) {
+            $names[(int) $row['id']] = $row['name'];
+        }
+
+        return $names;
+    }
+
+    /**
+     * Add resource_name to permission entries grouped as {locations: [...], nodes: [...], realms: [...], spells: [...]}.
+     *
+     * @param array<string,array<int,array<string,mixed>>> $grouped Entries with resource_id, keyed by plural resource type
+     *
+     * @return array<string,array<int,array<string,mixed>>> The same entries; resource_name is null once the resource is deleted
+     */
+    public static function withResourceNames(array $grouped): array
+    {
+        foreach ($grouped as $key => $entries) {
+            $names = self::getResourceNames(substr($key, 0, -1), array_column($entries, 'resource_id'));
+            foreach ($entries as $i => $entry) {
+                $grouped[$key][$i]['resource_name'] = $names[(int) $entry['resource_id']] ?? null;
+            }
+        }
+
+        return $grouped;
+    }
+
+    /**
+     * LIKE pattern matching the term anywhere, with LIKE wildcards in the term taken literally.
+     */
+    public static function likePattern(string $search): string
+    {
+        return '%' . addcslashes($search, '%_\\') . '%';
+    }
+}
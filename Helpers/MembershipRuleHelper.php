@@ -0,0 +1,365 @@
+<?php
+
+/*
+ * This file is part of FeatherPanel.
+ *
+ * Copyright (C) 2025 MythicalSystems Studios
+ * Copyright (C) 2025 FeatherPanel Contributors
+ * Copyright (C) 2025 Cassian Gherman (aka NaysKutzu)
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * See the LICENSE file or <https://www.gnu.org/licenses/>.
+ */
+
+namespace App\Addons\billingresourcesnewservers\Helpers;
+
+use App\Chat\Database;
+use App\Addons\billingresourcesnewservers\Chat\Group;
+use App\Addons\billingresourcesnewservers\Chat\UserGroup;
+use App\Addons\billingresourcesnewservers\Chat\DiscordMember;
+
+/**
+ * Helper for rule-based group membership.
+ *
+ * A group's membership_rules hold {"match": "all"|"any", "conditions": [...]} where each condition is one of:
+ *   discord_linked                      the user linked a Discord account
+ *   discord_role      {role_ids}        the user holds one of role_ids in the configured Discord guild
+ *   account_age       {min_days}        the account is at least min_days old
+ *   billing_purchase                    the user has at least one paid Billing Core invoice
+ *   panel_role        {role_ids}        the user's panel role is one of role_ids
+ *   email_domain      {domains}         the email domain is one of domains ("*.example.com" also matches subdomains)
+ * Matching users get a membership with source "rule"; manual memberships are never touched.
+ * Discord roles come from the discord_members cache, which syncUser refreshes for the user at hand.
+ */
+class MembershipRuleHelper
+{
+    /** @var list<string> */
+    public const CONDITION_TYPES = ['discord_linked', 'discord_role', 'account_age', 'billing_purchase', 'panel_role', 'email_domain'];
+
+    /** @var list<string> */
+    public const MATCH_MODES = ['all', 'any'];
+
+    /** Billing Core table holding purchases (only paid invoices count) */
+    private const BILLING_INVOICES_TABLE = 'featherpanel_billingcore_invoices';
+
+    private static ?bool $billingAvailable = null;
+
+    /**
+     * Validate and normalize membership rules from a request payload.
+     * An empty condition list means the group has no rules (manual membership only).
+     *
+     * @param mixed $input Value of membership_rules in the payload
+     *
+     * @return array{rules: array{match: string, conditions: array<array<string,mixed>>}|null, error: string|null}
+     */
+    public static function parseRulesInput(mixed $input): array
+    {
+        if ($input === null) {
+            return ['rules' => null, 'error' => null];
+        }
+        if (!is_array($input)) {
+            return ['rules' => null, 'error' => 'membership_rules must be an object or null'];
+        }
+
+        $match = $input['match'] ?? 'all';
+        if (!in_array($match, self::MATCH_MODES, true)) {
+            return ['rules' => null, 'error' => 'membership_rules.match must be all or any'];
+        }
+
+        $conditions = $input['conditions'] ?? [];
+        if (!is_array($conditions) || !array_is_list($conditions)) {
+            return ['rules' => null, 'error' => 'membership_rules.conditions must be a list'];
+        }
+
+        $parsed = [];
+        foreach ($conditions as $index => $condition) {
+            $result = self::parseCondition($condition);
+            if ($result['error'] !== null) {
+                return ['rules' => null, 'error' => 'membership_rules.conditions[' . $index . ']: ' . $result['error']];
+            }
+            $parsed[] = $result['condition'];
+        }
+
+        if (empty($parsed)) {
+            return ['rules' => null, 'error' => null];
+        }
+
+        return ['rules' => ['match' => $match, 'conditions' => $parsed], 'error' => null];
+    }
+
+    /**
+     * Decode the stored membership_rules of a group.
+     *
+     * @param array<string,mixed> $group Group record
+     *
+     * @return array{match: string, conditions: array<array<string,mixed>>}|null
+     */
+    public static function decode(array $group): ?array
+    {
+        if (empty($group['membership_rules'])) {
+            return null;
+        }
+        $rules = json_decode((string) $group['membership_rules'], true);
+
+        return self::parseRulesInput($rules)['rules'];
+    }
+
+    /**
+     * Encode normalized rules for storage.
+     *
+     * @param array<string,mixed>|null $rules Normalized rules
+     */
+    public static function encode(?array $rules): ?string
+    {
+        return $rules === null ? null : json_encode($rules);
+    }
+
+    /**
+     * Whether any group's rules use a condition type.
+     *
+     * @param string $type One of CONDITION_TYPES
+     */
+    public static function isConditionInUse(string $type): bool
+    {
+        foreach (Group::getWithMembershipRules() as $group) {
+            $rules = self::decode($group);
+            if ($rules !== null && in_array($type, array_column($rules['conditions'], 'type'), true)) {
+                return true;
+            }
+        }
+
+        return false;
+    }
+
+    /**
+     * Re-evaluate every rule-based group for a user and update their rule memberships.
+     * Called before permissions are resolved so the result reflects the user's current state.
+     *
+     * @param int $userId User ID
+     */
+    public static function syncUser(int $userId): void
+    {
+        $groupRules = [];
+        $usesDiscordRoles = false;
+        foreach (Group::getWithMembershipRules() as $group) {
+            $rules = self::decode($group);
+            if ($rules === null) {
+                continue;
+            }
+            $groupRules[(int) $group['id']] = $rules;
+            $usesDiscordRoles = $usesDiscordRoles || in_array('discord_role', array_column($rules['conditions'], 'type'), true);
+        }
+
+        if ($usesDiscordRoles) {
+            DiscordHelper::syncMemberRoles($userId);
+        }
+
+        $matched = [];
+        foreach ($groupRules as $groupId => $rules) {
+            $sql = self::buildSql($rules);
+            if (UserGroup::userMatches($userId, $sql['predicate'], $sql['params'])) {
+                $matched[] = $groupId;
+            }
+        }
+
+        UserGroup::syncRuleGroupsForUser($userId, $matched);
+    }
+
+    /**
+     * Recompute the rule members of a group for all users (after its rules changed).
+     *
+     * @param int $groupId Group ID
+     * @param array<string,mixed>|null $rules Normalized rules, null when the group has none
+     *
+     * @return bool Success status
+     */
+    public static function refreshGroup(int $groupId, ?array $rules): bool
+    {
+        if ($rules === null) {
+            return UserGroup::refreshRuleMembers($groupId, null);
+        }
+        $sql = self::buildSql($rules);
+
+        return UserGroup::refreshRuleMembers($groupId, $sql['predicate'], $sql['params']);
+    }
+
+    /**
+     * Users that currently match a set of rules.
+     *
+     * @param array<string,mixed> $rules Normalized rules
+     * @param int $limit Maximum number of users listed
+     *
+     * @return array{total: int, users: array<array<string,mixed>>, warnings: array<string>}
+     */
+    public static function preview(array $rules, int $limit = 25): array
+    {
+        $sql = self::buildSql($rules);
+        $matches = UserGroup::getMatchingUsers($sql['predicate'], $sql['params'], $limit);
+
+        return [
+            'total' => $matches['total'],
+            'users' => $matches['users'],
+            'warnings' => $sql['warnings'],
+        ];
+    }
+
+    /**
+     * Build the SQL predicate for a set of rules on featherpanel_users aliased as u.
+     *
+     * @param array<string,mixed> $rules Normalized rules
+     *
+     * @return array{predicate: string, params: array<string,mixed>, warnings: array<string>}
+     */
+    public static function buildSql(array $rules): array
+    {
+        $parts = [];
+        $params = [];
+        $warnings = [];
+
+        foreach ($rules['conditions'] as $index => $condition) {
+            $prefix = 'mr' . $index . '_';
+            switch ($condition['type']) {
+                case 'discord_linked':
+                    $parts[] = "u.discord_oauth2_linked = 'true'";
+                    break;
+                case 'discord_role':
+                    if (DiscordHelper::isRoleSyncConfigured()) {
+                        $roleSql = DiscordMember::roleMatchSql(SettingsHelper::getDiscordGuildId(), $condition['role_ids'], $prefix);
+                        $parts[] = "(u.discord_oauth2_linked = 'true' AND " . $roleSql['predicate'] . ')';
+                        $params = array_merge($params, $roleSql['params']);
+                    } else {
+                        $parts[] = '0 = 1';
+                        $warnings[] = 'No Discord server and bot token are configured, so the Discord role condition matches nobody';
+                    }
+                    break;
+                case 'account_age':
+                    $parts[] = 'u.first_seen <= DATE_SUB(NOW(), INTERVAL :' . $prefix . 'days DAY)';
+                    $params[$prefix . 'days'] = $condition['min_days'];
+                    break;
+                case 'billing_purchase':
+                    if (self::billingAvailable()) {
+                        $parts[] = 'EXISTS (SELECT 1 FROM ' . self::BILLING_INVOICES_TABLE . " bi WHERE bi.user_id = u.id AND bi.status = 'paid')";
+                    } else {
+                        $parts[] = '0 = 1';
+                        $warnings[] = 'Billing Core purchases are not available, so the purchase condition matches nobody';
+                    }
+                    break;
+                case 'panel_role':
+                    $placeholders = [];
+                    foreach ($condition['role_ids'] as $i => $roleId) {
+                        $placeholders[] = ':' . $prefix . 'role' . $i;
+                        $params[$prefix . 'role' . $i] = $roleId;
+                    }
+                    $parts[] = 'u.role_id IN (' . implode(', ', $placeholders) . ')';
+                    break;
+                case 'email_domain':
+                    $domainParts = [];
+                    foreach ($condition['domains'] as $i => $domain) {
+                        $key = $prefix . 'domain' . $i;
+                        if (str_starts_with($domain, '*.')) {
+                            $base = substr($domain, 2);
+                            $domainParts[] = '(LOWER(u.email) LIKE :' . $key . 'a OR LOWER(u.email) LIKE :' . $key . 'b)';
+                            $params[$key . 'a'] = '%@' . $base;
+                            $params[$key . 'b'] = '%@%.' . $base;
+                        } else {
+                            $domainParts[] = 'LOWER(u.email) LIKE :' . $key;
+                            $params[$key] = '%@' . $domain;
+                        }
+                    }
+                    $parts[] = '(' . implode(' OR ', $domainParts) . ')';
+                    break;
+            }
+        }
+
+        $glue = $rules['match'] === 'any' ? ' OR ' : ' AND ';
+
+        return [
+            'predicate' => '(' . implode($glue, $parts) . ')',
+            'params' => $params,
+            'warnings' => array_values(array_unique($warnings)),
+        ];
+    }
+
+    /**
+     * @return array{condition: array<string,mixed>, error: string|null}
+     */
+    private static function parseCondition(mixed $condition): array
+    {
+        if (!is_array($condition) || !in_array($condition['type'] ?? null, self::CONDITION_TYPES, true)) {
+            return ['condition' => [], 'error' => 'type must be one of ' . implode(', ', self::CONDITION_TYPES)];
+        }
+
+        switch ($condition['type']) {
+            case 'account_age':
+                $days = $condition['min_days'] ?? null;
+                if (!is_numeric($days) || (int) $days < 1) {
+                    return ['condition' => [], 'error' => 'min_days must be 1 or greater'];
+                }
+
+                return ['condition' => ['type' => 'account_age', 'min_days' => (int) $days], 'error' => null];
+            case 'discord_role':
+                $roleIds = $condition['role_ids'] ?? null;
+                if (!is_array($roleIds) || empty($roleIds)) {
+                    return ['condition' => [], 'error' => 'role_ids must be a non-empty list'];
+                }
+                foreach ($roleIds as $roleId) {
+                    if (!is_scalar($roleId) || !DiscordHelper::isSnowflake((string) $roleId)) {
+                        return ['condition' => [], 'error' => 'role_ids must contain Discord role IDs'];
+                    }
+                }
+
+                return ['condition' => ['type' => 'discord_role', 'role_ids' => array_values(array_unique(array_map('strval', $roleIds)))], 'error' => null];
+            case 'panel_role':
+                $roleIds = $condition['role_ids'] ?? null;
+                if (!is_array($roleIds) || empty($roleIds)) {
+                    return ['condition' => [], 'error' => 'role_ids must be a non-empty list'];
+                }
+                foreach ($roleIds as $roleId) {
+                    if (!is_numeric($roleId) || (int) $roleId < 1) {
+                        return ['condition' => [], 'error' => 'role_ids must contain positive integers'];
+                    }
+                }
+
+                return ['condition' => ['type' => 'panel_role', 'role_ids' => array_values(array_unique(array_map('intval', $roleIds)))], 'error' => null];
+            case 'email_domain':
+                $domains = $condition['domains'] ?? null;
+                if (!is_array($domains) || empty($domains)) {
+                    return ['condition' => [], 'error' => 'domains must be a non-empty list'];
+                }
+                $normalized = [];
+                foreach ($domains as $domain) {
+                    $domain = is_string($domain) ? strtolower(ltrim(trim($domain), '@')) : '';
+                    if (!preg_match('/^(\*\.)?[a-z0-9-]+(\.[a-z0-9-]+)+$/', $domain)) {
+                        return ['condition' => [], 'error' => 'invalid domain "' . $domain . '"'];
+                    }
+                    $normalized[] = $domain;
+                }
+
+                return ['condition' => ['type' => 'email_domain', 'domains' => array_values(array_unique($normalized))], 'error' => null];
+            default:
+                return ['condition' => ['type' => $condition['type']], 'error' => null];
+        }
+    }
+
+    /**
+     * Whether the Billing Core purchases table exists (checked once per request).
+     */
+    private static function billingAvailable(): bool
+    {
+        if (self::$billingAvailable === null) {
+            try {
+                $stmt = Database::getPdoConnection()->prepare('SHOW TABLES LIKE :table');
+                $stmt->execute(['table' => self::BILLING_INVOICES_TABLE]);
+                self::$billingAvailable = $stmt->fetchColumn() !== false;
+            } catch (\Exception $e) {
+                self::$billingAvailable = false;
+            }
+        }
+
+        return self::$billingAvailable;
+    }
+}
@@ -0,0 +1,155 @@
+<?php
+
+/*
+ * This file is part of FeatherPanel.
+ *
+ * Copyright (C) 2025 MythicalSystems Studios
+ * Copyright (C) 2025 FeatherPanel Contributors
+ * Copyright (C) 2025 Cassian Gherman (aka NaysKutzu)
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * See the LICENSE file or <https://www.gnu.org/licenses/>.
+ */
+namespace App\Addons\billingresourcesnewservers\Helpers;
+
+/**
+ * Helper for the effect (allow/deny) and validity window of user and group permissions.
+ *
+ * Precedence when deciding a resource for a user (first match wins, only entries inside
+ * their validity window count):
+ *   1. user deny
+ *   2. user allow
+ *   3. group deny (any of the user's groups)
+ *   4. group allow (highest group priority first, then lowest group ID)
+ *   5. the resource mode: open resources go through the global allow-list, restricted ones are denied
+ * Allow entries on open resources do not bypass the global allow-list.
+ */
+class PermissionRuleHelper
+{
+    /** @var list<string> */
+    public const EFFECTS = ['allow', 'deny'];
+
+    /** Accepted input formats for starts_at / expires_at (datetime-local inputs send the T form) */
+    private const DATE_FORMATS = ['Y-m-d\TH:i', 'Y-m-d\TH:i:s', 'Y-m-d H:i', 'Y-m-d H:i:s'];
+
+    /**
+     * Read effect, starts_at and expires_at from a permission payload.
+     * Keys that are missing keep the value of the existing entry (or the default for a new one).
+     *
+     * @param array<string,mixed> $data Request payload
+     * @param array<string,mixed>|null $existing Existing permission record
+     *
+     * @return array{rule: array{effect: string, starts_at: string|null, expires_at: string|null}, error: string|null}
+     */
+    public static function parseRuleInput(array $data, ?array $existing = null): array
+    {
+        $rule = [
+            'effect' => $existing['effect'] ?? 'allow',
+            'starts_at' => $existing['starts_at'] ?? null,
+            'expires_at' => $existing['expires_at'] ?? null,
+        ];
+
+        if (array_key_exists('effect', $data)) {
+            if (!in_array($data['effect'], self::EFFECTS, true)) {
+                return ['rule' => $rule, 'error' => 'effect must be allow or deny'];
+            }
+            $rule['effect'] = $data['effect'];
+        }
+
+        foreach (['starts_at', 'expires_at'] as $field) {
+            if (!array_key_exists($field, $data)) {
+                continue;
+            }
+            if ($data[$field] === null || $data[$field] === '') {
+                $rule[$field] = null;
+                continue;
+            }
+
+            $parsed = self::parseDate($data[$field]);
+            if ($parsed === null) {
+                return ['rule' => $rule, 'error' => $field . ' must be a date and time (Y-m-d H:i) or null'];
+            }
+            $rule[$field] = $parsed;
+        }
+
+        if ($rule['starts_at'] !== null && $rule['expires_at'] !== null && $rule['expires_at'] <= $rule['starts_at']) {
+            return ['rule' => $rule, 'error' => 'expires_at must be after starts_at'];
+        }
+
+        return ['rule' => $rule, 'error' => null];
+    }
+
+    /**
+     * Pick the entry that decides a resource for a user (steps 1-4 of the precedence order).
+     * Entries outside their validity window are skipped and counted. No decision means the resource mode decides (step 5).
+     *
+     * @param array<string,mixed>|null $userPermission The user's own entry for the resource (with is_active)
+     * @param list<array<string,mixed>> $groupEntries Entries of the user's groups for the resource (with is_active), in group precedence order
+     *
+     * @return array{decision: array{source: string, entry: array<string,mixed>}|null, active_group_entries: list<array<string,mixed>>, inactive_entries: int}
+     */
+    public static function decide(?array $userPermission, array $groupEntries): array
+    {
+        $inactive = 0;
+        if ($userPermission !== null && !$userPermission['is_active']) {
+            ++$inactive;
+            $userPermission = null;
+        }
+        $activeGroupEntries = array_values(array_filter($groupEntries, fn (array $perm) => (bool) $perm['is_active']));
+        $inactive += count($groupEntries) - count($activeGroupEntries);
+
+        $decision = null;
+        if ($userPermission !== null) {
+            $decision = ['source' => 'user', 'entry' => $userPermission];
+        } else {
+            // Any group deny beats every group allow; otherwise the highest-priority group allow wins
+            $denies = array_values(array_filter($activeGroupEntries, fn (array $perm) => $perm['effect'] === 'deny'));
+            $winner = $denies[0] ?? $activeGroupEntries[0] ?? null;
+            if ($winner !== null) {
+                $decision = ['source' => 'group', 'entry' => $winner];
+            }
+        }
+
+        return ['decision' => $decision, 'active_group_entries' => $activeGroupEntries, 'inactive_entries' => $inactive];
+    }
+
+    /**
+     * Shape the rule columns of a permission record for API responses.
+     *
+     * @param array<string,mixed> $permission Permission record (with is_active)
+     *
+     * @return array{effect: string, starts_at: string|null, expires_at: string|null, is_active: bool}
+     */
+    public static function formatRule(array $permission): array
+    {
+        return [
+            'effect' => $permission['effect'] ?? 'allow',
+            'starts_at' => $permission['starts_at'] ?? null,
+            'expires_at' => $permission['expires_at'] ?? null,
+            'is_active' => (bool) ($permission['is_active'] ?? true),
+        ];
+    }
+
+    /**
+     * Normalize a date input to Y-m-d H:i:s.
+     */
+    private static function parseDate(mixed $value): ?string
+    {
+        if (!is_string($value)) {
+            return null;
+        }
+
+        foreach (self::DATE_FORMATS as $format) {
+            $date = \DateTimeImmutable::createFromFormat('!' . $format, $value);
+            if ($date !== false && $date->format($format) === $value) {
+                return $date->format('Y-m-d H:i:s');
+            }
+        }
+
+        return null;
+    }
+}
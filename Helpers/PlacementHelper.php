@@ -0,0 +1,184 @@
+<?php
+
+/*
+ * This file is part of FeatherPanel.
+ *
+ * Copyright (C) 2025 MythicalSystems Studios
+ * Copyright (C) 2025 FeatherPanel Contributors
+ * Copyright (C) 2025 Cassian Gherman (aka NaysKutzu)
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * See the LICENSE file or <https://www.gnu.org/licenses/>.
+ */
+
+namespace App\Addons\billingresourcesnewservers\Helpers;
+
+use App\Chat\Node;
+use App\Addons\billingresourcesnewservers\Chat\CreationRequest;
+
+/**
+ * Helper for automatic node placement strategies.
+ *
+ * Every strategy only considers nodes the user may use that can take the server (server cap,
+ * memory/disk and free allocations), have a weight above 0 and carry the policy tag when one is set:
+ *   least_capacity   lowest load score (spreads servers)
+ *   fill_first       highest load score that still fits (packs servers so other nodes stay empty)
+ *   round_robin      next node by ID after the node of the last server created through the plugin
+ *   random_weighted  random node, chance proportional to the node weight
+ */
+class PlacementHelper
+{
+    /** @var array<string, string> */
+    public const STRATEGY_LABELS = [
+        'first' => 'First available',
+        'least_capacity' => 'Least loaded node',
+        'round_robin' => 'Round robin',
+        'fill_first' => 'Fill first',
+        'random_weighted' => 'Random (weighted)',
+    ];
+
+    /**
+     * Pick a node with one of the node strategies.
+     *
+     * @param int $userId User ID
+     * @param string $strategy One of SettingsHelper::PLACEMENT_NODE_STRATEGIES
+     * @param int|null $locationId Only consider nodes in this location
+     * @param int $requiredMemory Memory the server needs (MB)
+     * @param int $requiredDisk Disk the server needs (MB)
+     * @param string|null $tag Only consider nodes with this tag
+     *
+     * @return array{node_id: int|null, explanation: array<string,mixed>|null}
+     */
+    public static function resolveNode(int $userId, string $strategy, ?int $locationId, int $requiredMemory, int $requiredDisk, ?string $tag = null): array
+    {
+        $profiles = SettingsHelper::getNodePlacementProfiles();
+        $candidates = [];
+
+        foreach (ServerCreationHelper::filterNodes(Node::getAllNodes(), $userId, $locationId) as $node) {
+            $nodeId = (int) $node['id'];
+            $weight = $profiles[$nodeId]['weight'] ?? SettingsHelper::DEFAULT_NODE_WEIGHT;
+            if ($weight <= 0) {
+                continue;
+            }
+            if ($tag !== null && !in_array($tag, $profiles[$nodeId]['tags'] ?? [], true)) {
+                continue;
+            }
+            // Budget nodes may cap (or large nodes require) the size of a server
+            if (SettingsHelper::checkResourceBounds($nodeId, (int) ($node['location_id'] ?? 0), ['memory' => $requiredMemory, 'disk' => $requiredDisk]) !== []) {
+                continue;
+            }
+            $metrics = ServerCreationHelper::getNodePlacementMetrics($nodeId, $requiredMemory, $requiredDisk);
+            if ($metrics === null) {
+                continue;
+            }
+            $candidates[$nodeId] = [
+                'name' => (string) ($node['name'] ?? ('#' . $nodeId)),
+                'weight' => $weight,
+                'metrics' => $metrics,
+            ];
+        }
+
+        if ($candidates === []) {
+            return ['node_id' => null, 'explanation' => null];
+        }
+        ksort($candidates);
+
+        $count = count($candidates);
+        $pool = $count . ' eligible ' . ($count === 1 ? 'node' : 'nodes') . ($tag !== null ? ' tagged "' . $tag . '"' : '');
+        $lastNodeId = $strategy === 'round_robin' ? CreationRequest::getLatestPlacedNodeId() : null;
+        $nodeId = self::pickNode($strategy, $candidates, $lastNodeId);
+        $reason = match ($strategy) {
+            'fill_first' => 'Fullest of ' . $pool . ' that can still take this server, so other nodes stay free',
+            'round_robin' => $lastNodeId === null
+                ? 'First of ' . $pool . ' in the rotation'
+                : 'Next of ' . $pool . ' in the rotation after the node of the last new server',
+            'random_weighted' => 'Picked at random from ' . $pool . ' (weight ' . $candidates[$nodeId]['weight'] . ' of ' . array_sum(array_column($candidates, 'weight')) . ')',
+            default => 'Least loaded of ' . $pool,
+        };
+
+        $picked = $candidates[$nodeId];
+
+        return [
+            'node_id' => $nodeId,
+            'explanation' => [
+                'strategy' => $strategy,
+                'strategy_label' => self::STRATEGY_LABELS[$strategy] ?? $strategy,
+                'node_id' => $nodeId,
+                'node_name' => $picked['name'],
+                'tag' => $tag,
+                'eligible_nodes' => $count,
+                'reason' => $reason,
+                'factors' => [
+                    'server_count' => $picked['metrics']['server_count'],
+                    'max_servers' => $picked['metrics']['max_servers'],
+                    'memory_percent' => (int) round($picked['metrics']['memory_usage'] * 100),
+                    'disk_percent' => (int) round($picked['metrics']['disk_usage'] * 100),
+                    'free_allocations' => $picked['metrics']['free_allocations'],
+                    'weight' => $picked['weight'],
+                ],
+            ],
+        ];
+    }
+
+    /**
+     * Apply a node strategy to the eligible nodes.
+     *
+     * @param string $strategy One of SettingsHelper::PLACEMENT_NODE_STRATEGIES
+     * @param array<int, array{weight: int, metrics: array{score: float}}> $candidates Eligible nodes keyed and sorted by node ID
+     * @param int|null $lastNodeId Node of the last server created through the plugin (round_robin)
+     * @param int|null $roll Position between 1 and the total weight (random_weighted), random when null
+     *
+     * @return int Picked node ID
+     */
+    public static function pickNode(string $strategy, array $candidates, ?int $lastNodeId = null, ?int $roll = null): int
+    {
+        switch ($strategy) {
+            case 'fill_first':
+                return self::pickByScore($candidates, true);
+            case 'round_robin':
+                foreach (array_keys($candidates) as $candidateId) {
+                    if ($lastNodeId !== null && $candidateId > $lastNodeId) {
+                        return $candidateId;
+                    }
+                }
+
+                return (int) array_key_first($candidates);
+            case 'random_weighted':
+                $roll ??= random_int(1, array_sum(array_column($candidates, 'weight')));
+                foreach ($candidates as $candidateId => $candidate) {
+                    $roll -= $candidate['weight'];
+                    if ($roll <= 0) {
+                        return $candidateId;
+                    }
+                }
+
+                return (int) array_key_last($candidates);
+            default:
+                return self::pickByScore($candidates, false);
+        }
+    }
+
+    /**
+     * Lowest (or highest) load score; ties go to the lowest node ID.
+     *
+     * @param array<int, array{metrics: array{score: float}}> $candidates Sorted by node ID
+     */
+    private static function pickByScore(array $candidates, bool $highest): int
+    {
+        $bestNodeId = null;
+        $bestScore = null;
+        foreach ($candidates as $nodeId => $candidate) {
+            $score = $candidate['metrics']['score'];
+            if ($bestScore === null || ($highest ? $score > $bestScore : $score < $bestScore)) {
+                $bestScore = $score;
+                $bestNodeId = $nodeId;
+            }
+        }
+
+        return (int) $bestNodeId;
+    }
+}
@@ -0,0 +1,236 @@
+<?php
+
+/*
+ * This file is part of FeatherPanel.
+ *
+ * Copyright (C) 2025 MythicalSystems Studios
+ * Copyright (C) 2025 FeatherPanel Contributors
+ * Copyright (C) 2025 Cassian Gherman (aka NaysKutzu)
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * See the LICENSE file or <https://www.gnu.org/licenses/>.
+ */
+
+namespace App\Addons\billingresourcesnewservers\Helpers;
+
+use App\Chat\Node;
+use App\Chat\Server;
+use App\Addons\billingresourcesnewservers\Chat\Group;
+use App\Addons\billingresourcesnewservers\Chat\UserQuota;
+use App\Addons\billingresourcesnewservers\Chat\CreationRequest;
+
+/**
+ * Helper for resolving and enforcing per-user/per-group server quotas.
+ */
+class QuotaHelper
+{
+    /**
+     * Resolve the effective quotas of a user.
+     * Each cap comes from the user's override when set, otherwise from the highest-priority group that sets it.
+     *
+     * @param int $userId User ID
+     *
+     * @return array{limits: array<string,int|null>, sources: array<string,array{type: string, group_id?: int, group_name?: string}|null>} Caps (null = no cap) and where each came from
+     */
+    public static function resolveQuotas(int $userId): array
+    {
+        $limits = array_fill_keys(Group::QUOTA_FIELDS, null);
+        $sources = array_fill_keys(Group::QUOTA_FIELDS, null);
+
+        $override = UserQuota::getByUserId($userId);
+        // Already ordered by priority DESC, name ASC
+        $groups = Group::getByUserId($userId);
+
+        foreach (Group::QUOTA_FIELDS as $field) {
+            if ($override !== null && $override[$field] !== null) {
+                $limits[$field] = (int) $override[$field];
+                $sources[$field] = ['type' => 'user'];
+                continue;
+            }
+
+            foreach ($groups as $group) {
+                if (isset($group[$field])) {
+                    $limits[$field] = (int) $group[$field];
+                    $sources[$field] = [
+                        'type' => 'group',
+                        'group_id' => (int) $group['id'],
+                        'group_name' => $group['name'],
+                    ];
+                    break;
+                }
+            }
+        }
+
+        return ['limits' => $limits, 'sources' => $sources];
+    }
+
+    /**
+     * Count the servers a user created through this plugin that still exist.
+     *
+     * @param int $userId User ID
+     *
+     * @return array{servers: int, by_location: array<int,int>, by_spell: array<int,int>} Totals, keyed by location and spell ID
+     */
+    public static function getUsage(int $userId): array
+    {
+        $usage = ['servers' => 0, 'by_location' => [], 'by_spell' => []];
+        $nodeLocations = [];
+
+        foreach (CreationRequest::getServerIdsByUserId($userId) as $serverId) {
+            $server = Server::getServerById($serverId);
+            if (!$server) {
+                continue;
+            }
+
+            ++$usage['servers'];
+
+            $spellId = (int) ($server['spell_id'] ?? 0);
+            if ($spellId > 0) {
+                $usage['by_spell'][$spellId] = ($usage['by_spell'][$spellId] ?? 0) + 1;
+            }
+
+            $nodeId = (int) ($server['node_id'] ?? 0);
+            if (!array_key_exists($nodeId, $nodeLocations)) {
+                $node = Node::getNodeById($nodeId);
+                $nodeLocations[$nodeId] = $node ? (int) ($node['location_id'] ?? 0) : 0;
+            }
+            if ($nodeLocations[$nodeId] > 0) {
+                $locationId = $nodeLocations[$nodeId];
+                $usage['by_location'][$locationId] = ($usage['by_location'][$locationId] ?? 0) + 1;
+            }
+        }
+
+        return $usage;
+    }
+
+    /**
+     * Resolved quotas together with current usage, as shown to the user.
+     *
+     * @param int $userId User ID
+     *
+     * @return array<string,mixed>
+     */
+    public static function getQuotaSummary(int $userId): array
+    {
+        $quotas = self::resolveQuotas($userId);
+        $usage = self::getUsage($userId);
+
+        return [
+            'limits' => $quotas['limits'],
+            'sources' => $quotas['sources'],
+            'usage' => [
+                'servers' => $usage['servers'],
+                // JSON objects keyed by ID, even when empty
+                'by_location' => (object) $usage['by_location'],
+                'by_spell' => (object) $usage['by_spell'],
+            ],
+        ];
+    }
+
+    /**
+     * Parse quota fields from admin input. Only keys present in the input are returned; null or "" removes a cap.
+     *
+     * @param array<string,mixed> $data Request data
+     *
+     * @return array{quotas: array<string,int|null>, error: string|null}
+     */
+    public static function parseQuotaInput(array $data): array
+    {
+        $quotas = [];
+        foreach (Group::QUOTA_FIELDS as $field) {
+            if (!array_key_exists($field, $data)) {
+                continue;
+            }
+            if ($data[$field] === null || $data[$field] === '') {
+                $quotas[$field] = null;
+                continue;
+            }
+            if (!is_numeric($data[$field]) || (int) $data[$field] < 0) {
+                return ['quotas' => [], 'error' => $field . ' must be a non-negative integer or null'];
+            }
+            $quotas[$field] = (int) $data[$field];
+        }
+
+        return ['quotas' => $quotas, 'error' => null];
+    }
+
+    /**
+     * Check a create request against the user's quotas.
+     *
+     * @param int $userId User ID
+     * @param array<string,mixed> $serverData Server creation data
+     * @param array<string,mixed>|null $node Target node (null when missing or invalid)
+     *
+     * @return array<int,array{field: string|null, error: string, error_code: string}> Failing checks
+     */
+    public static function checkQuotas(int $userId, array $serverData, ?array $node): array
+    {
+        $limits = self::resolveQuotas($userId)['limits'];
+        if (count(array_filter($limits, static fn ($limit) => $limit !== null)) === 0) {
+            return [];
+        }
+
+        $usage = self::getUsage($userId);
+        $errors = [];
+
+        if ($limits['max_servers'] !== null && $usage['servers'] >= $limits['max_servers']) {
+            $errors[] = [
+                'field' => null,
+                'error' => "You have reached the maximum of {$limits['max_servers']} servers created here",
+                'error_code' => 'QUOTA_MAX_SERVERS',
+            ];
+        }
+
+        $memoryError = self::checkMemoryPerServer($limits, (int) ($serverData['memory'] ?? 0));
+        if ($memoryError !== null) {
+            $errors[] = $memoryError;
+        }
+
+        $locationId = $node ? (int) ($node['location_id'] ?? 0) : 0;
+        if ($limits['max_servers_per_location'] !== null && $locationId > 0
+            && ($usage['by_location'][$locationId] ?? 0) >= $limits['max_servers_per_location']) {
+            $errors[] = [
+                'field' => 'location_id',
+                'error' => "You have reached the maximum of {$limits['max_servers_per_location']} servers in this location",
+                'error_code' => 'QUOTA_MAX_SERVERS_PER_LOCATION',
+            ];
+        }
+
+        $spellId = (int) ($serverData['spell_id'] ?? 0);
+        if ($limits['max_servers_per_spell'] !== null && $spellId > 0
+            && ($usage['by_spell'][$spellId] ?? 0) >= $limits['max_servers_per_spell']) {
+            $errors[] = [
+                'field' => 'spell_id',
+                'error' => "You have reached the maximum of {$limits['max_servers_per_spell']} servers for this spell",
+                'error_code' => 'QUOTA_MAX_SERVERS_PER_SPELL',
+            ];
+        }
+
+        return $errors;
+    }
+
+    /**
+     * Check the memory of one server against the max_memory_per_server quota.
+     *
+     * @param array<string,int|null> $limits Resolved quotas
+     * @param int $memory Memory of the server in MB
+     *
+     * @return array{field: string, error: string, error_code: string}|null Null when within the quota
+     */
+    public static function checkMemoryPerServer(array $limits, int $memory): ?array
+    {
+        if ($limits['max_memory_per_server'] === null || $memory <= $limits['max_memory_per_server']) {
+            return null;
+        }
+
+        return [
+            'field' => 'memory',
+            'error' => "Memory may not exceed {$limits['max_memory_per_server']} MB per server",
+            'error_code' => 'QUOTA_MAX_MEMORY_PER_SERVER',
+        ];
+    }
+}
@@ -0,0 +1,225 @@
+<?php
+
+/*
+ * This file is part of FeatherPanel.
+ *
+ * Copyright (C) 2025 MythicalSystems Studios
+ * Copyright (C) 2025 FeatherPanel Contributors
+ * Copyright (C) 2025 Cassian Gherman (aka NaysKutzu)
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * See the LICENSE file or <https://www.gnu.org/licenses/>.
+ */
+
+namespace App\Addons\billingresourcesnewservers\Helpers;
+
+use App\Addons\billingresourcesnewservers\Chat\Group;
+use App\Addons\billingresourcesnewservers\Chat\CreationRequest;
+
+/**
+ * Helper for creation rate limits and cooldowns.
+ */
+class RateLimitHelper
+{
+    /**
+     * Resolve the effective rate limits of a user.
+     * Each limit comes from the highest-priority group that overrides it, otherwise from the global settings.
+     *
+     * @param int $userId User ID
+     *
+     * @return array{limits: array<string,int>, sources: array<string,array{type: string, group_id?: int, group_name?: string}>}
+     */
+    public static function resolveLimits(int $userId): array
+    {
+        $limits = SettingsHelper::getCreationRateLimits();
+        $sources = array_fill_keys(Group::RATE_LIMIT_FIELDS, ['type' => 'global']);
+
+        // Already ordered by priority DESC, name ASC
+        $groups = Group::getByUserId($userId);
+
+        foreach (Group::RATE_LIMIT_FIELDS as $field) {
+            foreach ($groups as $group) {
+                if (isset($group[$field])) {
+                    $limits[$field] = $field === 'rate_limit_window_minutes' ? max(1, (int) $group[$field]) : max(0, (int) $group[$field]);
+                    $sources[$field] = [
+                        'type' => 'group',
+                        'group_id' => (int) $group['id'],
+                        'group_name' => $group['name'],
+                    ];
+                    break;
+                }
+            }
+        }
+
+        return ['limits' => $limits, 'sources' => $sources];
+    }
+
+    /**
+     * Current rate limit state of a user.
+     * retry_after is 0 when the user may create now; reason is window, cooldown or deletion_cooldown.
+     * The deletion cooldown only follows deletions the user made from My Servers (see CreationRequest::markServerDeletedByUser).
+     *
+     * @param int $userId User ID
+     * @param int $beforeRequestId Creation request being validated; only earlier requests count against it, 0 = none
+     *
+     * @return array{limits: array<string,int>, sources: array<string,array<string,mixed>>, retry_after: int, reason: string|null}
+     */
+    public static function getStatus(int $userId, int $beforeRequestId = 0): array
+    {
+        $resolved = self::resolveLimits($userId);
+        $limits = $resolved['limits'];
+
+        // Only look up the history a limit needs: creations older than the window and the cooldown no longer matter
+        $windowSeconds = $limits['rate_limit_max_creations'] > 0 ? $limits['rate_limit_window_minutes'] * 60 : 0;
+        $historySeconds = max($windowSeconds, $limits['creation_cooldown_seconds']);
+        $ages = $historySeconds > 0
+            ? self::countedCreationAges(CreationRequest::getRecentCreations($userId, $historySeconds, $beforeRequestId))
+            : [];
+
+        $wait = self::computeWait(
+            $limits,
+            $limits['deletion_cooldown_seconds'] > 0 ? CreationRequest::getSecondsSinceLastServerDeletion($userId) : null,
+            $ages !== [] ? $ages[count($ages) - 1] : null,
+            array_values(array_filter($ages, fn (int $age) => $age <= $windowSeconds))
+        );
+
+        return [
+            'limits' => $limits,
+            'sources' => $resolved['sources'],
+            'retry_after' => $wait['retry_after'],
+            'reason' => $wait['reason'],
+        ];
+    }
+
+    /**
+     * Ages of the creations that count against the limits. A request that failed and was rolled back left no server,
+     * so it counts as if it never happened (e.g. the node was down or someone else took the last slot).
+     *
+     * @param list<array{age: int, state: string, server_id: int|null}> $creations Recent creation requests, oldest first
+     *
+     * @return list<int> Ages in seconds, oldest first
+     */
+    public static function countedCreationAges(array $creations): array
+    {
+        $ages = [];
+        foreach ($creations as $creation) {
+            if ($creation['state'] === 'failed' && $creation['server_id'] === null) {
+                continue;
+            }
+            $ages[] = $creation['age'];
+        }
+
+        return $ages;
+    }
+
+    /**
+     * How long a user has to wait given their limits and history; the longest wait wins.
+     *
+     * @param array<string,int> $limits Resolved limits (see resolveLimits)
+     * @param int|null $sinceDeletion Seconds since the user last deleted a server (null = never)
+     * @param int|null $sinceCreation Seconds since the user's last creation (null = never)
+     * @param list<int> $recentAges Ages in seconds of the creations inside the window, oldest first
+     *
+     * @return array{retry_after: int, reason: string|null} reason is window, cooldown, deletion_cooldown or null when the user may create now
+     */
+    public static function computeWait(array $limits, ?int $sinceDeletion, ?int $sinceCreation, array $recentAges): array
+    {
+        $retryAfter = 0;
+        $reason = null;
+
+        if ($limits['deletion_cooldown_seconds'] > 0 && $sinceDeletion !== null && $sinceDeletion < $limits['deletion_cooldown_seconds']) {
+            $retryAfter = $limits['deletion_cooldown_seconds'] - $sinceDeletion;
+            $reason = 'deletion_cooldown';
+        }
+
+        if ($limits['creation_cooldown_seconds'] > 0 && $sinceCreation !== null && $limits['creation_cooldown_seconds'] - $sinceCreation > $retryAfter) {
+            $retryAfter = $limits['creation_cooldown_seconds'] - $sinceCreation;
+            $reason = 'cooldown';
+        }
+
+        if ($limits['rate_limit_max_creations'] > 0 && count($recentAges) >= $limits['rate_limit_max_creations']) {
+            // The creation that has to leave the window before another one fits
+            $wait = $limits['rate_limit_window_minutes'] * 60 - $recentAges[count($recentAges) - $limits['rate_limit_max_creations']];
+            if ($wait > $retryAfter) {
+                $retryAfter = $wait;
+                $reason = 'window';
+            }
+        }
+
+        return ['retry_after' => $retryAfter > 0 ? $retryAfter : 0, 'reason' => $retryAfter > 0 ? $reason : null];
+    }
+
+    /**
+     * Check whether a user may create a server right now.
+     *
+     * @param int $userId User ID
+     * @param int $beforeRequestId Creation request being validated; only earlier requests count against it, 0 = none
+     *
+     * @return array{field: null, error: string, error_code: string, retry_after: int}|null Null when not rate limited
+     */
+    public static function check(int $userId, int $beforeRequestId = 0): ?array
+    {
+        $status = self::getStatus($userId, $beforeRequestId);
+        if ($status['retry_after'] <= 0) {
+            return null;
+        }
+
+        $wait = self::formatDuration($status['retry_after']);
+        $error = match ($status['reason']) {
+            'deletion_cooldown' => "You recently deleted a server. You can create a new one in {$wait}",
+            'cooldown' => "Please wait {$wait} before creating another server",
+            default => "You have created {$status['limits']['rate_limit_max_creations']} servers in the last {$status['limits']['rate_limit_window_minutes']} minutes. Try again in {$wait}",
+        };
+
+        return [
+            'field' => null,
+            'error' => $error,
+            'error_code' => 'RATE_LIMITED',
+            'retry_after' => $status['retry_after'],
+        ];
+    }
+
+    /**
+     * Parse group rate limit overrides from admin input. Only keys present in the input are returned; null or "" removes an override.
+     *
+     * @param array<string,mixed> $data Request data
+     *
+     * @return array{limits: array<string,int|null>, error: string|null}
+     */
+    public static function parseRateLimitInput(array $data): array
+    {
+        $limits = [];
+        foreach (Group::RATE_LIMIT_FIELDS as $field) {
+            if (!array_key_exists($field, $data)) {
+                continue;
+            }
+            if ($data[$field] === null || $data[$field] === '') {
+                $limits[$field] = null;
+                continue;
+            }
+            $minimum = $field === 'rate_limit_window_minutes' ? 1 : 0;
+            if (!is_numeric($data[$field]) || (int) $data[$field] < $minimum) {
+                return ['limits' => [], 'error' => $field . ' must be ' . $minimum . ' or greater, or null'];
+            }
+            $limits[$field] = (int) $data[$field];
+        }
+
+        return ['limits' => $limits, 'error' => null];
+    }
+
+    private static function formatDuration(int $seconds): string
+    {
+        if ($seconds < 60) {
+            return $seconds . 's';
+        }
+        if ($seconds < 3600) {
+            return intdiv($seconds, 60) . 'm ' . ($seconds % 60) . 's';
+        }
+
+        return intdiv($seconds, 3600) . 'h ' . intdiv($seconds % 3600, 60) . 'm';
+    }
+}
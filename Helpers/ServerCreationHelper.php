@@ -24,13 +24,54 @@ use App\Chat\Spell;
 use App\Chat\Server;
 use App\Chat\Location;
 use App\Chat\Allocation;
+use App\Chat\SpellVariable;
 use App\Addons\billingresources\Helpers\ResourcesHelper;
+use App\Addons\billingresourcesnewservers\Chat\UserGroup;
+use App\Addons\billingresourcesnewservers\Chat\PresetGroup;
 
 /**
  * Helper for validating server creation and checking resources.
  */
 class ServerCreationHelper
 {
+    /**
+     * Resource fields paid from the Billing Resources pool, with their key in ResourcesHelper::calculateAvailableResources.
+     *
+     * @var array<string,string>
+     */
+    public const POOL_KEYS = [
+        'memory' => 'memory_limit',
+        'cpu' => 'cpu_limit',
+        'disk' => 'disk_limit',
+        'database_limit' => 'database_limit',
+        'backup_limit' => 'backup_limit',
+        'allocation_limit' => 'allocation_limit',
+    ];
+
+    /** Lowest block IO weight Wings accepts */
+    public const IO_WEIGHT_MIN = 10;
+
+    /** Highest block IO weight Wings accepts */
+    public const IO_WEIGHT_MAX = 1000;
+
+    /**
+     * Check whether a user may use the create form at all (creation enabled, user allowed, Discord linked, anti-abuse checks).
+     *
+     * @return array{error: string, error_code: string, details?: array<string,mixed>}|null Null when the user has access
+     */
+    public static function checkCreationAccess(int $userId): ?array
+    {
+        if (!SettingsHelper::isUserAllowed($userId)) {
+            if (SettingsHelper::getUserRestrictionMode() === 'specific') {
+                return ['error' => 'You do not have permission to create servers', 'error_code' => 'USER_NOT_ALLOWED'];
+            }
+
+            return ['error' => 'User server creation is currently disabled', 'error_code' => 'USER_CREATION_DISABLED'];
+        }
+
+        return self::checkDiscordLinkRequirement($userId) ?? AbuseCheckHelper::check($userId);
+    }
+
     /**
      * When Discord linking is required for freemium create, verify the user has linked Discord.
      *
@@ -58,221 +99,459 @@ class ServerCreationHelper
      *
      * @param int $userId User ID
      * @param array<string,mixed> $serverData Server creation data
+     * @param int $creationRequestId Creation request being provisioned; only earlier requests count against it, 0 = none
+     *
+     * @return array{valid: bool, error?: string, error_code?: string, retry_after?: int} Validation result (first failing check)
+     */
+    public static function validateServerCreation(int $userId, array $serverData, int $creationRequestId = 0): array
+    {
+        $errors = self::collectServerCreationErrors($userId, $serverData, $creationRequestId);
+        if (empty($errors)) {
+            return ['valid' => true];
+        }
+
+        $result = [
+            'valid' => false,
+            'error' => $errors[0]['error'],
+            'error_code' => $errors[0]['error_code'],
+        ];
+        if (isset($errors[0]['retry_after'])) {
+            $result['retry_after'] = $errors[0]['retry_after'];
+        }
+
+        return $result;
+    }
+
+    /**
+     * Run every server creation check and collect all failures, in the order validateServerCreation reports them.
+     * Checks that depend on a missing or failed prerequisite (e.g. node permission without a valid node) are skipped.
+     *
+     * @param int $userId User ID
+     * @param array<string,mixed> $serverData Server creation data
+     * @param int $creationRequestId Creation request being provisioned; only earlier requests count against it, 0 = none
      *
-     * @return array{valid: bool, error?: string, error_code?: string} Validation result
+     * @return array<int,array{field: string|null, error: string, error_code: string, retry_after?: int}> Failing checks; field is the payload key (null = general)
      */
-    public static function validateServerCreation(int $userId, array $serverData): array
+    public static function collectServerCreationErrors(int $userId, array $serverData, int $creationRequestId = 0): array
     {
         // Check if user creation is enabled
         if (!SettingsHelper::isUserCreationEnabled()) {
-            return [
-                'valid' => false,
+            return [[
+                'field' => null,
                 'error' => 'User server creation is currently disabled',
                 'error_code' => 'USER_CREATION_DISABLED',
-            ];
+            ]];
         }
 
         // Check if user is allowed to create servers
         if (!SettingsHelper::isUserAllowed($userId)) {
-            return [
-                'valid' => false,
+            return [[
+                'field' => null,
                 'error' => 'You do not have permission to create servers',
                 'error_code' => 'USER_NOT_ALLOWED',
-            ];
+            ]];
         }
 
         $discordRequirement = self::checkDiscordLinkRequirement($userId);
         if ($discordRequirement !== null) {
-            return [
-                'valid' => false,
+            return [[
+                'field' => null,
                 'error' => $discordRequirement['error'],
                 'error_code' => $discordRequirement['error_code'],
-            ];
+            ]];
+        }
+
+        $abuseCheck = AbuseCheckHelper::check($userId);
+        if ($abuseCheck !== null) {
+            return [[
+                'field' => null,
+                'error' => $abuseCheck['error'],
+                'error_code' => $abuseCheck['error_code'],
+            ]];
+        }
+
+        $errors = [];
+
+        // Creation rate limits and cooldowns (RATE_LIMITED carries retry_after in seconds)
+        $rateLimit = RateLimitHelper::check($userId, $creationRequestId);
+        if ($rateLimit !== null) {
+            $errors[] = $rateLimit;
         }
 
         // Validate required fields (allocation_id is optional - will be auto-selected)
         $requiredFields = ['node_id', 'realms_id', 'spell_id', 'name', 'memory', 'cpu', 'disk'];
         foreach ($requiredFields as $field) {
             if (!isset($serverData[$field])) {
-                return [
-                    'valid' => false,
+                $errors[] = [
+                    'field' => $field,
                     'error' => "Missing required field: {$field}",
                     'error_code' => 'MISSING_FIELD',
                 ];
             }
         }
 
-        // Validate node exists and is allowed
-        $nodeId = (int) $serverData['node_id'];
-        $node = Node::getNodeById($nodeId);
-        if (!$node) {
-            return [
-                'valid' => false,
-                'error' => 'Node not found',
-                'error_code' => 'NODE_NOT_FOUND',
-            ];
+        // Validate the name and description against the naming policy
+        foreach (ServerNameHelper::check($userId, $serverData) as $nameError) {
+            $errors[] = $nameError;
         }
 
-        // Check user-specific node permission
-        $nodePermission = SettingsHelper::checkUserResourcePermission($userId, 'node', $nodeId);
-        if (!$nodePermission['allowed']) {
-            return [
-                'valid' => false,
-                'error' => $nodePermission['custom_error'] ?? 'This node is not available for you',
-                'error_code' => 'NODE_NOT_ALLOWED',
-            ];
+        $memory = (int) ($serverData['memory'] ?? 0);
+        $disk = (int) ($serverData['disk'] ?? 0);
+
+        // Validate node exists and is allowed
+        $nodeId = (int) ($serverData['node_id'] ?? 0);
+        $node = null;
+        if (isset($serverData['node_id'])) {
+            $node = Node::getNodeById($nodeId);
+            if (!$node) {
+                $errors[] = [
+                    'field' => 'node_id',
+                    'error' => 'Node not found',
+                    'error_code' => 'NODE_NOT_FOUND',
+                ];
+            }
         }
 
-        $memory = (int) $serverData['memory'];
-        $disk = (int) $serverData['disk'];
+        if ($node) {
+            // Check user-specific node permission
+            $nodePermission = SettingsHelper::checkUserResourcePermission($userId, 'node', $nodeId);
+            if (!$nodePermission['allowed']) {
+                $errors[] = [
+                    'field' => 'node_id',
+                    'error' => $nodePermission['custom_error'] ?? 'This node is not available for you',
+                    'error_code' => 'NODE_NOT_ALLOWED',
+                ];
+            } else {
+                if (SettingsHelper::isNodeAtServerCap($nodeId)) {
+                    $errors[] = [
+                        'field' => 'node_id',
+                        'error' => SettingsHelper::getNodeAtCapacityErrorMessage($nodeId),
+                        'error_code' => 'NODE_SERVER_CAP_REACHED',
+                    ];
+                }
 
-        if (SettingsHelper::isNodeAtServerCap($nodeId)) {
-            return [
-                'valid' => false,
-                'error' => SettingsHelper::getNodeAtCapacityErrorMessage($nodeId),
-                'error_code' => 'NODE_SERVER_CAP_REACHED',
-            ];
+                $nodeCapacity = self::evaluateNodeResourceCapacity($nodeId, $memory, $disk);
+                if (!$nodeCapacity['eligible']) {
+                    $errors[] = [
+                        'field' => 'node_id',
+                        'error' => $nodeCapacity['error'] ?? 'This node does not have enough capacity for this server',
+                        'error_code' => $nodeCapacity['error_code'] ?? 'NODE_INSUFFICIENT_CAPACITY',
+                    ];
+                }
+            }
+
+            // Validate location if node has one
+            if (isset($node['location_id']) && $node['location_id'] > 0) {
+                $locationId = (int) $node['location_id'];
+                // Check user-specific location permission
+                $locationPermission = SettingsHelper::checkUserResourcePermission($userId, 'location', $locationId);
+                if (!$locationPermission['allowed']) {
+                    $errors[] = [
+                        'field' => 'location_id',
+                        'error' => $locationPermission['custom_error'] ?? 'This location is not available for you',
+                        'error_code' => 'LOCATION_NOT_ALLOWED',
+                    ];
+                }
+            }
         }
 
-        $nodeCapacity = self::evaluateNodeResourceCapacity($nodeId, $memory, $disk);
-        if (!$nodeCapacity['eligible']) {
-            return [
-                'valid' => false,
-                'error' => $nodeCapacity['error'] ?? 'This node does not have enough capacity for this server',
-                'error_code' => $nodeCapacity['error_code'] ?? 'NODE_INSUFFICIENT_CAPACITY',
-            ];
+        // Validate realm exists and is allowed
+        $realmId = (int) ($serverData['realms_id'] ?? 0);
+        if (isset($serverData['realms_id'])) {
+            $realm = Realm::getById($realmId);
+            if (!$realm) {
+                $errors[] = [
+                    'field' => 'realms_id',
+                    'error' => 'Realm not found',
+                    'error_code' => 'REALM_NOT_FOUND',
+                ];
+            } else {
+                // Check user-specific realm permission
+                $realmPermission = SettingsHelper::checkUserResourcePermission($userId, 'realm', $realmId);
+                if (!$realmPermission['allowed']) {
+                    $errors[] = [
+                        'field' => 'realms_id',
+                        'error' => $realmPermission['custom_error'] ?? 'This realm is not available for you',
+                        'error_code' => 'REALM_NOT_ALLOWED',
+                    ];
+                }
+            }
         }
 
-        // Validate location if node has one
-        if (isset($node['location_id']) && $node['location_id'] > 0) {
-            $locationId = (int) $node['location_id'];
-            // Check user-specific location permission
-            $locationPermission = SettingsHelper::checkUserResourcePermission($userId, 'location', $locationId);
-            if (!$locationPermission['allowed']) {
-                return [
-                    'valid' => false,
-                    'error' => $locationPermission['custom_error'] ?? 'This location is not available for you',
-                    'error_code' => 'LOCATION_NOT_ALLOWED',
+        // Validate spell exists and is allowed
+        $spellId = (int) ($serverData['spell_id'] ?? 0);
+        if (isset($serverData['spell_id'])) {
+            $spell = Spell::getSpellById($spellId);
+            if (!$spell) {
+                $errors[] = [
+                    'field' => 'spell_id',
+                    'error' => 'Spell not found',
+                    'error_code' => 'SPELL_NOT_FOUND',
                 ];
+            } else {
+                // Check user-specific spell permission
+                $spellPermission = SettingsHelper::checkUserResourcePermission($userId, 'spell', $spellId);
+                if (!$spellPermission['allowed']) {
+                    $errors[] = [
+                        'field' => 'spell_id',
+                        'error' => $spellPermission['custom_error'] ?? 'This spell is not available for you',
+                        'error_code' => 'SPELL_NOT_ALLOWED',
+                    ];
+                }
+
+                // Validate spell belongs to realm
+                if (isset($spell['realm_id']) && (int) $spell['realm_id'] !== $realmId) {
+                    $errors[] = [
+                        'field' => 'spell_id',
+                        'error' => 'Spell does not belong to the selected realm',
+                        'error_code' => 'SPELL_REALM_MISMATCH',
+                    ];
+                }
+
+                // Validate user-provided spell variables against the spell's rules
+                $providedVariables = isset($serverData['variables']) && is_array($serverData['variables']) ? $serverData['variables'] : [];
+                $variableResolution = self::resolveSpellVariables($spellId, $providedVariables);
+                foreach ($variableResolution['errors'] as $variableError) {
+                    $errors[] = $variableError;
+                }
+
+                // Validate resources and image against the requirements of the spell (or its realm)
+                $spellResources = [];
+                foreach (array_keys(SpellRequirementHelper::RESOURCES) as $resource) {
+                    if (isset($serverData[$resource])) {
+                        $spellResources[$resource] = (int) $serverData[$resource];
+                    }
+                }
+                $spellRealmId = (int) ($spell['realm_id'] ?? $realmId);
+                foreach (SpellRequirementHelper::check($spellId, $spellRealmId, $spellResources, (string) ($serverData['image'] ?? '')) as $requirementError) {
+                    $errors[] = $requirementError;
+                }
             }
         }
 
-        // Validate realm exists and is allowed
-        $realmId = (int) $serverData['realms_id'];
-        $realm = Realm::getById($realmId);
-        if (!$realm) {
-            return [
-                'valid' => false,
-                'error' => 'Realm not found',
-                'error_code' => 'REALM_NOT_FOUND',
-            ];
+        // Re-validate a user-picked allocation; otherwise make sure one can be auto-selected
+        if ($node) {
+            $requestedAllocationId = self::getRequestedAllocationId($serverData);
+            if ($requestedAllocationId > 0) {
+                $allocationError = self::checkRequestedAllocation($nodeId, $requestedAllocationId);
+                if ($allocationError !== null) {
+                    $errors[] = [
+                        'field' => 'allocation_id',
+                        'error' => $allocationError['error'],
+                        'error_code' => $allocationError['error_code'],
+                    ];
+                }
+            } elseif (!in_array('NO_FREE_ALLOCATIONS', array_column($errors, 'error_code'), true)) {
+                $availableAllocations = Allocation::getAll(
+                    search: null,
+                    nodeId: $nodeId,
+                    serverId: null,
+                    limit: 1,
+                    offset: 0,
+                    notUsed: true
+                );
+
+                if (empty($availableAllocations)) {
+                    $errors[] = [
+                        'field' => 'node_id',
+                        'error' => 'No free allocations available on this node',
+                        'error_code' => 'NO_FREE_ALLOCATIONS',
+                    ];
+                }
+            }
         }
 
-        // Check user-specific realm permission
-        $realmPermission = SettingsHelper::checkUserResourcePermission($userId, 'realm', $realmId);
-        if (!$realmPermission['allowed']) {
-            return [
-                'valid' => false,
-                'error' => $realmPermission['custom_error'] ?? 'This realm is not available for you',
-                'error_code' => 'REALM_NOT_ALLOWED',
-            ];
+        // Validate resource values against the global minimums and the bounds of the node and its location
+        $requestedResources = [];
+        foreach (array_keys(SettingsHelper::BOUNDED_RESOURCES) as $resource) {
+            if (isset($serverData[$resource])) {
+                $requestedResources[$resource] = (int) $serverData[$resource];
+            }
+        }
+        $boundsNodeId = $node ? $nodeId : 0;
+        $boundsLocationId = $node ? (int) ($node['location_id'] ?? 0) : 0;
+        foreach (SettingsHelper::checkResourceBounds($boundsNodeId, $boundsLocationId, $requestedResources) as $boundError) {
+            $errors[] = $boundError;
         }
 
-        // Validate spell exists and is allowed
-        $spellId = (int) $serverData['spell_id'];
-        $spell = Spell::getSpellById($spellId);
-        if (!$spell) {
-            return [
-                'valid' => false,
-                'error' => 'Spell not found',
-                'error_code' => 'SPELL_NOT_FOUND',
-            ];
+        if (isset($serverData['io'])) {
+            $ioError = self::checkIoWeight((int) $serverData['io']);
+            if ($ioError !== null) {
+                $errors[] = $ioError;
+            }
         }
 
-        // Check user-specific spell permission
-        $spellPermission = SettingsHelper::checkUserResourcePermission($userId, 'spell', $spellId);
-        if (!$spellPermission['allowed']) {
-            return [
-                'valid' => false,
-                'error' => $spellPermission['custom_error'] ?? 'This spell is not available for you',
-                'error_code' => 'SPELL_NOT_ALLOWED',
-            ];
+        // Check per-user/per-group quotas
+        foreach (QuotaHelper::checkQuotas($userId, $serverData, $node) as $quotaError) {
+            $errors[] = $quotaError;
         }
 
-        // Validate spell belongs to realm
-        if (isset($spell['realm_id']) && (int) $spell['realm_id'] !== $realmId) {
-            return [
-                'valid' => false,
-                'error' => 'Spell does not belong to the selected realm',
-                'error_code' => 'SPELL_REALM_MISMATCH',
+        // Check user resources
+        $availableResources = ResourcesHelper::calculateAvailableResources($userId);
+
+        // Check server limit
+        if ($availableResources['server_limit'] < 1) {
+            $errors[] = [
+                'field' => null,
+                'error' => 'You have reached your server limit',
+                'error_code' => 'SERVER_LIMIT_REACHED',
             ];
         }
 
-        // Check if there are available allocations on this node (allocation will be auto-selected)
-        $availableAllocations = Allocation::getAll(
-            search: null,
-            nodeId: $nodeId,
-            serverId: null,
-            limit: 1,
-            offset: 0,
-            notUsed: true
-        );
+        foreach (self::checkAvailableResources($availableResources, $serverData) as $resourceError) {
+            $errors[] = $resourceError;
+        }
 
-        if (empty($availableAllocations)) {
-            return [
-                'valid' => false,
-                'error' => 'No free allocations available on this node',
-                'error_code' => 'NO_FREE_ALLOCATIONS',
-            ];
+        return $errors;
+    }
+
+    /**
+     * Run the checks that still apply when an existing server is resized: access, a changed IO weight, the bounds of its node
+     * and location, the minimums of its spell, the memory quota, node capacity for what it grows by and the pool.
+     *
+     * @param int $userId Owner of the server
+     * @param array<string,mixed> $server Server record
+     * @param array<string,int> $resources New values keyed by SettingsHelper::RESOURCE_FIELD_KEYS
+     *
+     * @return array<int,array{field: string|null, error: string, error_code: string}> Failing checks
+     */
+    public static function collectServerResizeErrors(int $userId, array $server, array $resources): array
+    {
+        $access = self::checkCreationAccess($userId);
+        if ($access !== null) {
+            return [[
+                'field' => null,
+                'error' => $access['error'],
+                'error_code' => $access['error_code'],
+            ]];
         }
 
-        // Validate resource values against minimum requirements
-        $cpu = (int) $serverData['cpu'];
+        $errors = [];
 
-        $minMemory = SettingsHelper::getMinimumMemory();
-        $minCpu = SettingsHelper::getMinimumCpu();
-        $minDisk = SettingsHelper::getMinimumDisk();
+        // Unlimited swap (-1) is the only negative value allowed
+        foreach ($resources as $field => $value) {
+            if ($value < 0 && !($field === 'swap' && $value === -1)) {
+                $errors[] = [
+                    'field' => $field,
+                    'error' => "{$field} must be 0 or greater",
+                    'error_code' => 'INVALID_' . strtoupper($field),
+                ];
+            }
+        }
 
-        if ($memory < $minMemory) {
-            return [
-                'valid' => false,
-                'error' => "Memory must be at least {$minMemory} MB",
-                'error_code' => 'INVALID_MEMORY',
-            ];
+        // A weight the server already has is kept, so only a changed one is checked
+        if ($resources['io'] !== (int) ($server['io'] ?? 500)) {
+            $ioError = self::checkIoWeight($resources['io']);
+            if ($ioError !== null) {
+                $errors[] = $ioError;
+            }
         }
 
-        if ($cpu < $minCpu) {
-            return [
-                'valid' => false,
-                'error' => "CPU limit must be at least {$minCpu}%",
-                'error_code' => 'INVALID_CPU',
-            ];
+        $nodeId = (int) ($server['node_id'] ?? 0);
+        $node = Node::getNodeById($nodeId);
+        $locationId = $node ? (int) ($node['location_id'] ?? 0) : 0;
+
+        // Validate resource values against the global minimums and the bounds of the node and its location
+        $boundedResources = array_intersect_key($resources, SettingsHelper::BOUNDED_RESOURCES);
+        foreach (SettingsHelper::checkResourceBounds($node ? $nodeId : 0, $locationId, $boundedResources) as $boundError) {
+            $errors[] = $boundError;
         }
 
-        if ($disk < $minDisk) {
-            return [
-                'valid' => false,
-                'error' => "Disk must be at least {$minDisk} MB",
-                'error_code' => 'INVALID_DISK',
-            ];
+        // Validate resources against the requirements of the spell; the image does not change
+        $spellId = (int) ($server['spell_id'] ?? 0);
+        $spell = $spellId > 0 ? Spell::getSpellById($spellId) : null;
+        if ($spell) {
+            $spellRealmId = (int) ($spell['realm_id'] ?? $server['realms_id'] ?? 0);
+            $spellResources = array_intersect_key($resources, SpellRequirementHelper::RESOURCES);
+            foreach (SpellRequirementHelper::check($spellId, $spellRealmId, $spellResources, null) as $requirementError) {
+                $errors[] = $requirementError;
+            }
         }
 
-        // Check user resources
-        $availableResources = ResourcesHelper::calculateAvailableResources($userId);
+        $memoryError = QuotaHelper::checkMemoryPerServer(QuotaHelper::resolveQuotas($userId)['limits'], $resources['memory']);
+        if ($memoryError !== null) {
+            $errors[] = $memoryError;
+        }
 
-        // Check server limit
-        if ($availableResources['server_limit'] < 1) {
-            return [
-                'valid' => false,
-                'error' => 'You have reached your server limit',
-                'error_code' => 'SERVER_LIMIT_REACHED',
-            ];
+        // The node only needs room for what the server grows by
+        $memoryGrowth = max(0, $resources['memory'] - (int) ($server['memory'] ?? 0));
+        $diskGrowth = max(0, $resources['disk'] - (int) ($server['disk'] ?? 0));
+        if ($node && ($memoryGrowth > 0 || $diskGrowth > 0)) {
+            $nodeCapacity = self::evaluateNodeResourceCapacity($nodeId, $memoryGrowth, $diskGrowth, false);
+            if (!$nodeCapacity['eligible']) {
+                $errors[] = [
+                    'field' => ($nodeCapacity['error_code'] ?? null) === 'NODE_INSUFFICIENT_DISK' ? 'disk' : 'memory',
+                    'error' => $nodeCapacity['error'] ?? 'This node does not have enough capacity for this server',
+                    'error_code' => $nodeCapacity['error_code'] ?? 'NODE_INSUFFICIENT_CAPACITY',
+                ];
+            }
+        }
+
+        // The pool already pays for the current size of the server
+        foreach (self::checkAvailableResources(self::getAvailableResourcesForServer($userId, $server), $resources) as $resourceError) {
+            $errors[] = $resourceError;
+        }
+
+        return $errors;
+    }
+
+    /**
+     * Check a block IO weight against the range Wings accepts.
+     *
+     * @param int $io Requested IO weight
+     *
+     * @return array{field: string, error: string, error_code: string}|null Null when the weight is valid
+     */
+    public static function checkIoWeight(int $io): ?array
+    {
+        if ($io >= self::IO_WEIGHT_MIN && $io <= self::IO_WEIGHT_MAX) {
+            return null;
+        }
+
+        return [
+            'field' => 'io',
+            'error' => 'Block IO weight must be between ' . self::IO_WEIGHT_MIN . ' and ' . self::IO_WEIGHT_MAX,
+            'error_code' => 'INVALID_IO',
+        ];
+    }
+
+    /**
+     * What the user could spend on one of their servers: the pool left plus what the server already uses.
+     *
+     * @param int $userId Owner of the server
+     * @param array<string,mixed> $server Server record
+     *
+     * @return array<string,int> Same keys as ResourcesHelper::calculateAvailableResources
+     */
+    public static function getAvailableResourcesForServer(int $userId, array $server): array
+    {
+        $availableResources = ResourcesHelper::calculateAvailableResources($userId);
+        foreach (self::POOL_KEYS as $field => $key) {
+            $availableResources[$key] = (int) ($availableResources[$key] ?? 0) + (int) ($server[$field] ?? 0);
         }
 
+        return $availableResources;
+    }
+
+    /**
+     * Check resource values against what the user has left in their pool.
+     *
+     * @param array<string,int> $availableResources Pool left to spend, as returned by ResourcesHelper::calculateAvailableResources
+     * @param array<string,mixed> $serverData Requested resources
+     *
+     * @return list<array{field: string, error: string, error_code: string}> Failing checks
+     */
+    public static function checkAvailableResources(array $availableResources, array $serverData): array
+    {
+        $memory = (int) ($serverData['memory'] ?? 0);
+        $cpu = (int) ($serverData['cpu'] ?? 0);
+        $disk = (int) ($serverData['disk'] ?? 0);
+        $errors = [];
+
         // Check memory
         if ($availableResources['memory_limit'] < $memory) {
-            return [
-                'valid' => false,
+            $errors[] = [
+                'field' => 'memory',
                 'error' => 'Insufficient memory. Available: ' . $availableResources['memory_limit'] . ' MB, Required: ' . $memory . ' MB',
                 'error_code' => 'INSUFFICIENT_MEMORY',
             ];
@@ -280,8 +559,8 @@ class ServerCreationHelper
 
         // Check CPU
         if ($availableResources['cpu_limit'] < $cpu) {
-            return [
-                'valid' => false,
+            $errors[] = [
+                'field' => 'cpu',
                 'error' => 'Insufficient CPU. Available: ' . $availableResources['cpu_limit'] . '%, Required: ' . $cpu . '%',
                 'error_code' => 'INSUFFICIENT_CPU',
             ];
@@ -289,8 +568,8 @@ class ServerCreationHelper
 
         // Check disk
         if ($availableResources['disk_limit'] < $disk) {
-            return [
-                'valid' => false,
+            $errors[] = [
+                'field' => 'disk',
                 'error' => 'Insufficient disk space. Available: ' . $availableResources['disk_limit'] . ' MB, Required: ' . $disk . ' MB',
                 'error_code' => 'INSUFFICIENT_DISK',
             ];
@@ -299,8 +578,8 @@ class ServerCreationHelper
         // Check database limit
         $databaseLimit = isset($serverData['database_limit']) ? (int) $serverData['database_limit'] : 0;
         if ($databaseLimit > 0 && $availableResources['database_limit'] < $databaseLimit) {
-            return [
-                'valid' => false,
+            $errors[] = [
+                'field' => 'database_limit',
                 'error' => 'Insufficient database limit. Available: ' . $availableResources['database_limit'] . ', Required: ' . $databaseLimit,
                 'error_code' => 'INSUFFICIENT_DATABASE_LIMIT',
             ];
@@ -309,8 +588,8 @@ class ServerCreationHelper
         // Check backup limit
         $backupLimit = isset($serverData['backup_limit']) ? (int) $serverData['backup_limit'] : 0;
         if ($backupLimit > 0 && $availableResources['backup_limit'] < $backupLimit) {
-            return [
-                'valid' => false,
+            $errors[] = [
+                'field' => 'backup_limit',
                 'error' => 'Insufficient backup limit. Available: ' . $availableResources['backup_limit'] . ', Required: ' . $backupLimit,
                 'error_code' => 'INSUFFICIENT_BACKUP_LIMIT',
             ];
@@ -319,14 +598,231 @@ class ServerCreationHelper
         // Check allocation limit
         $allocationLimit = isset($serverData['allocation_limit']) ? (int) $serverData['allocation_limit'] : 0;
         if ($allocationLimit > 0 && $availableResources['allocation_limit'] < $allocationLimit) {
-            return [
-                'valid' => false,
+            $errors[] = [
+                'field' => 'allocation_limit',
                 'error' => 'Insufficient allocation limit. Available: ' . $availableResources['allocation_limit'] . ', Required: ' . $allocationLimit,
                 'error_code' => 'INSUFFICIENT_ALLOCATION_LIMIT',
             ];
         }
 
-        return ['valid' => true];
+        return $errors;
+    }
+
+    /**
+     * The allocation the user picked, or 0 when the allocation mode does not allow picking.
+     *
+     * @param array<string,mixed> $serverData Server creation data
+     */
+    public static function getRequestedAllocationId(array $serverData): int
+    {
+        if (SettingsHelper::getAllocationMode() !== 'user' || empty($serverData['allocation_id'])) {
+            return 0;
+        }
+
+        return max(0, (int) $serverData['allocation_id']);
+    }
+
+    /**
+     * Check that a requested allocation exists, belongs to the node and is still free.
+     *
+     * @return array{error: string, error_code: string}|null Null when the allocation can be used
+     */
+    public static function checkRequestedAllocation(int $nodeId, int $allocationId): ?array
+    {
+        $allocation = Allocation::getById($allocationId);
+        if (!$allocation) {
+            return [
+                'error' => 'Allocation not found',
+                'error_code' => 'ALLOCATION_NOT_FOUND',
+            ];
+        }
+
+        if ((int) $allocation['node_id'] !== $nodeId) {
+            return [
+                'error' => 'The selected allocation does not belong to the selected node',
+                'error_code' => 'ALLOCATION_NODE_MISMATCH',
+            ];
+        }
+
+        if (!empty($allocation['server_id'])) {
+            return [
+                'error' => 'The selected allocation is already in use',
+                'error_code' => 'ALLOCATION_IN_USE',
+            ];
+        }
+
+        return null;
+    }
+
+    /**
+     * Pick the primary allocation for a new server according to the configured allocation mode.
+     * User-picked allocations are re-validated; the port range mode falls back to any free port.
+     *
+     * @param array<string,mixed> $serverData Server creation data
+     *
+     * @return array{allocation_id: int|null, error?: string, error_code?: string}
+     */
+    public static function selectAllocation(int $nodeId, array $serverData): array
+    {
+        $requestedAllocationId = self::getRequestedAllocationId($serverData);
+        if ($requestedAllocationId > 0) {
+            $allocationError = self::checkRequestedAllocation($nodeId, $requestedAllocationId);
+            if ($allocationError !== null) {
+                return ['allocation_id' => null] + $allocationError;
+            }
+
+            return ['allocation_id' => $requestedAllocationId];
+        }
+
+        if (SettingsHelper::getAllocationMode() === 'port_range') {
+            $range = SettingsHelper::getAllocationPortRange();
+            if ($range['end'] > 0) {
+                $inRange = array_values(array_filter(
+                    Allocation::getAll(
+                        search: null,
+                        nodeId: $nodeId,
+                        serverId: null,
+                        limit: 1000,
+                        offset: 0,
+                        notUsed: true
+                    ),
+                    static fn (array $allocation): bool => (int) $allocation['port'] >= $range['start'] && (int) $allocation['port'] <= $range['end']
+                ));
+                if (!empty($inRange)) {
+                    return ['allocation_id' => (int) $inRange[array_rand($inRange)]['id']];
+                }
+            }
+        }
+
+        // Auto-select a random free allocation (like ServerAllocationController::autoAllocate)
+        $availableAllocations = Allocation::getAll(
+            search: null,
+            nodeId: $nodeId,
+            serverId: null,
+            limit: 100,
+            offset: 0,
+            notUsed: true
+        );
+
+        if (empty($availableAllocations)) {
+            return [
+                'allocation_id' => null,
+                'error' => 'No free allocations available on this node',
+                'error_code' => 'NO_FREE_ALLOCATIONS',
+            ];
+        }
+
+        return ['allocation_id' => (int) $availableAllocations[array_rand($availableAllocations)]['id']];
+    }
+
+    /**
+     * Get the spell variables a user may see on the create form.
+     *
+     * @param int $spellId Spell ID
+     *
+     * @return array<int,array<string,mixed>> User-viewable variables (no internal fields)
+     */
+    public static function getUserSpellVariables(int $spellId): array
+    {
+        $variables = [];
+        foreach (SpellVariable::getVariablesBySpellId($spellId) as $variable) {
+            if (!self::isVariableFlagEnabled($variable['user_viewable'] ?? false)) {
+                continue;
+            }
+
+            $variables[] = [
+                'id' => (int) $variable['id'],
+                'name' => $variable['name'] ?? '',
+                'description' => $variable['description'] ?? null,
+                'env_variable' => $variable['env_variable'] ?? '',
+                'default_value' => $variable['default_value'] ?? '',
+                'rules' => $variable['rules'] ?? '',
+                'field_type' => $variable['field_type'] ?? null,
+                'user_editable' => self::isVariableFlagEnabled($variable['user_editable'] ?? false),
+            ];
+        }
+
+        return $variables;
+    }
+
+    /**
+     * Resolve the effective values of all spell variables for a new server.
+     * User values are only honored for viewable + editable variables; everything else uses the spell default.
+     *
+     * @param int $spellId Spell ID
+     * @param array<string,mixed> $provided Values keyed by env_variable
+     *
+     * @return array{valid: bool, error?: string, error_code?: string, errors: array<int,array{field: string, error: string, error_code: string}>, variables: array<int,array{variable_id: int, variable_value: string}>}
+     */
+    public static function resolveSpellVariables(int $spellId, array $provided): array
+    {
+        $resolved = [];
+        $errors = [];
+
+        foreach (SpellVariable::getVariablesBySpellId($spellId) as $variable) {
+            $envVariable = (string) $variable['env_variable'];
+            $rules = (string) ($variable['rules'] ?? '');
+            $default = (string) ($variable['default_value'] ?? '');
+            $editable = self::isVariableFlagEnabled($variable['user_viewable'] ?? false)
+                && self::isVariableFlagEnabled($variable['user_editable'] ?? false);
+            $label = 'Spell variable "' . $variable['name'] . '" (' . $envVariable . ')';
+
+            $value = $default;
+            if ($editable && array_key_exists($envVariable, $provided) && $provided[$envVariable] !== null) {
+                if (!is_scalar($provided[$envVariable])) {
+                    $errors[] = [
+                        'field' => 'variables.' . $envVariable,
+                        'error' => $label . ' must be a string',
+                        'error_code' => 'INVALID_VARIABLE_VALUE',
+                    ];
+                    continue;
+                }
+                $value = is_bool($provided[$envVariable])
+                    ? ($provided[$envVariable] ? 'true' : 'false')
+                    : trim((string) $provided[$envVariable]);
+            }
+
+            // Defaults of locked variables are trusted; only a missing required value is an error
+            if (!$editable) {
+                if ($value === '' && in_array('required', array_column(self::parseVariableRules($rules), 0), true)) {
+                    $errors[] = [
+                        'field' => 'variables.' . $envVariable,
+                        'error' => 'Required spell variable "' . $variable['name'] . '" (' . $envVariable . ') has no default value and was not provided',
+                        'error_code' => 'MISSING_REQUIRED_VARIABLE',
+                    ];
+                    continue;
+                }
+            } else {
+                $ruleError = self::validateVariableValue($value, $rules);
+                if ($ruleError !== null) {
+                    $errors[] = [
+                        'field' => 'variables.' . $envVariable,
+                        'error' => $label . ' ' . $ruleError,
+                        'error_code' => $value === '' ? 'MISSING_REQUIRED_VARIABLE' : 'INVALID_VARIABLE_VALUE',
+                    ];
+                    continue;
+                }
+            }
+
+            if ($value !== '') {
+                $resolved[] = [
+                    'variable_id' => (int) $variable['id'],
+                    'variable_value' => $value,
+                ];
+            }
+        }
+
+        if (!empty($errors)) {
+            return [
+                'valid' => false,
+                'error' => $errors[0]['error'],
+                'error_code' => $errors[0]['error_code'],
+                'errors' => $errors,
+                'variables' => [],
+            ];
+        }
+
+        return ['valid' => true, 'errors' => [], 'variables' => $resolved];
     }
 
     /**
@@ -479,11 +975,13 @@ class ServerCreationHelper
     }
 
     /**
+     * @param bool $needsAllocation False when the server already has its allocation (resizing)
+     *
      * @return array{eligible: bool, error?: string, error_code?: string}
      */
-    public static function evaluateNodeResourceCapacity(int $nodeId, int $requiredMemory, int $requiredDisk): array
+    public static function evaluateNodeResourceCapacity(int $nodeId, int $requiredMemory, int $requiredDisk, bool $needsAllocation = true): array
     {
-        if (Allocation::getFreeCountByNodeId($nodeId) < 1) {
+        if ($needsAllocation && Allocation::getFreeCountByNodeId($nodeId) < 1) {
             return [
                 'eligible' => false,
                 'error' => 'No free allocations available on this node',
@@ -537,6 +1035,18 @@ class ServerCreationHelper
      * Lower score = better placement candidate (spread servers + balance resources).
      */
     public static function scoreNodeForPlacement(int $nodeId, int $requiredMemory, int $requiredDisk): ?float
+    {
+        return self::getNodePlacementMetrics($nodeId, $requiredMemory, $requiredDisk)['score'] ?? null;
+    }
+
+    /**
+     * Load of a node that can take the server, or null when it cannot (server cap, memory/disk or allocations).
+     * The score weighs server pressure, memory and disk usage (added) and free allocations (subtracted)
+     * with the configured placement score weights.
+     *
+     * @return array{server_count: int, max_servers: int, server_pressure: float, memory_usage: float, disk_usage: float, free_allocations: int, score: float}|null
+     */
+    public static function getNodePlacementMetrics(int $nodeId, int $requiredMemory, int $requiredDisk): ?array
     {
         if (SettingsHelper::isNodeAtServerCap($nodeId)) {
             return null;
@@ -577,11 +1087,20 @@ class ServerCreationHelper
         $memoryUsage = $memoryCap > 0 ? $allocated['memory'] / $memoryCap : 0.0;
         $diskUsage = $diskCap > 0 ? $allocated['disk'] / $diskCap : 0.0;
         $freeAllocations = Allocation::getFreeCountByNodeId($nodeId);
+        $weights = SettingsHelper::getPlacementScoreWeights();
 
-        return ($serverPressure * 10000)
-            + ($memoryUsage * 1000)
-            + ($diskUsage * 100)
-            - min($freeAllocations, 100) * 0.1;
+        return [
+            'server_count' => $serverCount,
+            'max_servers' => $maxServers,
+            'server_pressure' => $serverPressure,
+            'memory_usage' => $memoryUsage,
+            'disk_usage' => $diskUsage,
+            'free_allocations' => $freeAllocations,
+            'score' => ($serverPressure * $weights['server_pressure'])
+                + ($memoryUsage * $weights['memory_usage'])
+                + ($diskUsage * $weights['disk_usage'])
+                - min($freeAllocations, 100) * $weights['free_allocations'],
+        ];
     }
 
     /**
@@ -691,10 +1210,83 @@ class ServerCreationHelper
         return $result;
     }
 
+    /**
+     * Get the presets a user may pick from.
+     * Presets restricted to groups the user is not in, or pointing at a realm/spell
+     * the user cannot use, are left out.
+     *
+     * @param array<array<string,mixed>> $presets Enabled presets
+     * @param int $userId User ID
+     *
+     * @return array<array<string,mixed>> Available presets with decoded variables and group_ids
+     */
+    public static function filterPresets(array $presets, int $userId): array
+    {
+        $result = [];
+        $groupsByPreset = PresetGroup::getAllGroupIdsByPreset();
+        $userGroupIds = UserGroup::getGroupIdsByUserId($userId);
+
+        foreach ($presets as $preset) {
+            if (!isset($preset['id'])) {
+                continue;
+            }
+
+            $presetId = (int) $preset['id'];
+            $groupIds = $groupsByPreset[$presetId] ?? [];
+            if (!empty($groupIds) && empty(array_intersect($groupIds, $userGroupIds))) {
+                continue;
+            }
+
+            $realmId = isset($preset['realm_id']) ? (int) $preset['realm_id'] : 0;
+            if ($realmId > 0 && !SettingsHelper::checkUserResourcePermission($userId, 'realm', $realmId)['allowed']) {
+                continue;
+            }
+
+            $spellId = isset($preset['spell_id']) ? (int) $preset['spell_id'] : 0;
+            if ($spellId > 0 && !SettingsHelper::checkUserResourcePermission($userId, 'spell', $spellId)['allowed']) {
+                continue;
+            }
+
+            $preset['group_ids'] = $groupIds;
+            $preset['variables'] = self::decodePresetVariables($preset['variables'] ?? null);
+            $result[] = $preset;
+        }
+
+        return $result;
+    }
+
+    /**
+     * Decode the stored variable overrides of a preset.
+     *
+     * @param mixed $variables JSON string (env_variable => value) or already-decoded array
+     *
+     * @return array<string,string> Variable overrides keyed by env variable
+     */
+    public static function decodePresetVariables(mixed $variables): array
+    {
+        if (is_string($variables) && $variables !== '') {
+            $variables = json_decode($variables, true);
+        }
+
+        if (!is_array($variables)) {
+            return [];
+        }
+
+        $result = [];
+        foreach ($variables as $env => $value) {
+            if (is_string($env) && $env !== '' && (is_scalar($value) || $value === null)) {
+                $result[$env] = (string) $value;
+            }
+        }
+
+        return $result;
+    }
+
     /**
      * Resolve user-mode placement defaults (including auto strategies) for the create form.
      *
-     * @param array<string, array{mode: string, value?: int|string|null, default?: int|string|null}> $policies
+     * @param array<string, array{mode: string, value?: int|string|null, default?: int|string|null, tag?: string}> $policies
+     * @param array<string, array<string,mixed>> $explanations Filled with why each auto-picked field got its value
      *
      * @return array<string, int>
      */
@@ -703,6 +1295,7 @@ class ServerCreationHelper
         array $policies,
         int $requiredMemory = 0,
         int $requiredDisk = 0,
+        array &$explanations = [],
     ): array {
         $out = [];
         $context = [];
@@ -720,19 +1313,25 @@ class ServerCreationHelper
                 continue;
             }
 
+            $explanation = null;
             $resolved = self::resolvePlacementSelection(
                 $userId,
                 $key,
                 $def,
                 $context,
                 $requiredMemory,
-                $requiredDisk
+                $requiredDisk,
+                $p['tag'] ?? null,
+                $explanation
             );
             if ($resolved === null) {
                 continue;
             }
 
             $out[$key] = $resolved;
+            if ($explanation !== null) {
+                $explanations[$key] = $explanation;
+            }
             if ($key === 'location') {
                 $context['location_id'] = $resolved;
             } elseif ($key === 'node') {
@@ -774,7 +1373,8 @@ class ServerCreationHelper
                 $p['value'],
                 $data,
                 $memory,
-                $disk
+                $disk,
+                $p['tag'] ?? null
             );
             if ($resolved === null) {
                 continue;
@@ -797,8 +1397,10 @@ class ServerCreationHelper
     /**
      * Resolve a placement policy value (numeric ID or auto strategy) for the current user.
      *
-     * @param int|string $valueOrStrategy Resource ID or strategy (first, least_capacity)
+     * @param int|string $valueOrStrategy Resource ID or strategy (first, or a node strategy such as least_capacity)
      * @param array<string, mixed> $context Current form payload (location_id, realms_id, etc.)
+     * @param string|null $tag Only consider nodes with this tag (node strategies only)
+     * @param array<string,mixed>|null $explanation Set to why the node was picked when a node strategy chose it
      */
     public static function resolvePlacementSelection(
         int $userId,
@@ -807,6 +1409,8 @@ class ServerCreationHelper
         array $context = [],
         int $requiredMemory = 0,
         int $requiredDisk = 0,
+        ?string $tag = null,
+        ?array &$explanation = null,
     ): ?int {
         if (is_int($valueOrStrategy) || (is_string($valueOrStrategy) && is_numeric($valueOrStrategy))) {
             return (int) $valueOrStrategy;
@@ -816,53 +1420,19 @@ class ServerCreationHelper
             return self::resolveFirstPlacement($userId, $field, $context);
         }
 
-        if ($valueOrStrategy === 'least_capacity' && $field === 'node') {
+        if ($field === 'node' && in_array($valueOrStrategy, SettingsHelper::PLACEMENT_NODE_STRATEGIES, true)) {
             $locationId = isset($context['location_id']) ? (int) $context['location_id'] : null;
             if ($locationId !== null && $locationId <= 0) {
                 $locationId = null;
             }
 
-            return self::resolveLeastCapacityNode($userId, $locationId, $requiredMemory, $requiredDisk);
-        }
+            $placement = PlacementHelper::resolveNode($userId, $valueOrStrategy, $locationId, $requiredMemory, $requiredDisk, $tag);
+            $explanation = $placement['explanation'];
 
-        return null;
-    }
-
-    /**
-     * Pick the allowed node with the most remaining capacity (lowest memory utilization, then most free allocations).
-     */
-    public static function resolveLeastCapacityNode(
-        int $userId,
-        ?int $locationId = null,
-        int $requiredMemory = 0,
-        int $requiredDisk = 0,
-    ): ?int {
-        $all = Node::getAllNodes();
-        $candidates = self::filterNodes($all, $userId, $locationId);
-        if ($candidates === []) {
-            return null;
-        }
-
-        $bestNodeId = null;
-        $bestScore = null;
-
-        foreach ($candidates as $node) {
-            if (!isset($node['id'])) {
-                continue;
-            }
-            $nodeId = (int) $node['id'];
-            $score = self::scoreNodeForPlacement($nodeId, $requiredMemory, $requiredDisk);
-            if ($score === null) {
-                continue;
-            }
-
-            if ($bestScore === null || $score < $bestScore) {
-                $bestScore = $score;
-                $bestNodeId = $nodeId;
-            }
+            return $placement['node_id'];
         }
 
-        return $bestNodeId;
+        return null;
     }
 
     /**
@@ -939,4 +1509,122 @@ class ServerCreationHelper
 
         return ['memory' => $memory, 'disk' => $disk];
     }
+
+    /**
+     * Spell variable flags are stored as 'true'/'false' strings but may also come back as ints.
+     */
+    private static function isVariableFlagEnabled(mixed $value): bool
+    {
+        return in_array($value, [true, 1, '1', 'true'], true);
+    }
+
+    /**
+     * Split a Laravel-style rule string ("required|string|max:20") into [name, parameter] pairs.
+     * Regex rules keep any "|" characters that belong to the pattern.
+     *
+     * @return array<int,array{0: string, 1: string}>
+     */
+    private static function parseVariableRules(string $rules): array
+    {
+        $parsed = [];
+        $segments = explode('|', $rules);
+        $count = count($segments);
+        for ($i = 0; $i < $count; ++$i) {
+            $segment = trim($segments[$i]);
+            if ($segment === '') {
+                continue;
+            }
+            if (str_starts_with($segment, 'regex:')) {
+                $segment = implode('|', array_slice($segments, $i));
+                $i = $count;
+            }
+            $parts = explode(':', $segment, 2);
+            $parsed[] = [strtolower(trim($parts[0])), $parts[1] ?? ''];
+        }
+
+        return $parsed;
+    }
+
+    /**
+     * Validate a spell variable value against its rule string.
+     *
+     * @return string|null Error suffix (e.g. "must be an integer") or null when valid
+     */
+    private static function validateVariableValue(string $value, string $rules): ?string
+    {
+        $parsed = self::parseVariableRules($rules);
+        $names = array_column($parsed, 0);
+
+        if ($value === '') {
+            return in_array('required', $names, true) ? 'is required' : null;
+        }
+
+        $numeric = in_array('integer', $names, true) || in_array('numeric', $names, true);
+
+        foreach ($parsed as [$name, $param]) {
+            switch ($name) {
+                case 'integer':
+                    if (!preg_match('/^-?\d+$/', $value)) {
+                        return 'must be an integer';
+                    }
+                    break;
+                case 'numeric':
+                    if (!is_numeric($value)) {
+                        return 'must be a number';
+                    }
+                    break;
+                case 'boolean':
+                    if (!in_array(strtolower($value), ['true', 'false', '1', '0'], true)) {
+                        return 'must be true or false';
+                    }
+                    break;
+                case 'alpha_num':
+                    if (!preg_match('/^[\pL\pM\pN]+$/u', $value)) {
+                        return 'may only contain letters and numbers';
+                    }
+                    break;
+                case 'alpha_dash':
+                    if (!preg_match('/^[\pL\pM\pN_-]+$/u', $value)) {
+                        return 'may only contain letters, numbers, dashes and underscores';
+                    }
+                    break;
+                case 'in':
+                    $allowed = array_map('trim', explode(',', $param));
+                    if (!in_array($value, $allowed, true)) {
+                        return 'must be one of: ' . implode(', ', $allowed);
+                    }
+                    break;
+                case 'min':
+                case 'max':
+                    $limit = (float) $param;
+                    $size = $numeric ? (float) $value : (float) mb_strlen($value);
+                    if ($name === 'min' && $size < $limit) {
+                        return $numeric ? "must be at least {$param}" : "must be at least {$param} characters";
+                    }
+                    if ($name === 'max' && $size > $limit) {
+                        return $numeric ? "may not be greater than {$param}" : "may not be longer than {$param} characters";
+                    }
+                    break;
+                case 'between':
+                    $bounds = array_map('trim', explode(',', $param));
+                    if (count($bounds) === 2) {
+                        $size = $numeric ? (float) $value : (float) mb_strlen($value);
+                        if ($size < (float) $bounds[0] || $size > (float) $bounds[1]) {
+                            return $numeric
+                                ? "must be between {$bounds[0]} and {$bounds[1]}"
+                                : "must be between {$bounds[0]} and {$bounds[1]} characters";
+                        }
+                    }
+                    break;
+                case 'regex':
+                    // Invalid patterns are ignored rather than blocking creation
+                    if (@preg_match($param, $value) === 0) {
+                        return 'has an invalid format';
+                    }
+                    break;
+            }
+        }
+
+        return null;
+    }
 }
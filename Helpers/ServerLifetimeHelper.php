@@ -0,0 +1,488 @@
+<?php
+
+/*
+ * This file is part of FeatherPanel.
+ *
+ * Copyright (C) 2025 MythicalSystems Studios
+ * Copyright (C) 2025 FeatherPanel Contributors
+ * Copyright (C) 2025 Cassian Gherman (aka NaysKutzu)
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * See the LICENSE file or <https://www.gnu.org/licenses/>.
+ */
+
+namespace App\Addons\billingresourcesnewservers\Helpers;
+
+use App\App;
+use App\Chat\User;
+use App\Chat\Server;
+use App\Chat\MailList;
+use App\Chat\MailQueue;
+use App\Addons\billingresourcesnewservers\Chat\Group;
+use App\Addons\billingresourcesnewservers\Chat\TrackedServer;
+
+/**
+ * Helper for the lifetime of servers created through this plugin.
+ *
+ * A server is reclaimed when its lifetime ran out (counted from creation or the last renewal)
+ * or when it had no activity for too long: nothing in the panel's server activity log and
+ * not seen running. It is first warned, suspended once the warning period is over and
+ * deleted through the panel's server deletion after the grace period. The owner is mailed
+ * when the server is warned and when it is suspended. Renewing restarts both clocks and
+ * brings a warned or suspended server back.
+ *
+ * Reclamation runs lazily inside user requests (the create form and the server list), so
+ * such a pass looks at a few servers at most and stops starting new ones once its time
+ * budget is spent. An admin can run a full batch from the settings page.
+ */
+class ServerLifetimeHelper
+{
+    /**
+     * Global settings of the lifetime policy (the first two can be overridden per group).
+     *
+     * @var list<string>
+     */
+    public const SETTING_KEYS = ['lifetime_days', 'inactivity_days', 'reclaim_warning_days', 'reclaim_deletion_days'];
+
+    /** Wings states that count as the server being used */
+    private const RUNNING_STATES = ['running', 'starting'];
+
+    /** Most servers looked at when an admin runs a pass (each may need Wings calls) */
+    private const PROCESS_BATCH = 50;
+
+    /** Most servers looked at by a lazy pass, which runs inside a user's request */
+    private const LAZY_BATCH = 3;
+
+    /** A lazy pass starts no further server once it ran this long */
+    private const LAZY_TIME_BUDGET_SECONDS = 2.0;
+
+    /** Minimum seconds between two lazy passes */
+    private const PROCESS_INTERVAL_SECONDS = 60;
+
+    /** Seconds to wait for Wings when checking whether a server is running */
+    private const STATE_TIMEOUT = 3;
+
+    private const DAY_SECONDS = 86400;
+
+    /**
+     * Start tracking the server of a finished creation request.
+     *
+     * @param array<string,mixed> $request Creation request in the done state
+     */
+    public static function track(array $request): void
+    {
+        if (($request['server_id'] ?? null) === null) {
+            return;
+        }
+
+        try {
+            TrackedServer::track((int) $request['server_id'], (int) $request['user_id'], (int) $request['id']);
+        } catch (\Throwable $e) {
+            App::getInstance(true)->getLogger()->error('Failed to track server ' . $request['server_id'] . ': ' . $e->getMessage());
+        }
+    }
+
+    /**
+     * Resolve the lifetime policy of a user.
+     * lifetime_days and inactivity_days come from the highest-priority group that overrides them, otherwise from the global settings.
+     *
+     * @param int $userId User ID
+     *
+     * @return array{policy: array<string,int>, sources: array<string,array{type: string, group_id?: int, group_name?: string}>}
+     */
+    public static function resolvePolicy(int $userId): array
+    {
+        $policy = SettingsHelper::getServerLifetimeSettings();
+        $sources = array_fill_keys(Group::LIFETIME_FIELDS, ['type' => 'global']);
+
+        // Already ordered by priority DESC, name ASC
+        $groups = Group::getByUserId($userId);
+
+        foreach (Group::LIFETIME_FIELDS as $field) {
+            foreach ($groups as $group) {
+                if (isset($group[$field])) {
+                    $policy[$field] = max(0, (int) $group[$field]);
+                    $sources[$field] = [
+                        'type' => 'group',
+                        'group_id' => (int) $group['id'],
+                        'group_name' => $group['name'],
+                    ];
+                    break;
+                }
+            }
+        }
+
+        return ['policy' => $policy, 'sources' => $sources];
+    }
+
+    /**
+     * Which rule reclaims a server first and when.
+     *
+     * @param array<string,mixed> $tracked Tracked server
+     * @param array<string,int> $policy Resolved policy of the owner
+     *
+     * @return array{reason: string|null, seconds_left: int|null} seconds_left is negative once the deadline passed; both null when no rule applies
+     */
+    public static function describe(array $tracked, array $policy): array
+    {
+        $deadlines = [];
+        if ($policy['lifetime_days'] > 0) {
+            $deadlines['lifetime'] = $policy['lifetime_days'] * self::DAY_SECONDS - (int) $tracked['lifetime_seconds'];
+        }
+        if ($policy['inactivity_days'] > 0) {
+            $deadlines['inactivity'] = $policy['inactivity_days'] * self::DAY_SECONDS - (int) $tracked['idle_seconds'];
+        }
+        if (empty($deadlines)) {
+            return ['reason' => null, 'seconds_left' => null];
+        }
+
+        asort($deadlines);
+
+        return ['reason' => (string) array_key_first($deadlines), 'seconds_left' => (int) reset($deadlines)];
+    }
+
+    /**
+     * A tracked server as shown to its owner.
+     *
+     * @param array<string,mixed> $tracked Tracked server
+     * @param array<string,int> $policy Resolved policy of the owner
+     *
+     * @return array<string,mixed>
+     */
+    public static function formatServer(array $tracked, array $policy): array
+    {
+        $status = self::describe($tracked, $policy);
+        $warningSeconds = $policy['reclaim_warning_days'] * self::DAY_SECONDS;
+        $state = $tracked['reclaim_state'];
+
+        // Suspension waits for the deadline and for a full warning period
+        $suspendsIn = null;
+        if ($status['reason'] !== null && $state === 'active') {
+            $suspendsIn = max($status['seconds_left'], $warningSeconds);
+        } elseif ($status['reason'] !== null && $state === 'warned') {
+            $suspendsIn = max($status['seconds_left'], $warningSeconds - (int) $tracked['warned_seconds'], 0);
+        }
+
+        return [
+            'id' => (int) $tracked['id'],
+            'server_id' => (int) $tracked['server_id'],
+            'server_uuid' => $tracked['server_uuid'] ?? null,
+            'name' => $tracked['server_name'] ?? null,
+            'status' => $tracked['server_status'] ?? null,
+            'state' => $state,
+            'reason' => $state === 'active' ? $status['reason'] : ($tracked['reclaim_reason'] ?? $status['reason']),
+            'suspends_in' => $suspendsIn,
+            'deletes_in' => $state === 'suspended'
+                ? max(0, $policy['reclaim_deletion_days'] * self::DAY_SECONDS - (int) $tracked['suspended_seconds'])
+                : null,
+            'renewable' => $status['reason'] !== null || $state !== 'active',
+            'last_active_at' => $tracked['last_activity_at'] ?? $tracked['last_active_at'] ?? null,
+            'renewed_at' => $tracked['renewed_at'] ?? null,
+            'created_at' => $tracked['created_at'] ?? null,
+        ];
+    }
+
+    /**
+     * Restart the lifetime and inactivity period of a server and bring it back if it was warned or suspended.
+     *
+     * @param array<string,mixed> $tracked Tracked server
+     *
+     * @return array{server: array<string,mixed>|null, error?: string, error_code?: string}
+     */
+    public static function renew(array $tracked): array
+    {
+        if ($tracked['reclaim_state'] === 'deleted') {
+            return ['server' => null, 'error' => 'This server was already deleted', 'error_code' => 'SERVER_DELETED'];
+        }
+
+        $server = Server::getServerById((int) $tracked['server_id']);
+        if (!$server) {
+            TrackedServer::transition((int) $tracked['id'], $tracked['reclaim_state'], 'deleted');
+
+            return ['server' => null, 'error' => 'This server no longer exists', 'error_code' => 'SERVER_NOT_FOUND'];
+        }
+
+        if ($tracked['reclaim_state'] === 'suspended' && !self::setSuspended($server, false)) {
+            return ['server' => null, 'error' => 'Failed to unsuspend the server, try again later', 'error_code' => 'UNSUSPEND_FAILED'];
+        }
+
+        TrackedServer::renew((int) $tracked['id']);
+        if ($tracked['reclaim_state'] !== 'active') {
+            TrackedServer::transition((int) $tracked['id'], $tracked['reclaim_state'], 'active');
+        }
+
+        $renewed = TrackedServer::getById((int) $tracked['id']) ?? $tracked;
+
+        return ['server' => self::formatServer($renewed, self::resolvePolicy(self::ownerId($renewed))['policy'])];
+    }
+
+    /**
+     * Run a small reclamation pass unless one ran in the last minute. Meant for user requests.
+     * The same sweep moves on creation requests whose user stopped polling them.
+     *
+     * @return array{checked: int, warned: int, restored: int, suspended: int, deleted: int, gone: int}|null Null when skipped
+     */
+    public static function processIfDue(): ?array
+    {
+        if (time() - SettingsHelper::getLastReclamationRun() < self::PROCESS_INTERVAL_SECONDS) {
+            return null;
+        }
+
+        $startedAt = microtime(true);
+        $stats = self::process(self::LAZY_BATCH, self::LAZY_TIME_BUDGET_SECONDS);
+        $remaining = self::LAZY_TIME_BUDGET_SECONDS - (microtime(true) - $startedAt);
+        if ($remaining > 0) {
+            ServerProvisioningHelper::advanceStale(self::LAZY_BATCH, $remaining);
+        }
+
+        return $stats;
+    }
+
+    /**
+     * Move the least recently checked servers through warned, suspended and deleted.
+     *
+     * @param int $limit Most servers to look at
+     * @param float|null $timeBudget Seconds after which no further server is started (null = no budget)
+     *
+     * @return array{checked: int, warned: int, restored: int, suspended: int, deleted: int, gone: int} What this pass did
+     */
+    public static function process(int $limit = self::PROCESS_BATCH, ?float $timeBudget = null): array
+    {
+        $startedAt = microtime(true);
+        SettingsHelper::setLastReclamationRun(time());
+        $stats = ['checked' => 0, 'warned' => 0, 'restored' => 0, 'suspended' => 0, 'deleted' => 0, 'gone' => 0];
+        $policies = [];
+
+        foreach (TrackedServer::getForReclamation($limit) as $tracked) {
+            if ($timeBudget !== null && microtime(true) - $startedAt >= $timeBudget) {
+                break;
+            }
+
+            $trackedId = (int) $tracked['id'];
+            $userId = self::ownerId($tracked);
+            $policies[$userId] ??= self::resolvePolicy($userId)['policy'];
+
+            try {
+                $outcome = self::reclaim($tracked, $policies[$userId]);
+                if ($outcome !== null) {
+                    ++$stats[$outcome];
+                }
+            } catch (\Throwable $e) {
+                App::getInstance(true)->getLogger()->error('Failed to reclaim server ' . $tracked['server_id'] . ': ' . $e->getMessage());
+            }
+
+            TrackedServer::markChecked($trackedId);
+            ++$stats['checked'];
+        }
+
+        return $stats;
+    }
+
+    /**
+     * Parse group lifetime overrides from admin input. Only keys present in the input are returned; null or "" removes an override.
+     *
+     * @param array<string,mixed> $data Request data
+     *
+     * @return array{limits: array<string,int|null>, error: string|null}
+     */
+    public static function parseLifetimeInput(array $data): array
+    {
+        $limits = [];
+        foreach (Group::LIFETIME_FIELDS as $field) {
+            if (!array_key_exists($field, $data)) {
+                continue;
+            }
+            if ($data[$field] === null || $data[$field] === '') {
+                $limits[$field] = null;
+                continue;
+            }
+            if (!is_numeric($data[$field]) || (int) $data[$field] < 0) {
+                return ['limits' => [], 'error' => $field . ' must be 0 or greater, or null'];
+            }
+            $limits[$field] = (int) $data[$field];
+        }
+
+        return ['limits' => $limits, 'error' => null];
+    }
+
+    /**
+     * Move one server a step further.
+     *
+     * @param array<string,mixed> $tracked Tracked server
+     * @param array<string,int> $policy Resolved policy of the owner
+     *
+     * @return string|null Stats key of what happened, or null when nothing changed
+     */
+    private static function reclaim(array $tracked, array $policy): ?string
+    {
+        $trackedId = (int) $tracked['id'];
+        $state = $tracked['reclaim_state'];
+
+        $server = Server::getServerById((int) $tracked['server_id']);
+        if (!$server) {
+            return TrackedServer::transition($trackedId, $state, 'deleted') ? 'gone' : null;
+        }
+
+        $warningSeconds = $policy['reclaim_warning_days'] * self::DAY_SECONDS;
+
+        // A server that keeps running without anyone touching it in the panel is still used. Wings is only asked once
+        // the activity log alone would warn; suspended servers cannot be started, so only renewing counts for them
+        $idleLeft = $policy['inactivity_days'] * self::DAY_SECONDS - (int) $tracked['idle_seconds'];
+        if ($policy['inactivity_days'] > 0 && $state !== 'suspended' && $idleLeft <= $warningSeconds && self::isRunning($server)) {
+            TrackedServer::markActive($trackedId);
+            $tracked['idle_seconds'] = 0;
+        }
+
+        $status = self::describe($tracked, $policy);
+        $comfortable = $status['reason'] === null || $status['seconds_left'] > $warningSeconds;
+
+        switch ($state) {
+            case 'active':
+                if ($comfortable || !TrackedServer::transition($trackedId, 'active', 'warned', $status['reason'])) {
+                    return null;
+                }
+                self::notifyOwner($server, 'Your server ' . $server['name'] . ' will be suspended', sprintf(
+                    'Your server <strong>%s</strong> %s. It will be suspended in %s unless you renew it from My Free Servers.',
+                    htmlspecialchars((string) $server['name']),
+                    $status['reason'] === 'inactivity' ? 'has not been used for ' . $policy['inactivity_days'] . ' days' : 'reached the end of its lifetime',
+                    self::formatDays(max($status['seconds_left'], $warningSeconds))
+                ));
+
+                return 'warned';
+            case 'warned':
+                if ($comfortable) {
+                    return TrackedServer::transition($trackedId, 'warned', 'active') ? 'restored' : null;
+                }
+                if ($status['seconds_left'] > 0 || (int) $tracked['warned_seconds'] < $warningSeconds) {
+                    return null;
+                }
+                if (!self::setSuspended($server, true)) {
+                    return null;
+                }
+
+                if (!TrackedServer::transition($trackedId, 'warned', 'suspended')) {
+                    return null;
+                }
+                self::notifyOwner($server, 'Your server ' . $server['name'] . ' was suspended', sprintf(
+                    'Your server <strong>%s</strong> was suspended. It will be deleted in %s unless you renew it from My Free Servers.',
+                    htmlspecialchars((string) $server['name']),
+                    self::formatDays($policy['reclaim_deletion_days'] * self::DAY_SECONDS)
+                ));
+
+                return 'suspended';
+            case 'suspended':
+                // The policy no longer applies (e.g. the user joined a group without a lifetime)
+                if ($status['reason'] === null) {
+                    return self::setSuspended($server, false) && TrackedServer::transition($trackedId, 'suspended', 'active') ? 'restored' : null;
+                }
+                if ((int) $tracked['suspended_seconds'] < $policy['reclaim_deletion_days'] * self::DAY_SECONDS) {
+                    return null;
+                }
+                $owner = User::getUserById((int) $server['owner_id']);
+                if (!$owner || !ServerManagementHelper::deleteServer($server, $owner)) {
+                    return null;
+                }
+
+                return TrackedServer::transition($trackedId, 'suspended', 'deleted') ? 'deleted' : null;
+            default:
+                return null;
+        }
+    }
+
+    /**
+     * Whose policy applies to a tracked server: its current owner, or its creator once the server is gone.
+     *
+     * @param array<string,mixed> $tracked Tracked server
+     */
+    private static function ownerId(array $tracked): int
+    {
+        return (int) ($tracked['server_owner_id'] ?? $tracked['user_id']);
+    }
+
+    /**
+     * Whether Wings reports the server as running. Unreachable nodes count as not running.
+     *
+     * @param array<string,mixed> $server Server record
+     */
+    private static function isRunning(array $server): bool
+    {
+        $wings = ServerManagementHelper::wingsFor($server, self::STATE_TIMEOUT);
+        if ($wings === null) {
+            return false;
+        }
+
+        try {
+            $response = $wings->getServer()->getServer((string) $server['uuid']);
+        } catch (\Exception $e) {
+            return false;
+        }
+        if (!$response->isSuccessful()) {
+            return false;
+        }
+
+        return in_array($response->getData()['state'] ?? null, self::RUNNING_STATES, true);
+    }
+
+    /**
+     * Mail the owner of a server through the panel's mail queue. A failure is logged and does not stop reclamation.
+     *
+     * @param array<string,mixed> $server Server record
+     * @param string $subject Mail subject
+     * @param string $message HTML sentence(s) of the mail body
+     */
+    private static function notifyOwner(array $server, string $subject, string $message): void
+    {
+        $owner = User::getUserById((int) $server['owner_id']);
+        if (!$owner || empty($owner['uuid'])) {
+            return;
+        }
+
+        try {
+            $queueId = MailQueue::create([
+                'user_uuid' => $owner['uuid'],
+                'subject' => $subject,
+                'body' => '<p>Hi ' . htmlspecialchars((string) $owner['username']) . ',</p><p>' . $message . '</p>',
+            ]);
+            if ($queueId === false) {
+                throw new \RuntimeException('the mail queue rejected the message');
+            }
+            MailList::create(['queue_id' => $queueId, 'user_uuid' => $owner['uuid']]);
+        } catch (\Throwable $e) {
+            App::getInstance(true)->getLogger()->warning('Failed to mail the owner of server ' . $server['uuid'] . ': ' . $e->getMessage());
+        }
+    }
+
+    /**
+     * "3 days" / "1 day", rounded up.
+     */
+    private static function formatDays(int $seconds): string
+    {
+        $days = max(1, (int) ceil($seconds / self::DAY_SECONDS));
+
+        return $days . ($days === 1 ? ' day' : ' days');
+    }
+
+    /**
+     * Suspend or unsuspend a server in the panel and tell Wings to apply it.
+     *
+     * @param array<string,mixed> $server Server record
+     * @param bool $suspended Whether the server should be suspended
+     *
+     * @return bool False when the panel record could not be updated
+     */
+    private static function setSuspended(array $server, bool $suspended): bool
+    {
+        if (!Server::updateServerById((int) $server['id'], ['suspended' => $suspended ? 1 : 0])) {
+            return false;
+        }
+
+        // Wings picks the flag up on its next sync when the node is unreachable now
+        ServerManagementHelper::syncServer($server);
+
+        return true;
+    }
+}
@@ -0,0 +1,225 @@
+<?php
+
+/*
+ * This file is part of FeatherPanel.
+ *
+ * Copyright (C) 2025 MythicalSystems Studios
+ * Copyright (C) 2025 FeatherPanel Contributors
+ * Copyright (C) 2025 Cassian Gherman (aka NaysKutzu)
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * See the LICENSE file or <https://www.gnu.org/licenses/>.
+ */
+
+namespace App\Addons\billingresourcesnewservers\Helpers;
+
+use App\App;
+use App\Chat\Node;
+use App\Chat\Server;
+use App\Services\Wings\Wings;
+use App\Controllers\Admin\ServersController;
+use Symfony\Component\HttpFoundation\Request;
+
+/**
+ * Helper for changing servers after they were created: resizing them within the owner's pool and deleting them.
+ */
+class ServerManagementHelper
+{
+    /** Seconds to wait for Wings */
+    private const WINGS_TIMEOUT = 10;
+
+    /**
+     * Current resources of a server, keyed like the create form.
+     *
+     * @param array<string,mixed> $server Server record
+     *
+     * @return array<string,int>
+     */
+    public static function getResources(array $server): array
+    {
+        $resources = [];
+        foreach (SettingsHelper::RESOURCE_FIELD_KEYS as $field) {
+            $resources[$field] = (int) ($server[$field] ?? ($field === 'io' ? 500 : 0));
+        }
+
+        return $resources;
+    }
+
+    /**
+     * New resources of a server: the requested value of each field users may edit, the current value of the rest.
+     *
+     * @param array<string,mixed> $server Server record
+     * @param array<string,mixed> $data Request data
+     *
+     * @return array{resources: array<string,int>, error: string|null}
+     */
+    public static function resolveResize(array $server, array $data): array
+    {
+        $resources = self::getResources($server);
+        $policies = SettingsHelper::getResourceFieldPolicies();
+
+        foreach (SettingsHelper::RESOURCE_FIELD_KEYS as $field) {
+            if (!array_key_exists($field, $data) || ($policies[$field]['mode'] ?? 'user') !== 'user') {
+                continue;
+            }
+            if (!is_numeric($data[$field])) {
+                return ['resources' => [], 'error' => $field . ' must be a number'];
+            }
+            $resources[$field] = (int) $data[$field];
+        }
+
+        return ['resources' => $resources, 'error' => null];
+    }
+
+    /**
+     * Lowest and highest value the owner may resize each editable field to.
+     * The server-side checks stay authoritative; this only lets the form clamp its inputs.
+     *
+     * @param int $userId Owner of the server
+     * @param array<string,mixed> $server Server record
+     *
+     * @return array<string,array{min: int, max: int|null}> Editable fields only (null = no maximum)
+     */
+    public static function getResizeLimits(int $userId, array $server): array
+    {
+        $node = Node::getNodeById((int) ($server['node_id'] ?? 0));
+        $bounds = SettingsHelper::resolveResourceBounds($node ? (int) $node['id'] : 0, $node ? (int) ($node['location_id'] ?? 0) : 0);
+        $spellMinimums = SpellRequirementHelper::resolve((int) ($server['spell_id'] ?? 0), (int) ($server['realms_id'] ?? 0))['minimum'];
+        $available = ServerCreationHelper::getAvailableResourcesForServer($userId, $server);
+        $memoryQuota = QuotaHelper::resolveQuotas($userId)['limits']['max_memory_per_server'];
+        $policies = SettingsHelper::getResourceFieldPolicies();
+
+        $limits = [];
+        foreach (SettingsHelper::RESOURCE_FIELD_KEYS as $field) {
+            if (($policies[$field]['mode'] ?? 'user') !== 'user') {
+                continue;
+            }
+
+            $min = max($bounds[$field]['min'] ?? 0, $spellMinimums[$field] ?? 0);
+            $maxima = array_filter([
+                $bounds[$field]['max'] ?? null,
+                isset(ServerCreationHelper::POOL_KEYS[$field]) ? $available[ServerCreationHelper::POOL_KEYS[$field]] : null,
+                $field === 'memory' ? $memoryQuota : null,
+            ], static fn ($max) => $max !== null);
+
+            if ($field === 'io') {
+                $min = max($min, ServerCreationHelper::IO_WEIGHT_MIN);
+                $maxima[] = ServerCreationHelper::IO_WEIGHT_MAX;
+            }
+
+            $max = $maxima === [] ? null : (int) min($maxima);
+            // Unlimited swap (-1) passes every minimum but no maximum
+            $limits[$field] = ['min' => $field === 'swap' && $max === null ? -1 : $min, 'max' => $max];
+        }
+
+        return $limits;
+    }
+
+    /**
+     * Resize a server after running the resize checks, then push the new build to Wings.
+     *
+     * @param int $userId Owner of the server
+     * @param array<string,mixed> $server Server record
+     * @param array<string,mixed> $data Request data
+     *
+     * @return array{server: array<string,mixed>|null, errors: array<int,array<string,mixed>>, synced?: bool, error?: string, error_code?: string}
+     */
+    public static function resize(int $userId, array $server, array $data): array
+    {
+        $resolved = self::resolveResize($server, $data);
+        if ($resolved['error'] !== null) {
+            return ['server' => null, 'errors' => [], 'error' => $resolved['error'], 'error_code' => 'INVALID_RESOURCES'];
+        }
+        $resources = $resolved['resources'];
+
+        $errors = ServerCreationHelper::collectServerResizeErrors($userId, $server, $resources);
+        if (!empty($errors)) {
+            return ['server' => null, 'errors' => $errors, 'error' => $errors[0]['error'], 'error_code' => $errors[0]['error_code']];
+        }
+
+        // Stored the same way as on create: no allocation limit is null
+        $update = $resources;
+        $update['allocation_limit'] = $resources['allocation_limit'] > 0 ? $resources['allocation_limit'] : null;
+        if (!Server::updateServerById((int) $server['id'], $update)) {
+            return ['server' => null, 'errors' => [], 'error' => 'Failed to update the server', 'error_code' => 'RESIZE_FAILED'];
+        }
+
+        return [
+            'server' => Server::getServerById((int) $server['id']) ?? array_merge($server, $update),
+            'errors' => [],
+            'synced' => self::syncServer($server),
+        ];
+    }
+
+    /**
+     * Ask Wings to pull the configuration of a server from the panel (build, suspension).
+     *
+     * @param array<string,mixed> $server Server record
+     *
+     * @return bool False when the node could not be reached; Wings then picks the change up on its next sync
+     */
+    public static function syncServer(array $server): bool
+    {
+        try {
+            $response = self::wingsFor($server)?->getServer()->syncServer((string) $server['uuid']);
+        } catch (\Exception $e) {
+            App::getInstance(true)->getLogger()->warning('Failed to sync server ' . $server['uuid'] . ' with Wings: ' . $e->getMessage());
+
+            return false;
+        }
+
+        return $response !== null && $response->isSuccessful();
+    }
+
+    /**
+     * Delete a server through the panel's own server deletion, the same one the admin server list uses.
+     * It removes the server from Wings and cleans up everything attached to it (allocations, databases,
+     * backups, subusers, schedules) and fires the panel's server deleted event.
+     *
+     * @param array<string,mixed> $server Server record
+     * @param array<string,mixed> $actor User the deletion is done for (recorded by the panel's activity log)
+     *
+     * @return bool False when the panel could not delete the server
+     */
+    public static function deleteServer(array $server, array $actor): bool
+    {
+        $request = Request::create('/api/admin/servers/' . (int) $server['id'], 'DELETE');
+        $request->attributes->set('user', $actor);
+
+        try {
+            $response = (new ServersController())->delete($request, (int) $server['id']);
+        } catch (\Throwable $e) {
+            App::getInstance(true)->getLogger()->error('Failed to delete server ' . $server['uuid'] . ': ' . $e->getMessage());
+
+            return false;
+        }
+
+        if (!$response->isSuccessful()) {
+            App::getInstance(true)->getLogger()->error('The panel refused to delete server ' . $server['uuid'] . ' (HTTP ' . $response->getStatusCode() . '): ' . $response->getContent());
+
+            return false;
+        }
+
+        return true;
+    }
+
+    /**
+     * Wings client for the node of a server, or null when the node is gone.
+     *
+     * @param array<string,mixed> $server Server record
+     * @param int $timeout Seconds to wait for Wings
+     */
+    public static function wingsFor(array $server, int $timeout = self::WINGS_TIMEOUT): ?Wings
+    {
+        $node = Node::getNodeById((int) $server['node_id']);
+        if (!$node) {
+            return null;
+        }
+
+        return new Wings($node['fqdn'], $node['daemonListen'], $node['scheme'], $node['daemon_token'], $timeout);
+    }
+}
@@ -0,0 +1,407 @@
+<?php
+
+/*
+ * This file is part of FeatherPanel.
+ *
+ * Copyright (C) 2025 MythicalSystems Studios
+ * Copyright (C) 2025 FeatherPanel Contributors
+ * Copyright (C) 2025 Cassian Gherman (aka NaysKutzu)
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * See the LICENSE file or <https://www.gnu.org/licenses/>.
+ */
+
+namespace App\Addons\billingresourcesnewservers\Helpers;
+
+use App\Chat\User;
+use App\Chat\Realm;
+use App\Chat\Spell;
+use App\Chat\Database;
+
+/**
+ * Helper for the server naming policy.
+ *
+ * The policy limits name length and characters, blocks words in names and descriptions,
+ * can require names to be unique among a user's servers and can enforce a template.
+ * Templates mix literal text with placeholders:
+ *   {username}  the owner's username      {spell}  the selected spell
+ *   {realm}     the selected realm        {n}      a number (the lowest free one when generated)
+ *   {name}      free text typed by the user
+ * "{username}-{name}" enforces a prefix; "{username}-{spell}-{n}" leaves nothing to type.
+ * When a template is set, the character set only applies to the {name} part.
+ */
+class ServerNameHelper
+{
+    /** @var list<string> */
+    public const CHARSETS = ['any', 'alphanumeric', 'slug'];
+
+    /** @var list<string> */
+    public const TEMPLATE_PLACEHOLDERS = ['username', 'spell', 'realm', 'n', 'name'];
+
+    /** Longest name the panel stores */
+    public const NAME_MAX_LENGTH = 191;
+
+    /** Policy in effect until an admin saves one (description_max_length 0 = no limit) */
+    public const DEFAULT_POLICY = [
+        'min_length' => 1,
+        'max_length' => self::NAME_MAX_LENGTH,
+        'charset' => 'any',
+        'extra_characters' => '',
+        'banned_words' => [],
+        'unique_per_user' => false,
+        'template' => '',
+        'description_max_length' => 0,
+    ];
+
+    /** Used by "Generate name" when no template is enforced */
+    private const FALLBACK_TEMPLATE = '{spell}-{n}';
+
+    /** Replaces {name} when a name is generated */
+    private const GENERATED_NAME_PART = 'server';
+
+    /** Highest {n} tried before giving up on a free name */
+    private const MAX_COUNTER = 1000;
+
+    /**
+     * Validate and normalize a naming policy from a request payload.
+     *
+     * @param mixed $input Value of naming_policy in the payload
+     *
+     * @return array{policy: array<string,mixed>|null, error: string|null}
+     */
+    public static function parsePolicyInput(mixed $input): array
+    {
+        if (!is_array($input)) {
+            return ['policy' => null, 'error' => 'naming_policy must be an object'];
+        }
+        $policy = array_merge(self::DEFAULT_POLICY, array_intersect_key($input, self::DEFAULT_POLICY));
+
+        foreach (['min_length', 'max_length', 'description_max_length'] as $key) {
+            if (!is_numeric($policy[$key]) || (int) $policy[$key] < 0) {
+                return ['policy' => null, 'error' => 'naming_policy.' . $key . ' must be 0 or greater'];
+            }
+            $policy[$key] = (int) $policy[$key];
+        }
+        if ($policy['min_length'] < 1 || $policy['max_length'] > self::NAME_MAX_LENGTH || $policy['min_length'] > $policy['max_length']) {
+            return ['policy' => null, 'error' => 'naming_policy lengths must satisfy 1 <= min_length <= max_length <= ' . self::NAME_MAX_LENGTH];
+        }
+
+        if (!in_array($policy['charset'], self::CHARSETS, true)) {
+            return ['policy' => null, 'error' => 'naming_policy.charset must be one of ' . implode(', ', self::CHARSETS)];
+        }
+        if (!is_string($policy['extra_characters'])) {
+            return ['policy' => null, 'error' => 'naming_policy.extra_characters must be a string'];
+        }
+        $policy['extra_characters'] = implode('', array_unique(mb_str_split($policy['extra_characters'])));
+
+        if (!is_array($policy['banned_words'])) {
+            return ['policy' => null, 'error' => 'naming_policy.banned_words must be a list'];
+        }
+        $words = [];
+        foreach ($policy['banned_words'] as $word) {
+            if (!is_string($word)) {
+                return ['policy' => null, 'error' => 'naming_policy.banned_words must contain strings'];
+            }
+            $word = mb_strtolower(trim($word));
+            if ($word !== '') {
+                $words[] = $word;
+            }
+        }
+        $policy['banned_words'] = array_values(array_unique($words));
+
+        if (!is_bool($policy['unique_per_user'])) {
+            return ['policy' => null, 'error' => 'naming_policy.unique_per_user must be true or false'];
+        }
+
+        if (!is_string($policy['template'])) {
+            return ['policy' => null, 'error' => 'naming_policy.template must be a string'];
+        }
+        $policy['template'] = trim($policy['template']);
+        $templateError = self::validateTemplate($policy['template']);
+        if ($templateError !== null) {
+            return ['policy' => null, 'error' => 'naming_policy.template: ' . $templateError];
+        }
+
+        return ['policy' => $policy, 'error' => null];
+    }
+
+    /**
+     * Check the name and description of a create payload against the naming policy.
+     *
+     * @param int $userId Owner of the new server
+     * @param array<string,mixed> $serverData Server creation data
+     *
+     * @return array<int,array{field: string, error: string, error_code: string}> At most one error per field
+     */
+    public static function check(int $userId, array $serverData): array
+    {
+        $policy = SettingsHelper::getNamingPolicy();
+        $errors = [];
+
+        if (isset($serverData['name'])) {
+            $nameError = self::checkName($userId, $serverData, $policy);
+            if ($nameError !== null) {
+                $errors[] = ['field' => 'name', 'error' => $nameError, 'error_code' => 'INVALID_SERVER_NAME'];
+            }
+        }
+
+        $description = isset($serverData['description']) && is_string($serverData['description']) ? $serverData['description'] : '';
+        if ($description !== '') {
+            $descriptionError = null;
+            if ($policy['description_max_length'] > 0 && mb_strlen($description) > $policy['description_max_length']) {
+                $descriptionError = 'Description must be at most ' . $policy['description_max_length'] . ' characters';
+            } elseif (self::findBannedWord($description, $policy['banned_words']) !== null) {
+                $descriptionError = 'Description contains a word that is not allowed';
+            }
+            if ($descriptionError !== null) {
+                $errors[] = ['field' => 'description', 'error' => $descriptionError, 'error_code' => 'INVALID_SERVER_DESCRIPTION'];
+            }
+        }
+
+        return $errors;
+    }
+
+    /**
+     * Generate a name that satisfies the template (or "{spell}-{n}" without one) and is not used by the user yet.
+     *
+     * @param int $userId Owner of the new server
+     * @param int $spellId Selected spell (0 = none)
+     * @param int $realmId Selected realm (0 = none)
+     *
+     * @return array{name: string|null, error: string|null}
+     */
+    public static function generate(int $userId, int $spellId, int $realmId): array
+    {
+        $policy = SettingsHelper::getNamingPolicy();
+        $template = $policy['template'] !== '' ? $policy['template'] : self::FALLBACK_TEMPLATE;
+
+        $values = self::placeholderValues($userId, $spellId, $realmId);
+        foreach (['spell', 'realm'] as $placeholder) {
+            if (str_contains($template, '{' . $placeholder . '}') && $values[$placeholder] === null) {
+                return ['name' => null, 'error' => 'Select a ' . $placeholder . ' first'];
+            }
+        }
+        $values['name'] = self::GENERATED_NAME_PART;
+
+        $usesCounter = str_contains($template, '{n}');
+        for ($n = 1; $n <= ($usesCounter ? self::MAX_COUNTER : 1); ++$n) {
+            $values['n'] = (string) $n;
+            $name = mb_substr(self::fillTemplate($template, $values), 0, $policy['max_length']);
+            if (!self::isNameTaken($userId, $name)) {
+                return ['name' => $name, 'error' => null];
+            }
+        }
+
+        return ['name' => null, 'error' => 'Could not find a free name'];
+    }
+
+    /**
+     * The policy as shown to users on the create form (banned words stay private).
+     *
+     * @return array<string,mixed>
+     */
+    public static function getPublicPolicy(): array
+    {
+        $policy = SettingsHelper::getNamingPolicy();
+        unset($policy['banned_words']);
+
+        return $policy;
+    }
+
+    /**
+     * First failing name rule, or null when the name is fine.
+     *
+     * @param array<string,mixed> $serverData Server creation data
+     * @param array<string,mixed> $policy Naming policy
+     */
+    private static function checkName(int $userId, array $serverData, array $policy): ?string
+    {
+        $name = is_string($serverData['name']) ? $serverData['name'] : '';
+        if ($name !== trim($name)) {
+            return 'Server name cannot start or end with spaces';
+        }
+
+        $length = mb_strlen($name);
+        if ($length < $policy['min_length'] || $length > $policy['max_length']) {
+            return $policy['min_length'] === $policy['max_length']
+                ? 'Server name must be exactly ' . $policy['min_length'] . ' characters'
+                : 'Server name must be between ' . $policy['min_length'] . ' and ' . $policy['max_length'] . ' characters';
+        }
+
+        // With a template only the free {name} part is subject to the character set
+        $freeText = $name;
+        if ($policy['template'] !== '') {
+            $values = self::placeholderValues($userId, (int) ($serverData['spell_id'] ?? 0), (int) ($serverData['realms_id'] ?? 0));
+            $pattern = self::templatePattern($policy['template'], $values);
+            if ($pattern !== null) {
+                if (!preg_match($pattern, $name, $matches)) {
+                    return 'Server name must follow the pattern ' . self::describeTemplate($policy['template'], $values);
+                }
+                $freeText = $matches['name'] ?? '';
+            }
+        }
+
+        if ($freeText !== '' && !self::matchesCharset($freeText, $policy['charset'], $policy['extra_characters'])) {
+            return 'Server name may only contain ' . self::describeCharset($policy['charset'], $policy['extra_characters']);
+        }
+
+        if (self::findBannedWord($name, $policy['banned_words']) !== null) {
+            return 'Server name contains a word that is not allowed';
+        }
+
+        if ($policy['unique_per_user'] && self::isNameTaken($userId, $name)) {
+            return 'You already have a server with this name';
+        }
+
+        return null;
+    }
+
+    /**
+     * @return string|null Error, or null when the template is empty or valid
+     */
+    private static function validateTemplate(string $template): ?string
+    {
+        if ($template === '') {
+            return null;
+        }
+        preg_match_all('/\{([^{}]*)\}/', $template, $matches);
+        foreach ($matches[1] as $placeholder) {
+            if (!in_array($placeholder, self::TEMPLATE_PLACEHOLDERS, true)) {
+                return 'unknown placeholder {' . $placeholder . '}, use ' . implode(', ', array_map(fn (string $p) => '{' . $p . '}', self::TEMPLATE_PLACEHOLDERS));
+            }
+        }
+        $counts = array_count_values($matches[1]);
+        if (($counts['name'] ?? 0) > 1 || ($counts['n'] ?? 0) > 1) {
+            return '{name} and {n} may each appear only once';
+        }
+        if (mb_strlen($template) > self::NAME_MAX_LENGTH) {
+            return 'must be at most ' . self::NAME_MAX_LENGTH . ' characters';
+        }
+
+        return null;
+    }
+
+    /**
+     * Slugged values for {username}, {spell} and {realm} (null when not selected).
+     *
+     * @return array<string, string|null>
+     */
+    private static function placeholderValues(int $userId, int $spellId, int $realmId): array
+    {
+        $user = User::getUserById($userId);
+        $spell = $spellId > 0 ? Spell::getSpellById($spellId) : null;
+        $realm = $realmId > 0 ? Realm::getById($realmId) : null;
+
+        return [
+            'username' => self::slug((string) ($user['username'] ?? 'user')),
+            'spell' => $spell ? self::slug((string) $spell['name']) : null,
+            'realm' => $realm ? self::slug((string) $realm['name']) : null,
+        ];
+    }
+
+    /**
+     * Regex for names following a template, or null when a placeholder value is unknown
+     * (the missing spell or realm is reported on its own field).
+     *
+     * @param array<string, string|null> $values Placeholder values
+     */
+    private static function templatePattern(string $template, array $values): ?string
+    {
+        $pattern = '';
+        foreach (preg_split('/(\{[a-z]+\})/', $template, -1, PREG_SPLIT_DELIM_CAPTURE | PREG_SPLIT_NO_EMPTY) as $part) {
+            if ($part === '{n}') {
+                $pattern .= '\d+';
+            } elseif ($part === '{name}') {
+                $pattern .= '(?<name>.+)';
+            } elseif (in_array($part, ['{username}', '{spell}', '{realm}'], true)) {
+                $value = $values[trim($part, '{}')];
+                if ($value === null) {
+                    return null;
+                }
+                $pattern .= preg_quote($value, '/');
+            } else {
+                $pattern .= preg_quote($part, '/');
+            }
+        }
+
+        return '/^' . $pattern . '$/iu';
+    }
+
+    /**
+     * The template with known values filled in, for error messages.
+     *
+     * @param array<string, string|null> $values Placeholder values
+     */
+    private static function describeTemplate(string $template, array $values): string
+    {
+        return self::fillTemplate($template, array_merge(array_filter($values, fn ($value) => $value !== null), ['n' => '<number>', 'name' => '<your text>']));
+    }
+
+    /**
+     * @param array<string, string|null> $values Placeholder values
+     */
+    private static function fillTemplate(string $template, array $values): string
+    {
+        return preg_replace_callback('/\{([a-z]+)\}/', fn (array $m) => (string) ($values[$m[1]] ?? $m[0]), $template);
+    }
+
+    private static function matchesCharset(string $text, string $charset, string $extraCharacters): bool
+    {
+        $class = match ($charset) {
+            'alphanumeric' => '\p{L}\p{N} ',
+            'slug' => 'a-zA-Z0-9_.\-',
+            default => null,
+        };
+        if ($class === null) {
+            return true;
+        }
+
+        return preg_match('/^[' . $class . preg_quote($extraCharacters, '/') . ']+$/u', $text) === 1;
+    }
+
+    private static function describeCharset(string $charset, string $extraCharacters): string
+    {
+        $description = $charset === 'slug' ? 'letters a-z, digits, "-", "_" and "."' : 'letters, digits and spaces';
+
+        return $extraCharacters !== '' ? $description . ' plus ' . $extraCharacters : $description;
+    }
+
+    /**
+     * @param list<string> $bannedWords Lower-case words
+     *
+     * @return string|null The first banned word contained in the text
+     */
+    private static function findBannedWord(string $text, array $bannedWords): ?string
+    {
+        $text = mb_strtolower($text);
+        foreach ($bannedWords as $word) {
+            if (str_contains($text, $word)) {
+                return $word;
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Whether the user already owns a server with this name (case-insensitive).
+     */
+    private static function isNameTaken(int $userId, string $name): bool
+    {
+        $stmt = Database::getPdoConnection()->prepare('SELECT 1 FROM featherpanel_servers WHERE owner_id = :owner_id AND LOWER(name) = LOWER(:name) LIMIT 1');
+        $stmt->execute(['owner_id' => $userId, 'name' => $name]);
+
+        return $stmt->fetchColumn() !== false;
+    }
+
+    private static function slug(string $value): string
+    {
+        $slug = trim((string) preg_replace('/[^a-z0-9]+/', '-', strtolower($value)), '-');
+
+        return $slug !== '' ? $slug : 'server';
+    }
+}
@@ -0,0 +1,691 @@
+<?php
+
+/*
+ * This file is part of FeatherPanel.
+ *
+ * Copyright (C) 2025 MythicalSystems Studios
+ * Copyright (C) 2025 FeatherPanel Contributors
+ * Copyright (C) 2025 Cassian Gherman (aka NaysKutzu)
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * See the LICENSE file or <https://www.gnu.org/licenses/>.
+ */
+
+namespace App\Addons\billingresourcesnewservers\Helpers;
+
+use App\App;
+use App\Chat\Node;
+use App\Chat\Server;
+use App\Chat\Allocation;
+use App\Helpers\UUIDUtils;
+use App\Chat\ServerVariable;
+use App\Services\Wings\Wings;
+use App\CloudFlare\CloudFlareRealIP;
+use App\Addons\billingresourcesnewservers\Chat\CreationAudit;
+use App\Addons\billingresourcesnewservers\Chat\CreationRequest;
+
+/**
+ * Helper that drives a creation request through the provisioning pipeline:
+ * queued -> db_created -> wings_pending -> installing -> done (or failed at any step).
+ *
+ * Each call runs at most one slow step, so the create request returns quickly and
+ * status polls move the request forward. Requests nobody polls any more are moved on by
+ * the lazy sweep of other users' requests (advanceStale), one step per sweep.
+ *
+ * Every change made along the way (server record, allocation claim, Wings server) is
+ * recorded on the request and undone in reverse order when a step fails for good.
+ * Server variables are not tracked separately: they are deleted with the server record.
+ *
+ * Each attempt (first run and every retry) has an audit entry that is closed when the
+ * request reaches done or failed, and the requested/succeeded/failed milestones are
+ * announced through CreationEventHelper.
+ */
+class ServerProvisioningHelper
+{
+    /** Seconds to wait for Wings when creating the server */
+    public const WINGS_TIMEOUT = 30;
+
+    /** A request stuck in wings_pending for longer than this (e.g. the PHP worker died) is failed so it can be retried */
+    public const WINGS_STALE_AFTER = 120;
+
+    /** Maximum number of attempts (first run + retries) per request */
+    public const MAX_ATTEMPTS = 5;
+
+    /** A request that did not move for this long has lost its poller (e.g. the tab was closed) and is advanced by advanceStale */
+    public const ABANDONED_AFTER = 60;
+
+    /**
+     * Validate a create payload and start provisioning it: queue a creation request and run the database step.
+     * Rejected and accepted attempts are both audited.
+     *
+     * @param int $userId User ID
+     * @param array<string,mixed> $data Create payload (policies already applied)
+     * @param float $startedAt microtime(true) when handling of the attempt began
+     * @param string|null $ipAddress Client IP for the audit log (null when not started by the user)
+     * @param array{source?: string, approval_request_id?: int} $auditContext Where the attempt came from, recorded in the audit log
+     *
+     * @return array{request: array<string,mixed>|null, error?: string, error_code?: string, retry_after?: int}
+     *                                                   request is null when validation rejected the payload or the request could not be queued
+     */
+    public static function start(int $userId, array $data, float $startedAt, ?string $ipAddress, array $auditContext = []): array
+    {
+        $validation = ServerCreationHelper::validateServerCreation($userId, $data);
+        if (!$validation['valid']) {
+            CreationAudit::create($userId, $data, $auditContext + [
+                'outcome' => 'rejected',
+                'error_code' => $validation['error_code'] ?? 'VALIDATION_FAILED',
+                'error_message' => $validation['error'],
+                'duration_ms' => (int) round((microtime(true) - $startedAt) * 1000),
+                'ip_address' => $ipAddress,
+            ]);
+
+            $rejected = ['request' => null, 'error' => $validation['error'], 'error_code' => $validation['error_code'] ?? 'VALIDATION_FAILED'];
+            if (isset($validation['retry_after'])) {
+                $rejected['retry_after'] = $validation['retry_after'];
+            }
+
+            return $rejected;
+        }
+
+        $requestId = CreationRequest::create($userId, $data);
+        if ($requestId === false) {
+            App::getInstance(true)->getLogger()->error('Failed to queue server creation for user ID: ' . $userId);
+
+            return ['request' => null, 'error' => 'Failed to create server', 'error_code' => 'CREATE_SERVER_FAILED'];
+        }
+        CreationAudit::create($userId, $data, $auditContext + [
+            'creation_request_id' => $requestId,
+            'ip_address' => $ipAddress,
+        ]);
+
+        $request = CreationRequest::getById($requestId) ?? [];
+        if (!empty($request)) {
+            CreationEventHelper::emit(CreationEventHelper::EVENT_REQUESTED, $request);
+        }
+
+        // The database step is fast and runs right away; Wings is contacted by the status polls
+        return ['request' => self::runDatabaseStage($request)];
+    }
+
+    /**
+     * Run the database step: re-validate, pick an allocation, insert the server and its variables.
+     *
+     * @param array<string,mixed> $request Creation request in the queued state
+     *
+     * @return array<string,mixed> Updated creation request
+     */
+    public static function runDatabaseStage(array $request): array
+    {
+        $requestId = (int) $request['id'];
+        $userId = (int) $request['user_id'];
+        $data = $request['payload'];
+
+        $validation = ServerCreationHelper::validateServerCreation($userId, $data, $requestId);
+        if (!$validation['valid']) {
+            return self::fail($requestId, 'queued', $validation['error'], $validation['error_code'] ?? 'VALIDATION_FAILED');
+        }
+
+        $serverId = null;
+
+        try {
+            $nodeId = (int) $data['node_id'];
+
+            // Pick the primary allocation according to the allocation mode (random, user-picked or port range)
+            $allocationSelection = ServerCreationHelper::selectAllocation($nodeId, $data);
+            if ($allocationSelection['allocation_id'] === null) {
+                return self::fail(
+                    $requestId,
+                    'queued',
+                    $allocationSelection['error'] ?? 'No free allocations available on this node',
+                    $allocationSelection['error_code'] ?? 'NO_FREE_ALLOCATIONS'
+                );
+            }
+            $allocationId = $allocationSelection['allocation_id'];
+
+            // Resolve spell variables: user values for editable variables, defaults for the rest
+            $providedVariables = isset($data['variables']) && is_array($data['variables']) ? $data['variables'] : [];
+            $variableResolution = ServerCreationHelper::resolveSpellVariables((int) $data['spell_id'], $providedVariables);
+            if (!$variableResolution['valid']) {
+                return self::fail($requestId, 'queued', $variableResolution['error'], $variableResolution['error_code']);
+            }
+            $variablesToCreate = $variableResolution['variables'];
+
+            $serverData = [
+                'uuid' => UUIDUtils::generateV4(),
+                'uuidShort' => substr(str_replace('-', '', UUIDUtils::generateV4()), 0, 8),
+                'node_id' => $nodeId,
+                'name' => $data['name'],
+                'owner_id' => $userId,
+                'memory' => (int) $data['memory'],
+                'swap' => isset($data['swap']) ? (int) $data['swap'] : 0,
+                'disk' => (int) $data['disk'],
+                'io' => isset($data['io']) ? (int) $data['io'] : 500,
+                'cpu' => (int) $data['cpu'],
+                'allocation_id' => $allocationId,
+                'realms_id' => (int) $data['realms_id'],
+                'spell_id' => (int) $data['spell_id'],
+                'startup' => $data['startup'] ?? '',
+                'image' => $data['image'] ?? '',
+                'description' => $data['description'] ?? null,
+                'status' => 'installing',
+                'skip_scripts' => 0,
+                'oom_disabled' => 0,
+                'allocation_limit' => isset($data['allocation_limit']) ? ((int) $data['allocation_limit'] > 0 ? (int) $data['allocation_limit'] : null) : null,
+                'database_limit' => isset($data['database_limit']) ? (int) $data['database_limit'] : 0,
+                'backup_limit' => isset($data['backup_limit']) ? (int) $data['backup_limit'] : 0,
+            ];
+
+            $serverId = Server::createServer($serverData);
+            if (!$serverId) {
+                App::getInstance(true)->getLogger()->error('Failed to create server for user ID: ' . $userId);
+
+                return self::fail($requestId, 'queued', 'Failed to create server', 'CREATE_SERVER_FAILED');
+            }
+
+            CreationRequest::update($requestId, ['server_id' => $serverId, 'server_uuid' => $serverData['uuid']]);
+            CreationRequest::addSideEffect($requestId, 'server', $serverId);
+
+            // Claim the allocation
+            if (!Allocation::assignToServer($allocationId, $serverId)) {
+                App::getInstance(true)->getLogger()->error('Failed to claim allocation for server ID: ' . $serverId);
+
+                return self::failAndRollback($requestId, 'queued', 'Failed to claim the allocation for the server', 'ALLOCATION_CLAIM_FAILED');
+            }
+            CreationRequest::addSideEffect($requestId, 'allocation', $allocationId);
+
+            if (!empty($variablesToCreate) && !ServerVariable::createOrUpdateServerVariables($serverId, $variablesToCreate)) {
+                App::getInstance(true)->getLogger()->error('Failed to create server variables for server ID: ' . $serverId);
+
+                return self::failAndRollback($requestId, 'queued', 'Failed to save the server startup variables', 'VARIABLES_CREATE_FAILED');
+            }
+
+            CreationRequest::update($requestId, [
+                'state' => 'db_created',
+                'error_message' => null,
+                'error_code' => null,
+            ]);
+        } catch (\Exception $e) {
+            App::getInstance(true)->getLogger()->error('Failed to create server: ' . $e->getMessage());
+
+            if ($serverId) {
+                return self::failAndRollback($requestId, 'queued', 'Failed to create server: ' . $e->getMessage(), 'CREATE_SERVER_FAILED');
+            }
+
+            return self::fail($requestId, 'queued', 'Failed to create server: ' . $e->getMessage(), 'CREATE_SERVER_FAILED');
+        }
+
+        return CreationRequest::getById($requestId) ?? $request;
+    }
+
+    /**
+     * Run the Wings step: ask the node daemon to create the server.
+     * The request is claimed atomically, so concurrent polls never call Wings twice.
+     *
+     * @param array<string,mixed> $request Creation request in the db_created state
+     *
+     * @return array<string,mixed> Updated creation request
+     */
+    public static function runWingsStage(array $request): array
+    {
+        $requestId = (int) $request['id'];
+        if (!CreationRequest::transition($requestId, 'db_created', 'wings_pending')) {
+            return CreationRequest::getById($requestId) ?? $request;
+        }
+
+        $server = Server::getServerById((int) $request['server_id']);
+        if (!$server) {
+            return self::failAndRollback($requestId, 'wings_pending', 'The server record no longer exists', 'SERVER_NOT_FOUND');
+        }
+
+        $nodeInfo = Node::getNodeById((int) $server['node_id']);
+        if (!$nodeInfo) {
+            return self::failAndRollback($requestId, 'wings_pending', 'Node not found', 'NODE_NOT_FOUND');
+        }
+
+        try {
+            $wings = new Wings(
+                $nodeInfo['fqdn'],
+                $nodeInfo['daemonListen'],
+                $nodeInfo['scheme'],
+                $nodeInfo['daemon_token'],
+                self::WINGS_TIMEOUT
+            );
+
+            $response = $wings->getServer()->createServer([
+                'uuid' => $server['uuid'],
+                'start_on_completion' => true,
+            ]);
+            CreationAudit::setWingsStatus($requestId, $response->getStatusCode());
+
+            // 409: an earlier attempt reached Wings but its response was lost
+            if (!$response->isSuccessful() && $response->getStatusCode() !== 409) {
+                $error = $response->getError();
+
+                // Rejected requests will not succeed on retry, so undo everything right away
+                return match ($response->getStatusCode()) {
+                    400 => self::failAndRollback($requestId, 'wings_pending', 'Invalid server configuration: ' . $error, 'INVALID_SERVER_CONFIG'),
+                    401 => self::failAndRollback($requestId, 'wings_pending', 'Unauthorized access to Wings daemon', 'WINGS_UNAUTHORIZED'),
+                    403 => self::failAndRollback($requestId, 'wings_pending', 'Forbidden access to Wings daemon', 'WINGS_FORBIDDEN'),
+                    422 => self::failAndRollback($requestId, 'wings_pending', 'Invalid server data: ' . $error, 'INVALID_SERVER_DATA'),
+                    default => self::failTransient($request, 'Failed to create server in Wings: ' . $error, 'WINGS_ERROR'),
+                };
+            }
+        } catch (\Exception $e) {
+            App::getInstance(true)->getLogger()->error('Failed to create server in Wings: ' . $e->getMessage());
+
+            return self::failTransient($request, 'Failed to create server in Wings: ' . $e->getMessage(), 'FAILED_TO_CREATE_SERVER_IN_WINGS');
+        }
+
+        CreationRequest::addSideEffect($requestId, 'wings', $server['uuid']);
+        CreationRequest::transition($requestId, 'wings_pending', 'installing');
+
+        return CreationRequest::getById($requestId) ?? $request;
+    }
+
+    /**
+     * Check whether the server finished installing.
+     *
+     * @param array<string,mixed> $request Creation request in the installing state
+     *
+     * @return array<string,mixed> Updated creation request
+     */
+    public static function refreshInstallState(array $request): array
+    {
+        $requestId = (int) $request['id'];
+        $server = Server::getServerById((int) $request['server_id']);
+        if (!$server) {
+            return self::fail($requestId, 'installing', 'The server was deleted before it finished installing', 'SERVER_NOT_FOUND');
+        }
+
+        $status = $server['status'] ?? null;
+        if ($status === 'installing') {
+            return $request;
+        }
+
+        if ($status === 'install_failed') {
+            return self::fail($requestId, 'installing', 'The server install script failed. Check the server console for details.', 'INSTALL_FAILED');
+        }
+
+        if (CreationRequest::transition($requestId, 'installing', 'done')) {
+            CreationAudit::finish($requestId, 'succeeded', (int) $request['server_id']);
+            $done = CreationRequest::getById($requestId) ?? $request;
+            ServerLifetimeHelper::track($done);
+            CreationEventHelper::emit(CreationEventHelper::EVENT_SUCCEEDED, $done);
+
+            return $done;
+        }
+
+        return CreationRequest::getById($requestId) ?? $request;
+    }
+
+    /**
+     * Move a request forward by at most one step.
+     *
+     * @param array<string,mixed> $request Creation request
+     *
+     * @return array<string,mixed> Updated creation request
+     */
+    public static function advance(array $request): array
+    {
+        $requestId = (int) $request['id'];
+
+        switch ($request['state']) {
+            case 'queued':
+                // Only reached when a previous run died before finishing the database step
+                if (CreationRequest::failIfStale($requestId, 'queued', self::WINGS_STALE_AFTER, 'Server creation was interrupted', 'CREATION_INTERRUPTED')) {
+                    CreationAudit::finish($requestId, 'failed', null, 'CREATION_INTERRUPTED', 'Server creation was interrupted');
+                    // Whatever the interrupted run managed to create is undone
+                    self::rollback($requestId);
+
+                    return self::announceFailure($requestId) ?? $request;
+                }
+
+                return $request;
+            case 'db_created':
+                return self::runWingsStage($request);
+            case 'wings_pending':
+                if (CreationRequest::failIfStale($requestId, 'wings_pending', self::WINGS_STALE_AFTER, 'The node did not respond in time', 'WINGS_TIMEOUT')) {
+                    CreationAudit::finish($requestId, 'failed', null, 'WINGS_TIMEOUT', 'The node did not respond in time');
+                    if ((int) $request['attempts'] >= self::MAX_ATTEMPTS) {
+                        self::rollback($requestId);
+                    }
+
+                    return self::announceFailure($requestId) ?? $request;
+                }
+
+                return $request;
+            case 'installing':
+                return self::refreshInstallState($request);
+            default:
+                return $request;
+        }
+    }
+
+    /**
+     * Move requests whose user stopped polling forward by one step, so a server record and allocation
+     * claim do not stay without a Wings server until the user comes back.
+     *
+     * @param int $limit Most requests to advance
+     * @param float|null $timeBudget Seconds after which no further request is started (null = no budget)
+     *
+     * @return int Number of requests looked at
+     */
+    public static function advanceStale(int $limit, ?float $timeBudget = null): int
+    {
+        $startedAt = microtime(true);
+        $advanced = 0;
+
+        foreach (CreationRequest::getStale(self::ABANDONED_AFTER, $limit) as $request) {
+            if ($timeBudget !== null && microtime(true) - $startedAt >= $timeBudget) {
+                break;
+            }
+
+            try {
+                self::advance($request);
+                ++$advanced;
+            } catch (\Throwable $e) {
+                App::getInstance(true)->getLogger()->error('Failed to advance creation request ' . $request['id'] . ': ' . $e->getMessage());
+            }
+        }
+
+        return $advanced;
+    }
+
+    /**
+     * Whether a failed request can be retried.
+     * Rolled back requests re-run from scratch; transient Wings failures reuse the existing server.
+     *
+     * @param array<string,mixed> $request Creation request
+     */
+    public static function isRetryable(array $request): bool
+    {
+        if ($request['state'] !== 'failed' || (int) $request['attempts'] >= self::MAX_ATTEMPTS) {
+            return false;
+        }
+
+        return in_array($request['failed_state'], ['queued', 'db_created', 'wings_pending'], true);
+    }
+
+    /**
+     * Retry a failed request from the step that failed.
+     *
+     * @param array<string,mixed> $request Failed creation request
+     *
+     * @return array{request?: array<string,mixed>, error?: string, error_code?: string}
+     */
+    public static function retry(array $request): array
+    {
+        if ($request['state'] !== 'failed') {
+            return ['error' => 'Only failed requests can be retried', 'error_code' => 'REQUEST_NOT_FAILED'];
+        }
+
+        if (!self::isRetryable($request)) {
+            return ['error' => 'This request cannot be retried', 'error_code' => 'RETRY_NOT_AVAILABLE'];
+        }
+
+        $requestId = (int) $request['id'];
+        $resumeState = $request['server_id'] !== null ? 'db_created' : 'queued';
+        if (!CreationRequest::transition($requestId, 'failed', $resumeState)) {
+            return ['error' => 'This request is already being retried', 'error_code' => 'RETRY_IN_PROGRESS'];
+        }
+
+        CreationRequest::update($requestId, [
+            'failed_state' => null,
+            'rollback' => null,
+            'error_message' => null,
+            'error_code' => null,
+            'attempts' => (int) $request['attempts'] + 1,
+        ]);
+        CreationAudit::create((int) $request['user_id'], $request['payload'], [
+            'creation_request_id' => $requestId,
+            'attempt' => (int) $request['attempts'] + 1,
+            'ip_address' => CloudFlareRealIP::getRealIP(),
+        ]);
+
+        $request = CreationRequest::getById($requestId) ?? $request;
+
+        // Without a server record the database step runs again right away; Wings runs on the next poll
+        return ['request' => $resumeState === 'queued' ? self::runDatabaseStage($request) : $request];
+    }
+
+    /**
+     * Give up on a failed request and undo everything it changed.
+     *
+     * @param array<string,mixed> $request Failed creation request
+     *
+     * @return array{request?: array<string,mixed>, rollback?: array{complete: bool, steps: list<array<string,mixed>>}, error?: string, error_code?: string}
+     */
+    public static function cancel(array $request): array
+    {
+        if ($request['state'] !== 'failed') {
+            return ['error' => 'Only failed requests can be cancelled', 'error_code' => 'REQUEST_NOT_FAILED'];
+        }
+
+        $requestId = (int) $request['id'];
+        $rollback = self::rollback($requestId);
+        CreationRequest::update($requestId, ['attempts' => self::MAX_ATTEMPTS]);
+
+        return [
+            'request' => CreationRequest::getById($requestId) ?? $request,
+            'rollback' => $rollback,
+        ];
+    }
+
+    /**
+     * Undo the recorded side effects of a request in reverse order.
+     * Side effects that cannot be undone stay recorded so a later rollback can try again.
+     *
+     * @param int $requestId Request ID
+     *
+     * @return array{complete: bool, steps: list<array{type: string, resource_id: int|string, status: string, error: string|null}>} Rollback report
+     */
+    public static function rollback(int $requestId): array
+    {
+        $request = CreationRequest::getById($requestId);
+        if ($request === null) {
+            return ['complete' => true, 'steps' => []];
+        }
+
+        $undone = self::undoInReverse($request['side_effects'], fn (array $effect) => self::undoSideEffect($effect, $request));
+        foreach ($undone['steps'] as $step) {
+            if ($step['error'] !== null) {
+                App::getInstance(true)->getLogger()->error('Rollback of creation request ' . $requestId . ' could not undo ' . $step['type'] . ' ' . $step['resource_id'] . ': ' . $step['error']);
+            }
+        }
+
+        $remaining = $undone['remaining'];
+        $report = ['complete' => empty($remaining), 'steps' => $undone['steps']];
+        $update = [
+            'side_effects' => empty($remaining) ? null : $remaining,
+            'rollback' => $report,
+        ];
+
+        $serverRemains = false;
+        foreach ($remaining as $effect) {
+            $serverRemains = $serverRemains || $effect['type'] === 'server';
+        }
+        if (!$serverRemains) {
+            $update['server_id'] = null;
+            $update['server_uuid'] = null;
+        }
+
+        CreationRequest::update($requestId, $update);
+
+        return $report;
+    }
+
+    /**
+     * Undo side effects newest first, so nothing is removed while something created after it still exists
+     * (the Wings server before its allocations, the allocations before the server record).
+     * Side effects that could not be undone are returned in remaining, oldest first.
+     *
+     * @param list<array{type: string, resource_id: int|string}> $sideEffects Recorded side effects, oldest first
+     * @param callable(array<string,mixed>): ?string $undo Undoes one side effect; returns an error message, or null when it is gone
+     *
+     * @return array{steps: list<array{type: string, resource_id: int|string, status: string, error: string|null}>, remaining: list<array<string,mixed>>}
+     */
+    public static function undoInReverse(array $sideEffects, callable $undo): array
+    {
+        $steps = [];
+        $remaining = [];
+        foreach (array_reverse($sideEffects) as $effect) {
+            $error = $undo($effect);
+            $steps[] = [
+                'type' => (string) $effect['type'],
+                'resource_id' => $effect['resource_id'],
+                'status' => $error === null ? 'undone' : 'failed',
+                'error' => $error,
+            ];
+            if ($error !== null) {
+                $remaining[] = $effect;
+            }
+        }
+
+        return ['steps' => $steps, 'remaining' => array_reverse($remaining)];
+    }
+
+    /**
+     * Shape a creation request for API responses (payload stays private).
+     *
+     * @param array<string,mixed> $request Creation request
+     *
+     * @return array<string,mixed> Public request data
+     */
+    public static function formatRequest(array $request): array
+    {
+        return [
+            'id' => (int) $request['id'],
+            'state' => $request['state'],
+            'failed_state' => $request['failed_state'] ?? null,
+            'server_name' => $request['payload']['name'] ?? null,
+            'server_id' => $request['server_id'] !== null ? (int) $request['server_id'] : null,
+            'server_uuid' => $request['server_uuid'] ?? null,
+            'error' => $request['error_message'] ?? null,
+            'error_code' => $request['error_code'] ?? null,
+            'retryable' => self::isRetryable($request),
+            'rollback' => $request['rollback'] ?? null,
+            'attempts' => (int) $request['attempts'],
+            'created_at' => $request['created_at'] ?? null,
+            'updated_at' => $request['updated_at'] ?? null,
+        ];
+    }
+
+    /**
+     * Undo a single side effect.
+     *
+     * @param array{type: string, resource_id: int|string} $effect Recorded side effect
+     * @param array<string,mixed> $request Creation request the side effect belongs to
+     *
+     * @return string|null Error message, or null when the side effect is gone
+     */
+    private static function undoSideEffect(array $effect, array $request): ?string
+    {
+        try {
+            switch ($effect['type']) {
+                case 'wings':
+                    $server = Server::getServerById((int) $request['server_id']);
+                    $nodeInfo = $server ? Node::getNodeById((int) $server['node_id']) : null;
+                    if (!$nodeInfo) {
+                        return 'Cannot reach the node to remove the server from Wings';
+                    }
+
+                    $wings = new Wings(
+                        $nodeInfo['fqdn'],
+                        $nodeInfo['daemonListen'],
+                        $nodeInfo['scheme'],
+                        $nodeInfo['daemon_token'],
+                        self::WINGS_TIMEOUT
+                    );
+                    $response = $wings->getServer()->deleteServer((string) $effect['resource_id']);
+
+                    // 404: Wings never finished creating it
+                    return $response->isSuccessful() || $response->getStatusCode() === 404
+                        ? null
+                        : 'Wings refused to delete the server: ' . $response->getError();
+                case 'allocation':
+                    return Allocation::unassignFromServer((int) $effect['resource_id'])
+                        ? null
+                        : 'Failed to release the allocation';
+                case 'server':
+                    if (!Server::getServerById((int) $effect['resource_id'])) {
+                        return null;
+                    }
+
+                    return Server::hardDeleteServer((int) $effect['resource_id'])
+                        ? null
+                        : 'Failed to delete the server record';
+                default:
+                    return 'Unknown side effect type: ' . $effect['type'];
+            }
+        } catch (\Exception $e) {
+            return $e->getMessage();
+        }
+    }
+
+    /**
+     * Mark a request as failed and undo everything it changed.
+     *
+     * @return array<string,mixed> Updated creation request
+     */
+    private static function failAndRollback(int $requestId, string $failedState, string $errorMessage, string $errorCode): array
+    {
+        self::fail($requestId, $failedState, $errorMessage, $errorCode);
+        self::rollback($requestId);
+
+        return CreationRequest::getById($requestId) ?? [];
+    }
+
+    /**
+     * Mark a request as failed by a transient Wings error. The server is kept for a retry
+     * unless this was the last allowed attempt, in which case everything is undone.
+     *
+     * @param array<string,mixed> $request Creation request
+     *
+     * @return array<string,mixed> Updated creation request
+     */
+    private static function failTransient(array $request, string $errorMessage, string $errorCode): array
+    {
+        if ((int) $request['attempts'] >= self::MAX_ATTEMPTS) {
+            return self::failAndRollback((int) $request['id'], 'wings_pending', $errorMessage, $errorCode);
+        }
+
+        return self::fail((int) $request['id'], 'wings_pending', $errorMessage, $errorCode);
+    }
+
+    /**
+     * Mark a request as failed at the given step.
+     *
+     * @return array<string,mixed> Updated creation request
+     */
+    private static function fail(int $requestId, string $failedState, string $errorMessage, string $errorCode): array
+    {
+        CreationRequest::update($requestId, [
+            'state' => 'failed',
+            'failed_state' => $failedState,
+            'error_message' => $errorMessage,
+            'error_code' => $errorCode,
+        ]);
+        CreationAudit::finish($requestId, 'failed', null, $errorCode, $errorMessage);
+
+        return self::announceFailure($requestId) ?? [];
+    }
+
+    /**
+     * Emit the failed event for a request that was just marked as failed.
+     *
+     * @return array<string,mixed>|null The failed request, or null if it no longer exists
+     */
+    private static function announceFailure(int $requestId): ?array
+    {
+        $request = CreationRequest::getById($requestId);
+        if ($request !== null) {
+            CreationEventHelper::emit(CreationEventHelper::EVENT_FAILED, $request);
+        }
+
+        return $request;
+    }
+}
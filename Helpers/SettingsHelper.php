@@ -49,6 +49,62 @@ class SettingsHelper
     public const PLACEMENT_AUTO_STRATEGIES = [
         'first',
         'least_capacity',
+        'round_robin',
+        'fill_first',
+        'random_weighted',
+    ];
+
+    /** Auto strategies that only apply to the node field (they compare node load) */
+    public const PLACEMENT_NODE_STRATEGIES = [
+        'least_capacity',
+        'round_robin',
+        'fill_first',
+        'random_weighted',
+    ];
+
+    /**
+     * Default weights of the node load score (server pressure, memory and disk usage add, free allocations subtract).
+     *
+     * @var array<string, float>
+     */
+    public const DEFAULT_PLACEMENT_SCORE_WEIGHTS = [
+        'server_pressure' => 10000.0,
+        'memory_usage' => 1000.0,
+        'disk_usage' => 100.0,
+        'free_allocations' => 0.1,
+    ];
+
+    /** Weight of a node without a placement profile (0 = never picked by an auto strategy) */
+    public const DEFAULT_NODE_WEIGHT = 1;
+
+    /** Highest weight a node can be given */
+    public const MAX_NODE_WEIGHT = 100;
+
+    /**
+     * Resources that can have a minimum and maximum per node and per location (resource => [label, unit]).
+     *
+     * @var array<string, array{0: string, 1: string}>
+     */
+    public const BOUNDED_RESOURCES = [
+        'memory' => ['Memory', 'MB'],
+        'cpu' => ['CPU limit', '%'],
+        'disk' => ['Disk', 'MB'],
+        'swap' => ['Swap', 'MB'],
+    ];
+
+    /**
+     * What happens when capacity frees up for the first user on a waitlist:
+     * 'auto' creates the server right away, 'confirm' holds the slot until the user confirms.
+     *
+     * @var list<string>
+     */
+    public const WAITLIST_MODES = ['auto', 'confirm'];
+
+    /** @var list<string> */
+    public const ALLOCATION_MODES = [
+        'random',
+        'user',
+        'port_range',
     ];
 
     /**
@@ -208,8 +264,9 @@ class SettingsHelper
 
     /**
      * Parsed placement field policies merged with defaults.
+     * A node row using a node strategy may carry a tag that limits the strategy to nodes with that tag.
      *
-     * @return array<string, array{mode: string, value?: int|string|null, default?: int|string|null}>
+     * @return array<string, array{mode: string, value?: int|string|null, default?: int|string|null, tag?: string}>
      */
     public static function getPlacementFieldPolicies(): array
     {
@@ -251,6 +308,10 @@ class SettingsHelper
                     $row['default'] = $def;
                 }
             }
+            $tag = self::normalizePlacementPolicyTag($row, $entry['tag'] ?? null);
+            if ($tag !== null) {
+                $row['tag'] = $tag;
+            }
             $defaults[$key] = $row;
         }
 
@@ -284,6 +345,10 @@ class SettingsHelper
                     $row['default'] = $def;
                 }
             }
+            $tag = self::normalizePlacementPolicyTag($row, $entry['tag'] ?? null);
+            if ($tag !== null) {
+                $row['tag'] = $tag;
+            }
             $merged[$key] = $row;
         }
 
@@ -346,6 +411,54 @@ class SettingsHelper
         PluginSettings::setSetting('billingresourcesnewservers', 'require_discord_link', $required ? 'true' : 'false');
     }
 
+    /**
+     * Discord webhook that is told about every successfully created server ('' = off).
+     */
+    public static function getDiscordWebhookUrl(): string
+    {
+        return (string) (PluginSettings::getSetting('billingresourcesnewservers', 'discord_webhook_url') ?? '');
+    }
+
+    /**
+     * @param string $url Discord webhook URL ('' turns notifications off)
+     */
+    public static function setDiscordWebhookUrl(string $url): void
+    {
+        PluginSettings::setSetting('billingresourcesnewservers', 'discord_webhook_url', trim($url));
+    }
+
+    /**
+     * Discord guild whose member roles feed the discord_role membership condition ('' = not configured).
+     */
+    public static function getDiscordGuildId(): string
+    {
+        return (string) (PluginSettings::getSetting('billingresourcesnewservers', 'discord_guild_id') ?? '');
+    }
+
+    /**
+     * @param string $guildId Guild snowflake ('' clears it)
+     */
+    public static function setDiscordGuildId(string $guildId): void
+    {
+        PluginSettings::setSetting('billingresourcesnewservers', 'discord_guild_id', trim($guildId));
+    }
+
+    /**
+     * Bot token used to read guild roles and members. Never returned by the settings API.
+     */
+    public static function getDiscordBotToken(): string
+    {
+        return (string) (PluginSettings::getSetting('billingresourcesnewservers', 'discord_bot_token') ?? '');
+    }
+
+    /**
+     * @param string $token Bot token ('' clears it)
+     */
+    public static function setDiscordBotToken(string $token): void
+    {
+        PluginSettings::setSetting('billingresourcesnewservers', 'discord_bot_token', trim($token));
+    }
+
     /**
      * Get allowed location IDs.
      *
@@ -647,6 +760,155 @@ class SettingsHelper
         return Server::getCount(nodeId: $nodeId);
     }
 
+    /**
+     * Per-node resource bounds (node ID => resource => {min, max}).
+     *
+     * @return array<int, array<string, array{min: int|null, max: int|null}>>
+     */
+    public static function getNodeResourceBounds(): array
+    {
+        return self::readResourceBounds('node_resource_bounds');
+    }
+
+    /**
+     * @param array<int|string, mixed> $bounds Node ID => resource => {min, max}; null or empty clears a bound
+     */
+    public static function setNodeResourceBounds(array $bounds): void
+    {
+        self::writeResourceBounds('node_resource_bounds', $bounds);
+    }
+
+    /**
+     * Per-location resource bounds (location ID => resource => {min, max}). They apply to every node of the location.
+     *
+     * @return array<int, array<string, array{min: int|null, max: int|null}>>
+     */
+    public static function getLocationResourceBounds(): array
+    {
+        return self::readResourceBounds('location_resource_bounds');
+    }
+
+    /**
+     * @param array<int|string, mixed> $bounds Location ID => resource => {min, max}; null or empty clears a bound
+     */
+    public static function setLocationResourceBounds(array $bounds): void
+    {
+        self::writeResourceBounds('location_resource_bounds', $bounds);
+    }
+
+    /**
+     * Effective bounds of each resource on a node: the highest minimum and the lowest maximum of the global minimums,
+     * the location and the node. Source says which one set the bound (global, location or node).
+     *
+     * @param int $nodeId Node ID (0 = none)
+     * @param int $locationId Location of the node (0 = none)
+     *
+     * @return array<string, array{min: int, max: int|null, min_source: string, max_source: string|null}>
+     */
+    public static function resolveResourceBounds(int $nodeId, int $locationId): array
+    {
+        $resolved = [
+            'memory' => ['min' => self::getMinimumMemory(), 'max' => null, 'min_source' => 'global', 'max_source' => null],
+            'cpu' => ['min' => self::getMinimumCpu(), 'max' => null, 'min_source' => 'global', 'max_source' => null],
+            'disk' => ['min' => self::getMinimumDisk(), 'max' => null, 'min_source' => 'global', 'max_source' => null],
+            'swap' => ['min' => 0, 'max' => null, 'min_source' => 'global', 'max_source' => null],
+        ];
+
+        $layers = [
+            'location' => $locationId > 0 ? (self::getLocationResourceBounds()[$locationId] ?? []) : [],
+            'node' => $nodeId > 0 ? (self::getNodeResourceBounds()[$nodeId] ?? []) : [],
+        ];
+        foreach ($layers as $source => $bounds) {
+            foreach ($bounds as $resource => $bound) {
+                if ($bound['min'] !== null && $bound['min'] > $resolved[$resource]['min']) {
+                    $resolved[$resource]['min'] = $bound['min'];
+                    $resolved[$resource]['min_source'] = $source;
+                }
+                if ($bound['max'] !== null && ($resolved[$resource]['max'] === null || $bound['max'] < $resolved[$resource]['max'])) {
+                    $resolved[$resource]['max'] = $bound['max'];
+                    $resolved[$resource]['max_source'] = $source;
+                }
+            }
+        }
+
+        return $resolved;
+    }
+
+    /**
+     * Check requested resources against the bounds of a node. Unlimited values (CPU 0, negative swap) only fail a maximum.
+     *
+     * @param int $nodeId Node ID (0 = global minimums only)
+     * @param int $locationId Location of the node (0 = none)
+     * @param array<string, int> $resources Resource => requested value; resources that are not given are not checked
+     *
+     * @return list<array{field: string, error: string, error_code: string}>
+     */
+    public static function checkResourceBounds(int $nodeId, int $locationId, array $resources): array
+    {
+        $errors = [];
+        foreach (self::resolveResourceBounds($nodeId, $locationId) as $resource => $bound) {
+            if (!array_key_exists($resource, $resources)) {
+                continue;
+            }
+            $value = (int) $resources[$resource];
+            [$label, $unit] = self::BOUNDED_RESOURCES[$resource];
+            $unlimited = ($resource === 'cpu' && $value === 0) || ($resource === 'swap' && $value < 0);
+
+            if (!($resource === 'swap' && $unlimited) && $value < $bound['min']) {
+                $errors[] = [
+                    'field' => $resource,
+                    'error' => $label . ' must be at least ' . $bound['min'] . ($unit === '%' ? '%' : ' ' . $unit) . self::describeBoundSource($bound['min_source']),
+                    'error_code' => 'INVALID_' . strtoupper($resource),
+                ];
+            } elseif ($bound['max'] !== null && ($unlimited || $value > $bound['max'])) {
+                $errors[] = [
+                    'field' => $resource,
+                    'error' => $label . ' must be at most ' . $bound['max'] . ($unit === '%' ? '%' : ' ' . $unit) . self::describeBoundSource($bound['max_source'])
+                        . ($unlimited ? ' (unlimited is not allowed)' : ''),
+                    'error_code' => 'INVALID_' . strtoupper($resource),
+                ];
+            }
+        }
+
+        return $errors;
+    }
+
+    /**
+     * Drop unknown resources, negative values and empty entries, keyed by resource ID in order.
+     *
+     * @param array<int|string, mixed> $bounds ID => resource => {min, max}
+     *
+     * @return array<int, array<string, array{min: int|null, max: int|null}>>
+     */
+    public static function normalizeResourceBounds(array $bounds): array
+    {
+        $out = [];
+        foreach ($bounds as $id => $resources) {
+            $id = (int) $id;
+            if ($id <= 0 || !is_array($resources)) {
+                continue;
+            }
+            $entry = [];
+            foreach (array_keys(self::BOUNDED_RESOURCES) as $resource) {
+                $bound = $resources[$resource] ?? null;
+                if (!is_array($bound)) {
+                    continue;
+                }
+                $min = isset($bound['min']) && is_numeric($bound['min']) && (int) $bound['min'] >= 0 ? (int) $bound['min'] : null;
+                $max = isset($bound['max']) && is_numeric($bound['max']) && (int) $bound['max'] >= 0 ? (int) $bound['max'] : null;
+                if ($min !== null || $max !== null) {
+                    $entry[$resource] = ['min' => $min, 'max' => $max];
+                }
+            }
+            if ($entry !== []) {
+                $out[$id] = $entry;
+            }
+        }
+        ksort($out);
+
+        return $out;
+    }
+
     /**
      * Whether the node has reached its configured server cap.
      */
@@ -686,6 +948,340 @@ class SettingsHelper
         PluginSettings::setSetting('billingresourcesnewservers', 'node_at_capacity_error', $message);
     }
 
+    /**
+     * Per-node placement profiles (node ID => weight and tags). Nodes without a profile use the default weight and no tags.
+     *
+     * @return array<int, array{weight: int, tags: list<string>}>
+     */
+    public static function getNodePlacementProfiles(): array
+    {
+        $raw = PluginSettings::getSetting('billingresourcesnewservers', 'node_placement_profiles');
+        if ($raw === null || $raw === '') {
+            return [];
+        }
+
+        $decoded = json_decode((string) $raw, true);
+        if (!is_array($decoded)) {
+            $decoded = json_decode(
+                html_entity_decode((string) $raw, ENT_QUOTES | ENT_HTML5, 'UTF-8'),
+                true
+            );
+        }
+        if (!is_array($decoded)) {
+            return [];
+        }
+
+        return self::normalizeNodePlacementProfiles($decoded);
+    }
+
+    /**
+     * @param array<int|string, mixed> $profiles Node ID => {weight, tags}; profiles equal to the default are dropped
+     */
+    public static function setNodePlacementProfiles(array $profiles): void
+    {
+        $normalized = [];
+        foreach (self::normalizeNodePlacementProfiles($profiles) as $nodeId => $profile) {
+            $normalized[(string) $nodeId] = $profile;
+        }
+
+        PluginSettings::setSetting('billingresourcesnewservers', 'node_placement_profiles', json_encode($normalized));
+    }
+
+    /**
+     * Placement weight of one node (0 = never picked by an auto strategy).
+     */
+    public static function getNodeWeight(int $nodeId): int
+    {
+        return self::getNodePlacementProfiles()[$nodeId]['weight'] ?? self::DEFAULT_NODE_WEIGHT;
+    }
+
+    /**
+     * Placement tags of one node.
+     *
+     * @return list<string>
+     */
+    public static function getNodeTags(int $nodeId): array
+    {
+        return self::getNodePlacementProfiles()[$nodeId]['tags'] ?? [];
+    }
+
+    /**
+     * Weights of the node load score used by the least loaded and fill-first strategies.
+     *
+     * @return array<string, float>
+     */
+    public static function getPlacementScoreWeights(): array
+    {
+        $raw = PluginSettings::getSetting('billingresourcesnewservers', 'placement_score_weights');
+        $decoded = $raw !== null && $raw !== '' ? json_decode((string) $raw, true) : null;
+
+        $weights = self::DEFAULT_PLACEMENT_SCORE_WEIGHTS;
+        foreach (array_keys($weights) as $key) {
+            if (is_array($decoded) && isset($decoded[$key]) && is_numeric($decoded[$key]) && (float) $decoded[$key] >= 0) {
+                $weights[$key] = (float) $decoded[$key];
+            }
+        }
+
+        return $weights;
+    }
+
+    /**
+     * @param array<string, mixed> $weights Score weight => non-negative number; missing keys keep their value
+     */
+    public static function setPlacementScoreWeights(array $weights): void
+    {
+        $merged = self::getPlacementScoreWeights();
+        foreach (array_keys($merged) as $key) {
+            if (isset($weights[$key]) && is_numeric($weights[$key]) && (float) $weights[$key] >= 0) {
+                $merged[$key] = (float) $weights[$key];
+            }
+        }
+
+        PluginSettings::setSetting('billingresourcesnewservers', 'placement_score_weights', json_encode($merged));
+    }
+
+    /**
+     * Server naming policy (see ServerNameHelper::DEFAULT_POLICY for the keys).
+     *
+     * @return array<string,mixed>
+     */
+    public static function getNamingPolicy(): array
+    {
+        $raw = PluginSettings::getSetting('billingresourcesnewservers', 'naming_policy');
+        $decoded = $raw !== null && $raw !== '' ? json_decode((string) $raw, true) : null;
+        $parsed = is_array($decoded) ? ServerNameHelper::parsePolicyInput($decoded)['policy'] : null;
+
+        return $parsed ?? ServerNameHelper::DEFAULT_POLICY;
+    }
+
+    /**
+     * @param array<string,mixed> $policy Policy normalized by ServerNameHelper::parsePolicyInput
+     */
+    public static function setNamingPolicy(array $policy): void
+    {
+        PluginSettings::setSetting('billingresourcesnewservers', 'naming_policy', json_encode($policy));
+    }
+
+    /**
+     * Anti-abuse checks run before creation (see AbuseCheckHelper::DEFAULT_POLICY for the keys).
+     *
+     * @return array<string,mixed>
+     */
+    public static function getAbuseCheckPolicy(): array
+    {
+        $raw = PluginSettings::getSetting('billingresourcesnewservers', 'abuse_checks');
+        $decoded = $raw !== null && $raw !== '' ? json_decode((string) $raw, true) : null;
+        $parsed = is_array($decoded) ? AbuseCheckHelper::parsePolicyInput($decoded)['policy'] : null;
+
+        return $parsed ?? AbuseCheckHelper::DEFAULT_POLICY;
+    }
+
+    /**
+     * @param array<string,mixed> $policy Policy normalized by AbuseCheckHelper::parsePolicyInput
+     */
+    public static function setAbuseCheckPolicy(array $policy): void
+    {
+        PluginSettings::setSetting('billingresourcesnewservers', 'abuse_checks', json_encode($policy));
+    }
+
+    /**
+     * How the primary allocation is chosen: 'random', 'user' (picked on the form) or 'port_range' (prefer a port range).
+     */
+    public static function getAllocationMode(): string
+    {
+        $mode = PluginSettings::getSetting('billingresourcesnewservers', 'allocation_mode');
+        if ($mode === null || !in_array($mode, self::ALLOCATION_MODES, true)) {
+            return 'random';
+        }
+
+        return $mode;
+    }
+
+    /**
+     * @param string $mode One of ALLOCATION_MODES (anything else falls back to 'random')
+     */
+    public static function setAllocationMode(string $mode): void
+    {
+        $mode = in_array($mode, self::ALLOCATION_MODES, true) ? $mode : 'random';
+        PluginSettings::setSetting('billingresourcesnewservers', 'allocation_mode', $mode);
+    }
+
+    /**
+     * Preferred port range for the 'port_range' allocation mode.
+     *
+     * @return array{start: int, end: int} Both 0 when not configured
+     */
+    public static function getAllocationPortRange(): array
+    {
+        $start = (int) (PluginSettings::getSetting('billingresourcesnewservers', 'allocation_port_range_start') ?? 0);
+        $end = (int) (PluginSettings::getSetting('billingresourcesnewservers', 'allocation_port_range_end') ?? 0);
+
+        return [
+            'start' => max(0, min(65535, $start)),
+            'end' => max(0, min(65535, $end)),
+        ];
+    }
+
+    /**
+     * @param int $start First preferred port (inclusive)
+     * @param int $end Last preferred port (inclusive)
+     */
+    public static function setAllocationPortRange(int $start, int $end): void
+    {
+        $start = max(0, min(65535, $start));
+        $end = max(0, min(65535, $end));
+        if ($end < $start) {
+            [$start, $end] = [$end, $start];
+        }
+
+        PluginSettings::setSetting('billingresourcesnewservers', 'allocation_port_range_start', (string) $start);
+        PluginSettings::setSetting('billingresourcesnewservers', 'allocation_port_range_end', (string) $end);
+    }
+
+    /**
+     * Global creation rate limits. Keys match Group::RATE_LIMIT_FIELDS so groups can override each one.
+     * rate_limit_max_creations: creations allowed per rolling window (0 = no limit);
+     * creation_cooldown_seconds / deletion_cooldown_seconds: wait after a creation / after a deletion (0 = none).
+     *
+     * @return array{rate_limit_max_creations: int, rate_limit_window_minutes: int, creation_cooldown_seconds: int, deletion_cooldown_seconds: int}
+     */
+    public static function getCreationRateLimits(): array
+    {
+        $window = (int) (PluginSettings::getSetting('billingresourcesnewservers', 'rate_limit_window_minutes') ?? 0);
+
+        return [
+            'rate_limit_max_creations' => max(0, (int) (PluginSettings::getSetting('billingresourcesnewservers', 'rate_limit_max_creations') ?? 0)),
+            'rate_limit_window_minutes' => $window > 0 ? $window : 60,
+            'creation_cooldown_seconds' => max(0, (int) (PluginSettings::getSetting('billingresourcesnewservers', 'creation_cooldown_seconds') ?? 0)),
+            'deletion_cooldown_seconds' => max(0, (int) (PluginSettings::getSetting('billingresourcesnewservers', 'deletion_cooldown_seconds') ?? 0)),
+        ];
+    }
+
+    /**
+     * @param array<string,mixed> $limits Any of the getCreationRateLimits keys; missing keys are left unchanged
+     */
+    public static function setCreationRateLimits(array $limits): void
+    {
+        foreach (['rate_limit_max_creations', 'creation_cooldown_seconds', 'deletion_cooldown_seconds'] as $key) {
+            if (array_key_exists($key, $limits)) {
+                PluginSettings::setSetting('billingresourcesnewservers', $key, (string) max(0, (int) $limits[$key]));
+            }
+        }
+        if (array_key_exists('rate_limit_window_minutes', $limits)) {
+            PluginSettings::setSetting('billingresourcesnewservers', 'rate_limit_window_minutes', (string) max(1, (int) $limits['rate_limit_window_minutes']));
+        }
+    }
+
+    /**
+     * Whether users whose server fits on no node may join a waitlist.
+     */
+    public static function isWaitlistEnabled(): bool
+    {
+        return PluginSettings::getSetting('billingresourcesnewservers', 'waitlist_enabled') === 'true';
+    }
+
+    /**
+     * @param bool $enabled Whether users may join the waitlist
+     */
+    public static function setWaitlistEnabled(bool $enabled): void
+    {
+        PluginSettings::setSetting('billingresourcesnewservers', 'waitlist_enabled', $enabled ? 'true' : 'false');
+    }
+
+    /**
+     * One of WAITLIST_MODES (defaults to 'confirm').
+     */
+    public static function getWaitlistMode(): string
+    {
+        $mode = PluginSettings::getSetting('billingresourcesnewservers', 'waitlist_mode');
+
+        return in_array($mode, self::WAITLIST_MODES, true) ? $mode : 'confirm';
+    }
+
+    /**
+     * @param string $mode One of WAITLIST_MODES (anything else falls back to 'confirm')
+     */
+    public static function setWaitlistMode(string $mode): void
+    {
+        PluginSettings::setSetting('billingresourcesnewservers', 'waitlist_mode', in_array($mode, self::WAITLIST_MODES, true) ? $mode : 'confirm');
+    }
+
+    /**
+     * Minutes a freed slot is held for the user to confirm (confirm mode).
+     */
+    public static function getWaitlistOfferMinutes(): int
+    {
+        $minutes = (int) (PluginSettings::getSetting('billingresourcesnewservers', 'waitlist_offer_minutes') ?? 0);
+
+        return $minutes > 0 ? $minutes : 60;
+    }
+
+    /**
+     * @param int $minutes Offer lifetime (at least 1)
+     */
+    public static function setWaitlistOfferMinutes(int $minutes): void
+    {
+        PluginSettings::setSetting('billingresourcesnewservers', 'waitlist_offer_minutes', (string) max(1, $minutes));
+    }
+
+    /**
+     * Unix time of the last waitlist pass started from a user's request (0 = never).
+     */
+    public static function getLastWaitlistRun(): int
+    {
+        return (int) (PluginSettings::getSetting('billingresourcesnewservers', 'waitlist_last_run_at') ?? 0);
+    }
+
+    public static function setLastWaitlistRun(int $timestamp): void
+    {
+        PluginSettings::setSetting('billingresourcesnewservers', 'waitlist_last_run_at', (string) $timestamp);
+    }
+
+    /**
+     * Global server lifetime settings. lifetime_days and inactivity_days match Group::LIFETIME_FIELDS so groups can override them.
+     * lifetime_days: days a server lives before it must be renewed; inactivity_days: days without activity (0 = off for both);
+     * reclaim_warning_days: notice given before suspension; reclaim_deletion_days: days a suspended server is kept before deletion.
+     *
+     * @return array{lifetime_days: int, inactivity_days: int, reclaim_warning_days: int, reclaim_deletion_days: int}
+     */
+    public static function getServerLifetimeSettings(): array
+    {
+        $warning = PluginSettings::getSetting('billingresourcesnewservers', 'reclaim_warning_days');
+        $deletion = PluginSettings::getSetting('billingresourcesnewservers', 'reclaim_deletion_days');
+
+        return [
+            'lifetime_days' => max(0, (int) (PluginSettings::getSetting('billingresourcesnewservers', 'lifetime_days') ?? 0)),
+            'inactivity_days' => max(0, (int) (PluginSettings::getSetting('billingresourcesnewservers', 'inactivity_days') ?? 0)),
+            'reclaim_warning_days' => $warning !== null && $warning !== '' ? max(0, (int) $warning) : 3,
+            'reclaim_deletion_days' => $deletion !== null && $deletion !== '' ? max(0, (int) $deletion) : 7,
+        ];
+    }
+
+    /**
+     * @param array<string,mixed> $settings Any of the getServerLifetimeSettings keys; missing keys are left unchanged
+     */
+    public static function setServerLifetimeSettings(array $settings): void
+    {
+        foreach (array_keys(self::getServerLifetimeSettings()) as $key) {
+            if (array_key_exists($key, $settings)) {
+                PluginSettings::setSetting('billingresourcesnewservers', $key, (string) max(0, (int) $settings[$key]));
+            }
+        }
+    }
+
+    /**
+     * Unix time of the last server reclamation pass (0 = never).
+     */
+    public static function getLastReclamationRun(): int
+    {
+        return (int) (PluginSettings::getSetting('billingresourcesnewservers', 'reclaim_last_run_at') ?? 0);
+    }
+
+    public static function setLastReclamationRun(int $timestamp): void
+    {
+        PluginSettings::setSetting('billingresourcesnewservers', 'reclaim_last_run_at', (string) $timestamp);
+    }
+
     /**
      * Get user restriction mode.
      *
@@ -770,10 +1366,14 @@ class SettingsHelper
             return true;
         }
 
-        // Check if user has any specific permissions (locations, nodes, realms, spells)
-        $userPermissions = \App\Addons\billingresourcesnewservers\Chat\UserPermission::getByUserId($userId);
+        // Check if user has any active grant (locations, nodes, realms, spells); deny entries do not count
+        foreach (\App\Addons\billingresourcesnewservers\Chat\UserPermission::getByUserId($userId) as $permission) {
+            if ($permission['effect'] === 'allow' && $permission['is_active']) {
+                return true;
+            }
+        }
 
-        return !empty($userPermissions);
+        return false;
     }
 
     /**
@@ -787,78 +1387,128 @@ class SettingsHelper
      */
     public static function checkUserResourcePermission(int $userId, string $resourceType, int $resourceId): array
     {
-        // First check per-resource permission mode
-        $resourcePermissionMode = \App\Addons\billingresourcesnewservers\Chat\ResourcePermission::getPermissionMode($resourceType, $resourceId);
-
-        // If resource is set to 'open', check global restrictions only
-        if ($resourcePermissionMode === 'open') {
-            // Check global restrictions
-            switch ($resourceType) {
-                case 'location':
-                    if (!self::isLocationAllowed($resourceId)) {
-                        $defaultError = \App\Addons\billingresourcesnewservers\Chat\ResourcePermission::getDefaultErrorMessage($resourceType, $resourceId)
-                            ?? self::getResourceDefaultErrorMessage('location');
-
-                        return ['allowed' => false, 'custom_error' => $defaultError];
-                    }
-                    break;
-                case 'node':
-                    if (!self::isNodeAllowed($resourceId)) {
-                        $defaultError = \App\Addons\billingresourcesnewservers\Chat\ResourcePermission::getDefaultErrorMessage($resourceType, $resourceId)
-                            ?? self::getResourceDefaultErrorMessage('node');
-
-                        return ['allowed' => false, 'custom_error' => $defaultError];
-                    }
-                    break;
-                case 'realm':
-                    if (!self::isRealmAllowed($resourceId)) {
-                        $defaultError = \App\Addons\billingresourcesnewservers\Chat\ResourcePermission::getDefaultErrorMessage($resourceType, $resourceId)
-                            ?? self::getResourceDefaultErrorMessage('realm');
-
-                        return ['allowed' => false, 'custom_error' => $defaultError];
-                    }
-                    break;
-                case 'spell':
-                    if (!self::isSpellAllowed($resourceId)) {
-                        $defaultError = \App\Addons\billingresourcesnewservers\Chat\ResourcePermission::getDefaultErrorMessage($resourceType, $resourceId)
-                            ?? self::getResourceDefaultErrorMessage('spell');
-
-                        return ['allowed' => false, 'custom_error' => $defaultError];
-                    }
-                    break;
-            }
-
-            return ['allowed' => true];
+        $explanation = self::explainUserResourcePermission($userId, $resourceType, $resourceId);
+        if ($explanation['custom_error'] === null) {
+            return ['allowed' => $explanation['allowed']];
         }
 
-        // Resource requires permissions - check user-specific and group permissions
-        // First check user-specific permissions
-        $userPermission = \App\Addons\billingresourcesnewservers\Chat\UserPermission::getUserPermission($userId, $resourceType, $resourceId);
-        if ($userPermission) {
-            $customError = $userPermission['custom_error_message']
-                ?? \App\Addons\billingresourcesnewservers\Chat\ResourcePermission::getDefaultErrorMessage($resourceType, $resourceId)
-                ?? self::getResourceDefaultErrorMessage($resourceType);
+        return ['allowed' => $explanation['allowed'], 'custom_error' => $explanation['custom_error']];
+    }
 
-            return ['allowed' => true, 'custom_error' => $customError];
-        }
+    /**
+     * Decide whether a user may use a resource and record which rule decided it.
+     * See PermissionRuleHelper for the precedence order; the deciding entry's custom error
+     * message, if set, beats the resource and type defaults.
+     *
+     * @param int $userId User ID
+     * @param string $resourceType Resource type (location, node, realm, spell)
+     * @param int $resourceId Resource ID
+     *
+     * @return array<string,mixed> allowed, mode, rule (user_deny, user_grant, group_deny, group_grant, global_list, resource_mode),
+     *                              group (deciding group), other_groups (other groups with an active entry), custom_error,
+     *                              error_source (user_permission, group_permission, resource, type_default or null),
+     *                              inactive_entries (entries ignored because they are outside their window) and reason
+     */
+    public static function explainUserResourcePermission(int $userId, string $resourceType, int $resourceId): array
+    {
+        $mode = \App\Addons\billingresourcesnewservers\Chat\ResourcePermission::getPermissionMode($resourceType, $resourceId);
+        $resourceError = \App\Addons\billingresourcesnewservers\Chat\ResourcePermission::getDefaultErrorMessage($resourceType, $resourceId);
+        $explanation = [
+            'allowed' => false,
+            'mode' => $mode,
+            'rule' => 'resource_mode',
+            'group' => null,
+            'other_groups' => [],
+            'custom_error' => $resourceError ?? self::getResourceDefaultErrorMessage($resourceType),
+            'error_source' => $resourceError !== null ? 'resource' : 'type_default',
+            'inactive_entries' => 0,
+            'reason' => '',
+        ];
 
-        // Check group permissions
-        $groupPermissions = \App\Addons\billingresourcesnewservers\Chat\GroupPermission::getByUserId($userId);
-        foreach ($groupPermissions as $perm) {
+        // Collect the user's entry and their groups' entries (already in group precedence order)
+        $userPermission = \App\Addons\billingresourcesnewservers\Chat\UserPermission::getUserPermission($userId, $resourceType, $resourceId);
+        $groupEntries = [];
+        foreach (\App\Addons\billingresourcesnewservers\Chat\GroupPermission::getByUserId($userId) as $perm) {
             if ($perm['resource_type'] === $resourceType && (int) $perm['resource_id'] === $resourceId) {
-                $customError = $perm['custom_error_message']
-                    ?? \App\Addons\billingresourcesnewservers\Chat\ResourcePermission::getDefaultErrorMessage($resourceType, $resourceId)
-                    ?? self::getResourceDefaultErrorMessage($resourceType);
+                $groupEntries[] = $perm;
+            }
+        }
+
+        $decided = PermissionRuleHelper::decide($userPermission, $groupEntries);
+        $decision = $decided['decision'];
+        $activeGroupEntries = $decided['active_group_entries'];
+        $explanation['inactive_entries'] = $decided['inactive_entries'];
+
+        if ($decision !== null) {
+            $entry = $decision['entry'];
+            $isDeny = $entry['effect'] === 'deny';
+            $explanation['rule'] = $decision['source'] . ($isDeny ? '_deny' : '_grant');
+            if ($entry['custom_error_message'] !== null) {
+                $explanation['custom_error'] = $entry['custom_error_message'];
+                $explanation['error_source'] = $decision['source'] . '_permission';
+            }
 
-                return ['allowed' => true, 'custom_error' => $customError];
+            if ($decision['source'] === 'group') {
+                $explanation['group'] = ['id' => (int) $entry['group_id'], 'name' => $entry['group_name']];
+            }
+            foreach ($activeGroupEntries as $perm) {
+                if ($decision['source'] === 'user' || (int) $perm['group_id'] !== (int) $entry['group_id']) {
+                    $explanation['other_groups'][] = ['id' => (int) $perm['group_id'], 'name' => $perm['group_name'], 'effect' => $perm['effect']];
+                }
+            }
+
+            $by = $decision['source'] === 'user'
+                ? 'this user directly'
+                : 'group "' . ($entry['group_name'] ?? '#' . $entry['group_id']) . '"';
+            if ($isDeny) {
+                return array_merge($explanation, [
+                    'reason' => 'Denied to ' . $by . ($decision['source'] === 'user' ? '' : ' (denies beat group grants)'),
+                ]);
+            }
+
+            if ($mode === 'restricted') {
+                return array_merge($explanation, [
+                    'allowed' => true,
+                    'reason' => 'Restricted; granted to ' . $by,
+                ]);
             }
         }
 
-        // User doesn't have permission for this resource
-        $defaultError = \App\Addons\billingresourcesnewservers\Chat\ResourcePermission::getDefaultErrorMessage($resourceType, $resourceId)
-            ?? self::getResourceDefaultErrorMessage($resourceType);
+        // If resource is set to 'open', check global restrictions only (grants do not bypass the allow-list)
+        if ($mode === 'open') {
+            $allowList = match ($resourceType) {
+                'location' => self::getAllowedLocations(),
+                'node' => self::getAllowedNodes(),
+                'realm' => self::getAllowedRealms(),
+                'spell' => self::getAllowedSpells(),
+                default => [],
+            };
+
+            if (empty($allowList) || in_array($resourceId, $allowList, true)) {
+                return array_merge($explanation, [
+                    'allowed' => true,
+                    'rule' => empty($allowList) ? 'resource_mode' : 'global_list',
+                    'group' => null,
+                    'custom_error' => null,
+                    'error_source' => null,
+                    'reason' => empty($allowList)
+                        ? 'Open to everyone and no global ' . $resourceType . ' allow-list is set'
+                        : 'Open to everyone and on the global ' . $resourceType . ' allow-list',
+                ]);
+            }
+
+            return array_merge($explanation, [
+                'rule' => 'global_list',
+                'group' => null,
+                'custom_error' => $resourceError ?? self::getResourceDefaultErrorMessage($resourceType),
+                'error_source' => $resourceError !== null ? 'resource' : 'type_default',
+                'reason' => 'Not on the global ' . $resourceType . ' allow-list',
+            ]);
+        }
 
-        return ['allowed' => false, 'custom_error' => $defaultError];
+        return array_merge($explanation, [
+            'reason' => 'Restricted and neither the user nor any of their groups has an active grant',
+        ]);
     }
 
     /**
@@ -928,6 +1578,9 @@ class SettingsHelper
         return [
             'user_creation_enabled' => self::isUserCreationEnabled(),
             'require_discord_link' => self::isDiscordLinkRequired(),
+            'discord_webhook_url_set' => self::getDiscordWebhookUrl() !== '',
+            'discord_guild_id' => self::getDiscordGuildId(),
+            'discord_bot_token_set' => self::getDiscordBotToken() !== '',
             'user_restriction_mode' => self::getUserRestrictionMode(),
             'allowed_users' => self::getAllowedUsers(),
             'allowed_locations' => self::getAllowedLocations(),
@@ -939,7 +1592,27 @@ class SettingsHelper
             'minimum_disk' => self::getMinimumDisk(),
             'max_servers_per_node' => self::getMaxServersPerNode(),
             'node_server_caps' => self::getNodeServerCaps(),
+            'node_placement_profiles' => self::getNodePlacementProfiles(),
+            'node_resource_bounds' => self::getNodeResourceBounds(),
+            'location_resource_bounds' => self::getLocationResourceBounds(),
+            'placement_score_weights' => self::getPlacementScoreWeights(),
             'node_at_capacity_error' => PluginSettings::getSetting('billingresourcesnewservers', 'node_at_capacity_error') ?? '',
+            'allocation_mode' => self::getAllocationMode(),
+            'allocation_port_range_start' => self::getAllocationPortRange()['start'],
+            'allocation_port_range_end' => self::getAllocationPortRange()['end'],
+            'rate_limit_max_creations' => self::getCreationRateLimits()['rate_limit_max_creations'],
+            'rate_limit_window_minutes' => self::getCreationRateLimits()['rate_limit_window_minutes'],
+            'creation_cooldown_seconds' => self::getCreationRateLimits()['creation_cooldown_seconds'],
+            'deletion_cooldown_seconds' => self::getCreationRateLimits()['deletion_cooldown_seconds'],
+            'lifetime_days' => self::getServerLifetimeSettings()['lifetime_days'],
+            'inactivity_days' => self::getServerLifetimeSettings()['inactivity_days'],
+            'reclaim_warning_days' => self::getServerLifetimeSettings()['reclaim_warning_days'],
+            'reclaim_deletion_days' => self::getServerLifetimeSettings()['reclaim_deletion_days'],
+            'naming_policy' => self::getNamingPolicy(),
+            'abuse_checks' => self::getAbuseCheckPolicy(),
+            'waitlist_enabled' => self::isWaitlistEnabled(),
+            'waitlist_mode' => self::getWaitlistMode(),
+            'waitlist_offer_minutes' => self::getWaitlistOfferMinutes(),
             'permission_mode_location' => self::getResourcePermissionMode('location'),
             'permission_mode_node' => self::getResourcePermissionMode('node'),
             'permission_mode_realm' => self::getResourcePermissionMode('realm'),
@@ -1024,8 +1697,8 @@ class SettingsHelper
             if ($s === 'first') {
                 return 'first';
             }
-            if ($s === 'least_capacity' && $key === 'node') {
-                return 'least_capacity';
+            if ($key === 'node' && in_array($s, self::PLACEMENT_NODE_STRATEGIES, true)) {
+                return $s;
             }
             if (is_numeric($s)) {
                 return (int) $s;
@@ -1040,4 +1713,118 @@ class SettingsHelper
 
         return null;
     }
+
+    /**
+     * Tags only apply to node strategies; anything else drops the tag.
+     *
+     * @param array{mode: string, value?: int|string|null, default?: int|string|null} $row Normalized policy row
+     */
+    private static function normalizePlacementPolicyTag(array $row, mixed $raw): ?string
+    {
+        $strategy = $row['value'] ?? $row['default'] ?? null;
+        if (!is_string($strategy) || !in_array($strategy, self::PLACEMENT_NODE_STRATEGIES, true)) {
+            return null;
+        }
+        $tags = self::normalizeNodeTags([$raw]);
+
+        return $tags[0] ?? null;
+    }
+
+    /**
+     * Clamp weights, clean tags and drop profiles equal to the default, keyed by node ID in order.
+     *
+     * @param array<int|string, mixed> $profiles
+     *
+     * @return array<int, array{weight: int, tags: list<string>}>
+     */
+    public static function normalizeNodePlacementProfiles(array $profiles): array
+    {
+        $out = [];
+        foreach ($profiles as $nodeId => $profile) {
+            $id = (int) $nodeId;
+            if ($id <= 0 || !is_array($profile)) {
+                continue;
+            }
+            $weight = isset($profile['weight']) && is_numeric($profile['weight'])
+                ? min(self::MAX_NODE_WEIGHT, max(0, (int) $profile['weight']))
+                : self::DEFAULT_NODE_WEIGHT;
+            $tags = self::normalizeNodeTags(is_array($profile['tags'] ?? null) ? $profile['tags'] : []);
+            if ($weight === self::DEFAULT_NODE_WEIGHT && $tags === []) {
+                continue;
+            }
+            $out[$id] = ['weight' => $weight, 'tags' => $tags];
+        }
+        ksort($out);
+
+        return $out;
+    }
+
+    /**
+     * @return array<int, array<string, array{min: int|null, max: int|null}>>
+     */
+    private static function readResourceBounds(string $key): array
+    {
+        $raw = PluginSettings::getSetting('billingresourcesnewservers', $key);
+        if ($raw === null || $raw === '') {
+            return [];
+        }
+
+        $decoded = json_decode((string) $raw, true);
+        if (!is_array($decoded)) {
+            $decoded = json_decode(
+                html_entity_decode((string) $raw, ENT_QUOTES | ENT_HTML5, 'UTF-8'),
+                true
+            );
+        }
+        if (!is_array($decoded)) {
+            return [];
+        }
+
+        return self::normalizeResourceBounds($decoded);
+    }
+
+    /**
+     * @param array<int|string, mixed> $bounds
+     */
+    private static function writeResourceBounds(string $key, array $bounds): void
+    {
+        $normalized = [];
+        foreach (self::normalizeResourceBounds($bounds) as $id => $entry) {
+            $normalized[(string) $id] = $entry;
+        }
+
+        PluginSettings::setSetting('billingresourcesnewservers', $key, json_encode($normalized));
+    }
+
+    private static function describeBoundSource(?string $source): string
+    {
+        return match ($source) {
+            'node' => ' on this node',
+            'location' => ' in this location',
+            default => '',
+        };
+    }
+
+    /**
+     * Tags are lowercase letters, digits, dashes and underscores (max 32 characters).
+     *
+     * @param array<mixed> $tags
+     *
+     * @return list<string>
+     */
+    private static function normalizeNodeTags(array $tags): array
+    {
+        $out = [];
+        foreach ($tags as $tag) {
+            if (!is_string($tag)) {
+                continue;
+            }
+            $tag = strtolower(trim($tag));
+            if (preg_match('/^[a-z0-9_-]{1,32}$/', $tag)) {
+                $out[] = $tag;
+            }
+        }
+
+        return array_values(array_unique($out));
+    }
 }
@@ -0,0 +1,166 @@
+<?php
+
+/*
+ * This file is part of FeatherPanel.
+ *
+ * Copyright (C) 2025 MythicalSystems Studios
+ * Copyright (C) 2025 FeatherPanel Contributors
+ * Copyright (C) 2025 Cassian Gherman (aka NaysKutzu)
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * See the LICENSE file or <https://www.gnu.org/licenses/>.
+ */
+
+namespace App\Addons\billingresourcesnewservers\Helpers;
+
+use App\Addons\billingresourcesnewservers\Chat\SpellRequirement;
+
+/**
+ * Helper for resolving and enforcing per-spell resource requirements and docker image allow-lists.
+ */
+class SpellRequirementHelper
+{
+    /**
+     * Resources a spell can set requirements for, with their label and unit.
+     *
+     * @var array<string, array{0: string, 1: string}>
+     */
+    public const RESOURCES = [
+        'memory' => ['memory', 'MB'],
+        'cpu' => ['CPU', '%'],
+        'disk' => ['disk', 'MB'],
+    ];
+
+    /**
+     * Resolve the requirements of a spell.
+     * Each value comes from the spell when set, otherwise from its realm; the image allow-list is per spell only.
+     *
+     * @param int $spellId Spell ID
+     * @param int $realmId Realm ID of the spell
+     *
+     * @return array{minimum: array<string,int|null>, recommended: array<string,int|null>, sources: array<string,array{minimum: string|null, recommended: string|null}>, docker_images: list<string>|null}
+     */
+    public static function resolve(int $spellId, int $realmId): array
+    {
+        $rows = [
+            'spell' => $spellId > 0 ? SpellRequirement::getByResource('spell', $spellId) : null,
+            'realm' => $realmId > 0 ? SpellRequirement::getByResource('realm', $realmId) : null,
+        ];
+
+        $resolved = ['minimum' => [], 'recommended' => [], 'sources' => [], 'docker_images' => null];
+        foreach (array_keys(self::RESOURCES) as $resource) {
+            $resolved['sources'][$resource] = ['minimum' => null, 'recommended' => null];
+            foreach (['minimum' => 'min_', 'recommended' => 'recommended_'] as $kind => $prefix) {
+                $resolved[$kind][$resource] = null;
+                foreach ($rows as $type => $row) {
+                    if ($row !== null && $row[$prefix . $resource] !== null) {
+                        $resolved[$kind][$resource] = (int) $row[$prefix . $resource];
+                        $resolved['sources'][$resource][$kind] = $type;
+                        break;
+                    }
+                }
+            }
+        }
+
+        if ($rows['spell'] !== null) {
+            $resolved['docker_images'] = self::decodeDockerImages($rows['spell']['docker_images']);
+        }
+
+        return $resolved;
+    }
+
+    /**
+     * Validate requested resources and image against the requirements of a spell.
+     *
+     * @param int $spellId Spell ID
+     * @param int $realmId Realm ID of the spell
+     * @param array<string,int> $resources Requested values keyed by RESOURCES (missing = not checked)
+     * @param string|null $image Requested docker image (null = not checked)
+     *
+     * @return list<array{field: string, error: string, error_code: string}> Validation errors
+     */
+    public static function check(int $spellId, int $realmId, array $resources, ?string $image): array
+    {
+        $requirements = self::resolve($spellId, $realmId);
+        $errors = [];
+
+        foreach (self::RESOURCES as $resource => [$label, $unit]) {
+            $minimum = $requirements['minimum'][$resource];
+            if ($minimum === null || !isset($resources[$resource])) {
+                continue;
+            }
+            // A CPU limit of 0 means unlimited
+            if ($resource === 'cpu' && $resources[$resource] === 0) {
+                continue;
+            }
+            if ($resources[$resource] < $minimum) {
+                $subject = $requirements['sources'][$resource]['minimum'] === 'realm' ? 'Spells in this realm require' : 'This spell requires';
+                $errors[] = [
+                    'field' => $resource,
+                    'error' => $subject . ' at least ' . $minimum . ($unit === '%' ? '%' : ' ' . $unit) . ' of ' . $label,
+                    'error_code' => 'BELOW_SPELL_MINIMUM',
+                ];
+            }
+        }
+
+        if ($image !== null && $requirements['docker_images'] !== null && !in_array($image, $requirements['docker_images'], true)) {
+            $errors[] = [
+                'field' => 'image',
+                'error' => 'This docker image is not available for the selected spell',
+                'error_code' => 'IMAGE_NOT_ALLOWED',
+            ];
+        }
+
+        return $errors;
+    }
+
+    /**
+     * Restrict a spell's docker images to its allow-list.
+     *
+     * @param array<string,mixed> $spell Spell record (docker_images is a JSON object of label => image)
+     * @param list<string>|null $allowed Allowed images (null = no restriction)
+     *
+     * @return array<string,mixed> The spell with docker_images and docker_image narrowed to the allowed images
+     */
+    public static function filterSpellImages(array $spell, ?array $allowed): array
+    {
+        if ($allowed === null) {
+            return $spell;
+        }
+
+        $images = json_decode((string) ($spell['docker_images'] ?? ''), true);
+        $images = is_array($images) ? array_filter($images, fn ($image) => in_array($image, $allowed, true)) : [];
+        $spell['docker_images'] = json_encode(empty($images) ? new \stdClass() : $images);
+
+        if (!in_array($spell['docker_image'] ?? null, $allowed, true)) {
+            $spell['docker_image'] = empty($images) ? null : reset($images);
+        }
+
+        return $spell;
+    }
+
+    /**
+     * Decode a stored image allow-list.
+     *
+     * @param mixed $value JSON list of images or null
+     *
+     * @return list<string>|null Allowed images (null = no restriction)
+     */
+    private static function decodeDockerImages(mixed $value): ?array
+    {
+        if ($value === null || $value === '') {
+            return null;
+        }
+
+        $decoded = json_decode((string) $value, true);
+        if (!is_array($decoded)) {
+            return null;
+        }
+
+        return array_values(array_filter($decoded, fn ($image) => is_string($image) && $image !== ''));
+    }
+}
@@ -0,0 +1,483 @@
+<?php
+
+/*
+ * This file is part of FeatherPanel.
+ *
+ * Copyright (C) 2025 MythicalSystems Studios
+ * Copyright (C) 2025 FeatherPanel Contributors
+ * Copyright (C) 2025 Cassian Gherman (aka NaysKutzu)
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * See the LICENSE file or <https://www.gnu.org/licenses/>.
+ */
+
+namespace App\Addons\billingresourcesnewservers\Helpers;
+
+use App\App;
+use App\Chat\Node;
+use App\Chat\Location;
+use App\Addons\billingresourcesnewservers\Chat\WaitlistEntry;
+use App\Addons\billingresourcesnewservers\Chat\ApprovalRequest;
+
+/**
+ * Helper for the waitlist of users whose server fits on no node.
+ *
+ * Entries are served in order per location: the first user in line gets the next node with
+ * room, and a server that does not fit yet keeps the ones behind it waiting. A user who may not
+ * create a server right now (rate limits, cooldowns, another server still waiting for approval)
+ * keeps their place while the next user is served.
+ *
+ * Capacity frees up outside the plugin (servers deleted, caps raised), so the waitlist is
+ * processed lazily: in small, time-boxed passes when users open the create form or poll their
+ * waitlist, and in full when the admin queue is viewed and when node caps are changed.
+ */
+class WaitlistHelper
+{
+    /**
+     * Validation error codes meaning the chosen node has no room for the server.
+     *
+     * @var list<string>
+     */
+    public const CAPACITY_ERROR_CODES = [
+        'NODE_SERVER_CAP_REACHED',
+        'NODE_INSUFFICIENT_CAPACITY',
+        'NODE_INSUFFICIENT_MEMORY',
+        'NODE_INSUFFICIENT_DISK',
+        'NO_FREE_ALLOCATIONS',
+    ];
+
+    /**
+     * Error codes that only mean "not yet" for the user (rate limits, cooldowns, another server still waiting for approval),
+     * so the entry keeps its place in line.
+     *
+     * @var list<string>
+     */
+    public const RETRY_LATER_ERROR_CODES = ['RATE_LIMITED', 'APPROVAL_ALREADY_PENDING'];
+
+    /** Most entries handled per location in one processing pass */
+    private const PROCESS_BATCH = 10;
+
+    /** Most entries handled per location by a lazy pass, which runs inside a user's request */
+    private const LAZY_BATCH = 2;
+
+    /** A lazy pass serves no further entry once it ran this long */
+    private const LAZY_TIME_BUDGET_SECONDS = 2.0;
+
+    /** Minimum seconds between two lazy passes */
+    private const PROCESS_INTERVAL_SECONDS = 30;
+
+    /**
+     * Check whether a rejected create payload may join the waitlist: every failing check is about
+     * node capacity, no other node the server may use has room for it and it needs no approval.
+     *
+     * @param int $userId User ID
+     * @param array<string,mixed> $data Create payload (policies already applied)
+     * @param array<int,array{field: string|null, error: string, error_code: string}> $errors Failing checks from collectServerCreationErrors
+     *
+     * @return array{error: string, error_code: string}|null Null when the user may join
+     */
+    public static function checkEligibility(int $userId, array $data, array $errors): ?array
+    {
+        if (!SettingsHelper::isWaitlistEnabled()) {
+            return ['error' => 'The waitlist is not enabled', 'error_code' => 'WAITLIST_DISABLED'];
+        }
+        if (empty($errors)) {
+            return ['error' => 'There is room for this server, create it directly', 'error_code' => 'WAITLIST_NOT_NEEDED'];
+        }
+
+        $nodeId = (int) ($data['node_id'] ?? 0);
+        foreach ($errors as $error) {
+            $isCapacityError = $error['field'] === 'node_id' && (
+                in_array($error['error_code'], self::CAPACITY_ERROR_CODES, true)
+                // A node strategy found no node with room, so none was chosen
+                || ($nodeId <= 0 && in_array($error['error_code'], ['MISSING_FIELD', 'NODE_NOT_FOUND'], true))
+            );
+            if (!$isCapacityError) {
+                return ['error' => $error['error'], 'error_code' => $error['error_code']];
+            }
+        }
+
+        if (self::findNode($userId, self::resolveLocationId($data), $data) !== null) {
+            return ['error' => 'Another node in this location has room for this server', 'error_code' => 'WAITLIST_NOT_NEEDED'];
+        }
+        // Entries are created without a review, so servers that need approval cannot wait in line
+        if (!empty(ApprovalHelper::getReasons($userId, $data))) {
+            return ['error' => 'This server needs an administrator\'s approval, so it cannot join the waitlist', 'error_code' => 'APPROVAL_REQUIRED'];
+        }
+        if (WaitlistEntry::hasActiveEntry($userId)) {
+            return ['error' => 'You are already on the waitlist', 'error_code' => 'WAITLIST_ALREADY_JOINED'];
+        }
+
+        return null;
+    }
+
+    /**
+     * Put a rejected create payload on the waitlist of its location.
+     *
+     * @param int $userId User ID
+     * @param array<string,mixed> $data Create payload (policies already applied)
+     * @param array<int,array{field: string|null, error: string, error_code: string}> $errors Failing checks from collectServerCreationErrors
+     *
+     * @return array{entry: array<string,mixed>|null, error?: string, error_code?: string}
+     */
+    public static function join(int $userId, array $data, array $errors): array
+    {
+        $ineligible = self::checkEligibility($userId, $data, $errors);
+        if ($ineligible !== null) {
+            return ['entry' => null] + $ineligible;
+        }
+
+        $entryId = WaitlistEntry::create($userId, self::resolveLocationId($data), $data);
+        if ($entryId === false) {
+            return ['entry' => null, 'error' => 'Failed to join the waitlist', 'error_code' => 'WAITLIST_JOIN_FAILED'];
+        }
+
+        return ['entry' => WaitlistEntry::getById($entryId)];
+    }
+
+    /**
+     * Run a small waitlist pass unless one ran recently. Meant for user requests: it creates servers for other
+     * users, so a failure is logged instead of failing the request.
+     *
+     * @return array{expired: int, offered: int, created: int, held: int, failed: int}|null Null when skipped or failed
+     */
+    public static function processIfDue(): ?array
+    {
+        if (time() - SettingsHelper::getLastWaitlistRun() < self::PROCESS_INTERVAL_SECONDS) {
+            return null;
+        }
+        SettingsHelper::setLastWaitlistRun(time());
+
+        try {
+            return self::process(self::LAZY_BATCH, self::LAZY_TIME_BUDGET_SECONDS);
+        } catch (\Throwable $e) {
+            App::getInstance(true)->getLogger()->error('Failed to process the waitlist: ' . $e->getMessage());
+
+            return null;
+        }
+    }
+
+    /**
+     * Hand freed capacity to the first users in line. In auto mode their servers are created right away;
+     * in confirm mode the slot is held for the first user of a location until they confirm or the offer expires.
+     *
+     * @param int $limit Most entries served per location
+     * @param float|null $timeBudget Seconds after which no further entry is served (null = no budget)
+     *
+     * @return array{expired: int, offered: int, created: int, held: int, failed: int} What this pass did
+     */
+    public static function process(int $limit = self::PROCESS_BATCH, ?float $timeBudget = null): array
+    {
+        $startedAt = microtime(true);
+        $stats = ['expired' => 0, 'offered' => 0, 'created' => 0, 'held' => 0, 'failed' => 0];
+        if (!SettingsHelper::isWaitlistEnabled()) {
+            return $stats;
+        }
+
+        $stats['expired'] = WaitlistEntry::expireOffers();
+        $confirm = SettingsHelper::getWaitlistMode() === 'confirm';
+
+        foreach (WaitlistEntry::getWaitingLocationIds() as $locationId) {
+            // An open offer holds the next free slot of the location
+            if ($confirm && WaitlistEntry::hasOpenOffer($locationId)) {
+                continue;
+            }
+            $outcomes = self::serveLine(
+                WaitlistEntry::getWaiting($locationId, $limit),
+                function (array $entry) use ($locationId, $confirm, $startedAt, $timeBudget): string {
+                    if ($timeBudget !== null && microtime(true) - $startedAt >= $timeBudget) {
+                        return 'stopped';
+                    }
+                    try {
+                        return self::serve($entry, $locationId, $confirm);
+                    } catch (\Throwable $e) {
+                        App::getInstance(true)->getLogger()->error('Failed to serve waitlist entry ' . $entry['id'] . ': ' . $e->getMessage());
+
+                        return 'failed';
+                    }
+                }
+            );
+            foreach (['offered', 'created', 'held', 'failed'] as $key) {
+                $stats[$key] += $outcomes[$key] ?? 0;
+            }
+        }
+
+        return $stats;
+    }
+
+    /**
+     * Serve the waiting entries of a location in order. An entry whose user has to wait (skipped) keeps its place
+     * and the next one is served; the location is done once the free slot is gone (no_room), held for a user (offered)
+     * or the pass ran out of time (stopped).
+     *
+     * @param list<array<string,mixed>> $entries Waiting entries, first in line first
+     * @param callable(array<string,mixed>): string $serve Serves one entry: created, held, offered, failed, skipped, no_room or stopped
+     *
+     * @return array<string,int> Number of entries per outcome
+     */
+    public static function serveLine(array $entries, callable $serve): array
+    {
+        $outcomes = [];
+        foreach ($entries as $entry) {
+            $outcome = $serve($entry);
+            $outcomes[$outcome] = ($outcomes[$outcome] ?? 0) + 1;
+            if (in_array($outcome, ['no_room', 'offered', 'stopped'], true)) {
+                break;
+            }
+        }
+
+        return $outcomes;
+    }
+
+    /**
+     * Create the server of an offered entry (confirm mode).
+     *
+     * @param array<string,mixed> $entry Waitlist entry
+     *
+     * @return array{entry: array<string,mixed>, request: array<string,mixed>|null, approval: array<string,mixed>|null, requeued: bool, error?: string, error_code?: string}
+     */
+    public static function confirm(array $entry): array
+    {
+        WaitlistEntry::expireOffers();
+        $entry = WaitlistEntry::getById((int) $entry['id']) ?? $entry;
+        if ($entry['status'] !== 'offered') {
+            return [
+                'entry' => $entry,
+                'request' => null,
+                'approval' => null,
+                'requeued' => false,
+                'error' => $entry['status'] === 'expired' ? 'The offer was not confirmed in time' : 'There is no free slot to confirm for this entry',
+                'error_code' => 'WAITLIST_NOT_OFFERED',
+            ];
+        }
+
+        return self::fulfil($entry, 'offered', $entry['payload']);
+    }
+
+    /**
+     * Take an active entry off the waitlist.
+     *
+     * @param array<string,mixed> $entry Waitlist entry
+     * @param string|null $reason Shown to the user (e.g. when an admin removed the entry)
+     *
+     * @return bool False when the entry was no longer active
+     */
+    public static function cancel(array $entry, ?string $reason = null): bool
+    {
+        if (!in_array($entry['status'], WaitlistEntry::ACTIVE_STATUSES, true)
+            || !WaitlistEntry::transition((int) $entry['id'], $entry['status'], 'cancelled')) {
+            return false;
+        }
+        WaitlistEntry::update((int) $entry['id'], ['error_message' => $reason, 'offer_expires_at' => null]);
+
+        return true;
+    }
+
+    /**
+     * Shape an entry for API responses.
+     *
+     * @param array<string,mixed> $entry Waitlist entry
+     *
+     * @return array<string,mixed> Public entry data
+     */
+    public static function formatEntry(array $entry): array
+    {
+        $payload = $entry['payload'];
+        $locationId = (int) $entry['location_id'];
+        $location = $locationId > 0 ? Location::getById($locationId) : null;
+        $nodeId = (int) ($payload['node_id'] ?? 0);
+
+        return [
+            'id' => (int) $entry['id'],
+            'status' => $entry['status'],
+            'position' => $entry['position'],
+            'location' => ['id' => $locationId > 0 ? $locationId : null, 'name' => $location['name'] ?? null],
+            'node_id' => $nodeId > 0 ? $nodeId : null,
+            'server_name' => $payload['name'] ?? null,
+            'memory' => (int) ($payload['memory'] ?? 0),
+            'cpu' => (int) ($payload['cpu'] ?? 0),
+            'disk' => (int) ($payload['disk'] ?? 0),
+            'creation_request_id' => $entry['creation_request_id'] !== null ? (int) $entry['creation_request_id'] : null,
+            'approval_request_id' => $entry['approval_request_id'] !== null ? (int) $entry['approval_request_id'] : null,
+            'error' => $entry['error_message'] ?? null,
+            'error_code' => $entry['error_code'] ?? null,
+            'offer_expires_at' => $entry['offer_expires_at'] ?? null,
+            'created_at' => $entry['created_at'] ?? null,
+            'updated_at' => $entry['updated_at'] ?? null,
+        ];
+    }
+
+    /**
+     * Offer a node with room to an entry (confirm mode) or create its server (auto mode).
+     *
+     * @param array<string,mixed> $entry Waiting entry
+     * @param int $locationId Location the entry waits in
+     * @param bool $confirm Whether the user has to confirm the slot
+     *
+     * @return string Outcome for serveLine
+     */
+    private static function serve(array $entry, int $locationId, bool $confirm): string
+    {
+        $userId = (int) $entry['user_id'];
+        // Offering a slot the user cannot take yet would hold it from everyone behind them
+        if (RateLimitHelper::check($userId) !== null) {
+            return 'skipped';
+        }
+        $nodeId = self::findNode($userId, $locationId, $entry['payload']);
+        if ($nodeId === null) {
+            return 'no_room';
+        }
+        $payload = self::placeOnNode($entry['payload'], $nodeId);
+        // Only one server per user waits for approval, so this one waits until the admin handled the other
+        if (ApprovalRequest::hasPendingRequest($userId) && !empty(ApprovalHelper::getReasons($userId, $payload))) {
+            return 'skipped';
+        }
+
+        if ($confirm) {
+            return WaitlistEntry::offer((int) $entry['id'], $payload, SettingsHelper::getWaitlistOfferMinutes()) ? 'offered' : 'skipped';
+        }
+
+        $result = self::fulfil($entry, 'waiting', $payload);
+        if ($result['request'] !== null) {
+            return 'created';
+        }
+        if ($result['approval'] !== null) {
+            return 'held';
+        }
+        if ($result['requeued']) {
+            // Someone else took the slot, or the user has to wait and the entry stays in line for a later pass
+            return in_array($result['error_code'] ?? null, self::CAPACITY_ERROR_CODES, true) ? 'no_room' : 'skipped';
+        }
+
+        return 'failed';
+    }
+
+    /**
+     * Create the server of an entry, or submit it for approval when a resource or group it falls under was flagged
+     * "requires approval" while it waited. A capacity failure (someone else took the slot) or a RETRY_LATER_ERROR_CODES
+     * failure puts the entry back in line; any other validation failure ends the entry.
+     *
+     * @param array<string,mixed> $entry Waitlist entry
+     * @param string $from Status the entry is claimed from (waiting or offered)
+     * @param array<string,mixed> $payload Payload placed on a node with room
+     *
+     * @return array{entry: array<string,mixed>, request: array<string,mixed>|null, approval: array<string,mixed>|null, requeued: bool, error?: string, error_code?: string}
+     */
+    private static function fulfil(array $entry, string $from, array $payload): array
+    {
+        $entryId = (int) $entry['id'];
+        if (!WaitlistEntry::transition($entryId, $from, 'fulfilled')) {
+            return [
+                'entry' => WaitlistEntry::getById($entryId) ?? $entry,
+                'request' => null,
+                'approval' => null,
+                'requeued' => false,
+                'error' => 'This waitlist entry was already handled',
+                'error_code' => 'WAITLIST_ENTRY_HANDLED',
+            ];
+        }
+
+        $userId = (int) $entry['user_id'];
+        $reasons = ApprovalHelper::getReasons($userId, $payload);
+        $result = (empty($reasons)
+            ? ServerProvisioningHelper::start($userId, $payload, microtime(true), null, ['source' => 'waitlist'])
+            : ApprovalHelper::submit($userId, $payload, $reasons, null, 'waitlist')) + ['request' => null, 'approval' => null];
+        $requeued = false;
+        if ($result['request'] !== null) {
+            // A failed database step stays on the creation request, where the user can retry or cancel it
+            WaitlistEntry::update($entryId, [
+                'payload' => $payload,
+                'creation_request_id' => (int) $result['request']['id'],
+                'offer_expires_at' => null,
+            ]);
+        } elseif ($result['approval'] !== null) {
+            // The entry leaves the line; the approval request takes over from here
+            WaitlistEntry::update($entryId, [
+                'payload' => $payload,
+                'approval_request_id' => (int) $result['approval']['id'],
+                'offer_expires_at' => null,
+            ]);
+        } elseif (in_array($result['error_code'] ?? null, [...self::CAPACITY_ERROR_CODES, ...self::RETRY_LATER_ERROR_CODES], true)) {
+            $requeued = true;
+            WaitlistEntry::update($entryId, ['status' => 'waiting', 'offer_expires_at' => null]);
+        } else {
+            WaitlistEntry::update($entryId, [
+                'status' => 'failed',
+                'error_message' => $result['error'] ?? 'Failed to create server',
+                'error_code' => $result['error_code'] ?? 'CREATE_SERVER_FAILED',
+                'offer_expires_at' => null,
+            ]);
+        }
+
+        return array_merge($result, ['entry' => WaitlistEntry::getById($entryId) ?? $entry, 'requeued' => $requeued]);
+    }
+
+    /**
+     * A node with room for the server of a payload, preferring the node it asked for.
+     * A node pinned by the placement policy is the only candidate.
+     *
+     * @param int $userId User ID
+     * @param int $locationId Location to search (0 = any)
+     * @param array<string,mixed> $payload Create payload
+     *
+     * @return int|null Node ID or null when every node is full
+     */
+    private static function findNode(int $userId, int $locationId, array $payload): ?int
+    {
+        $memory = (int) ($payload['memory'] ?? 0);
+        $disk = (int) ($payload['disk'] ?? 0);
+        $policy = SettingsHelper::getPlacementFieldPolicies()['node'] ?? ['mode' => 'user'];
+        $pinned = in_array($policy['mode'] ?? 'user', ['fixed', 'hidden'], true) && is_int($policy['value'] ?? null);
+
+        $nodeId = $pinned ? $policy['value'] : (int) ($payload['node_id'] ?? 0);
+        if ($nodeId > 0 && ServerCreationHelper::getNodePlacementMetrics($nodeId, $memory, $disk) !== null
+            && SettingsHelper::checkUserResourcePermission($userId, 'node', $nodeId)['allowed']) {
+            return $nodeId;
+        }
+        if ($pinned) {
+            return null;
+        }
+
+        $tag = is_string($policy['value'] ?? null) ? ($policy['tag'] ?? null) : null;
+
+        return PlacementHelper::resolveNode($userId, 'least_capacity', $locationId > 0 ? $locationId : null, $memory, $disk, $tag)['node_id'];
+    }
+
+    /**
+     * Location a payload waits in: the location of its node, else the one picked on the form (0 = any).
+     *
+     * @param array<string,mixed> $data Create payload
+     */
+    private static function resolveLocationId(array $data): int
+    {
+        $nodeId = (int) ($data['node_id'] ?? 0);
+        $node = $nodeId > 0 ? Node::getNodeById($nodeId) : null;
+        if ($node) {
+            return (int) ($node['location_id'] ?? 0);
+        }
+
+        return max(0, (int) ($data['location_id'] ?? 0));
+    }
+
+    /**
+     * Move a payload to the node that has room. The allocation picked on the form belongs to the old node.
+     *
+     * @param array<string,mixed> $payload Create payload
+     * @param int $nodeId Node with room
+     *
+     * @return array<string,mixed> Updated payload
+     */
+    private static function placeOnNode(array $payload, int $nodeId): array
+    {
+        if ((int) ($payload['node_id'] ?? 0) !== $nodeId) {
+            $payload['node_id'] = $nodeId;
+            unset($payload['allocation_id']);
+        }
+
+        return $payload;
+    }
+}
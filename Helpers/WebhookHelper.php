@@ -0,0 +1,306 @@
+<?php
+
+/*
+ * This file is part of FeatherPanel.
+ *
+ * Copyright (C) 2025 MythicalSystems Studios
+ * Copyright (C) 2025 FeatherPanel Contributors
+ * Copyright (C) 2025 Cassian Gherman (aka NaysKutzu)
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * See the LICENSE file or <https://www.gnu.org/licenses/>.
+ */
+
+namespace App\Addons\billingresourcesnewservers\Helpers;
+
+use App\App;
+use GuzzleHttp\Client;
+use App\Addons\billingresourcesnewservers\Chat\Webhook;
+use App\Addons\billingresourcesnewservers\Chat\WebhookDelivery;
+
+/**
+ * Helper that sends events to the configured webhooks, and the Discord announcements queued with them.
+ *
+ * Every request body is signed: X-Webhook-Signature is "sha256=" followed by the hex
+ * HMAC-SHA256 of "<X-Webhook-Timestamp>.<raw body>" keyed with the webhook's secret.
+ * Failed deliveries (network error or non-2xx answer) are retried with exponential
+ * backoff until the webhook's attempt limit.
+ *
+ * Dispatching only queues deliveries. There is no background worker: every creation
+ * status poll and every load of the create form sends at most one due delivery (see
+ * deliverNext), so a slow receiver delays a user request by TIMEOUT at most, and admins
+ * can send everything that is due from the Webhooks tab.
+ */
+class WebhookHelper
+{
+    /** Sent from the admin "Send test" button */
+    public const EVENT_PING = 'ping';
+
+    /** Seconds to wait for a receiver */
+    public const TIMEOUT = 5;
+
+    /** Deliveries sent when an admin processes the queue */
+    public const BATCH_SIZE = 10;
+
+    /** Delay before the first retry in seconds; doubles after every failed attempt */
+    public const RETRY_DELAY = 60;
+
+    /** Longest delay between two attempts in seconds */
+    public const MAX_RETRY_DELAY = 3600;
+
+    /** Characters of the receiver's answer kept in the delivery log */
+    private const RESPONSE_BODY_LIMIT = 2000;
+
+    /**
+     * Queue an event for every enabled webhook subscribed to it. Nothing is sent here.
+     *
+     * @param string $event Event name
+     * @param array<string,mixed> $payload Event payload
+     *
+     * @return list<int> IDs of the queued deliveries
+     */
+    public static function dispatch(string $event, array $payload): array
+    {
+        $deliveryIds = [];
+        foreach (Webhook::getEnabledForEvent($event) as $webhook) {
+            $deliveryId = WebhookDelivery::create((int) $webhook['id'], $event, $payload);
+            if ($deliveryId !== false) {
+                $deliveryIds[] = $deliveryId;
+            }
+        }
+
+        return $deliveryIds;
+    }
+
+    /**
+     * Make one attempt at the oldest due delivery. Called from user requests, so failures are only logged.
+     *
+     * @return array<string,mixed>|null Updated delivery, or null when nothing was sent
+     */
+    public static function deliverNext(): ?array
+    {
+        try {
+            $deliveryId = WebhookDelivery::getDueIds(1)[0] ?? null;
+
+            return $deliveryId !== null ? self::deliver($deliveryId) : null;
+        } catch (\Throwable $e) {
+            App::getInstance(true)->getLogger()->error('Failed to send a webhook delivery: ' . $e->getMessage());
+
+            return null;
+        }
+    }
+
+    /**
+     * Send deliveries whose next attempt is due, oldest first.
+     *
+     * @return array{delivered: int, retrying: int, failed: int} Outcome of the attempts made
+     */
+    public static function processDue(): array
+    {
+        $stats = ['delivered' => 0, 'retrying' => 0, 'failed' => 0];
+        foreach (WebhookDelivery::getDueIds(self::BATCH_SIZE) as $deliveryId) {
+            $delivery = self::deliver($deliveryId);
+            if ($delivery === null) {
+                continue;
+            }
+            ++$stats[$delivery['status'] === 'pending' ? 'retrying' : $delivery['status']];
+        }
+
+        return $stats;
+    }
+
+    /**
+     * Make one attempt at a due delivery.
+     *
+     * @param int $deliveryId Delivery ID
+     *
+     * @return array<string,mixed>|null Updated delivery, or null when it was not due or another request is sending it
+     */
+    public static function deliver(int $deliveryId): ?array
+    {
+        // The claim outlives the request timeout so a concurrent run never posts the same attempt
+        if (!WebhookDelivery::claim($deliveryId, self::TIMEOUT * 4)) {
+            return null;
+        }
+
+        $delivery = WebhookDelivery::getById($deliveryId);
+        if ($delivery === null) {
+            return null;
+        }
+
+        if ($delivery['target'] === WebhookDelivery::TARGET_DISCORD) {
+            $name = 'Discord';
+            $maxAttempts = DiscordHelper::MAX_ATTEMPTS;
+            $result = DiscordHelper::sendServerCreated($delivery);
+        } else {
+            $webhook = Webhook::getById((int) $delivery['webhook_id']);
+            if ($webhook === null) {
+                return null;
+            }
+            $name = (string) $webhook['name'];
+            $maxAttempts = (int) $webhook['max_attempts'];
+            $result = self::send($webhook, $delivery);
+        }
+
+        $attempts = (int) $delivery['attempts'] + 1;
+        $status = self::nextStatus($result['response_status'], $attempts, $maxAttempts);
+
+        WebhookDelivery::recordAttempt($deliveryId, $status, $result, self::retryDelay($attempts));
+
+        if ($status === 'failed') {
+            App::getInstance(true)->getLogger()->warning('Webhook ' . $name . ' gave up on delivery ' . $deliveryId . ' after ' . $attempts . ' attempts');
+        }
+
+        return WebhookDelivery::getById($deliveryId);
+    }
+
+    /**
+     * Status of a delivery after an attempt: delivered on a 2xx answer, failed once the webhook's attempts are used up, pending (retry later) otherwise.
+     *
+     * @param int|null $responseStatus HTTP status of the answer (null = no answer)
+     * @param int $attempts Attempts made, including this one
+     * @param int $maxAttempts Attempt limit of the webhook (at least one attempt is always made)
+     *
+     * @return string delivered, pending or failed
+     */
+    public static function nextStatus(?int $responseStatus, int $attempts, int $maxAttempts): string
+    {
+        if ($responseStatus !== null && $responseStatus >= 200 && $responseStatus < 300) {
+            return 'delivered';
+        }
+
+        return $attempts >= max(1, $maxAttempts) ? 'failed' : 'pending';
+    }
+
+    /**
+     * Seconds before the next attempt after a failed one: RETRY_DELAY, doubled after every failure, capped at MAX_RETRY_DELAY.
+     *
+     * @param int $attempts Attempts made so far
+     */
+    public static function retryDelay(int $attempts): int
+    {
+        return (int) min(self::MAX_RETRY_DELAY, self::RETRY_DELAY * (2 ** max(0, $attempts - 1)));
+    }
+
+    /**
+     * Queue an event again for the webhook (or Discord) of an earlier delivery and send it now.
+     *
+     * @param array<string,mixed> $delivery Earlier delivery
+     *
+     * @return array<string,mixed>|null The new delivery, or null when it could not be queued
+     */
+    public static function redeliver(array $delivery): ?array
+    {
+        $deliveryId = WebhookDelivery::create(
+            $delivery['webhook_id'] !== null ? (int) $delivery['webhook_id'] : null,
+            (string) $delivery['event'],
+            $delivery['payload'],
+            (string) $delivery['target']
+        );
+        if ($deliveryId === false) {
+            return null;
+        }
+
+        return self::deliver($deliveryId) ?? WebhookDelivery::getById($deliveryId);
+    }
+
+    /**
+     * Send a ping to a webhook so an admin can check the receiver and its signature check.
+     *
+     * @param array<string,mixed> $webhook Webhook record
+     *
+     * @return array<string,mixed>|null The delivery, or null when it could not be queued
+     */
+    public static function ping(array $webhook): ?array
+    {
+        $deliveryId = WebhookDelivery::create((int) $webhook['id'], self::EVENT_PING, [
+            'webhook' => ['id' => (int) $webhook['id'], 'name' => $webhook['name']],
+        ]);
+        if ($deliveryId === false) {
+            return null;
+        }
+
+        return self::deliver($deliveryId) ?? WebhookDelivery::getById($deliveryId);
+    }
+
+    /**
+     * Signature of a request body.
+     *
+     * @param string $secret Webhook secret
+     * @param string $timestamp Unix timestamp sent in X-Webhook-Timestamp
+     * @param string $body Raw request body
+     *
+     * @return string "sha256=<hex digest>"
+     */
+    public static function sign(string $secret, string $timestamp, string $body): string
+    {
+        return 'sha256=' . hash_hmac('sha256', $timestamp . '.' . $body, $secret);
+    }
+
+    /**
+     * A new random signing secret.
+     */
+    public static function generateSecret(): string
+    {
+        return bin2hex(random_bytes(32));
+    }
+
+    /**
+     * POST a delivery to its webhook.
+     *
+     * @param array<string,mixed> $webhook Webhook record
+     * @param array<string,mixed> $delivery Delivery record
+     *
+     * @return array{response_status: int|null, response_body: string|null, error_message: string|null, duration_ms: int}
+     */
+    private static function send(array $webhook, array $delivery): array
+    {
+        $body = json_encode([
+            'id' => (int) $delivery['id'],
+            'event' => $delivery['event'],
+            'created_at' => $delivery['created_at'],
+            'data' => $delivery['payload'],
+        ]);
+        $timestamp = (string) time();
+        $startedAt = microtime(true);
+
+        try {
+            $client = new Client([
+                'timeout' => self::TIMEOUT,
+                'connect_timeout' => self::TIMEOUT,
+                'http_errors' => false,
+                'allow_redirects' => false,
+            ]);
+            $response = $client->post((string) $webhook['url'], [
+                'body' => $body,
+                'headers' => [
+                    'Content-Type' => 'application/json',
+                    'User-Agent' => 'FeatherPanel-BillingResourcesNewServers-Webhook',
+                    'X-Webhook-Event' => $delivery['event'],
+                    'X-Webhook-Delivery' => (string) $delivery['id'],
+                    'X-Webhook-Timestamp' => $timestamp,
+                    'X-Webhook-Signature' => self::sign((string) $webhook['secret'], $timestamp, $body),
+                ],
+            ]);
+            $status = $response->getStatusCode();
+
+            return [
+                'response_status' => $status,
+                'response_body' => mb_substr((string) $response->getBody(), 0, self::RESPONSE_BODY_LIMIT),
+                'error_message' => $status >= 200 && $status < 300 ? null : 'The receiver answered with HTTP ' . $status,
+                'duration_ms' => (int) round((microtime(true) - $startedAt) * 1000),
+            ];
+        } catch (\Throwable $e) {
+            return [
+                'response_status' => null,
+                'response_body' => null,
+                'error_message' => $e->getMessage(),
+                'duration_ms' => (int) round((microtime(true) - $startedAt) * 1000),
+            ];
+        }
+    }
+}
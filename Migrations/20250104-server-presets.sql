@@ -0,0 +1,43 @@
+-- Server Presets Table for BillingResourcesNewServers
+-- Named bundles of resources, optional realm/spell/image and variable overrides that prefill the create form
+CREATE TABLE
+	IF NOT EXISTS `featherpanel_billingresourcesnewservers_presets` (
+		`id` INT (11) NOT NULL AUTO_INCREMENT,
+		`name` VARCHAR(255) NOT NULL,
+		`description` TEXT NULL DEFAULT NULL,
+		`memory` INT (11) NOT NULL DEFAULT 1024,
+		`cpu` INT (11) NOT NULL DEFAULT 100,
+		`disk` INT (11) NOT NULL DEFAULT 2048,
+		`swap` INT (11) NOT NULL DEFAULT 0,
+		`io` INT (11) NOT NULL DEFAULT 500,
+		`database_limit` INT (11) NOT NULL DEFAULT 0,
+		`allocation_limit` INT (11) NOT NULL DEFAULT 0,
+		`backup_limit` INT (11) NOT NULL DEFAULT 0,
+		`realm_id` INT (11) NULL DEFAULT NULL,
+		`spell_id` INT (11) NULL DEFAULT NULL,
+		`image` VARCHAR(255) NULL DEFAULT NULL,
+		`variables` TEXT NULL DEFAULT NULL,
+		`enabled` ENUM ('true', 'false') NOT NULL DEFAULT 'true',
+		`sort_order` INT (11) NOT NULL DEFAULT 0,
+		`created_at` TIMESTAMP NULL DEFAULT CURRENT_TIMESTAMP,
+		`updated_at` TIMESTAMP NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+		PRIMARY KEY (`id`),
+		UNIQUE KEY `unique_name` (`name`),
+		KEY `idx_sort_order` (`sort_order`)
+	) ENGINE = InnoDB DEFAULT CHARSET = utf8mb4 COLLATE = utf8mb4_general_ci;
+
+-- Preset Groups Table
+-- Restricts a preset to specific permission groups (no rows = available to everyone)
+CREATE TABLE
+	IF NOT EXISTS `featherpanel_billingresourcesnewservers_preset_groups` (
+		`id` INT (11) NOT NULL AUTO_INCREMENT,
+		`preset_id` INT (11) NOT NULL,
+		`group_id` INT (11) NOT NULL,
+		`created_at` TIMESTAMP NULL DEFAULT CURRENT_TIMESTAMP,
+		PRIMARY KEY (`id`),
+		UNIQUE KEY `unique_preset_group` (`preset_id`, `group_id`),
+		KEY `idx_preset_id` (`preset_id`),
+		KEY `idx_group_id` (`group_id`),
+		CONSTRAINT `fk_preset_groups_preset_id` FOREIGN KEY (`preset_id`) REFERENCES `featherpanel_billingresourcesnewservers_presets` (`id`) ON DELETE CASCADE,
+		CONSTRAINT `fk_preset_groups_group_id` FOREIGN KEY (`group_id`) REFERENCES `featherpanel_billingresourcesnewservers_groups` (`id`) ON DELETE CASCADE
+	) ENGINE = InnoDB DEFAULT CHARSET = utf8mb4 COLLATE = utf8mb4_general_ci;
\ No newline at end of file
@@ -0,0 +1,22 @@
+-- Server Creation Requests Table for BillingResourcesNewServers
+-- Tracks each user create request through the provisioning pipeline so slow nodes can be polled and failed steps retried
+CREATE TABLE
+	IF NOT EXISTS `featherpanel_billingresourcesnewservers_creation_requests` (
+		`id` INT (11) NOT NULL AUTO_INCREMENT,
+		`user_id` INT (11) NOT NULL,
+		`state` ENUM ('queued', 'db_created', 'wings_pending', 'installing', 'done', 'failed') NOT NULL DEFAULT 'queued',
+		`failed_state` ENUM ('queued', 'db_created', 'wings_pending', 'installing') NULL DEFAULT NULL,
+		`payload` TEXT NOT NULL,
+		`server_id` INT (11) NULL DEFAULT NULL,
+		`server_uuid` VARCHAR(36) NULL DEFAULT NULL,
+		`error_message` TEXT NULL DEFAULT NULL,
+		`error_code` VARCHAR(64) NULL DEFAULT NULL,
+		`attempts` INT (11) NOT NULL DEFAULT 1,
+		`created_at` TIMESTAMP NULL DEFAULT CURRENT_TIMESTAMP,
+		`updated_at` TIMESTAMP NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+		PRIMARY KEY (`id`),
+		KEY `idx_user_id` (`user_id`),
+		KEY `idx_state` (`state`),
+		KEY `idx_server_id` (`server_id`),
+		CONSTRAINT `creation_requests_user_id_foreign` FOREIGN KEY (`user_id`) REFERENCES `featherpanel_users` (`id`) ON DELETE CASCADE
+	) ENGINE = InnoDB DEFAULT CHARSET = utf8mb4 COLLATE = utf8mb4_general_ci;
\ No newline at end of file
@@ -0,0 +1,6 @@
+-- Rollback ledger for Server Creation Requests
+-- side_effects: JSON list of changes made while provisioning (server, allocation, wings), undone in reverse order on failure
+-- rollback: JSON report of the last rollback (which steps were undone and which could not be)
+ALTER TABLE `featherpanel_billingresourcesnewservers_creation_requests`
+	ADD COLUMN `side_effects` TEXT NULL DEFAULT NULL AFTER `server_uuid`,
+	ADD COLUMN `rollback` TEXT NULL DEFAULT NULL AFTER `side_effects`;
\ No newline at end of file
@@ -0,0 +1,24 @@
+-- Server Quotas for BillingResourcesNewServers
+-- Caps on servers created through this plugin; NULL = no cap. Group caps resolve by highest priority, per-user overrides win
+ALTER TABLE `featherpanel_billingresourcesnewservers_groups`
+	ADD COLUMN `max_servers` INT (11) NULL DEFAULT NULL AFTER `priority`,
+	ADD COLUMN `max_memory_per_server` INT (11) NULL DEFAULT NULL AFTER `max_servers`,
+	ADD COLUMN `max_servers_per_location` INT (11) NULL DEFAULT NULL AFTER `max_memory_per_server`,
+	ADD COLUMN `max_servers_per_spell` INT (11) NULL DEFAULT NULL AFTER `max_servers_per_location`;
+
+-- User Quota Overrides Table
+-- Per-user caps that take precedence over the user's groups (NULL column = fall back to groups)
+CREATE TABLE
+	IF NOT EXISTS `featherpanel_billingresourcesnewservers_user_quotas` (
+		`id` INT (11) NOT NULL AUTO_INCREMENT,
+		`user_id` INT (11) NOT NULL,
+		`max_servers` INT (11) NULL DEFAULT NULL,
+		`max_memory_per_server` INT (11) NULL DEFAULT NULL,
+		`max_servers_per_location` INT (11) NULL DEFAULT NULL,
+		`max_servers_per_spell` INT (11) NULL DEFAULT NULL,
+		`created_at` TIMESTAMP NULL DEFAULT CURRENT_TIMESTAMP,
+		`updated_at` TIMESTAMP NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+		PRIMARY KEY (`id`),
+		UNIQUE KEY `unique_user_id` (`user_id`),
+		CONSTRAINT `user_quotas_user_id_foreign` FOREIGN KEY (`user_id`) REFERENCES `featherpanel_users` (`id`) ON DELETE CASCADE
+	) ENGINE = InnoDB DEFAULT CHARSET = utf8mb4 COLLATE = utf8mb4_general_ci;
\ No newline at end of file
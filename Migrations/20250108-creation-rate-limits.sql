@@ -0,0 +1,13 @@
+-- Creation Rate Limits for BillingResourcesNewServers
+-- server_deleted_at: when the user deleted a server they created through this plugin from My Servers (starts the post-deletion cooldown);
+-- deletions by an admin, the panel or the lifetime reclaim never set it
+ALTER TABLE `featherpanel_billingresourcesnewservers_creation_requests`
+	ADD COLUMN `server_deleted_at` TIMESTAMP NULL DEFAULT NULL AFTER `server_uuid`,
+	ADD KEY `idx_user_created_at` (`user_id`, `created_at`);
+
+-- Per-group overrides of the global rate limit settings (NULL = use the global setting)
+ALTER TABLE `featherpanel_billingresourcesnewservers_groups`
+	ADD COLUMN `rate_limit_max_creations` INT (11) NULL DEFAULT NULL AFTER `max_servers_per_spell`,
+	ADD COLUMN `rate_limit_window_minutes` INT (11) NULL DEFAULT NULL AFTER `rate_limit_max_creations`,
+	ADD COLUMN `creation_cooldown_seconds` INT (11) NULL DEFAULT NULL AFTER `rate_limit_window_minutes`,
+	ADD COLUMN `deletion_cooldown_seconds` INT (11) NULL DEFAULT NULL AFTER `creation_cooldown_seconds`;
\ No newline at end of file
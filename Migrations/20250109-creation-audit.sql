@@ -0,0 +1,35 @@
+-- Server Creation Audit Table for BillingResourcesNewServers
+-- One row per creation attempt (first run, each retry, and requests rejected by validation) for the admin Activity view
+-- user_id is kept as a plain column so audit history survives user deletion
+-- source: where an attempt came from (the create form, an approved request or the waitlist)
+-- held: the server was submitted for an admin's approval instead of being created (approval_request_id links the request)
+CREATE TABLE
+	IF NOT EXISTS `featherpanel_billingresourcesnewservers_creation_audit` (
+		`id` INT (11) NOT NULL AUTO_INCREMENT,
+		`user_id` INT (11) NOT NULL,
+		`creation_request_id` INT (11) NULL DEFAULT NULL,
+		`approval_request_id` INT (11) NULL DEFAULT NULL,
+		`attempt` INT (11) NOT NULL DEFAULT 1,
+		`source` ENUM ('direct', 'approval', 'waitlist') NOT NULL DEFAULT 'direct',
+		`payload` TEXT NOT NULL,
+		`node_id` INT (11) NULL DEFAULT NULL,
+		`realms_id` INT (11) NULL DEFAULT NULL,
+		`spell_id` INT (11) NULL DEFAULT NULL,
+		`server_id` INT (11) NULL DEFAULT NULL,
+		`outcome` ENUM ('pending', 'succeeded', 'failed', 'rejected', 'held') NOT NULL DEFAULT 'pending',
+		`error_code` VARCHAR(64) NULL DEFAULT NULL,
+		`error_message` TEXT NULL DEFAULT NULL,
+		`wings_status` INT (11) NULL DEFAULT NULL,
+		`duration_ms` INT (11) NULL DEFAULT NULL,
+		`ip_address` VARCHAR(45) NULL DEFAULT NULL,
+		`created_at` TIMESTAMP(3) NULL DEFAULT CURRENT_TIMESTAMP(3),
+		`updated_at` TIMESTAMP NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+		PRIMARY KEY (`id`),
+		KEY `idx_user_id` (`user_id`),
+		KEY `idx_creation_request_id` (`creation_request_id`),
+		KEY `idx_outcome` (`outcome`),
+		KEY `idx_source` (`source`),
+		KEY `idx_error_code` (`error_code`),
+		KEY `idx_node_id` (`node_id`),
+		KEY `idx_created_at` (`created_at`)
+	) ENGINE = InnoDB DEFAULT CHARSET = utf8mb4 COLLATE = utf8mb4_general_ci;
\ No newline at end of file
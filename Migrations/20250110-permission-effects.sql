@@ -0,0 +1,12 @@
+-- Permission Effects and Validity Windows for BillingResourcesNewServers
+-- effect: allow grants access, deny overrides grants (see SettingsHelper::explainUserResourcePermission for the precedence)
+-- starts_at / expires_at: optional validity window in database server time (NULL = unbounded)
+ALTER TABLE `featherpanel_billingresourcesnewservers_user_permissions`
+	ADD COLUMN `effect` ENUM ('allow', 'deny') NOT NULL DEFAULT 'allow' AFTER `resource_id`,
+	ADD COLUMN `starts_at` TIMESTAMP NULL DEFAULT NULL AFTER `custom_error_message`,
+	ADD COLUMN `expires_at` TIMESTAMP NULL DEFAULT NULL AFTER `starts_at`;
+
+ALTER TABLE `featherpanel_billingresourcesnewservers_group_permissions`
+	ADD COLUMN `effect` ENUM ('allow', 'deny') NOT NULL DEFAULT 'allow' AFTER `resource_id`,
+	ADD COLUMN `starts_at` TIMESTAMP NULL DEFAULT NULL AFTER `custom_error_message`,
+	ADD COLUMN `expires_at` TIMESTAMP NULL DEFAULT NULL AFTER `starts_at`;
\ No newline at end of file
@@ -0,0 +1,9 @@
+-- Automatic Group Membership for BillingResourcesNewServers
+-- Groups can carry membership rules (JSON: match all/any of conditions); matching users are synced into user_groups
+ALTER TABLE `featherpanel_billingresourcesnewservers_groups`
+	ADD COLUMN `membership_rules` TEXT NULL DEFAULT NULL AFTER `deletion_cooldown_seconds`;
+
+-- Where a membership comes from: assigned by an admin (manual) or derived from the group's rules (rule)
+ALTER TABLE `featherpanel_billingresourcesnewservers_user_groups`
+	ADD COLUMN `source` ENUM ('manual', 'rule') NOT NULL DEFAULT 'manual' AFTER `group_id`,
+	ADD KEY `idx_group_source` (`group_id`, `source`);
\ No newline at end of file
@@ -0,0 +1,23 @@
+-- Server Creation Waitlist Table for BillingResourcesNewServers
+-- Users whose server did not fit on any node wait here with their validated create payload, in order per location
+-- location_id is 0 when the server is not tied to a location (any node will do); offer_expires_at is set while a free slot is held for the user to confirm
+-- approval_request_id is set when the server needed approval by the time the entry reached the front of the line and was handed to the approval queue
+CREATE TABLE
+	IF NOT EXISTS `featherpanel_billingresourcesnewservers_waitlist` (
+		`id` INT (11) NOT NULL AUTO_INCREMENT,
+		`user_id` INT (11) NOT NULL,
+		`location_id` INT (11) NOT NULL DEFAULT 0,
+		`payload` TEXT NOT NULL,
+		`status` ENUM ('waiting', 'offered', 'fulfilled', 'failed', 'cancelled', 'expired') NOT NULL DEFAULT 'waiting',
+		`creation_request_id` INT (11) NULL DEFAULT NULL,
+		`approval_request_id` INT (11) NULL DEFAULT NULL,
+		`error_message` TEXT NULL DEFAULT NULL,
+		`error_code` VARCHAR(64) NULL DEFAULT NULL,
+		`offer_expires_at` TIMESTAMP NULL DEFAULT NULL,
+		`created_at` TIMESTAMP NULL DEFAULT CURRENT_TIMESTAMP,
+		`updated_at` TIMESTAMP NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+		PRIMARY KEY (`id`),
+		KEY `idx_user_id` (`user_id`),
+		KEY `idx_status_location` (`status`, `location_id`, `id`),
+		CONSTRAINT `waitlist_user_id_foreign` FOREIGN KEY (`user_id`) REFERENCES `featherpanel_users` (`id`) ON DELETE CASCADE
+	) ENGINE = InnoDB DEFAULT CHARSET = utf8mb4 COLLATE = utf8mb4_general_ci;
\ No newline at end of file
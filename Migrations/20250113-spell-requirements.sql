@@ -0,0 +1,19 @@
+-- Spell Requirements Table for BillingResourcesNewServers
+-- Minimum and recommended resources per spell (realm rows act as a fallback) and a per-spell docker image allow-list
+CREATE TABLE
+	IF NOT EXISTS `featherpanel_billingresourcesnewservers_spell_requirements` (
+		`id` INT (11) NOT NULL AUTO_INCREMENT,
+		`resource_type` ENUM ('realm', 'spell') NOT NULL,
+		`resource_id` INT (11) NOT NULL,
+		`min_memory` INT (11) NULL DEFAULT NULL,
+		`min_cpu` INT (11) NULL DEFAULT NULL,
+		`min_disk` INT (11) NULL DEFAULT NULL,
+		`recommended_memory` INT (11) NULL DEFAULT NULL,
+		`recommended_cpu` INT (11) NULL DEFAULT NULL,
+		`recommended_disk` INT (11) NULL DEFAULT NULL,
+		`docker_images` TEXT NULL DEFAULT NULL,
+		`created_at` TIMESTAMP NULL DEFAULT CURRENT_TIMESTAMP,
+		`updated_at` TIMESTAMP NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+		PRIMARY KEY (`id`),
+		UNIQUE KEY `unique_resource` (`resource_type`, `resource_id`)
+	) ENGINE = InnoDB DEFAULT CHARSET = utf8mb4 COLLATE = utf8mb4_general_ci;
\ No newline at end of file
@@ -0,0 +1,43 @@
+-- Webhooks Table for BillingResourcesNewServers
+-- Outgoing HTTP endpoints notified of server creation events; each request is signed with the webhook's secret (HMAC-SHA256)
+-- events is a JSON list of event names (NULL = every event)
+CREATE TABLE
+	IF NOT EXISTS `featherpanel_billingresourcesnewservers_webhooks` (
+		`id` INT (11) NOT NULL AUTO_INCREMENT,
+		`name` VARCHAR(255) NOT NULL,
+		`url` VARCHAR(2048) NOT NULL,
+		`secret` VARCHAR(255) NOT NULL,
+		`events` TEXT NULL DEFAULT NULL,
+		`max_attempts` INT (11) NOT NULL DEFAULT 5,
+		`enabled` ENUM ('true', 'false') NOT NULL DEFAULT 'true',
+		`created_at` TIMESTAMP NULL DEFAULT CURRENT_TIMESTAMP,
+		`updated_at` TIMESTAMP NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+		PRIMARY KEY (`id`),
+		UNIQUE KEY `unique_name` (`name`)
+	) ENGINE = InnoDB DEFAULT CHARSET = utf8mb4 COLLATE = utf8mb4_general_ci;
+
+-- Webhook Deliveries Table
+-- One row per event sent to a webhook; pending rows are retried with backoff until delivered or out of attempts
+-- target = discord rows (creation announcements) have no webhook and are sent to the Discord webhook URL from the settings
+CREATE TABLE
+	IF NOT EXISTS `featherpanel_billingresourcesnewservers_webhook_deliveries` (
+		`id` INT (11) NOT NULL AUTO_INCREMENT,
+		`webhook_id` INT (11) NULL DEFAULT NULL,
+		`target` ENUM ('webhook', 'discord') NOT NULL DEFAULT 'webhook',
+		`event` VARCHAR(100) NOT NULL,
+		`payload` MEDIUMTEXT NOT NULL,
+		`status` ENUM ('pending', 'delivered', 'failed') NOT NULL DEFAULT 'pending',
+		`attempts` INT (11) NOT NULL DEFAULT 0,
+		`response_status` INT (11) NULL DEFAULT NULL,
+		`response_body` TEXT NULL DEFAULT NULL,
+		`error_message` TEXT NULL DEFAULT NULL,
+		`duration_ms` INT (11) NULL DEFAULT NULL,
+		`next_attempt_at` DATETIME NULL DEFAULT NULL,
+		`delivered_at` DATETIME NULL DEFAULT NULL,
+		`created_at` TIMESTAMP NULL DEFAULT CURRENT_TIMESTAMP,
+		`updated_at` TIMESTAMP NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+		PRIMARY KEY (`id`),
+		KEY `idx_webhook_id` (`webhook_id`),
+		KEY `idx_status_next_attempt` (`status`, `next_attempt_at`),
+		CONSTRAINT `fk_webhook_deliveries_webhook_id` FOREIGN KEY (`webhook_id`) REFERENCES `featherpanel_billingresourcesnewservers_webhooks` (`id`) ON DELETE CASCADE
+	) ENGINE = InnoDB DEFAULT CHARSET = utf8mb4 COLLATE = utf8mb4_general_ci;
\ No newline at end of file
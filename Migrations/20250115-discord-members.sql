@@ -0,0 +1,14 @@
+-- Discord Members Table for BillingResourcesNewServers
+-- Cached guild membership and roles of users with a linked Discord account (read through the configured bot)
+CREATE TABLE
+	IF NOT EXISTS `featherpanel_billingresourcesnewservers_discord_members` (
+		`user_id` INT (11) NOT NULL,
+		`discord_id` VARCHAR(32) NOT NULL,
+		`guild_id` VARCHAR(32) NOT NULL,
+		`in_guild` ENUM ('true', 'false') NOT NULL DEFAULT 'false',
+		`role_ids` TEXT NULL DEFAULT NULL,
+		`synced_at` TIMESTAMP NULL DEFAULT CURRENT_TIMESTAMP,
+		PRIMARY KEY (`user_id`),
+		KEY `idx_guild` (`guild_id`),
+		CONSTRAINT `discord_members_user_id_foreign` FOREIGN KEY (`user_id`) REFERENCES `featherpanel_users` (`id`) ON DELETE CASCADE
+	) ENGINE = InnoDB DEFAULT CHARSET = utf8mb4 COLLATE = utf8mb4_general_ci;
\ No newline at end of file
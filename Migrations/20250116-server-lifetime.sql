@@ -0,0 +1,36 @@
+-- Tracked Servers Table for BillingResourcesNewServers
+-- Servers created through this plugin, with the state of their lifetime / inactivity reclamation (warned, then suspended, then deleted)
+-- last_active_at: last time the server was seen running (or renewed); renewed_at restarts the lifetime; checked_at: last reclamation pass
+CREATE TABLE
+	IF NOT EXISTS `featherpanel_billingresourcesnewservers_servers` (
+		`id` INT (11) NOT NULL AUTO_INCREMENT,
+		`server_id` INT (11) NOT NULL,
+		`user_id` INT (11) NOT NULL,
+		`creation_request_id` INT (11) NULL DEFAULT NULL,
+		`reclaim_state` ENUM ('active', 'warned', 'suspended', 'deleted') NOT NULL DEFAULT 'active',
+		`reclaim_reason` ENUM ('lifetime', 'inactivity') NULL DEFAULT NULL,
+		`last_active_at` TIMESTAMP NULL DEFAULT CURRENT_TIMESTAMP,
+		`renewed_at` TIMESTAMP NULL DEFAULT NULL,
+		`warned_at` TIMESTAMP NULL DEFAULT NULL,
+		`suspended_at` TIMESTAMP NULL DEFAULT NULL,
+		`deleted_at` TIMESTAMP NULL DEFAULT NULL,
+		`checked_at` TIMESTAMP NULL DEFAULT NULL,
+		`created_at` TIMESTAMP NULL DEFAULT CURRENT_TIMESTAMP,
+		`updated_at` TIMESTAMP NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+		PRIMARY KEY (`id`),
+		UNIQUE KEY `unique_server_id` (`server_id`),
+		KEY `idx_user_id` (`user_id`),
+		KEY `idx_reclaim_state_checked_at` (`reclaim_state`, `checked_at`),
+		CONSTRAINT `servers_user_id_foreign` FOREIGN KEY (`user_id`) REFERENCES `featherpanel_users` (`id`) ON DELETE CASCADE
+	) ENGINE = InnoDB DEFAULT CHARSET = utf8mb4 COLLATE = utf8mb4_general_ci;
+
+-- Track the servers created before this table existed (their lifetime counts from creation, inactivity from now)
+INSERT IGNORE INTO `featherpanel_billingresourcesnewservers_servers` (`server_id`, `user_id`, `creation_request_id`, `created_at`)
+SELECT `server_id`, `user_id`, `id`, `created_at`
+FROM `featherpanel_billingresourcesnewservers_creation_requests`
+WHERE `state` = 'done' AND `server_id` IS NOT NULL AND `server_deleted_at` IS NULL;
+
+-- Per-group overrides of the global lifetime settings (NULL = use the global setting, 0 = never reclaim)
+ALTER TABLE `featherpanel_billingresourcesnewservers_groups`
+	ADD COLUMN `lifetime_days` INT (11) NULL DEFAULT NULL AFTER `deletion_cooldown_seconds`,
+	ADD COLUMN `inactivity_days` INT (11) NULL DEFAULT NULL AFTER `lifetime_days`;
\ No newline at end of file
@@ -0,0 +1,31 @@
+-- Server Approval Requests Table for BillingResourcesNewServers
+-- Servers on resources or for groups flagged "requires approval" wait here with their validated create payload until an admin approves or rejects them
+-- reasons: JSON list of what triggered the approval ({type, id, name}); creation_request_id is set once an approved request is provisioned
+CREATE TABLE
+	IF NOT EXISTS `featherpanel_billingresourcesnewservers_approval_requests` (
+		`id` INT (11) NOT NULL AUTO_INCREMENT,
+		`user_id` INT (11) NOT NULL,
+		`payload` TEXT NOT NULL,
+		`reasons` TEXT NULL DEFAULT NULL,
+		`status` ENUM ('pending', 'approved', 'rejected', 'failed', 'cancelled') NOT NULL DEFAULT 'pending',
+		`rejection_reason` TEXT NULL DEFAULT NULL,
+		`reviewed_by` INT (11) NULL DEFAULT NULL,
+		`reviewed_at` TIMESTAMP NULL DEFAULT NULL,
+		`creation_request_id` INT (11) NULL DEFAULT NULL,
+		`error_message` TEXT NULL DEFAULT NULL,
+		`error_code` VARCHAR(64) NULL DEFAULT NULL,
+		`created_at` TIMESTAMP NULL DEFAULT CURRENT_TIMESTAMP,
+		`updated_at` TIMESTAMP NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+		PRIMARY KEY (`id`),
+		KEY `idx_user_id` (`user_id`),
+		KEY `idx_status` (`status`, `id`),
+		CONSTRAINT `approval_requests_user_id_foreign` FOREIGN KEY (`user_id`) REFERENCES `featherpanel_users` (`id`) ON DELETE CASCADE
+	) ENGINE = InnoDB DEFAULT CHARSET = utf8mb4 COLLATE = utf8mb4_general_ci;
+
+-- Resources whose free servers need an admin's approval before they are provisioned
+ALTER TABLE `featherpanel_billingresourcesnewservers_resource_permissions`
+	ADD COLUMN `requires_approval` TINYINT (1) NOT NULL DEFAULT 0 AFTER `default_error_message`;
+
+-- Groups whose members' free servers need an admin's approval before they are provisioned
+ALTER TABLE `featherpanel_billingresourcesnewservers_groups`
+	ADD COLUMN `requires_approval` TINYINT (1) NOT NULL DEFAULT 0 AFTER `inactivity_days`;
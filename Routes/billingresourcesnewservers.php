@@ -20,8 +20,18 @@ use App\Permissions;
 use App\Helpers\ApiResponse;
 use Symfony\Component\HttpFoundation\Request;
 use Symfony\Component\Routing\RouteCollection;
+use App\Addons\billingresourcesnewservers\Controllers\Admin\AuditController;
+use App\Addons\billingresourcesnewservers\Controllers\Admin\ConfigController;
 use App\Addons\billingresourcesnewservers\Controllers\Admin\GroupsController;
+use App\Addons\billingresourcesnewservers\Controllers\Admin\LookupController;
+use App\Addons\billingresourcesnewservers\Controllers\Admin\PresetsController;
+use App\Addons\billingresourcesnewservers\Controllers\Admin\ApprovalsController;
+use App\Addons\billingresourcesnewservers\Controllers\Admin\WaitlistController;
+use App\Addons\billingresourcesnewservers\Controllers\Admin\WebhooksController;
+use App\Addons\billingresourcesnewservers\Controllers\User\MyServersController;
+use App\Addons\billingresourcesnewservers\Controllers\Admin\ServerLifetimeController;
 use App\Addons\billingresourcesnewservers\Controllers\Admin\UserPermissionsController;
+use App\Addons\billingresourcesnewservers\Controllers\Admin\SpellRequirementsController;
 use App\Addons\billingresourcesnewservers\Controllers\Admin\ResourcePermissionsController;
 use App\Addons\billingresourcesnewservers\Controllers\Admin\SettingsController as AdminController;
 use App\Addons\billingresourcesnewservers\Controllers\User\ServerCreationController as UserController;
@@ -77,6 +87,216 @@ return function (RouteCollection $routes): void {
         ['POST']
     );
 
+    // Validate a server creation request without creating anything (dry run)
+    App::getInstance(true)->registerAuthRoute(
+        $routes,
+        'billingresourcesnewservers-user-validate-server',
+        '/api/user/billingresourcesnewservers/servers/validate',
+        function (Request $request) {
+            return (new UserController())->validateServer($request);
+        },
+        ['POST']
+    );
+
+    // Suggest a server name that follows the naming policy
+    App::getInstance(true)->registerAuthRoute(
+        $routes,
+        'billingresourcesnewservers-user-generate-server-name',
+        '/api/user/billingresourcesnewservers/servers/generate-name',
+        function (Request $request) {
+            return (new UserController())->generateServerName($request);
+        },
+        ['GET']
+    );
+
+    // Get the status of a server creation request (polling advances the pipeline)
+    App::getInstance(true)->registerAuthRoute(
+        $routes,
+        'billingresourcesnewservers-user-creation-request',
+        '/api/user/billingresourcesnewservers/servers/requests/{id}',
+        function (Request $request, array $args) {
+            $id = $args['id'] ?? null;
+            if (!$id || !is_numeric($id)) {
+                return ApiResponse::error('Missing or invalid ID', 'INVALID_ID', 400);
+            }
+
+            return (new UserController())->getCreationRequest($request, (int) $id);
+        },
+        ['GET']
+    );
+
+    // Cancel a failed server creation request and roll back its changes
+    App::getInstance(true)->registerAuthRoute(
+        $routes,
+        'billingresourcesnewservers-user-creation-request-cancel',
+        '/api/user/billingresourcesnewservers/servers/requests/{id}',
+        function (Request $request, array $args) {
+            $id = $args['id'] ?? null;
+            if (!$id || !is_numeric($id)) {
+                return ApiResponse::error('Missing or invalid ID', 'INVALID_ID', 400);
+            }
+
+            return (new UserController())->cancelCreationRequest($request, (int) $id);
+        },
+        ['DELETE']
+    );
+
+    // Retry a failed server creation request
+    App::getInstance(true)->registerAuthRoute(
+        $routes,
+        'billingresourcesnewservers-user-creation-request-retry',
+        '/api/user/billingresourcesnewservers/servers/requests/{id}/retry',
+        function (Request $request, array $args) {
+            $id = $args['id'] ?? null;
+            if (!$id || !is_numeric($id)) {
+                return ApiResponse::error('Missing or invalid ID', 'INVALID_ID', 400);
+            }
+
+            return (new UserController())->retryCreationRequest($request, (int) $id);
+        },
+        ['POST']
+    );
+
+    // Get the waitlist entries of the current user
+    App::getInstance(true)->registerAuthRoute(
+        $routes,
+        'billingresourcesnewservers-user-waitlist',
+        '/api/user/billingresourcesnewservers/waitlist',
+        function (Request $request) {
+            return (new UserController())->getWaitlist($request);
+        },
+        ['GET']
+    );
+
+    // Join the waitlist when every eligible node is full
+    App::getInstance(true)->registerAuthRoute(
+        $routes,
+        'billingresourcesnewservers-user-waitlist-join',
+        '/api/user/billingresourcesnewservers/waitlist',
+        function (Request $request) {
+            return (new UserController())->joinWaitlist($request);
+        },
+        ['POST']
+    );
+
+    // Confirm a waitlist offer and create the server
+    App::getInstance(true)->registerAuthRoute(
+        $routes,
+        'billingresourcesnewservers-user-waitlist-confirm',
+        '/api/user/billingresourcesnewservers/waitlist/{id}/confirm',
+        function (Request $request, array $args) {
+            $id = $args['id'] ?? null;
+            if (!$id || !is_numeric($id)) {
+                return ApiResponse::error('Missing or invalid ID', 'INVALID_ID', 400);
+            }
+
+            return (new UserController())->confirmWaitlistEntry($request, (int) $id);
+        },
+        ['POST']
+    );
+
+    // Leave the waitlist
+    App::getInstance(true)->registerAuthRoute(
+        $routes,
+        'billingresourcesnewservers-user-waitlist-leave',
+        '/api/user/billingresourcesnewservers/waitlist/{id}',
+        function (Request $request, array $args) {
+            $id = $args['id'] ?? null;
+            if (!$id || !is_numeric($id)) {
+                return ApiResponse::error('Missing or invalid ID', 'INVALID_ID', 400);
+            }
+
+            return (new UserController())->leaveWaitlist($request, (int) $id);
+        },
+        ['DELETE']
+    );
+
+    // Get the approval requests of the current user
+    App::getInstance(true)->registerAuthRoute(
+        $routes,
+        'billingresourcesnewservers-user-approvals',
+        '/api/user/billingresourcesnewservers/approvals',
+        function (Request $request) {
+            return (new UserController())->getApprovals($request);
+        },
+        ['GET']
+    );
+
+    // Withdraw a server that is waiting for approval
+    App::getInstance(true)->registerAuthRoute(
+        $routes,
+        'billingresourcesnewservers-user-approvals-cancel',
+        '/api/user/billingresourcesnewservers/approvals/{id}',
+        function (Request $request, array $args) {
+            $id = $args['id'] ?? null;
+            if (!$id || !is_numeric($id)) {
+                return ApiResponse::error('Missing or invalid ID', 'INVALID_ID', 400);
+            }
+
+            return (new UserController())->cancelApproval($request, (int) $id);
+        },
+        ['DELETE']
+    );
+
+    // Servers the user created through this plugin
+    App::getInstance(true)->registerAuthRoute(
+        $routes,
+        'billingresourcesnewservers-user-my-servers',
+        '/api/user/billingresourcesnewservers/my-servers',
+        function (Request $request) {
+            return (new MyServersController())->getMyServers($request);
+        },
+        ['GET']
+    );
+
+    // Restart the lifetime of a server
+    App::getInstance(true)->registerAuthRoute(
+        $routes,
+        'billingresourcesnewservers-user-my-servers-renew',
+        '/api/user/billingresourcesnewservers/my-servers/{id}/renew',
+        function (Request $request, array $args) {
+            $id = $args['id'] ?? null;
+            if (!$id || !is_numeric($id)) {
+                return ApiResponse::error('Missing or invalid ID', 'INVALID_ID', 400);
+            }
+
+            return (new MyServersController())->renewServer($request, (int) $id);
+        },
+        ['POST']
+    );
+
+    // Grow or shrink a server within the resource pool
+    App::getInstance(true)->registerAuthRoute(
+        $routes,
+        'billingresourcesnewservers-user-my-servers-resize',
+        '/api/user/billingresourcesnewservers/my-servers/{id}/resize',
+        function (Request $request, array $args) {
+            $id = $args['id'] ?? null;
+            if (!$id || !is_numeric($id)) {
+                return ApiResponse::error('Missing or invalid ID', 'INVALID_ID', 400);
+            }
+
+            return (new MyServersController())->resizeServer($request, (int) $id);
+        },
+        ['POST']
+    );
+
+    // Delete a server and free its resources
+    App::getInstance(true)->registerAuthRoute(
+        $routes,
+        'billingresourcesnewservers-user-my-servers-delete',
+        '/api/user/billingresourcesnewservers/my-servers/{id}',
+        function (Request $request, array $args) {
+            $id = $args['id'] ?? null;
+            if (!$id || !is_numeric($id)) {
+                return ApiResponse::error('Missing or invalid ID', 'INVALID_ID', 400);
+            }
+
+            return (new MyServersController())->deleteServer($request, (int) $id);
+        },
+        ['DELETE']
+    );
+
     // Admin Routes
     // Get plugin settings
     App::getInstance(true)->registerAdminRoute(
@@ -102,7 +322,49 @@ return function (RouteCollection $routes): void {
         ['PATCH', 'PUT']
     );
 
+    // Lookup Routes
+    // Search users
+    App::getInstance(true)->registerAdminRoute(
+        $routes,
+        'billingresourcesnewservers-admin-lookup-users',
+        '/api/admin/billingresourcesnewservers/lookup/users',
+        function (Request $request) {
+            return (new LookupController())->searchUsers($request);
+        },
+        Permissions::ADMIN_USERS_VIEW,
+        ['GET']
+    );
+
+    // Search locations, nodes, realms or spells
+    App::getInstance(true)->registerAdminRoute(
+        $routes,
+        'billingresourcesnewservers-admin-lookup-resources',
+        '/api/admin/billingresourcesnewservers/lookup/{resourceType}',
+        function (Request $request, array $args) {
+            $resourceType = $args['resourceType'] ?? null;
+            if (!$resourceType) {
+                return ApiResponse::error('Missing resource type', 'INVALID_RESOURCE_TYPE', 400);
+            }
+
+            return (new LookupController())->searchResources($request, $resourceType);
+        },
+        Permissions::ADMIN_USERS_VIEW,
+        ['GET']
+    );
+
     // User Permissions Routes
+    // List users with custom permissions
+    App::getInstance(true)->registerAdminRoute(
+        $routes,
+        'billingresourcesnewservers-admin-user-permissions-list',
+        '/api/admin/billingresourcesnewservers/user-permissions',
+        function (Request $request) {
+            return (new UserPermissionsController())->getUsersWithPermissions($request);
+        },
+        Permissions::ADMIN_USERS_VIEW,
+        ['GET']
+    );
+
     // Get user permissions
     App::getInstance(true)->registerAdminRoute(
         $routes,
@@ -164,6 +426,30 @@ return function (RouteCollection $routes): void {
         ['POST']
     );
 
+    // Preview membership rules
+    App::getInstance(true)->registerAdminRoute(
+        $routes,
+        'billingresourcesnewservers-admin-groups-membership-rules-preview',
+        '/api/admin/billingresourcesnewservers/groups/membership-rules/preview',
+        function (Request $request) {
+            return (new GroupsController())->previewMembershipRules($request);
+        },
+        Permissions::ADMIN_USERS_VIEW,
+        ['POST']
+    );
+
+    // List Discord roles for membership rules
+    App::getInstance(true)->registerAdminRoute(
+        $routes,
+        'billingresourcesnewservers-admin-groups-discord-roles',
+        '/api/admin/billingresourcesnewservers/groups/discord-roles',
+        function (Request $request) {
+            return (new GroupsController())->getDiscordRoles($request);
+        },
+        Permissions::ADMIN_USERS_VIEW,
+        ['GET']
+    );
+
     // Get single group
     App::getInstance(true)->registerAdminRoute(
         $routes,
@@ -374,6 +660,444 @@ return function (RouteCollection $routes): void {
         ['POST']
     );
 
+    // Get user quotas (override + effective)
+    App::getInstance(true)->registerAdminRoute(
+        $routes,
+        'billingresourcesnewservers-admin-users-quotas-get',
+        '/api/admin/billingresourcesnewservers/users/{userId}/quotas',
+        function (Request $request, array $args) {
+            $userId = $args['userId'] ?? null;
+            if (!$userId || !is_numeric($userId)) {
+                return ApiResponse::error('Missing or invalid User ID', 'INVALID_USER_ID', 400);
+            }
+
+            return (new UserPermissionsController())->getUserQuotas($request, (int) $userId);
+        },
+        Permissions::ADMIN_USERS_VIEW,
+        ['GET']
+    );
+
+    // Set user quota override
+    App::getInstance(true)->registerAdminRoute(
+        $routes,
+        'billingresourcesnewservers-admin-users-quotas-set',
+        '/api/admin/billingresourcesnewservers/users/{userId}/quotas',
+        function (Request $request, array $args) {
+            $userId = $args['userId'] ?? null;
+            if (!$userId || !is_numeric($userId)) {
+                return ApiResponse::error('Missing or invalid User ID', 'INVALID_USER_ID', 400);
+            }
+
+            return (new UserPermissionsController())->setUserQuotas($request, (int) $userId);
+        },
+        Permissions::ADMIN_USERS_EDIT,
+        ['PUT']
+    );
+
+    // Remove user quota override
+    App::getInstance(true)->registerAdminRoute(
+        $routes,
+        'billingresourcesnewservers-admin-users-quotas-delete',
+        '/api/admin/billingresourcesnewservers/users/{userId}/quotas',
+        function (Request $request, array $args) {
+            $userId = $args['userId'] ?? null;
+            if (!$userId || !is_numeric($userId)) {
+                return ApiResponse::error('Missing or invalid User ID', 'INVALID_USER_ID', 400);
+            }
+
+            return (new UserPermissionsController())->deleteUserQuotas($request, (int) $userId);
+        },
+        Permissions::ADMIN_USERS_EDIT,
+        ['DELETE']
+    );
+
+    // Simulate the create form as a user
+    App::getInstance(true)->registerAdminRoute(
+        $routes,
+        'billingresourcesnewservers-admin-users-simulate',
+        '/api/admin/billingresourcesnewservers/users/{userId}/simulate',
+        function (Request $request, array $args) {
+            $userId = $args['userId'] ?? null;
+            if (!$userId || !is_numeric($userId)) {
+                return ApiResponse::error('Missing or invalid User ID', 'INVALID_USER_ID', 400);
+            }
+
+            return (new UserPermissionsController())->simulateUser($request, (int) $userId);
+        },
+        Permissions::ADMIN_USERS_VIEW,
+        ['GET']
+    );
+
+    // Presets Routes
+    // Get all presets
+    App::getInstance(true)->registerAdminRoute(
+        $routes,
+        'billingresourcesnewservers-admin-presets-get-all',
+        '/api/admin/billingresourcesnewservers/presets',
+        function (Request $request) {
+            return (new PresetsController())->getAllPresets($request);
+        },
+        Permissions::ADMIN_USERS_VIEW,
+        ['GET']
+    );
+
+    // Create preset
+    App::getInstance(true)->registerAdminRoute(
+        $routes,
+        'billingresourcesnewservers-admin-presets-create',
+        '/api/admin/billingresourcesnewservers/presets',
+        function (Request $request) {
+            return (new PresetsController())->createPreset($request);
+        },
+        Permissions::ADMIN_USERS_EDIT,
+        ['POST']
+    );
+
+    // Update preset
+    App::getInstance(true)->registerAdminRoute(
+        $routes,
+        'billingresourcesnewservers-admin-presets-update',
+        '/api/admin/billingresourcesnewservers/presets/{presetId}',
+        function (Request $request, array $args) {
+            $presetId = $args['presetId'] ?? null;
+            if (!$presetId || !is_numeric($presetId)) {
+                return ApiResponse::error('Missing or invalid Preset ID', 'INVALID_PRESET_ID', 400);
+            }
+
+            return (new PresetsController())->updatePreset($request, (int) $presetId);
+        },
+        Permissions::ADMIN_USERS_EDIT,
+        ['PATCH', 'PUT']
+    );
+
+    // Delete preset
+    App::getInstance(true)->registerAdminRoute(
+        $routes,
+        'billingresourcesnewservers-admin-presets-delete',
+        '/api/admin/billingresourcesnewservers/presets/{presetId}',
+        function (Request $request, array $args) {
+            $presetId = $args['presetId'] ?? null;
+            if (!$presetId || !is_numeric($presetId)) {
+                return ApiResponse::error('Missing or invalid Preset ID', 'INVALID_PRESET_ID', 400);
+            }
+
+            return (new PresetsController())->deletePreset($request, (int) $presetId);
+        },
+        Permissions::ADMIN_USERS_DELETE,
+        ['DELETE']
+    );
+
+    // Audit Routes
+    // Get creation audit entries
+    App::getInstance(true)->registerAdminRoute(
+        $routes,
+        'billingresourcesnewservers-admin-audit-get',
+        '/api/admin/billingresourcesnewservers/audit',
+        function (Request $request) {
+            return (new AuditController())->getAudit($request);
+        },
+        Permissions::ADMIN_USERS_VIEW,
+        ['GET']
+    );
+
+    // Export creation audit entries as CSV
+    App::getInstance(true)->registerAdminRoute(
+        $routes,
+        'billingresourcesnewservers-admin-audit-export',
+        '/api/admin/billingresourcesnewservers/audit/export',
+        function (Request $request) {
+            return (new AuditController())->exportAudit($request);
+        },
+        Permissions::ADMIN_USERS_VIEW,
+        ['GET']
+    );
+
+    // Waitlist Routes
+    // Get the waitlist queue
+    App::getInstance(true)->registerAdminRoute(
+        $routes,
+        'billingresourcesnewservers-admin-waitlist',
+        '/api/admin/billingresourcesnewservers/waitlist',
+        function (Request $request) {
+            return (new WaitlistController())->getWaitlist($request);
+        },
+        Permissions::ADMIN_USERS_VIEW,
+        ['GET']
+    );
+
+    // Hand freed capacity to the waitlist now
+    App::getInstance(true)->registerAdminRoute(
+        $routes,
+        'billingresourcesnewservers-admin-waitlist-process',
+        '/api/admin/billingresourcesnewservers/waitlist/process',
+        function (Request $request) {
+            return (new WaitlistController())->processWaitlist($request);
+        },
+        Permissions::ADMIN_USERS_EDIT,
+        ['POST']
+    );
+
+    // Remove an entry from the waitlist
+    App::getInstance(true)->registerAdminRoute(
+        $routes,
+        'billingresourcesnewservers-admin-waitlist-remove',
+        '/api/admin/billingresourcesnewservers/waitlist/{id}/remove',
+        function (Request $request, array $args) {
+            $id = $args['id'] ?? null;
+            if (!$id || !is_numeric($id)) {
+                return ApiResponse::error('Missing or invalid ID', 'INVALID_ID', 400);
+            }
+
+            return (new WaitlistController())->removeEntry($request, (int) $id);
+        },
+        Permissions::ADMIN_USERS_EDIT,
+        ['POST']
+    );
+
+    // Approval Routes
+    // Get the approval queue
+    App::getInstance(true)->registerAdminRoute(
+        $routes,
+        'billingresourcesnewservers-admin-approvals',
+        '/api/admin/billingresourcesnewservers/approvals',
+        function (Request $request) {
+            return (new ApprovalsController())->getApprovals($request);
+        },
+        Permissions::ADMIN_USERS_VIEW,
+        ['GET']
+    );
+
+    // Approve a server and start provisioning it
+    App::getInstance(true)->registerAdminRoute(
+        $routes,
+        'billingresourcesnewservers-admin-approvals-approve',
+        '/api/admin/billingresourcesnewservers/approvals/{id}/approve',
+        function (Request $request, array $args) {
+            $id = $args['id'] ?? null;
+            if (!$id || !is_numeric($id)) {
+                return ApiResponse::error('Missing or invalid ID', 'INVALID_ID', 400);
+            }
+
+            return (new ApprovalsController())->approve($request, (int) $id);
+        },
+        Permissions::ADMIN_USERS_EDIT,
+        ['POST']
+    );
+
+    // Reject a server with a reason shown to the user
+    App::getInstance(true)->registerAdminRoute(
+        $routes,
+        'billingresourcesnewservers-admin-approvals-reject',
+        '/api/admin/billingresourcesnewservers/approvals/{id}/reject',
+        function (Request $request, array $args) {
+            $id = $args['id'] ?? null;
+            if (!$id || !is_numeric($id)) {
+                return ApiResponse::error('Missing or invalid ID', 'INVALID_ID', 400);
+            }
+
+            return (new ApprovalsController())->reject($request, (int) $id);
+        },
+        Permissions::ADMIN_USERS_EDIT,
+        ['POST']
+    );
+
+    // Warn, suspend or delete expired and inactive servers now
+    App::getInstance(true)->registerAdminRoute(
+        $routes,
+        'billingresourcesnewservers-admin-servers-reclaim',
+        '/api/admin/billingresourcesnewservers/servers/reclaim',
+        function (Request $request) {
+            return (new ServerLifetimeController())->processReclamation($request);
+        },
+        Permissions::ADMIN_USERS_EDIT,
+        ['POST']
+    );
+
+    // Spell Requirements Routes
+    // Get the requirements of every realm and spell
+    App::getInstance(true)->registerAdminRoute(
+        $routes,
+        'billingresourcesnewservers-admin-spell-requirements',
+        '/api/admin/billingresourcesnewservers/spell-requirements',
+        function (Request $request) {
+            return (new SpellRequirementsController())->getRequirements($request);
+        },
+        Permissions::ADMIN_USERS_VIEW,
+        ['GET']
+    );
+
+    // Set the requirements of a realm or spell
+    App::getInstance(true)->registerAdminRoute(
+        $routes,
+        'billingresourcesnewservers-admin-spell-requirements-set',
+        '/api/admin/billingresourcesnewservers/spell-requirements',
+        function (Request $request) {
+            return (new SpellRequirementsController())->setRequirements($request);
+        },
+        Permissions::ADMIN_USERS_EDIT,
+        ['POST']
+    );
+
+    // Delete the requirements of a realm or spell
+    App::getInstance(true)->registerAdminRoute(
+        $routes,
+        'billingresourcesnewservers-admin-spell-requirements-delete',
+        '/api/admin/billingresourcesnewservers/spell-requirements/{resourceType}/{resourceId}',
+        function (Request $request, array $args) {
+            $resourceType = $args['resourceType'] ?? null;
+            $resourceId = $args['resourceId'] ?? null;
+            if (!$resourceType || !in_array($resourceType, ['realm', 'spell'], true) || !$resourceId || !is_numeric($resourceId)) {
+                return ApiResponse::error('Invalid resource type or ID', 'INVALID_PARAMS', 400);
+            }
+
+            return (new SpellRequirementsController())->deleteRequirements($request, $resourceType, (int) $resourceId);
+        },
+        Permissions::ADMIN_USERS_DELETE,
+        ['DELETE']
+    );
+
+    // Webhook Routes
+    // Get all webhooks
+    App::getInstance(true)->registerAdminRoute(
+        $routes,
+        'billingresourcesnewservers-admin-webhooks-get-all',
+        '/api/admin/billingresourcesnewservers/webhooks',
+        function (Request $request) {
+            return (new WebhooksController())->getWebhooks($request);
+        },
+        Permissions::ADMIN_USERS_VIEW,
+        ['GET']
+    );
+
+    // Create webhook
+    App::getInstance(true)->registerAdminRoute(
+        $routes,
+        'billingresourcesnewservers-admin-webhooks-create',
+        '/api/admin/billingresourcesnewservers/webhooks',
+        function (Request $request) {
+            return (new WebhooksController())->createWebhook($request);
+        },
+        Permissions::ADMIN_USERS_EDIT,
+        ['POST']
+    );
+
+    // Update webhook
+    App::getInstance(true)->registerAdminRoute(
+        $routes,
+        'billingresourcesnewservers-admin-webhooks-update',
+        '/api/admin/billingresourcesnewservers/webhooks/{webhookId}',
+        function (Request $request, array $args) {
+            $webhookId = $args['webhookId'] ?? null;
+            if (!$webhookId || !is_numeric($webhookId)) {
+                return ApiResponse::error('Missing or invalid Webhook ID', 'INVALID_WEBHOOK_ID', 400);
+            }
+
+            return (new WebhooksController())->updateWebhook($request, (int) $webhookId);
+        },
+        Permissions::ADMIN_USERS_EDIT,
+        ['PATCH', 'PUT']
+    );
+
+    // Delete webhook
+    App::getInstance(true)->registerAdminRoute(
+        $routes,
+        'billingresourcesnewservers-admin-webhooks-delete',
+        '/api/admin/billingresourcesnewservers/webhooks/{webhookId}',
+        function (Request $request, array $args) {
+            $webhookId = $args['webhookId'] ?? null;
+            if (!$webhookId || !is_numeric($webhookId)) {
+                return ApiResponse::error('Missing or invalid Webhook ID', 'INVALID_WEBHOOK_ID', 400);
+            }
+
+            return (new WebhooksController())->deleteWebhook($request, (int) $webhookId);
+        },
+        Permissions::ADMIN_USERS_DELETE,
+        ['DELETE']
+    );
+
+    // Send a test event to a webhook
+    App::getInstance(true)->registerAdminRoute(
+        $routes,
+        'billingresourcesnewservers-admin-webhooks-test',
+        '/api/admin/billingresourcesnewservers/webhooks/{webhookId}/test',
+        function (Request $request, array $args) {
+            $webhookId = $args['webhookId'] ?? null;
+            if (!$webhookId || !is_numeric($webhookId)) {
+                return ApiResponse::error('Missing or invalid Webhook ID', 'INVALID_WEBHOOK_ID', 400);
+            }
+
+            return (new WebhooksController())->testWebhook($request, (int) $webhookId);
+        },
+        Permissions::ADMIN_USERS_EDIT,
+        ['POST']
+    );
+
+    // Get the webhook delivery log
+    App::getInstance(true)->registerAdminRoute(
+        $routes,
+        'billingresourcesnewservers-admin-webhook-deliveries',
+        '/api/admin/billingresourcesnewservers/webhook-deliveries',
+        function (Request $request) {
+            return (new WebhooksController())->getDeliveries($request);
+        },
+        Permissions::ADMIN_USERS_VIEW,
+        ['GET']
+    );
+
+    // Send due webhook retries now
+    App::getInstance(true)->registerAdminRoute(
+        $routes,
+        'billingresourcesnewservers-admin-webhook-deliveries-process',
+        '/api/admin/billingresourcesnewservers/webhook-deliveries/process',
+        function (Request $request) {
+            return (new WebhooksController())->processDeliveries($request);
+        },
+        Permissions::ADMIN_USERS_EDIT,
+        ['POST']
+    );
+
+    // Redeliver a webhook event
+    App::getInstance(true)->registerAdminRoute(
+        $routes,
+        'billingresourcesnewservers-admin-webhook-deliveries-redeliver',
+        '/api/admin/billingresourcesnewservers/webhook-deliveries/{id}/redeliver',
+        function (Request $request, array $args) {
+            $id = $args['id'] ?? null;
+            if (!$id || !is_numeric($id)) {
+                return ApiResponse::error('Missing or invalid ID', 'INVALID_ID', 400);
+            }
+
+            return (new WebhooksController())->redeliver($request, (int) $id);
+        },
+        Permissions::ADMIN_USERS_EDIT,
+        ['POST']
+    );
+
+    // Config Routes
+    // Export the plugin configuration
+    App::getInstance(true)->registerAdminRoute(
+        $routes,
+        'billingresourcesnewservers-admin-config-export',
+        '/api/admin/billingresourcesnewservers/config/export',
+        function (Request $request) {
+            return (new ConfigController())->exportConfig($request);
+        },
+        Permissions::ADMIN_USERS_VIEW,
+        ['GET']
+    );
+
+    // Preview or apply a configuration import
+    App::getInstance(true)->registerAdminRoute(
+        $routes,
+        'billingresourcesnewservers-admin-config-import',
+        '/api/admin/billingresourcesnewservers/config/import',
+        function (Request $request) {
+            return (new ConfigController())->importConfig($request);
+        },
+        Permissions::ADMIN_USERS_EDIT,
+        ['POST']
+    );
+
     // Resource Permissions Routes
     // Get resource permissions by type
     App::getInstance(true)->registerAdminRoute(
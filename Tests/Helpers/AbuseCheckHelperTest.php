@@ -0,0 +1,79 @@
+<?php
+
+/*
+ * This file is part of FeatherPanel.
+ *
+ * Copyright (C) 2025 MythicalSystems Studios
+ * Copyright (C) 2025 FeatherPanel Contributors
+ * Copyright (C) 2025 Cassian Gherman (aka NaysKutzu)
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * See the LICENSE file or <https://www.gnu.org/licenses/>.
+ */
+
+namespace App\Addons\billingresourcesnewservers\Tests\Helpers;
+
+use App\Addons\billingresourcesnewservers\Tests\TestCase;
+use App\Addons\billingresourcesnewservers\Helpers\AbuseCheckHelper;
+
+class AbuseCheckHelperTest extends TestCase
+{
+    public function testIpv4Ranges(): void
+    {
+        $this->assertTrue(AbuseCheckHelper::ipInRange('10.1.2.3', '10.0.0.0/8'));
+        $this->assertTrue(AbuseCheckHelper::ipInRange('192.168.1.77', '192.168.1.77'));
+        $this->assertTrue(AbuseCheckHelper::ipInRange('8.8.8.8', '0.0.0.0/0'));
+        $this->assertFalse(AbuseCheckHelper::ipInRange('11.0.0.1', '10.0.0.0/8'));
+        $this->assertFalse(AbuseCheckHelper::ipInRange('192.168.1.78', '192.168.1.77'));
+    }
+
+    public function testPrefixesInsideAByte(): void
+    {
+        // 172.16.0.0/12 covers 172.16.0.0 - 172.31.255.255
+        $this->assertTrue(AbuseCheckHelper::ipInRange('172.16.0.1', '172.16.0.0/12'));
+        $this->assertTrue(AbuseCheckHelper::ipInRange('172.31.255.255', '172.16.0.0/12'));
+        $this->assertFalse(AbuseCheckHelper::ipInRange('172.32.0.1', '172.16.0.0/12'));
+        $this->assertTrue(AbuseCheckHelper::ipInRange('203.0.113.63', '203.0.113.0/26'));
+        $this->assertFalse(AbuseCheckHelper::ipInRange('203.0.113.64', '203.0.113.0/26'));
+    }
+
+    public function testIpv6Ranges(): void
+    {
+        $this->assertTrue(AbuseCheckHelper::ipInRange('2001:db8::1', '2001:db8::/32'));
+        $this->assertFalse(AbuseCheckHelper::ipInRange('2001:db8:8000::1', '2001:db8::/33'));
+        $this->assertTrue(AbuseCheckHelper::ipInRange('2001:DB8:0:0::5', '2001:db8::5'));
+        $this->assertFalse(AbuseCheckHelper::ipInRange('2001:db9::1', '2001:db8::/32'));
+    }
+
+    public function testFamiliesDoNotMix(): void
+    {
+        $this->assertFalse(AbuseCheckHelper::ipInRange('10.0.0.1', '::/0'));
+        $this->assertFalse(AbuseCheckHelper::ipInRange('::ffff:10.0.0.1', '10.0.0.0/8'));
+    }
+
+    public function testInvalidAddressesAndRangesNeverMatch(): void
+    {
+        $this->assertFalse(AbuseCheckHelper::ipInRange('', '10.0.0.0/8'));
+        $this->assertFalse(AbuseCheckHelper::ipInRange('not-an-ip', '10.0.0.0/8'));
+        $this->assertFalse(AbuseCheckHelper::ipInRange('10.0.0.1', '10.0.0.0/33'));
+        $this->assertFalse(AbuseCheckHelper::ipInRange('10.0.0.1', '10.0.0.0/-1'));
+        $this->assertFalse(AbuseCheckHelper::ipInRange('10.0.0.1', '10.0.0/8'));
+        $this->assertFalse(AbuseCheckHelper::ipInRange('10.0.0.1', 'example.com'));
+    }
+
+    public function testPolicyRejectsInvalidRanges(): void
+    {
+        $parsed = AbuseCheckHelper::parsePolicyInput(['blocked_ip_ranges' => [' 10.0.0.0/8 ', '', '2001:DB8::/32']]);
+        $this->assertNull($parsed['error']);
+        $this->assertSame(['10.0.0.0/8', '2001:db8::/32'], $parsed['policy']['blocked_ip_ranges']);
+
+        $this->assertSame(
+            'abuse_checks.blocked_ip_ranges: "10.0.0.0/40" is not an IP address or CIDR range',
+            AbuseCheckHelper::parsePolicyInput(['blocked_ip_ranges' => ['10.0.0.0/40']])['error']
+        );
+    }
+}
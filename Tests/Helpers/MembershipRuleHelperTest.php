@@ -0,0 +1,90 @@
+<?php
+
+/*
+ * This file is part of FeatherPanel.
+ *
+ * Copyright (C) 2025 MythicalSystems Studios
+ * Copyright (C) 2025 FeatherPanel Contributors
+ * Copyright (C) 2025 Cassian Gherman (aka NaysKutzu)
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * See the LICENSE file or <https://www.gnu.org/licenses/>.
+ */
+
+namespace App\Addons\billingresourcesnewservers\Tests\Helpers;
+
+use App\Addons\billingresourcesnewservers\Tests\TestCase;
+use App\Addons\billingresourcesnewservers\Helpers\MembershipRuleHelper;
+
+class MembershipRuleHelperTest extends TestCase
+{
+    /**
+     * @param array<string,mixed> $input
+     *
+     * @return array<string,mixed>
+     */
+    private function rules(array $input): array
+    {
+        $parsed = MembershipRuleHelper::parseRulesInput($input);
+        $this->assertNull($parsed['error']);
+
+        return $parsed['rules'];
+    }
+
+    public function testAllConditionsAreJoinedWithAnd(): void
+    {
+        $sql = MembershipRuleHelper::buildSql($this->rules(['conditions' => [
+            ['type' => 'discord_linked'],
+            ['type' => 'account_age', 'min_days' => '30'],
+        ]]));
+
+        $this->assertSame("(u.discord_oauth2_linked = 'true' AND u.first_seen <= DATE_SUB(NOW(), INTERVAL :mr1_days DAY))", $sql['predicate']);
+        $this->assertSame(['mr1_days' => 30], $sql['params']);
+        $this->assertSame([], $sql['warnings']);
+    }
+
+    public function testAnyConditionsAreJoinedWithOrAndUseOnePrefixEach(): void
+    {
+        $sql = MembershipRuleHelper::buildSql($this->rules(['match' => 'any', 'conditions' => [
+            ['type' => 'panel_role', 'role_ids' => [2, '3', 2]],
+            ['type' => 'panel_role', 'role_ids' => [5]],
+        ]]));
+
+        $this->assertSame('(u.role_id IN (:mr0_role0, :mr0_role1) OR u.role_id IN (:mr1_role0))', $sql['predicate']);
+        $this->assertSame(['mr0_role0' => 2, 'mr0_role1' => 3, 'mr1_role0' => 5], $sql['params']);
+    }
+
+    public function testEmailDomainsMatchTheDomainAndWildcardSubdomains(): void
+    {
+        $sql = MembershipRuleHelper::buildSql($this->rules(['conditions' => [
+            ['type' => 'email_domain', 'domains' => ['@Example.org', '*.school.edu']],
+        ]]));
+
+        $this->assertSame('((LOWER(u.email) LIKE :mr0_domain0 OR (LOWER(u.email) LIKE :mr0_domain1a OR LOWER(u.email) LIKE :mr0_domain1b)))', $sql['predicate']);
+        $this->assertSame(['mr0_domain0' => '%@example.org', 'mr0_domain1a' => '%@school.edu', 'mr0_domain1b' => '%@%.school.edu'], $sql['params']);
+    }
+
+    public function testEmptyConditionsMeanNoRules(): void
+    {
+        $this->assertSame(['rules' => null, 'error' => null], MembershipRuleHelper::parseRulesInput(['match' => 'any', 'conditions' => []]));
+        $this->assertSame(['rules' => null, 'error' => null], MembershipRuleHelper::parseRulesInput(null));
+    }
+
+    public function testInvalidRulesAreRejectedWithTheConditionIndex(): void
+    {
+        $this->assertSame('membership_rules.match must be all or any', MembershipRuleHelper::parseRulesInput(['match' => 'some'])['error']);
+        $this->assertSame('membership_rules.conditions must be a list', MembershipRuleHelper::parseRulesInput(['conditions' => ['a' => ['type' => 'discord_linked']]])['error']);
+        $this->assertSame(
+            'membership_rules.conditions[1]: min_days must be 1 or greater',
+            MembershipRuleHelper::parseRulesInput(['conditions' => [['type' => 'discord_linked'], ['type' => 'account_age', 'min_days' => 0]]])['error']
+        );
+        $this->assertSame(
+            'membership_rules.conditions[0]: invalid domain "example"',
+            MembershipRuleHelper::parseRulesInput(['conditions' => [['type' => 'email_domain', 'domains' => ['example']]]])['error']
+        );
+    }
+}
@@ -0,0 +1,104 @@
+<?php
+
+/*
+ * This file is part of FeatherPanel.
+ *
+ * Copyright (C) 2025 MythicalSystems Studios
+ * Copyright (C) 2025 FeatherPanel Contributors
+ * Copyright (C) 2025 Cassian Gherman (aka NaysKutzu)
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * See the LICENSE file or <https://www.gnu.org/licenses/>.
+ */
+
+namespace App\Addons\billingresourcesnewservers\Tests\Helpers;
+
+use App\Addons\billingresourcesnewservers\Tests\TestCase;
+use App\Addons\billingresourcesnewservers\Helpers\PermissionRuleHelper;
+
+class PermissionRuleHelperTest extends TestCase
+{
+    /**
+     * @return array<string,mixed>
+     */
+    private static function entry(string $effect, bool $active = true, ?int $groupId = null): array
+    {
+        return ['effect' => $effect, 'is_active' => $active, 'group_id' => $groupId, 'group_name' => $groupId !== null ? 'Group ' . $groupId : null];
+    }
+
+    /**
+     * @param array{decision: array{source: string, entry: array<string,mixed>}|null} $decided
+     */
+    private static function rule(array $decided): ?string
+    {
+        $decision = $decided['decision'];
+
+        return $decision === null ? null : $decision['source'] . '_' . $decision['entry']['effect'] . ($decision['entry']['group_id'] !== null ? '#' . $decision['entry']['group_id'] : '');
+    }
+
+    public function testUserEntryBeatsGroupEntries(): void
+    {
+        $this->assertSame('user_deny', self::rule(PermissionRuleHelper::decide(self::entry('deny'), [self::entry('allow', true, 1)])));
+        $this->assertSame('user_allow', self::rule(PermissionRuleHelper::decide(self::entry('allow'), [self::entry('deny', true, 1)])));
+    }
+
+    public function testAnyGroupDenyBeatsEveryGroupAllow(): void
+    {
+        $groups = [self::entry('allow', true, 3), self::entry('allow', true, 1), self::entry('deny', true, 2)];
+
+        $this->assertSame('group_deny#2', self::rule(PermissionRuleHelper::decide(null, $groups)));
+    }
+
+    public function testFirstGroupAllowWinsInPrecedenceOrder(): void
+    {
+        $groups = [self::entry('allow', true, 3), self::entry('allow', true, 1)];
+
+        $this->assertSame('group_allow#3', self::rule(PermissionRuleHelper::decide(null, $groups)));
+    }
+
+    public function testEntriesOutsideTheirWindowAreSkippedAndCounted(): void
+    {
+        // An expired user deny no longer blocks, and a scheduled group deny does not block yet
+        $decided = PermissionRuleHelper::decide(self::entry('deny', false), [self::entry('deny', false, 2), self::entry('allow', true, 4)]);
+
+        $this->assertSame('group_allow#4', self::rule($decided));
+        $this->assertSame(2, $decided['inactive_entries']);
+        $this->assertSame([4], array_column($decided['active_group_entries'], 'group_id'));
+    }
+
+    public function testNoActiveEntryLeavesTheDecisionToTheResourceMode(): void
+    {
+        $decided = PermissionRuleHelper::decide(self::entry('allow', false), [self::entry('allow', false, 1)]);
+
+        $this->assertNull($decided['decision']);
+        $this->assertSame(2, $decided['inactive_entries']);
+        $this->assertNull(PermissionRuleHelper::decide(null, [])['decision']);
+    }
+
+    public function testRuleInputNormalizesTheWindow(): void
+    {
+        $parsed = PermissionRuleHelper::parseRuleInput(['effect' => 'deny', 'starts_at' => '2025-03-01T08:00', 'expires_at' => '2025-03-02 08:00:30']);
+
+        $this->assertNull($parsed['error']);
+        $this->assertSame(['effect' => 'deny', 'starts_at' => '2025-03-01 08:00:00', 'expires_at' => '2025-03-02 08:00:30'], $parsed['rule']);
+    }
+
+    public function testRuleInputRejectsEmptyAndInvalidWindows(): void
+    {
+        $this->assertSame('expires_at must be after starts_at', PermissionRuleHelper::parseRuleInput(['starts_at' => '2025-03-01 08:00', 'expires_at' => '2025-03-01 08:00'])['error']);
+        $this->assertStringContains('starts_at must be a date', (string) PermissionRuleHelper::parseRuleInput(['starts_at' => '2025-02-30 08:00'])['error']);
+        $this->assertSame('effect must be allow or deny', PermissionRuleHelper::parseRuleInput(['effect' => 'block'])['error']);
+    }
+
+    public function testRuleInputKeepsMissingKeysAndClearsNulls(): void
+    {
+        $existing = ['effect' => 'deny', 'starts_at' => '2025-01-01 00:00:00', 'expires_at' => '2025-12-31 00:00:00'];
+        $parsed = PermissionRuleHelper::parseRuleInput(['expires_at' => null], $existing);
+
+        $this->assertSame(['effect' => 'deny', 'starts_at' => '2025-01-01 00:00:00', 'expires_at' => null], $parsed['rule']);
+    }
+}
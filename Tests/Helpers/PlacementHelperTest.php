@@ -0,0 +1,86 @@
+<?php
+
+/*
+ * This file is part of FeatherPanel.
+ *
+ * Copyright (C) 2025 MythicalSystems Studios
+ * Copyright (C) 2025 FeatherPanel Contributors
+ * Copyright (C) 2025 Cassian Gherman (aka NaysKutzu)
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * See the LICENSE file or <https://www.gnu.org/licenses/>.
+ */
+
+namespace App\Addons\billingresourcesnewservers\Tests\Helpers;
+
+use App\Addons\billingresourcesnewservers\Tests\TestCase;
+use App\Addons\billingresourcesnewservers\Helpers\PlacementHelper;
+
+class PlacementHelperTest extends TestCase
+{
+    /**
+     * Eligible nodes keyed by node ID, as resolveNode passes them.
+     *
+     * @param array<int, array{0: float, 1: int}> $nodes Node ID => [load score, weight]
+     *
+     * @return array<int, array{weight: int, metrics: array{score: float}}>
+     */
+    private static function candidates(array $nodes): array
+    {
+        $candidates = [];
+        foreach ($nodes as $nodeId => [$score, $weight]) {
+            $candidates[$nodeId] = ['weight' => $weight, 'metrics' => ['score' => $score]];
+        }
+        ksort($candidates);
+
+        return $candidates;
+    }
+
+    public function testLeastCapacityPicksTheLowestScore(): void
+    {
+        $candidates = self::candidates([1 => [0.6, 1], 2 => [0.2, 1], 3 => [0.4, 1]]);
+
+        $this->assertSame(2, PlacementHelper::pickNode('least_capacity', $candidates));
+    }
+
+    public function testFillFirstPicksTheHighestScore(): void
+    {
+        $candidates = self::candidates([1 => [0.6, 1], 2 => [0.2, 1], 3 => [0.9, 1]]);
+
+        $this->assertSame(3, PlacementHelper::pickNode('fill_first', $candidates));
+    }
+
+    public function testScoreTiesGoToTheLowestNodeId(): void
+    {
+        $candidates = self::candidates([7 => [0.5, 1], 4 => [0.5, 1], 9 => [0.5, 1]]);
+
+        $this->assertSame(4, PlacementHelper::pickNode('least_capacity', $candidates));
+        $this->assertSame(4, PlacementHelper::pickNode('fill_first', $candidates));
+    }
+
+    public function testRoundRobinTakesTheNextNodeAndWrapsAround(): void
+    {
+        $candidates = self::candidates([2 => [0.5, 1], 5 => [0.5, 1], 8 => [0.5, 1]]);
+
+        $this->assertSame(2, PlacementHelper::pickNode('round_robin', $candidates));
+        $this->assertSame(5, PlacementHelper::pickNode('round_robin', $candidates, 2));
+        $this->assertSame(8, PlacementHelper::pickNode('round_robin', $candidates, 6));
+        $this->assertSame(2, PlacementHelper::pickNode('round_robin', $candidates, 8));
+    }
+
+    public function testRandomWeightedFollowsTheWeights(): void
+    {
+        $candidates = self::candidates([1 => [0.5, 1], 2 => [0.5, 3], 3 => [0.5, 2]]);
+
+        $this->assertSame(1, PlacementHelper::pickNode('random_weighted', $candidates, null, 1));
+        $this->assertSame(2, PlacementHelper::pickNode('random_weighted', $candidates, null, 2));
+        $this->assertSame(2, PlacementHelper::pickNode('random_weighted', $candidates, null, 4));
+        $this->assertSame(3, PlacementHelper::pickNode('random_weighted', $candidates, null, 5));
+        $this->assertSame(3, PlacementHelper::pickNode('random_weighted', $candidates, null, 6));
+        $this->assertTrue(in_array(PlacementHelper::pickNode('random_weighted', $candidates), [1, 2, 3], true));
+    }
+}
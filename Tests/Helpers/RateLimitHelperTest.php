@@ -0,0 +1,121 @@
+<?php
+
+/*
+ * This file is part of FeatherPanel.
+ *
+ * Copyright (C) 2025 MythicalSystems Studios
+ * Copyright (C) 2025 FeatherPanel Contributors
+ * Copyright (C) 2025 Cassian Gherman (aka NaysKutzu)
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * See the LICENSE file or <https://www.gnu.org/licenses/>.
+ */
+
+namespace App\Addons\billingresourcesnewservers\Tests\Helpers;
+
+use App\Addons\billingresourcesnewservers\Tests\TestCase;
+use App\Addons\billingresourcesnewservers\Helpers\RateLimitHelper;
+
+class RateLimitHelperTest extends TestCase
+{
+    /**
+     * @param array<string,int> $overrides
+     *
+     * @return array<string,int>
+     */
+    private static function limits(array $overrides = []): array
+    {
+        return $overrides + [
+            'rate_limit_max_creations' => 0,
+            'rate_limit_window_minutes' => 60,
+            'creation_cooldown_seconds' => 0,
+            'deletion_cooldown_seconds' => 0,
+        ];
+    }
+
+    public function testNoLimitsNeverWait(): void
+    {
+        $this->assertSame(['retry_after' => 0, 'reason' => null], RateLimitHelper::computeWait(self::limits(), 1, 1, [5, 4, 3, 2, 1]));
+    }
+
+    public function testWindowAllowsUpToTheMaximum(): void
+    {
+        $limits = self::limits(['rate_limit_max_creations' => 3, 'rate_limit_window_minutes' => 10]);
+
+        $this->assertSame(['retry_after' => 0, 'reason' => null], RateLimitHelper::computeWait($limits, null, null, []));
+        $this->assertSame(['retry_after' => 0, 'reason' => null], RateLimitHelper::computeWait($limits, null, null, [500, 100]));
+    }
+
+    public function testFullWindowWaitsForTheOldestCreationToLeave(): void
+    {
+        $limits = self::limits(['rate_limit_max_creations' => 3, 'rate_limit_window_minutes' => 10]);
+
+        $this->assertSame(['retry_after' => 100, 'reason' => 'window'], RateLimitHelper::computeWait($limits, null, null, [500, 300, 60]));
+    }
+
+    public function testOverfullWindowWaitsUntilOnlyOneLessThanTheMaximumIsLeft(): void
+    {
+        // Lowering the limit can leave more creations in the window than allowed: two of them have to leave
+        $limits = self::limits(['rate_limit_max_creations' => 2, 'rate_limit_window_minutes' => 10]);
+
+        $this->assertSame(['retry_after' => 300, 'reason' => 'window'], RateLimitHelper::computeWait($limits, null, null, [550, 300, 30]));
+    }
+
+    public function testCreationCooldown(): void
+    {
+        $limits = self::limits(['creation_cooldown_seconds' => 120]);
+
+        $this->assertSame(['retry_after' => 90, 'reason' => 'cooldown'], RateLimitHelper::computeWait($limits, null, 30, []));
+        $this->assertSame(['retry_after' => 0, 'reason' => null], RateLimitHelper::computeWait($limits, null, 120, []));
+        $this->assertSame(['retry_after' => 0, 'reason' => null], RateLimitHelper::computeWait($limits, null, null, []));
+    }
+
+    public function testDeletionCooldownOnlyAfterADeletion(): void
+    {
+        $limits = self::limits(['deletion_cooldown_seconds' => 600]);
+
+        $this->assertSame(['retry_after' => 0, 'reason' => null], RateLimitHelper::computeWait($limits, null, 5, []));
+        $this->assertSame(['retry_after' => 540, 'reason' => 'deletion_cooldown'], RateLimitHelper::computeWait($limits, 60, 5, []));
+    }
+
+    public function testLongestWaitWins(): void
+    {
+        $limits = self::limits([
+            'rate_limit_max_creations' => 1,
+            'rate_limit_window_minutes' => 5,
+            'creation_cooldown_seconds' => 60,
+            'deletion_cooldown_seconds' => 100,
+        ]);
+
+        $this->assertSame(['retry_after' => 250, 'reason' => 'window'], RateLimitHelper::computeWait($limits, 90, 50, [50]));
+        $this->assertSame(['retry_after' => 90, 'reason' => 'deletion_cooldown'], RateLimitHelper::computeWait($limits, 10, 280, [280]));
+        $this->assertSame(['retry_after' => 55, 'reason' => 'cooldown'], RateLimitHelper::computeWait($limits, 95, 5, []));
+    }
+
+    public function testRolledBackFailuresDoNotCount(): void
+    {
+        $creations = [
+            ['age' => 500, 'state' => 'done', 'server_id' => 11],
+            ['age' => 300, 'state' => 'failed', 'server_id' => 12],
+            ['age' => 200, 'state' => 'failed', 'server_id' => null],
+            ['age' => 30, 'state' => 'queued', 'server_id' => null],
+            ['age' => 10, 'state' => 'failed', 'server_id' => null],
+        ];
+
+        // A failure that kept its server can still be retried and counts; one that was rolled back does not
+        $this->assertSame([500, 300, 30], RateLimitHelper::countedCreationAges($creations));
+    }
+
+    public function testRolledBackFailureStartsNoCooldown(): void
+    {
+        $limits = self::limits(['creation_cooldown_seconds' => 120, 'rate_limit_max_creations' => 1, 'rate_limit_window_minutes' => 10]);
+        $ages = RateLimitHelper::countedCreationAges([['age' => 15, 'state' => 'failed', 'server_id' => null]]);
+
+        $this->assertSame([], $ages);
+        $this->assertSame(['retry_after' => 0, 'reason' => null], RateLimitHelper::computeWait($limits, null, null, $ages));
+    }
+}
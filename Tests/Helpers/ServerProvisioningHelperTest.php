@@ -0,0 +1,76 @@
+<?php
+
+/*
+ * This file is part of FeatherPanel.
+ *
+ * Copyright (C) 2025 MythicalSystems Studios
+ * Copyright (C) 2025 FeatherPanel Contributors
+ * Copyright (C) 2025 Cassian Gherman (aka NaysKutzu)
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * See the LICENSE file or <https://www.gnu.org/licenses/>.
+ */
+
+namespace App\Addons\billingresourcesnewservers\Tests\Helpers;
+
+use App\Addons\billingresourcesnewservers\Tests\TestCase;
+use App\Addons\billingresourcesnewservers\Helpers\ServerProvisioningHelper;
+
+class ServerProvisioningHelperTest extends TestCase
+{
+    /** Side effects as the pipeline records them, oldest first */
+    private const SIDE_EFFECTS = [
+        ['type' => 'server', 'resource_id' => 12],
+        ['type' => 'allocation', 'resource_id' => 40],
+        ['type' => 'allocation', 'resource_id' => 41],
+        ['type' => 'wings', 'resource_id' => 'b6f1c2d4-uuid'],
+    ];
+
+    public function testUndoesSideEffectsNewestFirst(): void
+    {
+        $undone = [];
+        $result = ServerProvisioningHelper::undoInReverse(self::SIDE_EFFECTS, function (array $effect) use (&$undone): ?string {
+            $undone[] = $effect['type'] . ':' . $effect['resource_id'];
+
+            return null;
+        });
+
+        $this->assertSame(['wings:b6f1c2d4-uuid', 'allocation:41', 'allocation:40', 'server:12'], $undone);
+        $this->assertSame([], $result['remaining']);
+        $this->assertSame(['undone', 'undone', 'undone', 'undone'], array_column($result['steps'], 'status'));
+    }
+
+    public function testKeepsFailedSideEffectsOldestFirstAndGoesOn(): void
+    {
+        $result = ServerProvisioningHelper::undoInReverse(
+            self::SIDE_EFFECTS,
+            fn (array $effect): ?string => in_array($effect['resource_id'], [12, 41], true) ? 'still in use' : null
+        );
+
+        // A failure does not stop the rollback; everything older is still attempted
+        $this->assertSame(['wings', 'allocation', 'allocation', 'server'], array_column($result['steps'], 'type'));
+        $this->assertSame(['undone', 'failed', 'undone', 'failed'], array_column($result['steps'], 'status'));
+        $this->assertSame('still in use', $result['steps'][1]['error']);
+        $this->assertSame([self::SIDE_EFFECTS[0], self::SIDE_EFFECTS[2]], $result['remaining']);
+    }
+
+    public function testRetriedRollbackOnlyUndoesWhatIsLeft(): void
+    {
+        $first = ServerProvisioningHelper::undoInReverse(self::SIDE_EFFECTS, fn (array $effect): ?string => $effect['type'] === 'server' ? 'locked' : null);
+        $second = ServerProvisioningHelper::undoInReverse($first['remaining'], fn (array $effect): ?string => null);
+
+        $this->assertSame([['type' => 'server', 'resource_id' => 12, 'status' => 'undone', 'error' => null]], $second['steps']);
+        $this->assertSame([], $second['remaining']);
+    }
+
+    public function testNothingToUndo(): void
+    {
+        $result = ServerProvisioningHelper::undoInReverse([], fn (array $effect): ?string => 'never called');
+
+        $this->assertSame(['steps' => [], 'remaining' => []], $result);
+    }
+}
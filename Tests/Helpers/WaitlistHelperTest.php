@@ -0,0 +1,84 @@
+<?php
+
+/*
+ * This file is part of FeatherPanel.
+ *
+ * Copyright (C) 2025 MythicalSystems Studios
+ * Copyright (C) 2025 FeatherPanel Contributors
+ * Copyright (C) 2025 Cassian Gherman (aka NaysKutzu)
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * See the LICENSE file or <https://www.gnu.org/licenses/>.
+ */
+
+namespace App\Addons\billingresourcesnewservers\Tests\Helpers;
+
+use App\Addons\billingresourcesnewservers\Tests\TestCase;
+use App\Addons\billingresourcesnewservers\Helpers\WaitlistHelper;
+
+class WaitlistHelperTest extends TestCase
+{
+    /**
+     * Serve a line where each entry already knows its outcome, recording the order entries were served in.
+     *
+     * @param list<string> $outcomes Outcome per entry, first in line first
+     *
+     * @return array{served: list<int>, outcomes: array<string,int>}
+     */
+    private static function serve(array $outcomes): array
+    {
+        $entries = [];
+        foreach ($outcomes as $index => $outcome) {
+            $entries[] = ['id' => $index + 1, 'outcome' => $outcome];
+        }
+        $served = [];
+        $counts = WaitlistHelper::serveLine($entries, function (array $entry) use (&$served): string {
+            $served[] = $entry['id'];
+
+            return $entry['outcome'];
+        });
+
+        return ['served' => $served, 'outcomes' => $counts];
+    }
+
+    public function testBlockedHeadEntryDoesNotStallTheLine(): void
+    {
+        // The first user is rate limited; the free slot goes to the second one
+        $line = self::serve(['skipped', 'created', 'no_room']);
+
+        $this->assertSame([1, 2, 3], $line['served']);
+        $this->assertSame(['skipped' => 1, 'created' => 1, 'no_room' => 1], $line['outcomes']);
+    }
+
+    public function testLineStopsOnceTheSlotIsGone(): void
+    {
+        $this->assertSame([1, 2], self::serve(['created', 'no_room', 'created'])['served']);
+        $this->assertSame([1], self::serve(['no_room', 'created'])['served']);
+    }
+
+    public function testLineStopsAtTheFirstOffer(): void
+    {
+        $line = self::serve(['skipped', 'offered', 'skipped']);
+
+        $this->assertSame([1, 2], $line['served']);
+        $this->assertSame(['skipped' => 1, 'offered' => 1], $line['outcomes']);
+    }
+
+    public function testLineStopsWhenThePassRunsOutOfTime(): void
+    {
+        $line = self::serve(['created', 'stopped', 'created']);
+
+        $this->assertSame([1, 2], $line['served']);
+        $this->assertSame(['created' => 1, 'stopped' => 1], $line['outcomes']);
+    }
+
+    public function testFailedAndHeldEntriesLeaveTheLine(): void
+    {
+        $this->assertSame([1, 2, 3], self::serve(['failed', 'held', 'created'])['served']);
+        $this->assertSame([], self::serve([])['outcomes']);
+    }
+}
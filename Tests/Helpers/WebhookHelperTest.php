@@ -0,0 +1,61 @@
+<?php
+
+/*
+ * This file is part of FeatherPanel.
+ *
+ * Copyright (C) 2025 MythicalSystems Studios
+ * Copyright (C) 2025 FeatherPanel Contributors
+ * Copyright (C) 2025 Cassian Gherman (aka NaysKutzu)
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * See the LICENSE file or <https://www.gnu.org/licenses/>.
+ */
+
+namespace App\Addons\billingresourcesnewservers\Tests\Helpers;
+
+use App\Addons\billingresourcesnewservers\Tests\TestCase;
+use App\Addons\billingresourcesnewservers\Helpers\WebhookHelper;
+
+class WebhookHelperTest extends TestCase
+{
+    public function testSignatureIsAnHmacOfTimestampAndBody(): void
+    {
+        // Receivers compute HMAC-SHA256("<timestamp>.<raw body>", secret) and compare it with the header
+        $signature = WebhookHelper::sign('topsecret', '1700000000', '{"event":"server.created","server_id":42}');
+
+        $this->assertSame('sha256=33fc7f2efb2b190416f701ebf512ed855f3a1a60f228c636dcb6c33ede1072e6', $signature);
+        $this->assertFalse($signature === WebhookHelper::sign('topsecret', '1700000001', '{"event":"server.created","server_id":42}'));
+        $this->assertFalse($signature === WebhookHelper::sign('othersecret', '1700000000', '{"event":"server.created","server_id":42}'));
+    }
+
+    public function testSuccessfulAnswersAreDelivered(): void
+    {
+        $this->assertSame('delivered', WebhookHelper::nextStatus(200, 1, 5));
+        $this->assertSame('delivered', WebhookHelper::nextStatus(204, 5, 5));
+    }
+
+    public function testFailuresRetryUntilTheLastAttempt(): void
+    {
+        $this->assertSame('pending', WebhookHelper::nextStatus(500, 1, 5));
+        $this->assertSame('pending', WebhookHelper::nextStatus(301, 4, 5));
+        $this->assertSame('pending', WebhookHelper::nextStatus(null, 2, 5));
+        $this->assertSame('failed', WebhookHelper::nextStatus(500, 5, 5));
+        $this->assertSame('failed', WebhookHelper::nextStatus(null, 1, 1));
+        $this->assertSame('failed', WebhookHelper::nextStatus(404, 1, 0));
+    }
+
+    public function testRetryDelayDoublesUpToTheCap(): void
+    {
+        $this->assertSame(WebhookHelper::RETRY_DELAY, WebhookHelper::retryDelay(0));
+        $this->assertSame(60, WebhookHelper::retryDelay(1));
+        $this->assertSame(120, WebhookHelper::retryDelay(2));
+        $this->assertSame(240, WebhookHelper::retryDelay(3));
+        $this->assertSame(1920, WebhookHelper::retryDelay(6));
+        $this->assertSame(WebhookHelper::MAX_RETRY_DELAY, WebhookHelper::retryDelay(7));
+        $this->assertSame(WebhookHelper::MAX_RETRY_DELAY, WebhookHelper::retryDelay(40));
+    }
+}
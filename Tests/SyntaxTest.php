@@ -0,0 +1,51 @@
+<?php
+
+/*
+ * This file is part of FeatherPanel.
+ *
+ * Copyright (C) 2025 MythicalSystems Studios
+ * Copyright (C) 2025 FeatherPanel Contributors
+ * Copyright (C) 2025 Cassian Gherman (aka NaysKutzu)
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * See the LICENSE file or <https://www.gnu.org/licenses/>.
+ */
+
+namespace App\Addons\billingresourcesnewservers\Tests;
+
+/**
+ * Syntax check of every PHP file of the plugin (the same parse php -l does, without a subprocess).
+ */
+class SyntaxTest extends TestCase
+{
+    /** Directories that hold no plugin PHP */
+    private const SKIPPED_DIRECTORIES = ['.git', 'node_modules', 'Frontend'];
+
+    public function testEveryPhpFileParses(): void
+    {
+        $root = dirname(__DIR__);
+        $files = new \RecursiveIteratorIterator(new \RecursiveCallbackFilterIterator(
+            new \RecursiveDirectoryIterator($root, \FilesystemIterator::SKIP_DOTS),
+            fn (\SplFileInfo $file) => !($file->isDir() && in_array($file->getFilename(), self::SKIPPED_DIRECTORIES, true))
+        ));
+
+        $checked = 0;
+        foreach ($files as $file) {
+            if ($file->getExtension() !== 'php') {
+                continue;
+            }
+            try {
+                token_get_all((string) file_get_contents($file->getPathname()), TOKEN_PARSE);
+            } catch (\ParseError $e) {
+                $this->fail(substr($file->getPathname(), strlen($root) + 1) . ':' . $e->getLine() . ' ' . $e->getMessage());
+            }
+            ++$checked;
+        }
+
+        $this->assertTrue($checked > 0, 'no PHP files found');
+    }
+}
@@ -0,0 +1,88 @@
+<?php
+
+/*
+ * This file is part of FeatherPanel.
+ *
+ * Copyright (C) 2025 MythicalSystems Studios
+ * Copyright (C) 2025 FeatherPanel Contributors
+ * Copyright (C) 2025 Cassian Gherman (aka NaysKutzu)
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * See the LICENSE file or <https://www.gnu.org/licenses/>.
+ */
+
+namespace App\Addons\billingresourcesnewservers\Tests;
+
+/**
+ * Base class of the plugin's checks.
+ *
+ * The checks cover the pure parts of the helpers (no database, panel or HTTP), so they run with
+ * a plain PHP CLI and no dependencies. Every public method whose name starts with "test" is run
+ * by Tests/run.php; a failed assertion throws and fails that method only.
+ */
+abstract class TestCase
+{
+    /**
+     * Assert that two values are identical (===).
+     */
+    protected function assertSame(mixed $expected, mixed $actual, string $message = ''): void
+    {
+        if ($expected !== $actual) {
+            $this->fail(($message !== '' ? $message . ': ' : '') . 'expected ' . self::export($expected) . ', got ' . self::export($actual));
+        }
+    }
+
+    /**
+     * Assert that a value is true.
+     */
+    protected function assertTrue(mixed $actual, string $message = ''): void
+    {
+        $this->assertSame(true, $actual, $message);
+    }
+
+    /**
+     * Assert that a value is false.
+     */
+    protected function assertFalse(mixed $actual, string $message = ''): void
+    {
+        $this->assertSame(false, $actual, $message);
+    }
+
+    /**
+     * Assert that a value is null.
+     */
+    protected function assertNull(mixed $actual, string $message = ''): void
+    {
+        $this->assertSame(null, $actual, $message);
+    }
+
+    /**
+     * Assert that a string contains another one.
+     */
+    protected function assertStringContains(string $needle, string $haystack, string $message = ''): void
+    {
+        if (!str_contains($haystack, $needle)) {
+            $this->fail(($message !== '' ? $message . ': ' : '') . self::export($haystack) . ' does not contain ' . self::export($needle));
+        }
+    }
+
+    /**
+     * Fail the running check.
+     */
+    protected function fail(string $message): never
+    {
+        throw new AssertionFailed($message);
+    }
+
+    /**
+     * Short one-line representation of a value for failure messages.
+     */
+    private static function export(mixed $value): string
+    {
+        return is_string($value) ? '"' . $value . '"' : (string) json_encode($value, JSON_UNESCAPED_SLASHES | JSON_UNESCAPED_UNICODE);
+    }
+}
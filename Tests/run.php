@@ -0,0 +1,70 @@
+<?php
+
+/*
+ * This file is part of FeatherPanel.
+ *
+ * Copyright (C) 2025 MythicalSystems Studios
+ * Copyright (C) 2025 FeatherPanel Contributors
+ * Copyright (C) 2025 Cassian Gherman (aka NaysKutzu)
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * See the LICENSE file or <https://www.gnu.org/licenses/>.
+ */
+
+/*
+ * Runs the plugin's checks without the panel: php Tests/run.php [filter]
+ *
+ * Plugin classes are loaded from this repository; panel classes are not available, so
+ * checks only call the pure parts of the helpers. Exits with 1 when a check fails.
+ */
+
+const PLUGIN_NAMESPACE = 'App\\Addons\\billingresourcesnewservers\\';
+
+$root = dirname(__DIR__);
+
+spl_autoload_register(function (string $class) use ($root): void {
+    if (str_starts_with($class, PLUGIN_NAMESPACE)) {
+        $file = $root . '/' . str_replace('\\', '/', substr($class, strlen(PLUGIN_NAMESPACE))) . '.php';
+        if (is_file($file)) {
+            require $file;
+        }
+    }
+});
+
+$filter = $argv[1] ?? '';
+$passed = 0;
+$failures = [];
+
+$files = array_merge(glob(__DIR__ . '/*Test.php') ?: [], glob(__DIR__ . '/*/*Test.php') ?: []);
+sort($files);
+foreach ($files as $file) {
+    $class = PLUGIN_NAMESPACE . 'Tests\\' . str_replace('/', '\\', substr($file, strlen(__DIR__) + 1, -4));
+    foreach (get_class_methods($class) as $method) {
+        $name = substr($class, strlen(PLUGIN_NAMESPACE . 'Tests\\')) . '::' . $method;
+        if (!str_starts_with($method, 'test') || ($filter !== '' && !str_contains($name, $filter))) {
+            continue;
+        }
+
+        try {
+            (new $class())->{$method}();
+            ++$passed;
+            echo '.';
+        } catch (Throwable $e) {
+            $failures[] = $name . PHP_EOL . '  ' . $e->getMessage()
+                . ($e instanceof App\Addons\billingresourcesnewservers\Tests\AssertionFailed ? '' : ' (' . $e::class . ' in ' . $e->getFile() . ':' . $e->getLine() . ')');
+            echo 'F';
+        }
+    }
+}
+
+echo PHP_EOL . PHP_EOL;
+foreach ($failures as $failure) {
+    echo 'FAILED ' . $failure . PHP_EOL . PHP_EOL;
+}
+echo $passed . ' passed, ' . count($failures) . ' failed' . PHP_EOL;
+
+exit(empty($failures) && $passed > 0 ? 0 : 1);